@@ -1,19 +1,59 @@
 import { defineBackend } from '@aws-amplify/backend';
+import { Duration, Stack } from 'aws-cdk-lib';
+import {
+  AuthorizationType,
+  CognitoUserPoolsAuthorizer,
+  Cors,
+  EndpointType,
+  LambdaIntegration,
+  ResponseTransferMode,
+  RestApi,
+} from 'aws-cdk-lib/aws-apigateway';
 import { Effect, PolicyStatement } from 'aws-cdk-lib/aws-iam';
 import { StartingPosition } from 'aws-cdk-lib/aws-lambda';
-import { DynamoEventSource } from 'aws-cdk-lib/aws-lambda-event-sources';
+import { DynamoEventSource, SqsDlq } from 'aws-cdk-lib/aws-lambda-event-sources';
+import { Queue } from 'aws-cdk-lib/aws-sqs';
 import { auth } from './auth/resource';
 import { data } from './data/resource';
 import { acceptInvitation } from './functions/accept-invitation/resource';
-import { taskAgents } from './functions/task-agents/resource';
+import { startAgentJob, sweepAgentJobs, taskAgents, taskAgentsStreaming } from './functions/task-agents/resource';
+import { sendReminders } from './functions/send-reminders/resource';
+import { notifyEvents } from './functions/notify-events/resource';
+import { groupAccess } from './functions/group-access/resource';
 
 const backend = defineBackend({
   auth,
   data,
   acceptInvitation,
   taskAgents,
+  taskAgentsStreaming,
+  startAgentJob,
+  sweepAgentJobs,
+  sendReminders,
+  notifyEvents,
+  groupAccess,
 });
 
+// Functions that create Notifications call AppSync (so subscriptions fire) with their IAM role
+const graphqlEndpoint = `https://${backend.data.resources.graphqlApi.apiId}.appsync-api.${backend.stack.region}.amazonaws.com/graphql`;
+const notificationProducers = [
+  backend.acceptInvitation,
+  backend.sendReminders,
+  backend.notifyEvents,
+  backend.sweepAgentJobs,
+];
+
+for (const producer of notificationProducers) {
+  producer.addEnvironment('AMPLIFY_GRAPHQL_ENDPOINT', graphqlEndpoint);
+  producer.resources.lambda.addToRolePolicy(
+    new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: ['appsync:GraphQL'],
+      resources: [`${backend.data.resources.graphqlApi.arn}/types/Mutation/fields/createNotification`],
+    }),
+  );
+}
+
 // Grant the accept-invitation function access to the DynamoDB tables
 const listGroupTable = backend.data.resources.tables['ListGroup'];
 const groupInvitationTable = backend.data.resources.tables['GroupInvitation'];
@@ -26,53 +66,263 @@ groupInvitationTable.grantReadWriteData(backend.acceptInvitation.resources.lambd
 backend.acceptInvitation.addEnvironment('LISTGROUP_TABLE_NAME', listGroupTable.tableName);
 backend.acceptInvitation.addEnvironment('GROUPINVITATION_TABLE_NAME', groupInvitationTable.tableName);
 
-// Grant the task-agents function access to DynamoDB tables
+// Invitations are answered as the caller; their email is read from Cognito when the token has none
+backend.acceptInvitation.addEnvironment('USER_POOL_ID', backend.auth.resources.userPool.userPoolId);
+backend.acceptInvitation.resources.lambda.addToRolePolicy(
+  new PolicyStatement({
+    effect: Effect.ALLOW,
+    actions: ['cognito-idp:ListUsers'],
+    resources: [backend.auth.resources.userPool.userPoolArn],
+  }),
+);
+
+// Grant the task-agents functions access to DynamoDB tables
 const todoItemTable = backend.data.resources.tables['TodoItem'];
 const todoListTable = backend.data.resources.tables['TodoList'];
 const agentJobTable = backend.data.resources.tables['AgentJob'];
+const todoCommentTable = backend.data.resources.tables['TodoComment'];
+const groupMembershipTable = backend.data.resources.tables['GroupMembership'];
+const playbookTable = backend.data.resources.tables['Playbook'];
+const userSettingsTable = backend.data.resources.tables['UserSettings'];
+const agentUsageTable = backend.data.resources.tables['AgentUsage'];
+const agentSessionTable = backend.data.resources.tables['AgentSession'];
 
-todoItemTable.grantReadWriteData(backend.taskAgents.resources.lambda);
-todoListTable.grantReadData(backend.taskAgents.resources.lambda);
-agentJobTable.grantReadWriteData(backend.taskAgents.resources.lambda);
+// Both task-agents functions run the same agent runtime and tools
+for (const agentFunction of [backend.taskAgents, backend.taskAgentsStreaming]) {
+  todoItemTable.grantReadWriteData(agentFunction.resources.lambda);
+  todoListTable.grantReadData(agentFunction.resources.lambda);
+  listGroupTable.grantReadData(agentFunction.resources.lambda);
+  groupMembershipTable.grantReadData(agentFunction.resources.lambda);
+  playbookTable.grantReadData(agentFunction.resources.lambda);
+  userSettingsTable.grantReadData(agentFunction.resources.lambda);
+  agentUsageTable.grantReadWriteData(agentFunction.resources.lambda);
+  agentSessionTable.grantReadWriteData(agentFunction.resources.lambda);
+  agentJobTable.grantReadData(agentFunction.resources.lambda); // Quota checks count recent jobs
 
-backend.taskAgents.addEnvironment('TODOITEM_TABLE_NAME', todoItemTable.tableName);
-backend.taskAgents.addEnvironment('TODOLIST_TABLE_NAME', todoListTable.tableName);
-backend.taskAgents.addEnvironment('AGENTJOB_TABLE_NAME', agentJobTable.tableName);
-backend.taskAgents.addEnvironment('TZ', 'Australia/Sydney');
+  agentFunction.addEnvironment('TODOITEM_TABLE_NAME', todoItemTable.tableName);
+  agentFunction.addEnvironment('TODOLIST_TABLE_NAME', todoListTable.tableName);
+  agentFunction.addEnvironment('LISTGROUP_TABLE_NAME', listGroupTable.tableName);
+  agentFunction.addEnvironment('GROUPMEMBERSHIP_TABLE_NAME', groupMembershipTable.tableName);
+  agentFunction.addEnvironment('PLAYBOOK_TABLE_NAME', playbookTable.tableName);
+  agentFunction.addEnvironment('USERSETTINGS_TABLE_NAME', userSettingsTable.tableName);
+  agentFunction.addEnvironment('AGENTUSAGE_TABLE_NAME', agentUsageTable.tableName);
+  agentFunction.addEnvironment('AGENTSESSION_TABLE_NAME', agentSessionTable.tableName);
+  agentFunction.addEnvironment('AGENTJOB_TABLE_NAME', agentJobTable.tableName);
+
+  // Grant Bedrock permissions for Claude models (foundation models + cross-region inference profiles)
+  agentFunction.resources.lambda.addToRolePolicy(
+    new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: ['bedrock:InvokeModel', 'bedrock:InvokeModelWithResponseStream'],
+      resources: [
+        'arn:aws:bedrock:*::foundation-model/anthropic.claude-*',
+        `arn:aws:bedrock:*:${backend.stack.account}:inference-profile/global.anthropic.claude-*`,
+        `arn:aws:bedrock:*:${backend.stack.account}:inference-profile/au.anthropic.claude-*`,
+      ],
+    }),
+  );
+}
+
+agentJobTable.grantReadWriteData(backend.taskAgents.resources.lambda);
 // GraphQL endpoint URL is constructed from the API ID
-backend.taskAgents.addEnvironment(
-  'AMPLIFY_GRAPHQL_ENDPOINT',
-  `https://${backend.data.resources.graphqlApi.apiId}.appsync-api.${backend.stack.region}.amazonaws.com/graphql`
-);
+backend.taskAgents.addEnvironment('AMPLIFY_GRAPHQL_ENDPOINT', graphqlEndpoint);
 
-// Grant Bedrock permissions for Claude models (foundation models + cross-region inference profiles)
+// Grant AppSync permissions to update AgentJob via GraphQL
 backend.taskAgents.resources.lambda.addToRolePolicy(
   new PolicyStatement({
     effect: Effect.ALLOW,
-    actions: ['bedrock:InvokeModel', 'bedrock:InvokeModelWithResponseStream'],
-    resources: [
-      'arn:aws:bedrock:*::foundation-model/anthropic.claude-*',
-      `arn:aws:bedrock:*:${backend.stack.account}:inference-profile/global.anthropic.claude-*`,
-      `arn:aws:bedrock:*:${backend.stack.account}:inference-profile/au.anthropic.claude-*`,
-    ],
+    actions: ['appsync:GraphQL'],
+    resources: [`${backend.data.resources.graphqlApi.arn}/types/Mutation/*`],
   }),
 );
 
-// Grant AppSync permissions to update AgentJob via GraphQL
-backend.taskAgents.resources.lambda.addToRolePolicy(
+// Streamed runs are recorded as AgentJobs too, so the quotas count them (see streaming-handler.ts)
+backend.taskAgentsStreaming.addEnvironment('AMPLIFY_GRAPHQL_ENDPOINT', graphqlEndpoint);
+backend.taskAgentsStreaming.resources.lambda.addToRolePolicy(
   new PolicyStatement({
     effect: Effect.ALLOW,
     actions: ['appsync:GraphQL'],
-    resources: [`${backend.data.resources.graphqlApi.arn}/types/Mutation/*`],
+    resources: [
+      `${backend.data.resources.graphqlApi.arn}/types/Mutation/fields/createAgentJob`,
+      `${backend.data.resources.graphqlApi.arn}/types/Mutation/fields/updateAgentJob`,
+    ],
   }),
 );
 
 // Add DynamoDB Stream trigger for AgentJob table
-// Lambda will process new PENDING jobs automatically
+// Lambda will process new PENDING jobs automatically. A retried record is skipped once a
+// delivery has claimed its job (see async-handler.ts); records that still fail after the
+// retries are sent to the dead-letter queue, and the sweeper fails their jobs
+const agentJobDeadLetterQueue = new Queue(Stack.of(agentJobTable), 'AgentJobDeadLetterQueue', {
+  retentionPeriod: Duration.days(14),
+});
 backend.taskAgents.resources.lambda.addEventSource(
   new DynamoEventSource(agentJobTable, {
     startingPosition: StartingPosition.LATEST,
     batchSize: 1, // Process one job at a time
     retryAttempts: 2,
+    onFailure: new SqsDlq(agentJobDeadLetterQueue),
+  })
+);
+
+// Every 5 minutes, fail the jobs that stopped without finishing (see stuck-jobs.ts). Updates go
+// through AppSync so the owner's subscription sees the job fail
+agentJobTable.grantReadData(backend.sweepAgentJobs.resources.lambda);
+backend.sweepAgentJobs.addEnvironment('AGENTJOB_TABLE_NAME', agentJobTable.tableName);
+backend.sweepAgentJobs.resources.lambda.addToRolePolicy(
+  new PolicyStatement({
+    effect: Effect.ALLOW,
+    actions: ['appsync:GraphQL'],
+    resources: [`${backend.data.resources.graphqlApi.arn}/types/Mutation/fields/updateAgentJob`],
+  }),
+);
+
+// The startAgentJob mutation checks the quotas, then creates the job through AppSync;
+// cancelAgentJob sets cancelRequested through AppSync too
+const startAgentJobLambda = backend.startAgentJob.resources.lambda;
+agentJobTable.grantReadData(startAgentJobLambda);
+agentUsageTable.grantReadData(startAgentJobLambda);
+todoListTable.grantReadData(startAgentJobLambda);
+listGroupTable.grantReadData(startAgentJobLambda);
+groupMembershipTable.grantReadData(startAgentJobLambda);
+backend.startAgentJob.addEnvironment('AGENTJOB_TABLE_NAME', agentJobTable.tableName);
+backend.startAgentJob.addEnvironment('AGENTUSAGE_TABLE_NAME', agentUsageTable.tableName);
+backend.startAgentJob.addEnvironment('TODOLIST_TABLE_NAME', todoListTable.tableName);
+backend.startAgentJob.addEnvironment('LISTGROUP_TABLE_NAME', listGroupTable.tableName);
+backend.startAgentJob.addEnvironment('GROUPMEMBERSHIP_TABLE_NAME', groupMembershipTable.tableName);
+backend.startAgentJob.addEnvironment('AMPLIFY_GRAPHQL_ENDPOINT', graphqlEndpoint);
+startAgentJobLambda.addToRolePolicy(
+  new PolicyStatement({
+    effect: Effect.ALLOW,
+    actions: ['appsync:GraphQL'],
+    resources: [
+      `${backend.data.resources.graphqlApi.arn}/types/Mutation/fields/createAgentJob`,
+      `${backend.data.resources.graphqlApi.arn}/types/Mutation/fields/updateAgentJob`,
+    ],
+  }),
+);
+
+// Finished agent jobs are deleted by DynamoDB TTL once expiresAt (set by the Lambda) passes
+backend.data.resources.cfnResources.amplifyDynamoDbTables['AgentJob'].timeToLiveAttribute = {
+  attributeName: 'expiresAt',
+  enabled: true,
+};
+// Agent sessions likewise, a week after their last turn (see shared/agent-sessions.ts)
+backend.data.resources.cfnResources.amplifyDynamoDbTables['AgentSession'].timeToLiveAttribute = {
+  attributeName: 'expiresAt',
+  enabled: true,
+};
+// And notifications, a month after they were sent (see shared/notifications.ts)
+backend.data.resources.cfnResources.amplifyDynamoDbTables['Notification'].timeToLiveAttribute = {
+  attributeName: 'expiresAt',
+  enabled: true,
+};
+
+// Streaming REST endpoint for the task agents: POST /agents with the user's Cognito ID token.
+// The integration streams the Lambda's server-sent events through as they are written, which
+// also lifts API Gateway's 29 second limit (see streaming-handler.ts)
+const taskAgentsApiStack = backend.createStack('task-agents-api');
+const taskAgentsApi = new RestApi(taskAgentsApiStack, 'TaskAgentsApi', {
+  restApiName: 'task-agents',
+  endpointTypes: [EndpointType.REGIONAL],
+  defaultCorsPreflightOptions: {
+    allowOrigins: Cors.ALL_ORIGINS,
+    allowMethods: ['POST', 'OPTIONS'],
+    allowHeaders: Cors.DEFAULT_HEADERS,
+  },
+});
+const taskAgentsAuthorizer = new CognitoUserPoolsAuthorizer(taskAgentsApiStack, 'TaskAgentsAuthorizer', {
+  cognitoUserPools: [backend.auth.resources.userPool],
+});
+taskAgentsApi.root.addResource('agents').addMethod(
+  'POST',
+  new LambdaIntegration(backend.taskAgentsStreaming.resources.lambda, {
+    responseTransferMode: ResponseTransferMode.STREAM,
+    timeout: Duration.minutes(15),
+  }),
+  { authorizationType: AuthorizationType.COGNITO, authorizer: taskAgentsAuthorizer },
+);
+
+// src/lib/task-agents-api.ts reads the endpoint from amplify_outputs.json
+backend.addOutput({
+  custom: {
+    taskAgentsApiUrl: taskAgentsApi.url,
+    taskAgentsApiId: taskAgentsApi.restApiId,
+  },
+});
+
+// Grant the scheduled send-reminders function access to TodoItem
+todoItemTable.grantReadWriteData(backend.sendReminders.resources.lambda);
+
+backend.sendReminders.addEnvironment('TODOITEM_TABLE_NAME', todoItemTable.tableName);
+// Reminders show the due date in each owner's timezone
+userSettingsTable.grantReadData(backend.sendReminders.resources.lambda);
+backend.sendReminders.addEnvironment('USERSETTINGS_TABLE_NAME', userSettingsTable.tableName);
+
+// Email delivery is enabled by setting REMINDER_FROM_EMAIL (a verified SES identity) at deploy time
+const reminderFromEmail = process.env.REMINDER_FROM_EMAIL;
+if (reminderFromEmail) {
+  backend.sendReminders.addEnvironment('REMINDER_FROM_EMAIL', reminderFromEmail);
+  backend.sendReminders.addEnvironment('USER_POOL_ID', backend.auth.resources.userPool.userPoolId);
+  backend.sendReminders.resources.lambda.addToRolePolicy(
+    new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: ['ses:SendEmail'],
+      resources: ['*'],
+    }),
+  );
+  backend.sendReminders.resources.lambda.addToRolePolicy(
+    new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: ['cognito-idp:ListUsers'],
+      resources: [backend.auth.resources.userPool.userPoolArn],
+    }),
+  );
+}
+
+// Webhook delivery is enabled by setting REMINDER_WEBHOOK_URL at deploy time
+const reminderWebhookUrl = process.env.REMINDER_WEBHOOK_URL;
+if (reminderWebhookUrl) {
+  backend.sendReminders.addEnvironment('REMINDER_WEBHOOK_URL', reminderWebhookUrl);
+}
+
+// Notify invitees when a GroupInvitation is created and assignees when a TodoItem is assigned
+backend.notifyEvents.addEnvironment('USER_POOL_ID', backend.auth.resources.userPool.userPoolId);
+backend.notifyEvents.addEnvironment('GROUPINVITATION_TABLE_NAME', groupInvitationTable.tableName);
+backend.notifyEvents.addEnvironment('TODOITEM_TABLE_NAME', todoItemTable.tableName);
+backend.notifyEvents.resources.lambda.addToRolePolicy(
+  new PolicyStatement({
+    effect: Effect.ALLOW,
+    actions: ['cognito-idp:ListUsers'],
+    resources: [backend.auth.resources.userPool.userPoolArn],
+  }),
+);
+backend.notifyEvents.resources.lambda.addEventSource(
+  new DynamoEventSource(groupInvitationTable, {
+    startingPosition: StartingPosition.LATEST,
+    batchSize: 10,
+    retryAttempts: 2,
+  })
+);
+backend.notifyEvents.resources.lambda.addEventSource(
+  new DynamoEventSource(todoItemTable, {
+    startingPosition: StartingPosition.LATEST,
+    batchSize: 10,
+    retryAttempts: 2,
   })
 );
+
+// Grant the group-access function (role-checked group operations) access to the tables it guards
+listGroupTable.grantReadWriteData(backend.groupAccess.resources.lambda);
+todoListTable.grantReadData(backend.groupAccess.resources.lambda);
+todoItemTable.grantReadWriteData(backend.groupAccess.resources.lambda);
+todoCommentTable.grantReadWriteData(backend.groupAccess.resources.lambda);
+groupMembershipTable.grantWriteData(backend.groupAccess.resources.lambda);
+groupMembershipTable.grantWriteData(backend.acceptInvitation.resources.lambda);
+
+backend.groupAccess.addEnvironment('LISTGROUP_TABLE_NAME', listGroupTable.tableName);
+backend.groupAccess.addEnvironment('TODOLIST_TABLE_NAME', todoListTable.tableName);
+backend.groupAccess.addEnvironment('TODOITEM_TABLE_NAME', todoItemTable.tableName);
+backend.groupAccess.addEnvironment('TODOCOMMENT_TABLE_NAME', todoCommentTable.tableName);
+backend.groupAccess.addEnvironment('GROUPMEMBERSHIP_TABLE_NAME', groupMembershipTable.tableName);
+backend.acceptInvitation.addEnvironment('GROUPMEMBERSHIP_TABLE_NAME', groupMembershipTable.tableName);
@@ -1,16 +1,34 @@
 import { type ClientSchema, a, defineData } from '@aws-amplify/backend';
 import { acceptInvitation } from '../functions/accept-invitation/resource';
+import { startAgentJob, sweepAgentJobs, taskAgents, taskAgentsStreaming } from '../functions/task-agents/resource';
+import { sendReminders } from '../functions/send-reminders/resource';
+import { notifyEvents } from '../functions/notify-events/resource';
+import { groupAccess } from '../functions/group-access/resource';
 
 const schema = a.schema({
   // User preferences and settings
   UserSettings: a.model({
     userId: a.id().required(),
-    defaultReminderMinutes: a.integer().default(1440), // 24 hours
+    defaultReminderOffsets: a.integer().array(), // Minutes before due date; defaults to [1440] (24 hours)
+    defaultReminderMinutes: a.integer(), // Legacy single default, read as defaultReminderOffsets until those are saved
     timezone: a.string().default('UTC'),
-  }).authorization(allow => [allow.owner().identityClaim('sub')]),
+    agentModel: a.string(), // Model tier (fast, standard, large) for all agent requests; unset routes per SOP
+  }).authorization(allow => [allow.owner().identityClaim('sub')]).secondaryIndexes(index => [
+    index('userId').name('byUser'), // The task-agents function reads agentModel by user
+  ]),
+
+  // A single reminder on a TodoItem: fires offsetMinutes before the due date
+  Reminder: a.customType({
+    offsetMinutes: a.integer().required(),
+    sentAt: a.datetime(), // Set once this reminder has been delivered
+  }),
 
   // Todo List model
   TodoList: a.model({
+    // Declared so lists can be indexed by owner; only the owner may read it back as theirs
+    owner: a.string().authorization(allow => [
+      allow.owner().identityClaim('sub').to(['read', 'delete']),
+    ]),
     name: a.string().required(),
     description: a.string(),
     sortOrder: a.integer().default(0), // For drag-and-drop ordering
@@ -18,10 +36,11 @@ const schema = a.schema({
     group: a.belongsTo('ListGroup', 'groupId'),
     todos: a.hasMany('TodoItem', 'listId'),
   }).authorization(allow => [
+    // Group members read shared lists through listGroupLists/getGroupList, which check their role
     allow.owner().identityClaim('sub'),
-    allow.authenticated().to(['read', 'update', 'delete']), // Allow owner to update groupId and members to read/delete
   ]).secondaryIndexes(index => [
     index('groupId').sortKeys(['name']).name('byGroup'),
+    index('owner').name('byOwner'),
   ]),
 
   // Todo Item model
@@ -32,32 +51,72 @@ const schema = a.schema({
     dueDate: a.datetime(),
     completedAt: a.datetime(),
     tags: a.string().array(),
-    reminderMinutes: a.integer(), // Minutes before due date
-    reminderSent: a.boolean().default(false),
+    reminders: a.ref('Reminder').array(),
+    // Legacy single reminder, read as `reminders` until those are written
+    reminderMinutes: a.integer(),
+    reminderSent: a.boolean(),
+    snoozedUntil: a.datetime(), // One-off reminder requested by snoozing a notification
     priority: a.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']),
     effortHours: a.float(),
     listId: a.id().required(),
     list: a.belongsTo('TodoList', 'listId'),
+    parentId: a.id(), // Optional: set when this item is a subtask of another item
+    parent: a.belongsTo('TodoItem', 'parentId'),
+    subtasks: a.hasMany('TodoItem', 'parentId'),
+    blockedBy: a.id().array(), // IDs of prerequisite tasks that must be COMPLETE first
+    recurrenceRule: a.string(), // RRULE-style schedule, e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=FR
+    nextOccurrenceId: a.id(), // Set once the next occurrence of a recurring item has been created
+    assigneeId: a.id(), // Group member (sub) responsible for the item in a shared list
+    assigneeEmail: a.string(), // Assignee's email for display
+    deletedAt: a.datetime(), // Set when the assistant deletes the item; hidden everywhere but kept for recovery
   }).authorization(allow => [
-    allow.authenticated().to(['read', 'create', 'update', 'delete']), // Allow all authenticated users first
-    allow.owner().identityClaim('sub'), // Then allow owner-specific access
+    allow.owner().identityClaim('sub'),
+    allow.ownerDefinedIn('assigneeId').identityClaim('sub').to(['read']), // Assignees see their tasks across lists
+    // Other group members read shared items through listGroupTodos/getGroupTodo and write them
+    // through writeGroupTodo, which check their role. Owners can put any listId on their own
+    // items, so the functions only count the list owner's items as part of a list
   ]).secondaryIndexes(index => [
     index('listId').sortKeys(['dueDate']).name('byList'),
     index('status').sortKeys(['dueDate']).name('byStatus'),
+    index('status').sortKeys(['snoozedUntil']).name('bySnooze'), // send-reminders finds elapsed snoozes
+    index('parentId').name('byParent'),
+    index('assigneeId').sortKeys(['dueDate']).name('byAssignee'),
+    // byList and byAssignee leave out items without a due date; these hold every item
+    index('listId').name('byListAll'),
+    index('assigneeId').name('byAssigneeAll'),
   ]),
 
   // List Group for sharing
   // Requirements: 7.1, 7.2, 10.3
   ListGroup: a.model({
+    owner: a.string().authorization(allow => [
+      allow.owner().identityClaim('sub').to(['read', 'delete']),
+      allow.authenticated().to(['read']),
+    ]),
     name: a.string().required(),
     description: a.string(),
     ownerEmail: a.string(), // Owner's email for display
     memberIds: a.string().array(), // Array of user IDs (sub claims)
     memberEmails: a.string().array(), // Array of member emails for display
+    memberRoles: a.string().array(), // "<sub>:<ROLE>" entries; members without one are EDITORs
     lists: a.hasMany('TodoList', 'groupId'),
   }).authorization(allow => [
     allow.owner().identityClaim('sub'),
-    allow.authenticated().to(['read', 'update']), // Allow reading for invitation acceptance and updating to join
+    allow.authenticated().to(['read']), // Joining, leaving and role changes go through custom mutations
+  ]).secondaryIndexes(index => [
+    index('owner').name('byOwner'),
+  ]),
+
+  // One record per group member, so a member's groups can be found without scanning ListGroup.
+  // Written by accept-invitation and group-access; the id is "<groupId>:<memberId>". Members who
+  // joined before this model existed have no record until they are re-invited.
+  GroupMembership: a.model({
+    groupId: a.id().required(),
+    memberId: a.id().required(),
+  }).authorization(allow => [
+    allow.ownerDefinedIn('memberId').identityClaim('sub').to(['read']),
+  ]).secondaryIndexes(index => [
+    index('memberId').name('byMember'),
   ]),
 
   // Group Invitation
@@ -69,9 +128,15 @@ const schema = a.schema({
     invitedUserId: a.id(),
     status: a.enum(['PENDING', 'ACCEPTED', 'DECLINED']),
     invitedBy: a.id().required(),
+    // Role granted on acceptance (EDITOR, COMMENTER or VIEWER); invitees can read but not change it
+    role: a.string().authorization(allow => [
+      allow.owner().identityClaim('sub'),
+      allow.authenticated().to(['read']),
+    ]),
   }).authorization(allow => [
     allow.owner().identityClaim('sub'),
-    allow.authenticated().to(['read', 'update']), // Allow invitees to read and accept/decline
+    // Invitees read their invitations; accepting and declining go through custom mutations
+    allow.authenticated().to(['read']),
   ]).secondaryIndexes(index => [
     index('invitedEmail').name('byEmail'),
     index('groupId').name('byGroup'),
@@ -80,36 +145,281 @@ const schema = a.schema({
   // AI Agent Job for async processing
   // Frontend creates job with PENDING status, subscribes to updates
   // Lambda picks up job, processes it, updates status to COMPLETE/FAILED
+  // Updates go through AppSync so the owner's onUpdate subscription sees each one live
+  // Owners cancel a PENDING/PROCESSING job through cancelAgentJob, which sets cancelRequested;
+  // the Lambda checks it between tool calls. Finished jobs expire after a retention period (TTL
+  // on expiresAt). Jobs are created only through startAgentJob, which enforces the agent quotas,
+  // and owners can only read them, so the usage quotas count from cannot be rewritten or deleted
   AgentJob: a.model({
+    owner: a.string().authorization(allow => [
+      allow.owner().identityClaim('sub').to(['read']),
+    ]),
     queryType: a.string().required(),
-    status: a.enum(['PENDING', 'PROCESSING', 'COMPLETE', 'FAILED']),
+    status: a.enum(['PENDING', 'PROCESSING', 'COMPLETE', 'FAILED', 'CANCELLED']),
     requestData: a.json(), // Store the request parameters
     resultData: a.json(), // Store the AI response
+    progress: a.json(), // Timeline of steps (specialist, tool calls) written while the job runs
     error: a.string(),
     startedAt: a.datetime(),
     completedAt: a.datetime(),
+    cancelRequested: a.boolean(),
+    expiresAt: a.timestamp(), // Epoch seconds; DynamoDB TTL deletes the job after this
+    modelId: a.string(), // The Bedrock model that answered
+    latencyMs: a.integer(), // How long the agent took to answer
+    inputTokens: a.integer(),
+    outputTokens: a.integer(),
+    trace: a.json(), // How the agent decided: hand-overs, tool calls and model usage (see shared/agent-trace.ts)
+    sessionId: a.id(), // The AgentSession to send follow-ups in
+  }).authorization(allow => [
+    allow.owner().identityClaim('sub').to(['read']),
+  ]).secondaryIndexes(index => [
+    index('owner').name('byOwner'), // Quotas count a user's recent jobs
+    index('status').name('byStatus'), // The sweeper looks up jobs still in flight
+  ]),
+
+  // A conversation about an agent's answer (see amplify/functions/shared/agent-sessions.ts),
+  // written by the task-agents functions as each turn is answered. Users read and delete their own
+  AgentSession: a.model({
+    owner: a.id().required(),
+    queryType: a.string().required(),
+    requestData: a.json(), // The request that started the session
+    messages: a.json(), // [{ role, content, at }] follow-ups and replies
+    result: a.json(), // The latest answer
+    expiresAt: a.timestamp(), // Epoch seconds; DynamoDB TTL deletes the session after this
+  }).authorization(allow => [
+    allow.ownerDefinedIn('owner').identityClaim('sub').to(['read', 'delete']),
+  ]),
+
+  // Monthly totals of a user's agent runs, added to by the task-agents functions as each run
+  // finishes; the id is "<userId>:<YYYY-MM>" (UTC months). Users read their own
+  AgentUsage: a.model({
+    userId: a.id().required(),
+    month: a.string().required(),
+    requests: a.integer(),
+    inputTokens: a.integer(),
+    outputTokens: a.integer(),
+    toolCalls: a.integer(),
+    costUsd: a.float(), // Estimated from on-demand model prices
+  }).authorization(allow => [
+    allow.ownerDefinedIn('userId').identityClaim('sub').to(['read']),
+  ]).secondaryIndexes(index => [
+    index('userId').sortKeys(['month']).name('byUser'),
+  ]),
+
+  // User-authored agent playbook: an SOP the orchestrator loads next to the built-in ones for
+  // requests from its owner, or from members of the group it is shared with. content is
+  // Markdown with a frontmatter tool allowlist (see amplify/functions/shared/playbooks.ts);
+  // the task-agents function validates it again before use
+  Playbook: a.model({
+    owner: a.string().authorization(allow => [
+      allow.owner().identityClaim('sub').to(['read', 'delete']),
+      allow.authenticated().to(['read']),
+    ]),
+    name: a.string().required(),
+    description: a.string(),
+    content: a.string().required(),
+    groupId: a.id(), // Optional: if shared with a group
+  }).authorization(allow => [
+    allow.owner().identityClaim('sub'),
+    allow.authenticated().to(['read']), // Group members run shared playbooks; only the owner edits them
+  ]).secondaryIndexes(index => [
+    index('owner').name('byOwner'),
+    index('groupId').name('byGroup'),
+  ]),
+
+  // In-app notification for a single user
+  // Created by backend functions through AppSync so the owner's onCreate subscription
+  // delivers them live; owners read and mark them read. Each expires a month after it is sent
+  // (TTL on expiresAt)
+  Notification: a.model({
+    type: a.enum(['REMINDER', 'INVITATION', 'MEMBER_JOINED', 'ASSIGNMENT', 'AGENT_JOB']),
+    title: a.string().required(),
+    body: a.string(),
+    todoId: a.id(),
+    listId: a.id(),
+    groupId: a.id(),
+    jobId: a.id(),
+    read: a.boolean().default(false),
+    expiresAt: a.timestamp(), // Epoch seconds; DynamoDB TTL deletes the notification after this
   }).authorization(allow => [
     allow.owner().identityClaim('sub'),
   ]),
 
-  // Custom mutation for atomically accepting invitations
-  // Avoids race condition when multiple users accept simultaneously
+  // Comment on a TodoItem; created through addTodoComment by members with at least the COMMENTER role
+  TodoComment: a.model({
+    todoId: a.id().required(),
+    listId: a.id().required(),
+    body: a.string().required(),
+    authorId: a.id().required(),
+    authorEmail: a.string(),
+  }).authorization(allow => [
+    // Everyone who can see the task reads its comments through listTodoComments
+    allow.ownerDefinedIn('authorId').identityClaim('sub').to(['read']),
+  ]).secondaryIndexes(index => [
+    index('todoId').name('byTodo'),
+  ]),
+
+  // Result of a role-checked group operation
+  GroupAccessResult: a.customType({
+    success: a.boolean().required(),
+    message: a.string().required(),
+    id: a.string(),
+  }),
+
+  // A page of records read through group-access; items is a JSON array of the stored records
+  GroupRecordPage: a.customType({
+    items: a.json().required(),
+    nextToken: a.string(),
+  }),
+
+  // Reads of shared lists, their tasks and comments for the list owner and members of the
+  // group it is shared with. Lists the caller cannot see read as null
+  listGroupLists: a
+    .query()
+    .arguments({ groupId: a.string().required() })
+    .returns(a.ref('GroupRecordPage'))
+    .authorization(allow => [allow.authenticated()])
+    .handler(a.handler.function(groupAccess)),
+
+  getGroupList: a
+    .query()
+    .arguments({ listId: a.string().required() })
+    .returns(a.json())
+    .authorization(allow => [allow.authenticated()])
+    .handler(a.handler.function(groupAccess)),
+
+  listGroupTodos: a
+    .query()
+    .arguments({ listId: a.string().required(), nextToken: a.string() })
+    .returns(a.ref('GroupRecordPage'))
+    .authorization(allow => [allow.authenticated()])
+    .handler(a.handler.function(groupAccess)),
+
+  getGroupTodo: a
+    .query()
+    .arguments({ todoId: a.string().required() })
+    .returns(a.json())
+    .authorization(allow => [allow.authenticated()])
+    .handler(a.handler.function(groupAccess)),
+
+  listTodoComments: a
+    .query()
+    .arguments({ todoId: a.string().required() })
+    .returns(a.ref('GroupRecordPage'))
+    .authorization(allow => [allow.authenticated()])
+    .handler(a.handler.function(groupAccess)),
+
+  // Group operations whose permissions depend on the caller's role in the group
+  setGroupMemberRole: a
+    .mutation()
+    .arguments({
+      groupId: a.string().required(),
+      memberId: a.string().required(),
+      role: a.string().required(),
+    })
+    .returns(a.ref('GroupAccessResult'))
+    .authorization(allow => [allow.authenticated()])
+    .handler(a.handler.function(groupAccess)),
+
+  removeGroupMember: a
+    .mutation()
+    .arguments({
+      groupId: a.string().required(),
+      memberId: a.string().required(),
+    })
+    .returns(a.ref('GroupAccessResult'))
+    .authorization(allow => [allow.authenticated()])
+    .handler(a.handler.function(groupAccess)),
+
+  // Create, update or delete a TodoItem in a list the caller does not own, or create the next
+  // occurrence of a completed recurring item in any list (linked in the same transaction)
+  writeGroupTodo: a
+    .mutation()
+    .arguments({
+      action: a.string().required(), // create | update | delete | createNextOccurrence
+      listId: a.string(),
+      todoId: a.string(),
+      input: a.json(),
+    })
+    .returns(a.ref('GroupAccessResult'))
+    .authorization(allow => [allow.authenticated()])
+    .handler(a.handler.function(groupAccess)),
+
+  addTodoComment: a
+    .mutation()
+    .arguments({
+      todoId: a.string().required(),
+      body: a.string().required(),
+    })
+    .returns(a.ref('GroupAccessResult'))
+    .authorization(allow => [allow.authenticated()])
+    .handler(a.handler.function(groupAccess)),
+
+  // Result of startAgentJob and cancelAgentJob: the job's id, or why it was refused (e.g. a
+  // quota error, see amplify/functions/shared/agent-quotas.ts)
+  AgentJobResult: a.customType({
+    success: a.boolean().required(),
+    message: a.string().required(),
+    id: a.string(),
+  }),
+
+  startAgentJob: a
+    .mutation()
+    .arguments({
+      queryType: a.string().required(),
+      requestData: a.json(),
+    })
+    .returns(a.ref('AgentJobResult'))
+    .authorization(allow => [allow.authenticated()])
+    .handler(a.handler.function(startAgentJob)),
+
+  // Ask one of the caller's PENDING/PROCESSING jobs to stop
+  cancelAgentJob: a
+    .mutation()
+    .arguments({
+      jobId: a.string().required(),
+    })
+    .returns(a.ref('AgentJobResult'))
+    .authorization(allow => [allow.authenticated()])
+    .handler(a.handler.function(startAgentJob)),
+
+  // Result of answering an invitation: the group joined or declined, or why it was refused
+  GroupInvitationResult: a.customType({
+    success: a.boolean().required(),
+    message: a.string().required(),
+    groupId: a.string(),
+  }),
+
+  // Custom mutations for answering invitations. The caller answers as themselves (from their
+  // token) and only invitations sent to their email; accepting atomically appends them to the
+  // group, avoiding a race when several users accept simultaneously
   acceptGroupInvitation: a
     .mutation()
     .arguments({
       invitationId: a.string().required(),
-      groupId: a.string().required(),
-      userId: a.string().required(),
-      userEmail: a.string().required(),
     })
-    .returns(a.customType({
-      success: a.boolean().required(),
-      message: a.string().required(),
-      groupId: a.string(),
-    }))
+    .returns(a.ref('GroupInvitationResult'))
     .authorization(allow => [allow.authenticated()])
     .handler(a.handler.function(acceptInvitation)),
-});
+
+  declineGroupInvitation: a
+    .mutation()
+    .arguments({
+      invitationId: a.string().required(),
+    })
+    .returns(a.ref('GroupInvitationResult'))
+    .authorization(allow => [allow.authenticated()])
+    .handler(a.handler.function(acceptInvitation)),
+}).authorization(allow => [
+  // Backend functions that create notifications via IAM-signed GraphQL calls
+  allow.resource(acceptInvitation),
+  allow.resource(taskAgents),
+  allow.resource(taskAgentsStreaming),
+  allow.resource(startAgentJob),
+  allow.resource(sweepAgentJobs),
+  allow.resource(sendReminders),
+  allow.resource(notifyEvents),
+]);
 
 export type Schema = ClientSchema<typeof schema>;
 
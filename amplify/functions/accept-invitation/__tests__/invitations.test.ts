@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { groupProblem, invitationProblem } from '../invitations';
+
+const invitation = {
+  id: 'invite-1',
+  groupId: 'group-1',
+  invitedEmail: 'bob@example.com',
+  status: 'PENDING',
+  owner: 'alice::alice',
+  role: 'VIEWER',
+};
+const bob = { userId: 'bob', email: 'Bob@Example.com' };
+const group = { id: 'group-1', owner: 'alice::alice', memberIds: ['carol'], memberRoles: ['carol:EDITOR'] };
+
+describe('invitationProblem', () => {
+  it('lets the invited email answer a pending invitation', () => {
+    expect(invitationProblem(invitation, bob)).toBeNull();
+  });
+
+  it('refuses anyone the invitation was not sent to', () => {
+    expect(invitationProblem(invitation, { userId: 'mallory', email: 'mallory@example.com' })).toBe(
+      'This invitation was sent to someone else',
+    );
+  });
+
+  it('refuses missing and already answered invitations', () => {
+    expect(invitationProblem(null, bob)).toBe('Invitation not found');
+    expect(invitationProblem({ ...invitation, status: 'DECLINED' }, bob)).toBe('Invitation is no longer pending');
+  });
+});
+
+describe('groupProblem', () => {
+  it("accepts invitations created by the group's owner", () => {
+    expect(groupProblem(invitation, group)).toBeNull();
+  });
+
+  it('ignores invitations anyone else created for the group', () => {
+    expect(groupProblem({ ...invitation, owner: 'carol::carol' }, group)).toBe('Invitation not found');
+    expect(groupProblem({ ...invitation, owner: 'bob::bob' }, group)).toBe('Invitation not found');
+  });
+
+  it('refuses invitations to groups that no longer exist', () => {
+    expect(groupProblem(invitation, null)).toBe('Group not found');
+  });
+});
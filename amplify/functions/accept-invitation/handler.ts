@@ -1,123 +1,244 @@
-import type { AppSyncResolverHandler } from 'aws-lambda';
+import type { AppSyncIdentityCognito, AppSyncResolverHandler } from 'aws-lambda';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, UpdateCommand, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { CognitoIdentityProviderClient, ListUsersCommand } from '@aws-sdk/client-cognito-identity-provider';
+import { DynamoDBDocumentClient, UpdateCommand, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
 import { Logger } from '@aws-lambda-powertools/logger';
+import { createAppSyncRequester, sendNotification } from '../shared/notifications';
+import { DEFAULT_MEMBER_ROLE, isMemberRole, membershipId, roleEntry, roleOf, type GroupRecord } from '../group-access/roles';
+import { groupProblem, invitationProblem, type InvitationCaller, type InvitationRecord } from './invitations';
 
 const logger = new Logger({ serviceName: 'accept-invitation' });
 
 const client = new DynamoDBClient({});
 const docClient = DynamoDBDocumentClient.from(client);
+const cognito = new CognitoIdentityProviderClient({});
 
-interface AcceptInvitationArguments {
+// The caller always answers as themselves: who they are comes from their token
+interface InvitationArguments {
   invitationId: string;
-  groupId: string;
-  userId: string;
-  userEmail: string;
 }
 
-interface AcceptInvitationResult {
+interface InvitationResult {
   success: boolean;
   message: string;
   groupId?: string;
 }
 
-export const handler: AppSyncResolverHandler<
-  AcceptInvitationArguments,
-  AcceptInvitationResult
-> = async (event) => {
-  logger.info('Received event', { event });
-  
-  const { invitationId, groupId, userId, userEmail } = event.arguments;
-  
-  logger.info('Parsed arguments', { invitationId, groupId, userId, userEmail });
-  
-  const listGroupTable = process.env.LISTGROUP_TABLE_NAME;
-  const groupInvitationTable = process.env.GROUPINVITATION_TABLE_NAME;
-
-  logger.info('Table names', { listGroupTable, groupInvitationTable });
-
-  if (!listGroupTable || !groupInvitationTable) {
-    logger.error('Table names not configured');
-    return {
-      success: false,
-      message: 'Table names not configured',
-    };
-  }
+// Tell the group owner someone joined; the join has already succeeded so errors are only logged
+async function notifyGroupOwner(listGroupTable: string, groupId: string, userId: string, userEmail: string) {
+  const endpoint = process.env.AMPLIFY_GRAPHQL_ENDPOINT;
+  if (!endpoint) return;
 
   try {
-    // First, verify the invitation exists and is pending
-    logger.info('Getting invitation', { invitationId });
-    const invitationResult = await docClient.send(
+    const groupResult = await docClient.send(
       new GetCommand({
-        TableName: groupInvitationTable,
-        Key: { id: invitationId },
-      })
-    );
-
-    logger.info('Invitation result', { item: invitationResult.Item });
-
-    if (!invitationResult.Item) {
-      logger.warn('Invitation not found');
-      return {
-        success: false,
-        message: 'Invitation not found',
-      };
-    }
-
-    if (invitationResult.Item.status !== 'PENDING') {
-      logger.warn('Invitation is no longer pending', { status: invitationResult.Item.status });
-      return {
-        success: false,
-        message: 'Invitation is no longer pending',
-      };
-    }
-
-    // Atomically append user to memberIds and memberEmails using list_append
-    // This avoids the read-modify-write race condition
-    logger.info('Updating group with new member', { groupId, userId, userEmail });
-    await docClient.send(
-      new UpdateCommand({
         TableName: listGroupTable,
         Key: { id: groupId },
-        UpdateExpression: 'SET memberIds = list_append(if_not_exists(memberIds, :empty), :userId), memberEmails = list_append(if_not_exists(memberEmails, :empty), :userEmail)',
-        ExpressionAttributeValues: {
-          ':userId': [userId],
-          ':userEmail': [userEmail.toLowerCase()],
-          ':empty': [],
-        },
-        // Ensure the group exists
-        ConditionExpression: 'attribute_exists(id)',
+        ProjectionExpression: '#name, #owner',
+        ExpressionAttributeNames: { '#name': 'name', '#owner': 'owner' },
       })
     );
+    const group = groupResult.Item;
+    if (!group?.owner || group.owner === userId) return;
 
-    logger.info('Group updated successfully');
+    await sendNotification(createAppSyncRequester(endpoint, process.env.AWS_REGION ?? ''), {
+      owner: group.owner,
+      type: 'MEMBER_JOINED',
+      title: `${userEmail} joined ${group.name ?? 'your group'}`,
+      groupId,
+    });
+  } catch (error) {
+    logger.warn('Failed to notify group owner', { groupId, error });
+  }
+}
+
+// The caller's email: the token's email claim, or their Cognito profile when the token has none
+// (access tokens carry no email)
+async function callerEmail(identity: AppSyncIdentityCognito): Promise<string | null> {
+  const claim = identity.claims?.email;
+  if (typeof claim === 'string' && claim) return claim;
+  const userPoolId = process.env.USER_POOL_ID;
+  if (!userPoolId) return null;
+  const result = await cognito.send(
+    new ListUsersCommand({ UserPoolId: userPoolId, Filter: `sub = "${identity.sub}"`, Limit: 1 })
+  );
+  return result.Users?.[0]?.Attributes?.find((attr) => attr.Name === 'email')?.Value ?? null;
+}
 
-    // Update invitation status to ACCEPTED
-    logger.info('Updating invitation status', { invitationId });
+async function getInvitation(groupInvitationTable: string, invitationId: string) {
+  const result = await docClient.send(new GetCommand({ TableName: groupInvitationTable, Key: { id: invitationId } }));
+  return (result.Item as InvitationRecord | undefined) ?? null;
+}
+
+// Record the answer, only while the invitation is still pending so it is answered once. False
+// when another answer got there first
+async function answerInvitation(
+  groupInvitationTable: string,
+  invitationId: string,
+  status: 'ACCEPTED' | 'DECLINED',
+  userId: string
+): Promise<boolean> {
+  try {
     await docClient.send(
       new UpdateCommand({
         TableName: groupInvitationTable,
         Key: { id: invitationId },
-        UpdateExpression: 'SET #status = :status, invitedUserId = :userId',
+        UpdateExpression: 'SET #status = :status, invitedUserId = :userId, updatedAt = :now',
+        ConditionExpression: '#status = :pending',
         ExpressionAttributeNames: {
           '#status': 'status',
         },
         ExpressionAttributeValues: {
-          ':status': 'ACCEPTED',
+          ':status': status,
+          ':pending': 'PENDING',
           ':userId': userId,
+          ':now': new Date().toISOString(),
         },
       })
     );
+    return true;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ConditionalCheckFailedException') return false;
+    throw error;
+  }
+}
+
+async function acceptInvitation(invitationId: string, caller: InvitationCaller): Promise<InvitationResult> {
+  const { userId, email: userEmail } = caller;
+  const listGroupTable = process.env.LISTGROUP_TABLE_NAME;
+  const groupInvitationTable = process.env.GROUPINVITATION_TABLE_NAME;
+  const groupMembershipTable = process.env.GROUPMEMBERSHIP_TABLE_NAME;
 
-    logger.info('Invitation accepted successfully', { groupId });
+  logger.info('Table names', { listGroupTable, groupInvitationTable, groupMembershipTable });
 
+  if (!listGroupTable || !groupInvitationTable || !groupMembershipTable) {
+    logger.error('Table names not configured');
     return {
-      success: true,
-      message: 'Successfully joined the group',
-      groupId,
+      success: false,
+      message: 'Table names not configured',
     };
+  }
+
+  // First, verify the invitation is pending and addressed to the caller
+  logger.info('Getting invitation', { invitationId });
+  const invitation = await getInvitation(groupInvitationTable, invitationId);
+  const invitationError = invitationProblem(invitation, caller);
+  if (invitationError) {
+    logger.warn('Invitation refused', { invitationId, reason: invitationError });
+    return { success: false, message: invitationError };
+  }
+
+  // The group comes from the invitation, which only the group's owner can have issued
+  const groupId = invitation!.groupId!;
+  const groupResult = await docClient.send(new GetCommand({ TableName: listGroupTable, Key: { id: groupId } }));
+  const group = groupResult.Item as GroupRecord | undefined;
+  const groupError = groupProblem(invitation!, group);
+  if (groupError) {
+    logger.warn('Invitation refused', { invitationId, groupId, reason: groupError });
+    return { success: false, message: groupError };
+  }
+
+  // Claim the invitation before joining, so it admits one member once
+  if (!(await answerInvitation(groupInvitationTable, invitationId, 'ACCEPTED', userId))) {
+    return { success: false, message: 'Invitation is no longer pending' };
+  }
+
+  if (roleOf(group, userId)) {
+    return { success: true, message: 'Already a member of the group', groupId };
+  }
+
+  // The role was chosen by the group owner when inviting
+  const invitedRole = invitation!.role;
+  const role = isMemberRole(invitedRole) ? invitedRole : DEFAULT_MEMBER_ROLE;
+
+  // Atomically append user to memberIds, memberEmails and memberRoles using list_append
+  // This avoids the read-modify-write race condition
+  logger.info('Updating group with new member', { groupId, userId, userEmail, role });
+  await docClient.send(
+    new UpdateCommand({
+      TableName: listGroupTable,
+      Key: { id: groupId },
+      UpdateExpression: 'SET memberIds = list_append(if_not_exists(memberIds, :empty), :userId), memberEmails = list_append(if_not_exists(memberEmails, :empty), :userEmail), memberRoles = list_append(if_not_exists(memberRoles, :empty), :role)',
+      ExpressionAttributeValues: {
+        ':userId': [userId],
+        ':userEmail': [userEmail.toLowerCase()],
+        ':role': [roleEntry(userId, role)],
+        ':empty': [],
+      },
+      // Ensure the group exists
+      ConditionExpression: 'attribute_exists(id)',
+    })
+  );
+
+  logger.info('Group updated successfully');
+
+  // Index the membership so the member's groups can be queried without a scan
+  const now = new Date().toISOString();
+  await docClient.send(
+    new PutCommand({
+      TableName: groupMembershipTable,
+      Item: {
+        id: membershipId(groupId, userId),
+        __typename: 'GroupMembership',
+        groupId,
+        memberId: userId,
+        createdAt: now,
+        updatedAt: now,
+      },
+    })
+  );
+
+  logger.info('Invitation accepted successfully', { groupId });
+
+  await notifyGroupOwner(listGroupTable, groupId, userId, userEmail);
+
+  return {
+    success: true,
+    message: 'Successfully joined the group',
+    groupId,
+  };
+}
+
+async function declineInvitation(invitationId: string, caller: InvitationCaller): Promise<InvitationResult> {
+  const groupInvitationTable = process.env.GROUPINVITATION_TABLE_NAME;
+  if (!groupInvitationTable) {
+    logger.error('Table names not configured');
+    return { success: false, message: 'Table names not configured' };
+  }
+
+  const invitation = await getInvitation(groupInvitationTable, invitationId);
+  const invitationError = invitationProblem(invitation, caller);
+  if (invitationError) return { success: false, message: invitationError };
+
+  if (!(await answerInvitation(groupInvitationTable, invitationId, 'DECLINED', caller.userId))) {
+    return { success: false, message: 'Invitation is no longer pending' };
+  }
+  return { success: true, message: 'Invitation declined', groupId: invitation!.groupId };
+}
+
+export const handler: AppSyncResolverHandler<InvitationArguments, InvitationResult> = async (event) => {
+  const identity = event.identity as AppSyncIdentityCognito | null;
+  const fieldName = event.info.fieldName;
+  const { invitationId } = event.arguments;
+  logger.info('Received invitation answer', { fieldName, invitationId, userId: identity?.sub });
+
+  if (!identity?.sub) return { success: false, message: 'Not signed in' };
+
+  try {
+    const email = await callerEmail(identity);
+    if (!email) return { success: false, message: 'Your account has no email address' };
+    const caller = { userId: identity.sub, email };
+
+    switch (fieldName) {
+      case 'acceptGroupInvitation':
+        return await acceptInvitation(invitationId, caller);
+      case 'declineGroupInvitation':
+        return await declineInvitation(invitationId, caller);
+      default:
+        return { success: false, message: `Unknown operation: ${fieldName}` };
+    }
   } catch (error) {
-    logger.error('Error accepting invitation', { error });
+    logger.error('Error answering invitation', { fieldName, error });
     return {
       success: false,
       message: error instanceof Error ? error.message : 'Unknown error occurred',
@@ -0,0 +1,43 @@
+import { roleOf, type GroupRecord } from '../group-access/roles';
+
+export interface InvitationRecord {
+  id?: string;
+  groupId?: string;
+  invitedEmail?: string;
+  status?: string | null;
+  owner?: string; // Whoever created the invitation, as "<sub>::<username>"
+  role?: string | null;
+}
+
+/** The signed-in user answering an invitation, taken from their token rather than the arguments. */
+export interface InvitationCaller {
+  userId: string;
+  email: string;
+}
+
+/**
+ * Why the caller may not answer the invitation, or null when they may. Only the invited
+ * email can answer it, and only while it is pending.
+ */
+export function invitationProblem(
+  invitation: InvitationRecord | null | undefined,
+  caller: InvitationCaller,
+): string | null {
+  if (!invitation?.groupId) return 'Invitation not found';
+  if (invitation.invitedEmail?.toLowerCase() !== caller.email.toLowerCase()) {
+    return 'This invitation was sent to someone else';
+  }
+  if (invitation.status !== 'PENDING') return 'Invitation is no longer pending';
+  return null;
+}
+
+/**
+ * Why accepting would not join the group, or null when it would. Anyone can create a
+ * GroupInvitation record, so only invitations created by the group's owner admit members.
+ */
+export function groupProblem(invitation: InvitationRecord, group: GroupRecord | null | undefined): string | null {
+  if (!group) return 'Group not found';
+  const inviter = invitation.owner?.split('::')[0] ?? '';
+  if (roleOf(group, inviter) !== 'OWNER') return 'Invitation not found';
+  return null;
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { canAccessList, hasPermission, isListItem, roleOf, withMemberRole, withoutMember } from '../roles';
+import { buildTodoItem, checkTodoLinks, linkedTodoIds, pickTodoFields } from '../todo-writes';
+
+const group = {
+  id: 'group-1',
+  owner: 'owner-1',
+  memberIds: ['editor-1', 'viewer-1', 'legacy-1', 'commenter-1'],
+  memberEmails: ['editor@example.com', 'viewer@example.com', 'legacy@example.com', 'commenter@example.com'],
+  memberRoles: ['editor-1:EDITOR', 'viewer-1:VIEWER', 'commenter-1:COMMENTER'],
+};
+
+const sharedList = { id: 'list-1', owner: 'owner-1', groupId: 'group-1' };
+
+describe('roleOf', () => {
+  it('resolves the owner, recorded roles and non-members', () => {
+    expect(roleOf(group, 'owner-1')).toBe('OWNER');
+    expect(roleOf(group, 'viewer-1')).toBe('VIEWER');
+    expect(roleOf(group, 'commenter-1')).toBe('COMMENTER');
+    expect(roleOf(group, 'stranger-1')).toBeNull();
+  });
+
+  it('treats members without a recorded role as editors', () => {
+    expect(roleOf(group, 'legacy-1')).toBe('EDITOR');
+  });
+
+  it('ignores role entries for users who are no longer members', () => {
+    expect(roleOf({ ...group, memberRoles: [...group.memberRoles, 'gone-1:EDITOR'] }, 'gone-1')).toBeNull();
+  });
+});
+
+describe('canAccessList', () => {
+  it('only lets roles with the permission act on a shared list', () => {
+    expect(canAccessList(sharedList, group, 'editor-1', 'edit')).toBe(true);
+    expect(canAccessList(sharedList, group, 'commenter-1', 'edit')).toBe(false);
+    expect(canAccessList(sharedList, group, 'commenter-1', 'comment')).toBe(true);
+    expect(canAccessList(sharedList, group, 'viewer-1', 'comment')).toBe(false);
+    expect(canAccessList(sharedList, group, 'viewer-1', 'view')).toBe(true);
+    expect(canAccessList(sharedList, group, 'stranger-1', 'view')).toBe(false);
+  });
+
+  it('always allows the list owner and ignores groups the list is not shared with', () => {
+    expect(canAccessList({ ...sharedList, groupId: null }, null, 'owner-1', 'edit')).toBe(true);
+    expect(canAccessList({ ...sharedList, groupId: 'group-2' }, group, 'editor-1', 'edit')).toBe(false);
+  });
+
+  it("only counts the list owner's items as part of the list", () => {
+    expect(isListItem({ listId: 'list-1', owner: 'owner-1' }, sharedList)).toBe(true);
+    expect(isListItem({ listId: 'list-1', owner: 'owner-1::owner' }, sharedList)).toBe(true);
+    expect(isListItem({ listId: 'list-1', owner: 'stranger-1' }, sharedList)).toBe(false);
+    expect(isListItem({ listId: 'list-9', owner: 'owner-1' }, sharedList)).toBe(false);
+    expect(isListItem({ listId: 'list-1' }, sharedList)).toBe(false);
+  });
+
+  it('only gives the owner the manage permission', () => {
+    expect(hasPermission('OWNER', 'manage')).toBe(true);
+    expect(hasPermission('EDITOR', 'manage')).toBe(false);
+    expect(hasPermission(null, 'view')).toBe(false);
+  });
+});
+
+describe('member arrays', () => {
+  it('replaces a member role', () => {
+    expect(withMemberRole(group, 'viewer-1', 'EDITOR')).toEqual([
+      'editor-1:EDITOR',
+      'commenter-1:COMMENTER',
+      'viewer-1:EDITOR',
+    ]);
+  });
+
+  it('keeps emails aligned with ids when removing a member', () => {
+    const remaining = withoutMember(group, 'viewer-1');
+    expect(remaining.memberIds).toEqual(['editor-1', 'legacy-1', 'commenter-1']);
+    expect(remaining.memberEmails).toEqual(['editor@example.com', 'legacy@example.com', 'commenter@example.com']);
+    expect(remaining.memberRoles).toEqual(['editor-1:EDITOR', 'commenter-1:COMMENTER']);
+  });
+});
+
+describe('todo writes', () => {
+  const now = new Date('2026-03-05T09:00:00.000Z');
+
+  it('drops fields members may not set and validates enums', () => {
+    const { fields, error } = pickTodoFields({ title: 'Book venue', owner: 'editor-1', listId: 'list-9' });
+    expect(error).toBeNull();
+    expect(fields).toEqual({ title: 'Book venue' });
+
+    expect(pickTodoFields({ status: 'DONE' }).error).toBe('Invalid status: DONE');
+    expect(pickTodoFields({ title: '  ' }).error).toBe('Todo title cannot be empty');
+  });
+
+  it('creates items in the target list owned by the list owner', () => {
+    const item = buildTodoItem({ title: 'Book venue' }, 'list-1', 'owner-1', now);
+    expect(item).toMatchObject({ listId: 'list-1', owner: 'owner-1', status: 'PENDING', __typename: 'TodoItem' });
+  });
+
+});
+
+describe('todo links', () => {
+  const links = {
+    list: sharedList,
+    group,
+    todoId: 'task-1',
+    linked: [
+      { id: 'task-2', listId: 'list-1', owner: 'owner-1' },
+      { id: 'elsewhere', listId: 'list-9', owner: 'owner-1' },
+      { id: 'injected', listId: 'list-1', owner: 'stranger-1' },
+    ],
+  };
+
+  it('collects the parent and prerequisites a write links to', () => {
+    expect(linkedTodoIds({ parentId: 'task-2', blockedBy: ['task-3', 'task-2'] })).toEqual(['task-3', 'task-2']);
+    expect(linkedTodoIds({ title: 'No links' })).toEqual([]);
+  });
+
+  it('accepts assignees from the group and links within the list', () => {
+    expect(checkTodoLinks({ assigneeId: 'viewer-1', parentId: 'task-2', blockedBy: ['task-2'] }, links)).toBeNull();
+    expect(checkTodoLinks({ assigneeId: 'owner-1' }, links)).toBeNull();
+    expect(checkTodoLinks({ assigneeId: null, parentId: null, blockedBy: [] }, links)).toBeNull();
+  });
+
+  it('refuses assignees outside the group', () => {
+    expect(checkTodoLinks({ assigneeId: 'stranger-1' }, links)).toBe('The assignee is not a member of this group');
+  });
+
+  it('refuses parents and prerequisites in other lists or missing', () => {
+    expect(checkTodoLinks({ parentId: 'elsewhere' }, links)).toBe('Parent task not found in this list: elsewhere');
+    expect(checkTodoLinks({ blockedBy: ['task-2', 'missing'] }, links)).toBe(
+      'Prerequisite task not found in this list: missing',
+    );
+    expect(checkTodoLinks({ blockedBy: 'task-2' }, links)).toBe('blockedBy must be a list of task ids');
+  });
+
+  it("refuses other owners' items that name the list", () => {
+    expect(checkTodoLinks({ parentId: 'injected' }, links)).toBe('Parent task not found in this list: injected');
+    expect(checkTodoLinks({ blockedBy: ['injected'] }, links)).toBe('Prerequisite task not found in this list: injected');
+  });
+
+  it('refuses linking a task to itself', () => {
+    expect(checkTodoLinks({ parentId: 'task-1' }, links)).toBe('A task cannot be its own subtask');
+    expect(checkTodoLinks({ blockedBy: ['task-1'] }, links)).toBe('A task cannot depend on itself');
+  });
+});
@@ -0,0 +1,479 @@
+import type { AppSyncIdentityCognito, AppSyncResolverHandler } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  BatchGetCommand,
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  TransactWriteCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { randomUUID } from 'crypto';
+import { Logger } from '@aws-lambda-powertools/logger';
+import {
+  canAccessList,
+  hasPermission,
+  isListItem,
+  isMemberRole,
+  membershipId,
+  roleOf,
+  withMemberRole,
+  withoutMember,
+  type GroupPermission,
+  type GroupRecord,
+  type ListRecord,
+} from './roles';
+import { buildTodoItem, checkTodoLinks, linkedTodoIds, pickTodoFields } from './todo-writes';
+import { dependencyCycleProblem, loadDependencyChain } from '../shared/task-dependencies';
+import { buildNextOccurrenceWrites, buildTodoUpdate } from '../shared/todo-updates';
+
+const logger = new Logger({ serviceName: 'group-access' });
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client);
+
+const listGroupTable = process.env.LISTGROUP_TABLE_NAME ?? '';
+const todoListTable = process.env.TODOLIST_TABLE_NAME ?? '';
+const todoItemTable = process.env.TODOITEM_TABLE_NAME ?? '';
+const todoCommentTable = process.env.TODOCOMMENT_TABLE_NAME ?? '';
+const groupMembershipTable = process.env.GROUPMEMBERSHIP_TABLE_NAME ?? '';
+
+interface GroupAccessResult {
+  success: boolean;
+  message: string;
+  id?: string;
+}
+
+type Arguments = Record<string, unknown>;
+
+type StoredRecord = Record<string, unknown>;
+
+// A page of stored records; nextToken resumes the read where it stopped
+interface RecordPage {
+  items: StoredRecord[];
+  nextToken: string | null;
+}
+
+const PAGE_SIZE = 100;
+const BATCH_GET_SIZE = 100;
+const NOT_ALLOWED = 'You do not have permission to do that';
+
+const denied = (message = NOT_ALLOWED): GroupAccessResult => ({
+  success: false,
+  message,
+});
+
+async function getItem<T>(tableName: string, id: string): Promise<T | null> {
+  const result = await docClient.send(new GetCommand({ TableName: tableName, Key: { id } }));
+  return (result.Item as T | undefined) ?? null;
+}
+
+// Follow LastEvaluatedKey so large partitions are read completely
+async function queryAll(params: ConstructorParameters<typeof QueryCommand>[0]): Promise<StoredRecord[]> {
+  const items: StoredRecord[] = [];
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const result = await docClient.send(new QueryCommand({ ...params, ExclusiveStartKey: startKey }));
+    items.push(...((result.Items ?? []) as StoredRecord[]));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+  return items;
+}
+
+// nextToken is the base64url-encoded LastEvaluatedKey. It only resumes a query whose key
+// condition the caller was already allowed to read, so a tampered token cannot widen it.
+async function queryPage(
+  params: ConstructorParameters<typeof QueryCommand>[0],
+  nextToken: string | null | undefined
+): Promise<RecordPage> {
+  let startKey: Record<string, unknown> | undefined;
+  if (nextToken) {
+    try {
+      startKey = JSON.parse(Buffer.from(nextToken, 'base64url').toString('utf8')) as Record<string, unknown>;
+    } catch {
+      throw new Error('Invalid nextToken');
+    }
+  }
+  const result = await docClient.send(
+    new QueryCommand({ ...params, Limit: PAGE_SIZE, ExclusiveStartKey: startKey })
+  );
+  return {
+    items: (result.Items ?? []) as StoredRecord[],
+    nextToken: result.LastEvaluatedKey
+      ? Buffer.from(JSON.stringify(result.LastEvaluatedKey)).toString('base64url')
+      : null,
+  };
+}
+
+// Load a list and the group it is shared with, then check the caller's permission on it
+async function authorizeList(listId: string, userId: string, permission: GroupPermission) {
+  const list = await getItem<ListRecord>(todoListTable, listId);
+  if (!list) return { list: null, group: null, allowed: false };
+  const group = list.groupId ? await getItem<GroupRecord>(listGroupTable, list.groupId) : null;
+  return { list, group, allowed: canAccessList(list, group, userId, permission) };
+}
+
+// Load an item and its list, then check the caller's permission on it. Items that are not part
+// of the list they name (see isListItem) read as missing.
+async function authorizeTodo(todoId: string, userId: string, permission: GroupPermission) {
+  const todo = await getItem<StoredRecord>(todoItemTable, todoId);
+  if (typeof todo?.listId !== 'string') return { todo: null, allowed: false };
+  const { list, allowed } = await authorizeList(todo.listId, userId, permission);
+  if (!list || !isListItem(todo, list)) return { todo: null, allowed: false };
+  return { todo, allowed };
+}
+
+// The fields the link and cycle checks read from the items a write links to
+type LinkedTodo = { id: string; listId?: string; owner?: string; title?: string; blockedBy?: (string | null)[] | null };
+
+// Items that do not exist are left out
+async function getLinkedTodos(ids: string[]): Promise<LinkedTodo[]> {
+  const todos: LinkedTodo[] = [];
+  for (let i = 0; i < ids.length; i += BATCH_GET_SIZE) {
+    const result = await docClient.send(
+      new BatchGetCommand({
+        RequestItems: {
+          [todoItemTable]: {
+            Keys: ids.slice(i, i + BATCH_GET_SIZE).map((id) => ({ id })),
+            ProjectionExpression: 'id, listId, #owner, #title, blockedBy',
+            ExpressionAttributeNames: { '#owner': 'owner', '#title': 'title' },
+          },
+        },
+      })
+    );
+    todos.push(...((result.Responses?.[todoItemTable] ?? []) as LinkedTodo[]));
+  }
+  return todos;
+}
+
+async function setGroupMemberRole(args: Arguments, userId: string): Promise<GroupAccessResult> {
+  const { groupId, memberId, role } = args as { groupId: string; memberId: string; role: string };
+  if (!isMemberRole(role)) return { success: false, message: `Invalid role: ${role}` };
+
+  const group = await getItem<GroupRecord>(listGroupTable, groupId);
+  if (!group) return { success: false, message: 'Group not found' };
+  if (roleOf(group, userId) !== 'OWNER') return denied('Only the group owner can change roles');
+  if (!group.memberIds?.includes(memberId)) return { success: false, message: 'Not a member of this group' };
+
+  await docClient.send(
+    new UpdateCommand({
+      TableName: listGroupTable,
+      Key: { id: groupId },
+      UpdateExpression: 'SET memberRoles = :roles, updatedAt = :now',
+      ExpressionAttributeValues: {
+        ':roles': withMemberRole(group, memberId, role),
+        ':now': new Date().toISOString(),
+      },
+    })
+  );
+  return { success: true, message: 'Role updated', id: groupId };
+}
+
+async function removeGroupMember(args: Arguments, userId: string): Promise<GroupAccessResult> {
+  const { groupId, memberId } = args as { groupId: string; memberId: string };
+
+  const group = await getItem<GroupRecord>(listGroupTable, groupId);
+  if (!group) return { success: false, message: 'Group not found' };
+
+  const callerRole = roleOf(group, userId);
+  if (roleOf(group, memberId) === 'OWNER') {
+    return { success: false, message: 'Group owner cannot leave. Delete the group instead.' };
+  }
+  // Owners remove anyone; members may only remove themselves
+  if (callerRole !== 'OWNER' && memberId !== userId) return denied('Only the group owner can remove members');
+
+  // Rewrite all member arrays together, guarded against a concurrent join or removal
+  const remaining = withoutMember(group, memberId);
+  await docClient.send(
+    new UpdateCommand({
+      TableName: listGroupTable,
+      Key: { id: groupId },
+      UpdateExpression: 'SET memberIds = :ids, memberEmails = :emails, memberRoles = :roles, updatedAt = :now',
+      ConditionExpression: 'memberIds = :previous',
+      ExpressionAttributeValues: {
+        ':ids': remaining.memberIds,
+        ':emails': remaining.memberEmails,
+        ':roles': remaining.memberRoles,
+        ':previous': group.memberIds ?? [],
+        ':now': new Date().toISOString(),
+      },
+    })
+  );
+  await docClient.send(
+    new DeleteCommand({ TableName: groupMembershipTable, Key: { id: membershipId(groupId, memberId) } })
+  );
+  await unassignMember(groupId, memberId);
+  return { success: true, message: 'Member removed', id: groupId };
+}
+
+// Assignees can read their tasks, so a member who leaves is unassigned from the group's tasks
+async function unassignMember(groupId: string, memberId: string): Promise<void> {
+  const assigned = await queryAll({
+    TableName: todoItemTable,
+    IndexName: 'byAssigneeAll',
+    KeyConditionExpression: 'assigneeId = :memberId',
+    ExpressionAttributeValues: { ':memberId': memberId },
+    ProjectionExpression: 'id, listId',
+  });
+  const listGroups = new Map<string, string | null | undefined>();
+  for (const todo of assigned) {
+    const listId = todo.listId as string;
+    if (!listGroups.has(listId)) {
+      listGroups.set(listId, (await getItem<ListRecord>(todoListTable, listId))?.groupId);
+    }
+    if (listGroups.get(listId) !== groupId) continue;
+
+    // Guarded so a task reassigned in the meantime keeps its new assignee
+    await docClient
+      .send(
+        new UpdateCommand({
+          TableName: todoItemTable,
+          Key: { id: todo.id },
+          UpdateExpression: 'SET updatedAt = :now REMOVE assigneeId, assigneeEmail',
+          ConditionExpression: 'assigneeId = :memberId',
+          ExpressionAttributeValues: { ':memberId': memberId, ':now': new Date().toISOString() },
+        })
+      )
+      .catch((error: unknown) => {
+        if ((error as { name?: string }).name !== 'ConditionalCheckFailedException') throw error;
+      });
+  }
+}
+
+// Delete an item and, depth first, every subtask below it. Only subtasks that are part of the
+// list are deleted; other owners' items never are
+async function deleteTodoTree(id: string, list: ListRecord): Promise<void> {
+  const children = await queryAll({
+    TableName: todoItemTable,
+    IndexName: 'byParent',
+    KeyConditionExpression: 'parentId = :id',
+    ExpressionAttributeValues: { ':id': id },
+    ProjectionExpression: 'id, listId, #owner',
+    ExpressionAttributeNames: { '#owner': 'owner' },
+  });
+  for (const child of children) {
+    if (isListItem(child, list)) await deleteTodoTree(child.id as string, list);
+  }
+  await docClient.send(new DeleteCommand({ TableName: todoItemTable, Key: { id } }));
+}
+
+async function writeGroupTodo(args: Arguments, userId: string): Promise<GroupAccessResult> {
+  const { action, todoId } = args as { action: string; todoId?: string };
+  const input = (typeof args.input === 'string' ? JSON.parse(args.input) : args.input ?? {}) as Record<string, unknown>;
+
+  // Creates name the target list; the other actions act within the existing item's list
+  let listId = args.listId as string | undefined;
+  let existing: StoredRecord | null = null;
+  if (action !== 'create') {
+    if (!todoId) return { success: false, message: 'todoId is required' };
+    existing = await getItem<StoredRecord>(todoItemTable, todoId);
+    if (!existing) {
+      // Already removed, e.g. with a parent that was deleted first
+      if (action === 'delete') return { success: true, message: 'Todo already deleted', id: todoId };
+      return { success: false, message: 'Todo not found' };
+    }
+    listId = existing.listId as string | undefined;
+  }
+  if (!listId) return { success: false, message: 'listId is required' };
+
+  const { list, group, allowed } = await authorizeList(listId, userId, 'edit');
+  if (!list) return { success: false, message: 'List not found' };
+  if (existing && !isListItem(existing, list)) return { success: false, message: 'Todo not found' };
+  if (!allowed) return denied('Your role in this group does not allow editing tasks');
+
+  const now = new Date();
+  if (action === 'delete') {
+    await deleteTodoTree(todoId!, list);
+    return { success: true, message: 'Todo deleted', id: todoId };
+  }
+
+  const { fields, error } = pickTodoFields(input);
+  if (error) return { success: false, message: `Validation error: ${error}` };
+
+  const linkError = checkTodoLinks(fields, { list, group, todoId, linked: await getLinkedTodos(linkedTodoIds(fields)) });
+  if (linkError) return { success: false, message: `Validation error: ${linkError}` };
+
+  // Nothing depends on a new item yet, so only updates can close a cycle
+  if (action === 'update' && Array.isArray(fields.blockedBy) && fields.blockedBy.length > 0) {
+    const blockedBy = fields.blockedBy as string[];
+    const cycleError = dependencyCycleProblem(await loadDependencyChain(blockedBy, getLinkedTodos), todoId!, blockedBy);
+    if (cycleError) return { success: false, message: `Validation error: ${cycleError}` };
+  }
+
+  if (action === 'create') {
+    if (!fields.title) return { success: false, message: 'Validation error: Missing required field: title' };
+    const item = buildTodoItem(fields, listId, list.owner ?? userId, now);
+    await docClient.send(new PutCommand({ TableName: todoItemTable, Item: item }));
+    return { success: true, message: 'Todo created', id: item.id as string };
+  }
+
+  // todoId is the completed recurring item; the input is its next occurrence
+  if (action === 'createNextOccurrence') {
+    if (!fields.title) return { success: false, message: 'Validation error: Missing required field: title' };
+    const item = buildTodoItem(fields, listId, list.owner ?? userId, now);
+    try {
+      await docClient.send(
+        new TransactWriteCommand({ TransactItems: buildNextOccurrenceWrites(todoItemTable, todoId!, item, now) })
+      );
+    } catch (error) {
+      if ((error as { name?: string }).name !== 'TransactionCanceledException') throw error;
+      return { success: true, message: 'Next occurrence already created' };
+    }
+    return { success: true, message: 'Next occurrence created', id: item.id as string };
+  }
+
+  if (action === 'update') {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: todoItemTable,
+        Key: { id: todoId },
+        ConditionExpression: 'attribute_exists(id)',
+        ...buildTodoUpdate(fields, now),
+      })
+    );
+    return { success: true, message: 'Todo updated', id: todoId };
+  }
+
+  return { success: false, message: `Unknown action: ${action}` };
+}
+
+async function addTodoComment(
+  args: Arguments,
+  userId: string,
+  userEmail: string | undefined
+): Promise<GroupAccessResult> {
+  const { todoId, body } = args as { todoId: string; body: string };
+  if (!body?.trim()) return { success: false, message: 'Validation error: Comment cannot be empty' };
+
+  const { todo, allowed } = await authorizeTodo(todoId, userId, 'comment');
+  if (!todo) return { success: false, message: 'Todo not found' };
+  if (!allowed) return denied('Your role in this group does not allow commenting');
+
+  const now = new Date().toISOString();
+  const id = randomUUID();
+  await docClient.send(
+    new PutCommand({
+      TableName: todoCommentTable,
+      Item: {
+        id,
+        __typename: 'TodoComment',
+        todoId,
+        listId: todo.listId,
+        body: body.trim(),
+        authorId: userId,
+        authorEmail: userEmail,
+        createdAt: now,
+        updatedAt: now,
+      },
+    })
+  );
+  return { success: true, message: 'Comment added', id };
+}
+
+// Shared lists, their tasks and comments are read here rather than through the models, which
+// only let owners read their own records. Each read needs the 'view' permission on the list.
+// Denied reads throw, so AppSync reports an error rather than an empty result.
+
+async function listGroupLists(args: Arguments, userId: string): Promise<RecordPage> {
+  const { groupId } = args as { groupId: string };
+  const group = await getItem<GroupRecord>(listGroupTable, groupId);
+  if (!hasPermission(roleOf(group, userId), 'view')) throw new Error(NOT_ALLOWED);
+
+  const items = await queryAll({
+    TableName: todoListTable,
+    IndexName: 'byGroup',
+    KeyConditionExpression: 'groupId = :groupId',
+    ExpressionAttributeValues: { ':groupId': groupId },
+  });
+  return { items, nextToken: null };
+}
+
+// Missing lists and lists the caller cannot see both read as null
+async function getGroupList(args: Arguments, userId: string): Promise<StoredRecord | null> {
+  const { list, allowed } = await authorizeList(args.listId as string, userId, 'view');
+  return allowed ? (list as StoredRecord) : null;
+}
+
+async function listGroupTodos(args: Arguments, userId: string): Promise<RecordPage> {
+  const { listId, nextToken } = args as { listId: string; nextToken?: string | null };
+  const { list, allowed } = await authorizeList(listId, userId, 'view');
+  if (!list || !allowed) throw new Error(NOT_ALLOWED);
+
+  const page = await queryPage(
+    {
+      TableName: todoItemTable,
+      IndexName: 'byListAll',
+      KeyConditionExpression: 'listId = :listId',
+      ExpressionAttributeValues: { ':listId': listId },
+    },
+    nextToken
+  );
+  return { ...page, items: page.items.filter((item) => isListItem(item, list)) };
+}
+
+async function getGroupTodo(args: Arguments, userId: string): Promise<StoredRecord | null> {
+  const { todo, allowed } = await authorizeTodo(args.todoId as string, userId, 'view');
+  return allowed ? todo : null;
+}
+
+async function listTodoComments(args: Arguments, userId: string): Promise<RecordPage> {
+  const { todoId } = args as { todoId: string };
+  const { todo, allowed } = await authorizeTodo(todoId, userId, 'view');
+  if (!todo) throw new Error('Todo not found');
+  if (!allowed) throw new Error(NOT_ALLOWED);
+
+  const items = await queryAll({
+    TableName: todoCommentTable,
+    IndexName: 'byTodo',
+    KeyConditionExpression: 'todoId = :todoId',
+    ExpressionAttributeValues: { ':todoId': todoId },
+  });
+  return { items, nextToken: null };
+}
+
+type GroupAccessResponse = GroupAccessResult | RecordPage | StoredRecord | null;
+
+export const handler: AppSyncResolverHandler<Arguments, GroupAccessResponse> = async (event) => {
+  const identity = event.identity as AppSyncIdentityCognito | null;
+  const userId = identity?.sub;
+  if (!userId) return denied('Not signed in');
+
+  const fieldName = event.info.fieldName;
+  logger.info('Group access request', { fieldName, userId });
+
+  switch (fieldName) {
+    case 'listGroupLists':
+      return listGroupLists(event.arguments, userId);
+    case 'getGroupList':
+      return getGroupList(event.arguments, userId);
+    case 'listGroupTodos':
+      return listGroupTodos(event.arguments, userId);
+    case 'getGroupTodo':
+      return getGroupTodo(event.arguments, userId);
+    case 'listTodoComments':
+      return listTodoComments(event.arguments, userId);
+  }
+
+  try {
+    switch (fieldName) {
+      case 'setGroupMemberRole':
+        return await setGroupMemberRole(event.arguments, userId);
+      case 'removeGroupMember':
+        return await removeGroupMember(event.arguments, userId);
+      case 'writeGroupTodo':
+        return await writeGroupTodo(event.arguments, userId);
+      case 'addTodoComment':
+        return await addTodoComment(event.arguments, userId, identity.claims?.email as string | undefined);
+      default:
+        return { success: false, message: `Unknown operation: ${fieldName}` };
+    }
+  } catch (error) {
+    logger.error('Group access request failed', { fieldName, error });
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+};
@@ -0,0 +1,7 @@
+import { defineFunction } from '@aws-amplify/backend';
+
+export const groupAccess = defineFunction({
+  name: 'group-access',
+  entry: './handler.ts',
+  resourceGroupName: 'data', // Assign to data stack to avoid circular dependency
+});
@@ -0,0 +1,105 @@
+// Group roles and what each one may do. The owner of a ListGroup is implicit; every other
+// member has a role recorded in ListGroup.memberRoles as a `<sub>:<ROLE>` entry.
+
+export const MEMBER_ROLES = ['EDITOR', 'COMMENTER', 'VIEWER'] as const;
+
+export type MemberRole = (typeof MEMBER_ROLES)[number];
+export type GroupRole = 'OWNER' | MemberRole;
+export type GroupPermission = 'manage' | 'edit' | 'comment' | 'view';
+
+// Members who joined before roles existed keep the edit access they had
+export const DEFAULT_MEMBER_ROLE: MemberRole = 'EDITOR';
+
+const PERMISSIONS: Record<GroupRole, GroupPermission[]> = {
+  OWNER: ['manage', 'edit', 'comment', 'view'],
+  EDITOR: ['edit', 'comment', 'view'],
+  COMMENTER: ['comment', 'view'],
+  VIEWER: ['view'],
+};
+
+export interface GroupRecord {
+  id?: string;
+  owner?: string;
+  memberIds?: string[];
+  memberEmails?: string[];
+  memberRoles?: string[];
+}
+
+export interface ListRecord {
+  id?: string;
+  owner?: string;
+  groupId?: string | null;
+}
+
+export function isMemberRole(value: unknown): value is MemberRole {
+  return typeof value === 'string' && (MEMBER_ROLES as readonly string[]).includes(value);
+}
+
+export function roleEntry(memberId: string, role: MemberRole): string {
+  return `${memberId}:${role}`;
+}
+
+/** Key of the GroupMembership record that lets a member's groups be queried by member. */
+export function membershipId(groupId: string, memberId: string): string {
+  return `${groupId}:${memberId}`;
+}
+
+/** The caller's role in a group, or null when they are not part of it. */
+export function roleOf(group: GroupRecord | null | undefined, userId: string): GroupRole | null {
+  if (!group || !userId) return null;
+  if (group.owner?.split('::')[0] === userId) return 'OWNER';
+  if (!group.memberIds?.includes(userId)) return null;
+
+  const entry = group.memberRoles?.find((value) => value.startsWith(`${userId}:`));
+  const role = entry?.slice(userId.length + 1);
+  return isMemberRole(role) ? role : DEFAULT_MEMBER_ROLE;
+}
+
+export function hasPermission(role: GroupRole | null, permission: GroupPermission): boolean {
+  return !!role && PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Whether the caller may act on a list's items. List owners always can; anyone else needs
+ * the permission through the group the list is shared with.
+ */
+export function canAccessList(
+  list: ListRecord,
+  group: GroupRecord | null | undefined,
+  userId: string,
+  permission: GroupPermission,
+): boolean {
+  if (list.owner?.split('::')[0] === userId) return true;
+  if (!list.groupId || group?.id !== list.groupId) return false;
+  return hasPermission(roleOf(group, userId), permission);
+}
+
+/**
+ * Whether an item is part of the list it names. Items in a list always belong to the list's
+ * owner, since shared lists are written through writeGroupTodo; anyone can give an item of
+ * their own any listId through the model API, so another owner's item is not part of the list.
+ */
+export function isListItem(item: { listId?: unknown; owner?: unknown }, list: ListRecord): boolean {
+  if (!list.id || item.listId !== list.id || typeof item.owner !== 'string') return false;
+  return item.owner.split('::')[0] === list.owner?.split('::')[0];
+}
+
+/** Member arrays with one member's role replaced. */
+export function withMemberRole(group: GroupRecord, memberId: string, role: MemberRole): string[] {
+  const others = (group.memberRoles ?? []).filter((value) => !value.startsWith(`${memberId}:`));
+  return [...others, roleEntry(memberId, role)];
+}
+
+/** Member arrays with one member removed; memberEmails stays index-aligned with memberIds. */
+export function withoutMember(
+  group: GroupRecord,
+  memberId: string,
+): { memberIds: string[]; memberEmails: string[]; memberRoles: string[] } {
+  const memberIds = group.memberIds ?? [];
+  const index = memberIds.indexOf(memberId);
+  return {
+    memberIds: memberIds.filter((id) => id !== memberId),
+    memberEmails: (group.memberEmails ?? []).filter((_, i) => i !== index),
+    memberRoles: (group.memberRoles ?? []).filter((value) => !value.startsWith(`${memberId}:`)),
+  };
+}
@@ -0,0 +1,122 @@
+import { randomUUID } from 'crypto';
+import { isListItem, roleOf, type GroupRecord, type ListRecord } from './roles';
+
+// Fields a group member may set on a TodoItem. Ownership and list placement are fixed
+// by the server: items in a shared list always belong to the list owner.
+const EDITABLE_FIELDS = new Set([
+  'title',
+  'description',
+  'status',
+  'dueDate',
+  'completedAt',
+  'tags',
+  'reminders',
+  'snoozedUntil',
+  'priority',
+  'effortHours',
+  'parentId',
+  'blockedBy',
+  'recurrenceRule',
+  'assigneeId',
+  'assigneeEmail',
+]);
+
+const VALID_STATUSES = ['PENDING', 'IN_PROGRESS', 'COMPLETE'];
+const VALID_PRIORITIES = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'];
+
+export interface TodoFields {
+  fields: Record<string, unknown>;
+  error: string | null;
+}
+
+/** Keep only editable fields and validate the enums; `null` clears a field on update. */
+export function pickTodoFields(input: Record<string, unknown>): TodoFields {
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (EDITABLE_FIELDS.has(key) && value !== undefined) {
+      fields[key] = value;
+    }
+  }
+
+  if (fields.status != null && !VALID_STATUSES.includes(fields.status as string)) {
+    return { fields, error: `Invalid status: ${String(fields.status)}` };
+  }
+  if (fields.priority != null && !VALID_PRIORITIES.includes(fields.priority as string)) {
+    return { fields, error: `Invalid priority: ${String(fields.priority)}` };
+  }
+  if ('title' in fields && (typeof fields.title !== 'string' || fields.title.trim() === '')) {
+    return { fields, error: 'Todo title cannot be empty' };
+  }
+
+  return { fields, error: null };
+}
+
+/** The items a write links to: its parent and its prerequisites. */
+export function linkedTodoIds(fields: Record<string, unknown>): string[] {
+  const ids = Array.isArray(fields.blockedBy) ? fields.blockedBy.filter((id) => typeof id === 'string') : [];
+  if (typeof fields.parentId === 'string') ids.push(fields.parentId);
+  return [...new Set(ids)];
+}
+
+export interface TodoLinks {
+  list: ListRecord;
+  group: GroupRecord | null;
+  /** The item being updated; unset for creates. */
+  todoId?: string;
+  /** The linked items that exist, as loaded by their ids. */
+  linked: { id?: string; listId?: string; owner?: string }[];
+}
+
+/**
+ * Why the assignee, parent or prerequisites in a write are not allowed, or null when they are.
+ * The assignee must be the list's owner or a member of its group, and the parent and
+ * prerequisites must be other items in the same list (see isListItem).
+ */
+export function checkTodoLinks(fields: Record<string, unknown>, links: TodoLinks): string | null {
+  const { list, group, todoId } = links;
+
+  if (fields.assigneeId != null) {
+    if (typeof fields.assigneeId !== 'string') return 'assigneeId must be a string';
+    const isListOwner = list.owner?.split('::')[0] === fields.assigneeId;
+    if (!isListOwner && !roleOf(group, fields.assigneeId)) return 'The assignee is not a member of this group';
+  }
+
+  if (fields.parentId != null && typeof fields.parentId !== 'string') return 'parentId must be a string';
+  const blockedBy = fields.blockedBy;
+  if (blockedBy != null && (!Array.isArray(blockedBy) || blockedBy.some((id) => typeof id !== 'string'))) {
+    return 'blockedBy must be a list of task ids';
+  }
+
+  const inList = new Set(links.linked.filter((todo) => isListItem(todo, list)).map((todo) => todo.id));
+  if (typeof fields.parentId === 'string') {
+    if (fields.parentId === todoId) return 'A task cannot be its own subtask';
+    if (!inList.has(fields.parentId)) return `Parent task not found in this list: ${fields.parentId}`;
+  }
+  for (const blockerId of (blockedBy as string[] | null | undefined) ?? []) {
+    if (blockerId === todoId) return 'A task cannot depend on itself';
+    if (!inList.has(blockerId)) return `Prerequisite task not found in this list: ${blockerId}`;
+  }
+  return null;
+}
+
+export function buildTodoItem(
+  fields: Record<string, unknown>,
+  listId: string,
+  owner: string,
+  now: Date,
+): Record<string, unknown> {
+  const item: Record<string, unknown> = {
+    id: randomUUID(),
+    __typename: 'TodoItem',
+    status: 'PENDING',
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== null) item[key] = value;
+  }
+  // Placement and ownership are never taken from the caller
+  item.listId = listId;
+  item.owner = owner;
+  return item;
+}
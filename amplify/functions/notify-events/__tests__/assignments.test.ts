@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import type { DynamoDBRecord } from 'aws-lambda';
+import { buildAssignmentNotification, parseNewAssignment } from '../assignments';
+
+const image = (assigneeId?: string) => ({
+  id: { S: 'todo-1' },
+  listId: { S: 'list-1' },
+  title: { S: 'Book venue' },
+  owner: { S: 'owner-1' },
+  status: { S: 'PENDING' },
+  ...(assigneeId ? { assigneeId: { S: assigneeId } } : {}),
+});
+
+const record = (eventName: DynamoDBRecord['eventName'], next?: string, previous?: string): DynamoDBRecord => ({
+  eventName,
+  dynamodb: {
+    NewImage: image(next),
+    ...(eventName === 'MODIFY' ? { OldImage: image(previous) } : {}),
+  },
+});
+
+describe('parseNewAssignment', () => {
+  it('detects tasks created with or changed to a new assignee', () => {
+    expect(parseNewAssignment(record('INSERT', 'member-1'))?.assigneeId).toBe('member-1');
+    expect(parseNewAssignment(record('MODIFY', 'member-2', 'member-1'))?.assigneeId).toBe('member-2');
+  });
+
+  it('ignores unchanged, removed and self assignments', () => {
+    expect(parseNewAssignment(record('MODIFY', 'member-1', 'member-1'))).toBeNull();
+    expect(parseNewAssignment(record('MODIFY', undefined, 'member-1'))).toBeNull();
+    expect(parseNewAssignment(record('INSERT', 'owner-1'))).toBeNull();
+  });
+});
+
+describe('buildAssignmentNotification', () => {
+  it('links the notification to the task for the assignee', () => {
+    const notification = buildAssignmentNotification(parseNewAssignment(record('INSERT', 'member-1'))!);
+    expect(notification).toMatchObject({
+      owner: 'member-1',
+      type: 'ASSIGNMENT',
+      todoId: 'todo-1',
+      listId: 'list-1',
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import type { DynamoDBRecord } from 'aws-lambda';
+import { buildInvitationNotification, parseNewInvitation } from '../invitations';
+import { buildNotificationInput } from '../../shared/notifications';
+
+const record = (eventName: DynamoDBRecord['eventName'], status = 'PENDING'): DynamoDBRecord => ({
+  eventName,
+  dynamodb: {
+    NewImage: {
+      id: { S: 'inv-1' },
+      groupId: { S: 'group-1' },
+      groupName: { S: 'Household' },
+      invitedEmail: { S: 'sam@example.com' },
+      status: { S: status },
+    },
+  },
+});
+
+describe('parseNewInvitation', () => {
+  it('reads newly inserted pending invitations', () => {
+    expect(parseNewInvitation(record('INSERT'))).toEqual({
+      id: 'inv-1',
+      groupId: 'group-1',
+      groupName: 'Household',
+      invitedEmail: 'sam@example.com',
+    });
+  });
+
+  it('ignores updates and invitations that are no longer pending', () => {
+    expect(parseNewInvitation(record('MODIFY'))).toBeNull();
+    expect(parseNewInvitation(record('INSERT', 'ACCEPTED'))).toBeNull();
+  });
+});
+
+describe('buildInvitationNotification', () => {
+  it('addresses the notification to the invitee', () => {
+    const invitation = parseNewInvitation(record('INSERT'))!;
+    const input = buildNotificationInput(buildInvitationNotification(invitation, 'sub-2::sam'));
+
+    expect(input).toMatchObject({
+      owner: 'sub-2',
+      type: 'INVITATION',
+      groupId: 'group-1',
+      read: false,
+    });
+    expect(input.title).toContain('Household');
+  });
+
+  it('expires the notification after the retention period', () => {
+    const invitation = parseNewInvitation(record('INSERT'))!;
+    const now = new Date('2026-03-01T12:00:00Z');
+    const input = buildNotificationInput(buildInvitationNotification(invitation, 'sub-2::sam'), now);
+
+    expect(new Date((input.expiresAt as number) * 1000).toISOString()).toBe('2026-03-31T12:00:00.000Z');
+  });
+});
@@ -0,0 +1,39 @@
+import type { DynamoDBRecord } from 'aws-lambda';
+import type { NotificationInput } from '../shared/notifications';
+
+export interface NewAssignment {
+  todoId: string;
+  listId?: string;
+  title: string;
+  assigneeId: string;
+}
+
+/**
+ * Pick out a TodoItem that was just assigned (or reassigned) to someone. Owners assigning
+ * work to themselves are not notified.
+ */
+export function parseNewAssignment(record: DynamoDBRecord): NewAssignment | null {
+  if (record.eventName !== 'INSERT' && record.eventName !== 'MODIFY') return null;
+
+  const image = record.dynamodb?.NewImage;
+  const assigneeId = image?.assigneeId?.S;
+  const todoId = image?.id?.S;
+  if (!assigneeId || !todoId) return null;
+  if (record.dynamodb?.OldImage?.assigneeId?.S === assigneeId) return null;
+  if (image?.status?.S === 'COMPLETE') return null;
+
+  const owner = image?.owner?.S?.split('::')[0];
+  if (owner === assigneeId) return null;
+
+  return { todoId, listId: image?.listId?.S, title: image?.title?.S ?? 'A task', assigneeId };
+}
+
+export function buildAssignmentNotification(assignment: NewAssignment): NotificationInput {
+  return {
+    owner: assignment.assigneeId,
+    type: 'ASSIGNMENT',
+    title: `You were assigned "${assignment.title}"`,
+    todoId: assignment.todoId,
+    listId: assignment.listId,
+  };
+}
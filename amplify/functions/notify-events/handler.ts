@@ -0,0 +1,52 @@
+import type { DynamoDBRecord, DynamoDBStreamEvent } from 'aws-lambda';
+import { CognitoIdentityProviderClient } from '@aws-sdk/client-cognito-identity-provider';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { createAppSyncRequester, sendNotification } from '../shared/notifications';
+import { buildInvitationNotification, createCognitoSubResolver, parseNewInvitation } from './invitations';
+import { buildAssignmentNotification, parseNewAssignment } from './assignments';
+
+const logger = new Logger({ serviceName: 'notify-events' });
+
+const cognito = new CognitoIdentityProviderClient({});
+
+// Stream ARNs look like arn:aws:dynamodb:<region>:<account>:table/<name>/stream/<label>
+function isFromTable(record: DynamoDBRecord, tableName: string | undefined): boolean {
+  return !!tableName && !!record.eventSourceARN?.includes(`:table/${tableName}/stream/`);
+}
+
+// DynamoDB Stream handler - notifies invitees of new GroupInvitations and
+// assignees of newly assigned TodoItems
+export const handler = async (event: DynamoDBStreamEvent) => {
+  const endpoint = process.env.AMPLIFY_GRAPHQL_ENDPOINT;
+  const userPoolId = process.env.USER_POOL_ID;
+  if (!endpoint || !userPoolId) {
+    logger.error('AMPLIFY_GRAPHQL_ENDPOINT or USER_POOL_ID not configured');
+    return;
+  }
+
+  const request = createAppSyncRequester(endpoint, process.env.AWS_REGION ?? '');
+  const resolveSub = createCognitoSubResolver(cognito, userPoolId);
+
+  for (const record of event.Records) {
+    if (isFromTable(record, process.env.GROUPINVITATION_TABLE_NAME)) {
+      const invitation = parseNewInvitation(record);
+      if (!invitation) continue;
+
+      // Invitees who have not signed up yet see the invitation when they first log in
+      const sub = await resolveSub(invitation.invitedEmail);
+      if (!sub) {
+        logger.info('Invitee has no account yet', { invitationId: invitation.id });
+        continue;
+      }
+
+      await sendNotification(request, buildInvitationNotification(invitation, sub));
+      logger.info('Sent invitation notification', { invitationId: invitation.id });
+    } else if (isFromTable(record, process.env.TODOITEM_TABLE_NAME)) {
+      const assignment = parseNewAssignment(record);
+      if (!assignment) continue;
+
+      await sendNotification(request, buildAssignmentNotification(assignment));
+      logger.info('Sent assignment notification', { todoId: assignment.todoId });
+    }
+  }
+};
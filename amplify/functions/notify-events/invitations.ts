@@ -0,0 +1,50 @@
+import { CognitoIdentityProviderClient, ListUsersCommand } from '@aws-sdk/client-cognito-identity-provider';
+import type { DynamoDBRecord } from 'aws-lambda';
+import type { NotificationInput } from '../shared/notifications';
+
+export type SubResolver = (email: string) => Promise<string | null>;
+
+export interface NewInvitation {
+  id: string;
+  groupId: string;
+  groupName: string;
+  invitedEmail: string;
+}
+
+/** Resolve an email address to the Cognito `sub` of the user who signed up with it. */
+export function createCognitoSubResolver(cognito: CognitoIdentityProviderClient, userPoolId: string): SubResolver {
+  return async (email) => {
+    const result = await cognito.send(
+      new ListUsersCommand({
+        UserPoolId: userPoolId,
+        Filter: `email = "${email.replace(/"/g, '')}"`,
+        Limit: 1,
+      }),
+    );
+    const sub = result.Users?.[0]?.Attributes?.find((attr) => attr.Name === 'sub')?.Value;
+    return sub ?? null;
+  };
+}
+
+/** Pick out a newly created PENDING invitation from a GroupInvitation stream record. */
+export function parseNewInvitation(record: DynamoDBRecord): NewInvitation | null {
+  if (record.eventName !== 'INSERT') return null;
+
+  const image = record.dynamodb?.NewImage;
+  const id = image?.id?.S;
+  const groupId = image?.groupId?.S;
+  const invitedEmail = image?.invitedEmail?.S;
+  if (!id || !groupId || !invitedEmail || image?.status?.S !== 'PENDING') return null;
+
+  return { id, groupId, groupName: image?.groupName?.S ?? 'a group', invitedEmail };
+}
+
+export function buildInvitationNotification(invitation: NewInvitation, owner: string): NotificationInput {
+  return {
+    owner,
+    type: 'INVITATION',
+    title: `You've been invited to join ${invitation.groupName}`,
+    body: 'Open Groups to accept or decline the invitation.',
+    groupId: invitation.groupId,
+  };
+}
@@ -0,0 +1,7 @@
+import { defineFunction } from '@aws-amplify/backend';
+
+export const notifyEvents = defineFunction({
+  name: 'notify-events',
+  entry: './handler.ts',
+  resourceGroupName: 'data', // Triggered by a data table stream
+});
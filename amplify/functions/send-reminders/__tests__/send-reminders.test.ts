@@ -0,0 +1,385 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildDueRemindersQuery,
+  claimReminder,
+  findDueReminder,
+  formatDueDate,
+  remindersOf,
+  sendDueReminders,
+  type DueReminder,
+  type ReminderChannel,
+} from '../reminders';
+import { createInAppChannel } from '../channels/in-app';
+import { createWebhookChannel } from '../channels/webhook';
+import { LocalDynamoDB } from '../../shared/__tests__/local-dynamodb';
+
+const TODO_TABLE = 'TodoItem';
+
+// Fake clock: a fixed point in time that tests can move forward
+function fakeClock(iso: string) {
+  let current = new Date(iso);
+  return {
+    now: () => new Date(current),
+    advance: (minutes: number) => {
+      current = new Date(current.getTime() + minutes * 60000);
+    },
+  };
+}
+
+function recordingChannel(name = 'recording'): ReminderChannel & { sent: DueReminder[] } {
+  const sent: DueReminder[] = [];
+  return {
+    name,
+    sent,
+    async deliver(reminder) {
+      sent.push(reminder);
+    },
+  };
+}
+
+function failingChannel(name = 'failing'): ReminderChannel {
+  return {
+    name,
+    async deliver() {
+      throw new Error('channel down');
+    },
+  };
+}
+
+const todo = (overrides: Record<string, unknown>) => ({
+  id: 'todo-1',
+  owner: 'user-1',
+  title: 'Submit report',
+  listId: 'list-1',
+  status: 'PENDING',
+  dueDate: '2026-03-05T10:00:00.000Z',
+  reminders: [{ offsetMinutes: 60, sentAt: null }],
+  ...overrides,
+});
+
+describe('findDueReminder', () => {
+  const now = new Date('2026-03-05T09:30:00.000Z');
+
+  it('is due inside the reminder window', () => {
+    expect(findDueReminder(todo({}), now)).toEqual({ kind: 'offset', offsetMinutes: 60 });
+  });
+
+  it('is not due before the reminder window opens', () => {
+    expect(findDueReminder(todo({ reminders: [{ offsetMinutes: 15 }] }), now)).toBeNull();
+  });
+
+  it('is not due once the task is past due', () => {
+    expect(findDueReminder(todo({ dueDate: '2026-03-05T09:00:00.000Z' }), now)).toBeNull();
+  });
+
+  it('fires the most recent open offset when several have passed', () => {
+    const item = todo({ reminders: [{ offsetMinutes: 1440 }, { offsetMinutes: 60 }, { offsetMinutes: 15 }] });
+    expect(findDueReminder(item, now)).toEqual({ kind: 'offset', offsetMinutes: 60 });
+  });
+
+  it('skips offsets that were already sent', () => {
+    const item = todo({ reminders: [{ offsetMinutes: 60, sentAt: '2026-03-05T09:00:00.000Z' }] });
+    expect(findDueReminder(item, now)).toBeNull();
+  });
+
+  it('fires an elapsed snooze even after the due date', () => {
+    const item = todo({ dueDate: '2026-03-05T09:00:00.000Z', snoozedUntil: '2026-03-05T09:20:00.000Z' });
+    expect(findDueReminder(item, now)).toEqual({ kind: 'snooze' });
+  });
+
+  it('never fires for completed items', () => {
+    expect(findDueReminder(todo({ status: 'COMPLETE' }), now)).toBeNull();
+  });
+
+  it('never fires for deleted items', () => {
+    expect(findDueReminder(todo({ deletedAt: '2026-03-05T07:00:00.000Z' }), now)).toBeNull();
+  });
+});
+
+describe('remindersOf', () => {
+  it('reads legacy reminderMinutes/reminderSent items as a single reminder', () => {
+    expect(remindersOf({ reminderMinutes: 30, reminderSent: false })).toEqual([{ offsetMinutes: 30, sentAt: null }]);
+  });
+});
+
+describe('buildDueRemindersQuery', () => {
+  it('queries the byStatus GSI between now and the maximum reminder offset', () => {
+    const params = buildDueRemindersQuery('PENDING', new Date('2026-03-05T09:00:00.000Z'), TODO_TABLE);
+    expect(params.IndexName).toBe('byStatus');
+    const values = params.ExpressionAttributeValues as Record<string, unknown>;
+    expect(values[':status']).toBe('PENDING');
+    expect(values[':now']).toBe('2026-03-05T09:00:00.000Z');
+    expect(values[':horizon']).toBe('2026-03-12T09:00:00.000Z');
+  });
+
+  it('looks for elapsed snoozes in the bySnooze GSI, up to a week back', () => {
+    const params = buildDueRemindersQuery('PENDING', new Date('2026-03-05T09:00:00.000Z'), TODO_TABLE, 'snoozed');
+    expect(params.IndexName).toBe('bySnooze');
+    expect(params.KeyConditionExpression).toContain('snoozedUntil BETWEEN :oldest AND :now');
+    expect(params.ExpressionAttributeValues).toMatchObject({
+      ':oldest': '2026-02-26T09:00:00.000Z',
+      ':now': '2026-03-05T09:00:00.000Z',
+    });
+  });
+});
+
+describe('claimReminder', () => {
+  it('only lets one caller claim a reminder', async () => {
+    const db = new LocalDynamoDB();
+    const item = todo({});
+    db.seed(TODO_TABLE, [item]);
+    const now = new Date('2026-03-05T09:30:00.000Z');
+
+    const first = await claimReminder(db.asDocClient(), TODO_TABLE, item, now);
+    // A second caller still holding the stale read loses
+    const second = await claimReminder(db.asDocClient(), TODO_TABLE, item, now);
+
+    expect(first).toBe(true);
+    expect(second).toBe(false);
+    expect(db.get(TODO_TABLE, 'todo-1')!.reminders).toEqual([{ offsetMinutes: 60, sentAt: now.toISOString() }]);
+  });
+
+  it('migrates legacy items to the reminders list when claiming', async () => {
+    const db = new LocalDynamoDB();
+    const item = todo({ reminders: undefined, reminderMinutes: 60, reminderSent: false });
+    db.seed(TODO_TABLE, [item]);
+    const now = new Date('2026-03-05T09:30:00.000Z');
+
+    expect(await claimReminder(db.asDocClient(), TODO_TABLE, item, now)).toBe(true);
+    expect(db.get(TODO_TABLE, 'todo-1')!.reminders).toEqual([{ offsetMinutes: 60, sentAt: now.toISOString() }]);
+  });
+});
+
+describe('sendDueReminders', () => {
+  it('delivers due reminders once and marks them sent', async () => {
+    const db = new LocalDynamoDB();
+    db.seed(TODO_TABLE, [
+      todo({ id: 'due' }),
+      todo({ id: 'later', dueDate: '2026-03-06T10:00:00.000Z' }),
+      todo({ id: 'done', status: 'COMPLETE' }),
+      todo({ id: 'in-progress', status: 'IN_PROGRESS', reminders: [{ offsetMinutes: 120 }] }),
+    ]);
+    const clock = fakeClock('2026-03-05T09:30:00.000Z');
+    const channel = recordingChannel();
+    const deps = { docClient: db.asDocClient(), tableName: TODO_TABLE, channels: [channel], now: clock.now };
+
+    const result = await sendDueReminders(deps);
+
+    expect(result).toEqual({ checked: 3, claimed: 2, delivered: 2, failed: 0 });
+    expect(channel.sent.map((r) => r.todoId).sort()).toEqual(['due', 'in-progress']);
+    expect(remindersOf(db.get(TODO_TABLE, 'later')!)[0].sentAt).toBeNull();
+
+    // A second run at the same time sends nothing new
+    const again = await sendDueReminders(deps);
+    expect(again.claimed).toBe(0);
+    expect(channel.sent).toHaveLength(2);
+  });
+
+  it('sends each reminder offset as the clock reaches it', async () => {
+    const db = new LocalDynamoDB();
+    db.seed(TODO_TABLE, [todo({ reminders: [{ offsetMinutes: 1440 }, { offsetMinutes: 60 }] })]);
+    const clock = fakeClock('2026-03-04T08:00:00.000Z');
+    const channel = recordingChannel();
+    const deps = { docClient: db.asDocClient(), tableName: TODO_TABLE, channels: [channel], now: clock.now };
+
+    expect((await sendDueReminders(deps)).delivered).toBe(0);
+
+    clock.advance(2 * 60); // 2026-03-04T10:00 — one day before
+    expect((await sendDueReminders(deps)).delivered).toBe(1);
+    expect(channel.sent[0].offsetMinutes).toBe(1440);
+
+    clock.advance(60);
+    expect((await sendDueReminders(deps)).delivered).toBe(0);
+
+    clock.advance(22 * 60 + 30); // 2026-03-05T09:30 — one hour before
+    expect((await sendDueReminders(deps)).delivered).toBe(1);
+    expect(channel.sent[1].offsetMinutes).toBe(60);
+  });
+
+  it('delivers a snooze once and clears it', async () => {
+    const db = new LocalDynamoDB();
+    db.seed(TODO_TABLE, [
+      todo({
+        dueDate: '2026-03-05T09:00:00.000Z',
+        reminders: [{ offsetMinutes: 60, sentAt: '2026-03-05T08:00:00.000Z' }],
+        snoozedUntil: '2026-03-05T09:10:00.000Z',
+      }),
+    ]);
+    const clock = fakeClock('2026-03-05T09:05:00.000Z');
+    const channel = recordingChannel();
+    const deps = { docClient: db.asDocClient(), tableName: TODO_TABLE, channels: [channel], now: clock.now };
+
+    expect((await sendDueReminders(deps)).delivered).toBe(0);
+
+    clock.advance(10);
+    expect((await sendDueReminders(deps)).delivered).toBe(1);
+    expect(channel.sent[0].kind).toBe('snooze');
+    expect(db.get(TODO_TABLE, 'todo-1')!.snoozedUntil).toBeUndefined();
+
+    expect((await sendDueReminders(deps)).delivered).toBe(0);
+  });
+
+  it('delivers snoozes on items without a due date or due weeks away', async () => {
+    const db = new LocalDynamoDB();
+    db.seed(TODO_TABLE, [
+      todo({ id: 'undated', dueDate: undefined, reminders: undefined, snoozedUntil: '2026-03-05T09:00:00.000Z' }),
+      todo({ id: 'far-off', dueDate: '2026-04-30T09:00:00.000Z', snoozedUntil: '2026-03-05T09:00:00.000Z' }),
+      todo({ id: 'stale', dueDate: undefined, snoozedUntil: '2026-02-01T09:00:00.000Z' }),
+    ]);
+    const channel = recordingChannel();
+
+    const result = await sendDueReminders({
+      docClient: db.asDocClient(),
+      tableName: TODO_TABLE,
+      channels: [channel],
+      now: fakeClock('2026-03-05T09:30:00.000Z').now,
+    });
+
+    expect(result.delivered).toBe(2);
+    expect(channel.sent.map((r) => [r.todoId, r.kind]).sort()).toEqual([
+      ['far-off', 'snooze'],
+      ['undated', 'snooze'],
+    ]);
+    expect(db.get(TODO_TABLE, 'undated')!.snoozedUntil).toBeUndefined();
+  });
+
+  it('delivers a snoozed item due this week once', async () => {
+    const db = new LocalDynamoDB();
+    db.seed(TODO_TABLE, [todo({ snoozedUntil: '2026-03-05T09:00:00.000Z' })]);
+    const channel = recordingChannel();
+
+    const result = await sendDueReminders({
+      docClient: db.asDocClient(),
+      tableName: TODO_TABLE,
+      channels: [channel],
+      now: fakeClock('2026-03-05T09:30:00.000Z').now,
+    });
+
+    expect(result).toMatchObject({ claimed: 1, delivered: 1 });
+    expect(channel.sent).toHaveLength(1);
+  });
+
+  it('counts a reminder as delivered when at least one channel succeeds', async () => {
+    const db = new LocalDynamoDB();
+    db.seed(TODO_TABLE, [todo({})]);
+    const channel = recordingChannel();
+
+    const result = await sendDueReminders({
+      docClient: db.asDocClient(),
+      tableName: TODO_TABLE,
+      channels: [failingChannel(), channel],
+      now: fakeClock('2026-03-05T09:30:00.000Z').now,
+    });
+
+    expect(result.delivered).toBe(1);
+    expect(channel.sent).toHaveLength(1);
+  });
+
+  it('releases the claim when every channel fails so the next run retries', async () => {
+    const db = new LocalDynamoDB();
+    db.seed(TODO_TABLE, [todo({})]);
+
+    const result = await sendDueReminders({
+      docClient: db.asDocClient(),
+      tableName: TODO_TABLE,
+      channels: [failingChannel()],
+      now: fakeClock('2026-03-05T09:30:00.000Z').now,
+    });
+
+    expect(result).toEqual({ checked: 1, claimed: 1, delivered: 0, failed: 1 });
+    expect(db.get(TODO_TABLE, 'todo-1')!.reminders).toEqual([{ offsetMinutes: 60, sentAt: null }]);
+  });
+});
+
+describe('reminder channels', () => {
+  const reminder: DueReminder = {
+    todoId: 'todo-1',
+    owner: 'user-1',
+    title: 'Submit report',
+    dueDate: '2026-03-05T10:00:00.000Z',
+    kind: 'offset',
+    offsetMinutes: 60,
+  };
+  const now = new Date('2026-03-05T09:30:00.000Z');
+
+  it('in-app channel creates an unread notification for the owner', async () => {
+    const calls: { query: string; variables: Record<string, unknown> }[] = [];
+    const request = async (query: string, variables: Record<string, unknown>) => {
+      calls.push({ query, variables });
+      return {};
+    };
+
+    await createInAppChannel(request).deliver(reminder, now);
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].query).toContain('createNotification');
+    expect(calls[0].variables.input).toMatchObject({
+      owner: 'user-1',
+      type: 'REMINDER',
+      todoId: 'todo-1',
+      read: false,
+    });
+  });
+
+  it("shows the due date in the owner's timezone", async () => {
+    const bodies: unknown[] = [];
+    const request = async (_query: string, variables: Record<string, unknown>) => {
+      bodies.push((variables.input as { body: string }).body);
+      return {};
+    };
+
+    await createInAppChannel(request).deliver({ ...reminder, timeZone: 'Australia/Sydney' }, now);
+    expect(bodies).toEqual(['Due Thu, Mar 5, 9:00 PM GMT+11']);
+  });
+
+  it('webhook channel posts the reminder and fails on non-2xx responses', async () => {
+    const calls: { url: string; body: string }[] = [];
+    const ok = (async (url: string, init: RequestInit) => {
+      calls.push({ url, body: init.body as string });
+      return new Response(null, { status: 204 });
+    }) as typeof fetch;
+
+    await createWebhookChannel('https://hooks.example.com/reminders', ok).deliver(reminder, now);
+    expect(calls).toHaveLength(1);
+    expect(JSON.parse(calls[0].body).reminder.todoId).toBe('todo-1');
+
+    const failing = (async () => new Response(null, { status: 500 })) as typeof fetch;
+    await expect(
+      createWebhookChannel('https://hooks.example.com/reminders', failing).deliver(reminder, now),
+    ).rejects.toThrow('500');
+  });
+});
+
+describe('formatDueDate', () => {
+  it('uses the offset in force at the due date, across DST changes', () => {
+    expect(formatDueDate('2026-04-04T12:59:00.000Z', 'Australia/Sydney')).toBe('Sat, Apr 4, 11:59 PM GMT+11');
+    expect(formatDueDate('2026-04-05T13:59:00.000Z', 'Australia/Sydney')).toBe('Sun, Apr 5, 11:59 PM GMT+10');
+    expect(formatDueDate('2026-03-08T06:30:00.000Z', 'America/New_York')).toBe('Sun, Mar 8, 1:30 AM EST');
+    expect(formatDueDate('2026-03-08T07:30:00.000Z', 'America/New_York')).toBe('Sun, Mar 8, 3:30 AM EDT');
+  });
+
+  it('defaults to UTC and leaves unreadable dates as written', () => {
+    expect(formatDueDate('2026-03-05T10:00:00.000Z')).toBe('Thu, Mar 5, 10:00 AM UTC');
+    expect(formatDueDate('someday')).toBe('someday');
+  });
+});
+
+describe('sendDueReminders timezones', () => {
+  it("gives each reminder its owner's timezone", async () => {
+    const db = new LocalDynamoDB();
+    db.seed(TODO_TABLE, [todo({ id: 'alice-task', owner: 'alice::alice' }), todo({ id: 'bob-task', owner: 'bob::bob' })]);
+    db.seed('UserSettings', [{ id: 'settings-alice', userId: 'alice', timezone: 'America/New_York' }]);
+    const channel = recordingChannel();
+
+    await sendDueReminders({
+      docClient: db.asDocClient(),
+      tableName: TODO_TABLE,
+      settingsTableName: 'UserSettings',
+      channels: [channel],
+      now: fakeClock('2026-03-05T09:30:00.000Z').now,
+    });
+
+    const zones = Object.fromEntries(channel.sent.map((r) => [r.todoId, r.timeZone]));
+    expect(zones).toEqual({ 'alice-task': 'America/New_York', 'bob-task': 'UTC' });
+  });
+});
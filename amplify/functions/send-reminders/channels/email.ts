@@ -0,0 +1,62 @@
+import { SESv2Client, SendEmailCommand } from '@aws-sdk/client-sesv2';
+import { CognitoIdentityProviderClient, ListUsersCommand } from '@aws-sdk/client-cognito-identity-provider';
+import { formatDueDate, type DueReminder, type ReminderChannel } from '../reminders';
+
+export type EmailResolver = (owner: string) => Promise<string | null>;
+
+/**
+ * Resolve an owner (Cognito `sub`, optionally stored as `sub::username`) to the
+ * user's email address.
+ */
+export function createCognitoEmailResolver(
+  cognito: CognitoIdentityProviderClient,
+  userPoolId: string,
+): EmailResolver {
+  return async (owner) => {
+    const sub = owner.split('::')[0];
+    const result = await cognito.send(
+      new ListUsersCommand({
+        UserPoolId: userPoolId,
+        Filter: `sub = "${sub}"`,
+        Limit: 1,
+      }),
+    );
+    const email = result.Users?.[0]?.Attributes?.find((attr) => attr.Name === 'email')?.Value;
+    return email ?? null;
+  };
+}
+
+export function formatReminderEmail(reminder: DueReminder): { subject: string; text: string } {
+  const lines = [`"${reminder.title}" is due ${formatDueDate(reminder.dueDate, reminder.timeZone)}.`];
+  if (reminder.description) lines.push('', reminder.description);
+  return { subject: `Reminder: ${reminder.title}`, text: lines.join('\n') };
+}
+
+export function createEmailChannel(
+  ses: SESv2Client,
+  fromAddress: string,
+  resolveEmail: EmailResolver,
+): ReminderChannel {
+  return {
+    name: 'email',
+    async deliver(reminder) {
+      const to = await resolveEmail(reminder.owner);
+      if (!to) {
+        throw new Error(`No email address for owner ${reminder.owner}`);
+      }
+      const { subject, text } = formatReminderEmail(reminder);
+      await ses.send(
+        new SendEmailCommand({
+          FromEmailAddress: fromAddress,
+          Destination: { ToAddresses: [to] },
+          Content: {
+            Simple: {
+              Subject: { Data: subject },
+              Body: { Text: { Data: text } },
+            },
+          },
+        }),
+      );
+    },
+  };
+}
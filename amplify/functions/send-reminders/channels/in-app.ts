@@ -0,0 +1,23 @@
+import { sendNotification, type GraphQLRequester, type NotificationInput } from '../../shared/notifications';
+import { formatDueDate, type DueReminder, type ReminderChannel } from '../reminders';
+
+export function buildReminderNotification(reminder: DueReminder): NotificationInput {
+  return {
+    owner: reminder.owner,
+    type: 'REMINDER',
+    title: reminder.kind === 'snooze' ? `Snoozed reminder: ${reminder.title}` : `Reminder: ${reminder.title}`,
+    body: reminder.description || `Due ${formatDueDate(reminder.dueDate, reminder.timeZone)}`,
+    todoId: reminder.todoId,
+    listId: reminder.listId,
+  };
+}
+
+/** Creates a Notification record that the owner sees in the app's notification centre. */
+export function createInAppChannel(request: GraphQLRequester): ReminderChannel {
+  return {
+    name: 'in-app',
+    async deliver(reminder) {
+      await sendNotification(request, buildReminderNotification(reminder));
+    },
+  };
+}
@@ -0,0 +1,20 @@
+import type { DueReminder, ReminderChannel } from '../reminders';
+
+type FetchFn = typeof fetch;
+
+/** POSTs each reminder as JSON to a fixed URL (e.g. a Slack or Teams relay). */
+export function createWebhookChannel(url: string, fetchFn: FetchFn = fetch): ReminderChannel {
+  return {
+    name: 'webhook',
+    async deliver(reminder: DueReminder, now: Date) {
+      const response = await fetchFn(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'REMINDER', sentAt: now.toISOString(), reminder }),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook responded with ${response.status}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,69 @@
+import type { ScheduledHandler } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { SESv2Client } from '@aws-sdk/client-sesv2';
+import { CognitoIdentityProviderClient } from '@aws-sdk/client-cognito-identity-provider';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { sendDueReminders, type ReminderChannel } from './reminders';
+import { createInAppChannel } from './channels/in-app';
+import { createEmailChannel, createCognitoEmailResolver } from './channels/email';
+import { createWebhookChannel } from './channels/webhook';
+import { createAppSyncRequester } from '../shared/notifications';
+
+const logger = new Logger({ serviceName: 'send-reminders' });
+
+const client = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(client);
+
+// Channels are enabled by configuration: in-app always, email and webhook when configured
+function buildChannels(): ReminderChannel[] {
+  const channels: ReminderChannel[] = [];
+
+  const graphqlEndpoint = process.env.AMPLIFY_GRAPHQL_ENDPOINT;
+  if (graphqlEndpoint) {
+    channels.push(createInAppChannel(createAppSyncRequester(graphqlEndpoint, process.env.AWS_REGION ?? '')));
+  }
+
+  const fromAddress = process.env.REMINDER_FROM_EMAIL;
+  const userPoolId = process.env.USER_POOL_ID;
+  if (fromAddress && userPoolId) {
+    channels.push(
+      createEmailChannel(
+        new SESv2Client({}),
+        fromAddress,
+        createCognitoEmailResolver(new CognitoIdentityProviderClient({}), userPoolId),
+      ),
+    );
+  }
+
+  const webhookUrl = process.env.REMINDER_WEBHOOK_URL;
+  if (webhookUrl) {
+    channels.push(createWebhookChannel(webhookUrl));
+  }
+
+  return channels;
+}
+
+export const handler: ScheduledHandler = async () => {
+  const tableName = process.env.TODOITEM_TABLE_NAME;
+  if (!tableName) {
+    logger.error('TODOITEM_TABLE_NAME not configured');
+    return;
+  }
+
+  const channels = buildChannels();
+  if (channels.length === 0) {
+    logger.error('No reminder channels configured');
+    return;
+  }
+
+  const result = await sendDueReminders({
+    docClient,
+    tableName,
+    channels,
+    now: () => new Date(),
+    settingsTableName: process.env.USERSETTINGS_TABLE_NAME,
+  });
+
+  logger.info('Reminder run complete', { ...result, channels: channels.map((c) => c.name) });
+};
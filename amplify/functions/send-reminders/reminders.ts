@@ -0,0 +1,372 @@
+import { DynamoDBDocumentClient, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { DEFAULT_TIMEZONE, resolveTimezone } from '../shared/timezones';
+
+const logger = new Logger({ serviceName: 'send-reminders' });
+
+// Largest offset offered in settings (1 week) — bounds the byStatus query window
+export const MAX_REMINDER_MINUTES = 10080;
+
+// Snoozes that could not be delivered for this long (e.g. on a deleted item) are left behind
+export const SNOOZE_LOOKBACK_MINUTES = 10080;
+
+// Completed items are never reminded, so only these status partitions are queried
+const OPEN_STATUSES = ['PENDING', 'IN_PROGRESS'] as const;
+
+export type Clock = () => Date;
+
+export interface ReminderEntry {
+  offsetMinutes: number;
+  sentAt?: string | null;
+}
+
+export interface DueReminder {
+  todoId: string;
+  owner: string;
+  title: string;
+  description?: string;
+  dueDate: string;
+  kind: 'offset' | 'snooze';
+  offsetMinutes?: number;
+  listId?: string;
+  // The owner's timezone, which channels show the due date in
+  timeZone?: string;
+}
+
+/**
+ * A delivery channel for reminders. Channels throw on failure; a reminder counts as
+ * delivered when at least one channel succeeds.
+ */
+export interface ReminderChannel {
+  name: string;
+  deliver(reminder: DueReminder, now: Date): Promise<void>;
+}
+
+export interface SendRemindersDeps {
+  docClient: DynamoDBDocumentClient;
+  tableName: string;
+  channels: ReminderChannel[];
+  now: Clock;
+  // UserSettings, for each owner's timezone; due dates are shown in UTC without it
+  settingsTableName?: string;
+}
+
+export interface SendRemindersResult {
+  checked: number;
+  claimed: number;
+  delivered: number;
+  failed: number;
+}
+
+/**
+ * The reminder list of a raw TodoItem record. Items written before multiple reminders
+ * existed carry a single `reminderMinutes`/`reminderSent` pair instead.
+ */
+export function remindersOf(item: Record<string, unknown>): ReminderEntry[] {
+  if (Array.isArray(item.reminders)) {
+    return (item.reminders as unknown[]).filter(
+      (r): r is ReminderEntry => !!r && typeof (r as ReminderEntry).offsetMinutes === 'number',
+    );
+  }
+  if (typeof item.reminderMinutes === 'number' && item.reminderMinutes > 0) {
+    return [{ offsetMinutes: item.reminderMinutes, sentAt: item.reminderSent === true ? (item.updatedAt as string) : null }];
+  }
+  return [];
+}
+
+function reminderTime(dueDate: string, offsetMinutes: number): Date {
+  return new Date(new Date(dueDate).getTime() - offsetMinutes * 60000);
+}
+
+/**
+ * The reminder that should fire for `item` at `now`, or null. Mirrors `findDueReminder`
+ * in the frontend: an elapsed snooze wins, otherwise the most recent unsent offset whose
+ * window (reminder time up to the due date) is open.
+ */
+export function findDueReminder(
+  item: Record<string, unknown>,
+  now: Date,
+): { kind: 'offset'; offsetMinutes: number } | { kind: 'snooze' } | null {
+  if (item.status === 'COMPLETE' || item.deletedAt) return null;
+
+  if (typeof item.snoozedUntil === 'string' && now >= new Date(item.snoozedUntil)) {
+    return { kind: 'snooze' };
+  }
+
+  if (typeof item.dueDate !== 'string') return null;
+  const dueDate = new Date(item.dueDate);
+  if (isNaN(dueDate.getTime()) || now >= dueDate) return null;
+
+  let due: { offsetMinutes: number; remindAt: Date } | null = null;
+  for (const reminder of remindersOf(item)) {
+    if (reminder.sentAt) continue;
+    const remindAt = reminderTime(item.dueDate, reminder.offsetMinutes);
+    if (now >= remindAt && (!due || remindAt > due.remindAt)) {
+      due = { offsetMinutes: reminder.offsetMinutes, remindAt };
+    }
+  }
+  return due ? { kind: 'offset', offsetMinutes: due.offsetMinutes } : null;
+}
+
+export function isReminderDue(item: Record<string, unknown>, now: Date): boolean {
+  return findDueReminder(item, now) !== null;
+}
+
+/**
+ * Query one status partition. The `upcoming` window reads the byStatus GSI for items due
+ * within the largest reminder offset; the `snoozed` window reads the bySnooze GSI for
+ * snoozes that have elapsed, whether or not the item has a due date. Items without a due
+ * date are not in byStatus, so their offset reminders are only shown by the browser.
+ */
+export function buildDueRemindersQuery(
+  status: string,
+  now: Date,
+  tableName: string,
+  window: 'upcoming' | 'snoozed' = 'upcoming',
+): Record<string, unknown> {
+  if (window === 'snoozed') {
+    const oldest = new Date(now.getTime() - SNOOZE_LOOKBACK_MINUTES * 60000);
+    return {
+      TableName: tableName,
+      IndexName: 'bySnooze',
+      KeyConditionExpression: '#status = :status AND snoozedUntil BETWEEN :oldest AND :now',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':status': status, ':oldest': oldest.toISOString(), ':now': now.toISOString() },
+    };
+  }
+
+  const horizon = new Date(now.getTime() + MAX_REMINDER_MINUTES * 60000);
+  return {
+    TableName: tableName,
+    IndexName: 'byStatus',
+    KeyConditionExpression: '#status = :status AND dueDate BETWEEN :now AND :horizon',
+    FilterExpression: 'attribute_exists(reminders) OR attribute_exists(reminderMinutes)',
+    ExpressionAttributeNames: { '#status': 'status' },
+    ExpressionAttributeValues: {
+      ':status': status,
+      ':now': now.toISOString(),
+      ':horizon': horizon.toISOString(),
+    },
+  };
+}
+
+export async function findDueReminders(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  now: Date,
+): Promise<{ checked: number; items: Record<string, unknown>[] }> {
+  let checked = 0;
+  // A snoozed item due this week is read by both windows
+  const items = new Map<string, Record<string, unknown>>();
+
+  for (const status of OPEN_STATUSES) {
+    for (const window of ['upcoming', 'snoozed'] as const) {
+      let exclusiveStartKey: Record<string, unknown> | undefined;
+      do {
+        const params = buildDueRemindersQuery(status, now, tableName, window);
+        const result = await docClient.send(
+          new QueryCommand({
+            ...(params as ConstructorParameters<typeof QueryCommand>[0]),
+            ExclusiveStartKey: exclusiveStartKey,
+          }),
+        );
+        const page = (result.Items ?? []) as Record<string, unknown>[];
+        checked += page.length;
+        for (const item of page.filter((item) => isReminderDue(item, now))) {
+          items.set(item.id as string, item);
+        }
+        exclusiveStartKey = result.LastEvaluatedKey as Record<string, unknown> | undefined;
+      } while (exclusiveStartKey);
+    }
+  }
+
+  return { checked, items: [...items.values()] };
+}
+
+/** A due date as the owner reads it, e.g. "Thu, Mar 5, 11:59 PM GMT+11". */
+export function formatDueDate(dueDate: string, timeZone: string = DEFAULT_TIMEZONE): string {
+  const date = new Date(dueDate);
+  if (isNaN(date.getTime())) return dueDate;
+  return date.toLocaleString('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  });
+}
+
+// The owner's timezone setting, looked up once per owner per run
+function createTimezoneLookup(docClient: DynamoDBDocumentClient, tableName: string | undefined) {
+  const cache = new Map<string, Promise<string>>();
+  const load = async (userId: string): Promise<string> => {
+    if (!tableName) return DEFAULT_TIMEZONE;
+    try {
+      const { Items } = await docClient.send(
+        new QueryCommand({
+          TableName: tableName,
+          IndexName: 'byUser',
+          KeyConditionExpression: 'userId = :userId',
+          ExpressionAttributeValues: { ':userId': userId },
+        }),
+      );
+      return resolveTimezone(Items?.[0]?.timezone as string | undefined);
+    } catch (err) {
+      logger.warn('Failed to load the owner timezone, showing UTC', { userId, error: err });
+      return DEFAULT_TIMEZONE;
+    }
+  };
+  return (owner: string): Promise<string> => {
+    const userId = owner.split('::')[0];
+    let timeZone = cache.get(userId);
+    if (!timeZone) {
+      timeZone = load(userId);
+      cache.set(userId, timeZone);
+    }
+    return timeZone;
+  };
+}
+
+function toDueReminder(item: Record<string, unknown>, now: Date): DueReminder | null {
+  const due = findDueReminder(item, now);
+  if (!due) return null;
+  return {
+    todoId: item.id as string,
+    owner: item.owner as string,
+    title: item.title as string,
+    description: typeof item.description === 'string' ? item.description : undefined,
+    dueDate: item.dueDate as string,
+    kind: due.kind,
+    offsetMinutes: due.kind === 'offset' ? due.offsetMinutes : undefined,
+    listId: typeof item.listId === 'string' ? item.listId : undefined,
+  };
+}
+
+/**
+ * Atomically record the reminder as sent: every offset whose window has opened is marked
+ * sent and a delivered snooze is removed. The write is conditional on the reminder state
+ * being unchanged since it was read, so it fails (returns false) when another invocation
+ * or the browser got there first, or the item was completed in the meantime.
+ */
+export async function claimReminder(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  item: Record<string, unknown>,
+  now: Date,
+): Promise<boolean> {
+  const due = findDueReminder(item, now);
+  if (!due) return false;
+
+  const sentAt = now.toISOString();
+  const reminders = remindersOf(item).map((r) =>
+    !r.sentAt && typeof item.dueDate === 'string' && reminderTime(item.dueDate, r.offsetMinutes) <= now
+      ? { ...r, sentAt }
+      : r,
+  );
+
+  const conditions = ['attribute_exists(id)', '#status <> :complete'];
+  const values: Record<string, unknown> = { ':reminders': reminders, ':complete': 'COMPLETE', ':now': sentAt };
+  if (Array.isArray(item.reminders)) {
+    conditions.push('reminders = :previous');
+    values[':previous'] = item.reminders;
+  } else {
+    conditions.push('attribute_not_exists(reminders)');
+  }
+
+  let update = 'SET reminders = :reminders, updatedAt = :now';
+  if (due.kind === 'snooze') {
+    update += ' REMOVE snoozedUntil';
+    conditions.push('snoozedUntil = :snoozedUntil');
+    values[':snoozedUntil'] = item.snoozedUntil;
+  }
+
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: tableName,
+        Key: { id: item.id },
+        UpdateExpression: update,
+        ConditionExpression: conditions.join(' AND '),
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: values,
+      }),
+    );
+    return true;
+  } catch (err) {
+    if (err instanceof Error && err.name === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    throw err;
+  }
+}
+
+// Give the reminder back so the next scheduled run retries it
+async function releaseReminder(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  item: Record<string, unknown>,
+  now: Date,
+): Promise<void> {
+  const sets = ['updatedAt = :now'];
+  const values: Record<string, unknown> = { ':now': now.toISOString() };
+  let remove = '';
+  if (Array.isArray(item.reminders)) {
+    sets.push('reminders = :reminders');
+    values[':reminders'] = item.reminders;
+  } else {
+    remove = ' REMOVE reminders';
+  }
+  if (typeof item.snoozedUntil === 'string') {
+    sets.push('snoozedUntil = :snoozedUntil');
+    values[':snoozedUntil'] = item.snoozedUntil;
+  }
+
+  await docClient.send(
+    new UpdateCommand({
+      TableName: tableName,
+      Key: { id: item.id },
+      UpdateExpression: `SET ${sets.join(', ')}${remove}`,
+      ExpressionAttributeValues: values,
+    }),
+  );
+}
+
+export async function sendDueReminders(deps: SendRemindersDeps): Promise<SendRemindersResult> {
+  const { docClient, tableName, channels } = deps;
+  const now = deps.now();
+  const timezoneOf = createTimezoneLookup(docClient, deps.settingsTableName);
+  const { checked, items } = await findDueReminders(docClient, tableName, now);
+  const result: SendRemindersResult = { checked, claimed: 0, delivered: 0, failed: 0 };
+
+  for (const item of items) {
+    const reminder = toDueReminder(item, now);
+    if (!reminder) continue;
+    if (!(await claimReminder(docClient, tableName, item, now))) {
+      logger.info('Reminder already claimed', { todoId: reminder.todoId });
+      continue;
+    }
+    result.claimed++;
+    reminder.timeZone = await timezoneOf(reminder.owner);
+
+    let deliveredTo = 0;
+    for (const channel of channels) {
+      try {
+        await channel.deliver(reminder, now);
+        deliveredTo++;
+      } catch (err) {
+        logger.error('Reminder delivery failed', { todoId: reminder.todoId, channel: channel.name, error: err });
+      }
+    }
+
+    if (deliveredTo > 0) {
+      result.delivered++;
+    } else {
+      result.failed++;
+      await releaseReminder(docClient, tableName, item, now);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,9 @@
+import { defineFunction } from '@aws-amplify/backend';
+
+export const sendReminders = defineFunction({
+  name: 'send-reminders',
+  entry: './handler.ts',
+  schedule: 'every 5m',
+  timeoutSeconds: 120,
+  resourceGroupName: 'data',
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AGENT_QUOTAS,
+  describeQuotaError,
+  findQuotaViolation,
+  formatQuotaError,
+  parseQuotaError,
+} from '../agent-quotas';
+
+describe('findQuotaViolation', () => {
+  const under = { concurrentJobs: 0, jobsPerHour: 0, monthlyTokens: 0 };
+
+  it('allows usage under every limit', () => {
+    expect(findQuotaViolation('user', under)).toBeNull();
+  });
+
+  it('reports the first limit reached', () => {
+    expect(
+      findQuotaViolation('user', { ...under, jobsPerHour: AGENT_QUOTAS.user.jobsPerHour, monthlyTokens: 5_000_000 }),
+    ).toEqual({ scope: 'user', limit: 'jobsPerHour', allowed: AGENT_QUOTAS.user.jobsPerHour, used: AGENT_QUOTAS.user.jobsPerHour });
+  });
+
+  it('skips the token budget for requests that call no model', () => {
+    const overBudget = { ...under, monthlyTokens: AGENT_QUOTAS.group.monthlyTokens };
+
+    expect(findQuotaViolation('group', overBudget)).toMatchObject({ scope: 'group', limit: 'monthlyTokens' });
+    expect(findQuotaViolation('group', overBudget, { tokens: false })).toBeNull();
+  });
+});
+
+describe('quota errors', () => {
+  it('survive being wrapped in another message', () => {
+    const violation = { scope: 'group' as const, limit: 'concurrentJobs' as const, allowed: 10, used: 11 };
+    const message = `Job failed: ${formatQuotaError(violation)}`;
+
+    expect(parseQuotaError(message)).toEqual(violation);
+    expect(describeQuotaError(violation)).toBe(
+      "Your group's members already have 10 assistant requests running. Wait for one to finish, or cancel one, and try again.",
+    );
+  });
+
+  it('are not confused with other errors', () => {
+    expect(parseQuotaError('Network error')).toBeNull();
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  dailyPlanSchema,
+  getAgentOutputSchema,
+  projectBreakdownSchema,
+  taskAnalysisSchema,
+  taskRecommendationSchema,
+} from '../agent-schemas';
+
+describe('taskAnalysisSchema', () => {
+  const analysis = {
+    title: 'Buy eggs',
+    priority: 'High',
+    estimatedMinutes: 45,
+    dueDate: '2026-03-06',
+    tags: ['shopping'],
+    recurrence: null,
+    reasoning: 'Due tomorrow',
+  };
+
+  it('accepts an analysis and lower-cases its priority', () => {
+    expect(taskAnalysisSchema.parse(analysis)).toEqual({
+      success: true,
+      data: { ...analysis, priority: 'high' },
+    });
+  });
+
+  it('reports every field that is missing or of the wrong type', () => {
+    expect(taskAnalysisSchema.parse({ title: 'Buy eggs', priority: 'soon', estimatedMinutes: '45', tags: 'shopping' })).toEqual({
+      success: false,
+      errors: [
+        'priority: must be one of high, medium, low',
+        'estimatedMinutes: must be a number of at least 1',
+        'tags: must be an array of strings',
+        'reasoning: is required',
+      ],
+    });
+  });
+
+  it('rejects answers that are not objects', () => {
+    expect(taskAnalysisSchema.parse(['Buy eggs'])).toEqual({ success: false, errors: ['response: must be a JSON object'] });
+  });
+});
+
+describe('projectBreakdownSchema', () => {
+  it('defaults the optional lists and drops unknown fields', () => {
+    expect(projectBreakdownSchema.parse({ totalTasks: 4, summary: 'Four tasks', extra: true })).toEqual({
+      success: true,
+      data: { totalTasks: 4, workStreams: [], criticalPath: [], summary: 'Four tasks' },
+    });
+  });
+});
+
+describe('dailyPlanSchema', () => {
+  it('reads the SOP field names into the canonical shape', () => {
+    const result = dailyPlanSchema.parse({
+      schedule: [{ startTime: '09:00', endTime: '10:30', taskId: 'abc', taskName: 'Write API', reasoning: 'Focus time' }],
+      summary: 'One block',
+    });
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        tasks: [{ taskId: 'abc', title: 'Write API', reasoning: 'Focus time', startTime: '09:00', endTime: '10:30' }],
+        unscheduledTasks: [],
+        summary: 'One block',
+      },
+    });
+  });
+
+  it('returns a canonical plan unchanged', () => {
+    const plan = {
+      tasks: [{ taskId: 'abc', title: 'Write API', reasoning: 'Focus time', estimatedMinutes: 90 }],
+      unscheduledTasks: ['def'],
+      summary: 'One block',
+    };
+    expect(dailyPlanSchema.parse(plan)).toEqual({ success: true, data: plan });
+  });
+
+  it('names the entry that is wrong', () => {
+    const result = dailyPlanSchema.parse({ schedule: [{ taskId: 'abc', reasoning: 'Focus' }, 'def'], summary: 'x' });
+    expect(result).toEqual({
+      success: false,
+      errors: ['schedule[1]: must be an object', 'schedule[0].taskName: is required'],
+    });
+  });
+});
+
+describe('taskRecommendationSchema', () => {
+  it('reads recommendedTaskId and taskName as taskId and title', () => {
+    const result = taskRecommendationSchema.parse({
+      recommendedTaskId: 'abc',
+      listId: 'list-1',
+      taskName: 'Write API',
+      reasoning: 'Due today',
+      alternatives: [{ taskId: 'def', reason: 'Also due' }],
+      estimatedCompletion: '45 minutes',
+    });
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        taskId: 'abc',
+        title: 'Write API',
+        reasoning: 'Due today',
+        listId: 'list-1',
+        alternatives: [{ taskId: 'def', reason: 'Also due' }],
+        estimatedCompletion: '45 minutes',
+      },
+    });
+  });
+});
+
+describe('getAgentOutputSchema', () => {
+  it('has no schema for freeform or unknown queryTypes', () => {
+    expect(getAgentOutputSchema('planDay')).toBe(dailyPlanSchema);
+    expect(getAgentOutputSchema('freeform')).toBeUndefined();
+    expect(getAgentOutputSchema('toString')).toBeUndefined();
+    expect(getAgentOutputSchema(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isSessionQueryType,
+  MAX_FOLLOW_UP_LENGTH,
+  MAX_SESSION_FOLLOW_UPS,
+  parseSessionMessages,
+  validateFollowUp,
+  type AgentSessionMessage,
+} from '../agent-sessions';
+
+const at = '2026-03-05T08:00:00.000Z';
+
+describe('isSessionQueryType', () => {
+  it('lets daily plans, breakdowns and recommendations be followed up', () => {
+    expect(['planDay', 'breakdownProject', 'recommendTask'].every(isSessionQueryType)).toBe(true);
+    expect(isSessionQueryType('freeform')).toBe(false);
+    expect(isSessionQueryType(undefined)).toBe(false);
+  });
+});
+
+describe('validateFollowUp', () => {
+  it('accepts a follow-up within the limits', () => {
+    expect(validateFollowUp('skip anything tagged work', [])).toBeNull();
+  });
+
+  it('refuses blank and overlong follow-ups', () => {
+    expect(validateFollowUp('   ', [])).toMatch(/Write what/);
+    expect(validateFollowUp('x'.repeat(MAX_FOLLOW_UP_LENGTH + 1), [])).toMatch(/under/);
+  });
+
+  it('refuses follow-ups once the conversation is at its limit', () => {
+    const messages: AgentSessionMessage[] = Array.from({ length: MAX_SESSION_FOLLOW_UPS }, () => ({
+      role: 'user' as const,
+      content: 'again',
+      at,
+    }));
+    expect(validateFollowUp('one more', messages)).toMatch(/Start a new request/);
+  });
+});
+
+describe('parseSessionMessages', () => {
+  it('reads messages stored as AWSJSON or as a list, leaving out malformed ones', () => {
+    const messages = [{ role: 'user', content: 'later', at }, { role: 'system', content: 'x', at }, null];
+    expect(parseSessionMessages(JSON.stringify(messages))).toEqual([{ role: 'user', content: 'later', at }]);
+    expect(parseSessionMessages(messages)).toEqual([{ role: 'user', content: 'later', at }]);
+    expect(parseSessionMessages('not json')).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSseFrameParser,
+  encodeSseFrame,
+  parsePartialJson,
+  type AgentStreamFrame,
+} from '../agent-stream';
+
+describe('encodeSseFrame', () => {
+  it('names the event after the frame type', () => {
+    expect(encodeSseFrame({ type: 'thinking', text: 'Checking' })).toBe(
+      'event: thinking\ndata: {"type":"thinking","text":"Checking"}\n\n',
+    );
+  });
+});
+
+describe('createSseFrameParser', () => {
+  function parse(chunks: string[]): AgentStreamFrame[] {
+    const frames: AgentStreamFrame[] = [];
+    const parser = createSseFrameParser((frame) => frames.push(frame));
+    chunks.forEach((chunk) => parser.push(chunk));
+    parser.end();
+    return frames;
+  }
+
+  it('reads frames split across chunks and CRLF line endings', () => {
+    const body = encodeSseFrame({ type: 'tool_call', tool: 'get_tasks', label: 'Looking through tasks' }).replace(/\n/g, '\r\n');
+    expect(parse([body.slice(0, 20), body.slice(20, 21), body.slice(21)])).toEqual([
+      { type: 'tool_call', tool: 'get_tasks', label: 'Looking through tasks' },
+    ]);
+  });
+
+  it('skips comments, other events and frames of unknown types', () => {
+    expect(
+      parse([': keep-alive\n\n', 'data: not json\n\n', 'data: {"type":"other"}\n\n', 'data: {"type":"final","response":{"success":true}}']),
+    ).toEqual([{ type: 'final', response: { success: true } }]);
+  });
+});
+
+describe('parsePartialJson', () => {
+  it('closes open strings, arrays and objects', () => {
+    expect(parsePartialJson('{"summary":"Two bl')).toEqual({ summary: 'Two bl' });
+    expect(parsePartialJson('{"tasks":[{"title":"A"},{"title":"B')).toEqual({ tasks: [{ title: 'A' }, { title: 'B' }] });
+  });
+
+  it('drops a key or value that is cut short', () => {
+    expect(parsePartialJson('{"totalTasks":4,"summ')).toEqual({ totalTasks: 4 });
+    expect(parsePartialJson('{"totalTasks":4,"summary":')).toEqual({ totalTasks: 4 });
+    expect(parsePartialJson('{"done":tr')).toEqual({});
+    expect(parsePartialJson('{"text":"a \\')).toEqual({ text: 'a ' });
+  });
+
+  it('skips a leading code fence and anything after the value', () => {
+    expect(parsePartialJson('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+    expect(parsePartialJson('```json\n')).toBeUndefined();
+  });
+});
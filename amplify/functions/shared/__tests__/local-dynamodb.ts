@@ -0,0 +1,263 @@
+import {
+  BatchGetCommand,
+  BatchWriteCommand,
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  TransactWriteCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+
+type Item = Record<string, unknown>;
+
+/**
+ * In-memory stand-in for DynamoDB behind a DocumentClient. Evaluates the subset of
+ * expression syntax the functions use: clauses joined by AND / OR (no parentheses),
+ * comparisons (=, <>, <, <=, >, >=, BETWEEN), attribute_exists and attribute_not_exists,
+ * and SET / ADD / REMOVE update expressions (with if_not_exists in SET). Queries ignore IndexName and match the key
+ * condition against every item in insertion order, honouring Limit and ExclusiveStartKey.
+ * Puts and updates whose ConditionExpression fails throw ConditionalCheckFailedException.
+ * Transactions of puts and updates apply all or nothing, throwing TransactionCanceledException.
+ * Every command is recorded in `commands`.
+ */
+export class LocalDynamoDB {
+  private tables = new Map<string, Map<string, Item>>();
+  readonly commands: unknown[] = [];
+
+  table(name: string): Map<string, Item> {
+    if (!this.tables.has(name)) this.tables.set(name, new Map());
+    return this.tables.get(name)!;
+  }
+
+  seed(name: string, items: Item[]) {
+    for (const item of items) this.table(name).set(item.id as string, structuredClone(item));
+  }
+
+  get(name: string, id: string): Item | undefined {
+    return this.table(name).get(id);
+  }
+
+  asDocClient(): DynamoDBDocumentClient {
+    return this as unknown as DynamoDBDocumentClient;
+  }
+
+  async send(command: unknown): Promise<Record<string, unknown>> {
+    this.commands.push(command);
+
+    if (command instanceof GetCommand) {
+      const { TableName, Key } = command.input;
+      const item = this.table(TableName!).get(Key!.id as string);
+      return { Item: item && structuredClone(item) };
+    }
+
+    if (command instanceof BatchGetCommand) {
+      const responses: Record<string, Item[]> = {};
+      for (const [tableName, request] of Object.entries(command.input.RequestItems ?? {})) {
+        responses[tableName] = (request.Keys ?? [])
+          .map((key) => this.table(tableName).get(key.id as string))
+          .filter((item): item is Item => !!item)
+          .map((item) => structuredClone(item));
+      }
+      return { Responses: responses };
+    }
+
+    if (command instanceof BatchWriteCommand) {
+      for (const [tableName, requests] of Object.entries(command.input.RequestItems ?? {})) {
+        for (const request of requests) {
+          if (request.PutRequest?.Item) {
+            this.table(tableName).set(request.PutRequest.Item.id as string, structuredClone(request.PutRequest.Item));
+          }
+        }
+      }
+      return {};
+    }
+
+    if (command instanceof DeleteCommand) {
+      const { TableName, Key } = command.input;
+      this.table(TableName!).delete(Key!.id as string);
+      return {};
+    }
+
+    if (command instanceof QueryCommand) {
+      const input = command.input;
+      const names = input.ExpressionAttributeNames ?? {};
+      const values = input.ExpressionAttributeValues ?? {};
+      let matches = [...this.table(input.TableName!).values()].filter((item) =>
+        evaluate(input.KeyConditionExpression!, item, names, values),
+      );
+      if (input.ExclusiveStartKey) {
+        matches = matches.slice(matches.findIndex((item) => item.id === input.ExclusiveStartKey!.id) + 1);
+      }
+      // Like DynamoDB, Limit caps the items evaluated, before the filter is applied
+      const evaluated = input.Limit !== undefined ? matches.slice(0, input.Limit) : matches;
+      const items = evaluated.filter(
+        (item) => !input.FilterExpression || evaluate(input.FilterExpression, item, names, values),
+      );
+      const last = evaluated[evaluated.length - 1];
+      return {
+        Items: items.map((item) => structuredClone(item)),
+        LastEvaluatedKey: evaluated.length < matches.length ? { id: last.id } : undefined,
+      };
+    }
+
+    if (command instanceof UpdateCommand) {
+      const input = command.input;
+      const names = input.ExpressionAttributeNames ?? {};
+      const values = input.ExpressionAttributeValues ?? {};
+      const table = this.table(input.TableName!);
+      const id = input.Key!.id as string;
+      const item = table.get(id);
+      if (input.ConditionExpression && !evaluate(input.ConditionExpression, item ?? {}, names, values)) {
+        const err = new Error('The conditional request failed');
+        err.name = 'ConditionalCheckFailedException';
+        throw err;
+      }
+      const next = applyUpdate(input.UpdateExpression!, item ?? { id }, names, values);
+      table.set(id, next);
+      return input.ReturnValues === 'ALL_NEW' ? { Attributes: structuredClone(next) } : {};
+    }
+
+    if (command instanceof PutCommand) {
+      const { TableName, Item, ConditionExpression, ExpressionAttributeNames, ExpressionAttributeValues } = command.input;
+      const table = this.table(TableName!);
+      const existing = table.get(Item!.id as string);
+      if (ConditionExpression && !evaluate(ConditionExpression, existing ?? {}, ExpressionAttributeNames ?? {}, ExpressionAttributeValues ?? {})) {
+        const err = new Error('The conditional request failed');
+        err.name = 'ConditionalCheckFailedException';
+        throw err;
+      }
+      table.set(Item!.id as string, structuredClone(Item!));
+      return {};
+    }
+
+    if (command instanceof TransactWriteCommand) {
+      const writes = command.input.TransactItems ?? [];
+      // Every condition is checked before anything is written
+      const cancelled = writes.some(({ Put, Update }) => {
+        const write = Put ?? Update;
+        if (!write?.ConditionExpression) return false;
+        const id = (Put ? Put.Item!.id : Update!.Key!.id) as string;
+        return !evaluate(
+          write.ConditionExpression,
+          this.table(write.TableName!).get(id) ?? {},
+          write.ExpressionAttributeNames ?? {},
+          write.ExpressionAttributeValues ?? {},
+        );
+      });
+      if (cancelled) {
+        const err = new Error('Transaction cancelled');
+        err.name = 'TransactionCanceledException';
+        throw err;
+      }
+      for (const { Put, Update } of writes) {
+        if (Put) await this.send(new PutCommand({ ...Put, ConditionExpression: undefined }));
+        if (Update) await this.send(new UpdateCommand({ ...Update, ConditionExpression: undefined }));
+      }
+      return {};
+    }
+
+    throw new Error('Unsupported command');
+  }
+}
+
+function resolveName(token: string, names: Record<string, string>): string {
+  return token.startsWith('#') ? names[token] : token;
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (typeof a === 'string' && typeof b === 'string') return a.localeCompare(b);
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return NaN;
+}
+
+function evaluateClause(
+  clause: string,
+  item: Item,
+  names: Record<string, string>,
+  values: Record<string, unknown>,
+): boolean {
+  let match = clause.match(/^attribute_(not_)?exists\((#?\w+)\)$/);
+  if (match) {
+    const exists = item[resolveName(match[2], names)] !== undefined;
+    return match[1] ? !exists : exists;
+  }
+
+  match = clause.match(/^(#?\w+) BETWEEN (:\w+) AND (:\w+)$/);
+  if (match) {
+    const value = item[resolveName(match[1], names)];
+    return compare(value, values[match[2]]) >= 0 && compare(value, values[match[3]]) <= 0;
+  }
+
+  match = clause.match(/^(#?\w+) (=|<>|<=|>=|<|>) (:\w+)$/);
+  if (match) {
+    const value = item[resolveName(match[1], names)];
+    const other = values[match[3]];
+    switch (match[2]) {
+      case '=':
+        return value !== undefined && JSON.stringify(value) === JSON.stringify(other);
+      case '<>':
+        return JSON.stringify(value) !== JSON.stringify(other);
+      case '<':
+        return compare(value, other) < 0;
+      case '<=':
+        return compare(value, other) <= 0;
+      case '>':
+        return compare(value, other) > 0;
+      case '>=':
+        return compare(value, other) >= 0;
+    }
+  }
+
+  throw new Error(`Unsupported expression: ${clause}`);
+}
+
+function evaluate(
+  expression: string,
+  item: Item,
+  names: Record<string, string>,
+  values: Record<string, unknown>,
+): boolean {
+  // BETWEEN uses AND as part of its syntax, so protect it before splitting
+  const protectedExpr = expression.replace(/BETWEEN (:\w+) AND (:\w+)/g, 'BETWEEN $1 __AND__ $2');
+  return protectedExpr.split(' OR ').some((disjunct) =>
+    disjunct
+      .split(' AND ')
+      .every((clause) => evaluateClause(clause.replace('__AND__', 'AND').trim(), item, names, values)),
+  );
+}
+
+function applyUpdate(
+  expression: string,
+  item: Item,
+  names: Record<string, string>,
+  values: Record<string, unknown>,
+): Item {
+  const next = structuredClone(item);
+  const clauses: Record<string, string> = {};
+  for (const match of expression.matchAll(/(SET|ADD|REMOVE) ([\s\S]*?)(?= (?:SET|ADD|REMOVE) |$)/g)) {
+    clauses[match[1]] = match[2];
+  }
+  // Split on the commas between actions, not those inside if_not_exists(...)
+  const parts = (clause: string | undefined) =>
+    (clause ?? '').split(/,(?![^(]*\))/).map((s) => s.trim()).filter(Boolean);
+
+  for (const assignment of parts(clauses.SET)) {
+    const [name, value] = assignment.split('=').map((s) => s.trim());
+    const key = resolveName(name, names);
+    const ifNotExists = value.match(/^if_not_exists\((#?\w+), (:\w+)\)$/);
+    next[key] = ifNotExists
+      ? structuredClone(next[resolveName(ifNotExists[1], names)] ?? values[ifNotExists[2]])
+      : structuredClone(values[value]);
+  }
+  for (const addition of parts(clauses.ADD)) {
+    const [name, value] = addition.split(/\s+/);
+    const key = resolveName(name, names);
+    next[key] = ((next[key] as number | undefined) ?? 0) + (values[value] as number);
+  }
+  for (const name of parts(clauses.REMOVE)) {
+    delete next[resolveName(name, names)];
+  }
+  return next;
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { parsePlaybook, PLAYBOOK_TEMPLATE, renderPlaybookSop } from '../playbooks';
+
+const playbook = `---
+name: sprint-planning
+description: "Plans the next sprint"
+tools: [get_tasks, update_task]
+---
+
+Pick the tasks for the next two weeks.`;
+
+describe('parsePlaybook', () => {
+  it('reads the frontmatter and instructions', () => {
+    expect(parsePlaybook(playbook)).toEqual({
+      success: true,
+      data: {
+        name: 'sprint-planning',
+        description: 'Plans the next sprint',
+        tools: ['get_tasks', 'update_task'],
+        instructions: 'Pick the tasks for the next two weeks.',
+      },
+    });
+  });
+
+  it('accepts the editor template', () => {
+    expect(parsePlaybook(PLAYBOOK_TEMPLATE).success).toBe(true);
+  });
+
+  it('only allows the existing tools and agent playbooks', () => {
+    const result = parsePlaybook(`---
+name: Sprint Planning
+type: orchestrator
+model: opus
+tools:
+  - get_tasks
+  - send_email
+---
+`);
+
+    expect(result).toEqual({
+      success: false,
+      errors: [
+        'model: is not a playbook field',
+        'name: must be lowercase letters, digits and hyphens, at most 40 characters',
+        'description: is required',
+        'type: playbooks can only be agents',
+        expect.stringContaining('tools: send_email is not an available tool'),
+        'instructions: write the steps below the frontmatter',
+      ],
+    });
+  });
+
+  it('requires a frontmatter block', () => {
+    expect(parsePlaybook('# Weekly review')).toEqual({
+      success: false,
+      errors: ['frontmatter: the playbook must start with a block between --- lines'],
+    });
+  });
+});
+
+describe('renderPlaybookSop', () => {
+  it('prefixes the name and rebuilds the frontmatter from the parsed fields', () => {
+    const parsed = parsePlaybook(playbook);
+    if (!parsed.success) throw new Error('expected a valid playbook');
+
+    const sop = renderPlaybookSop(parsed.data);
+    expect(sop.startsWith(
+      '---\nname: playbook-sprint-planning\ndescription: "Plans the next sprint"\nversion: 1.0.0\ntype: agent\n' +
+        'tools:\n  - get_tasks\n  - update_task\n---\n\nPick the tasks for the next two weeks.\n',
+    )).toBe(true);
+    expect(sop).toContain('`proposed: true`');
+  });
+});
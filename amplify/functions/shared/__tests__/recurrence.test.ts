@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { zonedTimeToUtc } from '../timezones';
+import {
+  formatRecurrenceRule,
+  nextOccurrence,
+  parseRecurrenceRule,
+  weekdayOfDate,
+  type RecurrenceRule,
+} from '../recurrence';
+
+function rule(raw: string): RecurrenceRule {
+  const parsed = parseRecurrenceRule(raw);
+  if (!parsed.success) throw new Error(parsed.error);
+  return parsed.data;
+}
+
+const SYDNEY = 'Australia/Sydney';
+const NEW_YORK = 'America/New_York';
+
+// Sydney moves from +11:00 to +10:00 at 03:00 on 2026-04-05 and back to +11:00 at 02:00 on
+// 2026-10-04. New York moves from -05:00 to -04:00 at 02:00 on 2026-03-08 and back at 02:00
+// on 2026-11-01.
+
+// Wall-clock time in the timezone
+const at = (localTime: string, timeZone = SYDNEY) => zonedTimeToUtc(localTime, timeZone)!;
+
+describe('parseRecurrenceRule', () => {
+  it('reads weekly rules with several weekdays in week order', () => {
+    expect(rule('FREQ=WEEKLY;INTERVAL=2;BYDAY=FR,MO')).toEqual({
+      frequency: 'WEEKLY',
+      interval: 2,
+      weekdays: ['MO', 'FR'],
+    });
+    expect(formatRecurrenceRule(rule('freq=weekly;byday=fr,mo'))).toBe('FREQ=WEEKLY;BYDAY=MO,FR');
+  });
+
+  it('rejects parts that do not apply to the frequency', () => {
+    expect(parseRecurrenceRule('FREQ=DAILY;BYDAY=MO').success).toBe(false);
+    expect(parseRecurrenceRule('FREQ=WEEKLY;BYMONTHDAY=3').success).toBe(false);
+    expect(parseRecurrenceRule('FREQ=WEEKLY;AFTER=COMPLETION').success).toBe(false);
+    expect(parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=32').success).toBe(false);
+    expect(parseRecurrenceRule('FREQ=DAILY;INTERVAL=0').success).toBe(false);
+    expect(parseRecurrenceRule('FREQ=YEARLY').success).toBe(false);
+  });
+});
+
+describe('weekdayOfDate', () => {
+  it('reads the weekday of a calendar date', () => {
+    expect(weekdayOfDate('2026-01-05')).toBe('MO');
+    expect(weekdayOfDate('2026-01-11T23:30')).toBe('SU');
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('steps through several weekdays, skipping the weeks between intervals', () => {
+    const everyOtherWeek = rule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR');
+
+    // Monday 5 January → Friday of the same week → Monday two weeks on
+    expect(nextOccurrence(everyOtherWeek, at('2026-01-05T09:00'), at('2026-01-05T10:00'), SYDNEY)).toEqual(
+      at('2026-01-09T09:00'),
+    );
+    expect(nextOccurrence(everyOtherWeek, at('2026-01-09T09:00'), at('2026-01-09T10:00'), SYDNEY)).toEqual(
+      at('2026-01-19T09:00'),
+    );
+  });
+
+  it('uses weekdays in the timezone, not in UTC', () => {
+    // 08:00 on Friday in Sydney is still Thursday in UTC
+    const due = at('2026-01-09T08:00');
+    expect(due.getUTCDay()).toBe(4);
+    expect(nextOccurrence(rule('FREQ=WEEKLY'), due, at('2026-01-09T10:00'), SYDNEY)).toEqual(at('2026-01-16T08:00'));
+    expect(nextOccurrence(rule('FREQ=WEEKLY;BYDAY=FR'), due, at('2026-01-09T10:00'), SYDNEY)).toEqual(
+      at('2026-01-16T08:00'),
+    );
+  });
+
+  it('clamps the 31st to the end of shorter months', () => {
+    const monthEnd = rule('FREQ=MONTHLY;BYMONTHDAY=31');
+    const next = (due: string) => nextOccurrence(monthEnd, at(`${due}T09:00`), at(`${due}T10:00`), SYDNEY);
+
+    expect(next('2026-01-31')).toEqual(at('2026-02-28T09:00'));
+    expect(next('2026-02-28')).toEqual(at('2026-03-31T09:00'));
+    expect(next('2026-03-31')).toEqual(at('2026-04-30T09:00'));
+  });
+
+  it('skips occurrences already missed when completed late', () => {
+    expect(nextOccurrence(rule('FREQ=DAILY'), at('2026-03-01T09:00'), at('2026-03-05T12:00'), SYDNEY)).toEqual(
+      at('2026-03-06T09:00'),
+    );
+    expect(
+      nextOccurrence(rule('FREQ=MONTHLY;BYMONTHDAY=15'), at('2026-01-15T09:00'), at('2026-03-20T09:00'), SYDNEY),
+    ).toEqual(at('2026-04-15T09:00'));
+  });
+
+  it('counts after-completion rules from the completion day, at the due time of day', () => {
+    const afterCompletion = rule('FREQ=DAILY;INTERVAL=3;AFTER=COMPLETION');
+
+    expect(nextOccurrence(afterCompletion, at('2026-03-01T09:00'), at('2026-03-05T18:30'), SYDNEY)).toEqual(
+      at('2026-03-08T09:00'),
+    );
+    // Without a due date the completion time is kept
+    expect(nextOccurrence(afterCompletion, null, at('2026-03-05T18:30'), SYDNEY)).toEqual(at('2026-03-08T18:30'));
+  });
+
+  it('keeps the local time of day across daylight saving changes', () => {
+    const daily = rule('FREQ=DAILY');
+
+    // Sydney: 09:00 is 22:00Z the day before at +11:00 and 23:00Z at +10:00
+    expect(nextOccurrence(daily, at('2026-10-03T09:00'), at('2026-10-03T10:00'), SYDNEY).toISOString()).toBe(
+      '2026-10-03T22:00:00.000Z',
+    );
+    expect(nextOccurrence(daily, at('2026-04-04T09:00'), at('2026-04-04T10:00'), SYDNEY).toISOString()).toBe(
+      '2026-04-04T23:00:00.000Z',
+    );
+    // New York: a weekly task at 09:00 moves from 14:00Z to 13:00Z
+    const due = at('2026-03-05T09:00', NEW_YORK);
+    const weekly = nextOccurrence(rule('FREQ=WEEKLY'), due, at('2026-03-05T10:00', NEW_YORK), NEW_YORK);
+    expect(weekly.toISOString()).toBe('2026-03-12T13:00:00.000Z');
+  });
+
+  it('moves a time skipped by the clocks going forward past the gap', () => {
+    // 02:30 does not exist in Sydney on 2026-10-04
+    expect(
+      nextOccurrence(rule('FREQ=DAILY'), at('2026-10-03T02:30'), at('2026-10-03T03:00'), SYDNEY).toISOString(),
+    ).toBe('2026-10-03T16:30:00.000Z');
+  });
+
+  it('uses the first of two repeated times when the clocks go back', () => {
+    // 01:30 happens twice in New York on 2026-11-01; the first is at -04:00
+    const due = at('2026-10-31T01:30', NEW_YORK);
+    const next = nextOccurrence(rule('FREQ=DAILY'), due, at('2026-10-31T02:00', NEW_YORK), NEW_YORK);
+    expect(next.toISOString()).toBe('2026-11-01T05:30:00.000Z');
+  });
+});
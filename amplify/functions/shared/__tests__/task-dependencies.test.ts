@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { dependencyCycleProblem, findDependencyCycle, loadDependencyChain } from '../task-dependencies';
+
+// design ← build ← test ← release
+const tasks = [
+  { id: 'design', title: 'Design', blockedBy: [] },
+  { id: 'build', title: 'Build', blockedBy: ['design'] },
+  { id: 'test', title: 'Test', blockedBy: ['build', null] },
+  { id: 'release', title: 'Release', blockedBy: ['test'] },
+];
+
+describe('findDependencyCycle', () => {
+  it('accepts prerequisites that keep the graph acyclic', () => {
+    expect(findDependencyCycle(tasks, 'release', ['design', 'build'])).toBeNull();
+    expect(findDependencyCycle(tasks, 'design', [])).toBeNull();
+  });
+
+  it('finds a direct cycle', () => {
+    expect(findDependencyCycle(tasks, 'design', ['build'])).toEqual(['design', 'build', 'design']);
+  });
+
+  it('finds a transitive cycle', () => {
+    expect(findDependencyCycle(tasks, 'design', ['release'])).toEqual(['design', 'release', 'test', 'build', 'design']);
+  });
+});
+
+describe('dependencyCycleProblem', () => {
+  it('describes the cycle by task titles', () => {
+    expect(dependencyCycleProblem(tasks, 'design', ['test'])).toBe(
+      'Dependency cycle detected (Design → Test → Build → Design)',
+    );
+    expect(dependencyCycleProblem(tasks, 'design', ['unknown'])).toBeNull();
+  });
+
+  it('refuses a task that depends on itself', () => {
+    expect(dependencyCycleProblem(tasks, 'build', ['build'])).toBe('A task cannot depend on itself');
+  });
+});
+
+describe('loadDependencyChain', () => {
+  it('loads each task reachable through prerequisites once', async () => {
+    const requests: string[][] = [];
+    const getTasks = async (ids: string[]) => {
+      requests.push(ids);
+      return tasks.filter((task) => ids.includes(task.id));
+    };
+
+    const chain = await loadDependencyChain(['release', 'build', 'missing'], getTasks);
+
+    expect(chain.map((task) => task.id).sort()).toEqual(['build', 'design', 'release', 'test']);
+    expect(requests).toEqual([['release', 'build', 'missing'], ['design', 'test']]);
+  });
+
+  it('stops at cycles already stored', async () => {
+    const looped = [
+      { id: 'a', blockedBy: ['b'] },
+      { id: 'b', blockedBy: ['a'] },
+    ];
+    const chain = await loadDependencyChain(['a'], async (ids) => looped.filter((task) => ids.includes(task.id)));
+    expect(chain.map((task) => task.id)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addCalendarDays,
+  endOfZonedDay,
+  formatZonedDate,
+  formatZonedIso,
+  formatZonedTime,
+  parseZonedDateTime,
+  resolveTimezone,
+  timezoneOffsetMinutes,
+  zonedTimeToUtc,
+} from '../timezones';
+
+const SYDNEY = 'Australia/Sydney';
+const NEW_YORK = 'America/New_York';
+
+// Sydney moves from +11:00 to +10:00 at 03:00 on 2026-04-05 and back to +11:00 at 02:00 on
+// 2026-10-04. New York moves from -05:00 to -04:00 at 02:00 on 2026-03-08 and back at 02:00
+// on 2026-11-01.
+
+describe('resolveTimezone', () => {
+  it('keeps known zones and falls back to UTC otherwise', () => {
+    expect(resolveTimezone(SYDNEY)).toBe(SYDNEY);
+    expect(resolveTimezone('Mars/Olympus_Mons')).toBe('UTC');
+    expect(resolveTimezone(null)).toBe('UTC');
+    expect(resolveTimezone('')).toBe('UTC');
+  });
+});
+
+describe('timezoneOffsetMinutes', () => {
+  it('follows daylight saving on both sides of a change', () => {
+    expect(timezoneOffsetMinutes(new Date('2026-04-04T15:59:59Z'), SYDNEY)).toBe(660);
+    expect(timezoneOffsetMinutes(new Date('2026-04-04T16:00:00Z'), SYDNEY)).toBe(600);
+    expect(timezoneOffsetMinutes(new Date('2026-03-08T06:59:59Z'), NEW_YORK)).toBe(-300);
+    expect(timezoneOffsetMinutes(new Date('2026-03-08T07:00:00Z'), NEW_YORK)).toBe(-240);
+    expect(timezoneOffsetMinutes(new Date('2026-03-08T07:00:00Z'), 'Asia/Kolkata')).toBe(330);
+  });
+});
+
+describe('formatting', () => {
+  it('writes the local date, time and offset', () => {
+    const instant = new Date('2026-01-15T10:30:00.000Z');
+
+    expect(formatZonedIso(instant, SYDNEY)).toBe('2026-01-15T21:30:00.000+11:00');
+    expect(formatZonedIso(instant, NEW_YORK)).toBe('2026-01-15T05:30:00.000-05:00');
+    expect(formatZonedIso(instant, 'UTC')).toBe('2026-01-15T10:30:00.000Z');
+  });
+
+  it('uses the local calendar date, which can differ from the UTC date', () => {
+    const instant = new Date('2026-03-05T20:00:00.000Z');
+
+    expect(formatZonedDate(instant, SYDNEY)).toBe('2026-03-06');
+    expect(formatZonedTime(instant, SYDNEY)).toBe('07:00:00');
+    expect(formatZonedDate(new Date('2026-03-06T03:00:00.000Z'), NEW_YORK)).toBe('2026-03-05');
+  });
+});
+
+describe('addCalendarDays', () => {
+  it('adds calendar days across month ends and DST changes', () => {
+    expect(addCalendarDays('2026-10-03', 1)).toBe('2026-10-04');
+    expect(addCalendarDays('2026-02-28', 1)).toBe('2026-03-01');
+    expect(addCalendarDays('2026-01-01', -1)).toBe('2025-12-31');
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('reads wall-clock times with the offset in force on that day', () => {
+    expect(zonedTimeToUtc('2026-04-06T09:00', SYDNEY)?.toISOString()).toBe('2026-04-05T23:00:00.000Z');
+    expect(zonedTimeToUtc('2026-04-04T09:00', SYDNEY)?.toISOString()).toBe('2026-04-03T22:00:00.000Z');
+    expect(zonedTimeToUtc('2026-03-08T12:00:00', NEW_YORK)?.toISOString()).toBe('2026-03-08T16:00:00.000Z');
+  });
+
+  it('returns null for times skipped when the clocks go forward', () => {
+    expect(zonedTimeToUtc('2026-10-04T02:30', SYDNEY)).toBeNull();
+    expect(zonedTimeToUtc('2026-03-08T02:30', NEW_YORK)).toBeNull();
+    // Either side of the gap still exists
+    expect(zonedTimeToUtc('2026-10-04T01:59:59', SYDNEY)?.toISOString()).toBe('2026-10-03T15:59:59.000Z');
+    expect(zonedTimeToUtc('2026-10-04T03:00', SYDNEY)?.toISOString()).toBe('2026-10-03T16:00:00.000Z');
+  });
+
+  it('resolves times repeated when the clocks go back to their first occurrence', () => {
+    expect(zonedTimeToUtc('2026-04-05T02:30', SYDNEY)?.toISOString()).toBe('2026-04-04T15:30:00.000Z');
+    expect(zonedTimeToUtc('2026-11-01T01:30', NEW_YORK)?.toISOString()).toBe('2026-11-01T05:30:00.000Z');
+  });
+
+  it('rejects malformed and impossible dates', () => {
+    expect(zonedTimeToUtc('2026-02-30T09:00', SYDNEY)).toBeNull();
+    expect(zonedTimeToUtc('2026-03-05T24:00', SYDNEY)).toBeNull();
+    expect(zonedTimeToUtc('next friday', SYDNEY)).toBeNull();
+  });
+});
+
+describe('parseZonedDateTime', () => {
+  it('keeps explicit offsets and reads everything else in the timezone', () => {
+    expect(parseZonedDateTime('2026-03-05T09:00:00Z', SYDNEY)?.toISOString()).toBe('2026-03-05T09:00:00.000Z');
+    expect(parseZonedDateTime('2026-03-05T09:00:00+05:30', SYDNEY)?.toISOString()).toBe('2026-03-05T03:30:00.000Z');
+    expect(parseZonedDateTime('2026-03-05T09:00:00', SYDNEY)?.toISOString()).toBe('2026-03-04T22:00:00.000Z');
+    expect(parseZonedDateTime('2026-03-05', SYDNEY)?.toISOString()).toBe('2026-03-04T13:00:00.000Z');
+  });
+});
+
+describe('endOfZonedDay', () => {
+  it('ends the local day, including days with a DST change', () => {
+    expect(endOfZonedDay('2026-03-05', SYDNEY)?.toISOString()).toBe('2026-03-05T12:59:59.999Z');
+    // 23 hours long
+    expect(endOfZonedDay('2026-10-04', SYDNEY)?.toISOString()).toBe('2026-10-04T12:59:59.999Z');
+    // 25 hours long
+    expect(endOfZonedDay('2026-04-05', SYDNEY)?.toISOString()).toBe('2026-04-05T13:59:59.999Z');
+    expect(endOfZonedDay('2026-11-01', NEW_YORK)?.toISOString()).toBe('2026-11-02T04:59:59.999Z');
+  });
+});
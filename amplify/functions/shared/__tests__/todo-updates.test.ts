@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { buildNextOccurrenceWrites, buildTodoUpdate } from '../todo-updates';
+
+const now = new Date('2026-03-05T08:00:00.000Z');
+
+describe('buildTodoUpdate', () => {
+  it('sets provided fields and removes cleared ones', () => {
+    const update = buildTodoUpdate({ status: 'COMPLETE', dueDate: null }, now);
+    expect(update.UpdateExpression).toBe('SET #updatedAt = :updatedAt, #status = :status REMOVE #dueDate');
+    expect(update.ExpressionAttributeValues[':status']).toBe('COMPLETE');
+  });
+});
+
+describe('buildNextOccurrenceWrites', () => {
+  it('links and creates the next occurrence only while none is linked', () => {
+    const [link, create] = buildNextOccurrenceWrites('TodoItem', 'done-1', { id: 'next-1', title: 'Standup' }, now);
+
+    expect(link.Update).toMatchObject({
+      Key: { id: 'done-1' },
+      ConditionExpression: 'attribute_exists(id) AND attribute_not_exists(nextOccurrenceId)',
+      ExpressionAttributeValues: { ':nextId': 'next-1', ':now': now.toISOString() },
+    });
+    expect(create.Put).toEqual({
+      TableName: 'TodoItem',
+      Item: { id: 'next-1', title: 'Standup' },
+      ConditionExpression: 'attribute_not_exists(id)',
+    });
+  });
+});
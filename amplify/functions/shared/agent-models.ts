@@ -0,0 +1,54 @@
+// The models the task agents can run on. SOPs pick a tier in their frontmatter (`model: fast`)
+// and users can override it for all their requests in settings; the task-agents function
+// resolves the tier to a Bedrock model ID per request (see task-agents/model-routing.ts).
+//
+// This file has no imports so the frontend can import it as-is.
+
+export const AGENT_MODEL_TIERS = ['fast', 'standard', 'large'] as const;
+
+export type AgentModelTier = (typeof AGENT_MODEL_TIERS)[number];
+
+export const DEFAULT_MODEL_TIER: AgentModelTier = 'standard';
+
+export interface AgentModel {
+  modelId: string;
+  label: string;
+  // On-demand Bedrock prices in USD per million tokens, for cost estimates
+  inputPrice: number;
+  outputPrice: number;
+}
+
+export const AGENT_MODELS: Record<AgentModelTier, AgentModel> = {
+  fast: { modelId: 'au.anthropic.claude-haiku-4-5-20251001-v1:0', label: 'Claude Haiku 4.5', inputPrice: 1, outputPrice: 5 },
+  standard: { modelId: 'au.anthropic.claude-sonnet-4-5-20250929-v1:0', label: 'Claude Sonnet 4.5', inputPrice: 3, outputPrice: 15 },
+  large: { modelId: 'global.anthropic.claude-opus-4-5-20251101-v1:0', label: 'Claude Opus 4.5', inputPrice: 5, outputPrice: 25 },
+};
+
+/** Which model answered a request, how long it took and the tokens it used. */
+export interface AgentModelUsage {
+  modelId: string;
+  latencyMs: number;
+  // Only known when the model reported usage
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export function isAgentModelTier(value: unknown): value is AgentModelTier {
+  return typeof value === 'string' && (AGENT_MODEL_TIERS as readonly string[]).includes(value);
+}
+
+function findModel(modelId: string): AgentModel | undefined {
+  return Object.values(AGENT_MODELS).find((model) => model.modelId === modelId);
+}
+
+/** A readable name for a model ID; unknown IDs are shown as they are. */
+export function agentModelLabel(modelId: string): string {
+  return findModel(modelId)?.label ?? modelId;
+}
+
+/** The estimated cost in USD of the tokens a model used; 0 for models without a price. */
+export function estimateCostUsd(modelId: string, inputTokens: number, outputTokens: number): number {
+  const model = findModel(modelId);
+  if (!model) return 0;
+  return (inputTokens * model.inputPrice + outputTokens * model.outputPrice) / 1_000_000;
+}
@@ -0,0 +1,85 @@
+// Limits on how much each user, and the members of each group together, can ask of the task
+// agents. The startAgentJob mutation checks them before it creates an AgentJob, and the
+// task-agents functions check again before they run one (see task-agents/quotas.ts).
+//
+// A refused request fails with a quota error: `AgentQuotaExceeded:<scope>:<limit>:<allowed>`
+// followed by the details. The frontend reads it back with parseQuotaError and shows
+// describeQuotaError instead.
+//
+// This file has no imports so the frontend can import it as-is.
+
+export type QuotaScope = 'user' | 'group';
+
+export type QuotaLimit = 'concurrentJobs' | 'jobsPerHour' | 'monthlyTokens';
+
+export type AgentQuota = Record<QuotaLimit, number>;
+
+export const AGENT_QUOTAS: Record<QuotaScope, AgentQuota> = {
+  user: { concurrentJobs: 3, jobsPerHour: 30, monthlyTokens: 2_000_000 },
+  // Shared by everyone in a group, its owner included
+  group: { concurrentJobs: 10, jobsPerHour: 100, monthlyTokens: 10_000_000 },
+};
+
+/** What a user, or a group's members together, have used against a quota. */
+export type QuotaUsage = Record<QuotaLimit, number>;
+
+export interface QuotaViolation {
+  scope: QuotaScope;
+  limit: QuotaLimit;
+  allowed: number;
+  used: number;
+}
+
+const QUOTA_ERROR_PATTERN = /AgentQuotaExceeded:(user|group):(concurrentJobs|jobsPerHour|monthlyTokens):(\d+)/;
+
+/**
+ * The first limit the usage has reached, or null when another request is allowed. Requests
+ * that do not call a model (applying a reviewed changeset) skip the token budget.
+ */
+export function findQuotaViolation(
+  scope: QuotaScope,
+  usage: QuotaUsage,
+  options: { tokens?: boolean } = {},
+  quota: AgentQuota = AGENT_QUOTAS[scope],
+): QuotaViolation | null {
+  const limits: QuotaLimit[] = options.tokens === false
+    ? ['concurrentJobs', 'jobsPerHour']
+    : ['concurrentJobs', 'jobsPerHour', 'monthlyTokens'];
+  const limit = limits.find((name) => usage[name] >= quota[name]);
+  return limit ? { scope, limit, allowed: quota[limit], used: usage[limit] } : null;
+}
+
+/** The error message for a refused request. */
+export function formatQuotaError(violation: QuotaViolation): string {
+  const { scope, limit, allowed, used } = violation;
+  return `AgentQuotaExceeded:${scope}:${limit}:${allowed} (${used} used)`;
+}
+
+/** The violation a quota error describes, wherever it appears in a message; null for other errors. */
+export function parseQuotaError(message: string): QuotaViolation | null {
+  const match = QUOTA_ERROR_PATTERN.exec(message);
+  if (!match) return null;
+  const used = /\((\d+) used\)/.exec(message.slice(match.index));
+  return {
+    scope: match[1] as QuotaScope,
+    limit: match[2] as QuotaLimit,
+    allowed: Number(match[3]),
+    used: used ? Number(used[1]) : Number(match[3]),
+  };
+}
+
+/** A quota error as the user should read it. */
+export function describeQuotaError(violation: QuotaViolation): string {
+  const { scope, limit, allowed } = violation;
+  const who = scope === 'user' ? 'You' : "Your group's members";
+  switch (limit) {
+    case 'concurrentJobs':
+      return `${who} already have ${allowed} assistant requests running. Wait for one to finish, or cancel one, and try again.`;
+    case 'jobsPerHour':
+      return `${who} have made ${allowed} assistant requests in the last hour, the most allowed. Try again a little later.`;
+    case 'monthlyTokens':
+      return scope === 'user'
+        ? "You've used this month's assistant allowance. It resets at the start of next month."
+        : "Your group has used this month's shared assistant allowance. It resets at the start of next month.";
+  }
+}
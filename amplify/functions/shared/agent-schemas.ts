@@ -0,0 +1,251 @@
+// The output schema of each agent queryType. The task-agents function validates the model's
+// answer against it before storing the job result (and re-prompts the model when it does not
+// match); the frontend parses stored results with the same schemas.
+//
+// Models drift on field names between runs, so each schema accepts the known aliases
+// (e.g. `schedule` for `tasks`, `taskName` for `title`) and returns the canonical shape.
+// Parsing a canonical value again returns it unchanged.
+//
+// This file has no imports so the frontend can import it as-is.
+
+export type SchemaResult<T> = { success: true; data: T } | { success: false; errors: string[] };
+
+export interface AgentOutputSchema<T> {
+  /** The expected fields, shown to the model when it has to correct its answer. */
+  fields: string;
+  parse(value: unknown): SchemaResult<T>;
+}
+
+export interface TaskAnalysisOutput {
+  title: string;
+  priority: 'high' | 'medium' | 'low';
+  estimatedMinutes: number;
+  dueDate: string | null;
+  tags: string[];
+  recurrence: string | null;
+  reasoning: string;
+}
+
+export interface ProjectBreakdownOutput {
+  projectName?: string;
+  totalTasks: number;
+  estimatedTotalHours?: number;
+  workStreams: string[];
+  criticalPath: string[];
+  projectDuration?: string;
+  summary: string;
+}
+
+export interface DailyPlanEntry {
+  taskId: string;
+  title: string;
+  reasoning: string;
+  startTime?: string;
+  endTime?: string;
+  priority?: string;
+  estimatedMinutes?: number;
+}
+
+export interface DailyPlanOutput {
+  tasks: DailyPlanEntry[];
+  unscheduledTasks: string[];
+  summary: string;
+}
+
+export interface TaskAlternative {
+  taskId: string;
+  reason: string;
+}
+
+export interface TaskRecommendationOutput {
+  taskId: string;
+  title: string;
+  reasoning: string;
+  listId?: string;
+  priority?: string;
+  alternatives: TaskAlternative[];
+  estimatedCompletion?: string;
+}
+
+// --- Field readers ---
+// Each reader records a "path: problem" error and returns a placeholder, so one pass reports
+// every problem with the answer at once.
+
+type Fields = Record<string, unknown>;
+
+function isFields(value: unknown): value is Fields {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// The first of a field's names that is set
+function pick(fields: Fields, names: readonly string[]): unknown {
+  for (const name of names) {
+    if (fields[name] !== undefined && fields[name] !== null) return fields[name];
+  }
+  return undefined;
+}
+
+function requiredString(value: unknown, path: string, errors: string[]): string {
+  if (typeof value === 'string' && value.trim()) return value;
+  errors.push(value === undefined ? `${path}: is required` : `${path}: must be a non-empty string`);
+  return '';
+}
+
+function optionalString(value: unknown, path: string, errors: string[]): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'string') return value;
+  errors.push(`${path}: must be a string`);
+  return undefined;
+}
+
+function nullableString(value: unknown, path: string, errors: string[]): string | null {
+  return optionalString(value, path, errors) ?? null;
+}
+
+function requiredNumber(value: unknown, path: string, errors: string[], min: number): number {
+  if (typeof value === 'number' && Number.isFinite(value) && value >= min) return value;
+  errors.push(value === undefined ? `${path}: is required` : `${path}: must be a number of at least ${min}`);
+  return 0;
+}
+
+function optionalNumber(value: unknown, path: string, errors: string[]): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'number' && Number.isFinite(value) && value >= 0) return value;
+  errors.push(`${path}: must be a non-negative number`);
+  return undefined;
+}
+
+function stringList(value: unknown, path: string, errors: string[], required: boolean): string[] {
+  if (value === undefined && !required) return [];
+  if (Array.isArray(value) && value.every((item) => typeof item === 'string')) return value;
+  errors.push(value === undefined ? `${path}: is required` : `${path}: must be an array of strings`);
+  return [];
+}
+
+function objectList(value: unknown, path: string, errors: string[], required: boolean): Fields[] {
+  if (value === undefined && !required) return [];
+  if (!Array.isArray(value)) {
+    errors.push(value === undefined ? `${path}: is required` : `${path}: must be an array`);
+    return [];
+  }
+  return value.filter((item, index) => {
+    if (isFields(item)) return true;
+    errors.push(`${path}[${index}]: must be an object`);
+    return false;
+  });
+}
+
+// Parse a top-level object, or report that the answer was not one
+function parseObject<T>(value: unknown, read: (fields: Fields, errors: string[]) => T): SchemaResult<T> {
+  if (!isFields(value)) return { success: false, errors: ['response: must be a JSON object'] };
+  const errors: string[] = [];
+  const data = read(value, errors);
+  return errors.length > 0 ? { success: false, errors } : { success: true, data };
+}
+
+// Drop optional fields that were not given, so canonical values stay minimal
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as T;
+}
+
+// --- Schemas ---
+
+const ANALYZER_PRIORITIES = ['high', 'medium', 'low'] as const;
+
+export const taskAnalysisSchema: AgentOutputSchema<TaskAnalysisOutput> = {
+  fields:
+    'title (string), priority ("high" | "medium" | "low"), estimatedMinutes (positive number), ' +
+    'dueDate (ISO 8601 date or null), tags (array of strings), recurrence (string or null), reasoning (string)',
+  parse: (value) =>
+    parseObject(value, (fields, errors) => {
+      const priority = typeof fields.priority === 'string' ? fields.priority.toLowerCase() : fields.priority;
+      if (!ANALYZER_PRIORITIES.includes(priority as TaskAnalysisOutput['priority'])) {
+        errors.push(
+          priority === undefined ? 'priority: is required' : 'priority: must be one of high, medium, low',
+        );
+      }
+      return {
+        title: requiredString(fields.title, 'title', errors),
+        priority: priority as TaskAnalysisOutput['priority'],
+        estimatedMinutes: requiredNumber(fields.estimatedMinutes, 'estimatedMinutes', errors, 1),
+        dueDate: nullableString(fields.dueDate ?? undefined, 'dueDate', errors),
+        tags: stringList(fields.tags, 'tags', errors, true),
+        recurrence: nullableString(fields.recurrence ?? undefined, 'recurrence', errors),
+        reasoning: requiredString(fields.reasoning, 'reasoning', errors),
+      };
+    }),
+};
+
+export const projectBreakdownSchema: AgentOutputSchema<ProjectBreakdownOutput> = {
+  fields:
+    'projectName (string), totalTasks (number of tasks created), estimatedTotalHours (number), ' +
+    'workStreams (array of strings), criticalPath (array of task titles), projectDuration (string), summary (string)',
+  parse: (value) =>
+    parseObject(value, (fields, errors) =>
+      withoutUndefined({
+        projectName: optionalString(fields.projectName, 'projectName', errors),
+        totalTasks: requiredNumber(fields.totalTasks, 'totalTasks', errors, 0),
+        estimatedTotalHours: optionalNumber(fields.estimatedTotalHours, 'estimatedTotalHours', errors),
+        workStreams: stringList(fields.workStreams, 'workStreams', errors, false),
+        criticalPath: stringList(fields.criticalPath, 'criticalPath', errors, false),
+        projectDuration: optionalString(fields.projectDuration, 'projectDuration', errors),
+        summary: requiredString(fields.summary, 'summary', errors),
+      }),
+    ),
+};
+
+export const dailyPlanSchema: AgentOutputSchema<DailyPlanOutput> = {
+  fields:
+    'schedule (array of { startTime, endTime, taskId, taskName, reasoning }), ' +
+    'unscheduledTasks (array of task IDs), summary (string)',
+  parse: (value) =>
+    parseObject(value, (fields, errors) => ({
+      tasks: objectList(pick(fields, ['tasks', 'schedule']), 'schedule', errors, true).map((entry, index) =>
+        withoutUndefined({
+          taskId: requiredString(entry.taskId, `schedule[${index}].taskId`, errors),
+          title: requiredString(pick(entry, ['title', 'taskName']), `schedule[${index}].taskName`, errors),
+          reasoning: requiredString(entry.reasoning, `schedule[${index}].reasoning`, errors),
+          startTime: optionalString(entry.startTime, `schedule[${index}].startTime`, errors),
+          endTime: optionalString(entry.endTime, `schedule[${index}].endTime`, errors),
+          priority: optionalString(entry.priority, `schedule[${index}].priority`, errors),
+          estimatedMinutes: optionalNumber(entry.estimatedMinutes, `schedule[${index}].estimatedMinutes`, errors),
+        }),
+      ),
+      unscheduledTasks: stringList(fields.unscheduledTasks, 'unscheduledTasks', errors, false),
+      summary: requiredString(fields.summary, 'summary', errors),
+    })),
+};
+
+export const taskRecommendationSchema: AgentOutputSchema<TaskRecommendationOutput> = {
+  fields:
+    'recommendedTaskId (string), listId (string), taskName (string), reasoning (string), ' +
+    'alternatives (array of { taskId, reason }), estimatedCompletion (string)',
+  parse: (value) =>
+    parseObject(value, (fields, errors) =>
+      withoutUndefined({
+        taskId: requiredString(pick(fields, ['taskId', 'recommendedTaskId']), 'recommendedTaskId', errors),
+        title: requiredString(pick(fields, ['title', 'taskName']), 'taskName', errors),
+        reasoning: requiredString(fields.reasoning, 'reasoning', errors),
+        listId: optionalString(fields.listId, 'listId', errors),
+        priority: optionalString(fields.priority, 'priority', errors),
+        alternatives: objectList(fields.alternatives, 'alternatives', errors, false).map((entry, index) => ({
+          taskId: requiredString(entry.taskId, `alternatives[${index}].taskId`, errors),
+          reason: requiredString(entry.reason, `alternatives[${index}].reason`, errors),
+        })),
+        estimatedCompletion: optionalString(fields.estimatedCompletion, 'estimatedCompletion', errors),
+      }),
+    ),
+};
+
+// Freeform answers may be prose or any JSON, so they have no schema
+export const AGENT_OUTPUT_SCHEMAS: Record<string, AgentOutputSchema<unknown>> = {
+  analyzeTask: taskAnalysisSchema,
+  breakdownProject: projectBreakdownSchema,
+  planDay: dailyPlanSchema,
+  recommendTask: taskRecommendationSchema,
+};
+
+/** The output schema for a queryType, or undefined when its answers are not validated. */
+export function getAgentOutputSchema(queryType: string | undefined): AgentOutputSchema<unknown> | undefined {
+  return queryType && Object.hasOwn(AGENT_OUTPUT_SCHEMAS, queryType) ? AGENT_OUTPUT_SCHEMAS[queryType] : undefined;
+}
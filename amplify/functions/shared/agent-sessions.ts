@@ -0,0 +1,70 @@
+// Agent sessions: conversations about an agent's answer. Every daily plan, project breakdown
+// and task recommendation is recorded in an AgentSession with the request that produced it.
+// The user can then reply with follow-ups ("move the gym to the evening"), each of which
+// re-runs the request with the conversation so far and the latest answer, and replaces that
+// answer with the revised one.
+//
+// A follow-up request carries `sessionId` and `followUp` next to the usual request fields.
+// The task-agents functions check them with validateFollowUp and record the conversation (see
+// task-agents/sessions.ts); the frontend shows it in the chat panel.
+//
+// This file has no imports so the frontend can import it as-is.
+
+/** The queryTypes whose answers can be followed up. */
+export const AGENT_SESSION_QUERY_TYPES = ['planDay', 'breakdownProject', 'recommendTask'] as const;
+
+/** Follow-ups allowed in one session; after that the user starts a new request. */
+export const MAX_SESSION_FOLLOW_UPS = 10;
+
+export const MAX_FOLLOW_UP_LENGTH = 1000;
+
+// How long a session is kept after its last turn before DynamoDB TTL deletes it
+export const SESSION_RETENTION_DAYS = 7;
+
+export interface AgentSessionMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  at: string;
+}
+
+export function isSessionQueryType(queryType: string | undefined): boolean {
+  return (AGENT_SESSION_QUERY_TYPES as readonly (string | undefined)[]).includes(queryType);
+}
+
+/** The follow-ups sent so far: one per user message. */
+export function countFollowUps(messages: AgentSessionMessage[]): number {
+  return messages.filter((message) => message.role === 'user').length;
+}
+
+/** Why a follow-up cannot be sent, or null if it can. */
+export function validateFollowUp(message: string, messages: AgentSessionMessage[]): string | null {
+  if (!message.trim()) return 'Write what you would like changed';
+  if (message.length > MAX_FOLLOW_UP_LENGTH) {
+    return `Keep follow-ups under ${MAX_FOLLOW_UP_LENGTH} characters`;
+  }
+  if (countFollowUps(messages) >= MAX_SESSION_FOLLOW_UPS) {
+    return `This conversation has reached ${MAX_SESSION_FOLLOW_UPS} follow-ups. Start a new request to keep going.`;
+  }
+  return null;
+}
+
+/** A session's messages from the stored AWSJSON; anything malformed is left out. */
+export function parseSessionMessages(value: unknown): AgentSessionMessage[] {
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(parsed)) return [];
+  return parsed.filter(
+    (message): message is AgentSessionMessage =>
+      message !== null &&
+      typeof message === 'object' &&
+      (message.role === 'user' || message.role === 'assistant') &&
+      typeof message.content === 'string' &&
+      typeof message.at === 'string',
+  );
+}
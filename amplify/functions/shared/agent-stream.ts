@@ -0,0 +1,141 @@
+// The frames the streaming task-agents endpoint sends, as server-sent events, while the agent
+// works on a request. The frontend reads them with the same parser.
+//
+// - thinking:     the orchestrator's narration and reasoning, which is not part of the answer
+// - tool_call:    a tool the agent is calling, with its timeline label
+// - tool_result:  whether that tool call succeeded
+// - partial_json: the next piece of the answer's text; `reset` starts a new answer (e.g. when
+//                 the agent is asked to correct one), discarding the text so far
+// - final:        the validated response with the run's trace, and the session to send
+//                 follow-ups in (see agent-sessions.ts); always the last frame
+//
+// This file has only type imports so the frontend can import it as-is.
+
+import type { AgentTrace } from './agent-trace.js';
+
+export interface AgentStreamResponse {
+  success: boolean;
+  data?: unknown;
+  error?: string;
+}
+
+export type AgentStreamFrame =
+  | { type: 'thinking'; text: string }
+  | { type: 'tool_call'; tool: string; label: string }
+  | { type: 'tool_result'; tool: string; success: boolean }
+  | { type: 'partial_json'; text: string; reset?: boolean }
+  | { type: 'final'; response: AgentStreamResponse; trace?: AgentTrace; sessionId?: string };
+
+export const AGENT_STREAM_FRAME_TYPES = ['thinking', 'tool_call', 'tool_result', 'partial_json', 'final'] as const;
+
+/** One frame as a server-sent event, named after its type. */
+export function encodeSseFrame(frame: AgentStreamFrame): string {
+  return `event: ${frame.type}\ndata: ${JSON.stringify(frame)}\n\n`;
+}
+
+function isAgentStreamFrame(value: unknown): value is AgentStreamFrame {
+  if (value === null || typeof value !== 'object') return false;
+  const type = (value as { type?: unknown }).type;
+  return (AGENT_STREAM_FRAME_TYPES as readonly unknown[]).includes(type);
+}
+
+export interface SseFrameParser {
+  /** Feed the next chunk of the response body; chunks may split events anywhere. */
+  push(chunk: string): void;
+  /** Flush an event left without its closing blank line when the body ends. */
+  end(): void;
+}
+
+/**
+ * Read server-sent events into frames. Only `data:` lines are used (the frame carries its own
+ * type); comments, other fields and events that are not frames are skipped.
+ */
+export function createSseFrameParser(onFrame: (frame: AgentStreamFrame) => void): SseFrameParser {
+  let buffer = '';
+
+  const dispatch = (event: string) => {
+    const data = event
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(line.startsWith('data: ') ? 6 : 5))
+      .join('\n');
+    if (!data) return;
+
+    try {
+      const frame: unknown = JSON.parse(data);
+      if (isAgentStreamFrame(frame)) onFrame(frame);
+    } catch {
+      // Not a frame
+    }
+  };
+
+  return {
+    push(chunk) {
+      buffer += chunk.replace(/\r\n?/g, '\n');
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary >= 0) {
+        dispatch(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+      }
+    },
+    end() {
+      if (buffer.trim()) dispatch(buffer);
+      buffer = '';
+    },
+  };
+}
+
+// Close whatever strings, objects and arrays are still open at the end of `text`, ignoring
+// anything after the first complete value (e.g. a closing code fence)
+function closeJson(text: string): string {
+  const open: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{') open.push('}');
+    else if (char === '[') open.push(']');
+    else if (char === '}' || char === ']') {
+      open.pop();
+      if (open.length === 0) return text.slice(0, i + 1);
+    }
+  }
+
+  let closed = text;
+  if (inString) closed = (escaped ? closed.slice(0, -1) : closed) + '"';
+  return closed.replace(/[\s,]+$/, '') + open.reverse().join('');
+}
+
+/**
+ * Read as much of an answer that is still arriving as can be read: open strings, objects and
+ * arrays are closed and a trailing key or value that is cut short is dropped. Text before the
+ * first `{` or `[` (such as a code fence) is skipped. Returns undefined until there is a value.
+ */
+export function parsePartialJson(text: string): unknown {
+  const start = text.search(/[{[]/);
+  if (start < 0) return undefined;
+
+  const source = text.slice(start);
+  let end = source.length;
+  while (end > 0) {
+    try {
+      return JSON.parse(closeJson(source.slice(0, end)));
+    } catch {
+      // Drop back to the last separator or opening bracket before the end and try again
+      const head = source.slice(0, end - 1);
+      const cut = Math.max(head.lastIndexOf(','), head.lastIndexOf('{'), head.lastIndexOf('['));
+      if (cut < 0) return undefined;
+      end = head[cut] === ',' ? cut : cut + 1;
+    }
+  }
+  return undefined;
+}
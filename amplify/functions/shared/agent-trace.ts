@@ -0,0 +1,70 @@
+// The trace of one agent run: each hand-over to a specialist, each tool call with what it
+// was given and returned, and the tokens of each model call. The task-agents function records
+// it (see task-agents/trace.ts), stores a summary on the AgentJob and sends it with the final
+// frame of a streamed request; the frontend shows it as "How the agent decided".
+//
+// This file has no imports so the frontend can import it as-is.
+
+export type AgentTraceEntry =
+  | { kind: 'delegation'; agent: string; atMs: number }
+  | {
+      kind: 'tool';
+      tool: string;
+      input: string;
+      output: string;
+      success: boolean;
+      // Set when a dry run recorded the change for review instead of making it
+      proposed?: boolean;
+      latencyMs: number;
+      atMs: number;
+    }
+  | { kind: 'model'; inputTokens: number; outputTokens: number; latencyMs?: number; atMs: number }
+  | { kind: 'repair'; error: string; atMs: number };
+
+export interface AgentTraceTotals {
+  delegations: number;
+  toolCalls: number;
+  failedToolCalls: number;
+  modelCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface AgentTrace {
+  modelId: string;
+  durationMs: number;
+  entries: AgentTraceEntry[];
+  // Entries left out to keep the trace small; the totals still count them
+  omitted: number;
+  totals: AgentTraceTotals;
+}
+
+// A job item must stay well under DynamoDB's 400 KB, so traces are summarized
+export const MAX_TRACE_ENTRIES = 60;
+export const MAX_TRACE_TEXT_LENGTH = 400;
+
+/** Text for a trace entry, cut to MAX_TRACE_TEXT_LENGTH. */
+export function truncateTraceText(text: string): string {
+  return text.length > MAX_TRACE_TEXT_LENGTH ? `${text.slice(0, MAX_TRACE_TEXT_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Read a stored or streamed trace; AWSJSON fields may arrive as (doubly) encoded strings.
+ * Returns null for anything that is not a trace.
+ */
+export function parseAgentTrace(value: unknown): AgentTrace | null {
+  let data = value;
+  for (let i = 0; i < 2 && typeof data === 'string'; i++) {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+  if (data === null || typeof data !== 'object') return null;
+
+  const trace = data as Partial<AgentTrace>;
+  if (typeof trace.modelId !== 'string' || !Array.isArray(trace.entries) || !trace.totals) return null;
+  return trace as AgentTrace;
+}
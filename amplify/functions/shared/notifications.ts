@@ -0,0 +1,103 @@
+import { SignatureV4 } from '@smithy/signature-v4';
+import { HttpRequest } from '@smithy/protocol-http';
+import { Sha256 } from '@aws-crypto/sha256-js';
+import { defaultProvider } from '@aws-sdk/credential-provider-node';
+
+// Notifications are created through AppSync (not written to DynamoDB directly) so that the
+// recipient's onCreate subscription delivers them live.
+
+// How long a notification is kept before DynamoDB TTL deletes it
+export const NOTIFICATION_RETENTION_DAYS = 30;
+
+export type NotificationType = 'REMINDER' | 'INVITATION' | 'MEMBER_JOINED' | 'ASSIGNMENT' | 'AGENT_JOB';
+
+export interface NotificationInput {
+  owner: string;
+  type: NotificationType;
+  title: string;
+  body?: string;
+  todoId?: string;
+  listId?: string;
+  groupId?: string;
+  jobId?: string;
+}
+
+export type GraphQLRequester = (query: string, variables: Record<string, unknown>) => Promise<unknown>;
+
+// Select every field so subscribers receive the full record
+export const CREATE_NOTIFICATION_MUTATION = /* GraphQL */ `
+  mutation CreateNotification($input: CreateNotificationInput!) {
+    createNotification(input: $input) {
+      id
+      owner
+      type
+      title
+      body
+      todoId
+      listId
+      groupId
+      jobId
+      read
+      expiresAt
+      createdAt
+      updatedAt
+    }
+  }
+`;
+
+/**
+ * Build the createNotification input, dropping empty optional fields. Owners stored as
+ * `sub::username` are reduced to the `sub` the Notification owner rule checks, and the
+ * notification expires NOTIFICATION_RETENTION_DAYS after `now`.
+ */
+export function buildNotificationInput(input: NotificationInput, now = new Date()): Record<string, unknown> {
+  const result: Record<string, unknown> = {
+    read: false,
+    expiresAt: Math.floor(now.getTime() / 1000) + NOTIFICATION_RETENTION_DAYS * 24 * 60 * 60,
+  };
+  for (const [key, value] of Object.entries(input)) {
+    if (value !== undefined && value !== '') {
+      result[key] = value;
+    }
+  }
+  result.owner = input.owner.split('::')[0];
+  return result;
+}
+
+export async function sendNotification(request: GraphQLRequester, input: NotificationInput): Promise<void> {
+  await request(CREATE_NOTIFICATION_MUTATION, { input: buildNotificationInput(input) });
+}
+
+/** A GraphQL requester that signs calls to the AppSync endpoint with the function's IAM role. */
+export function createAppSyncRequester(endpoint: string, region: string): GraphQLRequester {
+  const url = new URL(endpoint);
+  const signer = new SignatureV4({
+    credentials: defaultProvider(),
+    region,
+    service: 'appsync',
+    sha256: Sha256,
+  });
+
+  return async (query, variables) => {
+    const request = new HttpRequest({
+      method: 'POST',
+      protocol: url.protocol,
+      hostname: url.hostname,
+      path: url.pathname,
+      headers: { 'Content-Type': 'application/json', host: url.hostname },
+      body: JSON.stringify({ query, variables }),
+    });
+    const signed = await signer.sign(request);
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: signed.headers,
+      body: signed.body as string,
+    });
+    const payload = (await response.json()) as { data?: unknown; errors?: { message: string }[] };
+    if (!response.ok || payload.errors?.length) {
+      throw new Error(payload.errors?.[0]?.message ?? `AppSync responded with ${response.status}`);
+    }
+    return payload.data;
+  };
+}
@@ -0,0 +1,203 @@
+// User-authored agent playbooks. A playbook is an SOP written by a user (or shared with their
+// group): Markdown with a frontmatter block naming it and listing the tools it may use. The
+// task-agents function loads a user's playbooks per request and hands them to the orchestrator
+// next to the built-in SOPs; the frontend validates drafts with the same parser.
+//
+// ---
+// name: weekly-review
+// description: Reviews last week's work and plans the next one
+// tools:
+//   - get_tasks
+//   - update_task
+// ---
+//
+// Playbooks may only list the existing task tools, and are always specialists (never
+// orchestrators). They are re-rendered from the parsed fields before they reach the agent, so
+// nothing else in the frontmatter is passed on.
+//
+// This file has no imports so the frontend can import it as-is.
+
+export const AGENT_TOOL_NAMES = [
+  'create_task',
+  'get_tasks',
+  'get_lists',
+  'create_tasks',
+  'update_task',
+  'complete_task',
+  'delete_task',
+  'move_task',
+] as const;
+
+export type AgentToolName = (typeof AGENT_TOOL_NAMES)[number];
+
+export const MAX_PLAYBOOK_LENGTH = 20_000;
+
+// The agent name of a playbook is prefixed so it can never shadow a built-in SOP
+export const PLAYBOOK_PREFIX = 'playbook-';
+
+const NAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const MAX_NAME_LENGTH = 40;
+const KNOWN_KEYS = ['name', 'description', 'version', 'type', 'tools'];
+
+export interface PlaybookDefinition {
+  name: string;
+  description: string;
+  tools: AgentToolName[];
+  instructions: string;
+}
+
+export type PlaybookParseResult =
+  | { success: true; data: PlaybookDefinition }
+  | { success: false; errors: string[] };
+
+export const PLAYBOOK_TEMPLATE = `---
+name: weekly-review
+description: Reviews what was finished last week and what is due next week
+tools:
+  - get_lists
+  - get_tasks
+---
+
+# Weekly Review
+
+## Steps
+
+### 1. Gather the week
+
+Call \`get_tasks\` for tasks completed in the last 7 days and tasks due in the next 7 days.
+
+### 2. Summarise
+
+List what was finished, what slipped, and the three most important tasks for next week.
+`;
+
+// Read the `key: value` lines and `- item` lists of a frontmatter block. Only the small subset
+// of YAML that SOP frontmatter uses is supported.
+function readFrontmatter(block: string, errors: string[]): Record<string, string | string[]> {
+  const fields: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+
+  block.split('\n').forEach((line, index) => {
+    if (!line.trim() || line.trim().startsWith('#')) return;
+
+    const item = line.match(/^\s+-\s*(.*)$/);
+    if (item) {
+      const list = listKey ? fields[listKey] : undefined;
+      if (Array.isArray(list)) list.push(unquote(item[1]));
+      else errors.push(`frontmatter line ${index + 1}: list item without a list`);
+      return;
+    }
+
+    const pair = line.match(/^([A-Za-z][\w-]*):\s*(.*)$/);
+    if (!pair) {
+      errors.push(`frontmatter line ${index + 1}: expected "key: value"`);
+      listKey = null;
+      return;
+    }
+
+    const [, key, value] = pair;
+    if (!value) {
+      fields[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      fields[key] = value.slice(1, -1).split(',').map(unquote).filter(Boolean);
+      listKey = null;
+    } else {
+      fields[key] = unquote(value);
+      listKey = null;
+    }
+  });
+
+  return fields;
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  return /^(['"]).*\1$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+}
+
+/** Parse and validate a playbook, reporting every problem with it at once. */
+export function parsePlaybook(content: string): PlaybookParseResult {
+  if (content.length > MAX_PLAYBOOK_LENGTH) {
+    return { success: false, errors: [`playbook: must be at most ${MAX_PLAYBOOK_LENGTH} characters`] };
+  }
+
+  const match = content.replace(/\r\n?/g, '\n').match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/);
+  if (!match) {
+    return { success: false, errors: ['frontmatter: the playbook must start with a block between --- lines'] };
+  }
+
+  const errors: string[] = [];
+  const fields = readFrontmatter(match[1], errors);
+
+  for (const key of Object.keys(fields)) {
+    if (!KNOWN_KEYS.includes(key)) errors.push(`${key}: is not a playbook field`);
+  }
+
+  const name = fields.name;
+  if (typeof name !== 'string' || !name) {
+    errors.push('name: is required');
+  } else if (!NAME_PATTERN.test(name) || name.length > MAX_NAME_LENGTH) {
+    errors.push(`name: must be lowercase letters, digits and hyphens, at most ${MAX_NAME_LENGTH} characters`);
+  }
+
+  const description = fields.description;
+  if (typeof description !== 'string' || !description) errors.push('description: is required');
+
+  if (fields.type !== undefined && fields.type !== 'agent') {
+    errors.push('type: playbooks can only be agents');
+  }
+
+  const tools = fields.tools;
+  if (!Array.isArray(tools) || tools.length === 0) {
+    errors.push('tools: list at least one tool');
+  } else {
+    for (const tool of tools) {
+      if (!(AGENT_TOOL_NAMES as readonly string[]).includes(tool)) {
+        errors.push(`tools: ${tool} is not an available tool (${AGENT_TOOL_NAMES.join(', ')})`);
+      }
+    }
+  }
+
+  const instructions = match[2].trim();
+  if (!instructions) errors.push('instructions: write the steps below the frontmatter');
+
+  if (errors.length > 0) return { success: false, errors };
+  return {
+    success: true,
+    data: {
+      name: name as string,
+      description: description as string,
+      tools: [...new Set(tools as AgentToolName[])],
+      instructions,
+    },
+  };
+}
+
+/** The name the orchestrator knows a playbook by. */
+export function playbookAgentName(name: string): string {
+  return `${PLAYBOOK_PREFIX}${name}`;
+}
+
+/** The SOP the agent is given for a playbook, rebuilt from its parsed fields. */
+export function renderPlaybookSop(playbook: PlaybookDefinition): string {
+  return [
+    '---',
+    `name: ${playbookAgentName(playbook.name)}`,
+    `description: ${JSON.stringify(playbook.description)}`,
+    'version: 1.0.0',
+    'type: agent',
+    'tools:',
+    ...playbook.tools.map((tool) => `  - ${tool}`),
+    '---',
+    '',
+    playbook.instructions,
+    '',
+    '## Playbook Rules',
+    '',
+    '- You MUST only use the tools listed for this playbook',
+    '- You MUST NOT invent task data — only use what the tools return',
+    '- When a tool result has `proposed: true`, the change is waiting for the user to confirm it — you MUST describe it as proposed, not as done',
+    '',
+  ].join('\n');
+}
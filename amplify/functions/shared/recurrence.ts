@@ -0,0 +1,222 @@
+// --- Recurrence rules ---
+//
+// Rules are stored on TodoItem.recurrenceRule as a subset of iCalendar RRULE syntax:
+//   FREQ=DAILY;INTERVAL=2                 every 2 days
+//   FREQ=WEEKLY;INTERVAL=2;BYDAY=FR       every second Friday
+//   FREQ=MONTHLY;BYMONTHDAY=15            the 15th of every month
+//   FREQ=DAILY;INTERVAL=3;AFTER=COMPLETION  3 days after the previous one was completed
+// AFTER=COMPLETION is not part of RRULE; it shifts from the completion time instead of the due date.
+//
+// Rules are evaluated on wall-clock time in the user's timezone, so "every Friday at 9:00"
+// stays on Friday at 9:00 there whatever the browser's zone and across daylight saving changes.
+//
+// Used by the app and by the task agents, which both schedule the next occurrence when they
+// complete a recurring task.
+
+import { DEFAULT_TIMEZONE, timezoneOffsetMinutes, zonedParts, zonedTimeToUtc } from './timezones';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays?: Weekday[];
+  monthDay?: number;
+  afterCompletion?: boolean;
+}
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat', SU: 'Sun',
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Guard against rules that never match (e.g. corrupted data)
+const MAX_ITERATIONS = 1000;
+
+export type RecurrenceRuleResult = { success: true; data: RecurrenceRule } | { success: false; error: string };
+
+export function parseRecurrenceRule(raw: string): RecurrenceRuleResult {
+  const parts = new Map<string, string>();
+  for (const part of raw.trim().toUpperCase().split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) {
+      return { success: false, error: `Invalid rule part: ${part}` };
+    }
+    parts.set(key, value);
+  }
+
+  const frequency = parts.get('FREQ');
+  if (frequency !== 'DAILY' && frequency !== 'WEEKLY' && frequency !== 'MONTHLY') {
+    return { success: false, error: `Invalid FREQ: ${frequency ?? 'missing'}. Valid values: DAILY, WEEKLY, MONTHLY` };
+  }
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1;
+  if (!Number.isInteger(interval) || interval < 1) {
+    return { success: false, error: `Invalid INTERVAL: ${parts.get('INTERVAL')}` };
+  }
+
+  const rule: RecurrenceRule = { frequency, interval };
+
+  if (parts.has('BYDAY')) {
+    const days = parts.get('BYDAY')!.split(',');
+    const invalid = days.filter((d) => !(WEEKDAYS as readonly string[]).includes(d));
+    if (invalid.length > 0 || frequency !== 'WEEKLY') {
+      return { success: false, error: `Invalid BYDAY: ${parts.get('BYDAY')}` };
+    }
+    rule.weekdays = WEEKDAYS.filter((d) => days.includes(d));
+  }
+
+  if (parts.has('BYMONTHDAY')) {
+    const monthDay = Number(parts.get('BYMONTHDAY'));
+    if (!Number.isInteger(monthDay) || monthDay < 1 || monthDay > 31 || frequency !== 'MONTHLY') {
+      return { success: false, error: `Invalid BYMONTHDAY: ${parts.get('BYMONTHDAY')}` };
+    }
+    rule.monthDay = monthDay;
+  }
+
+  if (parts.has('AFTER')) {
+    if (parts.get('AFTER') !== 'COMPLETION' || frequency !== 'DAILY') {
+      return { success: false, error: 'AFTER=COMPLETION is only supported with FREQ=DAILY' };
+    }
+    rule.afterCompletion = true;
+  }
+
+  return { success: true, data: rule };
+}
+
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.frequency === 'WEEKLY' && rule.weekdays && rule.weekdays.length > 0) {
+    parts.push(`BYDAY=${rule.weekdays.join(',')}`);
+  }
+  if (rule.frequency === 'MONTHLY' && rule.monthDay) parts.push(`BYMONTHDAY=${rule.monthDay}`);
+  if (rule.frequency === 'DAILY' && rule.afterCompletion) parts.push('AFTER=COMPLETION');
+  return parts.join(';');
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const every = (unit: string) => (rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`);
+
+  switch (rule.frequency) {
+    case 'DAILY':
+      return rule.afterCompletion
+        ? `${rule.interval} ${rule.interval === 1 ? 'day' : 'days'} after completion`
+        : every('day');
+    case 'WEEKLY': {
+      const days = rule.weekdays?.map((d) => WEEKDAY_LABELS[d]).join(', ');
+      return days ? `${every('week')} on ${days}` : every('week');
+    }
+    case 'MONTHLY':
+      return rule.monthDay ? `${every('month')} on day ${rule.monthDay}` : every('month');
+  }
+}
+
+// The steps below work on wall-clock times held in Dates whose UTC fields are the local
+// fields in the timezone, so calendar arithmetic never sees an offset change
+
+function toWallClock(date: Date, timeZone: string): Date {
+  const parts = zonedParts(date, timeZone);
+  return new Date(
+    Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, date.getUTCMilliseconds()),
+  );
+}
+
+// A time skipped when the clocks go forward is read with the offset from before the change,
+// as iCalendar does, so 02:30 on that day becomes 03:30
+function fromWallClock(wall: Date, timeZone: string): Date {
+  return (
+    zonedTimeToUtc(wall.toISOString().slice(0, 23), timeZone) ??
+    new Date(wall.getTime() - timezoneOffsetMinutes(new Date(wall.getTime() - DAY_MS), timeZone) * MINUTE_MS)
+  );
+}
+
+// Monday-based weekday index (MO = 0 … SU = 6)
+function weekdayOf(wall: Date): Weekday {
+  return WEEKDAYS[(wall.getUTCDay() + 6) % 7];
+}
+
+/** The weekday of a calendar date (YYYY-MM-DD), e.g. to default a weekly rule to the due day. */
+export function weekdayOfDate(date: string): Weekday {
+  return weekdayOf(new Date(`${date.slice(0, 10)}T00:00:00Z`));
+}
+
+function startOfWeek(wall: Date): Date {
+  const start = new Date(wall);
+  start.setUTCHours(0, 0, 0, 0);
+  start.setUTCDate(start.getUTCDate() - ((wall.getUTCDay() + 6) % 7));
+  return start;
+}
+
+function addMonthsClamped(wall: Date, months: number, monthDay: number): Date {
+  const next = new Date(wall);
+  next.setUTCDate(1);
+  next.setUTCMonth(next.getUTCMonth() + months);
+  const daysInMonth = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+  next.setUTCDate(Math.min(monthDay, daysInMonth));
+  return next;
+}
+
+function stepFrom(rule: RecurrenceRule, from: Date, anchor: Date): Date {
+  switch (rule.frequency) {
+    case 'DAILY': {
+      const next = new Date(from);
+      next.setUTCDate(next.getUTCDate() + rule.interval);
+      return next;
+    }
+    case 'WEEKLY': {
+      const weekdays = rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : [weekdayOf(anchor)];
+      const anchorWeek = startOfWeek(anchor).getTime();
+      const next = new Date(from);
+      for (let i = 0; i < 7 * rule.interval + 7; i++) {
+        next.setUTCDate(next.getUTCDate() + 1);
+        const weeksApart = Math.round((startOfWeek(next).getTime() - anchorWeek) / (7 * DAY_MS));
+        if (weeksApart % rule.interval === 0 && weekdays.includes(weekdayOf(next))) {
+          return next;
+        }
+      }
+      return next;
+    }
+    case 'MONTHLY':
+      return addMonthsClamped(from, rule.interval, rule.monthDay ?? anchor.getUTCDate());
+  }
+}
+
+/**
+ * Compute the due date of the occurrence that follows one due at `dueDate` and
+ * completed at `completedAt`. Calendar rules skip occurrences that were already
+ * missed by the time of completion, so a late completion lands on the next
+ * upcoming date rather than in the past. Days, weekdays and the time of day are
+ * those of `timeZone`, and the time of day is preserved.
+ */
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  dueDate: Date | null,
+  completedAt: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
+): Date {
+  const completed = toWallClock(completedAt, timeZone);
+  const due = dueDate ? toWallClock(dueDate, timeZone) : null;
+
+  if (rule.afterCompletion) {
+    const next = new Date(completed);
+    next.setUTCDate(next.getUTCDate() + rule.interval);
+    if (due) {
+      next.setUTCHours(due.getUTCHours(), due.getUTCMinutes(), due.getUTCSeconds(), due.getUTCMilliseconds());
+    }
+    return fromWallClock(next, timeZone);
+  }
+
+  // Items without a due date recur relative to when they were completed
+  const anchor = due ?? completed;
+  let next = stepFrom(rule, anchor, anchor);
+  for (let i = 0; i < MAX_ITERATIONS && next <= completed; i++) {
+    next = stepFrom(rule, next, anchor);
+  }
+  return fromWallClock(next, timeZone);
+}
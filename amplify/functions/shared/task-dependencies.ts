@@ -0,0 +1,82 @@
+// --- Task dependency cycles ---
+// Used by the app and by the functions that save blockedBy (group-access, task-agents), so a
+// cycle is refused wherever dependencies are written.
+//
+// This file has no imports so the frontend can import it as-is.
+
+export interface DependencyLink {
+  id: string;
+  title?: string | null;
+  blockedBy?: (string | null)[] | null;
+}
+
+function blockerIds(task: DependencyLink): string[] {
+  return (task.blockedBy ?? []).filter((id): id is string => !!id);
+}
+
+/**
+ * Check whether giving `taskId` the prerequisites `blockedBy` would create a cycle.
+ * Returns the cycle as a list of task ids (starting and ending at `taskId`), or null.
+ */
+export function findDependencyCycle(
+  tasks: DependencyLink[],
+  taskId: string,
+  blockedBy: string[],
+): string[] | null {
+  const edges = new Map<string, string[]>();
+  for (const task of tasks) {
+    edges.set(task.id, blockerIds(task));
+  }
+  edges.set(taskId, blockedBy);
+
+  // Depth-first search from the task through its prerequisites, looking for a path back to it
+  const visited = new Set<string>();
+  const walk = (current: string, path: string[]): string[] | null => {
+    for (const next of edges.get(current) ?? []) {
+      if (next === taskId) return [...path, next];
+      if (visited.has(next)) continue;
+      visited.add(next);
+      const found = walk(next, [...path, next]);
+      if (found) return found;
+    }
+    return null;
+  };
+
+  return walk(taskId, [taskId]);
+}
+
+/**
+ * Why `taskId` may not have the prerequisites `blockedBy`, or null when it may. The cycle is
+ * described by task titles where `tasks` has them.
+ */
+export function dependencyCycleProblem(
+  tasks: DependencyLink[],
+  taskId: string,
+  blockedBy: string[],
+): string | null {
+  if (blockedBy.includes(taskId)) return 'A task cannot depend on itself';
+  const cycle = findDependencyCycle(tasks, taskId, blockedBy);
+  if (!cycle) return null;
+  const titles = new Map(tasks.map((task) => [task.id, task.title]));
+  return `Dependency cycle detected (${cycle.map((id) => titles.get(id) ?? id).join(' → ')})`;
+}
+
+/**
+ * Every task reachable from `blockedBy` through prerequisites, loaded with `getTasks` a level
+ * at a time. That is all findDependencyCycle needs to see, however large the list is.
+ */
+export async function loadDependencyChain<T extends DependencyLink>(
+  blockedBy: string[],
+  getTasks: (ids: string[]) => Promise<T[]>,
+): Promise<T[]> {
+  const tasks: T[] = [];
+  const seen = new Set<string>();
+  let pending = [...new Set(blockedBy)];
+  while (pending.length > 0) {
+    pending.forEach((id) => seen.add(id));
+    const loaded = await getTasks(pending);
+    tasks.push(...loaded);
+    pending = [...new Set(loaded.flatMap(blockerIds))].filter((id) => !seen.has(id));
+  }
+  return tasks;
+}
@@ -0,0 +1,175 @@
+// Dates in the user's timezone. UserSettings.timezone holds an IANA name (e.g.
+// "Australia/Sydney"); agent prompts, dates the agent writes, reminders and the UI all read
+// wall-clock times in it rather than in the Lambda's or the browser's zone. Conversions go
+// through Intl, so daylight saving changes are taken from the platform's tz database.
+//
+// This file has no imports so the frontend can import it as-is.
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** A wall-clock time in some timezone. `month` is 1-12; `weekday` is e.g. "Sunday". */
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: string;
+}
+
+// Formatters are expensive to build, so one is kept per timezone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'long',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimezone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The timezone to use for a stored setting: the setting when it is a known zone, else UTC. */
+export function resolveTimezone(timeZone: string | null | undefined): string {
+  return isValidTimezone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+}
+
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) parts[part.type] = part.value;
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    // Some engines still write midnight as 24 under h23
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: parts.weekday,
+  };
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+// The wall-clock time as if it were UTC, in milliseconds
+function wallClockMs(parts: ZonedParts): number {
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+/** Minutes the timezone is ahead of UTC at `date`, e.g. 660 for Sydney in summer. */
+export function timezoneOffsetMinutes(date: Date, timeZone: string): number {
+  const ms = date.getTime();
+  const wholeSeconds = ms - (((ms % 1000) + 1000) % 1000);
+  return Math.round((wallClockMs(zonedParts(date, timeZone)) - wholeSeconds) / MINUTE_MS);
+}
+
+/** "+11:00", "-04:00" or "+05:30" for an offset in minutes. */
+export function formatUtcOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const minutes = Math.abs(offsetMinutes);
+  return `${sign}${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+/** The calendar date (YYYY-MM-DD) in the timezone at `date`. */
+export function formatZonedDate(date: Date, timeZone: string): string {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+}
+
+/** The wall-clock time (HH:mm:ss) in the timezone at `date`. */
+export function formatZonedTime(date: Date, timeZone: string): string {
+  const { hour, minute, second } = zonedParts(date, timeZone);
+  return `${pad(hour)}:${pad(minute)}:${pad(second)}`;
+}
+
+/** An ISO 8601 timestamp in the timezone's local time with its offset; UTC keeps the "Z" form. */
+export function formatZonedIso(date: Date, timeZone: string): string {
+  const offset = timezoneOffsetMinutes(date, timeZone);
+  if (offset === 0) return date.toISOString();
+  const millis = pad(((date.getTime() % 1000) + 1000) % 1000, 3);
+  return `${formatZonedDate(date, timeZone)}T${formatZonedTime(date, timeZone)}.${millis}${formatUtcOffset(offset)}`;
+}
+
+/** The calendar date `days` after a YYYY-MM-DD date. Calendar days, so DST never shifts it. */
+export function addCalendarDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?$/;
+const EXPLICIT_OFFSET = /(?:Z|[+-]\d{2}:?\d{2})$/i;
+
+/**
+ * The instant a wall-clock time (YYYY-MM-DD, optionally with THH:mm[:ss[.sss]]) names in the
+ * timezone. Returns null for malformed input and for times skipped when clocks go forward;
+ * a time repeated when clocks go back resolves to its first occurrence.
+ */
+export function zonedTimeToUtc(localDateTime: string, timeZone: string): Date | null {
+  const match = LOCAL_DATE_TIME.exec(localDateTime.trim());
+  if (!match) return null;
+  const [, year, month, day, hour = '0', minute = '0', second = '0', fraction = '0'] = match;
+  const wall = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+  const millis = Number(fraction.padEnd(3, '0'));
+  // Date.UTC rolls invalid dates over (Feb 30 becomes Mar 2); those are malformed
+  const rolled = new Date(wall);
+  if (rolled.getUTCDate() !== Number(day) || rolled.getUTCHours() !== Number(hour)) return null;
+  if (Number(minute) > 59 || Number(second) > 59) return null;
+
+  // A zone changes its offset at most once a day, so the time carries the offset from just
+  // before or just after any change around it; keep the candidates that read back as the time
+  const candidates = [wall - DAY_MS, wall + DAY_MS]
+    .map((probe) => wall - timezoneOffsetMinutes(new Date(probe), timeZone) * MINUTE_MS)
+    .filter((instant) => wallClockMs(zonedParts(new Date(instant), timeZone)) === wall)
+    .sort((a, b) => a - b);
+  return candidates.length > 0 ? new Date(candidates[0] + millis) : null;
+}
+
+/**
+ * Read a date-time the user or the agent wrote: with an offset ("Z", "+11:00") it is an
+ * instant; without one it is wall-clock time in the timezone. Null when it cannot be read,
+ * including local times skipped by a DST change.
+ */
+export function parseZonedDateTime(value: string, timeZone: string): Date | null {
+  const trimmed = value.trim();
+  if (EXPLICIT_OFFSET.test(trimmed) && trimmed.includes('T')) {
+    const date = new Date(trimmed);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return zonedTimeToUtc(trimmed, timeZone);
+}
+
+/** The last millisecond of a calendar date (YYYY-MM-DD) in the timezone. */
+export function endOfZonedDay(date: string, timeZone: string): Date | null {
+  return zonedTimeToUtc(`${date}T23:59:59.999`, timeZone);
+}
+
+/** The wall-clock time of `date` in the timezone as a datetime-local input value (YYYY-MM-DDTHH:mm). */
+export function toDateTimeLocalValue(date: Date, timeZone: string): string {
+  return `${formatZonedDate(date, timeZone)}T${formatZonedTime(date, timeZone).slice(0, 5)}`;
+}
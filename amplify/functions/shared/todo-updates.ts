@@ -0,0 +1,53 @@
+// --- TodoItem updates ---
+// The DynamoDB writes for changing a TodoItem, used by every function that writes items
+// (group-access, task-agents).
+
+/** A DynamoDB update that sets provided fields and removes fields set to null. */
+export function buildTodoUpdate(fields: Record<string, unknown>, now: Date): {
+  UpdateExpression: string;
+  ExpressionAttributeNames: Record<string, string>;
+  ExpressionAttributeValues: Record<string, unknown>;
+} {
+  const names: Record<string, string> = { '#updatedAt': 'updatedAt' };
+  const values: Record<string, unknown> = { ':updatedAt': now.toISOString() };
+  const sets = ['#updatedAt = :updatedAt'];
+  const removes: string[] = [];
+
+  for (const [key, value] of Object.entries(fields)) {
+    names[`#${key}`] = key;
+    if (value === null) {
+      removes.push(`#${key}`);
+    } else {
+      values[`:${key}`] = value;
+      sets.push(`#${key} = :${key}`);
+    }
+  }
+
+  const expression = `SET ${sets.join(', ')}` + (removes.length > 0 ? ` REMOVE ${removes.join(', ')}` : '');
+  return { UpdateExpression: expression, ExpressionAttributeNames: names, ExpressionAttributeValues: values };
+}
+
+/**
+ * The writes that add `next` as the next occurrence of the completed item `todoId`: link it
+ * and create it together, only while no next occurrence has been linked. Applied as one
+ * transaction, so completing an item twice (e.g. on two devices) creates one occurrence.
+ */
+export function buildNextOccurrenceWrites(
+  tableName: string,
+  todoId: string,
+  next: Record<string, unknown>,
+  now: Date,
+) {
+  return [
+    {
+      Update: {
+        TableName: tableName,
+        Key: { id: todoId },
+        UpdateExpression: 'SET nextOccurrenceId = :nextId, updatedAt = :now',
+        ConditionExpression: 'attribute_exists(id) AND attribute_not_exists(nextOccurrenceId)',
+        ExpressionAttributeValues: { ':nextId': next.id, ':now': now.toISOString() },
+      },
+    },
+    { Put: { TableName: tableName, Item: next, ConditionExpression: 'attribute_not_exists(id)' } },
+  ];
+}
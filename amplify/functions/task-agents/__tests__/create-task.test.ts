@@ -62,4 +62,64 @@ describe('buildCreateTaskItem', () => {
     );
     expect(error).toContain('Invalid priority');
   });
+
+  it('keeps parentId so the item is created as a subtask', () => {
+    const { item, unknownFields } = buildCreateTaskItem(
+      { title: 'Subtask', listId: 'list-1', parentId: 'task-1' },
+      'user-123',
+    );
+    expect(unknownFields).toEqual([]);
+    expect(item!.parentId).toBe('task-1');
+  });
+
+  it('stores reminderOffsets as unsent reminders, earliest first', () => {
+    const { item } = buildCreateTaskItem(
+      { title: 'Test', listId: 'list-1', reminderOffsets: [60, 1440, 60] },
+      'user-123',
+    );
+    expect(item!.reminders).toEqual([
+      { offsetMinutes: 1440, sentAt: null },
+      { offsetMinutes: 60, sentAt: null },
+    ]);
+    expect(item!.reminderOffsets).toBeUndefined();
+  });
+
+  it('rejects invalid reminderOffsets', () => {
+    const { error } = buildCreateTaskItem(
+      { title: 'Test', listId: 'list-1', reminderOffsets: [0, 1.5] },
+      'user-123',
+    );
+    expect(error).toContain('Invalid reminderOffsets');
+  });
+});
+
+describe('buildCreateTaskItem due dates', () => {
+  const SYDNEY = 'Australia/Sydney';
+
+  it("stores a due date without an offset as the user's local time in UTC", () => {
+    const before = buildCreateTaskItem({ title: 'T', listId: 'l', dueDate: '2026-04-04T23:59:59' }, 'u', 'id', SYDNEY);
+    const after = buildCreateTaskItem({ title: 'T', listId: 'l', dueDate: '2026-04-05T23:59:59' }, 'u', 'id', SYDNEY);
+
+    // Sydney leaves daylight saving overnight, so the same local time moves an hour in UTC
+    expect(before.item!.dueDate).toBe('2026-04-04T12:59:59.000Z');
+    expect(after.item!.dueDate).toBe('2026-04-05T13:59:59.000Z');
+  });
+
+  it('keeps due dates with an explicit offset as written', () => {
+    const { item } = buildCreateTaskItem({ title: 'T', listId: 'l', dueDate: '2026-03-05T09:00:00Z' }, 'u', 'id', SYDNEY);
+    expect(item!.dueDate).toBe('2026-03-05T09:00:00.000Z');
+  });
+
+  it('rejects a local time skipped when the clocks go forward', () => {
+    const { item, error } = buildCreateTaskItem({ title: 'T', listId: 'l', dueDate: '2026-10-04T02:30:00' }, 'u', 'id', SYDNEY);
+    expect(item).toBeNull();
+    expect(error).toContain('does not exist in Australia/Sydney');
+  });
+
+  it('rejects dates without a time and impossible dates', () => {
+    expect(buildCreateTaskItem({ title: 'T', listId: 'l', dueDate: '2026-03-05' }, 'u').error).toContain('not just a date');
+    expect(buildCreateTaskItem({ title: 'T', listId: 'l', dueDate: '2026-02-30T09:00:00' }, 'u').error).toContain(
+      'Must be a valid ISO 8601 datetime',
+    );
+  });
 });
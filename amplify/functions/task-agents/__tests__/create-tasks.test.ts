@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { flattenTaskTree } from '../tools/create-tasks';
+
+describe('flattenTaskTree', () => {
+  it('flattens a flat task list without parentIds', () => {
+    const { items, errors } = flattenTaskTree(
+      [{ title: 'A' }, { title: 'B' }],
+      'list-1',
+      'user-123',
+    );
+    expect(errors).toEqual([]);
+    expect(items).toHaveLength(2);
+    expect(items.every((item) => item.parentId === undefined)).toBe(true);
+    expect(items.every((item) => item.listId === 'list-1')).toBe(true);
+  });
+
+  it('links nested subtasks to the generated parent id', () => {
+    const { items, errors } = flattenTaskTree(
+      [{ title: 'Parent', subtasks: [{ title: 'Child', subtasks: [{ title: 'Grandchild' }] }] }],
+      'list-1',
+      'user-123',
+    );
+    expect(errors).toEqual([]);
+    expect(items.map((item) => item.title)).toEqual(['Parent', 'Child', 'Grandchild']);
+    expect(items[1].parentId).toBe(items[0].id);
+    expect(items[2].parentId).toBe(items[1].id);
+    expect(items[0].subtasks).toBeUndefined();
+  });
+
+  it('nests top-level tasks under an existing parent when parentId is given', () => {
+    const { items } = flattenTaskTree([{ title: 'A' }], 'list-1', 'user-123', 'existing-task');
+    expect(items[0].parentId).toBe('existing-task');
+  });
+
+  it('reports validation errors by path', () => {
+    const { errors } = flattenTaskTree(
+      [{ title: 'Parent', subtasks: [{ title: 'Ok' }, { title: 'Bad', priority: 'CRITICAL' }] }],
+      'list-1',
+      'user-123',
+    );
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain('Task 0.1');
+    expect(errors[0]).toContain('Invalid priority');
+  });
+
+  it('rejects subtasks nested deeper than three levels', () => {
+    const { errors } = flattenTaskTree(
+      [{ title: 'L1', subtasks: [{ title: 'L2', subtasks: [{ title: 'L3', subtasks: [{ title: 'L4' }] }] }] }],
+      'list-1',
+      'user-123',
+    );
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain('Task 0.0.0');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { enrichQuery } from '../enrich-query';
+import { buildPrompt, enrichQuery } from '../enrich-query';
 
 describe('enrichQuery', () => {
   it('produces the correct format with all components', () => {
@@ -12,9 +12,63 @@ describe('enrichQuery', () => {
     expect(result).toMatch(/Time: \d{2}:\d{2}:\d{2}/);
   });
 
+  it("gives the date and time in the user's timezone with its offset", () => {
+    // 20:00 UTC on the 5th is already 7am on the 6th in Sydney
+    const result = enrichQuery('What is due today?', new Date('2026-03-05T20:00:00.000Z'), 'Australia/Sydney');
+
+    expect(result).toContain('Current Date and Time: 2026-03-06T07:00:00.000+11:00');
+    expect(result).toContain('Date: 2026-03-06 (Friday)');
+    expect(result).toContain('Time: 07:00:00');
+    expect(result).toContain('Timezone: Australia/Sydney (UTC+11:00)');
+  });
+
+  it('uses the offset in force after a DST change', () => {
+    const result = enrichQuery('Plan my week', new Date('2026-04-05T00:00:00.000Z'), 'Australia/Sydney');
+
+    expect(result).toContain('Current Date and Time: 2026-04-05T10:00:00.000+10:00');
+    expect(result).toContain('Timezone: Australia/Sydney (UTC+10:00)');
+  });
+
+  it('defaults to UTC', () => {
+    expect(enrichQuery('Show my tasks', new Date('2025-06-15T10:30:00.000Z'))).toContain('Timezone: UTC (UTC+00:00)');
+  });
+
   it('preserves the original query verbatim', () => {
     const query = 'special chars: <>&"\'';
     const result = enrichQuery(query, new Date());
     expect(result).toContain(`User Query: ${query}`);
   });
 });
+
+describe('buildPrompt', () => {
+  const now = new Date('2025-06-15T10:30:00.000Z');
+
+  it('routes known queryTypes to their specialist with the arguments', () => {
+    const prompt = buildPrompt('planDay', { date: '2025-06-16', listId: undefined }, now);
+
+    expect(prompt).toContain('Date: 2025-06-15');
+    expect(prompt).toContain('date: 2025-06-16');
+    expect(prompt).toContain('queryType: planDay');
+    expect(prompt).not.toContain('listId');
+  });
+
+  it('sends the user query for freeform requests', () => {
+    expect(buildPrompt('freeform', { query: 'What is due today?' }, now)).toBe(
+      enrichQuery('What is due today?', now),
+    );
+  });
+
+  it('passes other arguments through as-is', () => {
+    const prompt = buildPrompt(undefined, { taskDescription: 'Buy eggs' }, now);
+    expect(prompt).toContain('taskDescription: Buy eggs');
+    expect(prompt).not.toContain('queryType');
+  });
+
+  it("gives specialists the date in the user's timezone", () => {
+    const prompt = buildPrompt('analyzeTask', { taskDescription: 'buy eggs tomorrow' }, new Date('2026-11-01T04:00:00.000Z'), 'America/New_York');
+
+    expect(prompt).toContain('Date: 2026-11-01 (Sunday)');
+    expect(prompt).toContain('Time: 00:00:00');
+    expect(prompt).toContain('Timezone: America/New_York (UTC-04:00)');
+  });
+});
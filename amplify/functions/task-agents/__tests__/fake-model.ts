@@ -0,0 +1,61 @@
+import { Model, type BaseModelConfig, type Message, type ModelStreamEvent } from '@strands-agents/sdk';
+
+/** One scripted model call: a text reply or a tool call, and the tokens it reports. */
+export type FakeReply = ({ text: string } | { tool: string; input: Record<string, unknown> }) & {
+  inputTokens?: number;
+  outputTokens?: number;
+};
+
+/**
+ * A local model provider that answers from a script instead of calling Bedrock, reporting
+ * usage like Bedrock does. Each model call takes the next reply; running out is an error.
+ */
+export class FakeModel extends Model {
+  private config: BaseModelConfig;
+  private readonly replies: FakeReply[];
+  /** The conversation each model call was given. */
+  readonly calls: Message[][] = [];
+
+  constructor(modelId: string, replies: FakeReply[]) {
+    super();
+    this.config = { modelId };
+    this.replies = [...replies];
+  }
+
+  updateConfig(modelConfig: BaseModelConfig): void {
+    this.config = { ...this.config, ...modelConfig };
+  }
+
+  getConfig(): BaseModelConfig {
+    return this.config;
+  }
+
+  async *stream(messages: Message[]): AsyncIterable<ModelStreamEvent> {
+    this.calls.push([...messages]);
+    const reply = this.replies.shift();
+    if (!reply) throw new Error(`${this.config.modelId} has no scripted reply left`);
+
+    yield { type: 'modelMessageStartEvent', role: 'assistant' };
+    if ('text' in reply) {
+      yield { type: 'modelContentBlockStartEvent' };
+      yield { type: 'modelContentBlockDeltaEvent', delta: { type: 'textDelta', text: reply.text } };
+      yield { type: 'modelContentBlockStopEvent' };
+    } else {
+      yield {
+        type: 'modelContentBlockStartEvent',
+        start: { type: 'toolUseStart', name: reply.tool, toolUseId: `call-${this.calls.length}` },
+      };
+      yield { type: 'modelContentBlockDeltaEvent', delta: { type: 'toolUseInputDelta', input: JSON.stringify(reply.input) } };
+      yield { type: 'modelContentBlockStopEvent' };
+    }
+    yield { type: 'modelMessageStopEvent', stopReason: 'text' in reply ? 'endTurn' : 'toolUse' };
+
+    const inputTokens = reply.inputTokens ?? 0;
+    const outputTokens = reply.outputTokens ?? 0;
+    yield {
+      type: 'modelMetadataEvent',
+      usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+      metrics: { latencyMs: 1 },
+    };
+  }
+}
@@ -1,53 +1,110 @@
 import { describe, it, expect } from 'vitest';
-import { buildGetTasksQuery } from '../tools/get-tasks';
+import { annotateBlockedTasks, buildGetTasksQuery } from '../tools/get-tasks';
 
 const TABLE = 'TodoItem';
+const LIST_IDS = ['list-1', 'list-2'];
 
 describe('buildGetTasksQuery', () => {
-  it('uses scan when no filters provided', () => {
-    const { command, params } = buildGetTasksQuery({}, TABLE);
-    expect(command).toBe('scan');
-    expect(params.TableName).toBe(TABLE);
+  it('queries byList for every scoped list when no filters provided', () => {
+    const { queries } = buildGetTasksQuery({}, TABLE, LIST_IDS);
+    expect(queries).toHaveLength(2);
+    expect(queries.map((q) => q.IndexName)).toEqual(['byList', 'byList']);
+    expect(queries.map((q) => q.ExpressionAttributeValues?.[':listId'])).toEqual(LIST_IDS);
+    expect(queries[0].TableName).toBe(TABLE);
   });
 
-  it('uses byList GSI when listId provided', () => {
-    const { command, params } = buildGetTasksQuery({ listId: 'list-1' }, TABLE);
-    expect(command).toBe('query');
-    expect(params.IndexName).toBe('byList');
+  it('queries only the requested list when listId provided', () => {
+    const { queries } = buildGetTasksQuery({ listId: 'list-1' }, TABLE, LIST_IDS);
+    expect(queries).toHaveLength(1);
+    expect(queries[0].IndexName).toBe('byList');
+    expect(queries[0].ExpressionAttributeValues?.[':listId']).toBe('list-1');
   });
 
-  it('uses byStatus GSI when only status provided', () => {
-    const { command, params } = buildGetTasksQuery({ status: 'PENDING' }, TABLE);
-    expect(command).toBe('query');
-    expect(params.IndexName).toBe('byStatus');
+  it('filters each scoped list by status when only status provided', () => {
+    const { queries } = buildGetTasksQuery({ status: 'PENDING' }, TABLE, LIST_IDS);
+    expect(queries).toHaveLength(2);
+    for (const query of queries) {
+      expect(query.IndexName).toBe('byList');
+      expect(query.FilterExpression).toBe('#status = :status');
+    }
   });
 
-  it('prefers byList GSI when both listId and status provided', () => {
-    const { command, params } = buildGetTasksQuery(
-      { listId: 'list-1', status: 'PENDING' },
+  it('filters a list query by status when both listId and status provided', () => {
+    const { queries } = buildGetTasksQuery({ listId: 'list-1', status: 'PENDING' }, TABLE, LIST_IDS);
+    expect(queries[0].IndexName).toBe('byList');
+    expect(queries[0].FilterExpression).toContain('#status');
+  });
+
+  it('uses byAssignee GSI when assigneeId provided without listId', () => {
+    const { queries } = buildGetTasksQuery(
+      { assigneeId: 'user-1', status: 'PENDING', dueDateBefore: '2025-12-31' },
       TABLE,
+      LIST_IDS,
     );
-    expect(command).toBe('query');
-    expect(params.IndexName).toBe('byList');
-    expect(params.FilterExpression).toContain('#status');
+    expect(queries).toHaveLength(1);
+    expect(queries[0].IndexName).toBe('byAssignee');
+    expect(queries[0].KeyConditionExpression).toBe('assigneeId = :assigneeId AND dueDate <= :dueDateBefore');
+    expect(queries[0].FilterExpression).toBe('#status = :status');
+  });
+
+  it('filters a list query by assignee', () => {
+    const { queries, unknownFields } = buildGetTasksQuery({ listId: 'list-1', assigneeId: 'user-1' }, TABLE, LIST_IDS);
+    expect(unknownFields).toEqual([]);
+    expect(queries[0].IndexName).toBe('byList');
+    expect(queries[0].FilterExpression).toBe('assigneeId = :assigneeId');
+    expect(queries[0].ExpressionAttributeNames).toBeUndefined();
   });
 
   it('ignores unknown filter fields', () => {
-    const { unknownFields, command } = buildGetTasksQuery(
+    const { unknownFields, queries } = buildGetTasksQuery(
       { unknownFilter: 'value' } as Record<string, unknown>,
       TABLE,
+      LIST_IDS,
     );
     expect(unknownFields).toContain('unknownFilter');
-    expect(command).toBe('scan');
+    expect(queries).toHaveLength(2);
   });
 
-  it('adds date range to scan filter', () => {
-    const { command, params } = buildGetTasksQuery(
+  it('adds date range as a sort key condition', () => {
+    const { queries } = buildGetTasksQuery(
       { dueDateAfter: '2025-01-01', dueDateBefore: '2025-12-31' },
       TABLE,
+      LIST_IDS,
     );
-    expect(command).toBe('scan');
-    expect(params.FilterExpression).toContain('dueDate >= :dueDateAfter');
-    expect(params.FilterExpression).toContain('dueDate <= :dueDateBefore');
+    expect(queries[0].KeyConditionExpression).toBe(
+      'listId = :listId AND dueDate BETWEEN :dueDateAfter AND :dueDateBefore',
+    );
+  });
+
+  it('builds no queries when the caller has no lists', () => {
+    const { queries } = buildGetTasksQuery({ status: 'PENDING' }, TABLE, []);
+    expect(queries).toEqual([]);
+  });
+});
+
+describe('annotateBlockedTasks', () => {
+  it('marks tasks with incomplete prerequisites as blocked', () => {
+    const items = [
+      { id: 'a', status: 'PENDING' },
+      { id: 'b', status: 'PENDING', blockedBy: ['a'] },
+    ];
+    const statusById = new Map<string, unknown>([['a', 'PENDING'], ['b', 'PENDING']]);
+    const [a, b] = annotateBlockedTasks(items, statusById);
+    expect(a.isBlocked).toBe(false);
+    expect(b.isBlocked).toBe(true);
+    expect(b.openBlockers).toEqual(['a']);
+  });
+
+  it('does not block on completed or missing prerequisites', () => {
+    const items = [{ id: 'b', status: 'PENDING', blockedBy: ['done', 'deleted'] }];
+    const statusById = new Map<string, unknown>([['done', 'COMPLETE']]);
+    const [b] = annotateBlockedTasks(items, statusById);
+    expect(b.isBlocked).toBe(false);
+    expect(b.openBlockers).toEqual([]);
+  });
+
+  it('accepts excludeBlocked as a known filter', () => {
+    const { unknownFields } = buildGetTasksQuery({ excludeBlocked: true }, TABLE, LIST_IDS);
+    expect(unknownFields).toEqual([]);
   });
 });
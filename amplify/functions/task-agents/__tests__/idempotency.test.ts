@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { LocalDynamoDB } from '../../shared/__tests__/local-dynamodb';
+import { idempotentItemId, toolCallKey } from '../tools/idempotency';
+import { createTask } from '../tools/create-task';
+import { createTasks } from '../tools/create-tasks';
+import { applyAction, type ProposedAction } from '../tools/proposals';
+import type { TenantScope } from '../tools/tenant-scope';
+
+const TABLE = 'TodoItem';
+
+const scope: TenantScope = {
+  userId: 'alice',
+  groupIds: [],
+  lists: [{ id: 'home', name: 'Home', owner: 'alice', canEdit: true }],
+};
+
+describe('toolCallKey', () => {
+  it('gives the same call the same key whatever the order of its input', () => {
+    expect(toolCallKey('job-1', 'create_task', { title: 'A', listId: 'home' })).toBe(
+      toolCallKey('job-1', 'create_task', { listId: 'home', title: 'A' }),
+    );
+  });
+
+  it('tells apart jobs, tools and inputs', () => {
+    const key = toolCallKey('job-1', 'create_task', { title: 'A' });
+    expect(toolCallKey('job-2', 'create_task', { title: 'A' })).not.toBe(key);
+    expect(toolCallKey('job-1', 'create_tasks', { title: 'A' })).not.toBe(key);
+    expect(toolCallKey('job-1', 'create_task', { title: 'B' })).not.toBe(key);
+  });
+});
+
+describe('idempotentItemId', () => {
+  it('derives a UUID-shaped id from the key and path', () => {
+    const id = idempotentItemId('key', '0.1');
+    expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(idempotentItemId('key', '0.1')).toBe(id);
+    expect(idempotentItemId('key', '0.2')).not.toBe(id);
+  });
+});
+
+describe('createTask with an idempotency key', () => {
+  it('creates the task once when the call is repeated', async () => {
+    const db = new LocalDynamoDB();
+    const input = { title: 'Book flights', listId: 'home' };
+
+    const first = await createTask(input, db.asDocClient(), TABLE, scope, 'key-1');
+    const second = await createTask(input, db.asDocClient(), TABLE, scope, 'key-1');
+
+    expect(first).toMatchObject({ success: true });
+    expect(first.alreadyCreated).toBeUndefined();
+    expect(second).toMatchObject({ success: true, alreadyCreated: true });
+    expect(second.item?.id).toBe(first.item?.id);
+    expect(db.table(TABLE).size).toBe(1);
+  });
+
+  it('creates a new task each time without a key', async () => {
+    const db = new LocalDynamoDB();
+    const input = { title: 'Book flights', listId: 'home' };
+
+    await createTask(input, db.asDocClient(), TABLE, scope);
+    await createTask(input, db.asDocClient(), TABLE, scope);
+
+    expect(db.table(TABLE).size).toBe(2);
+  });
+});
+
+describe('createTasks with an idempotency key', () => {
+  it('skips the tasks an earlier call already wrote', async () => {
+    const db = new LocalDynamoDB();
+    const input = { listId: 'home', tasks: [{ title: 'Plan', subtasks: [{ title: 'Draft' }] }, { title: 'Ship' }] };
+
+    const first = await createTasks(input, db.asDocClient(), TABLE, scope, 'key-1');
+    const second = await createTasks(input, db.asDocClient(), TABLE, scope, 'key-1');
+
+    expect(first).toMatchObject({ success: true, createdCount: 3 });
+    expect(second).toMatchObject({ success: true, createdCount: 0, alreadyCreated: 3 });
+    expect(second.items?.map((item) => item.id)).toEqual(first.items?.map((item) => item.id));
+    expect(db.table(TABLE).size).toBe(3);
+    // Subtasks still point at their parent's derived id
+    expect(db.table(TABLE).get(first.items![1].id as string)?.parentId).toBe(first.items![0].id);
+  });
+
+  it('writes only what is missing after a partial write', async () => {
+    const db = new LocalDynamoDB();
+    const input = { listId: 'home', tasks: [{ title: 'Plan' }, { title: 'Ship' }] };
+    const first = await createTasks(input, db.asDocClient(), TABLE, scope, 'key-1');
+    db.table(TABLE).delete(first.items![1].id as string);
+
+    const second = await createTasks(input, db.asDocClient(), TABLE, scope, 'key-1');
+
+    expect(second).toMatchObject({ success: true, createdCount: 1, alreadyCreated: 1 });
+    expect(db.table(TABLE).size).toBe(2);
+  });
+});
+
+describe('applyAction with an idempotency key', () => {
+  it('applies a confirmed create once when the apply job runs again', async () => {
+    const db = new LocalDynamoDB();
+    const action: ProposedAction = {
+      id: 'action-1',
+      tool: 'create_task',
+      input: { title: 'Book flights', listId: 'home' },
+      summary: 'Create "Book flights" in Home',
+    };
+
+    await applyAction(action, db.asDocClient(), TABLE, scope, 'job-1');
+    const again = await applyAction(action, db.asDocClient(), TABLE, scope, 'job-1');
+
+    expect(again).toEqual({ id: 'action-1', success: true });
+    expect(db.table(TABLE).size).toBe(1);
+  });
+});
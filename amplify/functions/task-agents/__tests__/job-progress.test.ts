@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import {
+  appendProgressStep,
+  buildJobUpdateInput,
+  cancelProblem,
+  createJob,
+  isConditionalCheckFailure,
+  jobStatusCondition,
+  jobExpiresAt,
+  JOB_RETENTION_DAYS,
+  sendJobUpdate,
+  specialistLabel,
+  toolLabel,
+  UPDATE_AGENT_JOB_MUTATION,
+  type JobProgressStep,
+} from '../job-progress';
+
+const started: JobProgressStep = { kind: 'started', label: 'Started', at: '2026-03-05T08:00:00.000Z' };
+
+describe('appendProgressStep', () => {
+  it('adds new steps in order', () => {
+    const step: JobProgressStep = { kind: 'tool', label: 'Reading your lists', at: '2026-03-05T08:00:01.000Z' };
+    expect(appendProgressStep([started], step)).toEqual([started, step]);
+  });
+
+  it('folds repeats of the latest step into it with a count', () => {
+    const first: JobProgressStep = { kind: 'tool', label: 'Looking through tasks', at: '2026-03-05T08:00:01.000Z' };
+    let steps = appendProgressStep([started], first);
+    steps = appendProgressStep(steps, { ...first, at: '2026-03-05T08:00:02.000Z' });
+    steps = appendProgressStep(steps, { ...first, at: '2026-03-05T08:00:03.000Z' });
+
+    expect(steps).toEqual([started, { ...first, at: '2026-03-05T08:00:03.000Z', count: 3 }]);
+  });
+
+  it('does not change the steps it was given', () => {
+    const steps = [started];
+    appendProgressStep(steps, { ...started, at: '2026-03-05T08:00:05.000Z' });
+    expect(steps).toEqual([started]);
+  });
+});
+
+describe('labels', () => {
+  it('names the specialist a queryType is routed to', () => {
+    expect(specialistLabel('planDay')).toBe('Handing over to the daily planner');
+    expect(specialistLabel('somethingNew')).toBe('Handing over to the assistant');
+  });
+
+  it('marks writes in a dry run as drafted for review', () => {
+    expect(toolLabel('create_tasks', false)).toBe('Adding tasks');
+    expect(toolLabel('create_tasks', true)).toBe('Adding tasks (for your review)');
+    expect(toolLabel('get_tasks', true)).toBe('Looking through tasks');
+  });
+});
+
+describe('buildJobUpdateInput', () => {
+  const totals = {
+    delegations: 0,
+    toolCalls: 0,
+    failedToolCalls: 0,
+    modelCalls: 1,
+    inputTokens: 10,
+    outputTokens: 5,
+    costUsd: 0,
+  };
+
+  it('sends AWSJSON fields as JSON strings and drops unset fields', () => {
+    expect(
+      buildJobUpdateInput('job-1', {
+        status: 'COMPLETE',
+        progress: [started],
+        resultData: { success: true, data: { summary: 'Done' } },
+        error: undefined,
+        completedAt: '2026-03-05T08:01:00.000Z',
+        modelId: 'some-model',
+        trace: { modelId: 'some-model', durationMs: 900, entries: [], omitted: 0, totals },
+      }),
+    ).toEqual({
+      id: 'job-1',
+      status: 'COMPLETE',
+      progress: JSON.stringify([started]),
+      resultData: '{"success":true,"data":{"summary":"Done"}}',
+      completedAt: '2026-03-05T08:01:00.000Z',
+      modelId: 'some-model',
+      trace: JSON.stringify({ modelId: 'some-model', durationMs: 900, entries: [], omitted: 0, totals }),
+    });
+  });
+});
+
+describe('jobExpiresAt', () => {
+  it('keeps a finished job for the retention period, in epoch seconds', () => {
+    const now = new Date('2026-03-05T08:00:00.000Z');
+    const expiresAt = jobExpiresAt(now);
+
+    expect(Number.isInteger(expiresAt)).toBe(true);
+    expect(new Date(expiresAt * 1000).toISOString()).toBe('2026-04-04T08:00:00.000Z');
+    expect(JOB_RETENTION_DAYS).toBe(30);
+  });
+});
+
+describe('sendJobUpdate', () => {
+  it('selects owner so the owner-filtered subscription receives the update', async () => {
+    const calls: { query: string; variables: Record<string, unknown> }[] = [];
+    await sendJobUpdate(
+      async (query, variables) => {
+        calls.push({ query, variables });
+        return {};
+      },
+      'job-1',
+      { progress: [started] },
+    );
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].query).toBe(UPDATE_AGENT_JOB_MUTATION);
+    expect(calls[0].query).toMatch(/\bowner\b/);
+    expect(calls[0].variables).toEqual({ input: { id: 'job-1', progress: JSON.stringify([started]) } });
+  });
+
+  it('sends the condition with the update when there is one', async () => {
+    const calls: Record<string, unknown>[] = [];
+    await sendJobUpdate(
+      async (_query, variables) => {
+        calls.push(variables);
+        return {};
+      },
+      'job-1',
+      { status: 'PROCESSING' },
+      jobStatusCondition('PROCESSING'),
+    );
+
+    expect(calls[0]).toEqual({
+      input: { id: 'job-1', status: 'PROCESSING' },
+      condition: { status: { eq: 'PENDING' } },
+    });
+  });
+});
+
+describe('createJob', () => {
+  it('creates PENDING jobs for the task-agents function, and PROCESSING ones for streamed runs', async () => {
+    const inputs: Record<string, unknown>[] = [];
+    const request = async (_query: string, variables: Record<string, unknown>) => {
+      inputs.push(variables.input as Record<string, unknown>);
+      return { createAgentJob: { id: `job-${inputs.length}` } };
+    };
+
+    expect(await createJob(request, 'alice', 'planDay', { date: '2026-03-05' })).toBe('job-1');
+    expect(await createJob(request, 'alice', 'planDay', { date: '2026-03-05' }, 'PROCESSING')).toBe('job-2');
+
+    expect(inputs[0]).toEqual({
+      owner: 'alice',
+      queryType: 'planDay',
+      status: 'PENDING',
+      requestData: JSON.stringify({ date: '2026-03-05' }),
+    });
+    expect(inputs[1]).toMatchObject({ status: 'PROCESSING', startedAt: expect.any(String) });
+  });
+});
+
+describe('jobStatusCondition', () => {
+  it('only lets a PENDING job be claimed', () => {
+    expect(jobStatusCondition('PROCESSING')).toEqual({ status: { eq: 'PENDING' } });
+  });
+
+  it('only lets a job finish while it is pending or running', () => {
+    for (const status of ['COMPLETE', 'FAILED', 'CANCELLED'] as const) {
+      expect(jobStatusCondition(status)).toEqual({
+        or: [{ status: { eq: 'PENDING' } }, { status: { eq: 'PROCESSING' } }],
+      });
+    }
+  });
+});
+
+describe('cancelProblem', () => {
+  it('lets owners cancel their jobs while they are pending or running', () => {
+    expect(cancelProblem({ owner: 'alice', status: 'PENDING' }, 'alice')).toBeNull();
+    expect(cancelProblem({ owner: 'alice::alice', status: 'PROCESSING' }, 'alice')).toBeNull();
+  });
+
+  it("treats other users' jobs as not found", () => {
+    expect(cancelProblem({ owner: 'bob', status: 'PENDING' }, 'alice')).toBe('Job not found');
+    expect(cancelProblem(undefined, 'alice')).toBe('Job not found');
+  });
+
+  it('refuses finished jobs', () => {
+    expect(cancelProblem({ owner: 'alice', status: 'COMPLETE' }, 'alice')).toBe('Job has already finished');
+  });
+});
+
+describe('isConditionalCheckFailure', () => {
+  it('recognizes the error AppSync returns when a condition does not hold', () => {
+    expect(
+      isConditionalCheckFailure(new Error('The conditional request failed (Service: DynamoDb, Status Code: 400)')),
+    ).toBe(true);
+  });
+
+  it('leaves other errors alone', () => {
+    expect(isConditionalCheckFailure(new Error('Not Authorized to access updateAgentJob'))).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+import type { AgentStreamEvent } from '@strands-agents/sdk';
+import {
+  createSseFrameParser,
+  encodeSseFrame,
+  type AgentStreamFrame,
+} from '../../shared/agent-stream';
+import { createFrameMapper } from '../stream-frames';
+
+/** One model message of a scripted run: answer or narration text, or reasoning. */
+export type MockMessage = { text: string } | { reasoning: string };
+
+/**
+ * The model stream events for a scripted run, as the orchestrator's stream yields them. Each
+ * message's content is split into deltas of `tokenSize` characters.
+ */
+export function mockModelEvents(messages: MockMessage[], tokenSize = 4): AgentStreamEvent[] {
+  const events: AgentStreamEvent[] = [];
+  for (const message of messages) {
+    events.push({ type: 'modelMessageStartEvent', role: 'assistant' });
+    const content = 'text' in message ? message.text : message.reasoning;
+    for (let i = 0; i < content.length; i += tokenSize) {
+      const piece = content.slice(i, i + tokenSize);
+      events.push({
+        type: 'modelContentBlockDeltaEvent',
+        delta: 'text' in message ? { type: 'textDelta', text: piece } : { type: 'reasoningContentDelta', text: piece },
+      });
+    }
+    events.push({ type: 'modelMessageStopEvent', stopReason: 'endTurn' });
+  }
+  return events;
+}
+
+/** Split a response body into chunks of the given sizes in turn, as a network may deliver it. */
+export function chunkBody(body: string, sizes: number[] = [1, 7, 3, 16]): string[] {
+  const chunks: string[] = [];
+  for (let i = 0, turn = 0; i < body.length; turn++) {
+    const size = sizes[turn % sizes.length];
+    chunks.push(body.slice(i, i + size));
+    i += size;
+  }
+  return chunks;
+}
+
+/**
+ * Run a scripted model stream through the whole streaming path: events are mapped to frames,
+ * written as server-sent events, chunked and read back by the client parser. `extraFrames`
+ * are sent after the model's frames (e.g. the final frame). Returns the body and the frames
+ * the client received.
+ */
+export function streamThroughSse(
+  messages: MockMessage[],
+  extraFrames: AgentStreamFrame[] = [],
+): { body: string; received: AgentStreamFrame[] } {
+  let body = '';
+  const send = (frame: AgentStreamFrame) => {
+    body += encodeSseFrame(frame);
+  };
+  const map = createFrameMapper(send);
+  for (const event of mockModelEvents(messages)) map(event);
+  extraFrames.forEach(send);
+
+  const received: AgentStreamFrame[] = [];
+  const parser = createSseFrameParser((frame) => received.push(frame));
+  for (const chunk of chunkBody(body)) parser.push(chunk);
+  parser.end();
+
+  return { body, received };
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { Agent, FunctionTool } from '@strands-agents/sdk';
+import { AGENT_MODELS } from '../../shared/agent-models';
+import { LocalDynamoDB } from '../../shared/__tests__/local-dynamodb';
+import {
+  createModelMeter,
+  loadModelOverride,
+  resolveModel,
+  sopModelTier,
+  withoutModelLine,
+} from '../model-routing';
+import { FakeModel } from './fake-model';
+
+// The SOPs as bundle-sops.ts bundles them
+const sopsDir = join(import.meta.dirname, '..', 'sops');
+const sops: Record<string, string> = Object.fromEntries(
+  readdirSync(sopsDir)
+    .filter((file) => file.endsWith('.md'))
+    .map((file) => [file, readFileSync(join(sopsDir, file), 'utf-8')]),
+);
+
+describe('resolveModel', () => {
+  it('routes each queryType to the model tier its SOP asks for', () => {
+    expect(resolveModel('analyzeTask', null, sops)).toEqual({
+      tier: 'fast',
+      modelId: AGENT_MODELS.fast.modelId,
+      source: 'sop',
+    });
+    expect(resolveModel('breakdownProject', null, sops)).toMatchObject({ tier: 'large', source: 'sop' });
+    expect(resolveModel('planDay', null, sops)).toMatchObject({ tier: 'standard', source: 'default' });
+    expect(resolveModel('runPlaybook', null, sops)).toMatchObject({ tier: 'standard', source: 'default' });
+  });
+
+  it("applies the user's override and ignores unknown tiers", () => {
+    expect(resolveModel('breakdownProject', 'fast', sops)).toEqual({
+      tier: 'fast',
+      modelId: AGENT_MODELS.fast.modelId,
+      source: 'user',
+    });
+    expect(resolveModel('analyzeTask', 'huge', sops)).toMatchObject({ tier: 'fast', source: 'sop' });
+  });
+});
+
+describe('withoutModelLine', () => {
+  it('removes the model line from the frontmatter only', () => {
+    const sop = '---\nname: example\nmodel: fast\ntype: agent\n---\n\nmodel: is mentioned here too\n';
+
+    expect(sopModelTier(sop)).toBe('fast');
+    expect(withoutModelLine(sop)).toBe('---\nname: example\ntype: agent\n---\n\nmodel: is mentioned here too\n');
+    expect(sopModelTier(withoutModelLine(sop))).toBeNull();
+  });
+
+  it('leaves SOPs without a model line unchanged', () => {
+    expect(withoutModelLine(sops['daily-planner.md'])).toBe(sops['daily-planner.md']);
+  });
+});
+
+describe('loadModelOverride', () => {
+  it("reads the user's agentModel setting", async () => {
+    const db = new LocalDynamoDB();
+    db.seed('UserSettings', [
+      { id: 's1', userId: 'alice', agentModel: 'large' },
+      { id: 's2', userId: 'bob', timezone: 'UTC' },
+    ]);
+
+    expect(await loadModelOverride(db.asDocClient(), 'UserSettings', 'alice')).toBe('large');
+    expect(await loadModelOverride(db.asDocClient(), 'UserSettings', 'bob')).toBeNull();
+    expect(await loadModelOverride(db.asDocClient(), '', 'alice')).toBeNull();
+  });
+});
+
+describe('createModelMeter', () => {
+  it('adds up the usage of every model call in a run on the fake model', async () => {
+    const model = new FakeModel(AGENT_MODELS.fast.modelId, [
+      { tool: 'get_tasks', input: { status: 'PENDING' }, inputTokens: 120, outputTokens: 15 },
+      { text: '{"summary":"Two tasks are pending"}', inputTokens: 180, outputTokens: 30 },
+    ]);
+    const calls: unknown[] = [];
+    const getTasks = new FunctionTool({
+      name: 'get_tasks',
+      description: 'Retrieve todo items',
+      inputSchema: { type: 'object', properties: { status: { type: 'string' } } },
+      callback: (input: unknown) => {
+        calls.push(input);
+        return JSON.stringify({ tasks: [] });
+      },
+    });
+    const agent = new Agent({ model, tools: [getTasks], printer: false });
+
+    let clock = 1_000;
+    const meter = createModelMeter(AGENT_MODELS.fast.modelId, () => clock);
+    const events = agent.stream('What is pending?');
+    let next = await events.next();
+    while (!next.done) {
+      meter.record(next.value);
+      next = await events.next();
+    }
+    clock += 2_500;
+
+    expect(String(next.value)).toBe('{"summary":"Two tasks are pending"}');
+    expect(calls).toEqual([{ status: 'PENDING' }]);
+    expect(model.calls).toHaveLength(2);
+    expect(meter.finish()).toEqual({
+      modelId: AGENT_MODELS.fast.modelId,
+      latencyMs: 2_500,
+      inputTokens: 300,
+      outputTokens: 45,
+    });
+  });
+
+  it('leaves the tokens out when no usage was reported', () => {
+    const meter = createModelMeter('some-model', () => 0);
+    meter.record({ type: 'modelMessageStartEvent', role: 'assistant' });
+
+    expect(meter.finish()).toEqual({ modelId: 'some-model', latencyMs: 0 });
+  });
+});
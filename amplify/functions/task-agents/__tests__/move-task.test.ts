@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { LocalDynamoDB } from '../../shared/__tests__/local-dynamodb';
+import { buildMoveChanges, moveTask } from '../tools/move-task';
+import { deleteTask } from '../tools/delete-task';
+import { getTasks } from '../tools/get-tasks';
+import type { ScopedList, TenantScope } from '../tools/tenant-scope';
+
+const TABLE = 'TodoItem';
+
+const home: ScopedList = { id: 'home', name: 'Home', owner: 'alice', canEdit: true };
+const work: ScopedList = { id: 'work', name: 'Work', owner: 'alice', canEdit: true };
+const team: ScopedList = { id: 'team', name: 'Team', owner: 'bob', groupId: 'group-1', canEdit: true };
+const teamArchive: ScopedList = { id: 'team-archive', name: 'Archive', owner: 'bob', groupId: 'group-1', canEdit: true };
+const readOnly: ScopedList = { id: 'read-only', name: 'Read only', owner: 'carol', groupId: 'group-2', canEdit: false };
+
+const scope: TenantScope = {
+  userId: 'alice',
+  groupIds: ['group-1', 'group-2'],
+  lists: [home, work, team, teamArchive, readOnly],
+};
+
+function seed() {
+  const db = new LocalDynamoDB();
+  db.seed(TABLE, [
+    { id: 'sibling', listId: 'home', owner: 'alice', title: 'Sibling', status: 'PENDING' },
+    { id: 'parent', listId: 'home', owner: 'alice', title: 'Parent', status: 'PENDING' },
+    { id: 'task', listId: 'home', owner: 'alice', title: 'Task', parentId: 'parent', blockedBy: ['sibling'] },
+    { id: 'child', listId: 'home', owner: 'alice', title: 'Child', parentId: 'task' },
+    { id: 'grandchild', listId: 'home', owner: 'alice', title: 'Grandchild', parentId: 'child', blockedBy: ['child'] },
+    { id: 'foreign', listId: 'other', owner: 'mallory', title: 'Not yours' },
+  ]);
+  return db;
+}
+
+describe('buildMoveChanges', () => {
+  const moved = new Set(['task', 'child']);
+
+  it('detaches the moved task from its parent and re-owns it', () => {
+    expect(buildMoveChanges({ id: 'task', parentId: 'parent' }, 'task', moved, home, team)).toEqual({
+      listId: 'team',
+      owner: 'bob',
+      parentId: null,
+    });
+  });
+
+  it('keeps subtasks under their moved parent', () => {
+    expect(buildMoveChanges({ id: 'child', parentId: 'task' }, 'task', moved, home, work)).toEqual({
+      listId: 'work',
+      owner: 'alice',
+    });
+  });
+
+  it('drops prerequisites left behind in the old list', () => {
+    const fields = buildMoveChanges({ id: 'task', blockedBy: ['child', 'sibling'] }, 'task', moved, home, work);
+    expect(fields.blockedBy).toEqual(['child']);
+    expect(buildMoveChanges({ id: 'task', blockedBy: ['sibling'] }, 'task', moved, home, work).blockedBy).toBeNull();
+  });
+
+  it('keeps the assignee only between lists of the same group', () => {
+    const item = { id: 'task', assigneeId: 'bob', assigneeEmail: 'bob@example.com' };
+    expect(buildMoveChanges(item, 'task', moved, team, teamArchive).assigneeId).toBeUndefined();
+    expect(buildMoveChanges(item, 'task', moved, team, work)).toMatchObject({ assigneeId: null, assigneeEmail: null });
+  });
+});
+
+describe('moveTask', () => {
+  it('moves a task with its subtasks', async () => {
+    const db = seed();
+    const result = await moveTask({ taskId: 'task', listId: 'work' }, db.asDocClient(), TABLE, scope);
+
+    expect(result.items?.map((item) => item.id)).toEqual(['task', 'child', 'grandchild']);
+    expect(db.get(TABLE, 'task')).toMatchObject({ listId: 'work' });
+    expect(db.get(TABLE, 'task')!.parentId).toBeUndefined();
+    expect(db.get(TABLE, 'task')!.blockedBy).toBeUndefined();
+    expect(db.get(TABLE, 'grandchild')).toMatchObject({ listId: 'work', parentId: 'child', blockedBy: ['child'] });
+    expect(db.get(TABLE, 'parent')!.listId).toBe('home');
+  });
+
+  it('refuses targets outside the scope or without edit rights', async () => {
+    const db = seed();
+    const foreign = await moveTask({ taskId: 'task', listId: 'other' }, db.asDocClient(), TABLE, scope);
+    const viewOnly = await moveTask({ taskId: 'task', listId: 'read-only' }, db.asDocClient(), TABLE, scope);
+
+    expect(foreign).toEqual({ success: false, error: 'List not found: other' });
+    expect(viewOnly.error).toContain('does not allow editing');
+    expect(db.get(TABLE, 'task')!.listId).toBe('home');
+  });
+
+  it('refuses tasks outside the scope', async () => {
+    const db = seed();
+    const result = await moveTask({ taskId: 'foreign', listId: 'home' }, db.asDocClient(), TABLE, scope);
+    expect(result).toEqual({ success: false, error: 'Task not found: foreign' });
+  });
+});
+
+describe('deleteTask', () => {
+  it('soft-deletes a task and its subtasks, hiding them from get_tasks', async () => {
+    const db = seed();
+    const result = await deleteTask({ taskId: 'task' }, db.asDocClient(), TABLE, scope);
+
+    expect(result.items?.map((item) => item.id)).toEqual(['task', 'child', 'grandchild']);
+    expect(db.get(TABLE, 'child')!.deletedAt).toEqual(expect.any(String));
+
+    const remaining = await getTasks({ listId: 'home' }, db.asDocClient(), TABLE, scope);
+    expect(remaining.items?.map((item) => item.id).sort()).toEqual(['parent', 'sibling']);
+  });
+
+  it('cannot delete the same task twice', async () => {
+    const db = seed();
+    await deleteTask({ taskId: 'task' }, db.asDocClient(), TABLE, scope);
+    const again = await deleteTask({ taskId: 'task' }, db.asDocClient(), TABLE, scope);
+    expect(again).toEqual({ success: false, error: 'Task not found: task' });
+  });
+
+  it('refuses tasks outside the scope', async () => {
+    const db = seed();
+    const result = await deleteTask({ taskId: 'foreign' }, db.asDocClient(), TABLE, scope);
+    expect(result.success).toBe(false);
+    expect(db.get(TABLE, 'foreign')!.deletedAt).toBeUndefined();
+  });
+});
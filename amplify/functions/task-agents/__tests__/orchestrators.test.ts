@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { Agent, type AgentStreamEvent } from '@strands-agents/sdk';
+import { runFreshOrchestrator, type CreateOrchestrator, type OrchestratorConfig } from '../orchestrators';
+import { FakeModel } from './fake-model';
+
+const config: OrchestratorConfig = { directory: '/tmp/sops', defaultModel: 'test-model', logLevel: 'warn', tools: {} };
+
+// Stands in for createOrchestrator: a Strands agent on the scripted model, which keeps its
+// conversation between calls like the real orchestrator's agents do
+function agentFactory(model: FakeModel): CreateOrchestrator {
+  return async (options) => new Agent({ model, tools: Object.values(options.tools), printer: false });
+}
+
+function userTexts(model: FakeModel, call: number): string[] {
+  return model.calls[call].flatMap((message) =>
+    message.content.flatMap((block) => ('text' in block && typeof block.text === 'string' ? [block.text] : [])),
+  );
+}
+
+describe('runFreshOrchestrator', () => {
+  it("does not carry one run's conversation into the next", async () => {
+    const model = new FakeModel('test-model', [{ text: 'Alice has 3 tasks' }, { text: 'Bob has 1 task' }]);
+    const create = agentFactory(model);
+
+    expect(await runFreshOrchestrator(create, config, "List Alice's tasks")).toBe('Alice has 3 tasks');
+    expect(await runFreshOrchestrator(create, config, "List Bob's tasks")).toBe('Bob has 1 task');
+
+    expect(model.calls[1]).toHaveLength(1);
+    expect(userTexts(model, 1)).toEqual(["List Bob's tasks"]);
+  });
+
+  it('streams the events when asked for them', async () => {
+    const model = new FakeModel('test-model', [{ text: 'Done', inputTokens: 10, outputTokens: 2 }]);
+    const events: AgentStreamEvent[] = [];
+
+    const result = await runFreshOrchestrator(agentFactory(model), config, 'Plan my day', (event) => events.push(event));
+
+    expect(result).toBe('Done');
+    expect(events.length).toBeGreaterThan(0);
+  });
+});
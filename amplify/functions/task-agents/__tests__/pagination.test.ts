@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { LocalDynamoDB } from '../../shared/__tests__/local-dynamodb';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, decodeCursor, encodeCursor, pageSize } from '../tools/pagination';
+import { getLists } from '../tools/get-lists';
+import { getTasks, type GetTasksInput } from '../tools/get-tasks';
+import type { TenantScope } from '../tools/tenant-scope';
+
+const TABLE = 'TodoItem';
+
+const scope: TenantScope = {
+  userId: 'alice',
+  groupIds: [],
+  lists: ['list-1', 'list-2', 'list-3'].map((id) => ({ id, name: id, owner: 'alice', canEdit: true })),
+};
+
+function seed() {
+  const db = new LocalDynamoDB();
+  db.seed(TABLE, [
+    ...Array.from({ length: 5 }, (_, i) => ({
+      id: `one-${i}`,
+      listId: 'list-1',
+      owner: 'alice',
+      status: i % 2 ? 'COMPLETE' : 'PENDING',
+    })),
+    ...Array.from({ length: 3 }, (_, i) => ({ id: `two-${i}`, listId: 'list-2', owner: 'alice', status: 'PENDING' })),
+    { id: 'other', listId: 'list-other', owner: 'bob', status: 'PENDING' },
+  ]);
+  return db;
+}
+
+// Follow nextCursor until the last page, returning every page's item ids
+async function readAllPages(db: LocalDynamoDB, input: GetTasksInput) {
+  const pages: string[][] = [];
+  let cursor: string | undefined;
+  do {
+    const result = await getTasks({ ...input, cursor }, db.asDocClient(), TABLE, scope);
+    expect(result.success).toBe(true);
+    pages.push((result.items ?? []).map((item) => item.id as string));
+    cursor = result.nextCursor;
+  } while (cursor);
+  return pages;
+}
+
+describe('pageSize', () => {
+  it('defaults and clamps the requested limit', () => {
+    expect(pageSize(undefined)).toBe(DEFAULT_PAGE_SIZE);
+    expect(pageSize('20')).toBe(DEFAULT_PAGE_SIZE);
+    expect(pageSize(0)).toBe(1);
+    expect(pageSize(2.7)).toBe(2);
+    expect(pageSize(10_000)).toBe(MAX_PAGE_SIZE);
+  });
+});
+
+describe('cursors', () => {
+  it('round-trips a position', () => {
+    const position = { query: 2, key: { id: 'task-1', listId: 'list-1' } };
+    expect(decodeCursor(encodeCursor(position))).toEqual(position);
+  });
+
+  it('rejects anything that is not an encoded object', () => {
+    expect(decodeCursor('not a cursor')).toBeNull();
+    expect(decodeCursor(Buffer.from('[1]').toString('base64url'))).toBeNull();
+  });
+});
+
+describe('getTasks pagination', () => {
+  it('returns every task exactly once across pages and lists', async () => {
+    const pages = await readAllPages(seed(), { limit: 3 });
+    expect(pages.map((page) => page.length)).toEqual([3, 3, 2]);
+    expect(pages.flat().sort()).toEqual(['one-0', 'one-1', 'one-2', 'one-3', 'one-4', 'two-0', 'two-1', 'two-2']);
+  });
+
+  it('keeps filters applied on every page', async () => {
+    const pages = await readAllPages(seed(), { status: 'PENDING', limit: 2 });
+    expect(pages.flat().sort()).toEqual(['one-0', 'one-2', 'one-4', 'two-0', 'two-1', 'two-2']);
+  });
+
+  it('omits nextCursor on the last page', async () => {
+    const result = await getTasks({ listId: 'list-2' }, seed().asDocClient(), TABLE, scope);
+    expect(result.items).toHaveLength(3);
+    expect(result.nextCursor).toBeUndefined();
+  });
+
+  it("leaves out other owners' tasks that name a scoped list", async () => {
+    const db = seed();
+    db.seed(TABLE, [{ id: 'injected', listId: 'list-2', owner: 'mallory', status: 'PENDING' }]);
+
+    const result = await getTasks({ listId: 'list-2' }, db.asDocClient(), TABLE, scope);
+    expect(result.items?.map((item) => item.id)).toEqual(['two-0', 'two-1', 'two-2']);
+  });
+
+  it('rejects a cursor it did not issue', async () => {
+    const result = await getTasks({ cursor: 'garbage' }, seed().asDocClient(), TABLE, scope);
+    expect(result).toEqual({ success: false, error: expect.stringContaining('Invalid cursor') });
+  });
+});
+
+describe('getLists pagination', () => {
+  it('pages through the scoped lists', () => {
+    const first = getLists({ limit: 2 }, scope);
+    const second = getLists({ limit: 2, cursor: first.nextCursor }, scope);
+
+    expect(first.items?.map((list) => list.id)).toEqual(['list-1', 'list-2']);
+    expect(second.items?.map((list) => list.id)).toEqual(['list-3']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('rejects a cursor it did not issue', () => {
+    expect(getLists({ cursor: encodeCursor({ offset: -1 }) }, scope).success).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { LocalDynamoDB } from '../../shared/__tests__/local-dynamodb';
+import { loadPlaybooks, preparePlaybookRequest } from '../playbooks';
+import type { TenantScope } from '../tools/tenant-scope';
+
+const TABLE = 'Playbook';
+const GROUPS = 'ListGroup';
+const tables = { playbookTable: TABLE, listGroupTable: GROUPS };
+
+function content(name: string, description = `The ${name} playbook`) {
+  return `---\nname: ${name}\ndescription: ${description}\ntools:\n  - get_tasks\n---\n\nDo the ${name}.`;
+}
+
+const scope: TenantScope = { userId: 'alice', groupIds: ['group-alice'], lists: [] };
+
+function seed() {
+  const db = new LocalDynamoDB();
+  db.seed(TABLE, [
+    { id: 'own-review', owner: 'alice', name: 'Weekly review', content: content('weekly-review', 'Mine') },
+    { id: 'team-review', owner: 'bob', groupId: 'group-alice', name: 'Weekly review', content: content('weekly-review', 'Team') },
+    { id: 'team-sprint', owner: 'bob', groupId: 'group-alice', name: 'Sprint', content: content('sprint-planning') },
+    { id: 'broken', owner: 'alice', name: 'Broken', content: 'no frontmatter' },
+    { id: 'other', owner: 'dave', groupId: 'group-dave', name: 'Other', content: content('other') },
+    // Mallory is not in Alice's group but shares a playbook with it anyway
+    { id: 'planted', owner: 'mallory::mallory', groupId: 'group-alice', name: 'Triage', content: content('triage') },
+  ]);
+  db.seed(GROUPS, [{ id: 'group-alice', owner: 'alice::alice', memberIds: ['bob'] }]);
+  return db;
+}
+
+describe('loadPlaybooks', () => {
+  it("loads the user's and their groups' valid playbooks, preferring their own on a name clash", async () => {
+    const playbooks = await loadPlaybooks(seed().asDocClient(), tables, scope);
+
+    expect(playbooks.map((playbook) => [playbook.id, playbook.agentName])).toEqual([
+      ['team-sprint', 'playbook-sprint-planning'],
+      ['own-review', 'playbook-weekly-review'],
+    ]);
+    expect(playbooks[1].sop).toContain('description: "Mine"');
+  });
+
+  it('loads nothing without a table', async () => {
+    expect(await loadPlaybooks(seed().asDocClient(), { ...tables, playbookTable: '' }, scope)).toEqual([]);
+  });
+
+  it('ignores playbooks shared with a group by someone outside it', async () => {
+    const db = seed();
+    db.seed(GROUPS, [{ id: 'group-alice', owner: 'alice::alice', memberIds: [] }]);
+    const playbooks = await loadPlaybooks(db.asDocClient(), tables, scope);
+
+    expect(playbooks.map((playbook) => playbook.id)).toEqual(['own-review']);
+  });
+});
+
+describe('preparePlaybookRequest', () => {
+  it('names the saved playbook to run in the prompt arguments', async () => {
+    const playbooks = await loadPlaybooks(seed().asDocClient(), tables, scope);
+    const request = preparePlaybookRequest('runPlaybook', { playbookId: 'team-sprint', input: 'Two weeks' }, playbooks);
+
+    expect(request.args).toEqual({ playbook: 'playbook-sprint-planning', input: 'Two weeks', listId: undefined });
+    expect(request.playbooks).toBe(playbooks);
+  });
+
+  it('previews a draft in place of the saved playbook with its name', async () => {
+    const playbooks = await loadPlaybooks(seed().asDocClient(), tables, scope);
+    const request = preparePlaybookRequest(
+      'runPlaybook',
+      { playbookContent: content('weekly-review', 'Draft') },
+      playbooks,
+    );
+
+    expect(request.args.playbook).toBe('playbook-weekly-review');
+    expect(request.playbooks.map((playbook) => playbook.id)).toEqual(['team-sprint', 'draft']);
+  });
+
+  it('rejects unknown playbooks and invalid drafts', () => {
+    expect(() => preparePlaybookRequest('runPlaybook', { playbookId: 'other' }, [])).toThrow('Playbook not found: other');
+    expect(() => preparePlaybookRequest('runPlaybook', { playbookContent: 'no frontmatter' }, [])).toThrow(
+      'Invalid playbook: frontmatter',
+    );
+  });
+
+  it('passes other requests through without playbooks', async () => {
+    const playbooks = await loadPlaybooks(seed().asDocClient(), tables, scope);
+
+    expect(preparePlaybookRequest('planDay', { date: '2026-03-05' }, playbooks)).toEqual({
+      args: { date: '2026-03-05' },
+      playbooks: [],
+    });
+    expect(preparePlaybookRequest('freeform', { query: 'run my sprint playbook' }, playbooks).playbooks).toEqual([]);
+  });
+});
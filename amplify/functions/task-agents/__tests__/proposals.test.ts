@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { LocalDynamoDB } from '../../shared/__tests__/local-dynamodb';
+import {
+  applyAction,
+  buildProposalResult,
+  createProposalLog,
+  describeAction,
+  isDryRun,
+  parseActions,
+  type ProposedAction,
+} from '../tools/proposals';
+import type { TenantScope } from '../tools/tenant-scope';
+
+const TABLE = 'TodoItem';
+
+const scope: TenantScope = {
+  userId: 'alice',
+  groupIds: ['group-1'],
+  lists: [
+    { id: 'home', name: 'Home', owner: 'alice', canEdit: true },
+    { id: 'work', name: 'Work', owner: 'alice', canEdit: true },
+    { id: 'shared', name: 'Team', owner: 'bob', groupId: 'group-1', canEdit: false },
+  ],
+};
+
+function seed() {
+  const db = new LocalDynamoDB();
+  db.seed(TABLE, [
+    { id: 'task-1', listId: 'home', owner: 'alice', title: 'Write report', status: 'PENDING' },
+    { id: 'child', listId: 'home', owner: 'alice', title: 'Outline', parentId: 'task-1', status: 'PENDING' },
+    { id: 'viewer-only', listId: 'shared', owner: 'bob', title: 'Team task', status: 'PENDING' },
+    { id: 'foreign', listId: 'other', owner: 'mallory', title: 'Not yours', status: 'PENDING' },
+  ]);
+  return db;
+}
+
+describe('describeAction', () => {
+  it('summarises each write tool without changing anything', async () => {
+    const db = seed();
+    const summarise = (tool: Parameters<typeof describeAction>[0], input: Record<string, unknown>) =>
+      describeAction(tool, input, db.asDocClient(), TABLE, scope).then((result) => result.summary);
+
+    expect(await summarise('create_task', { title: 'Buy milk', listId: 'home' })).toBe('Create "Buy milk" in Home');
+    expect(
+      await summarise('create_tasks', { listId: 'work', tasks: [{ title: 'A', subtasks: [{ title: 'B' }] }] }),
+    ).toBe('Create 2 tasks in Work');
+    expect(await summarise('update_task', { taskId: 'task-1', priority: 'HIGH', dueDate: null })).toBe(
+      'Update "Write report": dueDate, priority',
+    );
+    expect(await summarise('complete_task', { taskId: 'task-1' })).toBe('Complete "Write report"');
+    expect(await summarise('delete_task', { taskId: 'task-1' })).toBe('Delete "Write report" and 1 subtask');
+    expect(await summarise('move_task', { taskId: 'task-1', listId: 'work' })).toBe('Move "Write report" to Work');
+
+    expect(db.commands.some((command) => command instanceof UpdateCommand)).toBe(false);
+    expect(db.get(TABLE, 'task-1')!.status).toBe('PENDING');
+  });
+
+  it('reports the errors the tool itself would return', async () => {
+    const db = seed();
+    const check = (tool: Parameters<typeof describeAction>[0], input: Record<string, unknown>) =>
+      describeAction(tool, input, db.asDocClient(), TABLE, scope).then((result) => result.error);
+
+    expect(await check('create_task', { title: 'Sneaky', listId: 'other' })).toBe('List not found: other');
+    expect(await check('create_task', { title: 'Bad', listId: 'home', priority: 'CRITICAL' })).toContain('Invalid priority');
+    expect(await check('update_task', { taskId: 'foreign', title: 'Hijacked' })).toBe('Task not found: foreign');
+    expect(await check('delete_task', { taskId: 'viewer-only' })).toContain('does not allow editing');
+    expect(await check('move_task', { taskId: 'task-1', listId: 'home' })).toBe('Task is already in list: Home');
+  });
+});
+
+describe('isDryRun', () => {
+  it('always proposes the writes of freeform requests and playbook runs', () => {
+    expect(isDryRun('freeform', {})).toBe(true);
+    expect(isDryRun('runPlaybook', { playbookId: 'weekly' })).toBe(true);
+    expect(isDryRun(undefined, { query: 'clear my week' })).toBe(true);
+  });
+
+  it('lets other requests ask for a dry run', () => {
+    expect(isDryRun('breakdownProject', {})).toBe(false);
+    expect(isDryRun('breakdownProject', { dryRun: true })).toBe(true);
+  });
+});
+
+describe('createProposalLog', () => {
+  it('records valid calls and tells the agent they are not applied yet', async () => {
+    const db = seed();
+    const log = createProposalLog(db.asDocClient(), TABLE, scope);
+
+    const recorded = JSON.parse(await log.record('complete_task', { taskId: 'task-1' }));
+    const rejected = JSON.parse(await log.record('complete_task', { taskId: 'foreign' }));
+
+    expect(recorded).toMatchObject({ success: true, proposed: true, actionId: 'action-1' });
+    expect(rejected).toEqual({ success: false, error: 'Task not found: foreign' });
+    expect(log.actions).toEqual([
+      { id: 'action-1', tool: 'complete_task', input: { taskId: 'task-1' }, summary: 'Complete "Write report"' },
+    ]);
+    expect(db.get(TABLE, 'task-1')!.status).toBe('PENDING');
+  });
+});
+
+describe('buildProposalResult', () => {
+  const actions: ProposedAction[] = [
+    { id: 'action-1', tool: 'create_tasks', input: { listId: 'home', tasks: [{ title: 'A' }] }, summary: 'Create 1 task in Home' },
+  ];
+
+  it('keeps a specialist summary in its schema shape and adds the changeset to it', () => {
+    expect(buildProposalResult('breakdownProject', '{"summary":"One task","totalTasks":1}', actions)).toEqual({
+      success: true,
+      data: { summary: 'One task', totalTasks: 1, workStreams: [], criticalPath: [], actions },
+    });
+  });
+
+  it('fails a specialist summary that does not match its schema', () => {
+    const result = buildProposalResult('breakdownProject', '{"summary":"One task"}', actions);
+    expect(result.success).toBe(false);
+    expect(result.validationErrors).toEqual(['totalTasks: is required']);
+  });
+
+  it('fails a specialist answer that is not JSON, like a normal run', () => {
+    expect(buildProposalResult('breakdownProject', 'Done!', actions).success).toBe(false);
+  });
+
+  it('accepts prose for freeform requests', () => {
+    expect(buildProposalResult('freeform', ' Proposed one task. ', [])).toEqual({
+      success: true,
+      data: { answer: 'Proposed one task.', actions: [] },
+    });
+    expect(buildProposalResult('freeform', '{"count":2}', []).data).toEqual({ result: { count: 2 }, actions: [] });
+  });
+});
+
+describe('parseActions', () => {
+  it('accepts actions sent back as a JSON string', () => {
+    const actions = [{ id: 'action-1', tool: 'delete_task', input: { taskId: 'task-1' }, summary: 'Delete' }];
+    expect(parseActions(JSON.stringify(actions))).toEqual(actions);
+  });
+
+  it('rejects malformed input and tools that do not write', () => {
+    expect(parseActions('not json')).toBeNull();
+    expect(parseActions({ id: 'action-1' })).toBeNull();
+    expect(parseActions([{ id: 'action-1', tool: 'get_tasks', input: {} }])).toBeNull();
+  });
+});
+
+describe('applyAction', () => {
+  it('runs the confirmed tool call', async () => {
+    const db = seed();
+    const result = await applyAction(
+      { id: 'action-1', tool: 'move_task', input: { taskId: 'task-1', listId: 'work' }, summary: '' },
+      db.asDocClient(),
+      TABLE,
+      scope,
+    );
+    expect(result).toEqual({ id: 'action-1', success: true });
+    expect(db.get(TABLE, 'child')!.listId).toBe('work');
+  });
+
+  it('re-checks the scope of inputs that come back from the client', async () => {
+    const db = seed();
+    const result = await applyAction(
+      { id: 'action-1', tool: 'update_task', input: { taskId: 'foreign', title: 'Hijacked' }, summary: '' },
+      db.asDocClient(),
+      TABLE,
+      scope,
+    );
+    expect(result).toEqual({ id: 'action-1', success: false, error: 'Task not found: foreign' });
+    expect(db.get(TABLE, 'foreign')!.title).toBe('Not yours');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { LocalDynamoDB } from '../../shared/__tests__/local-dynamodb';
+import { AGENT_QUOTAS } from '../../shared/agent-quotas';
+import { checkAgentQuota, loadQuotaUsage, type QuotaTables } from '../quotas';
+
+const tables: QuotaTables = { agentJobTable: 'AgentJob', agentUsageTable: 'AgentUsage', listGroupTable: 'ListGroup' };
+const now = new Date('2026-03-05T08:00:00.000Z');
+
+function minutesAgo(minutes: number): string {
+  return new Date(now.getTime() - minutes * 60_000).toISOString();
+}
+
+function jobs(owner: string, count: number, status: string, createdAt: string) {
+  return Array.from({ length: count }, (_, i) => ({ id: `${owner}-${status}-${createdAt}-${i}`, owner, status, createdAt }));
+}
+
+describe('loadQuotaUsage', () => {
+  it('counts running jobs, jobs from the last hour and tokens this month', async () => {
+    const db = new LocalDynamoDB();
+    db.seed('AgentJob', [
+      ...jobs('alice', 1, 'PENDING', minutesAgo(1)),
+      ...jobs('alice', 1, 'PROCESSING', minutesAgo(10)),
+      ...jobs('alice', 2, 'COMPLETE', minutesAgo(30)),
+      ...jobs('alice', 1, 'COMPLETE', minutesAgo(90)),
+      // Stopped long ago without finishing, so it no longer holds a slot
+      ...jobs('alice', 1, 'PROCESSING', minutesAgo(120)),
+      ...jobs('bob', 1, 'PROCESSING', minutesAgo(5)),
+    ]);
+    db.seed('AgentUsage', [
+      { id: 'alice:2026-03', userId: 'alice', month: '2026-03', inputTokens: 1_000, outputTokens: 200 },
+      { id: 'alice:2026-02', userId: 'alice', month: '2026-02', inputTokens: 9_000, outputTokens: 900 },
+    ]);
+
+    expect(await loadQuotaUsage(db.asDocClient(), tables, ['alice'], { at: now })).toEqual({
+      concurrentJobs: 2,
+      jobsPerHour: 4,
+      monthlyTokens: 1_200,
+    });
+  });
+
+  it('only counts jobs created before the one being checked', async () => {
+    const db = new LocalDynamoDB();
+    db.seed('AgentJob', [
+      { id: 'earlier', owner: 'alice', status: 'PROCESSING', createdAt: minutesAgo(2) },
+      { id: 'this', owner: 'alice', status: 'PENDING', createdAt: minutesAgo(1) },
+      { id: 'later', owner: 'alice', status: 'PENDING', createdAt: minutesAgo(0) },
+    ]);
+
+    const usage = await loadQuotaUsage(db.asDocClient(), tables, ['alice'], {
+      at: new Date(minutesAgo(1)),
+      jobId: 'this',
+      tokens: false,
+    });
+
+    expect(usage).toEqual({ concurrentJobs: 1, jobsPerHour: 1, monthlyTokens: 0 });
+  });
+});
+
+describe('checkAgentQuota', () => {
+  it("refuses a request over the user's own limits", async () => {
+    const db = new LocalDynamoDB();
+    db.seed('AgentJob', jobs('alice', AGENT_QUOTAS.user.concurrentJobs, 'PROCESSING', minutesAgo(3)));
+
+    expect(await checkAgentQuota(db.asDocClient(), tables, { userId: 'alice', groupIds: [] }, { at: now })).toEqual({
+      scope: 'user',
+      limit: 'concurrentJobs',
+      allowed: AGENT_QUOTAS.user.concurrentJobs,
+      used: AGENT_QUOTAS.user.concurrentJobs,
+    });
+    expect(await checkAgentQuota(db.asDocClient(), tables, { userId: 'bob', groupIds: [] }, { at: now })).toBeNull();
+  });
+
+  it("refuses a request once the group's members together reach the group's limits", async () => {
+    const db = new LocalDynamoDB();
+    db.seed('ListGroup', [{ id: 'g1', owner: 'alice', memberIds: ['bob', 'carol'] }]);
+    db.seed('AgentUsage', [
+      { id: 'alice:2026-03', inputTokens: 1_000_000, outputTokens: 0 },
+      { id: 'bob:2026-03', inputTokens: 1_900_000, outputTokens: 0 },
+      { id: 'carol:2026-03', inputTokens: 1_900_000, outputTokens: 0 },
+      { id: 'dave:2026-03', inputTokens: 5_300_000, outputTokens: 0 },
+    ]);
+    const scope = { userId: 'alice', groupIds: ['g1'] };
+
+    // Everyone is within their own budget and the group's 10M
+    expect(await checkAgentQuota(db.asDocClient(), tables, scope, { at: now })).toBeNull();
+
+    db.seed('ListGroup', [{ id: 'g1', owner: 'alice', memberIds: ['bob', 'carol', 'dave'] }]);
+    expect(await checkAgentQuota(db.asDocClient(), tables, scope, { at: now })).toEqual({
+      scope: 'group',
+      limit: 'monthlyTokens',
+      allowed: AGENT_QUOTAS.group.monthlyTokens,
+      used: 10_100_000,
+    });
+    // Applying a reviewed changeset calls no model
+    expect(await checkAgentQuota(db.asDocClient(), tables, scope, { at: now, tokens: false })).toBeNull();
+  });
+
+  it("counts the group owner's jobs when the owner is stored as sub::username", async () => {
+    const db = new LocalDynamoDB();
+    db.seed('ListGroup', [{ id: 'g1', owner: 'alice::alice', memberIds: ['bob', 'carol'] }]);
+    db.seed('AgentJob', [
+      ...jobs('alice', AGENT_QUOTAS.user.concurrentJobs, 'PROCESSING', minutesAgo(3)),
+      ...jobs('bob', AGENT_QUOTAS.group.concurrentJobs - AGENT_QUOTAS.user.concurrentJobs, 'PROCESSING', minutesAgo(3)),
+    ]);
+
+    expect(await checkAgentQuota(db.asDocClient(), tables, { userId: 'carol', groupIds: ['g1'] }, { at: now })).toEqual({
+      scope: 'group',
+      limit: 'concurrentJobs',
+      allowed: AGENT_QUOTAS.group.concurrentJobs,
+      used: AGENT_QUOTAS.group.concurrentJobs,
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { LocalDynamoDB } from '../../shared/__tests__/local-dynamodb';
+import { MAX_SESSION_FOLLOW_UPS, type AgentSessionMessage } from '../../shared/agent-sessions';
+import { buildPrompt } from '../enrich-query';
+import { describeAnswer, prepareSessionTurn, saveSessionTurn } from '../sessions';
+
+const TABLE = 'AgentSession';
+const now = new Date('2026-03-05T08:00:00.000Z');
+const plan = { tasks: [{ taskId: 'gym', title: 'Gym', reasoning: 'Energy', startTime: '07:00' }], unscheduledTasks: [], summary: 'Gym first' };
+
+async function startSession(db: LocalDynamoDB) {
+  const turn = await prepareSessionTurn(db.asDocClient(), TABLE, 'alice', 'planDay', { date: '2026-03-05', dryRun: true });
+  return saveSessionTurn(db.asDocClient(), TABLE, turn!, plan, now);
+}
+
+describe('prepareSessionTurn', () => {
+  it('has no session for queryTypes that cannot be followed up', async () => {
+    const db = new LocalDynamoDB();
+    expect(await prepareSessionTurn(db.asDocClient(), TABLE, 'alice', 'analyzeTask', { taskDescription: 'x' })).toBeNull();
+  });
+
+  it('starts a session with the request, and saves it with the answer', async () => {
+    const db = new LocalDynamoDB();
+    const session = await startSession(db);
+
+    expect(db.get(TABLE, session.id)).toMatchObject({
+      owner: 'alice',
+      queryType: 'planDay',
+      requestData: { date: '2026-03-05' },
+      messages: [],
+      result: plan,
+      updatedAt: now.toISOString(),
+    });
+  });
+
+  it('re-runs the request of a follow-up with the previous answer and the conversation', async () => {
+    const db = new LocalDynamoDB();
+    const session = await startSession(db);
+
+    const turn = await prepareSessionTurn(db.asDocClient(), TABLE, 'alice', 'planDay', {
+      sessionId: session.id,
+      followUp: '  move the gym to the evening ',
+    });
+
+    expect(turn?.followUp).toBe('move the gym to the evening');
+    expect(turn?.args).toEqual({
+      date: '2026-03-05',
+      previousAnswer: JSON.stringify(plan),
+      followUp: 'move the gym to the evening',
+    });
+    expect(buildPrompt('planDay', turn!.args, now)).toContain('followUp: move the gym to the evening');
+  });
+
+  it("refuses other users' sessions and sessions of another queryType", async () => {
+    const db = new LocalDynamoDB();
+    const session = await startSession(db);
+    const followUp = { sessionId: session.id, followUp: 'later please' };
+
+    await expect(prepareSessionTurn(db.asDocClient(), TABLE, 'mallory', 'planDay', followUp)).rejects.toThrow(
+      'Conversation not found',
+    );
+    await expect(prepareSessionTurn(db.asDocClient(), TABLE, 'alice', 'recommendTask', followUp)).rejects.toThrow(
+      'Conversation not found',
+    );
+  });
+
+  it('refuses follow-ups past the limit', async () => {
+    const db = new LocalDynamoDB();
+    const session = await startSession(db);
+    const messages: AgentSessionMessage[] = Array.from({ length: MAX_SESSION_FOLLOW_UPS }, () => [
+      { role: 'user' as const, content: 'again', at: now.toISOString() },
+      { role: 'assistant' as const, content: 'Done', at: now.toISOString() },
+    ]).flat();
+    db.seed(TABLE, [{ ...db.get(TABLE, session.id)!, messages }]);
+
+    await expect(
+      prepareSessionTurn(db.asDocClient(), TABLE, 'alice', 'planDay', { sessionId: session.id, followUp: 'one more' }),
+    ).rejects.toThrow(`${MAX_SESSION_FOLLOW_UPS} follow-ups`);
+  });
+});
+
+describe('saveSessionTurn', () => {
+  it('adds the follow-up and the reply, and replaces the answer', async () => {
+    const db = new LocalDynamoDB();
+    const session = await startSession(db);
+    const turn = await prepareSessionTurn(db.asDocClient(), TABLE, 'alice', 'planDay', {
+      sessionId: session.id,
+      followUp: 'move the gym to the evening',
+    });
+    const revised = { ...plan, summary: 'Moved the gym to 18:00' };
+    const later = new Date('2026-03-05T08:05:00.000Z');
+
+    await saveSessionTurn(db.asDocClient(), TABLE, turn!, revised, later);
+
+    expect(db.get(TABLE, session.id)).toMatchObject({
+      result: revised,
+      messages: [
+        { role: 'user', content: 'move the gym to the evening', at: later.toISOString() },
+        { role: 'assistant', content: 'Moved the gym to 18:00', at: later.toISOString() },
+      ],
+    });
+  });
+
+  it('refuses a turn when another was saved since it started', async () => {
+    const db = new LocalDynamoDB();
+    const session = await startSession(db);
+    const followUp = { sessionId: session.id, followUp: 'later please' };
+    const first = await prepareSessionTurn(db.asDocClient(), TABLE, 'alice', 'planDay', followUp);
+    const second = await prepareSessionTurn(db.asDocClient(), TABLE, 'alice', 'planDay', followUp);
+
+    await saveSessionTurn(db.asDocClient(), TABLE, first!, plan, new Date('2026-03-05T08:05:00.000Z'));
+    await expect(saveSessionTurn(db.asDocClient(), TABLE, second!, plan, new Date('2026-03-05T08:06:00.000Z'))).rejects.toThrow(
+      'conversation changed',
+    );
+  });
+});
+
+describe('describeAnswer', () => {
+  it("replies with the answer's summary or reasoning", () => {
+    expect(describeAnswer(plan)).toBe('Gym first');
+    expect(describeAnswer({ taskId: 't', reasoning: 'Due today' })).toBe('Due today');
+    expect(describeAnswer(null)).toBe('Here is the updated answer.');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { parsePartialJson, type AgentStreamFrame } from '../../shared/agent-stream';
+import { createFrameMapper, toolResultFrame } from '../stream-frames';
+import { mockModelEvents, streamThroughSse } from './mock-stream';
+
+const plan = '{"schedule":[{"startTime":"09:00","taskId":"abc","taskName":"Write API","reasoning":"Focus"}],"summary":"One block"}';
+
+function mapEvents(...messages: Parameters<typeof mockModelEvents>[0]): AgentStreamFrame[] {
+  const frames: AgentStreamFrame[] = [];
+  const map = createFrameMapper((frame) => frames.push(frame));
+  for (const event of mockModelEvents(messages)) map(event);
+  return frames;
+}
+
+function joined(frames: AgentStreamFrame[], type: 'thinking' | 'partial_json'): string {
+  return frames.map((frame) => (frame.type === type ? frame.text : '')).join('');
+}
+
+describe('createFrameMapper', () => {
+  it('streams narration as thinking and the answer as partial_json', () => {
+    const frames = mapEvents({ text: 'Let me check your tasks.' }, { text: '\n```json\n' + plan + '\n```' });
+
+    expect(joined(frames, 'thinking')).toBe('Let me check your tasks.');
+    expect(joined(frames, 'partial_json')).toBe('```json\n' + plan + '\n```');
+    expect(frames.filter((frame) => frame.type === 'partial_json' && frame.reset)).toHaveLength(1);
+  });
+
+  it('starts each answer with a reset so a corrected answer replaces the first', () => {
+    const frames = mapEvents({ text: '{"summary":' }, { text: plan });
+    const resets = frames.filter((frame) => frame.type === 'partial_json' && frame.reset);
+
+    expect(resets).toEqual([
+      { type: 'partial_json', text: '{"su', reset: true },
+      { type: 'partial_json', text: '{"sc', reset: true },
+    ]);
+  });
+
+  it('streams reasoning as thinking', () => {
+    expect(mapEvents({ reasoning: 'The user wants a plan' })).toEqual([
+      { type: 'thinking', text: 'The ' },
+      { type: 'thinking', text: 'user' },
+      { type: 'thinking', text: ' wan' },
+      { type: 'thinking', text: 'ts a' },
+      { type: 'thinking', text: ' pla' },
+      { type: 'thinking', text: 'n' },
+    ]);
+  });
+});
+
+describe('toolResultFrame', () => {
+  it('reports tools that returned success: false as failed', () => {
+    expect(toolResultFrame('get_tasks', '{"tasks":[]}')).toEqual({ type: 'tool_result', tool: 'get_tasks', success: true });
+    expect(toolResultFrame('create_task', '{"success":false,"error":"List not found"}')).toEqual({
+      type: 'tool_result',
+      tool: 'create_task',
+      success: false,
+    });
+  });
+});
+
+describe('streaming over server-sent events', () => {
+  it('delivers every frame in order however the body is chunked', () => {
+    const final: AgentStreamFrame = { type: 'final', response: { success: true, data: { summary: 'One block' } } };
+    const { body, received } = streamThroughSse([{ text: 'Planning.' }, { text: plan }], [final]);
+
+    expect(body).toContain('event: partial_json\ndata: ');
+    expect(joined(received, 'thinking')).toBe('Planning.');
+    expect(joined(received, 'partial_json')).toBe(plan);
+    expect(received[received.length - 1]).toEqual(final);
+  });
+
+  it('lets the client read the plan while it is still arriving', () => {
+    const { received } = streamThroughSse([{ text: plan }]);
+    let answer = '';
+    const seen: unknown[] = [];
+    for (const frame of received) {
+      if (frame.type !== 'partial_json') continue;
+      answer = frame.reset ? frame.text : answer + frame.text;
+      seen.push(parsePartialJson(answer));
+    }
+
+    expect(seen).toContainEqual({ schedule: [{ startTime: '09:00', taskId: 'abc', taskName: 'Wri' }] });
+    expect(seen[seen.length - 1]).toEqual(JSON.parse(plan));
+  });
+});
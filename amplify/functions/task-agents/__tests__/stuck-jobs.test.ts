@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { LocalDynamoDB } from '../../shared/__tests__/local-dynamodb';
+import { UPDATE_AGENT_JOB_MUTATION } from '../job-progress';
+import { isStuckJob, STUCK_JOB_ERROR, sweepStuckJobs } from '../stuck-jobs';
+
+const now = new Date('2026-03-05T08:00:00.000Z');
+
+function minutesAgo(minutes: number): string {
+  return new Date(now.getTime() - minutes * 60_000).toISOString();
+}
+
+describe('isStuckJob', () => {
+  it('flags jobs running longer than the function can', () => {
+    expect(isStuckJob({ status: 'PROCESSING', createdAt: minutesAgo(40), startedAt: minutesAgo(25) }, now)).toBe(true);
+    expect(isStuckJob({ status: 'PROCESSING', createdAt: minutesAgo(40), startedAt: minutesAgo(10) }, now)).toBe(false);
+  });
+
+  it('flags jobs never picked up', () => {
+    expect(isStuckJob({ status: 'PENDING', createdAt: minutesAgo(45) }, now)).toBe(true);
+    expect(isStuckJob({ status: 'PENDING', createdAt: minutesAgo(2) }, now)).toBe(false);
+  });
+
+  it('leaves finished jobs alone', () => {
+    expect(isStuckJob({ status: 'COMPLETE', createdAt: minutesAgo(300) }, now)).toBe(false);
+  });
+});
+
+describe('sweepStuckJobs', () => {
+  function setup(updateError?: Error) {
+    const db = new LocalDynamoDB();
+    db.seed('AgentJob', [
+      {
+        id: 'stuck',
+        owner: 'alice',
+        queryType: 'planDay',
+        status: 'PROCESSING',
+        createdAt: minutesAgo(30),
+        startedAt: minutesAgo(30),
+        progress: JSON.stringify([{ kind: 'started', label: 'Started', at: minutesAgo(30) }]),
+      },
+      { id: 'running', owner: 'alice', queryType: 'planDay', status: 'PROCESSING', createdAt: minutesAgo(5), startedAt: minutesAgo(5) },
+      { id: 'done', owner: 'alice', queryType: 'planDay', status: 'COMPLETE', createdAt: minutesAgo(90) },
+    ]);
+    const calls: { query: string; variables: Record<string, unknown> }[] = [];
+    const request = async (query: string, variables: Record<string, unknown>) => {
+      calls.push({ query, variables });
+      if (updateError && query === UPDATE_AGENT_JOB_MUTATION) throw updateError;
+      return {};
+    };
+    return { db, calls, request };
+  }
+
+  it('fails stuck jobs only while they keep the status they were found with, and notifies the owner', async () => {
+    const { db, calls, request } = setup();
+
+    expect(await sweepStuckJobs(db.asDocClient(), 'AgentJob', request, now)).toBe(1);
+
+    const updates = calls.filter((call) => call.query === UPDATE_AGENT_JOB_MUTATION);
+    expect(updates).toHaveLength(1);
+    const { input, condition } = updates[0].variables as { input: Record<string, unknown>; condition: unknown };
+    expect(input).toMatchObject({ id: 'stuck', status: 'FAILED', error: STUCK_JOB_ERROR, completedAt: now.toISOString() });
+    expect(JSON.parse(input.progress as string).map((step: { kind: string }) => step.kind)).toEqual(['started', 'failed']);
+    expect(condition).toEqual({ status: { eq: 'PROCESSING' } });
+
+    const notifications = calls.filter((call) => call.query !== UPDATE_AGENT_JOB_MUTATION);
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].variables.input).toMatchObject({ owner: 'alice', title: 'Daily plan failed', jobId: 'stuck' });
+  });
+
+  it('skips a job that finished before the sweep reached it', async () => {
+    const { db, calls, request } = setup(new Error('The conditional request failed (Service: DynamoDb)'));
+
+    expect(await sweepStuckJobs(db.asDocClient(), 'AgentJob', request, now)).toBe(0);
+    expect(calls.filter((call) => call.query !== UPDATE_AGENT_JOB_MUTATION)).toEqual([]);
+  });
+});
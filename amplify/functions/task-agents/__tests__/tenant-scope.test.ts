@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import { ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { LocalDynamoDB } from '../../shared/__tests__/local-dynamodb';
+import { loadTenantScope, type TenantTables } from '../tools/tenant-scope';
+import { getLists } from '../tools/get-lists';
+import { getTasks } from '../tools/get-tasks';
+import { createTask } from '../tools/create-task';
+import { createTasks } from '../tools/create-tasks';
+
+const TABLES: TenantTables = {
+  todoListTable: 'TodoList',
+  listGroupTable: 'ListGroup',
+  groupMembershipTable: 'GroupMembership',
+};
+const TODO_TABLE = 'TodoItem';
+
+// alice owns a private list and a group list; bob and carol are members of her group
+// (carol as a viewer); dave is an unrelated tenant with his own list and group.
+function seed() {
+  const db = new LocalDynamoDB();
+  db.seed('ListGroup', [
+    {
+      id: 'group-alice',
+      owner: 'alice',
+      memberIds: ['bob', 'carol'],
+      memberRoles: ['bob:EDITOR', 'carol:VIEWER'],
+    },
+    { id: 'group-dave', owner: 'dave', memberIds: [], memberRoles: [] },
+  ]);
+  db.seed('GroupMembership', [
+    { id: 'group-alice:bob', groupId: 'group-alice', memberId: 'bob' },
+    { id: 'group-alice:carol', groupId: 'group-alice', memberId: 'carol' },
+    // Left over after bob was removed from dave's group
+    { id: 'group-dave:bob', groupId: 'group-dave', memberId: 'bob' },
+  ]);
+  db.seed('TodoList', [
+    { id: 'alice-private', owner: 'alice', name: 'Alice private' },
+    { id: 'alice-shared', owner: 'alice', name: 'Team', groupId: 'group-alice' },
+    { id: 'bob-private', owner: 'bob', name: 'Bob private' },
+    { id: 'dave-private', owner: 'dave', name: 'Dave private' },
+    { id: 'dave-shared', owner: 'dave', name: 'Dave team', groupId: 'group-dave' },
+  ]);
+  db.seed(TODO_TABLE, [
+    { id: 'a1', listId: 'alice-private', owner: 'alice', title: 'Alice task', status: 'PENDING' },
+    { id: 's1', listId: 'alice-shared', owner: 'alice', title: 'Team task', status: 'PENDING', blockedBy: ['d1'] },
+    { id: 'b1', listId: 'bob-private', owner: 'bob', title: 'Bob task', status: 'PENDING', assigneeId: 'alice' },
+    { id: 'd1', listId: 'dave-private', owner: 'dave', title: 'Dave task', status: 'IN_PROGRESS' },
+    { id: 'd2', listId: 'dave-shared', owner: 'dave', title: 'Dave team task', status: 'PENDING' },
+  ]);
+  return db;
+}
+
+const ids = (items: { id?: unknown }[] | undefined) => (items ?? []).map((item) => item.id).sort();
+
+describe('loadTenantScope', () => {
+  it('includes own lists and lists shared with the user\'s groups only', async () => {
+    const db = seed();
+    const alice = await loadTenantScope(db.asDocClient(), TABLES, 'alice');
+    const bob = await loadTenantScope(db.asDocClient(), TABLES, 'bob');
+
+    expect(ids(getLists({}, alice).items)).toEqual(['alice-private', 'alice-shared']);
+    expect(ids(getLists({}, bob).items)).toEqual(['alice-shared', 'bob-private']);
+  });
+
+  it('ignores membership records the group no longer confirms', async () => {
+    const db = seed();
+    const bob = await loadTenantScope(db.asDocClient(), TABLES, 'bob');
+    expect(bob.groupIds).toEqual(['group-alice']);
+  });
+
+  it('never scans a table', async () => {
+    const db = seed();
+    const scope = await loadTenantScope(db.asDocClient(), TABLES, 'alice');
+    await getTasks({}, db.asDocClient(), TODO_TABLE, scope);
+    await getTasks({ status: 'PENDING' }, db.asDocClient(), TODO_TABLE, scope);
+    expect(db.commands.some((command) => command instanceof ScanCommand)).toBe(false);
+  });
+
+  it("carries the user's timezone setting, falling back to UTC", async () => {
+    const db = seed();
+    db.seed('UserSettings', [
+      { id: 'settings-alice', userId: 'alice', timezone: 'Australia/Sydney' },
+      { id: 'settings-bob', userId: 'bob', timezone: 'Not/A_Zone' },
+    ]);
+    const tables = { ...TABLES, userSettingsTable: 'UserSettings' };
+
+    expect((await loadTenantScope(db.asDocClient(), tables, 'alice')).timeZone).toBe('Australia/Sydney');
+    expect((await loadTenantScope(db.asDocClient(), tables, 'bob')).timeZone).toBe('UTC');
+    expect((await loadTenantScope(db.asDocClient(), tables, 'dave')).timeZone).toBe('UTC');
+  });
+
+  it('returns an empty scope for an anonymous caller', async () => {
+    const db = seed();
+    const scope = await loadTenantScope(db.asDocClient(), TABLES, '');
+    expect(getLists({}, scope).items).toEqual([]);
+  });
+});
+
+describe('getTasks tenant scoping', () => {
+  it('returns only tasks in the caller\'s lists without filters or by status', async () => {
+    const db = seed();
+    const scope = await loadTenantScope(db.asDocClient(), TABLES, 'alice');
+
+    expect(ids((await getTasks({}, db.asDocClient(), TODO_TABLE, scope)).items)).toEqual(['a1', 's1']);
+    expect(ids((await getTasks({ status: 'PENDING' }, db.asDocClient(), TODO_TABLE, scope)).items)).toEqual([
+      'a1',
+      's1',
+    ]);
+  });
+
+  it("reads due date bounds in the user's timezone", async () => {
+    const db = seed();
+    db.seed(TODO_TABLE, [
+      // 11pm and 1am on either side of midnight on 4 Oct in Sydney, the night the clocks go forward
+      { id: 'late', listId: 'alice-private', owner: 'alice', title: 'Late', status: 'PENDING', dueDate: '2026-10-03T13:00:00.000Z' },
+      { id: 'early', listId: 'alice-private', owner: 'alice', title: 'Early', status: 'PENDING', dueDate: '2026-10-03T15:00:00.000Z' },
+    ]);
+    const scope = { ...(await loadTenantScope(db.asDocClient(), TABLES, 'alice')), timeZone: 'Australia/Sydney' };
+    const dueIds = async (input: Record<string, string>) =>
+      ids((await getTasks({ listId: 'alice-private', ...input }, db.asDocClient(), TODO_TABLE, scope)).items);
+
+    expect(await dueIds({ dueDateBefore: '2026-10-03' })).toEqual(['late']);
+    expect(await dueIds({ dueDateAfter: '2026-10-04' })).toEqual(['early']);
+    expect(await dueIds({ dueDateAfter: '2026-10-04T00:30:00', dueDateBefore: '2026-10-04T23:59:59' })).toEqual(['early']);
+  });
+
+  it('rejects lists outside the scope', async () => {
+    const db = seed();
+    const scope = await loadTenantScope(db.asDocClient(), TABLES, 'alice');
+    const result = await getTasks({ listId: 'dave-private' }, db.asDocClient(), TODO_TABLE, scope);
+    expect(result).toEqual({ success: false, error: 'List not found: dave-private' });
+  });
+
+  it('drops assignee matches from lists the caller cannot see', async () => {
+    const db = seed();
+    const scope = await loadTenantScope(db.asDocClient(), TABLES, 'alice');
+    const result = await getTasks({ assigneeId: 'alice' }, db.asDocClient(), TODO_TABLE, scope);
+    expect(result.items).toEqual([]);
+  });
+
+  it('does not reveal the status of prerequisites in other tenants', async () => {
+    const db = seed();
+    const scope = await loadTenantScope(db.asDocClient(), TABLES, 'alice');
+    const result = await getTasks({ listId: 'alice-shared' }, db.asDocClient(), TODO_TABLE, scope);
+    expect(result.items?.[0]).toMatchObject({ id: 's1', isBlocked: false, openBlockers: [] });
+  });
+});
+
+describe('task creation tenant scoping', () => {
+  it('refuses to write into another tenant\'s list', async () => {
+    const db = seed();
+    const scope = await loadTenantScope(db.asDocClient(), TABLES, 'alice');
+
+    const single = await createTask({ title: 'Sneaky', listId: 'dave-private' }, db.asDocClient(), TODO_TABLE, scope);
+    const batch = await createTasks(
+      { listId: 'dave-private', tasks: [{ title: 'Sneaky' }] },
+      db.asDocClient(),
+      TODO_TABLE,
+      scope,
+    );
+
+    expect(single).toEqual({ success: false, error: 'List not found: dave-private' });
+    expect(batch.success).toBe(false);
+    expect(db.table(TODO_TABLE).size).toBe(5);
+  });
+
+  it('refuses to nest under a task from another tenant', async () => {
+    const db = seed();
+    const scope = await loadTenantScope(db.asDocClient(), TABLES, 'alice');
+    const result = await createTask(
+      { title: 'Child', listId: 'alice-private', parentId: 'd1' },
+      db.asDocClient(),
+      TODO_TABLE,
+      scope,
+    );
+    expect(result).toEqual({ success: false, error: 'Parent task not found in list: d1' });
+  });
+
+  it('lets editors add to a shared list as the list owner, but not viewers', async () => {
+    const db = seed();
+    const bob = await loadTenantScope(db.asDocClient(), TABLES, 'bob');
+    const carol = await loadTenantScope(db.asDocClient(), TABLES, 'carol');
+
+    const created = await createTask({ title: 'From bob', listId: 'alice-shared' }, db.asDocClient(), TODO_TABLE, bob);
+    const denied = await createTask({ title: 'From carol', listId: 'alice-shared' }, db.asDocClient(), TODO_TABLE, carol);
+
+    expect(created.item).toMatchObject({ listId: 'alice-shared', owner: 'alice' });
+    expect(denied.success).toBe(false);
+    expect(denied.error).toContain('does not allow editing');
+  });
+});
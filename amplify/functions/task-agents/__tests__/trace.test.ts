@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { Agent, FunctionTool } from '@strands-agents/sdk';
+import { AGENT_MODELS } from '../../shared/agent-models';
+import { MAX_TRACE_ENTRIES, MAX_TRACE_TEXT_LENGTH, parseAgentTrace } from '../../shared/agent-trace';
+import { createTraceRecorder } from '../trace';
+import { FakeModel } from './fake-model';
+
+describe('createTraceRecorder', () => {
+  it('records hand-overs, tool calls and model usage from a run on the fake model', async () => {
+    let clock = 1_000;
+    const trace = createTraceRecorder(AGENT_MODELS.standard.modelId, () => clock);
+
+    // The orchestrator hands over to a specialist, which calls a task tool
+    const specialist = new FunctionTool({
+      name: 'daily_planner',
+      description: 'Plans the day',
+      inputSchema: { type: 'object', properties: { query: { type: 'string' } } },
+      callback: () => {
+        clock += 300;
+        const output = JSON.stringify({ success: true, tasks: [] });
+        trace.toolCall('get_tasks', { status: 'PENDING' }, output, 120);
+        return output;
+      },
+    });
+    const orchestrator = new Agent({
+      model: new FakeModel(AGENT_MODELS.standard.modelId, [
+        { tool: 'daily_planner', input: { query: 'Plan my day' }, inputTokens: 1_000, outputTokens: 40 },
+        { text: '{"schedule":[],"summary":"Nothing to do"}', inputTokens: 1_200, outputTokens: 60 },
+      ]),
+      tools: [specialist],
+      printer: false,
+    });
+
+    const events = orchestrator.stream('Plan my day');
+    for (let next = await events.next(); !next.done; next = await events.next()) {
+      trace.record(next.value);
+    }
+    trace.repair('summary: Required');
+    clock += 200;
+
+    const { trace: finished, usage } = trace.finish();
+
+    expect(usage).toEqual({
+      modelId: AGENT_MODELS.standard.modelId,
+      latencyMs: 500,
+      inputTokens: 2_200,
+      outputTokens: 100,
+    });
+    expect(finished.entries.map((entry) => entry.kind)).toEqual(['delegation', 'model', 'tool', 'model', 'repair']);
+    expect(finished.entries[0]).toEqual({ kind: 'delegation', agent: 'daily_planner', atMs: 0 });
+    expect(finished.entries[2]).toEqual({
+      kind: 'tool',
+      tool: 'get_tasks',
+      input: '{"status":"PENDING"}',
+      output: '{"success":true,"tasks":[]}',
+      success: true,
+      latencyMs: 120,
+      atMs: 180,
+    });
+    expect(finished.totals).toEqual({
+      delegations: 1,
+      toolCalls: 1,
+      failedToolCalls: 0,
+      modelCalls: 2,
+      inputTokens: 2_200,
+      outputTokens: 100,
+      costUsd: (2_200 * 3 + 100 * 15) / 1_000_000,
+    });
+  });
+
+  it('marks proposed and failed tool calls', () => {
+    const trace = createTraceRecorder('some-model', () => 0);
+    trace.toolCall('create_task', { title: 'Write tests' }, JSON.stringify({ success: true, proposed: true }), 5, true);
+    trace.toolCall('delete_task', { id: 'x' }, JSON.stringify({ success: false, error: 'Task not found' }), 8);
+
+    const { trace: finished } = trace.finish();
+
+    expect(finished.entries).toMatchObject([
+      { kind: 'tool', tool: 'create_task', success: true, proposed: true },
+      { kind: 'tool', tool: 'delete_task', success: false },
+    ]);
+    expect(finished.entries[1]).not.toHaveProperty('proposed');
+    expect(finished.totals).toMatchObject({ toolCalls: 2, failedToolCalls: 1, costUsd: 0 });
+  });
+
+  it('keeps the trace small but counts everything in the totals', () => {
+    const trace = createTraceRecorder('some-model', () => 0);
+    const longOutput = JSON.stringify({ success: true, tasks: 'x'.repeat(2 * MAX_TRACE_TEXT_LENGTH) });
+    for (let i = 0; i < MAX_TRACE_ENTRIES + 5; i++) {
+      trace.toolCall('get_tasks', {}, longOutput, 1);
+    }
+
+    const { trace: finished } = trace.finish();
+
+    expect(finished.entries).toHaveLength(MAX_TRACE_ENTRIES);
+    expect(finished.omitted).toBe(5);
+    expect(finished.totals.toolCalls).toBe(MAX_TRACE_ENTRIES + 5);
+    const [first] = finished.entries;
+    expect(first.kind === 'tool' && first.output.length).toBe(MAX_TRACE_TEXT_LENGTH);
+  });
+});
+
+describe('parseAgentTrace', () => {
+  it('reads traces stored as AWSJSON and rejects anything else', () => {
+    const { trace } = createTraceRecorder('some-model', () => 0).finish();
+
+    expect(parseAgentTrace(trace)).toEqual(trace);
+    expect(parseAgentTrace(JSON.stringify(JSON.stringify(trace)))).toEqual(trace);
+    expect(parseAgentTrace('not json')).toBeNull();
+    expect(parseAgentTrace({ modelId: 'some-model' })).toBeNull();
+    expect(parseAgentTrace(null)).toBeNull();
+  });
+});
@@ -0,0 +1,256 @@
+import { describe, it, expect } from 'vitest';
+import { LocalDynamoDB } from '../../shared/__tests__/local-dynamodb';
+import { buildNextOccurrence, buildTaskChanges, completeTask, updateTask } from '../tools/update-task';
+import type { TenantScope } from '../tools/tenant-scope';
+
+const TABLE = 'TodoItem';
+const NOW = new Date('2026-03-05T08:00:00.000Z');
+
+const scope: TenantScope = {
+  userId: 'alice',
+  groupIds: ['group-1'],
+  lists: [
+    { id: 'list-1', name: 'Mine', owner: 'alice', canEdit: true },
+    { id: 'shared', name: 'Team', owner: 'bob', groupId: 'group-1', canEdit: false },
+  ],
+};
+
+function seed() {
+  const db = new LocalDynamoDB();
+  db.seed(TABLE, [
+    {
+      id: 'task-1',
+      listId: 'list-1',
+      owner: 'alice',
+      title: 'Write report',
+      status: 'PENDING',
+      dueDate: '2026-03-06T09:00:00.000Z',
+      reminders: [{ offsetMinutes: 60, sentAt: '2026-03-05T07:00:00.000Z' }],
+    },
+    { id: 'recurring', listId: 'list-1', owner: 'alice', title: 'Standup', status: 'PENDING', recurrenceRule: 'FREQ=DAILY' },
+    { id: 'deleted', listId: 'list-1', owner: 'alice', title: 'Gone', status: 'PENDING', deletedAt: '2026-03-01T00:00:00.000Z' },
+    { id: 'viewer-only', listId: 'shared', owner: 'bob', title: 'Team task', status: 'PENDING' },
+    // Draft → Review → Write report
+    { id: 'review', listId: 'list-1', owner: 'alice', title: 'Review', status: 'PENDING', blockedBy: ['task-1'] },
+    { id: 'draft', listId: 'list-1', owner: 'alice', title: 'Draft', status: 'PENDING', blockedBy: ['review'] },
+    { id: 'foreign', listId: 'other', owner: 'mallory', title: 'Not yours', status: 'PENDING' },
+  ]);
+  return db;
+}
+
+describe('buildTaskChanges', () => {
+  const current = { id: 'task-1', status: 'PENDING', dueDate: '2026-03-06T09:00:00.000Z' };
+
+  it('keeps only updatable fields and reports the rest', () => {
+    const { fields, unknownFields } = buildTaskChanges(
+      { taskId: 'task-1', priority: 'HIGH', listId: 'elsewhere', owner: 'mallory' },
+      current,
+      NOW,
+    );
+    expect(fields).toEqual({ priority: 'HIGH' });
+    expect(unknownFields).toEqual(['listId', 'owner']);
+  });
+
+  it('validates like create_task', () => {
+    expect(buildTaskChanges({ status: 'DONE' }, current, NOW).error).toContain('Invalid status');
+    expect(buildTaskChanges({ priority: 'CRITICAL' }, current, NOW).error).toContain('Invalid priority');
+    expect(buildTaskChanges({ dueDate: '2026-03-09' }, current, NOW).error).toContain('Invalid dueDate format');
+    expect(buildTaskChanges({ reminderOffsets: [-5] }, current, NOW).error).toContain('Invalid reminderOffsets');
+    expect(buildTaskChanges({ title: '  ' }, current, NOW).error).toContain('Invalid title');
+  });
+
+  it('rejects an update with nothing to change', () => {
+    expect(buildTaskChanges({ taskId: 'task-1' }, current, NOW).error).toContain('No fields to update');
+  });
+
+  it('clears optional fields passed as null, but never status', () => {
+    expect(buildTaskChanges({ dueDate: null, priority: null }, current, NOW).fields).toEqual({
+      dueDate: null,
+      priority: null,
+    });
+    expect(buildTaskChanges({ status: null } as Record<string, unknown>, current, NOW).error).toContain('cannot be cleared');
+  });
+
+  it('stamps completedAt only when a task becomes complete', () => {
+    expect(buildTaskChanges({ status: 'COMPLETE' }, current, NOW).fields).toEqual({
+      status: 'COMPLETE',
+      completedAt: NOW.toISOString(),
+    });
+    expect(buildTaskChanges({ status: 'COMPLETE' }, { ...current, status: 'COMPLETE' }, NOW).fields).toEqual({
+      status: 'COMPLETE',
+    });
+  });
+
+  it('re-arms existing reminders when the due date moves', () => {
+    const { fields } = buildTaskChanges(
+      { dueDate: '2026-03-09T09:00:00.000Z' },
+      { ...current, reminders: [{ offsetMinutes: 60, sentAt: '2026-03-05T07:00:00.000Z' }] },
+      NOW,
+    );
+    expect(fields!.reminders).toEqual([{ offsetMinutes: 60, sentAt: null }]);
+  });
+
+  it("reads a moved due date in the user's timezone before comparing it", () => {
+    const reminders = [{ offsetMinutes: 60, sentAt: '2026-03-05T07:00:00.000Z' }];
+    // 20:00 in Sydney is the stored due date, so nothing moved and the sent reminder stays sent
+    const same = buildTaskChanges({ dueDate: '2026-03-06T20:00:00' }, { ...current, reminders }, NOW, 'Australia/Sydney');
+    const moved = buildTaskChanges({ dueDate: '2026-03-06T09:00:00' }, { ...current, reminders }, NOW, 'Australia/Sydney');
+
+    expect(same.fields!.dueDate).toBe('2026-03-06T09:00:00.000Z');
+    expect(same.fields!.reminders).toBeUndefined();
+    expect(moved.fields!.dueDate).toBe('2026-03-05T22:00:00.000Z');
+    expect(moved.fields!.reminders).toEqual([{ offsetMinutes: 60, sentAt: null }]);
+  });
+
+  it('replaces and clears prerequisites', () => {
+    expect(buildTaskChanges({ blockedBy: ['review'] }, current, NOW).fields).toEqual({ blockedBy: ['review'] });
+    expect(buildTaskChanges({ blockedBy: null }, current, NOW).fields).toEqual({ blockedBy: null });
+    expect(buildTaskChanges({ blockedBy: 'review' } as Record<string, unknown>, current, NOW).error).toContain(
+      'Invalid blockedBy',
+    );
+  });
+
+  it('replaces reminders from offsets', () => {
+    const { fields } = buildTaskChanges({ reminderOffsets: [15, 1440, 15] }, current, NOW);
+    expect(fields!.reminders).toEqual([
+      { offsetMinutes: 1440, sentAt: null },
+      { offsetMinutes: 15, sentAt: null },
+    ]);
+  });
+});
+
+describe('updateTask', () => {
+  it('writes the changes and returns the updated task', async () => {
+    const db = seed();
+    const result = await updateTask({ taskId: 'task-1', priority: 'HIGH' }, db.asDocClient(), TABLE, scope);
+    expect(result.success).toBe(true);
+    expect(result.item).toMatchObject({ id: 'task-1', priority: 'HIGH', title: 'Write report' });
+    expect(db.get(TABLE, 'task-1')!.priority).toBe('HIGH');
+  });
+
+  it('treats deleted and out-of-scope tasks as not found', async () => {
+    const db = seed();
+    for (const taskId of ['deleted', 'foreign', 'missing']) {
+      const result = await updateTask({ taskId, title: 'Hijacked' }, db.asDocClient(), TABLE, scope);
+      expect(result).toEqual({ success: false, error: `Task not found: ${taskId}` });
+    }
+    expect(db.get(TABLE, 'foreign')!.title).toBe('Not yours');
+  });
+
+  it('sets prerequisites that keep the dependencies acyclic', async () => {
+    const db = seed();
+    const result = await updateTask({ taskId: 'recurring', blockedBy: ['draft'] }, db.asDocClient(), TABLE, scope);
+    expect(result.success).toBe(true);
+    expect(db.get(TABLE, 'recurring')!.blockedBy).toEqual(['draft']);
+  });
+
+  it('refuses direct and transitive dependency cycles', async () => {
+    const db = seed();
+    const direct = await updateTask({ taskId: 'task-1', blockedBy: ['review'] }, db.asDocClient(), TABLE, scope);
+    const transitive = await updateTask({ taskId: 'task-1', blockedBy: ['draft'] }, db.asDocClient(), TABLE, scope);
+
+    expect(direct).toEqual({ success: false, error: 'Dependency cycle detected (Write report → Review → Write report)' });
+    expect(transitive).toEqual({
+      success: false,
+      error: 'Dependency cycle detected (Write report → Draft → Review → Write report)',
+    });
+    expect(db.get(TABLE, 'task-1')!.blockedBy).toBeUndefined();
+  });
+
+  it('refuses prerequisites that are the task itself, deleted or in another list', async () => {
+    const db = seed();
+    const update = (blockedBy: string[]) => updateTask({ taskId: 'task-1', blockedBy }, db.asDocClient(), TABLE, scope);
+
+    expect((await update(['task-1'])).error).toBe('A task cannot depend on itself');
+    expect((await update(['deleted'])).error).toBe('Prerequisite task not found in this list: deleted');
+    expect((await update(['foreign'])).error).toBe('Prerequisite task not found in this list: foreign');
+  });
+
+  it('refuses tasks in lists the user can only view', async () => {
+    const db = seed();
+    const result = await updateTask({ taskId: 'viewer-only', title: 'Edited' }, db.asDocClient(), TABLE, scope);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('does not allow editing');
+  });
+});
+
+describe('buildNextOccurrence', () => {
+  it('copies the task to the next date, converting legacy reminder minutes', () => {
+    const task = {
+      id: 'standup',
+      listId: 'list-1',
+      owner: 'alice',
+      title: 'Standup',
+      status: 'COMPLETE',
+      recurrenceRule: 'FREQ=DAILY',
+      dueDate: '2026-03-05T09:00:00.000Z',
+      completedAt: '2026-03-05T08:00:00.000Z',
+      reminderMinutes: 30,
+      nextOccurrenceId: null,
+    };
+
+    expect(buildNextOccurrence(task, NOW, 'UTC')).toMatchObject({
+      listId: 'list-1',
+      owner: 'alice',
+      status: 'PENDING',
+      dueDate: '2026-03-06T09:00:00.000Z',
+      reminders: [{ offsetMinutes: 30, sentAt: null }],
+    });
+  });
+
+  it('returns null unless the task recurs and has no next occurrence yet', () => {
+    expect(buildNextOccurrence({ id: 'once', status: 'COMPLETE' }, NOW)).toBeNull();
+    expect(buildNextOccurrence({ id: 'done', recurrenceRule: 'FREQ=DAILY', nextOccurrenceId: 'next' }, NOW)).toBeNull();
+    expect(buildNextOccurrence({ id: 'bad', recurrenceRule: 'EVERY SO OFTEN' }, NOW)).toBeNull();
+  });
+});
+
+describe('completeTask', () => {
+  it('marks the task complete', async () => {
+    const db = seed();
+    const result = await completeTask({ taskId: 'task-1' }, db.asDocClient(), TABLE, scope);
+    expect(result.success).toBe(true);
+    expect(db.get(TABLE, 'task-1')).toMatchObject({ status: 'COMPLETE', completedAt: expect.any(String) });
+  });
+
+  it('schedules the next occurrence of a recurring task', async () => {
+    const db = seed();
+    db.seed(TABLE, [
+      {
+        id: 'recurring',
+        listId: 'list-1',
+        owner: 'alice',
+        title: 'Standup',
+        status: 'PENDING',
+        recurrenceRule: 'FREQ=DAILY',
+        dueDate: '2099-03-05T09:00:00.000Z',
+        reminders: [{ offsetMinutes: 15, sentAt: '2099-03-05T08:45:00.000Z' }],
+      },
+    ]);
+
+    const result = await completeTask({ taskId: 'recurring' }, db.asDocClient(), TABLE, scope);
+
+    expect(result.success).toBe(true);
+    const next = db.get(TABLE, result.nextOccurrence!.id as string);
+    expect(next).toMatchObject({
+      listId: 'list-1',
+      owner: 'alice',
+      title: 'Standup',
+      status: 'PENDING',
+      recurrenceRule: 'FREQ=DAILY',
+      dueDate: '2099-03-06T09:00:00.000Z',
+      reminders: [{ offsetMinutes: 15, sentAt: null }],
+    });
+    expect(db.get(TABLE, 'recurring')).toMatchObject({ status: 'COMPLETE', nextOccurrenceId: next!.id });
+  });
+
+  it('schedules the next occurrence only once', async () => {
+    const db = seed();
+    await completeTask({ taskId: 'recurring' }, db.asDocClient(), TABLE, scope);
+    const again = await completeTask({ taskId: 'recurring' }, db.asDocClient(), TABLE, scope);
+
+    expect(again).toMatchObject({ success: true });
+    expect(again.nextOccurrence).toBeUndefined();
+    expect([...db.table(TABLE).values()].filter((item) => item.title === 'Standup')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { LocalDynamoDB } from '../../shared/__tests__/local-dynamodb';
+import type { AgentTrace } from '../../shared/agent-trace';
+import { recordMonthlyUsage, usageId, usageMonth } from '../usage';
+
+function traceWith(inputTokens: number, outputTokens: number, toolCalls: number, costUsd: number): AgentTrace {
+  return {
+    modelId: 'some-model',
+    durationMs: 1_000,
+    entries: [],
+    omitted: 0,
+    totals: { delegations: 1, toolCalls, failedToolCalls: 0, modelCalls: 2, inputTokens, outputTokens, costUsd },
+  };
+}
+
+describe('usageMonth', () => {
+  it('uses the UTC calendar month', () => {
+    expect(usageMonth(new Date('2026-03-31T23:30:00.000Z'))).toBe('2026-03');
+    expect(usageMonth(new Date('2026-04-01T00:00:00.000Z'))).toBe('2026-04');
+  });
+});
+
+describe('recordMonthlyUsage', () => {
+  it("adds each run to the user's totals for the month", async () => {
+    const db = new LocalDynamoDB();
+    const march = new Date('2026-03-05T08:00:00.000Z');
+    const later = new Date('2026-03-20T08:00:00.000Z');
+
+    await recordMonthlyUsage(db.asDocClient(), 'AgentUsage', 'alice', traceWith(1_000, 100, 3, 0.0045), march);
+    await recordMonthlyUsage(db.asDocClient(), 'AgentUsage', 'alice', traceWith(500, 50, 1, 0.00225), later);
+
+    expect(db.get('AgentUsage', usageId('alice', '2026-03'))).toEqual({
+      id: 'alice:2026-03',
+      __typename: 'AgentUsage',
+      userId: 'alice',
+      month: '2026-03',
+      requests: 2,
+      inputTokens: 1_500,
+      outputTokens: 150,
+      toolCalls: 4,
+      costUsd: expect.closeTo(0.00675, 10),
+      createdAt: march.toISOString(),
+      updatedAt: later.toISOString(),
+    });
+  });
+
+  it('keeps months and users apart', async () => {
+    const db = new LocalDynamoDB();
+
+    await recordMonthlyUsage(db.asDocClient(), 'AgentUsage', 'alice', traceWith(10, 1, 0, 0), new Date('2026-03-05T08:00:00.000Z'));
+    await recordMonthlyUsage(db.asDocClient(), 'AgentUsage', 'alice', traceWith(20, 2, 0, 0), new Date('2026-04-05T08:00:00.000Z'));
+    await recordMonthlyUsage(db.asDocClient(), 'AgentUsage', 'bob', traceWith(30, 3, 0, 0), new Date('2026-04-05T08:00:00.000Z'));
+
+    expect(db.get('AgentUsage', 'alice:2026-03')).toMatchObject({ requests: 1, inputTokens: 10 });
+    expect(db.get('AgentUsage', 'alice:2026-04')).toMatchObject({ requests: 1, inputTokens: 20 });
+    expect(db.get('AgentUsage', 'bob:2026-04')).toMatchObject({ requests: 1, inputTokens: 30 });
+  });
+
+  it('does nothing without a table', async () => {
+    const db = new LocalDynamoDB();
+    await recordMonthlyUsage(db.asDocClient(), '', 'alice', traceWith(10, 1, 0, 0));
+
+    expect(db.commands).toEqual([]);
+  });
+});
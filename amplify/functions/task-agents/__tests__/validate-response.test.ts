@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { buildRepairPrompt, invokeWithRepair, validateAgentResponse } from '../validate-response';
+
+const recommendation = '{"recommendedTaskId":"abc","taskName":"Write API","reasoning":"Due today"}';
+
+describe('validateAgentResponse', () => {
+  it('strips code fences and returns the canonical shape for the queryType', () => {
+    expect(validateAgentResponse('```json\n' + recommendation + '\n```', 'recommendTask')).toEqual({
+      success: true,
+      data: { taskId: 'abc', title: 'Write API', reasoning: 'Due today', alternatives: [] },
+    });
+  });
+
+  it('reports schema errors with the raw answer', () => {
+    const result = validateAgentResponse('{"taskName":"Write API"}', 'recommendTask');
+
+    expect(result.success).toBe(false);
+    expect(result.validationErrors).toEqual(['recommendedTaskId: is required', 'reasoning: is required']);
+    expect(result.error).toContain('recommendTask schema');
+    expect(result.rawResponse).toBe('{"taskName":"Write API"}');
+  });
+
+  it('only needs JSON when the queryType has no schema', () => {
+    expect(validateAgentResponse('{"anything":1}', 'freeform')).toEqual({ success: true, data: { anything: 1 } });
+    expect(validateAgentResponse('not json').success).toBe(false);
+  });
+});
+
+describe('buildRepairPrompt', () => {
+  it('repeats the request with the errors, the rejected answer and the expected fields', () => {
+    const rejected = validateAgentResponse('{"taskName":"Write API"}', 'recommendTask');
+    const prompt = buildRepairPrompt('queryType: recommendTask', rejected, 'recommendTask');
+
+    expect(prompt.startsWith('queryType: recommendTask\n')).toBe(true);
+    expect(prompt).toContain('- recommendedTaskId: is required');
+    expect(prompt).toContain('{"taskName":"Write API"}');
+    expect(prompt).toContain('Expected fields: recommendedTaskId (string)');
+  });
+});
+
+describe('invokeWithRepair', () => {
+  const validate = (raw: string) => validateAgentResponse(raw, 'recommendTask');
+
+  it('re-prompts with the validation errors until the answer is usable', async () => {
+    const prompts: string[] = [];
+    const answers = ['Sure! Here it is', '{"taskName":"Write API"}', recommendation];
+    const repairs: number[] = [];
+
+    const result = await invokeWithRepair(
+      async (prompt) => {
+        prompts.push(prompt);
+        return answers[prompts.length - 1];
+      },
+      'queryType: recommendTask',
+      validate,
+      'recommendTask',
+      { onRepair: (attempt) => void repairs.push(attempt) },
+    );
+
+    expect(result.success).toBe(true);
+    expect(prompts).toHaveLength(3);
+    expect(prompts[2]).toContain('- recommendedTaskId: is required');
+    expect(repairs).toEqual([1, 2]);
+  });
+
+  it('returns the last failure once the attempts run out', async () => {
+    let calls = 0;
+    const result = await invokeWithRepair(
+      async () => {
+        calls++;
+        return 'still not json';
+      },
+      'queryType: recommendTask',
+      validate,
+      'recommendTask',
+      { maxAttempts: 1 },
+    );
+
+    expect(result.success).toBe(false);
+    expect(calls).toBe(2);
+  });
+
+  it('does not re-prompt once told to stop', async () => {
+    let calls = 0;
+    const result = await invokeWithRepair(
+      async () => {
+        calls++;
+        return 'not json';
+      },
+      'queryType: recommendTask',
+      validate,
+      'recommendTask',
+      { shouldStop: async () => true },
+    );
+
+    expect(result.success).toBe(false);
+    expect(calls).toBe(1);
+  });
+});
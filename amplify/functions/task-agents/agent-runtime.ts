@@ -0,0 +1,440 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { createOrchestrator } from '@serverless-dna/sop-agents';
+import { FunctionTool, type AgentStreamEvent } from '@strands-agents/sdk';
+import { writeFileSync, mkdirSync, existsSync } from 'fs';
+import { createHash } from 'crypto';
+import { runFreshOrchestrator, type CreateOrchestrator } from './orchestrators.js';
+import { invokeWithRepair, type AgentResponse, type RepairOptions } from './validate-response.js';
+import { allSops } from './sops-bundle.js';
+import { createTask } from './tools/create-task.js';
+import { getTasks } from './tools/get-tasks.js';
+import { getLists, type GetListsInput } from './tools/get-lists.js';
+import { createTasks, type CreateTasksInput } from './tools/create-tasks.js';
+import { updateTask, completeTask, type UpdateTaskInput } from './tools/update-task.js';
+import { deleteTask } from './tools/delete-task.js';
+import { moveTask, type MoveTaskInput } from './tools/move-task.js';
+import { WRITE_TOOLS, type ProposalLog, type WriteTool } from './tools/proposals.js';
+import { toolCallKey } from './tools/idempotency.js';
+import type { TenantScope, TenantTables } from './tools/tenant-scope.js';
+import type { LoadedPlaybook, PlaybookTables } from './playbooks.js';
+import type { AgentToolName } from '../shared/playbooks.js';
+import { AGENT_MODELS, DEFAULT_MODEL_TIER, type AgentModelUsage } from '../shared/agent-models.js';
+import { loadModelOverride, resolveModel, withoutModelLine, type ModelRoute } from './model-routing.js';
+import type { TraceRecorder } from './trace.js';
+import { recordMonthlyUsage } from './usage.js';
+import type { QuotaTables } from './quotas.js';
+import { prepareSessionTurn, saveSessionTurn, type SessionTurn } from './sessions.js';
+import type { AgentTrace } from '../shared/agent-trace.js';
+
+// The agent runtime shared by every transport (AppSync resolver, DynamoDB stream job,
+// streaming HTTP). Tools and SOPs are registered here once and reused while the Lambda stays
+// warm; the orchestrator is built for each request (see orchestrators.ts). Per-request state
+// (tenant scope, dry run, cancellation) is passed with each invocation rather than captured by
+// the tools. Each request runs on the model routed for it, and requests that bring user
+// playbooks get an orchestrator built with that set of SOPs. Daily plans, breakdowns and
+// recommendations are kept as sessions the user can follow up on (see sessions.ts).
+
+const logger = new Logger({ serviceName: 'task-agents' });
+
+const SOPS_DIR = '/tmp/sops';
+// Each run's trace records its hand-overs and tool calls, so the orchestrator's own logs are
+// kept to warnings unless a deployment asks for more
+const ORCHESTRATOR_LOG_LEVEL = process.env.ORCHESTRATOR_LOG_LEVEL ?? 'warn';
+
+const ddbClient = new DynamoDBClient({});
+export const docClient = DynamoDBDocumentClient.from(ddbClient);
+
+export const todoItemTable = process.env.TODOITEM_TABLE_NAME ?? '';
+export const userSettingsTable = process.env.USERSETTINGS_TABLE_NAME ?? '';
+export const agentUsageTable = process.env.AGENTUSAGE_TABLE_NAME ?? '';
+export const agentSessionTable = process.env.AGENTSESSION_TABLE_NAME ?? '';
+export const tenantTables: TenantTables = {
+  todoListTable: process.env.TODOLIST_TABLE_NAME ?? '',
+  listGroupTable: process.env.LISTGROUP_TABLE_NAME ?? '',
+  groupMembershipTable: process.env.GROUPMEMBERSHIP_TABLE_NAME ?? '',
+  userSettingsTable,
+};
+export const playbookTables: PlaybookTables = {
+  playbookTable: process.env.PLAYBOOK_TABLE_NAME ?? '',
+  listGroupTable: tenantTables.listGroupTable,
+};
+export const quotaTables: QuotaTables = {
+  agentJobTable: process.env.AGENTJOB_TABLE_NAME ?? '',
+  agentUsageTable,
+  listGroupTable: tenantTables.listGroupTable,
+};
+
+// What a write tool returns while the agent is only correcting the format of its answer
+const REPAIR_TOOL_RESULT = JSON.stringify({
+  success: false,
+  error: 'Changes are not allowed while correcting your answer. Reply with the corrected JSON only.',
+});
+
+export interface AgentInvocation {
+  /** The lists the requesting user can reach; every tool is limited to them. */
+  scope: TenantScope;
+  /** In a dry run, write tools record a changeset for the user to review instead of writing. */
+  proposals?: ProposalLog | null;
+  /** Runs before every tool call; a returned string is given to the agent as the tool's result instead. */
+  beforeTool?: (tool: string) => Promise<string | null>;
+  /** Runs with the result of every tool call that ran. */
+  afterTool?: (tool: string, result: string) => void;
+  /** Receives the orchestrator's stream events (model text, tool calls) as they happen. */
+  onEvent?: (event: AgentStreamEvent) => void;
+  /** Refuse write tools, e.g. while the agent corrects an answer that failed validation. */
+  readOnly?: boolean;
+  /** The user's playbooks, loaded as SOPs next to the built-in ones. */
+  playbooks?: LoadedPlaybook[];
+  /** The Bedrock model the request runs on (see routeModel); defaults to the standard tier. */
+  model?: string;
+  /** Records the run's hand-overs, tool calls and model usage. */
+  trace?: TraceRecorder;
+  /** Keys the run's writes (e.g. by job ID), so repeating a tool call does not create its tasks twice. */
+  idempotencyKey?: string;
+}
+
+// Lambda runs one request at a time per instance, so the invocation in flight is module state
+let current: AgentInvocation | null = null;
+
+function isWriteTool(tool: string): tool is WriteTool {
+  return (WRITE_TOOLS as readonly string[]).includes(tool);
+}
+
+async function runTool(
+  tool: string,
+  input: unknown,
+  run: (scope: TenantScope, idempotencyKey?: string) => unknown,
+): Promise<string> {
+  const invocation = current;
+  if (!invocation) {
+    throw new Error(`${tool} was called outside an agent invocation`);
+  }
+
+  const startedAt = Date.now();
+  const traced = (result: string, proposed = false) => {
+    invocation.trace?.toolCall(tool, input, result, Date.now() - startedAt, proposed);
+    return result;
+  };
+
+  if (invocation.readOnly && isWriteTool(tool)) return traced(REPAIR_TOOL_RESULT);
+
+  const skipped = await invocation.beforeTool?.(tool);
+  if (skipped) return traced(skipped);
+
+  // Writes are keyed by the call, so repeating a call finds its tasks already created
+  const key = invocation.idempotencyKey && isWriteTool(tool) ? toolCallKey(invocation.idempotencyKey, tool, input) : undefined;
+  const proposed = !!invocation.proposals && isWriteTool(tool);
+  const result =
+    invocation.proposals && isWriteTool(tool)
+      ? await invocation.proposals.record(tool, input)
+      : JSON.stringify(await run(invocation.scope, key));
+  invocation.afterTool?.(tool, result);
+  return traced(result, proposed);
+}
+
+// Register new tools here; the SOPs list the ones each specialist may use. Playbooks may list
+// any of them, so new tools are added to AGENT_TOOL_NAMES too
+const tools = {
+  create_task: new FunctionTool({
+    name: 'create_task',
+    description: 'Create a new todo item in a specified list',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        title: { type: 'string', description: 'Task title (required)' },
+        listId: { type: 'string', description: 'ID of the list to add the task to (required)' },
+        description: { type: 'string', description: 'Task description' },
+        status: { type: 'string', enum: ['PENDING', 'IN_PROGRESS', 'COMPLETE'], description: 'Task status' },
+        priority: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH', 'URGENT'], description: 'Task priority' },
+        effortHours: { type: 'number', description: 'Estimated effort in hours' },
+        dueDate: { type: 'string', description: "Due date in ISO 8601 format with a time; without an offset it is the user's local time" },
+        tags: { type: 'array', items: { type: 'string' }, description: 'Tags for the task' },
+        reminderOffsets: { type: 'array', items: { type: 'number' }, description: 'Minutes before due date to send reminders (e.g. [1440, 60] for a day and an hour before)' },
+        parentId: { type: 'string', description: 'ID of an existing task to create this task as a subtask of' },
+      },
+      required: ['title', 'listId'],
+    },
+    callback: (input: unknown) => runTool('create_task', input, (scope, key) => createTask(input as Record<string, unknown>, docClient, todoItemTable, scope, key)),
+  }),
+  get_tasks: new FunctionTool({
+    name: 'get_tasks',
+    description: 'Retrieve and filter todo items by list, status, assignee, or due date. Each item includes isBlocked and openBlockers (IDs of incomplete prerequisite tasks). Results are paged: when nextCursor is returned, call again with it to get more',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        listId: { type: 'string', description: 'Filter by list ID' },
+        status: { type: 'string', enum: ['PENDING', 'IN_PROGRESS', 'COMPLETE'], description: 'Filter by status' },
+        dueDateBefore: { type: 'string', description: "Filter tasks due before this ISO 8601 date, in the user's timezone" },
+        dueDateAfter: { type: 'string', description: "Filter tasks due after this ISO 8601 date, in the user's timezone" },
+        excludeBlocked: { type: 'boolean', description: 'Omit tasks that are blocked by incomplete prerequisites' },
+        assigneeId: { type: 'string', description: 'Only return tasks assigned to this user ID' },
+        limit: { type: 'number', description: 'Maximum number of tasks to return (default 50, max 100)' },
+        cursor: { type: 'string', description: 'nextCursor from a previous get_tasks call with the same filters, to fetch the next page' },
+      },
+    },
+    callback: (input: unknown) => runTool('get_tasks', input, (scope) => getTasks(input as Record<string, unknown>, docClient, todoItemTable, scope)),
+  }),
+  get_lists: new FunctionTool({
+    name: 'get_lists',
+    description: 'Retrieve the todo lists the user owns or that are shared with their groups. canEdit is false where their group role only allows viewing. Results are paged: when nextCursor is returned, call again with it to get more',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', description: 'Maximum number of lists to return (default 50, max 100)' },
+        cursor: { type: 'string', description: 'nextCursor from a previous get_lists call, to fetch the next page' },
+      },
+    },
+    callback: (input: unknown) => runTool('get_lists', input, (scope) => getLists(input as GetListsInput, scope)),
+  }),
+  create_tasks: new FunctionTool({
+    name: 'create_tasks',
+    description: 'Create multiple todo items in a single batch call',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        listId: { type: 'string', description: 'ID of the list to add tasks to (required)' },
+        parentId: { type: 'string', description: 'ID of an existing task to nest all created tasks under' },
+        tasks: {
+          type: 'array',
+          description: 'Array of task objects to create (required)',
+          items: {
+            type: 'object',
+            properties: {
+              title: { type: 'string', description: 'Task title (required)' },
+              description: { type: 'string', description: 'Task description' },
+              status: { type: 'string', enum: ['PENDING', 'IN_PROGRESS', 'COMPLETE'], description: 'Task status' },
+              priority: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH', 'URGENT'], description: 'Task priority' },
+              effortHours: { type: 'number', description: 'Estimated effort in hours' },
+              dueDate: { type: 'string', description: "Due date in ISO 8601 format with a time; without an offset it is the user's local time" },
+              tags: { type: 'array', items: { type: 'string' }, description: 'Tags for the task' },
+              reminderOffsets: { type: 'array', items: { type: 'number' }, description: 'Minutes before due date to send reminders (e.g. [1440, 60] for a day and an hour before)' },
+              subtasks: {
+                type: 'array',
+                description: 'Nested subtasks of this task (same shape as a task, up to 3 levels deep)',
+                items: { type: 'object' },
+              },
+            },
+            required: ['title'],
+          },
+        },
+      },
+      required: ['listId', 'tasks'],
+    },
+    callback: (input: unknown) => runTool('create_tasks', input, (scope, key) => createTasks(input as CreateTasksInput, docClient, todoItemTable, scope, key)),
+  }),
+  update_task: new FunctionTool({
+    name: 'update_task',
+    description: 'Change fields of an existing task. Pass null to clear description, dueDate, tags, priority, effortHours or blockedBy. Dependency cycles are refused. Use move_task to change its list',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'ID of the task to update (required)' },
+        title: { type: 'string', description: 'New task title' },
+        description: { type: 'string', description: 'New task description' },
+        status: { type: 'string', enum: ['PENDING', 'IN_PROGRESS', 'COMPLETE'], description: 'New task status' },
+        priority: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH', 'URGENT'], description: 'New task priority' },
+        effortHours: { type: 'number', description: 'New estimated effort in hours' },
+        dueDate: { type: 'string', description: "New due date in ISO 8601 format with a time; without an offset it is the user's local time" },
+        tags: { type: 'array', items: { type: 'string' }, description: 'Replacement tags for the task' },
+        reminderOffsets: { type: 'array', items: { type: 'number' }, description: 'Replacement reminders, in minutes before the due date' },
+        blockedBy: { type: 'array', items: { type: 'string' }, description: 'Replacement prerequisites: IDs of tasks in the same list that must be COMPLETE first' },
+      },
+      required: ['taskId'],
+    },
+    callback: (input: unknown) => runTool('update_task', input, (scope) => updateTask(input as UpdateTaskInput, docClient, todoItemTable, scope)),
+  }),
+  complete_task: new FunctionTool({
+    name: 'complete_task',
+    description: 'Mark a task as COMPLETE. Completing a recurring task also creates its next occurrence, which is returned as nextOccurrence',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'ID of the task to complete (required)' },
+      },
+      required: ['taskId'],
+    },
+    callback: (input: unknown) => runTool('complete_task', input, (scope) => completeTask(input as { taskId?: string }, docClient, todoItemTable, scope)),
+  }),
+  delete_task: new FunctionTool({
+    name: 'delete_task',
+    description: 'Delete a task and its subtasks. Deleted tasks are hidden but can be recovered',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'ID of the task to delete (required)' },
+      },
+      required: ['taskId'],
+    },
+    callback: (input: unknown) => runTool('delete_task', input, (scope) => deleteTask(input as { taskId?: string }, docClient, todoItemTable, scope)),
+  }),
+  move_task: new FunctionTool({
+    name: 'move_task',
+    description: 'Move a task, with its subtasks, to another list. The task leaves its parent task, and its assignee is kept only when both lists are shared with the same group',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'ID of the task to move (required)' },
+        listId: { type: 'string', description: 'ID of the list to move the task to (required)' },
+      },
+      required: ['taskId', 'listId'],
+    },
+    callback: (input: unknown) => runTool('move_task', input, (scope) => moveTask(input as MoveTaskInput, docClient, todoItemTable, scope)),
+  }),
+} satisfies Record<AgentToolName, FunctionTool>;
+
+function writeSopsToDisk(directory: string, playbooks: LoadedPlaybook[]) {
+  if (existsSync(directory)) return;
+  mkdirSync(directory, { recursive: true });
+  for (const [filename, content] of Object.entries(allSops)) {
+    writeFileSync(`${directory}/${filename}`, withoutModelLine(content));
+  }
+  for (const playbook of playbooks) {
+    writeFileSync(`${directory}/${playbook.agentName}.md`, playbook.sop);
+  }
+  logger.info('Wrote SOPs to disk', { directory, count: Object.keys(allSops).length + playbooks.length });
+}
+
+function playbookSetKey(playbooks: LoadedPlaybook[]): string {
+  if (playbooks.length === 0) return '';
+  const hash = createHash('sha256');
+  for (const playbook of playbooks) hash.update(playbook.sop).update('\0');
+  return hash.digest('hex').slice(0, 16);
+}
+
+// The SOPs only depend on the playbooks, so each set is written once per Lambda instance and
+// shared by every model
+function sopDirectory(playbooks: LoadedPlaybook[]): string {
+  const playbookKey = playbookSetKey(playbooks);
+  const directory = playbookKey ? `${SOPS_DIR}-${playbookKey}` : SOPS_DIR;
+  writeSopsToDisk(directory, playbooks);
+  return directory;
+}
+
+const buildOrchestrator: CreateOrchestrator = async (config) => {
+  const startTime = Date.now();
+  const created = await createOrchestrator(config);
+  logger.debug('Orchestrator initialized', { model: config.defaultModel, initDurationMs: Date.now() - startTime });
+  return created;
+};
+
+/** The model a user's request of this queryType runs on, with their settings override applied. */
+export async function routeModel(queryType: string | undefined, userId: string): Promise<ModelRoute> {
+  let override: string | null = null;
+  try {
+    override = await loadModelOverride(docClient, userSettingsTable, userId);
+  } catch (error) {
+    logger.warn('Failed to load the model setting, using the routed model', { error });
+  }
+  return resolveModel(queryType, override, allSops);
+}
+
+/**
+ * Finish a run's trace: log its totals and add them to the user's monthly usage. Failing to
+ * record usage never fails the request.
+ */
+export async function finishTrace(
+  trace: TraceRecorder,
+  userId: string,
+  context: Record<string, unknown>,
+): Promise<{ trace: AgentTrace; usage: AgentModelUsage }> {
+  const finished = trace.finish();
+  logger.info('Agent trace', { ...context, modelId: finished.trace.modelId, ...finished.trace.totals });
+  try {
+    await recordMonthlyUsage(docClient, agentUsageTable, userId, finished.trace);
+  } catch (error) {
+    logger.warn('Failed to record agent usage', { ...context, error });
+  }
+  return finished;
+}
+
+/**
+ * Start or continue the request's session (see sessions.ts). Requests of other queryTypes
+ * have none; a follow-up that cannot continue its session throws.
+ */
+export function prepareSession(
+  userId: string,
+  queryType: string | undefined,
+  requestData: Record<string, unknown>,
+): Promise<SessionTurn | null> {
+  return prepareSessionTurn(docClient, agentSessionTable, userId, queryType, requestData);
+}
+
+/**
+ * Save the session turn with the agent's answer and return the session ID for follow-ups.
+ * Failing to save never fails the request; the answer just cannot be followed up.
+ */
+export async function finishSession(
+  turn: SessionTurn | null,
+  result: unknown,
+  context: Record<string, unknown>,
+): Promise<string | undefined> {
+  if (!turn) return undefined;
+  try {
+    return (await saveSessionTurn(docClient, agentSessionTable, turn, result)).id;
+  } catch (error) {
+    logger.warn('Failed to save the agent session', { ...context, sessionId: turn.session.id, error });
+    return undefined;
+  }
+}
+
+/**
+ * Invoke a fresh orchestrator once, with tools bound to this invocation. With `onEvent` or a
+ * trace, the orchestrator is streamed when it supports it; otherwise it is invoked and only
+ * the tool hooks report progress.
+ */
+export async function invokeAgent(prompt: string, invocation: AgentInvocation): Promise<string> {
+  const { onEvent, trace } = invocation;
+  const config = {
+    directory: sopDirectory(invocation.playbooks ?? []),
+    defaultModel: invocation.model ?? AGENT_MODELS[DEFAULT_MODEL_TIER].modelId,
+    logLevel: ORCHESTRATOR_LOG_LEVEL,
+    tools,
+  };
+  current = invocation;
+  try {
+    return await runFreshOrchestrator(
+      buildOrchestrator,
+      config,
+      prompt,
+      onEvent || trace
+        ? (event) => {
+            trace?.record(event);
+            onEvent?.(event);
+          }
+        : undefined,
+    );
+  } finally {
+    current = null;
+  }
+}
+
+/**
+ * Invoke the agent and validate its answer, re-prompting it with the validation errors when
+ * it does not match. Writes are refused during re-prompts so a correction never repeats them.
+ */
+export async function runAgent(
+  prompt: string,
+  invocation: AgentInvocation,
+  validate: (raw: string) => AgentResponse,
+  queryType?: string,
+  options: RepairOptions = {},
+): Promise<AgentResponse> {
+  let repairing = false;
+  return invokeWithRepair(
+    (text) => invokeAgent(text, { ...invocation, readOnly: invocation.readOnly || repairing }),
+    prompt,
+    validate,
+    queryType,
+    {
+      ...options,
+      onRepair: async (attempt, rejected) => {
+        logger.warn('Agent response failed validation, re-prompting', { queryType, attempt, error: rejected.error });
+        invocation.trace?.repair(rejected.error ?? 'The answer did not match the expected format');
+        repairing = true;
+        await options.onRepair?.(attempt, rejected);
+      },
+    },
+  );
+}
@@ -1,104 +1,136 @@
-import { DynamoDBClient, UpdateItemCommand } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { GetCommand } from '@aws-sdk/lib-dynamodb';
 import { Logger } from '@aws-lambda-powertools/logger';
-import { createOrchestrator } from '@serverless-dna/sop-agents';
-import { FunctionTool } from '@strands-agents/sdk';
-import { writeFileSync, mkdirSync, existsSync } from 'fs';
-import { enrichQuery } from './enrich-query.js';
+import { buildPrompt } from './enrich-query.js';
 import { validateAgentResponse } from './validate-response.js';
-import { allSops } from './sops-bundle.js';
-import { createTask } from './tools/create-task.js';
-import { getTasks } from './tools/get-tasks.js';
-import { getLists } from './tools/get-lists.js';
-import { createTasks } from './tools/create-tasks.js';
+import {
+  docClient,
+  finishSession,
+  finishTrace,
+  playbookTables,
+  prepareSession,
+  quotaTables,
+  routeModel,
+  runAgent,
+  tenantTables,
+  todoItemTable,
+} from './agent-runtime.js';
+import { checkAgentQuota } from './quotas.js';
+import { createTraceRecorder, type TraceRecorder } from './trace.js';
+import { loadPlaybooks, preparePlaybookRequest, usesPlaybooks } from './playbooks.js';
+import { loadTenantScope, scopeTimezone } from './tools/tenant-scope.js';
+import {
+  applyAction,
+  buildProposalResult,
+  createProposalLog,
+  isDryRun,
+  parseActions,
+  type AppliedAction,
+} from './tools/proposals.js';
+import {
+  appendProgressStep,
+  isConditionalCheckFailure,
+  JOB_TITLES,
+  jobExpiresAt,
+  jobStatusCondition,
+  sendJobUpdate,
+  specialistLabel,
+  toolLabel,
+  type JobProgressKind,
+  type JobProgressStep,
+  type JobStatus,
+  type JobUpdate,
+} from './job-progress.js';
+import { createAppSyncRequester, sendNotification } from '../shared/notifications.js';
+import { formatQuotaError } from '../shared/agent-quotas.js';
 import type { DynamoDBStreamEvent } from 'aws-lambda';
 
-const KNOWN_QUERY_TYPES = ['breakdownProject', 'analyzeTask', 'planDay', 'recommendTask'] as const;
+// DynamoDB stream transport: runs each new AgentJob through the agent runtime and reports its
+// progress and result back to the job
 
 const logger = new Logger({ serviceName: 'task-agents-async' });
 
-const SOPS_DIR = '/tmp/sops';
-
-const ddbClient = new DynamoDBClient({});
-const docClient = DynamoDBDocumentClient.from(ddbClient);
-
-const todoItemTable = process.env.TODOITEM_TABLE_NAME ?? '';
-const todoListTable = process.env.TODOLIST_TABLE_NAME ?? '';
 const agentJobTable = process.env.AGENTJOB_TABLE_NAME ?? '';
-
-function writeSopsToDisk() {
-  if (existsSync(SOPS_DIR)) return;
-  mkdirSync(SOPS_DIR, { recursive: true });
-  for (const [filename, content] of Object.entries(allSops)) {
-    writeFileSync(`${SOPS_DIR}/${filename}`, content);
-  }
-  logger.info('Wrote SOPs to disk', { count: Object.keys(allSops).length });
-}
-
-function buildSpecialistPrompt(args: Record<string, unknown>, now: Date): string {
-  const timestamp = now.toISOString();
-  const dateOnly = timestamp.split('T')[0];
-  const timeOnly = now.toTimeString().split(' ')[0];
-  const dayOfWeek = now.toLocaleDateString('en-US', { weekday: 'long' });
-
-  const lines = [
-    `Current Date and Time: ${timestamp}`,
-    `Date: ${dateOnly} (${dayOfWeek})`,
-    `Time: ${timeOnly}`,
-  ];
-
-  for (const [key, value] of Object.entries(args)) {
-    if (value !== undefined) {
-      lines.push(`${key}: ${String(value)}`);
-    }
-  }
-
-  return lines.join('\n');
-}
-
+const graphqlEndpoint = process.env.AMPLIFY_GRAPHQL_ENDPOINT ?? '';
+const appSync = graphqlEndpoint ? createAppSyncRequester(graphqlEndpoint, process.env.AWS_REGION ?? '') : null;
+
+// What a tool returns once the owner has cancelled, so the agent winds up without more calls
+const CANCELLED_TOOL_RESULT = JSON.stringify({
+  success: false,
+  error: 'The user cancelled this request. Stop now without calling any more tools and reply briefly.',
+});
+
+// Status changes go through AppSync with the progress so far, so the owner sees them live.
+// Once the agent has run, the job records which model answered, what it used and the trace,
+// and the session the answer can be followed up in.
+// Returns false when the job had already moved on (another delivery claimed or finished it)
 async function updateJobStatus(
   jobId: string,
-  owner: string,
-  status: 'PROCESSING' | 'COMPLETE' | 'FAILED',
+  status: JobStatus,
+  progress: JobProgressStep[],
   resultData?: unknown,
-  error?: string
-) {
-  const now = new Date().toISOString();
-  
-  const updateExpression = status === 'PROCESSING'
-    ? 'SET #status = :status, startedAt = :now'
-    : 'SET #status = :status, completedAt = :now' + 
-      (resultData ? ', resultData = :resultData' : '') +
-      (error ? ', #error = :error' : '');
-
-  const expressionAttributeValues: Record<string, { S: string }> = {
-    ':status': { S: status },
-    ':now': { S: now },
-  };
-
-  if (resultData) {
-    expressionAttributeValues[':resultData'] = { S: JSON.stringify(resultData) };
+  error?: string,
+  run?: Pick<JobUpdate, 'modelId' | 'latencyMs' | 'inputTokens' | 'outputTokens' | 'trace' | 'sessionId'>,
+): Promise<boolean> {
+  if (!appSync) {
+    throw new Error('AMPLIFY_GRAPHQL_ENDPOINT is not configured');
   }
 
-  if (error) {
-    expressionAttributeValues[':error'] = { S: error };
+  // Finished jobs get a TTL so they drop out of the owner's history after the retention period
+  const now = new Date();
+  try {
+    await sendJobUpdate(
+      appSync,
+      jobId,
+      {
+        status,
+        progress,
+        resultData,
+        error,
+        ...run,
+        ...(status === 'PROCESSING'
+          ? { startedAt: now.toISOString() }
+          : { completedAt: now.toISOString(), expiresAt: jobExpiresAt(now) }),
+      },
+      jobStatusCondition(status),
+    );
+  } catch (updateError) {
+    if (!isConditionalCheckFailure(updateError)) throw updateError;
+    logger.warn('Job has already moved on, status not changed', { jobId, status });
+    return false;
   }
-
-  const command = new UpdateItemCommand({
-    TableName: agentJobTable,
-    Key: {
-      id: { S: jobId },
-    },
-    UpdateExpression: updateExpression,
-    ExpressionAttributeNames: {
-      '#status': 'status',
-      ...(error ? { '#error': 'error' } : {}),
-    },
-    ExpressionAttributeValues: expressionAttributeValues,
-  });
-
-  await ddbClient.send(command);
   logger.info('Updated job status', { jobId, status });
+  return true;
+}
+
+// The owner cancels a job by setting cancelRequested on it; read consistently so a cancel lands promptly
+async function isCancelRequested(jobId: string): Promise<boolean> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: agentJobTable,
+      Key: { id: jobId },
+      ProjectionExpression: 'cancelRequested',
+      ConsistentRead: true,
+    }),
+  );
+  return result.Item?.cancelRequested === true;
+}
+
+// Let the owner know the job has finished; a failed notification never fails the job
+async function notifyJobFinished(jobId: string, owner: string, queryType: string, error?: string) {
+  if (!appSync) return;
+
+  const name = JOB_TITLES[queryType] ?? 'Agent request';
+  try {
+    await sendNotification(appSync, {
+      owner,
+      type: 'AGENT_JOB',
+      title: error ? `${name} failed` : `${name} is ready`,
+      body: error,
+      jobId,
+    });
+  } catch (notifyError) {
+    logger.warn('Failed to send job notification', { jobId, error: notifyError });
+  }
 }
 
 // DynamoDB Stream handler - processes new AgentJob records
@@ -116,6 +148,7 @@ export const handler = async (event: DynamoDBStreamEvent) => {
     const owner = newImage.owner?.S;
     const status = newImage.status?.S;
     const queryType = newImage.queryType?.S;
+    const createdAt = newImage.createdAt?.S;
     
     // requestData is stored as a Map (M) in DynamoDB when using Amplify's json type
     let requestData: Record<string, unknown> = {};
@@ -133,6 +166,9 @@ export const handler = async (event: DynamoDBStreamEvent) => {
       requestData = JSON.parse(newImage.requestData.S) as Record<string, unknown>;
     }
 
+    // Streamed runs are recorded as PROCESSING jobs (see streaming-handler.ts) and never run here
+    if (status === 'PROCESSING') continue;
+
     if (!jobId || !owner || status !== 'PENDING' || !queryType) {
       logger.warn('Skipping invalid record', { jobId, owner, status, queryType, requestData });
       continue;
@@ -140,147 +176,177 @@ export const handler = async (event: DynamoDBStreamEvent) => {
 
     logger.info('Processing agent job', { jobId, queryType, owner, requestData });
 
+    // The timeline shown while the job runs; a failed progress update never fails the job
+    let progress: JobProgressStep[] = [];
+    const addStep = (kind: JobProgressKind, label: string) => {
+      progress = appendProgressStep(progress, { kind, label, at: new Date().toISOString() });
+    };
+    const reportStep = async (kind: JobProgressKind, label: string) => {
+      addStep(kind, label);
+      if (!appSync) return;
+      try {
+        await sendJobUpdate(appSync, jobId, { progress });
+      } catch (progressError) {
+        logger.warn('Failed to report job progress', { jobId, error: progressError });
+      }
+    };
+
+    // Checked before each tool call; once cancelled, tools stop doing work and the result is dropped.
+    // A failed check never fails the job, it just carries on until the next one
+    let cancelled = false;
+    const checkCancelled = async () => {
+      if (cancelled) return true;
+      try {
+        cancelled = await isCancelRequested(jobId);
+      } catch (checkError) {
+        logger.warn('Failed to check for cancellation', { jobId, error: checkError });
+      }
+      return cancelled;
+    };
+    // Traces the agent's run once it starts; the trace is finished (and the usage counted) once
+    let trace: TraceRecorder | null = null;
+    const finishRun = async () => {
+      const recorder = trace;
+      if (!recorder) return undefined;
+      trace = null;
+      const finished = await finishTrace(recorder, owner.split('::')[0], { jobId, queryType });
+      return { ...finished.usage, trace: finished.trace };
+    };
+
+    const finishCancelled = async (resultData?: unknown) => {
+      addStep('cancelled', 'Cancelled');
+      await updateJobStatus(jobId, 'CANCELLED', progress, resultData, undefined, await finishRun());
+      logger.info('Job cancelled', { jobId, queryType });
+    };
+
     try {
-      // Update status to PROCESSING
-      await updateJobStatus(jobId, owner, 'PROCESSING');
-
-      // Initialize SOPs and tools
-      writeSopsToDisk();
-
-      const createTaskTool = new FunctionTool({
-        name: 'create_task',
-        description: 'Create a new todo item in a specified list',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            title: { type: 'string', description: 'Task title (required)' },
-            listId: { type: 'string', description: 'ID of the list to add the task to (required)' },
-            description: { type: 'string', description: 'Task description' },
-            status: { type: 'string', enum: ['PENDING', 'IN_PROGRESS', 'COMPLETE'], description: 'Task status' },
-            priority: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH', 'URGENT'], description: 'Task priority' },
-            effortHours: { type: 'number', description: 'Estimated effort in hours' },
-            dueDate: { type: 'string', description: 'Due date in ISO 8601 format' },
-            tags: { type: 'array', items: { type: 'string' }, description: 'Tags for the task' },
-            reminderMinutes: { type: 'number', description: 'Minutes before due date to send reminder' },
-          },
-          required: ['title', 'listId'],
-        },
-        callback: async (input: unknown) => {
-          const result = await createTask(input as Record<string, unknown>, docClient, todoItemTable, owner);
-          return JSON.stringify(result);
-        },
-      });
+      // The owner may have cancelled before the job was picked up
+      if (await checkCancelled()) {
+        await finishCancelled();
+        continue;
+      }
 
-      const getTasksTool = new FunctionTool({
-        name: 'get_tasks',
-        description: 'Retrieve and filter todo items by list, status, or due date',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            listId: { type: 'string', description: 'Filter by list ID' },
-            status: { type: 'string', enum: ['PENDING', 'IN_PROGRESS', 'COMPLETE'], description: 'Filter by status' },
-            dueDateBefore: { type: 'string', description: 'Filter tasks due before this ISO 8601 date' },
-            dueDateAfter: { type: 'string', description: 'Filter tasks due after this ISO 8601 date' },
-          },
-        },
-        callback: async (input: unknown) => {
-          const result = await getTasks(input as Record<string, unknown>, docClient, todoItemTable);
-          return JSON.stringify(result);
-        },
-      });
+      // Claim the job. The stream retries failed batches, so a record can arrive again after
+      // the job was picked up; only the delivery that moves it out of PENDING runs it
+      addStep('started', 'Started');
+      if (!(await updateJobStatus(jobId, 'PROCESSING', progress))) {
+        logger.warn('Skipping job that was already picked up', { jobId, queryType });
+        continue;
+      }
 
-      const getListsTool = new FunctionTool({
-        name: 'get_lists',
-        description: 'Retrieve all available todo lists',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-        },
-        callback: async () => {
-          const result = await getLists(docClient, todoListTable);
-          return JSON.stringify(result);
-        },
+      // Tools only see the lists this user owns or reaches through their groups
+      const scope = await loadTenantScope(docClient, tenantTables, owner.split('::')[0]);
+
+      // startAgentJob checked the quotas; check again counting only the jobs created before
+      // this one, so requests made at the same moment cannot all get through
+      const violation = await checkAgentQuota(docClient, quotaTables, scope, {
+        at: createdAt ? new Date(createdAt) : undefined,
+        jobId,
+        tokens: requestData.actions === undefined,
       });
+      if (violation) {
+        throw new Error(formatQuotaError(violation));
+      }
+
+      // Applying changes the user approved from an earlier dry run needs no agent
+      if (requestData.actions !== undefined) {
+        const actions = parseActions(requestData.actions);
+        if (!actions) {
+          throw new Error('Invalid actions: expected the proposed actions of a dry run');
+        }
+
+        const results: AppliedAction[] = [];
+        for (const action of actions) {
+          if (await checkCancelled()) break;
+          results.push(await applyAction(action, docClient, todoItemTable, scope, jobId));
+        }
+
+        // Keep what was applied before the cancel so the owner can see it
+        if (cancelled) {
+          await finishCancelled({ success: true, data: { results } });
+          continue;
+        }
+
+        addStep('finished', `Applied ${results.filter((result) => result.success).length} of ${results.length} changes`);
+        await updateJobStatus(jobId, 'COMPLETE', progress, { success: true, data: { results } });
+        await notifyJobFinished(jobId, owner, queryType);
+        logger.info('Applied confirmed actions', { jobId, count: results.length });
+        continue;
+      }
+
+      // In a dry run the write tools only record a changeset, which the user reviews before
+      // anything is written. Freeform requests and playbook runs are always dry runs.
+      const dryRun = isDryRun(queryType, requestData);
+      const proposals = dryRun ? createProposalLog(docClient, todoItemTable, scope) : null;
 
-      const createTasksTool = new FunctionTool({
-        name: 'create_tasks',
-        description: 'Create multiple todo items in a single batch call',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            listId: { type: 'string', description: 'ID of the list to add tasks to (required)' },
-            tasks: {
-              type: 'array',
-              description: 'Array of task objects to create (required)',
-              items: {
-                type: 'object',
-                properties: {
-                  title: { type: 'string', description: 'Task title (required)' },
-                  description: { type: 'string', description: 'Task description' },
-                  status: { type: 'string', enum: ['PENDING', 'IN_PROGRESS', 'COMPLETE'], description: 'Task status' },
-                  priority: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH', 'URGENT'], description: 'Task priority' },
-                  effortHours: { type: 'number', description: 'Estimated effort in hours' },
-                  dueDate: { type: 'string', description: 'Due date in ISO 8601 format' },
-                  tags: { type: 'array', items: { type: 'string' }, description: 'Tags for the task' },
-                  reminderMinutes: { type: 'number', description: 'Minutes before due date to send reminder' },
-                },
-                required: ['title'],
-              },
-            },
+      // A follow-up re-runs the session's request with the conversation so far
+      const turn = await prepareSession(scope.userId, queryType, requestData);
+
+      // A playbook run loads the user's playbooks next to the built-in SOPs
+      const { args, playbooks } = preparePlaybookRequest(
+        queryType,
+        { ...(turn?.args ?? requestData), dryRun: undefined },
+        usesPlaybooks(queryType) ? await loadPlaybooks(docClient, playbookTables, scope) : [],
+      );
+
+      // The SOP's model tier, unless the owner chose one in settings
+      const model = await routeModel(queryType, scope.userId);
+      trace = createTraceRecorder(model.modelId);
+      logger.info('Routed job to model', { jobId, ...model });
+
+      // Re-prompt the agent with the validation errors if its answer does not match the
+      // queryType's schema
+      await reportStep('specialist', specialistLabel(queryType));
+      const validated = await runAgent(
+        buildPrompt(queryType, args, new Date(), scopeTimezone(scope)),
+        {
+          scope,
+          proposals,
+          playbooks,
+          model: model.modelId,
+          trace,
+          idempotencyKey: jobId,
+          beforeTool: async (tool) => {
+            if (await checkCancelled()) return CANCELLED_TOOL_RESULT;
+            await reportStep('tool', toolLabel(tool, dryRun));
+            return null;
           },
-          required: ['listId', 'tasks'],
         },
-        callback: async (input: unknown) => {
-          const typedInput = input as { listId: string; tasks: Array<Record<string, unknown>> };
-          const result = await createTasks(typedInput, docClient, todoItemTable, owner);
-          return JSON.stringify(result);
+        (raw) =>
+          proposals ? buildProposalResult(queryType, raw, proposals.actions) : validateAgentResponse(raw, queryType),
+        queryType,
+        {
+          shouldStop: checkCancelled,
+          onRepair: () => reportStep('specialist', 'Asking the agent to correct its answer'),
         },
-      });
-
-      const orchestrator = await createOrchestrator({
-        directory: SOPS_DIR,
-        defaultModel: 'au.anthropic.claude-sonnet-4-5-20250929-v1:0',
-        logLevel: 'debug',
-        tools: {
-          create_task: createTaskTool,
-          create_tasks: createTasksTool,
-          get_tasks: getTasksTool,
-          get_lists: getListsTool,
-        },
-      });
+      );
 
-      const now = new Date();
-      let prompt: string;
-
-      if (queryType && KNOWN_QUERY_TYPES.includes(queryType as (typeof KNOWN_QUERY_TYPES)[number])) {
-        prompt = buildSpecialistPrompt({ ...requestData, queryType }, now);
-        logger.info('Routing to specialist', { queryType });
-      } else if (requestData.query && typeof requestData.query === 'string') {
-        prompt = enrichQuery(requestData.query as string, now);
-        logger.info('Using enriched query', { queryType: 'freeform' });
-      } else {
-        logger.warn('No queryType or query found, using requestData as prompt', { requestData });
-        prompt = buildSpecialistPrompt(requestData, now);
+      if (await checkCancelled()) {
+        await finishCancelled();
+        continue;
       }
 
-      // Invoke orchestrator
-      const result = await orchestrator.invoke(prompt);
-
-      // Validate and store response
-      const validated = validateAgentResponse(String(result));
+      if (!validated.success) {
+        throw new Error(validated.error ?? 'The agent did not return a usable answer');
+      }
 
-      await updateJobStatus(jobId, owner, 'COMPLETE', validated);
+      const sessionId = await finishSession(turn, validated.data, { jobId, queryType });
+      addStep('finished', 'Done');
+      await updateJobStatus(jobId, 'COMPLETE', progress, validated, undefined, { ...(await finishRun()), sessionId });
+      await notifyJobFinished(jobId, owner, queryType);
 
       logger.info('Job completed successfully', { jobId, queryType });
     } catch (error) {
+      if (cancelled) {
+        logger.warn('Cancelled job stopped with an error', { jobId, error });
+        await finishCancelled();
+        continue;
+      }
       logger.error('Job failed', { jobId, error });
-      await updateJobStatus(
-        jobId,
-        owner,
-        'FAILED',
-        undefined,
-        error instanceof Error ? error.message : 'Unknown error'
-      );
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      addStep('failed', 'Failed');
+      await updateJobStatus(jobId, 'FAILED', progress, undefined, message, await finishRun());
+      await notifyJobFinished(jobId, owner, queryType, message);
     }
   }
 };
@@ -1,8 +1,63 @@
-export function enrichQuery(query: string, now: Date): string {
-  const timestamp = now.toISOString();
-  const dateOnly = timestamp.split('T')[0];
-  const timeOnly = now.toTimeString().split(' ')[0];
-  const dayOfWeek = now.toLocaleDateString('en-US', { weekday: 'long' });
+import {
+  DEFAULT_TIMEZONE,
+  formatUtcOffset,
+  formatZonedDate,
+  formatZonedIso,
+  formatZonedTime,
+  timezoneOffsetMinutes,
+  zonedParts,
+} from '../shared/timezones.js';
 
-  return `Current Date and Time: ${timestamp}\nDate: ${dateOnly} (${dayOfWeek})\nTime: ${timeOnly}\nUser Query: ${query}`;
+// The queryTypes routed straight to a specialist (see sops/orchestrator.md)
+export const KNOWN_QUERY_TYPES = ['breakdownProject', 'analyzeTask', 'planDay', 'recommendTask', 'runPlaybook'] as const;
+
+// The clock lines every prompt starts with, in the user's timezone so "today" and "tonight"
+// mean what they mean to the user
+function clockLines(now: Date, timeZone: string): string[] {
+  return [
+    `Current Date and Time: ${formatZonedIso(now, timeZone)}`,
+    `Date: ${formatZonedDate(now, timeZone)} (${zonedParts(now, timeZone).weekday})`,
+    `Time: ${formatZonedTime(now, timeZone)}`,
+    `Timezone: ${timeZone} (UTC${formatUtcOffset(timezoneOffsetMinutes(now, timeZone))})`,
+  ];
+}
+
+export function enrichQuery(query: string, now: Date, timeZone: string = DEFAULT_TIMEZONE): string {
+  return [...clockLines(now, timeZone), `User Query: ${query}`].join('\n');
+}
+
+export function buildSpecialistPrompt(
+  args: Record<string, unknown>,
+  now: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
+): string {
+  const lines = clockLines(now, timeZone);
+
+  for (const [key, value] of Object.entries(args)) {
+    if (value !== undefined) {
+      lines.push(`${key}: ${String(value)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * The orchestrator prompt for a request: known queryTypes go to their specialist with
+ * their arguments, freeform requests send the user's query, and anything else passes its
+ * arguments through as-is. Dates and times are given in the user's timezone.
+ */
+export function buildPrompt(
+  queryType: string | undefined,
+  args: Record<string, unknown>,
+  now: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
+): string {
+  if (queryType && (KNOWN_QUERY_TYPES as readonly string[]).includes(queryType)) {
+    return buildSpecialistPrompt({ ...args, queryType }, now, timeZone);
+  }
+  if (typeof args.query === 'string') {
+    return enrichQuery(args.query, now, timeZone);
+  }
+  return buildSpecialistPrompt(args, now, timeZone);
 }
@@ -0,0 +1,218 @@
+import type { GraphQLRequester } from '../shared/notifications.js';
+import { WRITE_TOOLS } from './tools/proposals.js';
+import type { AgentTrace } from '../shared/agent-trace.js';
+
+// AgentJobs are created and updated through AppSync (not straight in DynamoDB) so the owner's
+// onCreate and onUpdate subscriptions deliver every new job, status change and progress step
+// live. Status changes are conditional on the job's current status: only one delivery of a
+// stream record can claim a PENDING job, and a finished job is never reopened.
+
+export type JobStatus = 'PROCESSING' | 'COMPLETE' | 'FAILED' | 'CANCELLED';
+
+export type JobProgressKind = 'started' | 'specialist' | 'tool' | 'finished' | 'failed' | 'cancelled';
+
+// The queryTypes a job can have, with the name its notification uses
+export const JOB_TITLES: Record<string, string> = {
+  breakdownProject: 'Project breakdown',
+  analyzeTask: 'Task analysis',
+  planDay: 'Daily plan',
+  recommendTask: 'Task recommendation',
+  runPlaybook: 'Playbook run',
+  freeform: 'Assistant request',
+};
+
+// How long a finished job stays in the owner's history before DynamoDB TTL deletes it
+export const JOB_RETENTION_DAYS = 30;
+
+export interface JobProgressStep {
+  kind: JobProgressKind;
+  label: string;
+  at: string;
+  count?: number;
+}
+
+export interface JobUpdate {
+  status?: JobStatus;
+  progress?: JobProgressStep[];
+  resultData?: unknown;
+  error?: string;
+  startedAt?: string;
+  completedAt?: string;
+  expiresAt?: number;
+  // Which model answered and what it used (see AgentModelUsage)
+  modelId?: string;
+  latencyMs?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  // How the agent got there (see shared/agent-trace.ts)
+  trace?: AgentTrace;
+  // The session to send follow-ups in (see sessions.ts)
+  sessionId?: string;
+  // Set through cancelAgentJob; the task-agents function stops at its next check
+  cancelRequested?: boolean;
+}
+
+// Select owner and every field each mutation can set, so owner-filtered subscriptions receive
+// the full record
+export const CREATE_AGENT_JOB_MUTATION = /* GraphQL */ `
+  mutation CreateAgentJob($input: CreateAgentJobInput!) {
+    createAgentJob(input: $input) {
+      id
+      owner
+      queryType
+      status
+      requestData
+      createdAt
+      updatedAt
+    }
+  }
+`;
+
+export const UPDATE_AGENT_JOB_MUTATION = /* GraphQL */ `
+  mutation UpdateAgentJob($input: UpdateAgentJobInput!, $condition: ModelAgentJobConditionInput) {
+    updateAgentJob(input: $input, condition: $condition) {
+      id
+      owner
+      queryType
+      status
+      requestData
+      resultData
+      progress
+      error
+      startedAt
+      completedAt
+      cancelRequested
+      expiresAt
+      modelId
+      latencyMs
+      inputTokens
+      outputTokens
+      trace
+      sessionId
+      createdAt
+      updatedAt
+    }
+  }
+`;
+
+// The specialist the orchestrator routes each queryType to (see sops/orchestrator.md)
+const SPECIALISTS: Record<string, string> = {
+  breakdownProject: 'project breakdown specialist',
+  analyzeTask: 'task analyzer',
+  planDay: 'daily planner',
+  recommendTask: 'task recommender',
+  runPlaybook: 'playbook',
+  freeform: 'task management assistant',
+};
+
+const TOOL_LABELS: Record<string, string> = {
+  get_lists: 'Reading your lists',
+  get_tasks: 'Looking through tasks',
+  create_task: 'Adding a task',
+  create_tasks: 'Adding tasks',
+  update_task: 'Updating a task',
+  complete_task: 'Completing a task',
+  delete_task: 'Deleting a task',
+  move_task: 'Moving a task',
+};
+
+export function specialistLabel(queryType: string): string {
+  return `Handing over to the ${SPECIALISTS[queryType] ?? 'assistant'}`;
+}
+
+/** The timeline label for a tool call; in a dry run writes are only drafted for review. */
+export function toolLabel(tool: string, dryRun: boolean): string {
+  const label = TOOL_LABELS[tool] ?? `Running ${tool}`;
+  return dryRun && (WRITE_TOOLS as readonly string[]).includes(tool) ? `${label} (for your review)` : label;
+}
+
+/** The TTL for a job that finished at `now`, in epoch seconds as DynamoDB expects. */
+export function jobExpiresAt(now: Date): number {
+  return Math.floor(now.getTime() / 1000) + JOB_RETENTION_DAYS * 24 * 60 * 60;
+}
+
+/**
+ * Add a step to the timeline. Repeats of the latest step (e.g. paging through get_tasks)
+ * are folded into it with a count, so a long run stays readable.
+ */
+export function appendProgressStep(steps: JobProgressStep[], step: JobProgressStep): JobProgressStep[] {
+  const last = steps[steps.length - 1];
+  if (last && last.kind === step.kind && last.label === step.label) {
+    return [...steps.slice(0, -1), { ...last, at: step.at, count: (last.count ?? 1) + 1 }];
+  }
+  return [...steps, step];
+}
+
+// The AWSJSON fields of AgentJob that updates write
+const JSON_FIELDS = ['progress', 'resultData', 'trace'];
+
+/** The updateAgentJob input; AWSJSON fields are sent as JSON strings. */
+export function buildJobUpdateInput(jobId: string, update: JobUpdate): Record<string, unknown> {
+  const input: Record<string, unknown> = { id: jobId };
+  for (const [key, value] of Object.entries(update)) {
+    if (value === undefined) continue;
+    input[key] = JSON_FIELDS.includes(key) ? JSON.stringify(value) : value;
+  }
+  return input;
+}
+
+/**
+ * The condition for moving a job to `status`: PROCESSING claims a PENDING job, and a job can
+ * only finish while it is PENDING or PROCESSING.
+ */
+export function jobStatusCondition(status: JobStatus): Record<string, unknown> {
+  if (status === 'PROCESSING') return { status: { eq: 'PENDING' } };
+  return { or: [{ status: { eq: 'PENDING' } }, { status: { eq: 'PROCESSING' } }] };
+}
+
+/**
+ * Why the caller may not cancel a job, or null when they may: only its owner can, and only
+ * while it is PENDING or PROCESSING. Other users' jobs read as not found.
+ */
+export function cancelProblem(
+  job: { owner?: string; status?: string | null } | null | undefined,
+  userId: string,
+): string | null {
+  if (!job || job.owner?.split('::')[0] !== userId) return 'Job not found';
+  if (job.status !== 'PENDING' && job.status !== 'PROCESSING') return 'Job has already finished';
+  return null;
+}
+
+/** Whether an update was refused because its condition did not hold, e.g. the job had already moved on. */
+export function isConditionalCheckFailure(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /conditional request failed|ConditionalCheckFailed/i.test(message);
+}
+
+/**
+ * Create a job for the owner. The DynamoDB stream hands PENDING jobs to the task-agents
+ * function; streamed runs record themselves as PROCESSING jobs, which it leaves alone, so
+ * the quotas count them like any other run.
+ */
+export async function createJob(
+  request: GraphQLRequester,
+  owner: string,
+  queryType: string,
+  requestData: Record<string, unknown>,
+  status: 'PENDING' | 'PROCESSING' = 'PENDING',
+): Promise<string> {
+  const input: Record<string, unknown> = { owner, queryType, status, requestData: JSON.stringify(requestData) };
+  if (status === 'PROCESSING') input.startedAt = new Date().toISOString();
+  const data = (await request(CREATE_AGENT_JOB_MUTATION, { input })) as { createAgentJob?: { id?: string } } | null;
+  const id = data?.createAgentJob?.id;
+  if (!id) throw new Error('AppSync did not return the new job');
+  return id;
+}
+
+/** Update a job; with a condition the update only applies while it holds (see jobStatusCondition). */
+export async function sendJobUpdate(
+  request: GraphQLRequester,
+  jobId: string,
+  update: JobUpdate,
+  condition?: Record<string, unknown>,
+): Promise<void> {
+  await request(UPDATE_AGENT_JOB_MUTATION, {
+    input: buildJobUpdateInput(jobId, update),
+    ...(condition ? { condition } : {}),
+  });
+}
@@ -0,0 +1,111 @@
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import type { AgentStreamEvent } from '@strands-agents/sdk';
+import {
+  AGENT_MODELS,
+  DEFAULT_MODEL_TIER,
+  isAgentModelTier,
+  type AgentModelTier,
+  type AgentModelUsage,
+} from '../shared/agent-models.js';
+import { queryByKey } from './tools/tenant-scope.js';
+
+// Picks the model for a request. The SOP of the specialist a queryType is routed to names a
+// tier in its frontmatter (cheap and fast for task analysis, larger for project breakdowns);
+// a user's `agentModel` setting overrides it for all their requests. The whole request, the
+// orchestrator and its specialists, runs on the chosen model.
+
+// The SOP the orchestrator routes each queryType to (see sops/orchestrator.md). Playbooks
+// cannot choose a model, so playbook runs use the default
+const QUERY_TYPE_SOPS: Record<string, string> = {
+  breakdownProject: 'project-breakdown.md',
+  analyzeTask: 'task-analyzer.md',
+  planDay: 'daily-planner.md',
+  recommendTask: 'task-recommender.md',
+  freeform: 'task-management.md',
+};
+
+export interface ModelRoute {
+  tier: AgentModelTier;
+  modelId: string;
+  source: 'user' | 'sop' | 'default';
+}
+
+const MODEL_LINE = /^model:[ \t]*(.*?)[ \t]*$/m;
+
+function frontmatter(sop: string): string {
+  return sop.replace(/\r\n?/g, '\n').match(/^---\n([\s\S]*?)\n---/)?.[1] ?? '';
+}
+
+/** The model tier an SOP's frontmatter asks for, if it names a known one. */
+export function sopModelTier(sop: string): AgentModelTier | null {
+  const tier = frontmatter(sop).match(MODEL_LINE)?.[1];
+  return isAgentModelTier(tier) ? tier : null;
+}
+
+/**
+ * The SOP without its `model` line. Routing picks one model per request, so the SOPs the
+ * orchestrator is built from leave the choice to it.
+ */
+export function withoutModelLine(sop: string): string {
+  const block = frontmatter(sop);
+  if (!MODEL_LINE.test(block)) return sop;
+  return sop.replace(block, block.replace(new RegExp(`${MODEL_LINE.source}\\n?`, 'm'), ''));
+}
+
+/** The model for a queryType: the user's override, else its SOP's tier, else the default. */
+export function resolveModel(
+  queryType: string | undefined,
+  override: string | null | undefined,
+  sops: Record<string, string>,
+): ModelRoute {
+  if (isAgentModelTier(override)) {
+    return { tier: override, modelId: AGENT_MODELS[override].modelId, source: 'user' };
+  }
+
+  const sop = queryType ? sops[QUERY_TYPE_SOPS[queryType]] : undefined;
+  const tier = sop ? sopModelTier(sop) : null;
+  if (tier) return { tier, modelId: AGENT_MODELS[tier].modelId, source: 'sop' };
+
+  return { tier: DEFAULT_MODEL_TIER, modelId: AGENT_MODELS[DEFAULT_MODEL_TIER].modelId, source: 'default' };
+}
+
+/** The user's `agentModel` setting, or null when they have none. */
+export async function loadModelOverride(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  userId: string,
+): Promise<string | null> {
+  if (!tableName || !userId) return null;
+  const [settings] = await queryByKey(docClient, tableName, 'byUser', 'userId', userId);
+  const agentModel = settings?.agentModel;
+  return typeof agentModel === 'string' && agentModel ? agentModel : null;
+}
+
+/**
+ * Measures a request: pass it the orchestrator's stream events and it adds up the tokens of
+ * every model call; `finish` reports them with the time since the meter was created.
+ */
+export function createModelMeter(modelId: string, now: () => number = Date.now) {
+  const startedAt = now();
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let reported = false;
+
+  return {
+    record(event: AgentStreamEvent) {
+      if (event.type !== 'modelMetadataEvent' || !event.usage) return;
+      inputTokens += event.usage.inputTokens;
+      outputTokens += event.usage.outputTokens;
+      reported = true;
+    },
+    finish(): AgentModelUsage {
+      return {
+        modelId,
+        latencyMs: now() - startedAt,
+        ...(reported ? { inputTokens, outputTokens } : {}),
+      };
+    },
+  };
+}
+
+export type ModelMeter = ReturnType<typeof createModelMeter>;
@@ -0,0 +1,50 @@
+import type { AgentStreamEvent, FunctionTool } from '@strands-agents/sdk';
+
+// Each invocation runs on an orchestrator built for it alone. The agents inside an
+// orchestrator keep their conversation between calls, so reusing one would carry a user's
+// prompts and tool results (task titles, lists, due dates) into whoever's request came next,
+// and grow every prompt. Building one only reads SOPs from disk; the runtime writes those and
+// registers the tools once per Lambda instance.
+
+export interface OrchestratorConfig {
+  directory: string;
+  defaultModel: string;
+  logLevel: string;
+  tools: Record<string, FunctionTool>;
+}
+
+export interface Orchestrator {
+  invoke(prompt: string): Promise<unknown>;
+  stream?(prompt: string): AsyncGenerator<AgentStreamEvent, unknown>;
+}
+
+export type CreateOrchestrator = (config: OrchestratorConfig) => Promise<Orchestrator>;
+
+// Consume the orchestrator's event stream, passing each event on; the generator returns the result
+async function consumeStream(
+  events: AsyncGenerator<AgentStreamEvent, unknown>,
+  onEvent: (event: AgentStreamEvent) => void,
+): Promise<string> {
+  for (;;) {
+    const next = await events.next();
+    if (next.done) return String(next.value);
+    onEvent(next.value);
+  }
+}
+
+/**
+ * Build a fresh orchestrator with `create` and run `prompt` on it once. With `onEvent`, the
+ * orchestrator is streamed when it supports it; otherwise it is invoked.
+ */
+export async function runFreshOrchestrator(
+  create: CreateOrchestrator,
+  config: OrchestratorConfig,
+  prompt: string,
+  onEvent?: (event: AgentStreamEvent) => void,
+): Promise<string> {
+  const orchestrator = await create(config);
+  if (onEvent && typeof orchestrator.stream === 'function') {
+    return consumeStream(orchestrator.stream(prompt), onEvent);
+  }
+  return String(await orchestrator.invoke(prompt));
+}
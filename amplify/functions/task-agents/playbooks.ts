@@ -0,0 +1,112 @@
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { parsePlaybook, playbookAgentName, renderPlaybookSop } from '../shared/playbooks.js';
+import { roleOf } from '../group-access/roles.js';
+import { batchGetGroups, queryByKey, type TenantScope } from './tools/tenant-scope.js';
+
+// Loads the playbooks a runPlaybook request may use: the user's own and those shared with
+// their groups. They are validated again here (the frontend check can be skipped) and rendered
+// as SOPs for the orchestrator; invalid ones are left out.
+
+const logger = new Logger({ serviceName: 'task-agents' });
+
+export interface LoadedPlaybook {
+  id: string;
+  name: string;
+  agentName: string;
+  sop: string;
+}
+
+export interface PlaybookTables {
+  playbookTable: string;
+  listGroupTable: string;
+}
+
+type Item = Record<string, unknown>;
+
+function toLoadedPlaybook(id: string, content: string): LoadedPlaybook | { errors: string[] } {
+  const parsed = parsePlaybook(content);
+  if (!parsed.success) return { errors: parsed.errors };
+  return {
+    id,
+    name: parsed.data.name,
+    agentName: playbookAgentName(parsed.data.name),
+    sop: renderPlaybookSop(parsed.data),
+  };
+}
+
+/**
+ * The playbooks a user can run, sorted by name. When an owned playbook and a group's share a
+ * name, the owned one is used. Anyone can set any groupId on their playbook, so a shared
+ * playbook is only used while its owner owns or belongs to the group.
+ */
+export async function loadPlaybooks(
+  docClient: DynamoDBDocumentClient,
+  tables: PlaybookTables,
+  scope: TenantScope,
+): Promise<LoadedPlaybook[]> {
+  if (!tables.playbookTable || !scope.userId) return [];
+
+  const [owned, groups, ...shared] = await Promise.all([
+    queryByKey(docClient, tables.playbookTable, 'byOwner', 'owner', scope.userId),
+    batchGetGroups(docClient, tables.listGroupTable, scope.groupIds),
+    ...scope.groupIds.map((groupId) => queryByKey(docClient, tables.playbookTable, 'byGroup', 'groupId', groupId)),
+  ]);
+
+  const groupsById = new Map(groups.map((group) => [group.id, group]));
+  const sharedByMembers = (shared.flat() as Item[]).filter((item) => {
+    const author = String(item.owner ?? '').split('::')[0];
+    return roleOf(groupsById.get(item.groupId as string), author) !== null;
+  });
+
+  const byName = new Map<string, LoadedPlaybook>();
+  for (const item of [...owned, ...sharedByMembers] as Item[]) {
+    const loaded = toLoadedPlaybook(item.id as string, String(item.content ?? ''));
+    if ('errors' in loaded) {
+      logger.warn('Skipping invalid playbook', { playbookId: item.id, errors: loaded.errors });
+      continue;
+    }
+    if (!byName.has(loaded.name)) byName.set(loaded.name, loaded);
+  }
+
+  return [...byName.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Only runPlaybook requests bring playbooks; other requests run on the built-in SOPs alone. */
+export function usesPlaybooks(queryType: string | undefined): boolean {
+  return queryType === 'runPlaybook';
+}
+
+/**
+ * The prompt arguments and playbooks for a request. A runPlaybook request names a saved
+ * playbook by playbookId, or previews an unsaved draft sent as playbookContent (which then
+ * replaces a saved playbook of the same name). Other requests pass through unchanged, without
+ * playbooks.
+ */
+export function preparePlaybookRequest(
+  queryType: string | undefined,
+  requestData: Record<string, unknown>,
+  playbooks: LoadedPlaybook[],
+): { args: Record<string, unknown>; playbooks: LoadedPlaybook[] } {
+  if (!usesPlaybooks(queryType)) return { args: requestData, playbooks: [] };
+
+  let target: LoadedPlaybook | undefined;
+  if (typeof requestData.playbookContent === 'string') {
+    const draft = toLoadedPlaybook('draft', requestData.playbookContent);
+    if ('errors' in draft) {
+      throw new Error(`Invalid playbook: ${draft.errors.join('; ')}`);
+    }
+    target = draft;
+    playbooks = [...playbooks.filter((playbook) => playbook.name !== draft.name), draft];
+  } else {
+    target = playbooks.find((playbook) => playbook.id === requestData.playbookId);
+    if (!target) {
+      throw new Error(`Playbook not found: ${String(requestData.playbookId)}`);
+    }
+  }
+
+  return {
+    args: { playbook: target.agentName, input: requestData.input, listId: requestData.listId },
+    playbooks,
+  };
+}
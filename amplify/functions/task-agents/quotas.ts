@@ -0,0 +1,110 @@
+import { BatchGetCommand, DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import {
+  findQuotaViolation,
+  type QuotaScope,
+  type QuotaUsage,
+  type QuotaViolation,
+} from '../shared/agent-quotas.js';
+import { batchGetGroups, queryByKey, type TenantScope } from './tools/tenant-scope.js';
+import { usageId, usageMonth } from './usage.js';
+
+// Counts what a user, and each of their groups, has used against the agent quotas (see
+// shared/agent-quotas.ts). Jobs are read from the AgentJob byOwner index, which TTL keeps to
+// the retention period, and tokens from the AgentUsage totals for the month.
+
+const BATCH_GET_SIZE = 100;
+const HOUR_MS = 60 * 60 * 1000;
+
+// The task-agents function times out after 15 minutes, so a job still PENDING or PROCESSING
+// an hour after it was created has stopped and no longer holds a slot
+const ACTIVE_JOB_WINDOW_MS = HOUR_MS;
+
+export interface QuotaTables {
+  agentJobTable: string;
+  agentUsageTable: string;
+  listGroupTable: string;
+}
+
+export interface QuotaCheckOptions {
+  /** When the request was made; only jobs created before it count. Defaults to now. */
+  at?: Date;
+  /** The job being checked, which does not count against itself. */
+  jobId?: string;
+  /** Whether the request calls a model, so the token budget applies. Defaults to true. */
+  tokens?: boolean;
+}
+
+async function monthlyTokens(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  userIds: string[],
+  month: string,
+): Promise<number> {
+  let total = 0;
+  for (let i = 0; i < userIds.length; i += BATCH_GET_SIZE) {
+    const keys = userIds.slice(i, i + BATCH_GET_SIZE).map((userId) => ({ id: usageId(userId, month) }));
+    const result = await docClient.send(new BatchGetCommand({ RequestItems: { [tableName]: { Keys: keys } } }));
+    for (const item of result.Responses?.[tableName] ?? []) {
+      total += Number(item.inputTokens ?? 0) + Number(item.outputTokens ?? 0);
+    }
+  }
+  return total;
+}
+
+/** What these users have used together: their jobs created before `at`, and this month's tokens. */
+export async function loadQuotaUsage(
+  docClient: DynamoDBDocumentClient,
+  tables: QuotaTables,
+  userIds: string[],
+  options: QuotaCheckOptions = {},
+): Promise<QuotaUsage> {
+  const at = (options.at ?? new Date()).getTime();
+  const jobs = (
+    await Promise.all(userIds.map((userId) => queryByKey(docClient, tables.agentJobTable, 'byOwner', 'owner', userId)))
+  )
+    .flat()
+    .filter((job) => {
+      const createdAt = new Date(job.createdAt as string).getTime();
+      return job.id !== options.jobId && createdAt < at;
+    });
+
+  const createdWithin = (job: Record<string, unknown>, windowMs: number) =>
+    new Date(job.createdAt as string).getTime() >= at - windowMs;
+
+  return {
+    concurrentJobs: jobs.filter(
+      (job) => (job.status === 'PENDING' || job.status === 'PROCESSING') && createdWithin(job, ACTIVE_JOB_WINDOW_MS),
+    ).length,
+    jobsPerHour: jobs.filter((job) => createdWithin(job, HOUR_MS)).length,
+    monthlyTokens:
+      options.tokens === false
+        ? 0
+        : await monthlyTokens(docClient, tables.agentUsageTable, userIds, usageMonth(new Date(at))),
+  };
+}
+
+/**
+ * The first quota another request from this user would exceed, or null if it is allowed.
+ * The user's own limits are checked first, then those each of their groups' members share.
+ */
+export async function checkAgentQuota(
+  docClient: DynamoDBDocumentClient,
+  tables: QuotaTables,
+  scope: Pick<TenantScope, 'userId' | 'groupIds'>,
+  options: QuotaCheckOptions = {},
+): Promise<QuotaViolation | null> {
+  const check = async (quotaScope: QuotaScope, userIds: string[]) =>
+    findQuotaViolation(quotaScope, await loadQuotaUsage(docClient, tables, userIds, options), options);
+
+  const own = await check('user', [scope.userId]);
+  if (own) return own;
+
+  for (const group of await batchGetGroups(docClient, tables.listGroupTable, scope.groupIds)) {
+    // Group owners are stored as `sub::username`; jobs and usage are keyed by the sub
+    const owner = group.owner?.split('::')[0];
+    const members = [...new Set([owner, ...(group.memberIds ?? [])].filter((id): id is string => !!id))];
+    const violation = await check('group', members);
+    if (violation) return violation;
+  }
+  return null;
+}
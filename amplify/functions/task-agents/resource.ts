@@ -6,3 +6,27 @@ export const taskAgents = defineFunction({
   timeoutSeconds: 900, // 15 minutes
   resourceGroupName: 'data',
 });
+
+// The startAgentJob mutation, which checks the agent quotas before creating a job
+export const startAgentJob = defineFunction({
+  name: 'start-agent-job',
+  entry: './start-job-handler.ts',
+  resourceGroupName: 'data',
+});
+
+// Marks jobs that stopped without finishing (timed out, crashed or dead-lettered) as FAILED
+export const sweepAgentJobs = defineFunction({
+  name: 'sweep-agent-jobs',
+  entry: './sweeper-handler.ts',
+  schedule: 'every 5m',
+  timeoutSeconds: 120,
+  resourceGroupName: 'data',
+});
+
+// The same agent runtime behind a streaming REST endpoint (see backend.ts)
+export const taskAgentsStreaming = defineFunction({
+  name: 'task-agents-streaming',
+  entry: './streaming-handler.ts',
+  timeoutSeconds: 900, // 15 minutes
+  resourceGroupName: 'data',
+});
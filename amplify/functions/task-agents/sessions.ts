@@ -0,0 +1,176 @@
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { randomUUID } from 'crypto';
+import {
+  isSessionQueryType,
+  parseSessionMessages,
+  SESSION_RETENTION_DAYS,
+  validateFollowUp,
+  type AgentSessionMessage,
+} from '../shared/agent-sessions.js';
+
+// Stores the conversations behind follow-ups (see shared/agent-sessions.ts) in the
+// AgentSession model. A new request of a session queryType starts a session; a follow-up
+// loads it and re-runs the original request with the conversation so far and the latest
+// answer. Once the agent has answered, the turn is saved with the revised answer.
+
+// Request fields that are not part of the session's request
+const SESSION_FIELDS = ['queryType', 'sessionId', 'followUp', 'dryRun'];
+
+export interface AgentSession {
+  id: string;
+  owner: string;
+  queryType: string;
+  /** The request that started the session, without dryRun. */
+  requestData: Record<string, unknown>;
+  messages: AgentSessionMessage[];
+  /** The latest answer: the agent's validated data, with any proposed changes. */
+  result: unknown;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/** One run in a session: the session as it was, the follow-up if any, and the agent's arguments. */
+export interface SessionTurn {
+  session: AgentSession;
+  followUp?: string;
+  args: Record<string, unknown>;
+}
+
+function requestArgs(requestData: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(requestData).filter(([key, value]) => value !== undefined && !SESSION_FIELDS.includes(key)),
+  );
+}
+
+// Sessions are stored with maps and lists; JSON strings (as AppSync stores AWSJSON) are read too
+function readJson(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/** What the assistant says in the conversation about an answer: its summary or reasoning. */
+export function describeAnswer(result: unknown): string {
+  const fields = result && typeof result === 'object' ? (result as Record<string, unknown>) : {};
+  for (const key of ['summary', 'reasoning']) {
+    if (typeof fields[key] === 'string' && fields[key]) return fields[key] as string;
+  }
+  return 'Here is the updated answer.';
+}
+
+/**
+ * The agent's arguments for a follow-up: the original request, the latest answer, the earlier
+ * turns and the new message. The session SOPs revise the answer when `followUp` is present.
+ */
+export function buildFollowUpArgs(session: AgentSession, followUp: string): Record<string, unknown> {
+  return {
+    ...session.requestData,
+    previousAnswer: JSON.stringify(session.result),
+    ...(session.messages.length > 0
+      ? { conversation: JSON.stringify(session.messages.map(({ role, content }) => ({ role, content }))) }
+      : {}),
+    followUp,
+  };
+}
+
+export async function getSession(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  sessionId: string,
+): Promise<AgentSession | null> {
+  const { Item } = await docClient.send(new GetCommand({ TableName: tableName, Key: { id: sessionId } }));
+  if (!Item) return null;
+  return {
+    id: Item.id as string,
+    owner: Item.owner as string,
+    queryType: Item.queryType as string,
+    requestData: (readJson(Item.requestData) as Record<string, unknown> | null) ?? {},
+    messages: parseSessionMessages(Item.messages),
+    result: readJson(Item.result),
+    createdAt: Item.createdAt as string | undefined,
+    updatedAt: Item.updatedAt as string | undefined,
+  };
+}
+
+/**
+ * The session turn for a request, or null for queryTypes without sessions. A request with
+ * `sessionId` and `followUp` continues the user's session; any other request starts one.
+ * Throws when the session cannot be continued.
+ */
+export async function prepareSessionTurn(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  userId: string,
+  queryType: string | undefined,
+  requestData: Record<string, unknown>,
+): Promise<SessionTurn | null> {
+  if (!queryType || !isSessionQueryType(queryType)) return null;
+
+  const { sessionId, followUp } = requestData;
+  if (sessionId === undefined && followUp === undefined) {
+    const args = requestArgs(requestData);
+    return { session: { id: randomUUID(), owner: userId, queryType, requestData: args, messages: [], result: null }, args };
+  }
+  if (typeof sessionId !== 'string' || typeof followUp !== 'string') {
+    throw new Error('A follow-up needs both sessionId and followUp');
+  }
+
+  // Other users' sessions are reported as not found, like lists outside the tenant scope
+  const session = await getSession(docClient, tableName, sessionId);
+  if (!session || session.owner !== userId || session.queryType !== queryType) {
+    throw new Error('Conversation not found. It may have expired; start a new request.');
+  }
+  const problem = validateFollowUp(followUp, session.messages);
+  if (problem) throw new Error(problem);
+
+  const message = followUp.trim();
+  return { session, followUp: message, args: buildFollowUpArgs(session, message) };
+}
+
+/**
+ * Save the turn once the agent has answered: the follow-up and the assistant's reply are added
+ * to the conversation and the answer replaces the latest one. Fails if another turn was saved
+ * since this one started, so concurrent follow-ups cannot drop each other's messages.
+ */
+export async function saveSessionTurn(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  turn: SessionTurn,
+  result: unknown,
+  now: Date = new Date(),
+): Promise<AgentSession> {
+  const at = now.toISOString();
+  const { session } = turn;
+  const messages: AgentSessionMessage[] = turn.followUp
+    ? [...session.messages, { role: 'user', content: turn.followUp, at }, { role: 'assistant', content: describeAnswer(result), at }]
+    : session.messages;
+  const saved: AgentSession = { ...session, messages, result, createdAt: session.createdAt ?? at, updatedAt: at };
+
+  try {
+    await docClient.send(
+      new PutCommand({
+        TableName: tableName,
+        Item: {
+          __typename: 'AgentSession',
+          ...saved,
+          expiresAt: Math.floor(now.getTime() / 1000) + SESSION_RETENTION_DAYS * 24 * 60 * 60,
+        },
+        ...(session.updatedAt
+          ? {
+              ConditionExpression: 'updatedAt = :updatedAt',
+              ExpressionAttributeValues: { ':updatedAt': session.updatedAt },
+            }
+          : { ConditionExpression: 'attribute_not_exists(id)' }),
+      }),
+    );
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+      throw new Error('The conversation changed while this reply was being written. Try again.');
+    }
+    throw error;
+  }
+  return saved;
+}
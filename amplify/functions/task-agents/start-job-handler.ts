@@ -0,0 +1,131 @@
+import type { AppSyncIdentityCognito, AppSyncResolverHandler } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { Logger } from '@aws-lambda-powertools/logger';
+import {
+  cancelProblem,
+  createJob,
+  isConditionalCheckFailure,
+  JOB_TITLES,
+  jobStatusCondition,
+  sendJobUpdate,
+} from './job-progress.js';
+import { checkAgentQuota, type QuotaTables } from './quotas.js';
+import { loadTenantScope, type TenantTables } from './tools/tenant-scope.js';
+import { formatQuotaError } from '../shared/agent-quotas.js';
+import { createAppSyncRequester } from '../shared/notifications.js';
+
+// startAgentJob mutation: the only way to create an AgentJob. It refuses requests over the
+// user's or their groups' quotas (see quotas.ts) before creating the job through AppSync.
+// cancelAgentJob is the only change owners can make to a job afterwards, so they cannot
+// rewrite its usage or delete it to get out of the quotas.
+
+const logger = new Logger({ serviceName: 'start-agent-job' });
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+const graphqlEndpoint = process.env.AMPLIFY_GRAPHQL_ENDPOINT ?? '';
+const appSync = graphqlEndpoint ? createAppSyncRequester(graphqlEndpoint, process.env.AWS_REGION ?? '') : null;
+
+const tenantTables: TenantTables = {
+  todoListTable: process.env.TODOLIST_TABLE_NAME ?? '',
+  listGroupTable: process.env.LISTGROUP_TABLE_NAME ?? '',
+  groupMembershipTable: process.env.GROUPMEMBERSHIP_TABLE_NAME ?? '',
+};
+const quotaTables: QuotaTables = {
+  agentJobTable: process.env.AGENTJOB_TABLE_NAME ?? '',
+  agentUsageTable: process.env.AGENTUSAGE_TABLE_NAME ?? '',
+  listGroupTable: process.env.LISTGROUP_TABLE_NAME ?? '',
+};
+
+interface AgentJobResult {
+  success: boolean;
+  message: string;
+  id?: string;
+}
+
+interface StartArguments {
+  queryType: string;
+  requestData?: unknown;
+}
+
+interface CancelArguments {
+  jobId: string;
+}
+
+// AWSJSON arguments may arrive as the JSON text or already parsed
+function parseRequestData(value: unknown): Record<string, unknown> | null {
+  let data = value ?? {};
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+  return data !== null && typeof data === 'object' && !Array.isArray(data) ? (data as Record<string, unknown>) : null;
+}
+
+async function startJob(args: StartArguments, userId: string): Promise<AgentJobResult> {
+  const { queryType } = args;
+  const requestData = parseRequestData(args.requestData);
+  if (!Object.hasOwn(JOB_TITLES, queryType)) return { success: false, message: `Unknown queryType: ${queryType}` };
+  if (!requestData) return { success: false, message: 'Invalid requestData: expected a JSON object' };
+  if (!appSync) throw new Error('AMPLIFY_GRAPHQL_ENDPOINT is not configured');
+
+  // Applying a reviewed changeset calls no model, so only the job limits apply to it
+  const scope = await loadTenantScope(docClient, tenantTables, userId);
+  const violation = await checkAgentQuota(docClient, quotaTables, scope, {
+    tokens: requestData.actions === undefined,
+  });
+  if (violation) {
+    logger.info('Agent job refused by quota', { userId, queryType, ...violation });
+    return { success: false, message: formatQuotaError(violation) };
+  }
+
+  const id = await createJob(appSync, userId, queryType, requestData);
+  logger.info('Agent job created', { userId, queryType, jobId: id });
+  return { success: true, message: 'Job created', id };
+}
+
+// The flag is set through AppSync so the owner's onUpdate subscription sees it
+async function cancelJob({ jobId }: CancelArguments, userId: string): Promise<AgentJobResult> {
+  if (!appSync) throw new Error('AMPLIFY_GRAPHQL_ENDPOINT is not configured');
+
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: quotaTables.agentJobTable,
+      Key: { id: jobId },
+      ProjectionExpression: '#owner, #status',
+      ExpressionAttributeNames: { '#owner': 'owner', '#status': 'status' },
+    }),
+  );
+  const problem = cancelProblem(result.Item, userId);
+  if (problem) return { success: false, message: problem };
+
+  try {
+    await sendJobUpdate(appSync, jobId, { cancelRequested: true }, jobStatusCondition('CANCELLED'));
+  } catch (error) {
+    if (!isConditionalCheckFailure(error)) throw error;
+    return { success: false, message: 'Job has already finished' };
+  }
+  logger.info('Agent job cancel requested', { userId, jobId });
+  return { success: true, message: 'Cancel requested', id: jobId };
+}
+
+export const handler: AppSyncResolverHandler<StartArguments | CancelArguments, AgentJobResult> = async (event) => {
+  const identity = event.identity as AppSyncIdentityCognito | null;
+  const userId = identity?.sub;
+  if (!userId) return { success: false, message: 'Not signed in' };
+
+  const fieldName = event.info.fieldName;
+  try {
+    if (fieldName === 'cancelAgentJob') return await cancelJob(event.arguments as CancelArguments, userId);
+    return await startJob(event.arguments as StartArguments, userId);
+  } catch (error) {
+    logger.error('Agent job request failed', { fieldName, userId, error });
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+};
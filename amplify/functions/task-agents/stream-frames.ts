@@ -0,0 +1,60 @@
+import type { AgentStreamEvent } from '@strands-agents/sdk';
+import type { AgentStreamFrame } from '../shared/agent-stream.js';
+
+// Turns the orchestrator's model stream into the frames the streaming endpoint sends.
+//
+// The model's text is either narration ("Let me look at your tasks") or the JSON answer. Each
+// message is classified by its first non-blank character: a message that opens with `{`, `[`
+// or a code fence is an answer and streams as partial_json, anything else is thinking.
+
+const ANSWER_START = /^[{[`]/;
+
+type Mode = 'pending' | 'thinking' | 'answer';
+
+/** A function to call with each stream event; it emits the frames the event produces. */
+export function createFrameMapper(emit: (frame: AgentStreamFrame) => void): (event: AgentStreamEvent) => void {
+  let mode: Mode = 'pending';
+  let leading = '';
+
+  const writeText = (text: string) => {
+    if (mode === 'pending') {
+      leading += text;
+      const trimmed = leading.trimStart();
+      if (!trimmed) return;
+      mode = ANSWER_START.test(trimmed) ? 'answer' : 'thinking';
+      emit(mode === 'answer' ? { type: 'partial_json', text: trimmed, reset: true } : { type: 'thinking', text: trimmed });
+      leading = '';
+      return;
+    }
+    emit(mode === 'answer' ? { type: 'partial_json', text } : { type: 'thinking', text });
+  };
+
+  return (event) => {
+    if (event.type === 'modelMessageStartEvent') {
+      mode = 'pending';
+      leading = '';
+      return;
+    }
+    if (event.type !== 'modelContentBlockDeltaEvent') return;
+
+    const { delta } = event;
+    if (delta.type === 'textDelta' && delta.text) writeText(delta.text);
+    else if (delta.type === 'reasoningContentDelta' && delta.text) emit({ type: 'thinking', text: delta.text });
+  };
+}
+
+/** Whether a tool's JSON result reports success; tools report failures as `success: false`. */
+export function toolSucceeded(result: string): boolean {
+  try {
+    const parsed: unknown = JSON.parse(result);
+    return !(parsed !== null && typeof parsed === 'object' && (parsed as { success?: unknown }).success === false);
+  } catch {
+    // Tools always return JSON; anything else is passed through as it came
+    return true;
+  }
+}
+
+/** The tool_result frame for a tool's JSON result. */
+export function toolResultFrame(tool: string, result: string): AgentStreamFrame {
+  return { type: 'tool_result', tool, success: toolSucceeded(result) };
+}
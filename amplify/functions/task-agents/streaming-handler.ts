@@ -1,59 +1,64 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
 import { Logger } from '@aws-lambda-powertools/logger';
-import { createOrchestrator } from '@serverless-dna/sop-agents';
-import { FunctionTool } from '@strands-agents/sdk';
-import { writeFileSync, mkdirSync, existsSync } from 'fs';
-import { enrichQuery } from './enrich-query.js';
+import { buildPrompt } from './enrich-query.js';
 import { validateAgentResponse } from './validate-response.js';
-import { allSops } from './sops-bundle.js';
-import { createTask } from './tools/create-task.js';
-import { getTasks } from './tools/get-tasks.js';
-import { getLists } from './tools/get-lists.js';
-import { createTasks } from './tools/create-tasks.js';
+import {
+  docClient,
+  finishSession,
+  finishTrace,
+  playbookTables,
+  prepareSession,
+  quotaTables,
+  routeModel,
+  runAgent,
+  tenantTables,
+  todoItemTable,
+} from './agent-runtime.js';
+import { checkAgentQuota } from './quotas.js';
+import { createTraceRecorder } from './trace.js';
+import { loadPlaybooks, preparePlaybookRequest, usesPlaybooks } from './playbooks.js';
+import { createFrameMapper, toolResultFrame } from './stream-frames.js';
+import {
+  createJob,
+  isConditionalCheckFailure,
+  jobExpiresAt,
+  jobStatusCondition,
+  sendJobUpdate,
+  toolLabel,
+  type JobStatus,
+  type JobUpdate,
+} from './job-progress.js';
+import { loadTenantScope, scopeTimezone } from './tools/tenant-scope.js';
+import { buildProposalResult, createProposalLog, isDryRun } from './tools/proposals.js';
+import { encodeSseFrame, type AgentStreamFrame } from '../shared/agent-stream.js';
+import { formatQuotaError } from '../shared/agent-quotas.js';
+import { createAppSyncRequester } from '../shared/notifications.js';
 import type { APIGatewayProxyEvent } from 'aws-lambda';
 import type { Writable } from 'stream';
 
-const KNOWN_QUERY_TYPES = ['breakdownProject', 'analyzeTask', 'planDay', 'recommendTask'] as const;
+// Streaming HTTP transport: answers a request through the agent runtime, sending its progress
+// and the answer as it is written as server-sent events (see shared/agent-stream.ts). The last
+// event is always a `final` frame with the validated response.
 
 const logger = new Logger({ serviceName: 'task-agents' });
 
-const SOPS_DIR = '/tmp/sops';
-
-const ddbClient = new DynamoDBClient({});
-const docClient = DynamoDBDocumentClient.from(ddbClient);
-
-const todoItemTable = process.env.TODOITEM_TABLE_NAME ?? '';
-const todoListTable = process.env.TODOLIST_TABLE_NAME ?? '';
-
-function writeSopsToDisk() {
-  if (existsSync(SOPS_DIR)) return;
-  mkdirSync(SOPS_DIR, { recursive: true });
-  for (const [filename, content] of Object.entries(allSops)) {
-    writeFileSync(`${SOPS_DIR}/${filename}`, content);
-  }
-  logger.info('Wrote SOPs to disk', { count: Object.keys(allSops).length });
-}
-
-function buildSpecialistPrompt(args: Record<string, unknown>, now: Date): string {
-  const timestamp = now.toISOString();
-  const dateOnly = timestamp.split('T')[0];
-  const timeOnly = now.toTimeString().split(' ')[0];
-  const dayOfWeek = now.toLocaleDateString('en-US', { weekday: 'long' });
-
-  const lines = [
-    `Current Date and Time: ${timestamp}`,
-    `Date: ${dateOnly} (${dayOfWeek})`,
-    `Time: ${timeOnly}`,
-  ];
-
-  for (const [key, value] of Object.entries(args)) {
-    if (value !== undefined) {
-      lines.push(`${key}: ${String(value)}`);
-    }
+const graphqlEndpoint = process.env.AMPLIFY_GRAPHQL_ENDPOINT ?? '';
+const appSync = graphqlEndpoint ? createAppSyncRequester(graphqlEndpoint, process.env.AWS_REGION ?? '') : null;
+
+// Record how a streamed run ended on its job, like the async handler does for queued jobs.
+// The response has already been decided, so a failed update is only logged
+async function finishJob(jobId: string, status: JobStatus, update: JobUpdate): Promise<void> {
+  if (!appSync) return;
+  const now = new Date();
+  try {
+    await sendJobUpdate(
+      appSync,
+      jobId,
+      { ...update, status, completedAt: now.toISOString(), expiresAt: jobExpiresAt(now) },
+      jobStatusCondition(status),
+    );
+  } catch (error) {
+    if (!isConditionalCheckFailure(error)) logger.error('Failed to finish streamed job', { jobId, error });
   }
-
-  return lines.join('\n');
 }
 
 // Extract user ID from Cognito JWT token
@@ -72,7 +77,8 @@ export const handler = awslambda.streamifyResponse(
     const httpResponseMetadata = {
       statusCode: 200,
       headers: {
-        'Content-Type': 'text/plain; charset=utf-8',
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache',
         'X-Request-Id': event.requestContext.requestId,
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Credentials': 'true',
@@ -81,7 +87,13 @@ export const handler = awslambda.streamifyResponse(
 
     // Create response stream with metadata RIGHT AWAY
     const stream = awslambda.HttpResponseStream.from(responseStream, httpResponseMetadata);
-    
+    const send = (frame: AgentStreamFrame) => {
+      stream.write(encodeSseFrame(frame));
+    };
+
+    // The job recording this run for the quotas, once it has been created
+    let jobId: string | undefined;
+
     try {
       // Parse request body
       const body = JSON.parse(event.body || '{}');
@@ -93,161 +105,107 @@ export const handler = awslambda.streamifyResponse(
         path: event.path,
       });
 
-      // Now do the setup work after stream is established
-      writeSopsToDisk();
-
-      // Create tools with userId in scope
-      const createTaskTool = new FunctionTool({
-        name: 'create_task',
-        description: 'Create a new todo item in a specified list',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            title: { type: 'string', description: 'Task title (required)' },
-            listId: { type: 'string', description: 'ID of the list to add the task to (required)' },
-            description: { type: 'string', description: 'Task description' },
-            status: { type: 'string', enum: ['PENDING', 'IN_PROGRESS', 'COMPLETE'], description: 'Task status' },
-            priority: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH', 'URGENT'], description: 'Task priority' },
-            effortHours: { type: 'number', description: 'Estimated effort in hours' },
-            dueDate: { type: 'string', description: 'Due date in ISO 8601 format' },
-            tags: { type: 'array', items: { type: 'string' }, description: 'Tags for the task' },
-            reminderMinutes: { type: 'number', description: 'Minutes before due date to send reminder' },
-          },
-          required: ['title', 'listId'],
-        },
-        callback: async (input: unknown) => {
-          const result = await createTask(input as Record<string, unknown>, docClient, todoItemTable, userId);
-          return JSON.stringify(result);
-        },
-      });
+      // Tools only see the lists this user owns or reaches through their groups
+      const scope = await loadTenantScope(docClient, tenantTables, userId);
 
-      const getTasksTool = new FunctionTool({
-        name: 'get_tasks',
-        description: 'Retrieve and filter todo items by list, status, or due date',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            listId: { type: 'string', description: 'Filter by list ID' },
-            status: { type: 'string', enum: ['PENDING', 'IN_PROGRESS', 'COMPLETE'], description: 'Filter by status' },
-            dueDateBefore: { type: 'string', description: 'Filter tasks due before this ISO 8601 date' },
-            dueDateAfter: { type: 'string', description: 'Filter tasks due after this ISO 8601 date' },
-          },
-        },
-        callback: async (input: unknown) => {
-          const result = await getTasks(input as Record<string, unknown>, docClient, todoItemTable);
-          return JSON.stringify(result);
-        },
-      });
+      // Streamed requests are held to the same quotas as jobs
+      const violation = await checkAgentQuota(docClient, quotaTables, scope);
+      if (violation) {
+        logger.info('Streaming request refused by quota', { userId, ...violation });
+        send({ type: 'final', response: { success: false, error: formatQuotaError(violation) } });
+        stream.end();
+        return;
+      }
 
-      const getListsTool = new FunctionTool({
-        name: 'get_lists',
-        description: 'Retrieve all available todo lists',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-        },
-        callback: async () => {
-          const result = await getLists(docClient, todoListTable);
-          return JSON.stringify(result);
-        },
-      });
+      const queryType = typeof body.queryType === 'string' ? body.queryType : undefined;
 
-      const createTasksTool = new FunctionTool({
-        name: 'create_tasks',
-        description: 'Create multiple todo items in a single batch call',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            listId: { type: 'string', description: 'ID of the list to add tasks to (required)' },
-            tasks: {
-              type: 'array',
-              description: 'Array of task objects to create (required)',
-              items: {
-                type: 'object',
-                properties: {
-                  title: { type: 'string', description: 'Task title (required)' },
-                  description: { type: 'string', description: 'Task description' },
-                  status: { type: 'string', enum: ['PENDING', 'IN_PROGRESS', 'COMPLETE'], description: 'Task status' },
-                  priority: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH', 'URGENT'], description: 'Task priority' },
-                  effortHours: { type: 'number', description: 'Estimated effort in hours' },
-                  dueDate: { type: 'string', description: 'Due date in ISO 8601 format' },
-                  tags: { type: 'array', items: { type: 'string' }, description: 'Tags for the task' },
-                  reminderMinutes: { type: 'number', description: 'Minutes before due date to send reminder' },
-                },
-                required: ['title'],
-              },
-            },
-          },
-          required: ['listId', 'tasks'],
-        },
-        callback: async (input: unknown) => {
-          const typedInput = input as { listId: string; tasks: Array<Record<string, unknown>> };
-          const result = await createTasks(typedInput, docClient, todoItemTable, userId);
-          return JSON.stringify(result);
-        },
-      });
+      // Record the run as a job, so the concurrency and hourly limits count it like any other
+      if (!appSync) throw new Error('AMPLIFY_GRAPHQL_ENDPOINT is not configured');
+      jobId = await createJob(appSync, userId, queryType ?? 'freeform', body, 'PROCESSING');
+
+      // As for jobs, freeform requests and playbook runs only propose their writes; the answer
+      // carries the changeset for the user to apply
+      const dryRun = isDryRun(queryType, body);
+      const proposals = dryRun ? createProposalLog(docClient, todoItemTable, scope) : null;
 
-      const orchestrator = await createOrchestrator({
-        directory: SOPS_DIR,
-        defaultModel: 'au.anthropic.claude-sonnet-4-5-20250929-v1:0',
-        logLevel: 'debug',
-        tools: {
-          create_task: createTaskTool,
-          create_tasks: createTasksTool,
-          get_tasks: getTasksTool,
-          get_lists: getListsTool,
+      // A follow-up re-runs the session's request with the conversation so far
+      const turn = await prepareSession(userId, queryType, body);
+      // A playbook run loads the user's playbooks next to the built-in SOPs
+      const request = preparePlaybookRequest(
+        queryType,
+        turn?.args ?? body,
+        usesPlaybooks(queryType) ? await loadPlaybooks(docClient, playbookTables, scope) : [],
+      );
+      const prompt = buildPrompt(queryType, request.args, new Date(), scopeTimezone(scope));
+
+      // The SOP's model tier, unless the user chose one in settings
+      const model = await routeModel(queryType, userId);
+      const trace = createTraceRecorder(model.modelId);
+      const mapFrames = createFrameMapper(send);
+
+      // Stream the agent's progress, then send the validated response
+      const validated = await runAgent(
+        prompt,
+        {
+          scope,
+          proposals,
+          playbooks: request.playbooks,
+          model: model.modelId,
+          idempotencyKey: jobId,
+          beforeTool: async (tool) => {
+            send({ type: 'tool_call', tool, label: toolLabel(tool, dryRun) });
+            return null;
+          },
+          afterTool: (tool, result) => send(toolResultFrame(tool, result)),
+          onEvent: mapFrames,
+          trace,
         },
+        (raw) =>
+          proposals
+            ? buildProposalResult(queryType ?? 'freeform', raw, proposals.actions)
+            : validateAgentResponse(raw, queryType),
+        queryType,
+        { onRepair: () => send({ type: 'thinking', text: 'Correcting the answer...' }) },
+      );
+      const finished = await finishTrace(trace, userId, { jobId, queryType });
+      const sessionId = validated.success
+        ? await finishSession(turn, validated.data, { jobId, queryType })
+        : undefined;
+      send({ type: 'final', response: validated, trace: finished.trace, sessionId });
+      await finishJob(jobId, validated.success ? 'COMPLETE' : 'FAILED', {
+        resultData: validated.success ? validated : undefined,
+        error: validated.success ? undefined : validated.error,
+        ...finished.usage,
+        trace: finished.trace,
+        sessionId,
       });
 
-      const now = new Date();
-      let prompt: string;
-
-      // Determine queryType
-      const queryType = body.queryType;
-
-      if (queryType && KNOWN_QUERY_TYPES.includes(queryType as (typeof KNOWN_QUERY_TYPES)[number])) {
-        prompt = buildSpecialistPrompt({ ...body, queryType }, now);
-        logger.info('Routing to specialist', { queryType });
-      } else if (body.query && typeof body.query === 'string') {
-        prompt = enrichQuery(body.query, now);
-        logger.info('Using enriched query', { queryType: 'freeform' });
-      } else {
-        logger.warn('No queryType or query found, using body as prompt', { body });
-        prompt = buildSpecialistPrompt(body, now);
-      }
-
-      // Invoke orchestrator and stream response
-      const invokeStart = Date.now();
-      const result = await orchestrator.invoke(prompt);
-      const invokeDuration = Date.now() - invokeStart;
-
-      // Validate and write response
-      const validated = validateAgentResponse(String(result));
-      stream.write(JSON.stringify(validated));
-
       const totalDuration = Date.now() - startTime;
       logger.info('Streaming request complete', {
         queryType,
         success: validated.success,
-        invokeDurationMs: invokeDuration,
         totalDurationMs: totalDuration,
+        ...finished.usage,
       });
 
       stream.end();
     } catch (error) {
       logger.error('Streaming handler error', { error });
       
-      // Try to write error response
+      // Try to finish the stream with the error
       try {
-        responseStream.write(JSON.stringify({
-          success: false,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        }));
+        send({
+          type: 'final',
+          response: { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+        });
       } catch (writeError) {
         logger.error('Failed to write error response', { writeError });
       }
+      if (jobId) {
+        await finishJob(jobId, 'FAILED', { error: error instanceof Error ? error.message : 'Unknown error' });
+      }
       
-      responseStream.end();
+      stream.end();
     }
   }
 );
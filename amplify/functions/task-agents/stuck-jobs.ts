@@ -0,0 +1,119 @@
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { sendNotification, type GraphQLRequester } from '../shared/notifications.js';
+import {
+  appendProgressStep,
+  isConditionalCheckFailure,
+  JOB_TITLES,
+  jobExpiresAt,
+  sendJobUpdate,
+  type JobProgressStep,
+} from './job-progress.js';
+import { queryByKey } from './tools/tenant-scope.js';
+
+// Finds AgentJobs that stopped without finishing and marks them FAILED, so the owner is not
+// left watching a spinner. A job gets stuck when the task-agents function times out or
+// crashes mid-run (the stream's retries then skip it, as it is no longer PENDING), or when its
+// stream record is dead-lettered before any delivery claims it. Jobs are found on the AgentJob
+// byStatus index, which only ever holds the few jobs in flight.
+
+const logger = new Logger({ serviceName: 'sweep-agent-jobs' });
+
+const MINUTE_MS = 60 * 1000;
+
+// Longer than the task-agents function's 15 minute timeout, so a job still running is alive
+export const STUCK_PROCESSING_MS = 20 * MINUTE_MS;
+// The stream normally delivers a new job within seconds, retries included
+export const STUCK_PENDING_MS = 30 * MINUTE_MS;
+
+export const STUCK_JOB_ERROR = 'The assistant stopped before finishing this request. Please try again.';
+
+type Item = Record<string, unknown>;
+
+/** Whether a PENDING or PROCESSING job has gone longer than it could still be running. */
+export function isStuckJob(job: Item, now: Date): boolean {
+  const since = (value: unknown) => now.getTime() - new Date(value as string).getTime();
+  if (job.status === 'PROCESSING') return since(job.startedAt ?? job.createdAt) > STUCK_PROCESSING_MS;
+  if (job.status === 'PENDING') return since(job.createdAt) > STUCK_PENDING_MS;
+  return false;
+}
+
+// progress is AWSJSON, which AppSync stores as a JSON string
+function readProgress(value: unknown): JobProgressStep[] {
+  if (Array.isArray(value)) return value as JobProgressStep[];
+  if (typeof value !== 'string') return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? (parsed as JobProgressStep[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Mark the stuck jobs FAILED and let their owners know. Each update only applies while the job
+ * still has the status it was found with, so a job that finishes meanwhile is left alone.
+ * Returns how many jobs were failed.
+ */
+export async function sweepStuckJobs(
+  docClient: DynamoDBDocumentClient,
+  agentJobTable: string,
+  request: GraphQLRequester,
+  now: Date = new Date(),
+): Promise<number> {
+  const active = (
+    await Promise.all(
+      ['PENDING', 'PROCESSING'].map((status) => queryByKey(docClient, agentJobTable, 'byStatus', 'status', status)),
+    )
+  ).flat();
+
+  let failed = 0;
+  for (const job of active.filter((candidate) => isStuckJob(candidate, now))) {
+    const jobId = job.id as string;
+    const progress = appendProgressStep(readProgress(job.progress), {
+      kind: 'failed',
+      label: 'Failed',
+      at: now.toISOString(),
+    });
+
+    try {
+      await sendJobUpdate(
+        request,
+        jobId,
+        {
+          status: 'FAILED',
+          progress,
+          error: STUCK_JOB_ERROR,
+          completedAt: now.toISOString(),
+          expiresAt: jobExpiresAt(now),
+        },
+        { status: { eq: job.status } },
+      );
+    } catch (error) {
+      if (isConditionalCheckFailure(error)) {
+        logger.info('Job moved on before it was swept', { jobId });
+      } else {
+        logger.error('Failed to mark stuck job as failed', { jobId, error });
+      }
+      continue;
+    }
+
+    failed++;
+    logger.warn('Marked stuck job as failed', { jobId, status: job.status, createdAt: job.createdAt });
+
+    const name = JOB_TITLES[job.queryType as string] ?? 'Agent request';
+    try {
+      await sendNotification(request, {
+        owner: job.owner as string,
+        type: 'AGENT_JOB',
+        title: `${name} failed`,
+        body: STUCK_JOB_ERROR,
+        jobId,
+      });
+    } catch (notifyError) {
+      logger.warn('Failed to send job notification', { jobId, error: notifyError });
+    }
+  }
+
+  return failed;
+}
@@ -0,0 +1,28 @@
+import type { ScheduledHandler } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { sweepStuckJobs } from './stuck-jobs.js';
+import { createAppSyncRequester } from '../shared/notifications.js';
+
+// Scheduled sweeper: marks AgentJobs that stopped without finishing as FAILED (see stuck-jobs.ts)
+
+const logger = new Logger({ serviceName: 'sweep-agent-jobs' });
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+export const handler: ScheduledHandler = async () => {
+  const agentJobTable = process.env.AGENTJOB_TABLE_NAME;
+  const graphqlEndpoint = process.env.AMPLIFY_GRAPHQL_ENDPOINT;
+  if (!agentJobTable || !graphqlEndpoint) {
+    logger.error('AGENTJOB_TABLE_NAME or AMPLIFY_GRAPHQL_ENDPOINT not configured');
+    return;
+  }
+
+  const failed = await sweepStuckJobs(
+    docClient,
+    agentJobTable,
+    createAppSyncRequester(graphqlEndpoint, process.env.AWS_REGION ?? ''),
+  );
+  logger.info('Agent job sweep complete', { failed });
+};
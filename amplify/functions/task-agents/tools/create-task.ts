@@ -1,6 +1,9 @@
 import { DynamoDBDocumentClient, PutCommand } from '@aws-sdk/lib-dynamodb';
 import { Logger } from '@aws-lambda-powertools/logger';
 import { randomUUID } from 'crypto';
+import { DEFAULT_TIMEZONE, parseZonedDateTime, zonedTimeToUtc } from '../../shared/timezones.js';
+import { idempotentItemId } from './idempotency.js';
+import { authorizeListWrite, isTaskInList, scopeTimezone, type TenantScope } from './tenant-scope.js';
 
 const logger = new Logger({ serviceName: 'task-agents' });
 
@@ -11,11 +14,11 @@ const KNOWN_FIELDS = new Set([
   'dueDate',
   'completedAt',
   'tags',
-  'reminderMinutes',
-  'reminderSent',
+  'reminderOffsets',
   'priority',
   'effortHours',
   'listId',
+  'parentId',
 ]);
 
 const VALID_STATUSES = ['PENDING', 'IN_PROGRESS', 'COMPLETE'] as const;
@@ -31,8 +34,8 @@ export interface CreateTaskInput {
   dueDate?: string;
   completedAt?: string;
   tags?: string[];
-  reminderMinutes?: number;
-  reminderSent?: boolean;
+  reminderOffsets?: number[];
+  parentId?: string;
   [key: string]: unknown;
 }
 
@@ -40,62 +43,94 @@ export interface CreateTaskResult {
   success: boolean;
   item?: Record<string, unknown>;
   error?: string;
+  // Set when an earlier call with the same idempotency key already created the task
+  alreadyCreated?: boolean;
 }
 
-export function buildCreateTaskItem(
-  input: CreateTaskInput,
-  owner: string,
-): { item: Record<string, unknown> | null; error: string | null; unknownFields: string[] } {
-  const unknownFields: string[] = [];
+// Reminders are stored as a list of offsets, each with its own sent state
+export function remindersFromOffsets(offsets: number[]): { offsetMinutes: number; sentAt: null }[] {
+  return [...new Set(offsets)].sort((a, b) => b - a).map((offsetMinutes) => ({ offsetMinutes, sentAt: null }));
+}
 
-  // Validate required fields
-  if (!input.title) {
-    return { item: null, error: 'Missing required field: title', unknownFields };
+/**
+ * Read a dueDate the agent wrote. With an offset it is an instant; without one it is wall-clock
+ * time in the user's timezone, so "2026-03-05T17:00:00" is 5pm where the user is. Due dates are
+ * stored in UTC so the dueDate indexes sort and compare them correctly.
+ */
+export function resolveDueDate(value: string, timeZone: string): { dueDate: string | null; error: string | null } {
+  // Check if it's just a date (YYYY-MM-DD) without time
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return {
+      dueDate: null,
+      error: `Invalid dueDate format: ${value}. Must be ISO 8601 with time (e.g., 2026-03-05T23:59:59 in the user's timezone), not just a date.`,
+    };
   }
-  if (!input.listId) {
-    return { item: null, error: 'Missing required field: listId', unknownFields };
+  const date = parseZonedDateTime(value, timeZone);
+  if (date) return { dueDate: date.toISOString(), error: null };
+  // A local time that reads in UTC, which has no DST, was skipped when the clocks went forward
+  if (zonedTimeToUtc(value, 'UTC')) {
+    return { dueDate: null, error: `Invalid dueDate: ${value} does not exist in ${timeZone} (the clocks go forward then).` };
   }
+  return { dueDate: null, error: `Invalid dueDate: ${value}. Must be a valid ISO 8601 datetime.` };
+}
 
+/**
+ * Check the optional task fields shared by every tool that writes tasks: status and
+ * priority enums, an ISO 8601 dueDate with a time (read in `timeZone` when it has no offset),
+ * and reminder offsets in whole minutes. Returns the first problem found, or null.
+ */
+export function validateTaskFields(
+  input: Partial<CreateTaskInput>,
+  timeZone: string = DEFAULT_TIMEZONE,
+): string | null {
   // Validate status enum if provided
   if (input.status && !(VALID_STATUSES as readonly string[]).includes(input.status)) {
-    return {
-      item: null,
-      error: `Invalid status: ${input.status}. Valid values: ${VALID_STATUSES.join(', ')}`,
-      unknownFields,
-    };
+    return `Invalid status: ${input.status}. Valid values: ${VALID_STATUSES.join(', ')}`;
   }
 
   // Validate priority enum if provided
   if (input.priority && !(VALID_PRIORITIES as readonly string[]).includes(input.priority)) {
-    return {
-      item: null,
-      error: `Invalid priority: ${input.priority}. Valid values: ${VALID_PRIORITIES.join(', ')}`,
-      unknownFields,
-    };
+    return `Invalid priority: ${input.priority}. Valid values: ${VALID_PRIORITIES.join(', ')}`;
   }
 
   // Validate dueDate format if provided - must be ISO 8601 with time
   if (input.dueDate) {
-    const dateStr = String(input.dueDate);
-    // Check if it's just a date (YYYY-MM-DD) without time
-    if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
-      return {
-        item: null,
-        error: `Invalid dueDate format: ${dateStr}. Must be ISO 8601 with time (e.g., 2026-03-05T23:59:59.999Z), not just a date.`,
-        unknownFields,
-      };
-    }
-    // Check if it's a valid ISO 8601 datetime
-    const date = new Date(dateStr);
-    if (isNaN(date.getTime())) {
-      return {
-        item: null,
-        error: `Invalid dueDate: ${dateStr}. Must be a valid ISO 8601 datetime.`,
-        unknownFields,
-      };
+    const { error } = resolveDueDate(String(input.dueDate), timeZone);
+    if (error) return error;
+  }
+
+  // Validate reminderOffsets if provided - positive whole minutes before the due date
+  if (input.reminderOffsets !== undefined) {
+    const offsets = input.reminderOffsets;
+    if (!Array.isArray(offsets) || offsets.some((o) => !Number.isInteger(o) || o <= 0)) {
+      return `Invalid reminderOffsets: ${JSON.stringify(offsets)}. Must be an array of positive whole minutes before the due date.`;
     }
   }
 
+  return null;
+}
+
+export function buildCreateTaskItem(
+  input: CreateTaskInput,
+  owner: string,
+  id: string = randomUUID(),
+  timeZone: string = DEFAULT_TIMEZONE,
+): { item: Record<string, unknown> | null; error: string | null; unknownFields: string[] } {
+  const unknownFields: string[] = [];
+
+  // Validate required fields
+  if (!input.title) {
+    return { item: null, error: 'Missing required field: title', unknownFields };
+  }
+  if (!input.listId) {
+    return { item: null, error: 'Missing required field: listId', unknownFields };
+  }
+
+  const fieldError = validateTaskFields(input, timeZone);
+  if (fieldError) {
+    return { item: null, error: fieldError, unknownFields };
+  }
+
   // Strip unknown fields
   for (const key of Object.keys(input)) {
     if (!KNOWN_FIELDS.has(key)) {
@@ -105,7 +140,7 @@ export function buildCreateTaskItem(
 
   // Build item with only known fields
   const item: Record<string, unknown> = {
-    id: randomUUID(),
+    id,
     owner,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
@@ -117,16 +152,41 @@ export function buildCreateTaskItem(
     }
   }
 
+  if (item.dueDate) {
+    item.dueDate = resolveDueDate(String(item.dueDate), timeZone).dueDate;
+  }
+
+  if (item.reminderOffsets !== undefined) {
+    item.reminders = remindersFromOffsets(item.reminderOffsets as number[]);
+    delete item.reminderOffsets;
+  }
+
   return { item, error: null, unknownFields };
 }
 
+/**
+ * Create one task. With an idempotency key (see tools/idempotency.ts) the task's ID comes from
+ * the key, and a repeat of the call returns the task the first one created.
+ */
 export async function createTask(
   input: CreateTaskInput,
   docClient: DynamoDBDocumentClient,
   tableName: string,
-  owner: string,
+  scope: TenantScope,
+  idempotencyKey?: string,
 ): Promise<CreateTaskResult> {
-  const { item, error, unknownFields } = buildCreateTaskItem(input, owner);
+  // Items in a shared list belong to the list owner, as when created in the app
+  const { list, error: scopeError } = authorizeListWrite(scope, input.listId);
+  if (!list) {
+    return { success: false, error: scopeError ?? 'List not found' };
+  }
+
+  const { item, error, unknownFields } = buildCreateTaskItem(
+    input,
+    list.owner,
+    idempotencyKey ? idempotentItemId(idempotencyKey, '0') : undefined,
+    scopeTimezone(scope),
+  );
 
   if (unknownFields.length > 0) {
     logger.warn('Unknown fields stripped from create_task input', { unknownFields });
@@ -137,14 +197,23 @@ export async function createTask(
   }
 
   try {
+    if (input.parentId && !(await isTaskInList(docClient, tableName, input.parentId, list.id))) {
+      return { success: false, error: `Parent task not found in list: ${input.parentId}` };
+    }
+
     await docClient.send(
       new PutCommand({
         TableName: tableName,
         Item: item,
+        ...(idempotencyKey ? { ConditionExpression: 'attribute_not_exists(id)' } : {}),
       }),
     );
     return { success: true, item };
   } catch (err) {
+    if (idempotencyKey && err instanceof Error && err.name === 'ConditionalCheckFailedException') {
+      logger.info('create_task already applied', { taskId: item.id });
+      return { success: true, item, alreadyCreated: true };
+    }
     const message = err instanceof Error ? err.message : 'DynamoDB PutItem failed';
     logger.error('create_task DynamoDB error', { error: err });
     return { success: false, error: message };
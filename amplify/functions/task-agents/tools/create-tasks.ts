@@ -1,16 +1,31 @@
-import { DynamoDBDocumentClient, BatchWriteCommand, BatchWriteCommandOutput } from '@aws-sdk/lib-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  BatchGetCommand,
+  BatchGetCommandOutput,
+  BatchWriteCommand,
+  BatchWriteCommandOutput,
+} from '@aws-sdk/lib-dynamodb';
 import { Logger } from '@aws-lambda-powertools/logger';
 import { buildCreateTaskItem, CreateTaskInput } from './create-task.js';
+import { idempotentItemId } from './idempotency.js';
+import { authorizeListWrite, isTaskInList, scopeTimezone, type TenantScope } from './tenant-scope.js';
 
 const logger = new Logger({ serviceName: 'task-agents' });
 
 const CHUNK_SIZE = 25;
+const GET_CHUNK_SIZE = 100;
 const MAX_RETRIES = 3;
 const BASE_DELAY_MS = 100;
+const MAX_SUBTASK_DEPTH = 3;
+
+export interface CreateTaskTreeInput extends CreateTaskInput {
+  subtasks?: CreateTaskTreeInput[];
+}
 
 export interface CreateTasksInput {
   listId: string;
-  tasks: Array<CreateTaskInput>;
+  parentId?: string;
+  tasks: Array<CreateTaskTreeInput>;
 }
 
 export interface CreateTasksResult {
@@ -19,6 +34,8 @@ export interface CreateTasksResult {
   items?: Record<string, unknown>[];
   errors?: string[];
   error?: string;
+  // Tasks an earlier call with the same idempotency key already created (not in createdCount)
+  alreadyCreated?: number;
 }
 
 function chunkArray<T>(arr: T[], size: number): T[][] {
@@ -33,11 +50,93 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Validate a (possibly nested) task tree and flatten it into items ready to write.
+ * Each subtask gets the generated id of its parent as `parentId`; parents are
+ * emitted before their children. Errors are reported by path (e.g. "Task 0.2").
+ * `idFor` gives each task's id from its path instead of a random one. Due dates without an
+ * offset are read in `timeZone`.
+ */
+export function flattenTaskTree(
+  tasks: CreateTaskTreeInput[],
+  listId: string,
+  owner: string,
+  parentId?: string,
+  idFor?: (path: string) => string,
+  timeZone?: string,
+): { items: Record<string, unknown>[]; errors: string[] } {
+  const items: Record<string, unknown>[] = [];
+  const errors: string[] = [];
+
+  const visit = (nodes: CreateTaskTreeInput[], parent: string | undefined, path: string, depth: number) => {
+    nodes.forEach((node, i) => {
+      const label = path ? `${path}.${i}` : String(i);
+      const { subtasks, ...task } = node;
+
+      if (subtasks !== undefined && !Array.isArray(subtasks)) {
+        errors.push(`Task ${label}: subtasks must be an array`);
+        return;
+      }
+      if (subtasks && subtasks.length > 0 && depth >= MAX_SUBTASK_DEPTH) {
+        errors.push(`Task ${label}: subtasks nested deeper than ${MAX_SUBTASK_DEPTH} levels`);
+        return;
+      }
+
+      const { item, error } = buildCreateTaskItem(
+        { ...task, listId, parentId: parent },
+        owner,
+        idFor?.(label),
+        timeZone,
+      );
+      if (error || !item) {
+        errors.push(`Task ${label}: ${error ?? 'Unknown validation error'}`);
+        logger.error('Task validation failed', { taskPath: label, error, task });
+        return;
+      }
+
+      items.push(item);
+      if (subtasks && subtasks.length > 0) {
+        visit(subtasks, item.id as string, label, depth + 1);
+      }
+    });
+  };
+
+  visit(tasks, parentId, '', 1);
+  return { items, errors };
+}
+
+// The ids among `ids` that already have an item
+async function findExistingIds(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  ids: string[],
+): Promise<Set<string>> {
+  const existing = new Set<string>();
+  for (const chunk of chunkArray(ids, GET_CHUNK_SIZE)) {
+    let keys: Record<string, unknown>[] | undefined = chunk.map((id) => ({ id }));
+    for (let attempt = 0; keys && keys.length > 0; attempt++) {
+      if (attempt > MAX_RETRIES) throw new Error('Retries exhausted checking for tasks already created');
+      if (attempt > 0) await sleep(BASE_DELAY_MS * Math.pow(2, attempt - 1));
+      const response: BatchGetCommandOutput = await docClient.send(
+        new BatchGetCommand({ RequestItems: { [tableName]: { Keys: keys, ProjectionExpression: 'id' } } }),
+      );
+      for (const item of response.Responses?.[tableName] ?? []) existing.add(item.id as string);
+      keys = response.UnprocessedKeys?.[tableName]?.Keys;
+    }
+  }
+  return existing;
+}
+
+/**
+ * Create a task tree. With an idempotency key (see tools/idempotency.ts) each task's id comes
+ * from the key and its path, and tasks an earlier call with the key already wrote are skipped.
+ */
 export async function createTasks(
   input: CreateTasksInput,
   docClient: DynamoDBDocumentClient,
   tableName: string,
-  owner: string,
+  scope: TenantScope,
+  idempotencyKey?: string,
 ): Promise<CreateTasksResult> {
   logger.info('create_tasks called', { 
     listId: input.listId, 
@@ -57,30 +156,59 @@ export async function createTasks(
     return { success: false, createdCount: 0, error: 'tasks array is empty' };
   }
 
-  // Validate all tasks first — all-or-nothing
-  const validatedItems: Record<string, unknown>[] = [];
-  const errors: string[] = [];
-
-  for (let i = 0; i < input.tasks.length; i++) {
-    const task = input.tasks[i];
-    const { item, error } = buildCreateTaskItem({ ...task, listId: input.listId }, owner);
-    if (error || !item) {
-      errors.push(`Task ${i}: ${error ?? 'Unknown validation error'}`);
-      logger.error('Task validation failed', { taskIndex: i, error, task });
-    } else {
-      validatedItems.push(item);
-    }
+  // Items in a shared list belong to the list owner, as when created in the app
+  const { list, error: scopeError } = authorizeListWrite(scope, input.listId);
+  if (!list) {
+    return { success: false, createdCount: 0, error: scopeError ?? 'List not found' };
   }
 
+  // Validate all tasks (including nested subtasks) first — all-or-nothing
+  const { items: validatedItems, errors } = flattenTaskTree(
+    input.tasks,
+    input.listId,
+    list.owner,
+    input.parentId,
+    idempotencyKey ? (path) => idempotentItemId(idempotencyKey, path) : undefined,
+    scopeTimezone(scope),
+  );
+
   if (errors.length > 0) {
     logger.error('create_tasks validation failed', { errors, taskCount: input.tasks.length });
     return { success: false, createdCount: 0, errors };
   }
 
+  if (input.parentId) {
+    try {
+      if (!(await isTaskInList(docClient, tableName, input.parentId, list.id))) {
+        return { success: false, createdCount: 0, error: `Parent task not found in list: ${input.parentId}` };
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'DynamoDB GetItem failed';
+      logger.error('create_tasks parent lookup failed', { error: err });
+      return { success: false, createdCount: 0, error: message };
+    }
+  }
+
   logger.info('All tasks validated', { validatedCount: validatedItems.length });
 
+  let pendingItems = validatedItems;
+  if (idempotencyKey) {
+    try {
+      const existing = await findExistingIds(docClient, tableName, validatedItems.map((item) => item.id as string));
+      pendingItems = validatedItems.filter((item) => !existing.has(item.id as string));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'DynamoDB BatchGetItem failed';
+      logger.error('create_tasks idempotency check failed', { error: err });
+      return { success: false, createdCount: 0, error: message };
+    }
+    if (pendingItems.length < validatedItems.length) {
+      logger.info('create_tasks already applied', { alreadyCreated: validatedItems.length - pendingItems.length });
+    }
+  }
+  const alreadyCreated = validatedItems.length - pendingItems.length;
+
   // Chunk and write
-  const chunks = chunkArray(validatedItems, CHUNK_SIZE);
+  const chunks = chunkArray(pendingItems, CHUNK_SIZE);
   let totalWritten = 0;
 
   for (const chunk of chunks) {
@@ -137,12 +265,13 @@ export async function createTasks(
 
   logger.info('create_tasks completed successfully', { 
     totalWritten, 
-    requestedCount: input.tasks.length 
+    requestedCount: validatedItems.length 
   });
 
   return {
     success: true,
     createdCount: totalWritten,
     items: validatedItems,
+    ...(alreadyCreated > 0 ? { alreadyCreated } : {}),
   };
 }
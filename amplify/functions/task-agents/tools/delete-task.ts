@@ -0,0 +1,52 @@
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { authorizeTaskWrite, fetchSubtasks, type TenantScope } from './tenant-scope.js';
+
+const logger = new Logger({ serviceName: 'task-agents' });
+
+export interface DeleteTaskResult {
+  success: boolean;
+  items?: { id: string; title: string }[];
+  error?: string;
+}
+
+/**
+ * Soft-delete a task and its subtasks: they are stamped with deletedAt and hidden from the
+ * app and every tool, but stay in the table so a mistaken delete can be recovered.
+ */
+export async function deleteTask(
+  input: { taskId?: string },
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  scope: TenantScope,
+): Promise<DeleteTaskResult> {
+  try {
+    const { task, error } = await authorizeTaskWrite(docClient, tableName, scope, input.taskId);
+    if (!task) {
+      return { success: false, error: error ?? 'Task not found' };
+    }
+
+    const deleted = [task, ...(await fetchSubtasks(docClient, tableName, task.id as string))];
+    const now = new Date().toISOString();
+
+    // Subtasks first, so a failure part-way never leaves visible subtasks under a deleted parent
+    for (const item of [...deleted].reverse()) {
+      await docClient.send(
+        new UpdateCommand({
+          TableName: tableName,
+          Key: { id: item.id },
+          UpdateExpression: 'SET deletedAt = :now, updatedAt = :now',
+          ConditionExpression: 'attribute_exists(id)',
+          ExpressionAttributeValues: { ':now': now },
+        }),
+      );
+    }
+
+    logger.info('delete_task soft-deleted tasks', { taskId: task.id, count: deleted.length });
+    return { success: true, items: deleted.map((item) => ({ id: item.id as string, title: item.title as string })) };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'DynamoDB UpdateItem failed';
+    logger.error('delete_task DynamoDB error', { error: err });
+    return { success: false, error: message };
+  }
+}
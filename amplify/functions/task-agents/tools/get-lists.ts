@@ -1,43 +1,52 @@
-import { DynamoDBDocumentClient, ScanCommand } from '@aws-sdk/lib-dynamodb';
-import { Logger } from '@aws-lambda-powertools/logger';
+import type { TenantScope } from './tenant-scope.js';
+import { INVALID_CURSOR, decodeCursor, encodeCursor, pageSize } from './pagination.js';
 
-const logger = new Logger({ serviceName: 'task-agents' });
+export interface GetListsInput {
+  limit?: number;
+  cursor?: string;
+}
 
 export interface TodoListItem {
   id: string;
   name: string;
   description?: string;
+  shared: boolean;
+  canEdit: boolean;
 }
 
 export interface GetListsResult {
   success: boolean;
   items?: TodoListItem[];
+  nextCursor?: string;
   error?: string;
 }
 
-export async function getLists(
-  docClient: DynamoDBDocumentClient,
-  tableName: string,
-): Promise<GetListsResult> {
-  try {
-    const result = await docClient.send(
-      new ScanCommand({
-        TableName: tableName,
-        ProjectionExpression: 'id, #name, description',
-        ExpressionAttributeNames: { '#name': 'name' },
-      }),
-    );
+/**
+ * The caller's own lists and the lists shared with their groups; never anyone else's.
+ * Returns one page at a time; nextCursor is set while more lists remain.
+ */
+export function getLists(input: GetListsInput, scope: TenantScope): GetListsResult {
+  let offset = 0;
+  if (input.cursor) {
+    const position = decodeCursor(input.cursor);
+    if (typeof position?.offset !== 'number' || position.offset < 0) {
+      return { success: false, error: INVALID_CURSOR };
+    }
+    offset = position.offset;
+  }
 
-    const items = (result.Items ?? []).map((item) => ({
-      id: item.id as string,
-      name: item.name as string,
-      description: item.description as string | undefined,
-    }));
+  const end = offset + pageSize(input.limit);
+  const items = scope.lists.slice(offset, end).map((list) => ({
+    id: list.id,
+    name: list.name,
+    description: list.description,
+    shared: list.owner !== scope.userId,
+    canEdit: list.canEdit,
+  }));
 
-    return { success: true, items };
-  } catch (err) {
-    const message = err instanceof Error ? err.message : 'DynamoDB scan failed';
-    logger.error('get_lists DynamoDB error', { error: err });
-    return { success: false, error: message };
-  }
+  return {
+    success: true,
+    items,
+    ...(end < scope.lists.length ? { nextCursor: encodeCursor({ offset: end }) } : {}),
+  };
 }
@@ -1,30 +1,72 @@
-import { DynamoDBDocumentClient, QueryCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { BatchGetCommand, DynamoDBDocumentClient, QueryCommand, type QueryCommandOutput } from '@aws-sdk/lib-dynamodb';
 import { Logger } from '@aws-lambda-powertools/logger';
+import { endOfZonedDay, parseZonedDateTime } from '../../shared/timezones.js';
+import { findScopedList, isScopedTask, scopedListIds, scopeTimezone, type TenantScope } from './tenant-scope.js';
+import { INVALID_CURSOR, decodeCursor, encodeCursor, pageSize } from './pagination.js';
 
 const logger = new Logger({ serviceName: 'task-agents' });
 
-const KNOWN_FILTERS = new Set(['listId', 'status', 'dueDateBefore', 'dueDateAfter']);
+const KNOWN_FILTERS = new Set([
+  'listId',
+  'status',
+  'dueDateBefore',
+  'dueDateAfter',
+  'excludeBlocked',
+  'assigneeId',
+  'limit',
+  'cursor',
+]);
+
+const BATCH_GET_SIZE = 100;
 
 export interface GetTasksInput {
   listId?: string;
   status?: string;
   dueDateBefore?: string;
   dueDateAfter?: string;
+  excludeBlocked?: boolean;
+  assigneeId?: string;
+  limit?: number;
+  cursor?: string;
   [key: string]: unknown;
 }
 
 export interface GetTasksResult {
   success: boolean;
   items?: Record<string, unknown>[];
+  nextCursor?: string;
   error?: string;
 }
 
+// Where a paged get_tasks call stopped: the index of the query being read and, part-way
+// through it, the LastEvaluatedKey to resume from
+interface TaskCursor {
+  query: number;
+  key?: Record<string, unknown>;
+}
+
+type QueryParams = ConstructorParameters<typeof QueryCommand>[0];
+
+// Due date range as a sort key condition (byList and byAssignee are both sorted by dueDate)
+function dueDateCondition(dueDateAfter?: string, dueDateBefore?: string): string | undefined {
+  if (dueDateAfter && dueDateBefore) return 'dueDate BETWEEN :dueDateAfter AND :dueDateBefore';
+  if (dueDateAfter) return 'dueDate >= :dueDateAfter';
+  if (dueDateBefore) return 'dueDate <= :dueDateBefore';
+  return undefined;
+}
+
+/**
+ * Build the index queries for a get_tasks call. There is no scan: tasks are read per list
+ * from the byList GSI (the requested list, or every list in the caller's scope), or from the
+ * byAssignee GSI when filtering by assignee across lists. Assignee results can span tenants,
+ * so getTasks narrows every result to the caller's lists.
+ */
 export function buildGetTasksQuery(
   input: GetTasksInput,
   tableName: string,
+  scopeListIds: string[],
 ): {
-  command: 'query' | 'scan';
-  params: Record<string, unknown>;
+  queries: QueryParams[];
   unknownFields: string[];
 } {
   const unknownFields: string[] = [];
@@ -34,122 +76,206 @@ export function buildGetTasksQuery(
     }
   }
 
-  const { listId, status, dueDateBefore, dueDateAfter } = input;
+  const { listId, status, dueDateBefore, dueDateAfter, assigneeId } = input;
+  const dateCondition = dueDateCondition(dueDateAfter, dueDateBefore);
+  const dateValues: Record<string, unknown> = {};
+  if (dueDateAfter) dateValues[':dueDateAfter'] = dueDateAfter;
+  if (dueDateBefore) dateValues[':dueDateBefore'] = dueDateBefore;
 
-  // Build date filter expressions (used across strategies)
-  const dateFilterParts: string[] = [];
-  const exprValues: Record<string, unknown> = {};
+  // Strategy: assigneeId without listId → byAssignee GSI
+  if (assigneeId && !listId) {
+    const keyExpr = 'assigneeId = :assigneeId';
+    const params: Record<string, unknown> = {
+      TableName: tableName,
+      IndexName: 'byAssignee',
+      KeyConditionExpression: dateCondition ? `${keyExpr} AND ${dateCondition}` : keyExpr,
+      ExpressionAttributeValues: { ...dateValues, ':assigneeId': assigneeId },
+    };
+    if (status) {
+      params.FilterExpression = '#status = :status';
+      params.ExpressionAttributeNames = { '#status': 'status' };
+      (params.ExpressionAttributeValues as Record<string, unknown>)[':status'] = status;
+    }
 
-  if (dueDateAfter) {
-    dateFilterParts.push('dueDate >= :dueDateAfter');
-    exprValues[':dueDateAfter'] = dueDateAfter;
+    return { queries: [params as QueryParams], unknownFields };
   }
-  if (dueDateBefore) {
-    dateFilterParts.push('dueDate <= :dueDateBefore');
-    exprValues[':dueDateBefore'] = dueDateBefore;
+
+  // Strategy: byList GSI for the requested list, or for each list in scope.
+  // Status and assignee become filter expressions.
+  const filterParts: string[] = [];
+  const filterValues: Record<string, unknown> = {};
+  if (status) {
+    filterParts.push('#status = :status');
+    filterValues[':status'] = status;
+  }
+  if (assigneeId) {
+    filterParts.push('assigneeId = :assigneeId');
+    filterValues[':assigneeId'] = assigneeId;
   }
 
-  // Strategy: listId provided → use byList GSI
-  if (listId) {
+  const queries = (listId ? [listId] : scopeListIds).map((id) => {
     const keyExpr = 'listId = :listId';
-    exprValues[':listId'] = listId;
-
-    // Due date range can be a sort key condition on byList GSI
-    let sortKeyExpr: string | undefined;
-    const sortKeyParts: string[] = [];
-    if (dueDateAfter && dueDateBefore) {
-      sortKeyExpr = 'dueDate BETWEEN :dueDateAfter AND :dueDateBefore';
-    } else if (dueDateAfter) {
-      sortKeyParts.push('dueDate >= :dueDateAfter');
-      sortKeyExpr = sortKeyParts.join(' AND ');
-    } else if (dueDateBefore) {
-      sortKeyParts.push('dueDate <= :dueDateBefore');
-      sortKeyExpr = sortKeyParts.join(' AND ');
-    }
-
-    const fullKeyExpr = sortKeyExpr ? `${keyExpr} AND ${sortKeyExpr}` : keyExpr;
-
-    // Status becomes a filter expression
-    let filterExpr: string | undefined;
-    if (status) {
-      filterExpr = '#status = :status';
-      exprValues[':status'] = status;
-    }
-
     const params: Record<string, unknown> = {
       TableName: tableName,
       IndexName: 'byList',
-      KeyConditionExpression: fullKeyExpr,
-      ExpressionAttributeValues: exprValues,
+      KeyConditionExpression: dateCondition ? `${keyExpr} AND ${dateCondition}` : keyExpr,
+      ExpressionAttributeValues: { ...dateValues, ...filterValues, ':listId': id },
     };
-    if (filterExpr) {
-      params.FilterExpression = filterExpr;
+    if (filterParts.length > 0) {
+      params.FilterExpression = filterParts.join(' AND ');
+    }
+    if (status) {
       params.ExpressionAttributeNames = { '#status': 'status' };
     }
+    return params as QueryParams;
+  });
 
-    return { command: 'query', params, unknownFields };
-  }
+  return { queries, unknownFields };
+}
 
-  // Strategy: status provided (no listId) → use byStatus GSI
-  if (status) {
-    const keyExpr = '#status = :status';
-    exprValues[':status'] = status;
-
-    let sortKeyExpr: string | undefined;
-    if (dueDateAfter && dueDateBefore) {
-      sortKeyExpr = 'dueDate BETWEEN :dueDateAfter AND :dueDateBefore';
-    } else if (dueDateAfter) {
-      sortKeyExpr = 'dueDate >= :dueDateAfter';
-    } else if (dueDateBefore) {
-      sortKeyExpr = 'dueDate <= :dueDateBefore';
-    }
+function blockerIds(item: Record<string, unknown>): string[] {
+  return Array.isArray(item.blockedBy)
+    ? (item.blockedBy as unknown[]).filter((id): id is string => typeof id === 'string' && id.length > 0)
+    : [];
+}
 
-    const fullKeyExpr = sortKeyExpr ? `${keyExpr} AND ${sortKeyExpr}` : keyExpr;
+/**
+ * Mark each task with `isBlocked` and the ids of its incomplete prerequisites (`openBlockers`).
+ * `statusById` must contain the status of every known prerequisite; unknown (deleted)
+ * prerequisites do not block.
+ */
+export function annotateBlockedTasks(
+  items: Record<string, unknown>[],
+  statusById: Map<string, unknown>,
+): Record<string, unknown>[] {
+  return items.map((item) => {
+    const openBlockers = blockerIds(item).filter(
+      (id) => statusById.has(id) && statusById.get(id) !== 'COMPLETE',
+    );
+    return { ...item, isBlocked: openBlockers.length > 0, openBlockers };
+  });
+}
 
-    const params: Record<string, unknown> = {
-      TableName: tableName,
-      IndexName: 'byStatus',
-      KeyConditionExpression: fullKeyExpr,
-      ExpressionAttributeValues: exprValues,
-      ExpressionAttributeNames: { '#status': 'status' },
-    };
+// Look up the status of prerequisites that were not part of the query result. Prerequisites
+// outside the caller's lists are treated as unknown, so their status never leaks; deleted
+// prerequisites are unknown too, so they no longer block.
+async function fetchBlockerStatuses(
+  items: Record<string, unknown>[],
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  listIds: Set<string>,
+): Promise<Map<string, unknown>> {
+  const statusById = new Map<string, unknown>(items.map((item) => [item.id as string, item.status]));
+  const missing = [...new Set(items.flatMap(blockerIds))].filter((id) => !statusById.has(id));
 
-    return { command: 'query', params, unknownFields };
+  for (let i = 0; i < missing.length; i += BATCH_GET_SIZE) {
+    const keys = missing.slice(i, i + BATCH_GET_SIZE).map((id) => ({ id }));
+    const result = await docClient.send(
+      new BatchGetCommand({
+        RequestItems: {
+          [tableName]: {
+            Keys: keys,
+            ProjectionExpression: 'id, #status, listId, deletedAt',
+            ExpressionAttributeNames: { '#status': 'status' },
+          },
+        },
+      }),
+    );
+    for (const found of result.Responses?.[tableName] ?? []) {
+      if (listIds.has(found.listId as string) && !found.deletedAt) {
+        statusById.set(found.id as string, found.status);
+      }
+    }
   }
 
-  // Strategy: only date filters or no filters → scan
-  const filterParts = [...dateFilterParts];
-  const params: Record<string, unknown> = { TableName: tableName };
+  return statusById;
+}
 
-  if (filterParts.length > 0) {
-    params.FilterExpression = filterParts.join(' AND ');
-    params.ExpressionAttributeValues = exprValues;
-  }
+function decodeTaskCursor(cursor: string | undefined): TaskCursor | null {
+  if (!cursor) return { query: 0 };
+  const position = decodeCursor(cursor);
+  if (typeof position?.query !== 'number' || position.query < 0) return null;
+  const key = position.key && typeof position.key === 'object' ? (position.key as Record<string, unknown>) : undefined;
+  return { query: position.query, key };
+}
 
-  return { command: 'scan', params, unknownFields };
+/**
+ * One page of tasks, read from the index queries in order. A page holds at most `limit`
+ * tasks and may hold fewer (DynamoDB applies Limit before filters, and excludeBlocked is
+ * applied last); nextCursor is set while more remain. Pass the same filters with the cursor.
+ */
+// Due date bounds are read in the user's timezone like due dates, then compared with the stored
+// UTC due dates. A bare date bounds the whole day; anything unreadable is compared as written.
+function resolveDueDateBound(value: string | undefined, bound: 'after' | 'before', timeZone: string): string | undefined {
+  if (!value) return value;
+  const date =
+    bound === 'before' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? endOfZonedDay(value, timeZone)
+      : parseZonedDateTime(value, timeZone);
+  return date ? date.toISOString() : value;
 }
 
 export async function getTasks(
   input: GetTasksInput,
   docClient: DynamoDBDocumentClient,
   tableName: string,
+  scope: TenantScope,
 ): Promise<GetTasksResult> {
-  const { command, params, unknownFields } = buildGetTasksQuery(input, tableName);
+  if (input.listId && !findScopedList(scope, input.listId)) {
+    return { success: false, error: `List not found: ${input.listId}` };
+  }
+
+  let position: TaskCursor | null = decodeTaskCursor(input.cursor);
+  if (!position) {
+    return { success: false, error: INVALID_CURSOR };
+  }
+
+  const listIds = scopedListIds(scope);
+  const timeZone = scopeTimezone(scope);
+  const { queries, unknownFields } = buildGetTasksQuery(
+    {
+      ...input,
+      dueDateAfter: resolveDueDateBound(input.dueDateAfter, 'after', timeZone),
+      dueDateBefore: resolveDueDateBound(input.dueDateBefore, 'before', timeZone),
+    },
+    tableName,
+    [...listIds],
+  );
 
   if (unknownFields.length > 0) {
     logger.warn('Unknown filter fields ignored in get_tasks', { unknownFields });
   }
 
   try {
-    let items: Record<string, unknown>[];
-    if (command === 'query') {
-      const result = await docClient.send(new QueryCommand(params as ConstructorParameters<typeof QueryCommand>[0]));
-      items = (result.Items ?? []) as Record<string, unknown>[];
-    } else {
-      const result = await docClient.send(new ScanCommand(params as ConstructorParameters<typeof ScanCommand>[0]));
-      items = (result.Items ?? []) as Record<string, unknown>[];
+    const limit = pageSize(input.limit);
+    let items: Record<string, unknown>[] = [];
+    while (position.query < queries.length && items.length < limit) {
+      const result: QueryCommandOutput = await docClient.send(
+        new QueryCommand({
+          ...queries[position.query],
+          Limit: limit - items.length,
+          ExclusiveStartKey: position.key,
+        }),
+      );
+      items.push(
+        ...((result.Items ?? []) as Record<string, unknown>[]).filter(
+          (item) => isScopedTask(scope, item) && !item.deletedAt,
+        ),
+      );
+      position = result.LastEvaluatedKey
+        ? { query: position.query, key: result.LastEvaluatedKey }
+        : { query: position.query + 1 };
     }
-    return { success: true, items };
+
+    const statusById = await fetchBlockerStatuses(items, docClient, tableName, listIds);
+    items = annotateBlockedTasks(items, statusById);
+    if (input.excludeBlocked) {
+      items = items.filter((item) => !item.isBlocked);
+    }
+
+    const nextCursor =
+      position.query < queries.length ? encodeCursor({ query: position.query, key: position.key }) : undefined;
+    return { success: true, items, ...(nextCursor ? { nextCursor } : {}) };
   } catch (err) {
     const message = err instanceof Error ? err.message : 'DynamoDB query failed';
     logger.error('get_tasks DynamoDB error', { error: err });
@@ -0,0 +1,34 @@
+import { createHash } from 'crypto';
+
+// Idempotency keys for tool writes. A job's tool calls are keyed by the job, and the tasks a
+// keyed call creates get IDs derived from its key, so making the same call again (a retried
+// stream batch, or the agent repeating itself) finds its tasks already there instead of
+// creating them twice. Updates, completions, moves and deletes set a final state and are safe
+// to repeat as they are.
+
+// JSON with object keys sorted, so equal inputs give equal keys whatever their key order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/** The key of one tool call made under `baseKey` (e.g. a job ID): the same call gets the same key. */
+export function toolCallKey(baseKey: string, tool: string, input: unknown): string {
+  return createHash('sha256').update(`${baseKey}\n${tool}\n${canonicalJson(input)}`).digest('hex').slice(0, 32);
+}
+
+/**
+ * The ID of an item created by a keyed write, shaped like a UUID. `path` tells apart the items
+ * one write creates (e.g. "0.2" for the third subtask of the first task).
+ */
+export function idempotentItemId(key: string, path: string): string {
+  const hex = createHash('sha256').update(`${key}:${path}`).digest('hex');
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
@@ -0,0 +1,102 @@
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { buildTodoUpdate } from '../../shared/todo-updates.js';
+import {
+  authorizeListWrite,
+  authorizeTaskWrite,
+  fetchSubtasks,
+  type ScopedList,
+  type TenantScope,
+} from './tenant-scope.js';
+
+const logger = new Logger({ serviceName: 'task-agents' });
+
+export interface MoveTaskInput {
+  taskId?: string;
+  listId?: string;
+}
+
+export interface MoveTaskResult {
+  success: boolean;
+  items?: { id: string; title: string }[];
+  error?: string;
+}
+
+/**
+ * The changes that move one task of a moved subtree into `target`. The moved task leaves
+ * its parent behind; prerequisites are kept only where they moved too, since dependencies
+ * never cross lists. Items belong to the target list's owner, and an assignee is kept only
+ * when both lists are shared with the same group.
+ */
+export function buildMoveChanges(
+  item: Record<string, unknown>,
+  rootId: string,
+  movedIds: Set<string>,
+  source: ScopedList,
+  target: ScopedList,
+): Record<string, unknown> {
+  const fields: Record<string, unknown> = { listId: target.id, owner: target.owner };
+
+  if (item.id === rootId && item.parentId) {
+    fields.parentId = null;
+  }
+
+  if (Array.isArray(item.blockedBy)) {
+    const blockedBy = (item.blockedBy as string[]).filter((id) => movedIds.has(id));
+    if (blockedBy.length !== item.blockedBy.length) {
+      fields.blockedBy = blockedBy.length > 0 ? blockedBy : null;
+    }
+  }
+
+  if (item.assigneeId && (!target.groupId || target.groupId !== source.groupId)) {
+    fields.assigneeId = null;
+    fields.assigneeEmail = null;
+  }
+
+  return fields;
+}
+
+/** Move a task, with its subtasks, to another list the user can edit. */
+export async function moveTask(
+  input: MoveTaskInput,
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  scope: TenantScope,
+): Promise<MoveTaskResult> {
+  try {
+    const { task, list: source, error: taskError } = await authorizeTaskWrite(docClient, tableName, scope, input.taskId);
+    if (!task || !source) {
+      return { success: false, error: taskError ?? 'Task not found' };
+    }
+
+    const { list: target, error: listError } = authorizeListWrite(scope, input.listId);
+    if (!target) {
+      return { success: false, error: listError ?? 'List not found' };
+    }
+    if (target.id === source.id) {
+      return { success: false, error: `Task is already in list: ${target.name}` };
+    }
+
+    const moved = [task, ...(await fetchSubtasks(docClient, tableName, task.id as string))];
+    const movedIds = new Set(moved.map((item) => item.id as string));
+    const now = new Date();
+
+    for (const item of moved) {
+      await docClient.send(
+        new UpdateCommand({
+          TableName: tableName,
+          Key: { id: item.id },
+          ...buildTodoUpdate(buildMoveChanges(item, task.id as string, movedIds, source, target), now),
+          ConditionExpression: 'attribute_exists(id)',
+        }),
+      );
+    }
+
+    logger.info('move_task moved tasks', { taskId: task.id, from: source.id, to: target.id, count: moved.length });
+    return { success: true, items: moved.map((item) => ({ id: item.id as string, title: item.title as string })) };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'DynamoDB UpdateItem failed';
+    logger.error('move_task DynamoDB error', { error: err });
+    return { success: false, error: message };
+  }
+}
@@ -0,0 +1,31 @@
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+/** Page size for a tool call: the agent's `limit`, clamped to 1..MAX_PAGE_SIZE. */
+export function pageSize(limit: unknown): number {
+  if (typeof limit !== 'number' || !Number.isFinite(limit)) return DEFAULT_PAGE_SIZE;
+  return Math.min(Math.max(Math.floor(limit), 1), MAX_PAGE_SIZE);
+}
+
+/**
+ * Cursors are opaque to the agent: base64url-encoded JSON of wherever the tool stopped.
+ * They are only ever used to resume reads that are filtered to the caller's scope anyway,
+ * so a tampered cursor cannot widen what a tool returns.
+ */
+export function encodeCursor(position: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+/** The position encoded in a cursor, or null if it is not one of ours. */
+export function decodeCursor(cursor: string): Record<string, unknown> | null {
+  try {
+    const position: unknown = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return position && typeof position === 'object' && !Array.isArray(position)
+      ? (position as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export const INVALID_CURSOR = 'Invalid cursor: pass nextCursor from the previous result unchanged';
@@ -0,0 +1,238 @@
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { buildCreateTaskItem, createTask, type CreateTaskInput } from './create-task.js';
+import { createTasks, flattenTaskTree, type CreateTasksInput } from './create-tasks.js';
+import { buildTaskChanges, completeTask, dependencyProblem, updateTask, type UpdateTaskInput } from './update-task.js';
+import { deleteTask } from './delete-task.js';
+import { moveTask, type MoveTaskInput } from './move-task.js';
+import { toolCallKey } from './idempotency.js';
+import { validateAgentResponse, type AgentResponse } from '../validate-response.js';
+import { authorizeListWrite, authorizeTaskWrite, fetchSubtasks, scopeTimezone, type TenantScope } from './tenant-scope.js';
+
+const logger = new Logger({ serviceName: 'task-agents' });
+
+// Tools that change the user's tasks. In a dry run they are proposed, not run.
+export const WRITE_TOOLS = [
+  'create_task',
+  'create_tasks',
+  'update_task',
+  'complete_task',
+  'delete_task',
+  'move_task',
+] as const;
+
+export type WriteTool = (typeof WRITE_TOOLS)[number];
+
+export interface ProposedAction {
+  id: string;
+  tool: WriteTool;
+  input: Record<string, unknown>;
+  summary: string;
+}
+
+export interface AppliedAction {
+  id: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * A one-line description of what a write tool call would do, or the reason it would fail.
+ * Runs the same scope and field checks as the tool itself, so the agent hears about a bad
+ * call straight away instead of the user finding out when they apply it.
+ */
+export async function describeAction(
+  tool: WriteTool,
+  input: Record<string, unknown>,
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  scope: TenantScope,
+): Promise<{ summary: string | null; error: string | null }> {
+  if (tool === 'create_task' || tool === 'create_tasks') {
+    const { list, error } = authorizeListWrite(scope, input.listId as string | undefined);
+    if (!list) return { summary: null, error };
+
+    if (tool === 'create_task') {
+      const { error: itemError } = buildCreateTaskItem(
+        input as unknown as CreateTaskInput,
+        list.owner,
+        undefined,
+        scopeTimezone(scope),
+      );
+      if (itemError) return { summary: null, error: itemError };
+      return { summary: `Create "${input.title}" in ${list.name}`, error: null };
+    }
+
+    if (!Array.isArray(input.tasks) || input.tasks.length === 0) {
+      return { summary: null, error: 'Missing required field: tasks' };
+    }
+    const { items, errors } = flattenTaskTree(
+      input.tasks,
+      list.id,
+      list.owner,
+      input.parentId as string | undefined,
+      undefined,
+      scopeTimezone(scope),
+    );
+    if (errors.length > 0) return { summary: null, error: errors.join('; ') };
+    return { summary: `Create ${items.length} ${items.length === 1 ? 'task' : 'tasks'} in ${list.name}`, error: null };
+  }
+
+  const { task, error } = await authorizeTaskWrite(docClient, tableName, scope, input.taskId as string | undefined);
+  if (!task) return { summary: null, error };
+  const title = `"${task.title}"`;
+
+  switch (tool) {
+    case 'update_task': {
+      const { fields, error: fieldError } = buildTaskChanges(input as UpdateTaskInput, task, new Date(), scopeTimezone(scope));
+      if (!fields) return { summary: null, error: fieldError };
+      if (Array.isArray(fields.blockedBy)) {
+        const dependencyError = await dependencyProblem(docClient, tableName, task, fields.blockedBy as string[]);
+        if (dependencyError) return { summary: null, error: dependencyError };
+      }
+      const changed = Object.keys(fields).filter((key) => key !== 'completedAt');
+      return { summary: `Update ${title}: ${changed.join(', ')}`, error: null };
+    }
+    case 'complete_task': {
+      const { fields, error: fieldError } = buildTaskChanges({ status: 'COMPLETE' }, task, new Date());
+      if (!fields) return { summary: null, error: fieldError };
+      const recurs = !!task.recurrenceRule && !task.nextOccurrenceId;
+      return { summary: recurs ? `Complete ${title} and schedule its next occurrence` : `Complete ${title}`, error: null };
+    }
+    case 'delete_task': {
+      const subtasks = await fetchSubtasks(docClient, tableName, task.id as string);
+      const suffix = subtasks.length > 0 ? ` and ${subtasks.length} ${subtasks.length === 1 ? 'subtask' : 'subtasks'}` : '';
+      return { summary: `Delete ${title}${suffix}`, error: null };
+    }
+    case 'move_task': {
+      const { list: target, error: listError } = authorizeListWrite(scope, input.listId as string | undefined);
+      if (!target) return { summary: null, error: listError };
+      if (target.id === task.listId) return { summary: null, error: `Task is already in list: ${target.name}` };
+      return { summary: `Move ${title} to ${target.name}`, error: null };
+    }
+  }
+}
+
+/**
+ * Whether a request is a dry run, whose writes are only recorded for the user to confirm.
+ * Freeform requests (including those without a queryType) and playbook runs always are,
+ * whichever transport they arrive on.
+ */
+export function isDryRun(queryType: string | undefined, requestData: Record<string, unknown>): boolean {
+  return !queryType || queryType === 'freeform' || queryType === 'runPlaybook' || requestData.dryRun === true;
+}
+
+/**
+ * Collects the write tool calls of a dry run for the user to confirm. `record`
+ * stands in for the tool callback and returns what the agent sees as the tool result.
+ */
+export function createProposalLog(docClient: DynamoDBDocumentClient, tableName: string, scope: TenantScope) {
+  const actions: ProposedAction[] = [];
+
+  return {
+    actions,
+    async record(tool: WriteTool, input: unknown): Promise<string> {
+      const args = (input ?? {}) as Record<string, unknown>;
+      try {
+        const { summary, error } = await describeAction(tool, args, docClient, tableName, scope);
+        if (!summary) {
+          return JSON.stringify({ success: false, error: error ?? 'Invalid request' });
+        }
+
+        const action: ProposedAction = { id: `action-${actions.length + 1}`, tool, input: args, summary };
+        actions.push(action);
+        logger.info('Recorded proposed action', { tool, actionId: action.id });
+        return JSON.stringify({
+          success: true,
+          proposed: true,
+          actionId: action.id,
+          summary,
+          message: 'Recorded for the user to confirm; not applied yet',
+        });
+      } catch (err) {
+        logger.error('Failed to record proposed action', { tool, error: err });
+        return JSON.stringify({ success: false, error: err instanceof Error ? err.message : 'Failed to check request' });
+      }
+    },
+  };
+}
+
+/**
+ * The stored result of a dry run: the agent's answer with the changeset alongside it. A
+ * freeform or playbook answer may be prose or JSON; the specialists answer with their
+ * queryType's schema.
+ */
+export function buildProposalResult(queryType: string, raw: string, actions: ProposedAction[]): AgentResponse {
+  const parsed = validateAgentResponse(raw, queryType);
+  if (queryType === 'freeform' || queryType === 'runPlaybook') {
+    const answer = parsed.success ? { result: parsed.data } : { answer: raw.trim() };
+    return { success: true, data: { ...answer, actions } };
+  }
+  if (!parsed.success) return parsed;
+  return { success: true, data: { ...(parsed.data as Record<string, unknown>), actions } };
+}
+
+export type ProposalLog = ReturnType<typeof createProposalLog>;
+
+/** The confirmed actions sent back by the client, or null if they are malformed. */
+export function parseActions(raw: unknown): ProposedAction[] | null {
+  let value: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  if (!Array.isArray(value)) return null;
+
+  const valid = value.every(
+    (action) =>
+      action !== null &&
+      typeof action === 'object' &&
+      typeof action.id === 'string' &&
+      (WRITE_TOOLS as readonly string[]).includes(action.tool) &&
+      action.input !== null &&
+      typeof action.input === 'object',
+  );
+  return valid ? (value as ProposedAction[]) : null;
+}
+
+/**
+ * Run one confirmed action through its tool. The input comes back from the client, so it
+ * goes through the tool's own scope and field checks again rather than being trusted.
+ */
+export async function applyAction(
+  action: ProposedAction,
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  scope: TenantScope,
+  idempotencyKey?: string,
+): Promise<AppliedAction> {
+  // Applying the same action again under the same key (e.g. the apply job's ID) is a no-op
+  const key = idempotencyKey && toolCallKey(idempotencyKey, action.tool, action.id);
+  let result: { success: boolean; error?: string; errors?: string[] };
+  switch (action.tool) {
+    case 'create_task':
+      result = await createTask(action.input, docClient, tableName, scope, key);
+      break;
+    case 'create_tasks':
+      result = await createTasks(action.input as unknown as CreateTasksInput, docClient, tableName, scope, key);
+      break;
+    case 'update_task':
+      result = await updateTask(action.input as UpdateTaskInput, docClient, tableName, scope);
+      break;
+    case 'complete_task':
+      result = await completeTask(action.input as { taskId?: string }, docClient, tableName, scope);
+      break;
+    case 'delete_task':
+      result = await deleteTask(action.input as { taskId?: string }, docClient, tableName, scope);
+      break;
+    case 'move_task':
+      result = await moveTask(action.input as MoveTaskInput, docClient, tableName, scope);
+      break;
+  }
+
+  const error = result.error ?? result.errors?.join('; ');
+  return result.success ? { id: action.id, success: true } : { id: action.id, success: false, error };
+}
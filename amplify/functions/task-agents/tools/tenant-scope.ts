@@ -0,0 +1,241 @@
+import { BatchGetCommand, DynamoDBDocumentClient, GetCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { canAccessList, isListItem, roleOf, type GroupRecord } from '../../group-access/roles.js';
+import { DEFAULT_TIMEZONE, resolveTimezone } from '../../shared/timezones.js';
+
+const BATCH_GET_SIZE = 100;
+
+export interface TenantTables {
+  todoListTable: string;
+  listGroupTable: string;
+  groupMembershipTable: string;
+  // When set, the scope carries the user's timezone setting
+  userSettingsTable?: string;
+}
+
+export interface ScopedList {
+  id: string;
+  name: string;
+  description?: string;
+  owner: string;
+  groupId?: string;
+  canEdit: boolean;
+}
+
+/**
+ * Everything an agent may touch on behalf of one user: their own lists plus the lists shared
+ * with groups they own or belong to. Every tool call is checked against this scope.
+ */
+export interface TenantScope {
+  userId: string;
+  groupIds: string[];
+  lists: ScopedList[];
+  /** The user's IANA timezone; dates written without an offset are wall-clock time in it. */
+  timeZone?: string;
+}
+
+type Item = Record<string, unknown>;
+
+export function findScopedList(scope: TenantScope, listId: string | undefined): ScopedList | undefined {
+  return listId ? scope.lists.find((list) => list.id === listId) : undefined;
+}
+
+/** The timezone the agent's dates are read in: the user's setting, else UTC. */
+export function scopeTimezone(scope: TenantScope): string {
+  return scope.timeZone ?? DEFAULT_TIMEZONE;
+}
+
+/** Whether a task is part of one of the scope's lists (see isListItem). */
+export function isScopedTask(scope: TenantScope, task: Item): boolean {
+  const list = findScopedList(scope, task.listId as string);
+  return !!list && isListItem(task, list);
+}
+
+export function scopedListIds(scope: TenantScope): Set<string> {
+  return new Set(scope.lists.map((list) => list.id));
+}
+
+/**
+ * The list a write may target, or the reason it may not. Unknown lists and lists outside
+ * the scope get the same message, so the agent cannot probe for other users' lists.
+ */
+export function authorizeListWrite(
+  scope: TenantScope,
+  listId: string | undefined,
+): { list: ScopedList | null; error: string | null } {
+  const list = findScopedList(scope, listId);
+  if (!list) return { list: null, error: `List not found: ${listId}` };
+  if (!list.canEdit) return { list: null, error: `Your role in this list's group does not allow editing: ${list.name}` };
+  return { list, error: null };
+}
+
+/** Whether a task exists in the given list, e.g. before nesting new subtasks under it. */
+export async function isTaskInList(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  taskId: string,
+  listId: string,
+): Promise<boolean> {
+  const result = await docClient.send(
+    new GetCommand({ TableName: tableName, Key: { id: taskId }, ProjectionExpression: 'listId, deletedAt' }),
+  );
+  return result.Item?.listId === listId && !result.Item.deletedAt;
+}
+
+/**
+ * The task a write may target and the list it is in, or the reason it may not. Tasks that
+ * are deleted or in lists outside the scope are reported as not found, like lists are.
+ */
+export async function authorizeTaskWrite(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  scope: TenantScope,
+  taskId: string | undefined,
+): Promise<{ task: Item | null; list: ScopedList | null; error: string | null }> {
+  if (!taskId) return { task: null, list: null, error: 'Missing required field: taskId' };
+
+  const result = await docClient.send(new GetCommand({ TableName: tableName, Key: { id: taskId } }));
+  const task = result.Item as Item | undefined;
+  if (!task || task.deletedAt || !isScopedTask(scope, task)) {
+    return { task: null, list: null, error: `Task not found: ${taskId}` };
+  }
+
+  const { list, error } = authorizeListWrite(scope, task.listId as string);
+  return list ? { task, list, error: null } : { task: null, list: null, error };
+}
+
+/** Every live subtask below a task, depth first, read from the byParent GSI. */
+export async function fetchSubtasks(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  taskId: string,
+): Promise<Item[]> {
+  const children = await queryByKey(docClient, tableName, 'byParent', 'parentId', taskId);
+  const subtasks: Item[] = [];
+  for (const child of children.filter((item) => !item.deletedAt)) {
+    subtasks.push(child, ...(await fetchSubtasks(docClient, tableName, child.id as string)));
+  }
+  return subtasks;
+}
+
+// Follow LastEvaluatedKey so large partitions are read completely
+async function queryAll(
+  docClient: DynamoDBDocumentClient,
+  params: ConstructorParameters<typeof QueryCommand>[0],
+): Promise<Item[]> {
+  const items: Item[] = [];
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const result = await docClient.send(new QueryCommand({ ...params, ExclusiveStartKey: startKey }));
+    items.push(...((result.Items ?? []) as Item[]));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+  return items;
+}
+
+/** Every item in an index partition, e.g. a user's records in a byOwner index. */
+export async function queryByKey(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  indexName: string,
+  attribute: string,
+  value: string,
+): Promise<Item[]> {
+  return queryAll(docClient, {
+    TableName: tableName,
+    IndexName: indexName,
+    KeyConditionExpression: '#key = :value',
+    ExpressionAttributeNames: { '#key': attribute },
+    ExpressionAttributeValues: { ':value': value },
+  });
+}
+
+/** Groups by ID, in batches; groups that no longer exist are left out. */
+export async function batchGetGroups(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  ids: string[],
+): Promise<GroupRecord[]> {
+  const groups: GroupRecord[] = [];
+  for (let i = 0; i < ids.length; i += BATCH_GET_SIZE) {
+    const result = await docClient.send(
+      new BatchGetCommand({
+        RequestItems: { [tableName]: { Keys: ids.slice(i, i + BATCH_GET_SIZE).map((id) => ({ id })) } },
+      }),
+    );
+    groups.push(...((result.Responses?.[tableName] ?? []) as GroupRecord[]));
+  }
+  return groups;
+}
+
+/** Tasks by ID, in batches; tasks that no longer exist are left out. */
+export async function batchGetTasks(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  ids: string[],
+): Promise<Item[]> {
+  const tasks: Item[] = [];
+  for (let i = 0; i < ids.length; i += BATCH_GET_SIZE) {
+    const result = await docClient.send(
+      new BatchGetCommand({
+        RequestItems: { [tableName]: { Keys: ids.slice(i, i + BATCH_GET_SIZE).map((id) => ({ id })) } },
+      }),
+    );
+    tasks.push(...((result.Responses?.[tableName] ?? []) as Item[]));
+  }
+  return tasks;
+}
+
+/**
+ * Resolve a user's scope with owner- and member-keyed index queries only: lists and groups
+ * they own (byOwner), groups they joined (GroupMembership byMember), then the lists shared
+ * with each of those groups (byGroup). Group membership is re-checked on the group itself,
+ * so a stale membership record never grants access.
+ */
+export async function loadTenantScope(
+  docClient: DynamoDBDocumentClient,
+  tables: TenantTables,
+  userId: string,
+): Promise<TenantScope> {
+  if (!userId) return { userId, groupIds: [], lists: [] };
+
+  const [ownedLists, ownedGroups, memberships, settings] = await Promise.all([
+    queryByKey(docClient, tables.todoListTable, 'byOwner', 'owner', userId),
+    queryByKey(docClient, tables.listGroupTable, 'byOwner', 'owner', userId),
+    queryByKey(docClient, tables.groupMembershipTable, 'byMember', 'memberId', userId),
+    tables.userSettingsTable ? queryByKey(docClient, tables.userSettingsTable, 'byUser', 'userId', userId) : null,
+  ]);
+
+  const groupsById = new Map<string, GroupRecord>();
+  for (const group of ownedGroups as GroupRecord[]) {
+    groupsById.set(group.id!, group);
+  }
+  const joinedIds = [...new Set(memberships.map((m) => m.groupId as string))].filter((id) => !groupsById.has(id));
+  for (const group of await batchGetGroups(docClient, tables.listGroupTable, joinedIds)) {
+    if (roleOf(group, userId)) groupsById.set(group.id!, group);
+  }
+  const groupIds = [...groupsById.keys()];
+
+  const sharedLists = await Promise.all(
+    groupIds.map((groupId) => queryByKey(docClient, tables.todoListTable, 'byGroup', 'groupId', groupId)),
+  );
+
+  const lists = new Map<string, ScopedList>();
+  for (const item of [...ownedLists, ...sharedLists.flat()]) {
+    const record = { owner: item.owner as string, groupId: item.groupId as string | undefined };
+    const group = record.groupId ? groupsById.get(record.groupId) : null;
+    if (lists.has(item.id as string) || !canAccessList(record, group, userId, 'view')) continue;
+
+    lists.set(item.id as string, {
+      id: item.id as string,
+      name: item.name as string,
+      description: item.description as string | undefined,
+      owner: record.owner,
+      groupId: record.groupId,
+      canEdit: canAccessList(record, group, userId, 'edit'),
+    });
+  }
+
+  const scope: TenantScope = { userId, groupIds, lists: [...lists.values()] };
+  if (settings) scope.timeZone = resolveTimezone(settings[0]?.timezone as string | undefined);
+  return scope;
+}
@@ -0,0 +1,288 @@
+import { randomUUID } from 'crypto';
+import { DynamoDBDocumentClient, TransactWriteCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { nextOccurrence, parseRecurrenceRule } from '../../shared/recurrence.js';
+import { buildNextOccurrenceWrites, buildTodoUpdate } from '../../shared/todo-updates.js';
+import { dependencyCycleProblem, loadDependencyChain, type DependencyLink } from '../../shared/task-dependencies.js';
+import { DEFAULT_TIMEZONE } from '../../shared/timezones.js';
+import { remindersFromOffsets, resolveDueDate, validateTaskFields } from './create-task.js';
+import { authorizeTaskWrite, batchGetTasks, scopeTimezone, type TenantScope } from './tenant-scope.js';
+
+const logger = new Logger({ serviceName: 'task-agents' });
+
+// Fields the agent may change on an existing task. Placement (listId, parentId) changes
+// through move_task; ownership never changes here.
+const UPDATABLE_FIELDS = new Set([
+  'title',
+  'description',
+  'status',
+  'dueDate',
+  'tags',
+  'reminderOffsets',
+  'priority',
+  'effortHours',
+  'blockedBy',
+]);
+
+// Fields that may be cleared by passing null
+const CLEARABLE_FIELDS = new Set(['description', 'dueDate', 'tags', 'priority', 'effortHours', 'blockedBy']);
+
+// Fields a recurring task's next occurrence copies, as when the app schedules it
+const OCCURRENCE_FIELDS = [
+  'listId',
+  'owner',
+  'title',
+  'description',
+  'tags',
+  'priority',
+  'effortHours',
+  'parentId',
+  'recurrenceRule',
+  'assigneeId',
+  'assigneeEmail',
+];
+
+export interface UpdateTaskInput {
+  taskId?: string;
+  title?: string;
+  description?: string | null;
+  status?: string;
+  priority?: string | null;
+  effortHours?: number | null;
+  dueDate?: string | null;
+  tags?: string[] | null;
+  reminderOffsets?: number[];
+  blockedBy?: string[] | null;
+  [key: string]: unknown;
+}
+
+export interface UpdateTaskResult {
+  success: boolean;
+  item?: Record<string, unknown>;
+  /** The next occurrence created when the update completed a recurring task. */
+  nextOccurrence?: Record<string, unknown>;
+  error?: string;
+}
+
+type Reminder = { offsetMinutes: number; sentAt: string | null };
+
+/**
+ * The changes to apply to `current` for an update_task call, validated like
+ * buildCreateTaskItem. Completing a task stamps completedAt, and a new due date re-arms
+ * every reminder (as editing the due date in the app does). `null` clears a field. A due date
+ * without an offset is read in `timeZone`.
+ */
+export function buildTaskChanges(
+  input: UpdateTaskInput,
+  current: Record<string, unknown>,
+  now: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
+): { fields: Record<string, unknown> | null; error: string | null; unknownFields: string[] } {
+  const unknownFields = Object.keys(input).filter((key) => key !== 'taskId' && !UPDATABLE_FIELDS.has(key));
+
+  if (input.title !== undefined && (typeof input.title !== 'string' || input.title.trim() === '')) {
+    return { fields: null, error: 'Invalid title: must be a non-empty string', unknownFields };
+  }
+  for (const key of ['status', 'reminderOffsets']) {
+    if (input[key] === null) {
+      return { fields: null, error: `Invalid ${key}: cannot be cleared`, unknownFields };
+    }
+  }
+
+  if (input.blockedBy != null && (!Array.isArray(input.blockedBy) || input.blockedBy.some((id) => typeof id !== 'string'))) {
+    return { fields: null, error: 'Invalid blockedBy: must be an array of task IDs', unknownFields };
+  }
+
+  const fieldError = validateTaskFields(
+    {
+      status: input.status,
+      priority: input.priority ?? undefined,
+      dueDate: input.dueDate ?? undefined,
+      reminderOffsets: input.reminderOffsets,
+    },
+    timeZone,
+  );
+  if (fieldError) {
+    return { fields: null, error: fieldError, unknownFields };
+  }
+
+  const fields: Record<string, unknown> = {};
+  for (const key of UPDATABLE_FIELDS) {
+    const value = input[key];
+    if (value === undefined || (value === null && !CLEARABLE_FIELDS.has(key))) continue;
+    fields[key] = key === 'title' ? (value as string).trim() : value;
+  }
+
+  if (Object.keys(fields).length === 0) {
+    return {
+      fields: null,
+      error: `No fields to update. Updatable fields: ${[...UPDATABLE_FIELDS].join(', ')}`,
+      unknownFields,
+    };
+  }
+
+  if (typeof fields.dueDate === 'string') {
+    fields.dueDate = resolveDueDate(fields.dueDate, timeZone).dueDate;
+  }
+
+  if (fields.status === 'COMPLETE' && current.status !== 'COMPLETE') {
+    fields.completedAt = now.toISOString();
+  }
+
+  if (fields.reminderOffsets !== undefined) {
+    fields.reminders = remindersFromOffsets(fields.reminderOffsets as number[]);
+    delete fields.reminderOffsets;
+  } else if (fields.dueDate !== undefined && fields.dueDate !== current.dueDate && Array.isArray(current.reminders)) {
+    fields.reminders = (current.reminders as Reminder[]).map((reminder) => ({ ...reminder, sentAt: null }));
+  }
+
+  return { fields, error: null, unknownFields };
+}
+
+/**
+ * The next occurrence of a recurring task completed at `now`, as the app creates it: a copy
+ * due on the rule's next date in `timeZone`, with its reminders re-armed. Null when the task
+ * does not recur, already has its next occurrence, or has a rule that cannot be read.
+ */
+export function buildNextOccurrence(
+  task: Record<string, unknown>,
+  now: Date,
+  timeZone: string = DEFAULT_TIMEZONE,
+): Record<string, unknown> | null {
+  if (typeof task.recurrenceRule !== 'string' || task.nextOccurrenceId) return null;
+  const rule = parseRecurrenceRule(task.recurrenceRule);
+  if (!rule.success) {
+    logger.warn('Invalid recurrence rule, not creating next occurrence', { taskId: task.id, error: rule.error });
+    return null;
+  }
+
+  const completedAt = typeof task.completedAt === 'string' ? new Date(task.completedAt) : now;
+  const dueDate = typeof task.dueDate === 'string' ? new Date(task.dueDate) : null;
+  const item: Record<string, unknown> = {
+    id: randomUUID(),
+    status: 'PENDING',
+    dueDate: nextOccurrence(rule.data, dueDate, completedAt, timeZone).toISOString(),
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+  for (const key of OCCURRENCE_FIELDS) {
+    if (task[key] !== undefined && task[key] !== null) item[key] = task[key];
+  }
+
+  // Reminders stay relative to the due date, so they shift with it
+  if (Array.isArray(task.reminders)) {
+    item.reminders = (task.reminders as Reminder[]).map((reminder) => ({ ...reminder, sentAt: null }));
+  } else if (typeof task.reminderMinutes === 'number') {
+    item.reminders = remindersFromOffsets([task.reminderMinutes]);
+  }
+  return item;
+}
+
+// Create and link the next occurrence in one transaction, so completing the task again (here
+// or in the app) never creates a second one
+async function scheduleNextOccurrence(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  task: Record<string, unknown>,
+  now: Date,
+  timeZone: string,
+): Promise<Record<string, unknown> | undefined> {
+  const next = buildNextOccurrence(task, now, timeZone);
+  if (!next) return undefined;
+  try {
+    await docClient.send(
+      new TransactWriteCommand({ TransactItems: buildNextOccurrenceWrites(tableName, task.id as string, next, now) }),
+    );
+    return next;
+  } catch (err) {
+    if ((err as { name?: string }).name !== 'TransactionCanceledException') throw err;
+    return undefined;
+  }
+}
+
+/**
+ * Why `task` may not have the prerequisites `blockedBy`, or null when it may. Prerequisites
+ * must be live tasks in the same list, and must not depend on the task themselves, directly
+ * or through other tasks.
+ */
+export async function dependencyProblem(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  task: Record<string, unknown>,
+  blockedBy: string[],
+): Promise<string | null> {
+  const chain = await loadDependencyChain(
+    blockedBy,
+    (ids) => batchGetTasks(docClient, tableName, ids) as Promise<(Record<string, unknown> & DependencyLink)[]>,
+  );
+  const live = new Set(
+    chain.filter((item) => item.listId === task.listId && !item.deletedAt).map((item) => item.id),
+  );
+  const missing = blockedBy.find((id) => id !== task.id && !live.has(id));
+  if (missing) return `Prerequisite task not found in this list: ${missing}`;
+  return dependencyCycleProblem(chain, task.id as string, blockedBy);
+}
+
+export async function updateTask(
+  input: UpdateTaskInput,
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  scope: TenantScope,
+): Promise<UpdateTaskResult> {
+  try {
+    const { task, error: scopeError } = await authorizeTaskWrite(docClient, tableName, scope, input.taskId);
+    if (!task) {
+      return { success: false, error: scopeError ?? 'Task not found' };
+    }
+
+    const now = new Date();
+    const timeZone = scopeTimezone(scope);
+    const { fields, error, unknownFields } = buildTaskChanges(input, task, now, timeZone);
+
+    if (unknownFields.length > 0) {
+      logger.warn('Unknown fields ignored in update_task input', { unknownFields });
+    }
+
+    if (error || !fields) {
+      return { success: false, error: error ?? 'Unknown error' };
+    }
+    if (Array.isArray(fields.blockedBy)) {
+      const dependencyError = await dependencyProblem(docClient, tableName, task, fields.blockedBy as string[]);
+      if (dependencyError) return { success: false, error: dependencyError };
+    }
+
+    const result = await docClient.send(
+      new UpdateCommand({
+        TableName: tableName,
+        Key: { id: task.id },
+        ...buildTodoUpdate(fields, now),
+        ConditionExpression: 'attribute_exists(id)',
+        ReturnValues: 'ALL_NEW',
+      }),
+    );
+
+    // Completing a recurring task schedules its next occurrence, as completing it in the app does
+    const next =
+      fields.status === 'COMPLETE' && result.Attributes
+        ? await scheduleNextOccurrence(docClient, tableName, result.Attributes, now, timeZone)
+        : undefined;
+    return { success: true, item: result.Attributes, ...(next ? { nextOccurrence: next } : {}) };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'DynamoDB UpdateItem failed';
+    logger.error('update_task DynamoDB error', { error: err });
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Mark a task COMPLETE; a recurring task gets its next occurrence. Completing an already
+ * completed task changes nothing else.
+ */
+export async function completeTask(
+  input: { taskId?: string },
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  scope: TenantScope,
+): Promise<UpdateTaskResult> {
+  return updateTask({ taskId: input.taskId, status: 'COMPLETE' }, docClient, tableName, scope);
+}
@@ -0,0 +1,103 @@
+import type { AgentStreamEvent } from '@strands-agents/sdk';
+import { estimateCostUsd, type AgentModelUsage } from '../shared/agent-models.js';
+import {
+  MAX_TRACE_ENTRIES,
+  truncateTraceText,
+  type AgentTrace,
+  type AgentTraceEntry,
+} from '../shared/agent-trace.js';
+import { AGENT_TOOL_NAMES } from '../shared/playbooks.js';
+import { createModelMeter } from './model-routing.js';
+import { toolSucceeded } from './stream-frames.js';
+
+// Records the trace of one agent run. The runtime passes it the orchestrator's stream events
+// (hand-overs to specialists and model usage) and every tool call; `finish` summarizes it for
+// the AgentJob and the logs.
+
+function isTaskTool(name: string): boolean {
+  return (AGENT_TOOL_NAMES as readonly string[]).includes(name);
+}
+
+function describeInput(input: unknown): string {
+  if (input === undefined) return '';
+  return truncateTraceText(typeof input === 'string' ? input : JSON.stringify(input));
+}
+
+export function createTraceRecorder(modelId: string, now: () => number = Date.now) {
+  const startedAt = now();
+  const meter = createModelMeter(modelId, now);
+  const entries: AgentTraceEntry[] = [];
+  let omitted = 0;
+  const counts = { delegations: 0, toolCalls: 0, failedToolCalls: 0, modelCalls: 0 };
+
+  const add = (entry: AgentTraceEntry) => {
+    if (entries.length < MAX_TRACE_ENTRIES) entries.push(entry);
+    else omitted++;
+  };
+  const elapsed = () => now() - startedAt;
+
+  return {
+    /** An orchestrator stream event. The orchestrator's tools are its specialists, so a tool use there is a hand-over. */
+    record(event: AgentStreamEvent) {
+      meter.record(event);
+      if (event.type === 'modelContentBlockStartEvent' && event.start?.type === 'toolUseStart' && !isTaskTool(event.start.name)) {
+        counts.delegations++;
+        add({ kind: 'delegation', agent: event.start.name, atMs: elapsed() });
+      } else if (event.type === 'modelMetadataEvent' && event.usage) {
+        counts.modelCalls++;
+        add({
+          kind: 'model',
+          inputTokens: event.usage.inputTokens,
+          outputTokens: event.usage.outputTokens,
+          latencyMs: event.metrics?.latencyMs,
+          atMs: elapsed(),
+        });
+      }
+    },
+
+    /** A task tool call that ran (or was answered for the agent), with how long it took. */
+    toolCall(tool: string, input: unknown, output: string, latencyMs: number, proposed = false) {
+      const success = toolSucceeded(output);
+      counts.toolCalls++;
+      if (!success) counts.failedToolCalls++;
+      add({
+        kind: 'tool',
+        tool,
+        input: describeInput(input),
+        output: truncateTraceText(output),
+        success,
+        ...(proposed ? { proposed } : {}),
+        latencyMs,
+        atMs: elapsed() - latencyMs,
+      });
+    },
+
+    /** The agent's answer failed validation and it was asked to correct it. */
+    repair(error: string) {
+      add({ kind: 'repair', error: truncateTraceText(error), atMs: elapsed() });
+    },
+
+    finish(): { trace: AgentTrace; usage: AgentModelUsage } {
+      const usage = meter.finish();
+      const inputTokens = usage.inputTokens ?? 0;
+      const outputTokens = usage.outputTokens ?? 0;
+      return {
+        usage,
+        trace: {
+          modelId,
+          durationMs: usage.latencyMs,
+          entries,
+          omitted,
+          totals: {
+            ...counts,
+            inputTokens,
+            outputTokens,
+            costUsd: estimateCostUsd(modelId, inputTokens, outputTokens),
+          },
+        },
+      };
+    },
+  };
+}
+
+export type TraceRecorder = ReturnType<typeof createTraceRecorder>;
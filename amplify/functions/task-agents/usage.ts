@@ -0,0 +1,51 @@
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import type { AgentTrace } from '../shared/agent-trace.js';
+
+// Per-user monthly totals of agent runs, kept in the AgentUsage model. Each finished run adds
+// its tokens, tool calls and estimated cost to the record for the user and month, which the
+// owner reads on the agent history page. Months are UTC calendar months.
+
+/** e.g. "2026-03" */
+export function usageMonth(now: Date): string {
+  return now.toISOString().slice(0, 7);
+}
+
+/** The AgentUsage record ID for a user and month. */
+export function usageId(userId: string, month: string): string {
+  return `${userId}:${month}`;
+}
+
+/** Add one run to the user's totals for the month it finished in. */
+export async function recordMonthlyUsage(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  userId: string,
+  trace: AgentTrace,
+  now: Date = new Date(),
+): Promise<void> {
+  if (!tableName || !userId) return;
+
+  const month = usageMonth(now);
+  const timestamp = now.toISOString();
+  await docClient.send(
+    new UpdateCommand({
+      TableName: tableName,
+      Key: { id: usageId(userId, month) },
+      UpdateExpression:
+        'SET #typename = :typename, userId = :userId, #month = :month, createdAt = if_not_exists(createdAt, :now), updatedAt = :now ' +
+        'ADD requests :one, inputTokens :inputTokens, outputTokens :outputTokens, toolCalls :toolCalls, costUsd :costUsd',
+      ExpressionAttributeNames: { '#typename': '__typename', '#month': 'month' },
+      ExpressionAttributeValues: {
+        ':typename': 'AgentUsage',
+        ':userId': userId,
+        ':month': month,
+        ':now': timestamp,
+        ':one': 1,
+        ':inputTokens': trace.totals.inputTokens,
+        ':outputTokens': trace.totals.outputTokens,
+        ':toolCalls': trace.totals.toolCalls,
+        ':costUsd': trace.totals.costUsd,
+      },
+    }),
+  );
+}
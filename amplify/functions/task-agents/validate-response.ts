@@ -1,25 +1,98 @@
+import { getAgentOutputSchema } from '../shared/agent-schemas.js';
+
 export interface AgentResponse {
   success: boolean;
   data?: unknown;
   error?: string;
   rawResponse?: string;
+  validationErrors?: string[];
 }
 
-export function validateAgentResponse(raw: string): AgentResponse {
+// How many times the model is asked to correct an answer before the request fails
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Parse the model's answer and, when its queryType has an output schema, validate it and
+ * return the canonical shape. Freeform and unknown queryTypes only need to be JSON.
+ */
+export function validateAgentResponse(raw: string, queryType?: string): AgentResponse {
+  let data: unknown;
   try {
     // Strip markdown code blocks if present
     let cleaned = raw.trim();
-    
+
     // Remove ```json ... ``` or ``` ... ``` wrappers
     const codeBlockMatch = cleaned.match(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/);
     if (codeBlockMatch) {
       cleaned = codeBlockMatch[1].trim();
     }
-    
-    const data = JSON.parse(cleaned);
-    return { success: true, data };
+
+    data = JSON.parse(cleaned);
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Invalid JSON response';
     return { success: false, error: message, rawResponse: raw };
   }
+
+  const schema = getAgentOutputSchema(queryType);
+  if (!schema) return { success: true, data };
+
+  const parsed = schema.parse(data);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: `Response does not match the ${queryType} schema: ${parsed.errors.join('; ')}`,
+      rawResponse: raw,
+      validationErrors: parsed.errors,
+    };
+  }
+  return { success: true, data: parsed.data };
+}
+
+/** The prompt that asks the model to correct an answer that failed validation. */
+export function buildRepairPrompt(prompt: string, rejected: AgentResponse, queryType?: string): string {
+  const problems = rejected.validationErrors ?? [rejected.error ?? 'The answer could not be read'];
+  const schema = getAgentOutputSchema(queryType);
+
+  return [
+    prompt,
+    '',
+    'Your previous answer could not be used:',
+    ...problems.map((problem) => `- ${problem}`),
+    '',
+    'Previous answer:',
+    rejected.rawResponse ?? '',
+    '',
+    ...(schema ? [`Expected fields: ${schema.fields}`, ''] : []),
+    'Reply again with ONLY the corrected raw JSON object. Do not call any tools that change tasks; that work is already done.',
+  ].join('\n');
+}
+
+export interface RepairOptions {
+  maxAttempts?: number;
+  /** Called before each re-prompt, e.g. to report progress. */
+  onRepair?: (attempt: number, rejected: AgentResponse) => Promise<void> | void;
+  /** Checked before each re-prompt; returning true stops with the last response. */
+  shouldStop?: () => Promise<boolean>;
+}
+
+/**
+ * Invoke the agent and validate its answer, re-prompting it with the validation errors
+ * until it gives a usable answer or the attempts run out. Returns the last response.
+ */
+export async function invokeWithRepair(
+  invoke: (prompt: string) => Promise<unknown>,
+  prompt: string,
+  validate: (raw: string) => AgentResponse,
+  queryType?: string,
+  options: RepairOptions = {},
+): Promise<AgentResponse> {
+  const maxAttempts = options.maxAttempts ?? MAX_REPAIR_ATTEMPTS;
+
+  let response = validate(String(await invoke(prompt)));
+  for (let attempt = 1; attempt <= maxAttempts && !response.success; attempt++) {
+    if (await options.shouldStop?.()) break;
+    await options.onRepair?.(attempt, response);
+    response = validate(String(await invoke(buildRepairPrompt(prompt, response, queryType))));
+  }
+  return response;
 }
@@ -0,0 +1,21 @@
+// Service worker for reminder notifications.
+// Forwards notification action clicks (e.g. "snooze:10m") to the open app, which applies them.
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const todoId = event.notification.data && event.notification.data.todoId
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      if (event.action && todoId) {
+        for (const client of clients) {
+          client.postMessage({ type: 'reminder-action', action: event.action, todoId })
+        }
+      }
+      if (clients.length > 0) {
+        return clients[0].focus()
+      }
+      return self.clients.openWindow('/')
+    })
+  )
+})
@@ -0,0 +1,110 @@
+import { useState, type FormEvent, type ReactNode } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { JobProgressTimeline } from '@/components/ai/JobProgressTimeline'
+import { Loader2, SendHorizontal } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { JobProgressStep } from '@/lib/job-progress'
+import {
+  MAX_FOLLOW_UP_LENGTH,
+  MAX_SESSION_FOLLOW_UPS,
+  countFollowUps,
+  validateFollowUp,
+  type AgentSessionMessage,
+} from '../../../amplify/functions/shared/agent-sessions'
+
+interface AgentChatPanelProps {
+  messages: AgentSessionMessage[]
+  // The follow-up being answered, shown until the reply arrives
+  pendingMessage: string | null
+  progress: JobProgressStep[]
+  onSend: (message: string) => void
+  error?: string | null
+  placeholder?: string
+  className?: string
+}
+
+function MessageBubble({ role, children }: { role: AgentSessionMessage['role']; children: ReactNode }) {
+  return (
+    <li className={cn('flex', role === 'user' ? 'justify-end' : 'justify-start')}>
+      <p
+        className={cn(
+          'max-w-[85%] whitespace-pre-wrap rounded-lg px-3 py-2 text-sm',
+          role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-muted'
+        )}
+      >
+        {children}
+      </p>
+    </li>
+  )
+}
+
+// The conversation about an agent's answer: earlier follow-ups and replies, and a box to ask for
+// changes. Each follow-up revises the answer shown above the panel.
+export function AgentChatPanel({
+  messages,
+  pendingMessage,
+  progress,
+  onSend,
+  error,
+  placeholder = 'Ask for changes…',
+  className,
+}: AgentChatPanelProps) {
+  const [draft, setDraft] = useState('')
+  const [problem, setProblem] = useState<string | null>(null)
+  const isReplying = pendingMessage !== null
+  const remaining = MAX_SESSION_FOLLOW_UPS - countFollowUps(messages)
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    const invalid = validateFollowUp(draft, messages)
+    setProblem(invalid)
+    if (invalid || isReplying) return
+    onSend(draft.trim())
+    setDraft('')
+  }
+
+  return (
+    <div className={cn('space-y-3 border-t pt-3', className)}>
+      {(messages.length > 0 || pendingMessage) && (
+        <ul className="space-y-2" aria-label="Follow-ups" aria-live="polite">
+          {messages.map((message, index) => (
+            <MessageBubble key={`${message.at}-${index}`} role={message.role}>
+              {message.content}
+            </MessageBubble>
+          ))}
+          {pendingMessage && <MessageBubble role="user">{pendingMessage}</MessageBubble>}
+        </ul>
+      )}
+
+      {isReplying && <JobProgressTimeline steps={progress} />}
+
+      {(problem ?? error) && (
+        <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{problem ?? error}</div>
+      )}
+
+      {remaining > 0 ? (
+        <form onSubmit={handleSubmit} className="flex items-center gap-2">
+          <Input
+            value={draft}
+            onChange={(event) => {
+              setDraft(event.target.value)
+              setProblem(null)
+            }}
+            placeholder={placeholder}
+            maxLength={MAX_FOLLOW_UP_LENGTH}
+            disabled={isReplying}
+            aria-label="Follow-up"
+          />
+          <Button type="submit" size="sm" disabled={isReplying || !draft.trim()} aria-label="Send follow-up">
+            {isReplying ? <Loader2 className="h-4 w-4 animate-spin" /> : <SendHorizontal className="h-4 w-4" />}
+          </Button>
+        </form>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          This conversation has reached {MAX_SESSION_FOLLOW_UPS} follow-ups. Start a new request to keep going.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+import { prettyPrint } from '@/lib/ai-response-parser'
+
+function itemLabel(item: unknown): string {
+  if (typeof item === 'string') return item
+  if (item && typeof item === 'object') {
+    const entry = item as Record<string, unknown>
+    const label = entry.title ?? entry.name ?? entry.taskName
+    if (typeof label === 'string') return label
+  }
+  return prettyPrint(item)
+}
+
+function fieldLabel(key: string): string {
+  const words = key.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+// Renders whatever shape the agent answered with: prose, lists of tasks, or labelled fields
+export function AgentResultView({ value }: { value: unknown }) {
+  if (typeof value === 'string') {
+    return <p className="text-sm whitespace-pre-wrap">{value}</p>
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return <p className="text-sm text-muted-foreground">None</p>
+    return (
+      <ul className="list-disc pl-5 text-sm space-y-1">
+        {value.map((item, index) => (
+          <li key={index}>{itemLabel(item)}</li>
+        ))}
+      </ul>
+    )
+  }
+
+  if (value && typeof value === 'object') {
+    return (
+      <div className="space-y-3">
+        {Object.entries(value as Record<string, unknown>).map(([key, field]) => (
+          <div key={key} className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">{fieldLabel(key)}</p>
+            {field !== null && typeof field === 'object' ? (
+              <AgentResultView value={field} />
+            ) : (
+              <p className="text-sm whitespace-pre-wrap">{String(field)}</p>
+            )}
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  return <p className="text-sm">{String(value)}</p>
+}
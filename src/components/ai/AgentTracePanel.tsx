@@ -0,0 +1,113 @@
+import { useState } from 'react'
+import { ArrowRight, Check, ChevronDown, ChevronRight, Cpu, FilePen, RotateCcw, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { formatCostUsd, formatDuration, formatTokenCount } from '@/lib/agent-jobs'
+import { agentModelLabel } from '../../../amplify/functions/shared/agent-models'
+import type { AgentTrace, AgentTraceEntry } from '../../../amplify/functions/shared/agent-trace'
+
+interface AgentTracePanelProps {
+  trace: AgentTrace | null
+  className?: string
+}
+
+// Specialist tools are named after their SOPs, e.g. daily_planner
+function agentName(name: string): string {
+  return name.replace(/[_-]+/g, ' ')
+}
+
+function EntryIcon({ entry }: { entry: AgentTraceEntry }) {
+  if (entry.kind === 'delegation') return <ArrowRight className="h-3.5 w-3.5 text-primary" />
+  if (entry.kind === 'repair') return <RotateCcw className="h-3.5 w-3.5 text-amber-600" />
+  if (entry.kind === 'model') return <Cpu className="h-3.5 w-3.5 text-muted-foreground" />
+  if (entry.proposed) return <FilePen className="h-3.5 w-3.5 text-muted-foreground" />
+  return entry.success
+    ? <Check className="h-3.5 w-3.5 text-green-600" />
+    : <X className="h-3.5 w-3.5 text-destructive" />
+}
+
+function EntryView({ entry }: { entry: AgentTraceEntry }) {
+  switch (entry.kind) {
+    case 'delegation':
+      return <span>Handed over to {agentName(entry.agent)}</span>
+    case 'model':
+      return (
+        <span className="text-muted-foreground">
+          Model call: {formatTokenCount(entry.inputTokens)} in, {formatTokenCount(entry.outputTokens)} out
+          {entry.latencyMs !== undefined && ` in ${formatDuration(entry.latencyMs)}`}
+        </span>
+      )
+    case 'repair':
+      return <span>Asked to correct its answer: {entry.error}</span>
+    case 'tool':
+      return (
+        <div className="min-w-0 flex-1 space-y-1">
+          <p>
+            <span className="font-mono">{entry.tool}</span>
+            {entry.proposed && ' (proposed for review)'}
+            <span className="text-muted-foreground"> · {formatDuration(entry.latencyMs)}</span>
+          </p>
+          {entry.input && (
+            <pre className="whitespace-pre-wrap break-all rounded bg-muted px-2 py-1 text-xs">{entry.input}</pre>
+          )}
+          <pre className="whitespace-pre-wrap break-all rounded bg-muted px-2 py-1 text-xs text-muted-foreground">
+            {entry.output}
+          </pre>
+        </div>
+      )
+  }
+}
+
+// "How the agent decided": the hand-overs, tool calls and model usage of a finished run,
+// collapsed to a one-line summary until opened
+export function AgentTracePanel({ trace, className }: AgentTracePanelProps) {
+  const [open, setOpen] = useState(false)
+  if (!trace) return null
+
+  const { totals } = trace
+  const summary = [
+    agentModelLabel(trace.modelId),
+    formatDuration(trace.durationMs),
+    `${totals.toolCalls} tool ${totals.toolCalls === 1 ? 'call' : 'calls'}`,
+    `${formatTokenCount(totals.inputTokens + totals.outputTokens)} tokens`,
+    formatCostUsd(totals.costUsd),
+  ]
+
+  return (
+    <div className={cn('rounded-md border text-sm', className)}>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex w-full items-center gap-2 px-3 py-2 text-left"
+        aria-expanded={open}
+      >
+        {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        <span className="font-medium">How the agent decided</span>
+        <span className="ml-auto truncate text-xs text-muted-foreground">{summary.join(' · ')}</span>
+      </button>
+
+      {open && (
+        <div className="space-y-2 border-t px-3 py-2">
+          {totals.failedToolCalls > 0 && (
+            <p className="text-xs text-destructive">
+              {totals.failedToolCalls} of {totals.toolCalls} tool calls failed
+            </p>
+          )}
+          <ol className="space-y-1.5" aria-label="Agent trace">
+            {trace.entries.map((entry, index) => (
+              <li key={`${entry.kind}-${index}`} className="flex items-start gap-2">
+                <span className="mt-0.5">
+                  <EntryIcon entry={entry} />
+                </span>
+                <EntryView entry={entry} />
+                <span className="ml-auto shrink-0 text-xs text-muted-foreground">+{formatDuration(entry.atMs)}</span>
+              </li>
+            ))}
+          </ol>
+          {trace.omitted > 0 && (
+            <p className="text-xs text-muted-foreground">{trace.omitted} more steps not shown</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,181 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { DialogFooter } from '@/components/ui/dialog'
+import { Loader2, Plus } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useUserTimezone } from '@/hooks/use-settings'
+import { parseZonedDateTime } from '../../../amplify/functions/shared/timezones'
+import type { ProposedAction } from '@/lib/ai-response-parser'
+import {
+  buildApprovedActions,
+  countSelectedChanges,
+  draftChangeset,
+  hasBlankTitle,
+  setDraftActionSelected,
+  updateDraftTask,
+  type DraftAction,
+  type DraftTask,
+} from '@/lib/changeset'
+
+const PRIORITY_OPTIONS = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'] as const
+
+interface ChangesetReviewProps {
+  actions: ProposedAction[]
+  onApprove: (actions: ProposedAction[]) => void
+  onDiscard: () => void
+  isApproving: boolean
+}
+
+interface DraftTaskRowProps {
+  task: DraftTask
+  depth: number
+  disabled: boolean
+  onChange: (key: string, update: (task: DraftTask) => DraftTask) => void
+}
+
+function DraftTaskRow({ task, depth, disabled, onChange }: DraftTaskRowProps) {
+  const title = String(task.fields.title ?? '')
+  const priority = typeof task.fields.priority === 'string' ? task.fields.priority : ''
+  const timeZone = useUserTimezone()
+  // The agent writes due dates as wall-clock times in the user's timezone
+  const dueDate = typeof task.fields.dueDate === 'string' ? parseZonedDateTime(task.fields.dueDate, timeZone) : null
+  const rowDisabled = disabled || !task.selected
+
+  return (
+    <li>
+      <div
+        className={cn('flex items-center gap-2 py-1', rowDisabled && 'opacity-50')}
+        style={{ paddingLeft: `${depth * 1.5}rem` }}
+      >
+        <Checkbox
+          checked={task.selected}
+          onCheckedChange={(checked) => onChange(task.key, (t) => ({ ...t, selected: checked === true }))}
+          disabled={disabled}
+          aria-label={`Include ${title || 'untitled task'}`}
+        />
+        <Plus className="h-3 w-3 shrink-0 text-green-600" aria-hidden="true" />
+        <Input
+          value={title}
+          onChange={(e) => onChange(task.key, (t) => ({ ...t, fields: { ...t.fields, title: e.target.value } }))}
+          disabled={rowDisabled}
+          aria-label="Task title"
+          aria-invalid={task.selected && !title.trim()}
+          className="h-8 flex-1"
+        />
+        <Select
+          value={priority}
+          onValueChange={(value) => onChange(task.key, (t) => ({ ...t, fields: { ...t.fields, priority: value } }))}
+          disabled={rowDisabled}
+        >
+          <SelectTrigger size="sm" className="w-28" aria-label="Priority">
+            <SelectValue placeholder="Priority" />
+          </SelectTrigger>
+          <SelectContent>
+            {PRIORITY_OPTIONS.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option.charAt(0) + option.slice(1).toLowerCase()}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {(dueDate || typeof task.fields.effortHours === 'number') && (
+        <div
+          className={cn('flex gap-2 pb-1 text-xs text-muted-foreground', rowDisabled && 'opacity-50')}
+          style={{ paddingLeft: `${depth * 1.5 + 2.75}rem` }}
+        >
+          {dueDate && <span>Due {dueDate.toLocaleDateString(undefined, { timeZone })}</span>}
+          {typeof task.fields.effortHours === 'number' && <span>{task.fields.effortHours}h</span>}
+        </div>
+      )}
+      {task.subtasks.length > 0 && (
+        <ul>
+          {task.subtasks.map((subtask) => (
+            <DraftTaskRow
+              key={subtask.key}
+              task={subtask}
+              depth={depth + 1}
+              disabled={rowDisabled}
+              onChange={onChange}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  )
+}
+
+// The changes a dry run proposed, shown as additions and edits the user can adjust before approving
+export function ChangesetReview({ actions, onApprove, onDiscard, isApproving }: ChangesetReviewProps) {
+  const [drafts, setDrafts] = useState<DraftAction[]>(() => draftChangeset(actions))
+
+  const changeCount = countSelectedChanges(drafts)
+  const blankTitle = hasBlankTitle(drafts)
+
+  const handleTaskChange = (key: string, update: (task: DraftTask) => DraftTask) => {
+    setDrafts((prev) => updateDraftTask(prev, key, update))
+  }
+
+  return (
+    <div className="space-y-4">
+      {drafts.map((draft) => (
+        <div key={draft.action.id} className="rounded-md border p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              checked={draft.selected}
+              onCheckedChange={(checked) =>
+                setDrafts((prev) => setDraftActionSelected(prev, draft.action.id, checked === true))
+              }
+              disabled={isApproving}
+              aria-label={draft.action.summary}
+            />
+            <span className="text-sm font-medium">{draft.action.summary}</span>
+            <Badge variant="outline" className="ml-auto">
+              {draft.action.tool}
+            </Badge>
+          </div>
+          {draft.tasks && draft.tasks.length > 0 && (
+            <ul>
+              {draft.tasks.map((task) => (
+                <DraftTaskRow
+                  key={task.key}
+                  task={task}
+                  depth={0}
+                  disabled={isApproving || !draft.selected}
+                  onChange={handleTaskChange}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+
+      {blankTitle && (
+        <p className="text-sm text-destructive">Every task needs a title, or uncheck it to leave it out.</p>
+      )}
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onDiscard} disabled={isApproving}>
+          Discard
+        </Button>
+        <Button
+          onClick={() => onApprove(buildApprovedActions(drafts))}
+          disabled={isApproving || changeCount === 0 || blankTitle}
+        >
+          {isApproving && <Loader2 className="h-4 w-4 animate-spin" />}
+          Approve {changeCount} {changeCount === 1 ? 'change' : 'changes'}
+        </Button>
+      </DialogFooter>
+    </div>
+  )
+}
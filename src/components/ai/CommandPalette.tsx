@@ -0,0 +1,149 @@
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import { JobProgressTimeline } from '@/components/ai/JobProgressTimeline'
+import { Check, Loader2, Sparkles, X } from 'lucide-react'
+import { useAgentCommand, type ProposedAction } from '@/hooks/use-ai-agents'
+import { AgentResultView } from '@/components/ai/AgentResultView'
+
+interface CommandPaletteProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const [query, setQuery] = useState('')
+  const [deselected, setDeselected] = useState<Set<string>>(new Set())
+  const { ask, apply, data, results, isLoading, isApplying, progress, error, reset } = useAgentCommand()
+
+  const actions = data?.actions ?? []
+  const selected = actions.filter((action) => !deselected.has(action.id))
+  const resultsById = new Map((results ?? []).map((result) => [result.id, result]))
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const trimmed = query.trim()
+    if (!trimmed || isLoading) return
+    setDeselected(new Set())
+    ask(trimmed)
+  }
+
+  const handleToggle = (action: ProposedAction, checked: boolean) => {
+    setDeselected((prev) => {
+      const next = new Set(prev)
+      if (checked) next.delete(action.id)
+      else next.add(action.id)
+      return next
+    })
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    // Keep a running request and its result so reopening the palette picks them up
+    if (!next && !isLoading && !isApplying) {
+      setQuery('')
+      setDeselected(new Set())
+      reset()
+    }
+    onOpenChange(next)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="h-4 w-4" />
+            Ask the assistant
+          </DialogTitle>
+          <DialogDescription>
+            Ask about your tasks or describe a change. Changes are only made once you confirm them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="e.g. Push all my HIGH tasks to next Monday"
+            aria-label="Request"
+            disabled={isLoading}
+            autoFocus
+          />
+          <Button type="submit" disabled={isLoading || !query.trim()}>
+            {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+            Ask
+          </Button>
+        </form>
+
+        {isLoading && <JobProgressTimeline steps={progress} />}
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        {data && !isLoading && (
+          <div className="space-y-4 max-h-[50vh] overflow-y-auto">
+            <AgentResultView value={data.answer ?? data.result} />
+
+            {actions.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Proposed changes</p>
+                <ul className="space-y-2">
+                  {actions.map((action) => {
+                    const result = resultsById.get(action.id)
+                    return (
+                      <li key={action.id} className="flex items-start gap-2 text-sm">
+                        {result ? (
+                          result.success ? (
+                            <Check className="h-4 w-4 mt-0.5 text-green-600" aria-label="Applied" />
+                          ) : (
+                            <X className="h-4 w-4 mt-0.5 text-destructive" aria-label="Failed" />
+                          )
+                        ) : (
+                          <Checkbox
+                            checked={!deselected.has(action.id)}
+                            onCheckedChange={(checked) => handleToggle(action, checked === true)}
+                            disabled={isApplying || !!results}
+                            aria-label={action.summary}
+                            className="mt-0.5"
+                          />
+                        )}
+                        <div>
+                          <p>{action.summary}</p>
+                          {result?.error && <p className="text-xs text-destructive">{result.error}</p>}
+                        </div>
+                      </li>
+                    )
+                  })}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {actions.length > 0 && !results && !isLoading && (
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isApplying}>
+              Discard
+            </Button>
+            <Button onClick={() => apply(selected)} disabled={isApplying || selected.length === 0}>
+              {isApplying && <Loader2 className="h-4 w-4 animate-spin" />}
+              Apply {selected.length} {selected.length === 1 ? 'change' : 'changes'}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
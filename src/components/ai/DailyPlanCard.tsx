@@ -1,9 +1,11 @@
 import { useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { Skeleton } from '@/components/ui/skeleton'
 import { Badge } from '@/components/ui/badge'
 import { Checkbox } from '@/components/ui/checkbox'
+import { JobProgressTimeline } from '@/components/ai/JobProgressTimeline'
+import { AgentTracePanel } from '@/components/ai/AgentTracePanel'
+import { AgentChatPanel } from '@/components/ai/AgentChatPanel'
 import {
   Select,
   SelectContent,
@@ -14,6 +16,9 @@ import {
 import { CalendarDays, Loader2, RotateCcw } from 'lucide-react'
 import { usePlanDay } from '@/hooks/use-ai-agents'
 import { useUpdateTodo } from '@/hooks/use-todos'
+import { useUserTimezone } from '@/hooks/use-settings'
+import { useAuthContext } from '@/lib/auth-context'
+import { formatZonedDate } from '../../../amplify/functions/shared/timezones'
 
 interface ListOption {
   id: string
@@ -27,12 +32,32 @@ interface DailyPlanCardProps {
 export function DailyPlanCard({ lists }: DailyPlanCardProps) {
   const [selectedListId, setSelectedListId] = useState<string | undefined>(undefined)
   const [completedTasks, setCompletedTasks] = useState<Set<string>>(new Set())
-  const { plan, data, isLoading, error, reset } = usePlanDay()
+  const [onlyAssignedToMe, setOnlyAssignedToMe] = useState(false)
+  const { userId } = useAuthContext()
+  const timeZone = useUserTimezone()
+  const {
+    plan,
+    followUp,
+    data,
+    messages,
+    partial,
+    thinking,
+    trace,
+    isLoading,
+    pendingFollowUp,
+    progress,
+    error,
+    replyError,
+    reset,
+  } = usePlanDay()
+  // While the plan streams in, show what has arrived; tasks can be ticked off once it is done
+  const shownPlan = data ?? partial
   const { mutate: updateTodo } = useUpdateTodo()
 
   const handlePlanDay = () => {
-    const today = new Date().toISOString().split('T')[0]
-    plan(today, selectedListId)
+    // Today in the user's timezone, which may already be tomorrow (or still yesterday) in UTC
+    const today = formatZonedDate(new Date(), timeZone)
+    plan(today, selectedListId, onlyAssignedToMe ? userId : undefined)
   }
 
   const handleRetry = () => {
@@ -93,15 +118,19 @@ export function DailyPlanCard({ lists }: DailyPlanCardProps) {
               </SelectContent>
             </Select>
           )}
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Checkbox
+              checked={onlyAssignedToMe}
+              onCheckedChange={(checked) => setOnlyAssignedToMe(checked === true)}
+              aria-label="Only plan tasks assigned to me"
+            />
+            Assigned to me
+          </label>
         </div>
 
-        {isLoading && (
-          <div className="space-y-3">
-            <Skeleton className="h-4 w-3/4" />
-            <Skeleton className="h-4 w-full" />
-            <Skeleton className="h-4 w-5/6" />
-            <Skeleton className="h-4 w-2/3" />
-          </div>
+        {isLoading && <JobProgressTimeline steps={progress} />}
+        {isLoading && thinking && (
+          <p className="text-xs italic text-muted-foreground line-clamp-2">{thinking}</p>
         )}
 
         {error && (
@@ -116,11 +145,11 @@ export function DailyPlanCard({ lists }: DailyPlanCardProps) {
           </div>
         )}
 
-        {data && (
-          <div className="space-y-3">
-            <p className="text-sm text-muted-foreground">{data.summary}</p>
+        {shownPlan && (
+          <div className="space-y-3" aria-busy={!data}>
+            {shownPlan.summary && <p className="text-sm text-muted-foreground">{shownPlan.summary}</p>}
             <ul className="space-y-2" role="list">
-              {data.tasks.map((task, index) => {
+              {shownPlan.tasks.map((task, index) => {
                 const isCompleted = completedTasks.has(task.taskId)
                 return (
                   <li
@@ -129,6 +158,7 @@ export function DailyPlanCard({ lists }: DailyPlanCardProps) {
                   >
                     <Checkbox
                       checked={isCompleted}
+                      disabled={!data}
                       onCheckedChange={(checked) => handleToggleComplete(task.taskId, checked as boolean)}
                       aria-label={`Mark "${task.title}" as ${isCompleted ? 'incomplete' : 'complete'}`}
                     />
@@ -137,9 +167,17 @@ export function DailyPlanCard({ lists }: DailyPlanCardProps) {
                         <p className={`text-sm font-medium ${isCompleted ? 'line-through text-muted-foreground' : ''}`}>
                           {task.title}
                         </p>
-                        <Badge variant="outline" className="text-xs">
-                          {task.priority}
-                        </Badge>
+                        {task.priority && (
+                          <Badge variant="outline" className="text-xs">
+                            {task.priority}
+                          </Badge>
+                        )}
+                        {task.startTime && (
+                          <span className="ml-auto text-xs text-muted-foreground">
+                            {task.startTime}
+                            {task.endTime && `–${task.endTime}`}
+                          </span>
+                        )}
                       </div>
                       <p className="text-xs text-muted-foreground">{task.reasoning}</p>
                       {task.estimatedMinutes && (
@@ -154,6 +192,19 @@ export function DailyPlanCard({ lists }: DailyPlanCardProps) {
             </ul>
           </div>
         )}
+
+        {data && (
+          <AgentChatPanel
+            messages={messages}
+            pendingMessage={pendingFollowUp}
+            progress={progress}
+            onSend={followUp}
+            error={replyError}
+            placeholder="Ask for changes, e.g. move the gym to the evening"
+          />
+        )}
+
+        <AgentTracePanel trace={trace} />
       </CardContent>
     </Card>
   )
@@ -0,0 +1,53 @@
+import { Ban, Check, CircleDot, Loader2, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { JobProgressStep } from '@/lib/job-progress'
+import { useUserTimezone } from '@/hooks/use-settings'
+
+interface JobProgressTimelineProps {
+  steps: JobProgressStep[]
+  className?: string
+}
+
+function StepIcon({ step, current }: { step: JobProgressStep; current: boolean }) {
+  if (step.kind === 'failed') return <X className="h-3.5 w-3.5 text-destructive" />
+  if (step.kind === 'cancelled') return <Ban className="h-3.5 w-3.5 text-muted-foreground" />
+  if (step.kind === 'finished') return <Check className="h-3.5 w-3.5 text-green-600" />
+  if (current) return <Loader2 className="h-3.5 w-3.5 animate-spin text-primary" />
+  return <CircleDot className="h-3.5 w-3.5 text-muted-foreground" />
+}
+
+// What a running agent job has done so far, newest step last
+export function JobProgressTimeline({ steps, className }: JobProgressTimelineProps) {
+  const timeZone = useUserTimezone()
+  if (steps.length === 0) {
+    return (
+      <p className={cn('flex items-center gap-2 text-sm text-muted-foreground', className)}>
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Waiting for the agent to start...
+      </p>
+    )
+  }
+
+  return (
+    <ol className={cn('space-y-1.5', className)} aria-label="Agent progress" aria-live="polite">
+      {steps.map((step, index) => {
+        const current = index === steps.length - 1
+        return (
+          <li
+            key={`${step.kind}-${index}`}
+            className={cn('flex items-center gap-2 text-sm', !current && 'text-muted-foreground')}
+          >
+            <StepIcon step={step} current={current} />
+            <span>
+              {step.label}
+              {step.count && step.count > 1 ? ` (×${step.count})` : ''}
+            </span>
+            <time dateTime={step.at} className="ml-auto text-xs text-muted-foreground">
+              {new Date(step.at).toLocaleTimeString([], { timeZone, hour: 'numeric', minute: '2-digit', second: '2-digit' })}
+            </time>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -11,8 +11,11 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
-import { Skeleton } from '@/components/ui/skeleton'
-import { useBreakdownProject } from '@/hooks/use-ai-agents'
+import { ToastAction } from '@/components/ui/toast'
+import { ChangesetReview } from '@/components/ai/ChangesetReview'
+import { JobProgressTimeline } from '@/components/ai/JobProgressTimeline'
+import { AgentChatPanel } from '@/components/ai/AgentChatPanel'
+import { useBreakdownProject, type ProposedAction } from '@/hooks/use-ai-agents'
 import { useToast } from '@/hooks/use-toast'
 
 interface ProjectBreakdownDialogProps {
@@ -24,11 +27,30 @@ interface ProjectBreakdownDialogProps {
 export function ProjectBreakdownDialog({ listId, open, onOpenChange }: ProjectBreakdownDialogProps) {
   const [projectBrief, setProjectBrief] = useState('')
   const [deadline, setDeadline] = useState('')
+  // Reopened from the "ready for review" toast, after the dialog was closed during the run
+  const [reviewing, setReviewing] = useState(false)
   const submittingRef = useRef(false)
   const hasShownToastRef = useRef(false)
   const previousSuccessRef = useRef(false)
 
-  const { breakdown, data, isLoading, error, reset, isSuccess } = useBreakdownProject()
+  const {
+    breakdown,
+    followUp,
+    approve,
+    data,
+    turn,
+    messages,
+    isLoading,
+    isReplying,
+    pendingFollowUp,
+    isApproving,
+    progress,
+    error,
+    replyError,
+    approveError,
+    reset,
+    isSuccess,
+  } = useBreakdownProject()
   const { toast } = useToast()
 
   const handleSubmit = async () => {
@@ -43,13 +65,8 @@ export function ProjectBreakdownDialog({ listId, open, onOpenChange }: ProjectBr
     
     submittingRef.current = true
     
-    // Convert date to end of day (23:59:59) if provided
-    let deadlineValue: string | undefined = undefined
-    if (deadline) {
-      const date = new Date(deadline)
-      date.setHours(23, 59, 59, 999)
-      deadlineValue = date.toISOString()
-    }
+    // End of the deadline day, left without an offset so the agent reads it in the user's timezone
+    const deadlineValue = deadline ? `${deadline}T23:59:59` : undefined
     
     // Show "processing" toast
     toast({
@@ -67,6 +84,7 @@ export function ProjectBreakdownDialog({ listId, open, onOpenChange }: ProjectBr
   const handleClose = () => {
     setProjectBrief('')
     setDeadline('')
+    setReviewing(false)
     submittingRef.current = false
     hasShownToastRef.current = false
     previousSuccessRef.current = false
@@ -74,6 +92,23 @@ export function ProjectBreakdownDialog({ listId, open, onOpenChange }: ProjectBr
     onOpenChange(false)
   }
 
+  const handleApprove = async (actions: ProposedAction[]) => {
+    const results = await approve(actions)
+    if (!results) return
+
+    const failed = results.filter((result) => !result.success)
+    if (failed.length > 0) {
+      toast({
+        title: 'Some tasks could not be added',
+        description: failed.map((result) => result.error).join('\n'),
+        variant: 'destructive',
+      })
+    } else {
+      toast({ title: 'Project tasks added' })
+    }
+    handleClose()
+  }
+
   const handleRetry = () => {
     submittingRef.current = false
     hasShownToastRef.current = false
@@ -97,16 +132,27 @@ export function ProjectBreakdownDialog({ listId, open, onOpenChange }: ProjectBr
       hasShownToastRef.current = true
       previousSuccessRef.current = true
       
-      // Show success toast with AI summary
-      const taskCount = 'totalTasks' in data ? (data.totalTasks as number) : 0
-      const summary = 'summary' in data ? (data.summary as string) : `Created ${taskCount} tasks for your project.`
-      
-      toast({
-        title: `Project breakdown complete! (${taskCount} tasks)`,
-        description: summary,
-        variant: 'default',
-        duration: Infinity, // Require manual dismissal for long AI summary
-      })
+      // Nothing is written yet: the toast leads back to the review
+      const taskCount = data.totalTasks
+      if (data.actions.length === 0) {
+        toast({
+          title: 'Project breakdown proposed no tasks',
+          description: data.summary,
+          variant: 'destructive',
+        })
+      } else {
+        toast({
+          title: `Project breakdown ready for review (${taskCount} tasks)`,
+          description: data.summary,
+          variant: 'default',
+          duration: Infinity, // Require manual dismissal for long AI summary
+          action: (
+            <ToastAction altText="Review the proposed tasks" onClick={() => setReviewing(true)}>
+              Review
+            </ToastAction>
+          ),
+        })
+      }
     } else if (error && !hasShownToastRef.current) {
       console.log('Showing error toast')
       hasShownToastRef.current = true
@@ -121,12 +167,14 @@ export function ProjectBreakdownDialog({ listId, open, onOpenChange }: ProjectBr
   }, [isSuccess, data, error, toast])
 
   return (
-    <Dialog open={open} onOpenChange={handleClose} modal={true}>
+    <Dialog open={open || reviewing} onOpenChange={handleClose} modal={true}>
       <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Project Breakdown</DialogTitle>
+          <DialogTitle>{data ? 'Review Proposed Tasks' : 'Project Breakdown'}</DialogTitle>
           <DialogDescription>
-            Describe your project and the AI will break it into individual tasks.
+            {data
+              ? data.summary
+              : 'Describe your project and the AI will break it into individual tasks.'}
           </DialogDescription>
         </DialogHeader>
 
@@ -156,12 +204,38 @@ export function ProjectBreakdownDialog({ listId, open, onOpenChange }: ProjectBr
           </div>
         )}
 
-        {isLoading && (
+        {isLoading && <JobProgressTimeline steps={progress} />}
+
+        {data && !isLoading && (
           <div className="space-y-3">
-            <Skeleton className="h-4 w-3/4" />
-            <Skeleton className="h-4 w-full" />
-            <Skeleton className="h-4 w-5/6" />
-            <Skeleton className="h-4 w-2/3" />
+            <p className="text-sm text-muted-foreground">
+              Nothing has been added yet. Edit titles and priorities, or uncheck anything you don't want.
+            </p>
+            {approveError && (
+              <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                {approveError}
+              </div>
+            )}
+            {/* Each revision is reviewed afresh; nothing can be approved while one is on its way */}
+            <fieldset disabled={isReplying} className="contents">
+              <ChangesetReview
+                key={turn}
+                actions={data.actions}
+                onApprove={handleApprove}
+                onDiscard={handleClose}
+                isApproving={isApproving}
+              />
+            </fieldset>
+            {!isApproving && (
+              <AgentChatPanel
+                messages={messages}
+                pendingMessage={pendingFollowUp}
+                progress={progress}
+                onSend={followUp}
+                error={replyError}
+                placeholder="Ask for changes, e.g. split the launch into smaller steps"
+              />
+            )}
           </div>
         )}
 
@@ -1,8 +1,10 @@
 import { useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { Skeleton } from '@/components/ui/skeleton'
 import { Badge } from '@/components/ui/badge'
+import { JobProgressTimeline } from '@/components/ai/JobProgressTimeline'
+import { AgentTracePanel } from '@/components/ai/AgentTracePanel'
+import { AgentChatPanel } from '@/components/ai/AgentChatPanel'
 import {
   Select,
   SelectContent,
@@ -25,7 +27,23 @@ interface TaskRecommendationCardProps {
 
 export function TaskRecommendationCard({ lists }: TaskRecommendationCardProps) {
   const [selectedListId, setSelectedListId] = useState<string | undefined>(undefined)
-  const { recommend, data, isLoading, error, reset } = useRecommendTask()
+  const {
+    recommend,
+    followUp,
+    data,
+    messages,
+    partial,
+    thinking,
+    trace,
+    isLoading,
+    pendingFollowUp,
+    progress,
+    error,
+    replyError,
+    reset,
+  } = useRecommendTask()
+  // While the recommendation streams in, show what has arrived
+  const shown = data ?? partial
   const navigate = useNavigate()
 
   const handleRecommend = () => {
@@ -89,12 +107,9 @@ export function TaskRecommendationCard({ lists }: TaskRecommendationCardProps) {
           )}
         </div>
 
-        {isLoading && (
-          <div className="space-y-3">
-            <Skeleton className="h-4 w-3/4" />
-            <Skeleton className="h-4 w-full" />
-            <Skeleton className="h-4 w-5/6" />
-          </div>
+        {isLoading && <JobProgressTimeline steps={progress} />}
+        {isLoading && thinking && (
+          <p className="text-xs italic text-muted-foreground line-clamp-2">{thinking}</p>
         )}
 
         {error && (
@@ -109,16 +124,18 @@ export function TaskRecommendationCard({ lists }: TaskRecommendationCardProps) {
           </div>
         )}
 
-        {data && (
-          <div className="rounded-md border p-4 space-y-2">
+        {shown && (
+          <div className="rounded-md border p-4 space-y-2" aria-busy={!data}>
             <div className="flex items-center gap-2">
-              <p className="text-sm font-medium">{data.title}</p>
-              <Badge variant="outline" className="text-xs">
-                {data.priority}
-              </Badge>
+              <p className="text-sm font-medium">{shown.title}</p>
+              {data && (
+                <Badge variant="outline" className="text-xs">
+                  {data.priority}
+                </Badge>
+              )}
             </div>
-            <p className="text-sm text-muted-foreground">{data.reasoning}</p>
-            {(data.listId ?? selectedListId) && (
+            <p className="text-sm text-muted-foreground">{shown.reasoning}</p>
+            {data && (data.listId ?? selectedListId) && (
               <button
                 onClick={handleGoToTask}
                 className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
@@ -129,6 +146,19 @@ export function TaskRecommendationCard({ lists }: TaskRecommendationCardProps) {
             )}
           </div>
         )}
+
+        {data && (
+          <AgentChatPanel
+            messages={messages}
+            pendingMessage={pendingFollowUp}
+            progress={progress}
+            onSend={followUp}
+            error={replyError}
+            placeholder="Ask for another, e.g. something quicker"
+          />
+        )}
+
+        <AgentTracePanel trace={trace} />
       </CardContent>
     </Card>
   )
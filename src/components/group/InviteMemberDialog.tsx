@@ -12,16 +12,18 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog'
 import { UserPlus } from 'lucide-react'
+import { DEFAULT_MEMBER_ROLE, MEMBER_ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS, type MemberRole } from '@/lib/group-roles'
 
 interface InviteMemberDialogProps {
   groupName: string
-  onInvite: (email: string) => void
+  onInvite: (email: string, role: MemberRole) => void
   isLoading?: boolean
 }
 
 export function InviteMemberDialog({ groupName, onInvite, isLoading }: InviteMemberDialogProps) {
   const [open, setOpen] = useState(false)
   const [email, setEmail] = useState('')
+  const [role, setRole] = useState<MemberRole>(DEFAULT_MEMBER_ROLE)
   const [error, setError] = useState<string | null>(null)
 
   const validateEmail = (email: string): boolean => {
@@ -44,8 +46,9 @@ export function InviteMemberDialog({ groupName, onInvite, isLoading }: InviteMem
       return
     }
 
-    onInvite(trimmedEmail)
+    onInvite(trimmedEmail, role)
     setEmail('')
+    setRole(DEFAULT_MEMBER_ROLE)
     setOpen(false)
   }
 
@@ -62,8 +65,8 @@ export function InviteMemberDialog({ groupName, onInvite, isLoading }: InviteMem
           <DialogHeader>
             <DialogTitle>Invite Member</DialogTitle>
             <DialogDescription>
-              Invite a user to join &quot;{groupName}&quot;. They will receive access to all
-              shared lists in this group.
+              Invite a user to join &quot;{groupName}&quot;. Their role decides what they can do
+              in the lists shared with this group.
             </DialogDescription>
           </DialogHeader>
           <div className="grid gap-4 py-4">
@@ -83,6 +86,21 @@ export function InviteMemberDialog({ groupName, onInvite, isLoading }: InviteMem
               />
               {error && <p className="text-sm text-destructive">{error}</p>}
             </div>
+            <div className="grid gap-2">
+              <Label htmlFor="role">Role</Label>
+              <select
+                id="role"
+                value={role}
+                onChange={(e) => setRole(e.target.value as MemberRole)}
+                className="h-9 border rounded-md px-3 text-sm bg-background"
+                disabled={isLoading}
+              >
+                {MEMBER_ROLES.map((option) => (
+                  <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[role]}</p>
+            </div>
           </div>
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => setOpen(false)}>
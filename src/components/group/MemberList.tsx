@@ -1,10 +1,13 @@
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { UserMinus, Crown } from 'lucide-react'
+import { MEMBER_ROLES, ROLE_LABELS, type MemberRole } from '@/lib/group-roles'
 
 interface MemberListProps {
   memberIds: string[]
   memberEmails?: string[]
+  getMemberRole?: (memberId: string) => MemberRole
+  onRoleChange?: (memberId: string, role: MemberRole) => void
   ownerEmail?: string
   ownerId: string
   currentUserId: string
@@ -15,6 +18,8 @@ interface MemberListProps {
 export function MemberList({
   memberIds,
   memberEmails = [],
+  getMemberRole,
+  onRoleChange,
   ownerEmail,
   ownerId,
   currentUserId,
@@ -74,7 +79,7 @@ export function MemberList({
                     </Badge>
                   ) : (
                     <Badge variant="secondary" className="text-xs">
-                      Member
+                      {getMemberRole ? ROLE_LABELS[getMemberRole(memberId)] : 'Member'}
                     </Badge>
                   )}
                 </div>
@@ -82,15 +87,30 @@ export function MemberList({
             </div>
 
             {isOwner && !isMemberOwner && (
-              <Button
-                variant="ghost"
-                size="icon-sm"
-                onClick={() => onRevoke(memberId)}
-                disabled={isLoading}
-                aria-label={`Remove member ${displayName}`}
-              >
-                <UserMinus className="h-4 w-4 text-destructive" />
-              </Button>
+              <div className="flex items-center gap-2">
+                {onRoleChange && getMemberRole && (
+                  <select
+                    value={getMemberRole(memberId)}
+                    onChange={(e) => onRoleChange(memberId, e.target.value as MemberRole)}
+                    className="text-xs border rounded px-2 py-1 bg-background"
+                    disabled={isLoading}
+                    aria-label={`Role of ${displayName}`}
+                  >
+                    {MEMBER_ROLES.map((role) => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => onRevoke(memberId)}
+                  disabled={isLoading}
+                  aria-label={`Remove member ${displayName}`}
+                >
+                  <UserMinus className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
             )}
           </div>
         )
@@ -6,7 +6,7 @@ import type { GroupInvitation } from '@/hooks/use-groups'
 
 interface PendingInvitationsProps {
   invitations: GroupInvitation[]
-  onAccept: (invitationId: string, groupId: string) => void
+  onAccept: (invitationId: string) => void
   onDecline: (invitationId: string) => void
   isAccepting?: boolean
   isDeclining?: boolean
@@ -61,7 +61,7 @@ export function PendingInvitations({
                 </Button>
                 <Button
                   size="sm"
-                  onClick={() => onAccept(invitation.id, invitation.groupId)}
+                  onClick={() => onAccept(invitation.id)}
                   disabled={isAccepting || isDeclining}
                 >
                   <Check className="h-4 w-4 mr-1" />
@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { Link } from '@tanstack/react-router'
 import {
   DndContext,
@@ -19,8 +19,13 @@ import {
 import { CSS } from '@dnd-kit/utilities'
 import { useAuthContext } from '@/lib/auth-context'
 import { useLists, useCreateList, useDeleteList, useReorderLists, type TodoList } from '@/hooks/use-lists'
-import { useAllTodos, useTodos, useCreateTodo, useUpdateTodo, useDeleteTodo } from '@/hooks/use-todos'
+import { useAllTodos, useAssignedTodos, useTodos, useCreateTodo, useUpdateTodo, useDeleteTodo } from '@/hooks/use-todos'
 import { useReminders } from '@/hooks/use-reminders'
+import { useUserSettings, useUserTimezone } from '@/hooks/use-settings'
+import { reminderOffsetsFromSettings, toReminders } from '@/lib/reminders'
+import { zonedTimeToUtc } from '../../../amplify/functions/shared/timezones'
+import { groupAssigneeOptions, type AssigneeOption } from '@/lib/assignees'
+import { canOnList, groupRole, type GroupRole } from '@/lib/group-roles'
 import { usePendingInvitations, useOwnedGroups, useMemberGroups } from '@/hooks/use-groups'
 import { TodoList as TodoListComponent, AddTodoForm } from '@/components/todo'
 import { AddListForm } from '@/components/list'
@@ -28,11 +33,13 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { cn } from '@/lib/utils'
-import { List, Plus, Trash2, Settings, Menu, X, Users, GripVertical, Sparkles } from 'lucide-react'
+import { List, Plus, Trash2, Settings, Menu, X, Users, GripVertical, Sparkles, UserCheck, History, BookOpen } from 'lucide-react'
 import { ThemeToggleSimple } from '@/components/ui/theme-toggle'
+import { NotificationBell } from '@/components/notifications'
 import { DailyPlanCard } from '@/components/ai/DailyPlanCard'
 import { TaskRecommendationCard } from '@/components/ai/TaskRecommendationCard'
 import { ProjectBreakdownDialog } from '@/components/ai/ProjectBreakdownDialog'
+import { CommandPalette } from '@/components/ai/CommandPalette'
 
 // Sortable list item component
 interface SortableListItemProps {
@@ -149,12 +156,29 @@ export function AppLayout({ initialListId, highlightTaskId }: AppLayoutProps) {
   const { user, userId, logout } = useAuthContext()
   const userEmail = user?.signInDetails?.loginId ?? ''
   const [selectedListId, setSelectedListId] = useState<string | null>(initialListId ?? null)
+  const [showAssigned, setShowAssigned] = useState(false)
   const [showAddList, setShowAddList] = useState(false)
   const [sidebarOpen, setSidebarOpen] = useState(false)
   const [breakdownListId, setBreakdownListId] = useState<string | null>(null)
+  const [commandPaletteOpen, setCommandPaletteOpen] = useState(false)
+
+  // Ctrl+K (Cmd+K on macOS) toggles the command palette from anywhere in the app
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault()
+        setCommandPaletteOpen((open) => !open)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
 
   // Initialize reminders service
   useReminders(userId)
+  const { data: settings } = useUserSettings(userId)
+  const timeZone = useUserTimezone()
+  const defaultReminderOffsets = reminderOffsetsFromSettings(settings)
 
   // Fetch pending invitations for badge
   const { data: pendingInvitations = [] } = usePendingInvitations(userEmail)
@@ -166,10 +190,14 @@ export function AppLayout({ initialListId, highlightTaskId }: AppLayoutProps) {
 
   // Create a map of groupId to group name
   const groupNameMap = new Map(allGroups.map(g => [g.id, g.name]))
+  const groupById = new Map(allGroups.map(g => [g.id, g]))
 
   const { data: lists = [], isLoading: listsLoading } = useLists(userId)
-  const { data: allTodos = [], isLoading: allTodosLoading } = useAllTodos(userId)
-  const { data: listTodos = [], isLoading: listTodosLoading } = useTodos(selectedListId ?? '')
+  const allTodosQuery = useAllTodos(userId)
+  const listTodosQuery = useTodos(selectedListId ?? '')
+  const { data: allTodos = [], isLoading: allTodosLoading } = allTodosQuery
+  const { data: listTodos = [], isLoading: listTodosLoading } = listTodosQuery
+  const { data: assignedTodos = [], isLoading: assignedTodosLoading } = useAssignedTodos(userId)
 
   const createList = useCreateList()
   const deleteList = useDeleteList()
@@ -191,10 +219,26 @@ export function AppLayout({ initialListId, highlightTaskId }: AppLayoutProps) {
   )
 
   // Determine which todos to show
-  const todos = selectedListId ? listTodos : allTodos
-  const todosLoading = selectedListId ? listTodosLoading : allTodosLoading
+  const todos = showAssigned ? assignedTodos : selectedListId ? listTodos : allTodos
+  const todosLoading = showAssigned ? assignedTodosLoading : selectedListId ? listTodosLoading : allTodosLoading
+  // Assigned todos are loaded in full; the list and "All" views load a page at a time
+  const pagedTodos = showAssigned ? null : selectedListId ? listTodosQuery : allTodosQuery
   const selectedList = selectedListId ? lists.find(l => l.id === selectedListId) : null
 
+  // Tasks in shared lists can be assigned to the owning group's members
+  const getAssigneeOptions = (listId: string) => {
+    const groupId = lists.find(l => l.id === listId)?.groupId
+    return groupAssigneeOptions(groupId ? groupById.get(groupId) : null)
+  }
+
+  // The user's role in the group a list is shared with; edit controls follow it
+  const getListRole = (listId: string): GroupRole | null => {
+    const list = lists.find(l => l.id === listId)
+    if (!list?.groupId) return null
+    return list.owner === userId ? 'OWNER' : groupRole(groupById.get(list.groupId), userId)
+  }
+  const canEditSelectedList = canOnList(selectedList, groupById.get(selectedList?.groupId ?? ''), userId, 'edit')
+
   const handleAddList = (name: string, description?: string) => {
     createList.mutate(
       { name, description },
@@ -212,7 +256,7 @@ export function AppLayout({ initialListId, highlightTaskId }: AppLayoutProps) {
     }
   }
 
-  const handleAddTodo = (title: string, description?: string, tags?: string[], dueDate?: string, reminderMinutes?: number, priority?: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT') => {
+  const handleAddTodo = (title: string, description?: string, tags?: string[], dueDate?: string, reminderOffsets?: number[], priority?: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT', recurrenceRule?: string, assignee?: AssigneeOption) => {
     if (!selectedListId) {
       // Can't add to "All" - need to select a list first
       alert('Please select a list first to add a todo')
@@ -222,14 +266,37 @@ export function AppLayout({ initialListId, highlightTaskId }: AppLayoutProps) {
       title,
       description,
       tags,
-      dueDate: dueDate ? new Date(dueDate).toISOString() : undefined,
-      reminderMinutes,
+      // The form's date-time is wall-clock time in the user's timezone
+      dueDate: dueDate ? zonedTimeToUtc(dueDate, timeZone)?.toISOString() : undefined,
+      reminders: reminderOffsets ? toReminders(reminderOffsets) : undefined,
       priority,
+      recurrenceRule,
+      assigneeId: assignee?.id,
+      assigneeEmail: assignee?.email,
       listId: selectedListId,
       status: 'PENDING',
     })
   }
 
+  const handleAddSubtask = (parentId: string, title: string) => {
+    const parent = todos.find(t => t.id === parentId)
+    if (!parent) return
+    createTodo.mutate({
+      title,
+      listId: parent.listId,
+      parentId,
+      status: 'PENDING',
+    })
+  }
+
+  const handleBlockedByChange = (id: string, blockedBy: string[]) => {
+    updateTodo.mutate({ id, blockedBy })
+  }
+
+  const handleAssigneeChange = (id: string, assignee: AssigneeOption | null) => {
+    updateTodo.mutate({ id, assigneeId: assignee?.id ?? null, assigneeEmail: assignee?.email ?? null })
+  }
+
   const handleToggleComplete = (id: string, currentStatus: string) => {
     updateTodo.mutate({
       id,
@@ -254,9 +321,16 @@ export function AppLayout({ initialListId, highlightTaskId }: AppLayoutProps) {
 
   const handleSelectList = (listId: string | null) => {
     setSelectedListId(listId)
+    setShowAssigned(false)
     setSidebarOpen(false) // Close sidebar on mobile after selection
   }
 
+  const handleSelectAssigned = () => {
+    setSelectedListId(null)
+    setShowAssigned(true)
+    setSidebarOpen(false)
+  }
+
   const handleBreakdownList = (listId: string, e: React.MouseEvent) => {
     e.stopPropagation()
     setBreakdownListId(listId)
@@ -317,6 +391,26 @@ export function AppLayout({ initialListId, highlightTaskId }: AppLayoutProps) {
                 </Badge>
               )}
             </Link>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => setCommandPaletteOpen(true)}
+              aria-label="Ask the assistant (Ctrl+K)"
+              title="Ask the assistant (Ctrl+K)"
+            >
+              <Sparkles className="h-4 w-4" />
+            </Button>
+            <NotificationBell userId={userId} />
+            <Link to="/agents">
+              <Button variant="ghost" size="icon-sm" aria-label="Agent history" title="Agent history">
+                <History className="h-4 w-4" />
+              </Button>
+            </Link>
+            <Link to="/playbooks">
+              <Button variant="ghost" size="icon-sm" aria-label="Playbooks" title="Playbooks">
+                <BookOpen className="h-4 w-4" />
+              </Button>
+            </Link>
             <Link to="/settings">
               <Button variant="ghost" size="icon-sm" aria-label="Settings">
                 <Settings className="h-4 w-4" />
@@ -377,14 +471,29 @@ export function AppLayout({ initialListId, highlightTaskId }: AppLayoutProps) {
               onClick={() => handleSelectList(null)}
               className={cn(
                 "w-full flex items-center gap-2 px-3 py-2 rounded-md text-sm text-left transition-colors",
-                selectedListId === null
+                selectedListId === null && !showAssigned
                   ? "bg-primary text-primary-foreground"
                   : "hover:bg-accent"
               )}
             >
               <List className="h-4 w-4 shrink-0" />
               <span className="truncate flex-1">All</span>
-              <span className="text-xs opacity-70">{allTodos.length}</span>
+              <span className="text-xs opacity-70">{allTodos.length}{allTodosQuery.hasNextPage ? '+' : ''}</span>
+            </button>
+
+            {/* Tasks assigned to me across all lists */}
+            <button
+              onClick={handleSelectAssigned}
+              className={cn(
+                "w-full flex items-center gap-2 px-3 py-2 mt-1 rounded-md text-sm text-left transition-colors",
+                showAssigned
+                  ? "bg-primary text-primary-foreground"
+                  : "hover:bg-accent"
+              )}
+            >
+              <UserCheck className="h-4 w-4 shrink-0" />
+              <span className="truncate flex-1">Assigned to me</span>
+              <span className="text-xs opacity-70">{assignedTodos.length}</span>
             </button>
 
             {/* List items */}
@@ -459,21 +568,25 @@ export function AppLayout({ initialListId, highlightTaskId }: AppLayoutProps) {
           <Card>
             <CardHeader>
               <CardTitle className="text-lg md:text-xl">
-                {selectedList ? selectedList.name : 'All Todos'}
+                {showAssigned ? 'Assigned to me' : selectedList ? selectedList.name : 'All Todos'}
               </CardTitle>
               {selectedList?.description && (
                 <p className="text-sm text-muted-foreground">{selectedList.description}</p>
               )}
             </CardHeader>
             <CardContent className="space-y-4 md:space-y-6">
-              {selectedListId ? (
+              {selectedListId && canEditSelectedList ? (
                 <AddTodoForm
+                  key={settings?.id ?? 'default'}
                   onAdd={handleAddTodo}
                   isLoading={createTodo.isPending}
+                  defaultReminderOffsets={defaultReminderOffsets}
+                  assigneeOptions={getAssigneeOptions(selectedListId)}
+                  currentUserId={userId}
                 />
               ) : (
                 <p className="text-sm text-muted-foreground">
-                  Select a list to add new todos
+                  {selectedListId ? 'Your role in this group lets you view these todos but not add them' : 'Select a list to add new todos'}
                 </p>
               )}
 
@@ -482,8 +595,16 @@ export function AppLayout({ initialListId, highlightTaskId }: AppLayoutProps) {
                 onToggleComplete={handleToggleComplete}
                 onDelete={handleDeleteTodo}
                 onStatusChange={handleStatusChange}
+                onAddSubtask={handleAddSubtask}
+                onBlockedByChange={handleBlockedByChange}
+                getAssigneeOptions={getAssigneeOptions}
+                onAssigneeChange={handleAssigneeChange}
+                getListRole={getListRole}
                 isLoading={todosLoading}
-                canDeleteTodos={selectedList ? selectedList.owner === userId : false}
+                hasMore={pagedTodos?.hasNextPage}
+                onLoadMore={() => pagedTodos?.fetchNextPage()}
+                isLoadingMore={pagedTodos?.isFetchingNextPage}
+                canDeleteTodos={canEditSelectedList}
                 currentUserId={userId}
                 highlightTaskId={highlightTaskId}
               />
@@ -500,6 +621,8 @@ export function AppLayout({ initialListId, highlightTaskId }: AppLayoutProps) {
         onOpenChange={(open) => !open && setBreakdownListId(null)}
       />
 
+      <CommandPalette open={commandPaletteOpen} onOpenChange={setCommandPaletteOpen} />
+
     </div>
   )
 }
@@ -0,0 +1,141 @@
+import { useState } from 'react'
+import { useNavigate } from '@tanstack/react-router'
+import { Bell, BellRing, Sparkles, UserPlus, Users, UserCheck, CheckCheck } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  useNotifications,
+  useMarkNotificationRead,
+  useMarkAllNotificationsRead,
+  type Notification,
+} from '@/hooks/use-notifications'
+import { cn } from '@/lib/utils'
+import { useUserTimezone } from '@/hooks/use-settings'
+
+const typeIcons = {
+  REMINDER: BellRing,
+  INVITATION: UserPlus,
+  MEMBER_JOINED: Users,
+  ASSIGNMENT: UserCheck,
+  AGENT_JOB: Sparkles,
+}
+
+function formatTime(dateString: string, timeZone: string) {
+  return new Date(dateString).toLocaleString('en-US', {
+    timeZone,
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+interface NotificationBellProps {
+  userId: string
+}
+
+export function NotificationBell({ userId }: NotificationBellProps) {
+  const navigate = useNavigate()
+  const [open, setOpen] = useState(false)
+  const timeZone = useUserTimezone()
+  const { data: notifications = [] } = useNotifications(userId)
+  const markRead = useMarkNotificationRead()
+  const markAllRead = useMarkAllNotificationsRead()
+
+  const unread = notifications.filter(n => !n.read)
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.read) {
+      markRead.mutate({ id: notification.id, owner: userId })
+    }
+    setOpen(false)
+
+    if (notification.todoId && notification.listId) {
+      navigate({
+        to: '/dashboard',
+        search: { selectList: notification.listId, highlightTask: notification.todoId },
+      })
+    } else if (notification.type === 'INVITATION') {
+      navigate({ to: '/groups' })
+    } else if (notification.groupId) {
+      navigate({ to: '/groups/$groupId', params: { groupId: notification.groupId } })
+    } else if (notification.type === 'AGENT_JOB') {
+      navigate({ to: '/dashboard' })
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          className="relative"
+          aria-label={unread.length > 0 ? `Notifications (${unread.length} unread)` : 'Notifications'}
+        >
+          <Bell className="h-4 w-4" />
+          {unread.length > 0 && (
+            <Badge
+              variant="destructive"
+              className="absolute -top-1 -right-1 h-5 min-w-5 px-1 flex items-center justify-center text-xs"
+            >
+              {unread.length > 9 ? '9+' : unread.length}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <span className="font-medium text-sm">Notifications</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={unread.length === 0 || markAllRead.isPending}
+            onClick={() => markAllRead.mutate({ owner: userId, ids: unread.map(n => n.id) })}
+          >
+            <CheckCheck className="h-3 w-3 mr-1" />
+            Mark all read
+          </Button>
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-center text-muted-foreground">
+            You're all caught up
+          </p>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto divide-y">
+            {notifications.map(notification => {
+              const Icon = typeIcons[notification.type ?? 'REMINDER']
+              return (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleSelect(notification)}
+                    className={cn(
+                      "w-full flex gap-3 px-4 py-3 text-left hover:bg-accent transition-colors",
+                      !notification.read && "bg-accent/40"
+                    )}
+                  >
+                    <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                    <div className="flex-1 min-w-0">
+                      <p className={cn("text-sm truncate", !notification.read && "font-medium")}>
+                        {notification.title}
+                      </p>
+                      {notification.body && (
+                        <p className="text-xs text-muted-foreground line-clamp-2">{notification.body}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground mt-1">{formatTime(notification.createdAt, timeZone)}</p>
+                    </div>
+                    {!notification.read && (
+                      <span className="h-2 w-2 mt-1.5 rounded-full bg-primary shrink-0" aria-label="Unread" />
+                    )}
+                  </button>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
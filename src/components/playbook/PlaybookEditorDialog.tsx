@@ -0,0 +1,135 @@
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2, Play } from 'lucide-react'
+import { PlaybookRunDialog } from './PlaybookRunDialog'
+import { parsePlaybook, PLAYBOOK_TEMPLATE } from '../../../amplify/functions/shared/playbooks'
+import type { Playbook, SavePlaybookInput } from '@/hooks/use-playbooks'
+
+const PRIVATE = 'private'
+
+interface PlaybookEditorDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // The playbook being edited; a new one starts from the template
+  playbook: Playbook | null
+  groups: { id: string; name: string }[]
+  onSave: (input: SavePlaybookInput) => Promise<unknown>
+  isSaving: boolean
+}
+
+export function PlaybookEditorDialog({ open, onOpenChange, playbook, groups, onSave, isSaving }: PlaybookEditorDialogProps) {
+  const [content, setContent] = useState(playbook?.content ?? PLAYBOOK_TEMPLATE)
+  const [groupId, setGroupId] = useState(playbook?.groupId ?? PRIVATE)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const [previewOpen, setPreviewOpen] = useState(false)
+
+  // Validated as the user types, with the parser the agent uses
+  const parsed = parsePlaybook(content)
+
+  const handleSave = async () => {
+    if (!parsed.success || isSaving) return
+    setSaveError(null)
+    try {
+      await onSave({ content, groupId: groupId === PRIVATE ? null : groupId })
+      onOpenChange(false)
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save the playbook')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{playbook ? `Edit ${playbook.name}` : 'New playbook'}</DialogTitle>
+          <DialogDescription>
+            A playbook is a procedure the assistant follows. The frontmatter names it and lists the tools it may use;
+            the steps go below it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            aria-label="Playbook"
+            aria-invalid={!parsed.success}
+            className="font-mono text-xs min-h-72 max-h-[50vh]"
+            spellCheck={false}
+            disabled={isSaving}
+          />
+
+          {!parsed.success && (
+            <ul className="rounded-md bg-destructive/10 p-3 text-sm text-destructive list-disc pl-6 space-y-1">
+              {parsed.errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          {groups.length > 0 && (
+            <div className="space-y-1">
+              <Label htmlFor="playbook-group" className="text-sm text-muted-foreground">
+                Share with
+              </Label>
+              <Select value={groupId} onValueChange={setGroupId} disabled={isSaving}>
+                <SelectTrigger id="playbook-group" aria-label="Share with">
+                  <SelectValue placeholder="Only me" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={PRIVATE}>Only me</SelectItem>
+                  {groups.map((group) => (
+                    <SelectItem key={group.id} value={group.id}>
+                      {group.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {saveError && (
+            <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{saveError}</div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setPreviewOpen(true)} disabled={!parsed.success || isSaving}>
+            <Play className="h-4 w-4" />
+            Preview run
+          </Button>
+          <Button onClick={handleSave} disabled={!parsed.success || isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+
+        {parsed.success && (
+          <PlaybookRunDialog
+            open={previewOpen}
+            onOpenChange={setPreviewOpen}
+            title={parsed.data.name}
+            target={{ playbookContent: content }}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,156 @@
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import { JobProgressTimeline } from '@/components/ai/JobProgressTimeline'
+import { AgentResultView } from '@/components/ai/AgentResultView'
+import { BookOpen, Check, Loader2, X } from 'lucide-react'
+import { usePlaybookRun, type PlaybookRunRequest, type ProposedAction } from '@/hooks/use-ai-agents'
+
+interface PlaybookRunDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  title: string
+  // The saved playbook to run, or the draft content to preview
+  target: { playbookId: string } | { playbookContent: string }
+}
+
+// Runs a playbook as a dry run. Saved playbooks offer their proposed changes for applying; a
+// preview of a draft only lists them.
+export function PlaybookRunDialog({ open, onOpenChange, title, target }: PlaybookRunDialogProps) {
+  const [input, setInput] = useState('')
+  const [deselected, setDeselected] = useState<Set<string>>(new Set())
+  const { run, apply, data, results, isLoading, isApplying, progress, error, reset } = usePlaybookRun()
+
+  const preview = 'playbookContent' in target
+  const actions = data?.actions ?? []
+  const selected = actions.filter((action) => !deselected.has(action.id))
+  const resultsById = new Map((results ?? []).map((result) => [result.id, result]))
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (isLoading) return
+    setDeselected(new Set())
+    const request: PlaybookRunRequest = { ...target, input: input.trim() || undefined }
+    run(request)
+  }
+
+  const handleToggle = (action: ProposedAction, checked: boolean) => {
+    setDeselected((prev) => {
+      const next = new Set(prev)
+      if (checked) next.delete(action.id)
+      else next.add(action.id)
+      return next
+    })
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next && !isLoading && !isApplying) {
+      setInput('')
+      setDeselected(new Set())
+      reset()
+    }
+    onOpenChange(next)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookOpen className="h-4 w-4" />
+            {preview ? `Preview ${title}` : `Run ${title}`}
+          </DialogTitle>
+          <DialogDescription>
+            {preview
+              ? 'Runs the draft against your tasks without changing anything.'
+              : 'Changes the playbook proposes are only made once you confirm them.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Optional input, e.g. Only the Work list"
+            aria-label="Playbook input"
+            disabled={isLoading}
+            autoFocus
+          />
+          <Button type="submit" disabled={isLoading}>
+            {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+            {preview ? 'Preview' : 'Run'}
+          </Button>
+        </form>
+
+        {isLoading && <JobProgressTimeline steps={progress} />}
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive whitespace-pre-line">
+            {error}
+          </div>
+        )}
+
+        {data && !isLoading && (
+          <div className="space-y-4 max-h-[50vh] overflow-y-auto">
+            <AgentResultView value={data.answer ?? data.result} />
+
+            {actions.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Proposed changes</p>
+                <ul className="space-y-2">
+                  {actions.map((action) => {
+                    const result = resultsById.get(action.id)
+                    return (
+                      <li key={action.id} className="flex items-start gap-2 text-sm">
+                        {preview ? null : result ? (
+                          result.success ? (
+                            <Check className="h-4 w-4 mt-0.5 text-green-600" aria-label="Applied" />
+                          ) : (
+                            <X className="h-4 w-4 mt-0.5 text-destructive" aria-label="Failed" />
+                          )
+                        ) : (
+                          <Checkbox
+                            checked={!deselected.has(action.id)}
+                            onCheckedChange={(checked) => handleToggle(action, checked === true)}
+                            disabled={isApplying || !!results}
+                            aria-label={action.summary}
+                            className="mt-0.5"
+                          />
+                        )}
+                        <div>
+                          <p>{action.summary}</p>
+                          {result?.error && <p className="text-xs text-destructive">{result.error}</p>}
+                        </div>
+                      </li>
+                    )
+                  })}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {!preview && actions.length > 0 && !results && !isLoading && (
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isApplying}>
+              Discard
+            </Button>
+            <Button onClick={() => apply(selected)} disabled={isApplying || selected.length === 0}>
+              {isApplying && <Loader2 className="h-4 w-4 animate-spin" />}
+              Apply {selected.length} {selected.length === 1 ? 'change' : 'changes'}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,2 @@
+export { PlaybookEditorDialog } from './PlaybookEditorDialog'
+export { PlaybookRunDialog } from './PlaybookRunDialog'
@@ -11,27 +11,27 @@ import {
 } from '@/components/ui/select'
 import { Plus, Bell, Wand2 } from 'lucide-react'
 import { TagInput } from './TagInput'
+import { RecurrenceEditor } from './RecurrenceEditor'
+import { ReminderOffsetPicker } from './ReminderOffsetPicker'
 import { useAnalyzeTask } from '@/hooks/use-ai-agents'
 import { mapAnalyzerPriority } from '@/lib/ai-response-parser'
+import { DEFAULT_REMINDER_OFFSETS } from '@/lib/reminders'
+import { assigneeLabel, type AssigneeOption } from '@/lib/assignees'
+import { useUserTimezone } from '@/hooks/use-settings'
+import { parseZonedDateTime, toDateTimeLocalValue } from '../../../amplify/functions/shared/timezones'
 
 type Priority = 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT'
 
 interface AddTodoFormProps {
-  onAdd: (title: string, description?: string, tags?: string[], dueDate?: string, reminderMinutes?: number, priority?: Priority) => void
+  onAdd: (title: string, description?: string, tags?: string[], dueDate?: string, reminderOffsets?: number[], priority?: Priority, recurrenceRule?: string, assignee?: AssigneeOption) => void
   isLoading?: boolean
-  defaultReminderMinutes?: number
+  defaultReminderOffsets?: number[]
+  assigneeOptions?: AssigneeOption[]
+  currentUserId?: string
 }
 
-const REMINDER_OPTIONS = [
-  { value: '0', label: 'No reminder' },
-  { value: '15', label: '15 minutes before' },
-  { value: '30', label: '30 minutes before' },
-  { value: '60', label: '1 hour before' },
-  { value: '120', label: '2 hours before' },
-  { value: '1440', label: '1 day before' },
-  { value: '2880', label: '2 days before' },
-  { value: '10080', label: '1 week before' },
-]
+// Radix Select items cannot have an empty value
+const UNASSIGNED = 'unassigned'
 
 const PRIORITY_OPTIONS: { value: Priority; label: string }[] = [
   { value: 'LOW', label: 'Low' },
@@ -40,14 +40,17 @@ const PRIORITY_OPTIONS: { value: Priority; label: string }[] = [
   { value: 'URGENT', label: 'Urgent' },
 ]
 
-export function AddTodoForm({ onAdd, isLoading, defaultReminderMinutes = 1440 }: AddTodoFormProps) {
+export function AddTodoForm({ onAdd, isLoading, defaultReminderOffsets = DEFAULT_REMINDER_OFFSETS, assigneeOptions = [], currentUserId }: AddTodoFormProps) {
   const [title, setTitle] = useState('')
   const [description, setDescription] = useState('')
   const [tags, setTags] = useState<string[]>([])
   const [dueDate, setDueDate] = useState('')
   const [priority, setPriority] = useState<Priority | ''>('')
-  const [reminderMinutes, setReminderMinutes] = useState<string>(String(defaultReminderMinutes))
+  const [reminderOffsets, setReminderOffsets] = useState<number[]>(defaultReminderOffsets)
+  const [recurrenceRule, setRecurrenceRule] = useState('')
+  const [assigneeId, setAssigneeId] = useState(UNASSIGNED)
   const [error, setError] = useState<string | null>(null)
+  const timeZone = useUserTimezone()
 
   const { analyze, data: aiData, isLoading: aiLoading, error: aiError, reset: resetAi } = useAnalyzeTask()
 
@@ -59,13 +62,15 @@ export function AddTodoForm({ onAdd, isLoading, defaultReminderMinutes = 1440 }:
     setPriority(mapAnalyzerPriority(aiData.priority))
     if (aiData.tags.length > 0) setTags(aiData.tags)
     if (aiData.dueDate) {
-      // datetime-local input needs "YYYY-MM-DDTHH:mm" format
+      // datetime-local input needs "YYYY-MM-DDTHH:mm" format, in the user's timezone
       // AI may return just "YYYY-MM-DD" — append T09:00 as a sensible default
-      const dateVal = aiData.dueDate.includes('T')
-        ? aiData.dueDate.slice(0, 16)
-        : `${aiData.dueDate}T09:00`
+      const dueAt = aiData.dueDate.includes('T') ? parseZonedDateTime(aiData.dueDate, timeZone) : null
+      const dateVal = dueAt
+        ? toDateTimeLocalValue(dueAt, timeZone)
+        : `${aiData.dueDate.slice(0, 10)}T09:00`
       setDueDate(dateVal)
     }
+    if (aiData.recurrence) setRecurrenceRule(aiData.recurrence)
   }
 
   const handleAiAssist = () => {
@@ -86,22 +91,26 @@ export function AddTodoForm({ onAdd, isLoading, defaultReminderMinutes = 1440 }:
       return
     }
 
-    const reminder = reminderMinutes !== '0' ? parseInt(reminderMinutes, 10) : undefined
+    const reminders = dueDate && reminderOffsets.length > 0 ? reminderOffsets : undefined
 
     onAdd(
       trimmedTitle,
       description.trim() || undefined,
       tags.length > 0 ? tags : undefined,
       dueDate || undefined,
-      reminder,
-      priority || undefined
+      reminders,
+      priority || undefined,
+      recurrenceRule || undefined,
+      assigneeOptions.find((option) => option.id === assigneeId)
     )
     setTitle('')
     setDescription('')
     setTags([])
     setDueDate('')
     setPriority('')
-    setReminderMinutes(String(defaultReminderMinutes))
+    setReminderOffsets(defaultReminderOffsets)
+    setRecurrenceRule('')
+    setAssigneeId(UNASSIGNED)
     resetAi()
     setLastAppliedAi(null)
   }
@@ -164,7 +173,7 @@ export function AddTodoForm({ onAdd, isLoading, defaultReminderMinutes = 1440 }:
         disabled={isLoading}
       />
 
-      <div className="grid grid-cols-3 gap-3">
+      <div className="grid grid-cols-2 gap-3">
         <div className="space-y-1">
           <Label htmlFor="priority" className="text-sm text-muted-foreground">
             Priority
@@ -200,30 +209,48 @@ export function AddTodoForm({ onAdd, isLoading, defaultReminderMinutes = 1440 }:
             disabled={isLoading}
           />
         </div>
+      </div>
 
+      {assigneeOptions.length > 0 && (
         <div className="space-y-1">
-          <Label htmlFor="reminder" className="text-sm text-muted-foreground flex items-center gap-1">
-            <Bell className="h-3 w-3" />
-            Reminder
+          <Label htmlFor="assignee" className="text-sm text-muted-foreground">
+            Assignee
           </Label>
-          <Select
-            value={reminderMinutes}
-            onValueChange={setReminderMinutes}
-            disabled={isLoading || !dueDate}
-          >
-            <SelectTrigger id="reminder" aria-label="Reminder time">
-              <SelectValue placeholder="Select reminder" />
+          <Select value={assigneeId} onValueChange={setAssigneeId} disabled={isLoading}>
+            <SelectTrigger id="assignee" aria-label="Assignee">
+              <SelectValue placeholder="Unassigned" />
             </SelectTrigger>
             <SelectContent>
-              {REMINDER_OPTIONS.map((option) => (
-                <SelectItem key={option.value} value={option.value}>
-                  {option.label}
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {assigneeOptions.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {assigneeLabel(option, currentUserId)}
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
         </div>
+      )}
+
+      <div className="space-y-1">
+        <Label className="text-sm text-muted-foreground flex items-center gap-1">
+          <Bell className="h-3 w-3" />
+          Reminders
+        </Label>
+        <ReminderOffsetPicker
+          value={reminderOffsets}
+          onChange={setReminderOffsets}
+          disabled={isLoading || !dueDate}
+          aria-label="Reminder times"
+        />
       </div>
+
+      <RecurrenceEditor
+        value={recurrenceRule}
+        onChange={setRecurrenceRule}
+        dueDate={dueDate || undefined}
+        disabled={isLoading}
+      />
     </form>
   )
 }
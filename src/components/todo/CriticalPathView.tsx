@@ -0,0 +1,72 @@
+import { useMemo } from 'react'
+import { AlertTriangle, Route as RouteIcon } from 'lucide-react'
+import type { TodoItem as TodoItemType } from '@/hooks/use-todos'
+import { computeCriticalPath } from '@/lib/task-dependencies'
+import { cn } from '@/lib/utils'
+import { useUserTimezone } from '@/hooks/use-settings'
+
+interface CriticalPathViewProps {
+  todos: TodoItemType[]
+}
+
+const formatDate = (date: Date, timeZone: string) =>
+  date.toLocaleDateString('en-US', { timeZone, weekday: 'short', month: 'short', day: 'numeric' })
+
+export function CriticalPathView({ todos }: CriticalPathViewProps) {
+  const timeZone = useUserTimezone()
+  const criticalPath = useMemo(() => computeCriticalPath(todos, new Date()), [todos])
+
+  if (!criticalPath) {
+    return (
+      <div className="rounded-lg border p-3 text-sm text-muted-foreground">
+        All tasks are complete — there is no critical path.
+      </div>
+    )
+  }
+
+  const atRiskCount = criticalPath.steps.filter((step) => step.atRisk).length
+
+  return (
+    <div className="rounded-lg border p-3 space-y-3" data-testid="critical-path">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <p className="flex items-center gap-2 text-sm font-medium">
+          <RouteIcon className="h-4 w-4" />
+          Critical path · {criticalPath.totalHours}h of work
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Projected finish {formatDate(criticalPath.projectedFinish, timeZone)} at 6 productive hours/day
+        </p>
+      </div>
+
+      {atRiskCount > 0 && (
+        <p className="flex items-center gap-1 text-xs text-destructive">
+          <AlertTriangle className="h-3 w-3" />
+          {atRiskCount} {atRiskCount === 1 ? 'task is' : 'tasks are'} projected to finish after the due date
+        </p>
+      )}
+
+      <ol className="space-y-1">
+        {criticalPath.steps.map((step, index) => (
+          <li
+            key={step.task.id}
+            className={cn(
+              'flex items-center gap-2 text-sm rounded-md px-2 py-1',
+              step.atRisk && 'bg-destructive/10'
+            )}
+          >
+            <span className="text-xs text-muted-foreground w-5 shrink-0">{index + 1}.</span>
+            <span className="flex-1 truncate">{step.task.title}</span>
+            <span className="text-xs text-muted-foreground shrink-0">
+              {step.task.effortHours ?? 0}h
+            </span>
+            <span className={cn('text-xs shrink-0', step.atRisk ? 'text-destructive' : 'text-muted-foreground')}>
+              {step.task.dueDate
+                ? `due ${formatDate(new Date(step.task.dueDate), timeZone)}`
+                : 'no due date'}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
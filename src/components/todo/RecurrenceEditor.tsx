@@ -0,0 +1,188 @@
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Repeat } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  WEEKDAYS,
+  describeRecurrence,
+  formatRecurrenceRule,
+  parseRecurrenceRule,
+  weekdayOfDate,
+  type RecurrenceRule,
+  type Weekday,
+} from '../../../amplify/functions/shared/recurrence'
+import { useUserTimezone } from '@/hooks/use-settings'
+import { formatZonedDate } from '../../../amplify/functions/shared/timezones'
+
+type RecurrenceMode = 'NONE' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'AFTER_COMPLETION'
+
+const MODE_OPTIONS: { value: RecurrenceMode; label: string }[] = [
+  { value: 'NONE', label: 'Does not repeat' },
+  { value: 'DAILY', label: 'Daily' },
+  { value: 'WEEKLY', label: 'Weekly' },
+  { value: 'MONTHLY', label: 'Monthly' },
+  { value: 'AFTER_COMPLETION', label: 'Days after completion' },
+]
+
+const WEEKDAY_SHORT: Record<Weekday, string> = {
+  MO: 'M', TU: 'T', WE: 'W', TH: 'T', FR: 'F', SA: 'S', SU: 'S',
+}
+
+interface RecurrenceEditorProps {
+  value: string
+  onChange: (rule: string) => void
+  dueDate?: string // Wall-clock time in the user's timezone, as entered (YYYY-MM-DDTHH:mm)
+  disabled?: boolean
+}
+
+function modeOf(rule: RecurrenceRule | null): RecurrenceMode {
+  if (!rule) return 'NONE'
+  if (rule.afterCompletion) return 'AFTER_COMPLETION'
+  return rule.frequency
+}
+
+export function RecurrenceEditor({ value, onChange, dueDate, disabled }: RecurrenceEditorProps) {
+  const parsed = value ? parseRecurrenceRule(value) : null
+  const rule = parsed?.success ? parsed.data : null
+  const mode = modeOf(rule)
+  const timeZone = useUserTimezone()
+
+  const update = (next: RecurrenceRule) => onChange(formatRecurrenceRule(next))
+
+  // The due date's calendar day, or today in the user's timezone
+  const dueDay = () => (dueDate ? dueDate.slice(0, 10) : formatZonedDate(new Date(), timeZone))
+
+  const handleModeChange = (nextMode: RecurrenceMode) => {
+    const interval = rule?.interval ?? 1
+    switch (nextMode) {
+      case 'NONE':
+        onChange('')
+        break
+      case 'DAILY':
+        update({ frequency: 'DAILY', interval })
+        break
+      case 'AFTER_COMPLETION':
+        update({ frequency: 'DAILY', interval, afterCompletion: true })
+        break
+      case 'WEEKLY':
+        // Default to the weekday of the due date (or today)
+        update({ frequency: 'WEEKLY', interval, weekdays: [weekdayOfDate(dueDay())] })
+        break
+      case 'MONTHLY':
+        update({ frequency: 'MONTHLY', interval, monthDay: Number(dueDay().slice(8, 10)) })
+        break
+    }
+  }
+
+  const toggleWeekday = (day: Weekday) => {
+    if (!rule) return
+    const current = rule.weekdays ?? []
+    const next = current.includes(day) ? current.filter((d) => d !== day) : [...current, day]
+    // Keep at least one weekday selected
+    if (next.length === 0) return
+    update({ ...rule, weekdays: WEEKDAYS.filter((d) => next.includes(d)) })
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="recurrence" className="text-sm text-muted-foreground flex items-center gap-1">
+        <Repeat className="h-3 w-3" />
+        Repeat
+      </Label>
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={mode}
+          onValueChange={(val) => handleModeChange(val as RecurrenceMode)}
+          disabled={disabled}
+        >
+          <SelectTrigger id="recurrence" aria-label="Repeat" className="w-[200px]">
+            <SelectValue placeholder="Does not repeat" />
+          </SelectTrigger>
+          <SelectContent>
+            {MODE_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {rule && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">every</span>
+            <Input
+              type="number"
+              min={1}
+              max={365}
+              value={rule.interval}
+              onChange={(e) => {
+                const interval = parseInt(e.target.value, 10)
+                if (interval >= 1) update({ ...rule, interval })
+              }}
+              className="w-16"
+              aria-label="Repeat interval"
+              disabled={disabled}
+            />
+            <span className="text-sm text-muted-foreground">
+              {rule.frequency === 'WEEKLY' ? 'week(s)' : rule.frequency === 'MONTHLY' ? 'month(s)' : 'day(s)'}
+            </span>
+          </div>
+        )}
+
+        {rule?.frequency === 'MONTHLY' && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">on day</span>
+            <Input
+              type="number"
+              min={1}
+              max={31}
+              value={rule.monthDay ?? 1}
+              onChange={(e) => {
+                const monthDay = parseInt(e.target.value, 10)
+                if (monthDay >= 1 && monthDay <= 31) update({ ...rule, monthDay })
+              }}
+              className="w-16"
+              aria-label="Day of month"
+              disabled={disabled}
+            />
+          </div>
+        )}
+      </div>
+
+      {rule?.frequency === 'WEEKLY' && !rule.afterCompletion && (
+        <div className="flex gap-1" role="group" aria-label="Repeat on weekdays">
+          {WEEKDAYS.map((day) => {
+            const selected = rule.weekdays?.includes(day) ?? false
+            return (
+              <button
+                key={day}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                disabled={disabled}
+                aria-pressed={selected}
+                aria-label={day}
+                className={cn(
+                  'h-7 w-7 rounded-full text-xs border transition-colors',
+                  selected ? 'bg-primary text-primary-foreground border-primary' : 'hover:bg-accent'
+                )}
+              >
+                {WEEKDAY_SHORT[day]}
+              </button>
+            )
+          })}
+        </div>
+      )}
+
+      {rule && (
+        <p className="text-xs text-muted-foreground">{describeRecurrence(rule)}</p>
+      )}
+    </div>
+  )
+}
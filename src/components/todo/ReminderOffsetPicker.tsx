@@ -0,0 +1,39 @@
+import { cn } from '@/lib/utils'
+import { REMINDER_OFFSET_OPTIONS } from '@/lib/reminders'
+
+interface ReminderOffsetPickerProps {
+  value: number[]
+  onChange: (offsets: number[]) => void
+  disabled?: boolean
+  'aria-label'?: string
+}
+
+export function ReminderOffsetPicker({ value, onChange, disabled, 'aria-label': ariaLabel = 'Reminders' }: ReminderOffsetPickerProps) {
+  const toggle = (offset: number) => {
+    const next = value.includes(offset) ? value.filter((o) => o !== offset) : [...value, offset]
+    onChange(next.sort((a, b) => b - a))
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1" role="group" aria-label={ariaLabel}>
+      {REMINDER_OFFSET_OPTIONS.map((option) => {
+        const selected = value.includes(option.value)
+        return (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => toggle(option.value)}
+            disabled={disabled}
+            aria-pressed={selected}
+            className={cn(
+              'rounded-full border px-2 py-0.5 text-xs transition-colors disabled:opacity-50',
+              selected ? 'bg-primary text-primary-foreground border-primary' : 'hover:bg-accent'
+            )}
+          >
+            {option.label}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
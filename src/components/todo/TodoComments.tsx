@@ -0,0 +1,64 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { useAddComment, useTodoComments } from '@/hooks/use-comments'
+
+interface TodoCommentsProps {
+  todoId: string
+  todoTitle: string
+  canComment: boolean
+  currentUserId?: string
+}
+
+export function TodoComments({ todoId, todoTitle, canComment, currentUserId }: TodoCommentsProps) {
+  const [body, setBody] = useState('')
+  const { data: comments = [], isLoading } = useTodoComments(todoId)
+  const addComment = useAddComment()
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!body.trim()) return
+    addComment.mutate({ todoId, body }, { onSuccess: () => setBody('') })
+  }
+
+  return (
+    <div className="pl-8 space-y-2" aria-label={`Comments on "${todoTitle}"`}>
+      {isLoading ? (
+        <p className="text-xs text-muted-foreground">Loading comments...</p>
+      ) : comments.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No comments yet</p>
+      ) : (
+        <ul className="space-y-1">
+          {comments.map((comment) => (
+            <li key={comment.id} className="text-sm">
+              <span className="font-medium">
+                {comment.authorId === currentUserId ? 'You' : comment.authorEmail ?? 'Member'}
+              </span>
+              <span className="text-muted-foreground">: </span>
+              {comment.body}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canComment && (
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            type="text"
+            placeholder="Add a comment"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            aria-label={`New comment on "${todoTitle}"`}
+          />
+          <Button type="submit" size="sm" disabled={!body.trim() || addComment.isPending}>
+            Comment
+          </Button>
+        </form>
+      )}
+
+      {addComment.isError && (
+        <p className="text-xs text-destructive">{addComment.error.message}</p>
+      )}
+    </div>
+  )
+}
@@ -1,23 +1,82 @@
-import { useEffect, useRef } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Button } from '@/components/ui/button'
-import { Trash2, Clock, Bell, Timer } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Trash2, Clock, Bell, Timer, ChevronRight, ChevronDown, ListPlus, Lock, Link2, Repeat, AlarmClock, UserRound, MessageSquare } from 'lucide-react'
 import type { TodoItem as TodoItemType } from '@/hooks/use-todos'
+import type { TaskRollup } from '@/lib/task-tree'
+import { describeRecurrence, parseRecurrenceRule } from '../../../amplify/functions/shared/recurrence'
+import { formatReminderOffset, reminderEntries } from '@/lib/reminders'
+import { assigneeLabel, taskAssignee, type AssigneeOption } from '@/lib/assignees'
 import { cn } from '@/lib/utils'
+import { useUserTimezone } from '@/hooks/use-settings'
 import { TagBadge } from './TagBadge'
+import { TodoComments } from './TodoComments'
+
+interface DependencyOption {
+  id: string
+  title: string
+}
 
 interface TodoItemProps {
   todo: TodoItemType
   onToggleComplete: (id: string, currentStatus: string) => void
   onDelete: (id: string) => void
   onStatusChange?: (id: string, status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETE') => void
+  onAddSubtask?: (parentId: string, title: string) => void
   canDelete?: boolean
   highlight?: boolean
+  rollup?: TaskRollup
+  isExpanded?: boolean
+  onToggleExpand?: (id: string) => void
+  openBlockers?: DependencyOption[]
+  dependencyOptions?: DependencyOption[]
+  onBlockedByChange?: (id: string, blockedBy: string[]) => void
+  assigneeOptions?: AssigneeOption[]
+  onAssigneeChange?: (id: string, assignee: AssigneeOption | null) => void
+  currentUserId?: string
+  // Viewers and commenters in a shared list see the task without edit controls
+  readOnly?: boolean
+  canViewComments?: boolean
+  canComment?: boolean
 }
 
-export function TodoItem({ todo, onToggleComplete, onDelete, onStatusChange, canDelete = true, highlight = false }: TodoItemProps) {
+export function TodoItem({
+  todo,
+  onToggleComplete,
+  onDelete,
+  onStatusChange,
+  onAddSubtask,
+  canDelete = true,
+  highlight = false,
+  rollup,
+  isExpanded = true,
+  onToggleExpand,
+  openBlockers = [],
+  dependencyOptions = [],
+  onBlockedByChange,
+  assigneeOptions = [],
+  onAssigneeChange,
+  currentUserId,
+  readOnly = false,
+  canViewComments = false,
+  canComment = false,
+}: TodoItemProps) {
   const ref = useRef<HTMLDivElement>(null)
+  const [showSubtaskInput, setShowSubtaskInput] = useState(false)
+  const [subtaskTitle, setSubtaskTitle] = useState('')
+  const [showDependencies, setShowDependencies] = useState(false)
+  const [showComments, setShowComments] = useState(false)
   const isComplete = todo.status === 'COMPLETE'
+  const isBlocked = !isComplete && openBlockers.length > 0
+  const blockedBy = (todo.blockedBy ?? []).filter((id): id is string => !!id)
+  const hasSubtasks = !!rollup && rollup.childCount > 0
+  const pendingReminders = reminderEntries(todo).filter((r) => !r.sentAt)
+  const recurrence = todo.recurrenceRule ? parseRecurrenceRule(todo.recurrenceRule) : null
+  const assignee = taskAssignee(todo)
+  const timeZone = useUserTimezone()
+  // Parents show rolled-up effort from their subtasks
+  const effortHours = hasSubtasks ? rollup.effortHours : todo.effortHours
 
   useEffect(() => {
     if (highlight && ref.current) {
@@ -29,6 +88,7 @@ export function TodoItem({ todo, onToggleComplete, onDelete, onStatusChange, can
     if (!dateString) return null
     const date = new Date(dateString)
     return date.toLocaleDateString('en-US', {
+      timeZone,
       month: 'short',
       day: 'numeric',
       hour: 'numeric',
@@ -36,13 +96,6 @@ export function TodoItem({ todo, onToggleComplete, onDelete, onStatusChange, can
     })
   }
 
-  const formatReminderTime = (minutes: number | null | undefined) => {
-    if (!minutes) return null
-    if (minutes < 60) return `${minutes}m before`
-    if (minutes < 1440) return `${Math.floor(minutes / 60)}h before`
-    return `${Math.floor(minutes / 1440)}d before`
-  }
-
   const formatEffortHours = (hours: number | null | undefined) => {
     if (!hours) return null
     if (hours < 1) return `${Math.round(hours * 60)}m`
@@ -50,6 +103,28 @@ export function TodoItem({ todo, onToggleComplete, onDelete, onStatusChange, can
     return `${hours}h`
   }
 
+  const handleAddSubtask = (e: React.FormEvent) => {
+    e.preventDefault()
+    const trimmed = subtaskTitle.trim()
+    if (!trimmed || !onAddSubtask) return
+    onAddSubtask(todo.id, trimmed)
+    setSubtaskTitle('')
+    setShowSubtaskInput(false)
+  }
+
+  const handleToggleDependency = (dependencyId: string, checked: boolean) => {
+    if (!onBlockedByChange) return
+    const next = checked
+      ? [...blockedBy, dependencyId]
+      : blockedBy.filter((id) => id !== dependencyId)
+    onBlockedByChange(todo.id, next)
+  }
+
+  const handleAssigneeChange = (assigneeId: string) => {
+    if (!onAssigneeChange) return
+    onAssigneeChange(todo.id, assigneeOptions.find((option) => option.id === assigneeId) ?? null)
+  }
+
   const getStatusColor = (status: string | null | undefined) => {
     switch (status) {
       case 'COMPLETE':
@@ -62,93 +137,250 @@ export function TodoItem({ todo, onToggleComplete, onDelete, onStatusChange, can
   }
 
   return (
-    <div
-      ref={ref}
-      className={cn(
-      "flex items-center gap-3 p-3 rounded-lg border bg-card hover:bg-accent/50 transition-colors",
-      isComplete && "opacity-60",
-      highlight && "ring-2 ring-primary"
-    )}>
-      <Checkbox
-        checked={isComplete}
-        onCheckedChange={() => onToggleComplete(todo.id, todo.status ?? 'PENDING')}
-        aria-label={`Mark "${todo.title}" as ${isComplete ? 'incomplete' : 'complete'}`}
-      />
+    <div className="space-y-2">
+      <div
+        ref={ref}
+        className={cn(
+        "flex items-center gap-3 p-3 rounded-lg border bg-card hover:bg-accent/50 transition-colors",
+        isComplete && "opacity-60",
+        highlight && "ring-2 ring-primary"
+      )}>
+        {hasSubtasks ? (
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => onToggleExpand?.(todo.id)}
+            aria-label={isExpanded ? `Collapse subtasks of "${todo.title}"` : `Expand subtasks of "${todo.title}"`}
+            aria-expanded={isExpanded}
+          >
+            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          </Button>
+        ) : onToggleExpand && (
+          <span className="w-8 shrink-0" aria-hidden="true" />
+        )}
+        <Checkbox
+          checked={isComplete}
+          onCheckedChange={() => onToggleComplete(todo.id, todo.status ?? 'PENDING')}
+          disabled={readOnly}
+          aria-label={`Mark "${todo.title}" as ${isComplete ? 'incomplete' : 'complete'}`}
+        />
       
-      <div className="flex-1 min-w-0">
-        <p className={cn(
-          "font-medium truncate",
-          isComplete && "line-through text-muted-foreground"
-        )}>
-          {todo.title}
-        </p>
-        
-        {todo.description && (
-          <p className="text-sm text-muted-foreground truncate">
-            {todo.description}
+        <div className="flex-1 min-w-0">
+          <p className={cn(
+            "font-medium truncate",
+            isComplete && "line-through text-muted-foreground"
+          )}>
+            {todo.title}
           </p>
-        )}
         
-        <div className="flex items-center gap-2 mt-1 flex-wrap">
-          {todo.effortHours && (
-            <span className="flex items-center gap-1 text-xs text-muted-foreground" data-testid="effort-badge">
-              <Timer className="h-3 w-3" />
-              {formatEffortHours(todo.effortHours)}
-            </span>
+          {todo.description && (
+            <p className="text-sm text-muted-foreground truncate">
+              {todo.description}
+            </p>
           )}
+        
+          <div className="flex items-center gap-2 mt-1 flex-wrap">
+            {hasSubtasks && (
+              <span className="text-xs text-muted-foreground" data-testid="subtask-progress">
+                {rollup.completedCount}/{rollup.childCount} subtasks · {rollup.percentComplete}%
+              </span>
+            )}
 
-          {todo.dueDate && (
-            <span className="flex items-center gap-1 text-xs text-muted-foreground" data-testid="due-date-badge">
-              <Clock className="h-3 w-3" />
-              {formatDueDate(todo.dueDate)}
-            </span>
-          )}
+            {!!effortHours && (
+              <span className="flex items-center gap-1 text-xs text-muted-foreground" data-testid="effort-badge">
+                <Timer className="h-3 w-3" />
+                {formatEffortHours(effortHours)}
+              </span>
+            )}
 
-          {todo.reminderMinutes && todo.dueDate && !isComplete && (
-            <span className="flex items-center gap-1 text-xs text-muted-foreground" data-testid="reminder-badge">
-              <Bell className="h-3 w-3" />
-              {formatReminderTime(todo.reminderMinutes)}
-            </span>
-          )}
+            {todo.dueDate && (
+              <span className="flex items-center gap-1 text-xs text-muted-foreground" data-testid="due-date-badge">
+                <Clock className="h-3 w-3" />
+                {formatDueDate(todo.dueDate)}
+              </span>
+            )}
+
+            {pendingReminders.length > 0 && todo.dueDate && !isComplete && (
+              <span className="flex items-center gap-1 text-xs text-muted-foreground" data-testid="reminder-badge">
+                <Bell className="h-3 w-3" />
+                {pendingReminders.map((r) => formatReminderOffset(r.offsetMinutes)).join(', ')}
+              </span>
+            )}
+
+            {todo.snoozedUntil && !isComplete && (
+              <span className="flex items-center gap-1 text-xs text-muted-foreground" data-testid="snooze-badge">
+                <AlarmClock className="h-3 w-3" />
+                Snoozed until {formatDueDate(todo.snoozedUntil)}
+              </span>
+            )}
           
-          {todo.status && (
-            <span className={cn("text-xs font-medium", getStatusColor(todo.status))}>
-              {todo.status.replace('_', ' ')}
-            </span>
+            {recurrence?.success && (
+              <span className="flex items-center gap-1 text-xs text-muted-foreground" data-testid="recurrence-badge">
+                <Repeat className="h-3 w-3" />
+                {describeRecurrence(recurrence.data)}
+              </span>
+            )}
+
+            {assignee && (
+              <span className="flex items-center gap-1 text-xs text-muted-foreground" data-testid="assignee-badge">
+                <UserRound className="h-3 w-3" />
+                {assigneeLabel(assignee, currentUserId)}
+              </span>
+            )}
+
+            {isBlocked && (
+              <span
+                className="flex items-center gap-1 text-xs font-medium text-amber-600"
+                data-testid="blocked-badge"
+                title={`Blocked by: ${openBlockers.map((b) => b.title).join(', ')}`}
+              >
+                <Lock className="h-3 w-3" />
+                Blocked by {openBlockers.length === 1 ? openBlockers[0].title : `${openBlockers.length} tasks`}
+              </span>
+            )}
+
+            {todo.status && (
+              <span className={cn("text-xs font-medium", getStatusColor(todo.status))}>
+                {todo.status.replace('_', ' ')}
+              </span>
+            )}
+          </div>
+
+          {todo.tags && todo.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {todo.tags.filter((tag): tag is string => tag !== null).map((tag) => (
+                <TagBadge key={tag} tag={tag} />
+              ))}
+            </div>
+          )}
+
+          {hasSubtasks && (
+            <div
+              className="h-1 mt-2 rounded-full bg-muted overflow-hidden"
+              role="progressbar"
+              aria-valuenow={rollup.percentComplete}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-label={`Subtask progress for "${todo.title}"`}
+            >
+              <div className="h-full bg-primary transition-all" style={{ width: `${rollup.percentComplete}%` }} />
+            </div>
           )}
         </div>
 
-        {todo.tags && todo.tags.length > 0 && (
-          <div className="flex flex-wrap gap-1 mt-1">
-            {todo.tags.filter((tag): tag is string => tag !== null).map((tag) => (
-              <TagBadge key={tag} tag={tag} />
+        {onStatusChange && !readOnly && !isComplete && (
+          <select
+            value={todo.status ?? 'PENDING'}
+            onChange={(e) => onStatusChange(todo.id, e.target.value as 'PENDING' | 'IN_PROGRESS' | 'COMPLETE')}
+            className="text-xs border rounded px-2 py-1 bg-background"
+            aria-label="Change status"
+          >
+            <option value="PENDING">Pending</option>
+            <option value="IN_PROGRESS">In Progress</option>
+            <option value="COMPLETE">Complete</option>
+          </select>
+        )}
+
+        {onAssigneeChange && !readOnly && !isComplete && assigneeOptions.length > 0 && (
+          <select
+            value={todo.assigneeId ?? ''}
+            onChange={(e) => handleAssigneeChange(e.target.value)}
+            className="text-xs border rounded px-2 py-1 bg-background max-w-[8rem]"
+            aria-label={`Assign "${todo.title}"`}
+          >
+            <option value="">Unassigned</option>
+            {assigneeOptions.map((option) => (
+              <option key={option.id} value={option.id}>{assigneeLabel(option, currentUserId)}</option>
             ))}
-          </div>
+          </select>
+        )}
+
+        {onBlockedByChange && !readOnly && !isComplete && dependencyOptions.length > 0 && (
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => setShowDependencies(!showDependencies)}
+            aria-label={`Edit dependencies of "${todo.title}"`}
+            aria-expanded={showDependencies}
+          >
+            <Link2 className="h-4 w-4" />
+          </Button>
+        )}
+
+        {onAddSubtask && !readOnly && !isComplete && (
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => setShowSubtaskInput(!showSubtaskInput)}
+            aria-label={`Add subtask to "${todo.title}"`}
+          >
+            <ListPlus className="h-4 w-4" />
+          </Button>
+        )}
+
+        {canViewComments && (
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => setShowComments(!showComments)}
+            aria-label={`Comments on "${todo.title}"`}
+            aria-expanded={showComments}
+          >
+            <MessageSquare className="h-4 w-4" />
+          </Button>
+        )}
+
+        {canDelete && !readOnly && (
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => onDelete(todo.id)}
+            aria-label={`Delete "${todo.title}"`}
+          >
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
         )}
       </div>
 
-      {onStatusChange && !isComplete && (
-        <select
-          value={todo.status ?? 'PENDING'}
-          onChange={(e) => onStatusChange(todo.id, e.target.value as 'PENDING' | 'IN_PROGRESS' | 'COMPLETE')}
-          className="text-xs border rounded px-2 py-1 bg-background"
-          aria-label="Change status"
-        >
-          <option value="PENDING">Pending</option>
-          <option value="IN_PROGRESS">In Progress</option>
-          <option value="COMPLETE">Complete</option>
-        </select>
+      {showDependencies && (
+        <fieldset className="pl-8 space-y-1">
+          <legend className="text-xs text-muted-foreground mb-1">Blocked by</legend>
+          {dependencyOptions.map((option) => (
+            <label key={option.id} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={blockedBy.includes(option.id)}
+                onCheckedChange={(checked) => handleToggleDependency(option.id, checked === true)}
+                aria-label={`"${todo.title}" is blocked by "${option.title}"`}
+              />
+              <span className="truncate">{option.title}</span>
+            </label>
+          ))}
+        </fieldset>
+      )}
+
+      {showComments && (
+        <TodoComments
+          todoId={todo.id}
+          todoTitle={todo.title}
+          canComment={canComment}
+          currentUserId={currentUserId}
+        />
       )}
 
-      {canDelete && (
-        <Button
-          variant="ghost"
-          size="icon-sm"
-          onClick={() => onDelete(todo.id)}
-          aria-label={`Delete "${todo.title}"`}
-        >
-          <Trash2 className="h-4 w-4 text-destructive" />
-        </Button>
+      {showSubtaskInput && (
+        <form onSubmit={handleAddSubtask} className="flex gap-2 pl-8">
+          <Input
+            type="text"
+            placeholder="Subtask title"
+            value={subtaskTitle}
+            onChange={(e) => setSubtaskTitle(e.target.value)}
+            aria-label={`New subtask for "${todo.title}"`}
+            autoFocus
+          />
+          <Button type="submit" size="sm" disabled={!subtaskTitle.trim()}>
+            Add
+          </Button>
+        </form>
       )}
     </div>
   )
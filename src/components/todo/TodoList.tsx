@@ -1,27 +1,61 @@
 import { useState, useMemo } from 'react'
 import { TodoItem } from './TodoItem'
 import type { TodoItem as TodoItemType } from '@/hooks/use-todos'
+import { buildTaskTree, computeRollup, type TaskTreeNode } from '@/lib/task-tree'
+import { getOpenBlockers, sortByDependencies } from '@/lib/task-dependencies'
+import { assigneeLabel, collectAssignees, type AssigneeOption } from '@/lib/assignees'
+import { hasPermission, type GroupRole } from '@/lib/group-roles'
 import { TagBadge } from './TagBadge'
 import { Button } from '@/components/ui/button'
-import { X } from 'lucide-react'
+import { Route as RouteIcon, X } from 'lucide-react'
 import { TodoListSkeleton } from './TodoSkeleton'
+import { CriticalPathView } from './CriticalPathView'
 
-type SortOption = 'default' | 'tag' | 'dueDate' | 'priority'
+type SortOption = 'default' | 'tag' | 'dueDate' | 'priority' | 'dependency'
+
+// '' shows everyone, 'unassigned' shows unassigned items, anything else is an assignee id
+const UNASSIGNED = 'unassigned'
+
+// Items without due dates go last
+const compareDueDate = (a: TodoItemType, b: TodoItemType) => {
+  if (!a.dueDate && b.dueDate) return 1
+  if (a.dueDate && !b.dueDate) return -1
+  if (!a.dueDate && !b.dueDate) return 0
+  return new Date(a.dueDate!).getTime() - new Date(b.dueDate!).getTime()
+}
 
 interface TodoListProps {
   todos: TodoItemType[]
   onToggleComplete: (id: string, currentStatus: string) => void
   onDelete: (id: string) => void
   onStatusChange?: (id: string, status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETE') => void
+  onAddSubtask?: (parentId: string, title: string) => void
+  onBlockedByChange?: (id: string, blockedBy: string[]) => void
+  getAssigneeOptions?: (listId: string) => AssigneeOption[]
+  onAssigneeChange?: (id: string, assignee: AssigneeOption | null) => void
+  // Role in the group a list is shared with; null for lists that are not shared
+  getListRole?: (listId: string) => GroupRole | null
   isLoading?: boolean
+  // Todos are loaded a page at a time; hasMore shows a control to load the next page
+  hasMore?: boolean
+  onLoadMore?: () => void
+  isLoadingMore?: boolean
   canDeleteTodos?: boolean
   currentUserId?: string
   highlightTaskId?: string
 }
 
-export function TodoList({ todos, onToggleComplete, onDelete, onStatusChange, isLoading, canDeleteTodos = true, currentUserId, highlightTaskId }: TodoListProps) {
+export function TodoList({ todos, onToggleComplete, onDelete, onStatusChange, onAddSubtask, onBlockedByChange, getAssigneeOptions, onAssigneeChange, getListRole, isLoading, hasMore, onLoadMore, isLoadingMore, canDeleteTodos = true, currentUserId, highlightTaskId }: TodoListProps) {
   const [filterTag, setFilterTag] = useState<string | null>(null)
+  const [filterAssignee, setFilterAssignee] = useState('')
   const [sortBy, setSortBy] = useState<SortOption>('dueDate')
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set())
+  const [showCriticalPath, setShowCriticalPath] = useState(false)
+
+  const todosById = useMemo(() => new Map(todos.map(todo => [todo.id, todo])), [todos])
+
+  // The critical path is computed per list, so only offer it when every todo shares a list
+  const isSingleList = todos.length > 0 && todos.every(todo => todo.listId === todos[0].listId)
 
   // Get all unique tags from todos
   const allTags = useMemo(() => {
@@ -34,6 +68,9 @@ export function TodoList({ todos, onToggleComplete, onDelete, onStatusChange, is
     return Array.from(tagSet).sort()
   }, [todos])
 
+  // Assignees that appear on the current todos
+  const allAssignees = useMemo(() => collectAssignees(todos), [todos])
+
   // Filter and sort todos
   const filteredAndSortedTodos = useMemo(() => {
     let result = [...todos]
@@ -43,6 +80,13 @@ export function TodoList({ todos, onToggleComplete, onDelete, onStatusChange, is
       result = result.filter(todo => todo.tags?.includes(filterTag))
     }
 
+    // Filter by assignee
+    if (filterAssignee === UNASSIGNED) {
+      result = result.filter(todo => !todo.assigneeId)
+    } else if (filterAssignee) {
+      result = result.filter(todo => todo.assigneeId === filterAssignee)
+    }
+
     // Sort
     if (sortBy === 'tag') {
       result.sort((a, b) => {
@@ -54,13 +98,10 @@ export function TodoList({ todos, onToggleComplete, onDelete, onStatusChange, is
         return aTag.localeCompare(bTag)
       })
     } else if (sortBy === 'dueDate') {
-      result.sort((a, b) => {
-        // Items without due dates go last
-        if (!a.dueDate && b.dueDate) return 1
-        if (a.dueDate && !b.dueDate) return -1
-        if (!a.dueDate && !b.dueDate) return 0
-        return new Date(a.dueDate!).getTime() - new Date(b.dueDate!).getTime()
-      })
+      result.sort(compareDueDate)
+    } else if (sortBy === 'dependency') {
+      // Prerequisites first, then by due date among tasks that are ready at the same time
+      result = sortByDependencies(result, compareDueDate)
     } else if (sortBy === 'priority') {
       const priorityOrder = { URGENT: 0, HIGH: 1, MEDIUM: 2, LOW: 3 }
       result.sort((a, b) => {
@@ -71,7 +112,63 @@ export function TodoList({ todos, onToggleComplete, onDelete, onStatusChange, is
     }
 
     return result
-  }, [todos, filterTag, sortBy])
+  }, [todos, filterTag, filterAssignee, sortBy])
+
+  // Nest subtasks under their parents; sibling order follows the selected sort
+  const taskTree = useMemo(() => buildTaskTree(filteredAndSortedTodos), [filteredAndSortedTodos])
+  const hasHierarchy = taskTree.length !== filteredAndSortedTodos.length
+
+  const handleToggleExpand = (id: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const renderNode = (node: TaskTreeNode<TodoItemType>) => {
+    const todo = node.task
+    const isExpanded = !collapsedIds.has(todo.id)
+    const openBlockers = getOpenBlockers(todo, todosById).map(blocker => ({ id: blocker.id, title: blocker.title }))
+    const dependencyOptions = todos
+      .filter(other => other.id !== todo.id && other.listId === todo.listId)
+      .map(other => ({ id: other.id, title: other.title }))
+    const role = getListRole?.(todo.listId) ?? null
+    return (
+      <div key={todo.id} className="space-y-2">
+        <TodoItem
+          todo={todo}
+          onToggleComplete={onToggleComplete}
+          onDelete={onDelete}
+          onStatusChange={onStatusChange}
+          onAddSubtask={onAddSubtask}
+          canDelete={canDeleteTodos || todo.owner === currentUserId}
+          highlight={todo.id === highlightTaskId}
+          rollup={computeRollup(node)}
+          isExpanded={isExpanded}
+          onToggleExpand={hasHierarchy ? handleToggleExpand : undefined}
+          openBlockers={openBlockers}
+          dependencyOptions={dependencyOptions}
+          onBlockedByChange={onBlockedByChange}
+          assigneeOptions={getAssigneeOptions?.(todo.listId)}
+          onAssigneeChange={onAssigneeChange}
+          currentUserId={currentUserId}
+          readOnly={!!role && !hasPermission(role, 'edit')}
+          canViewComments={!!role}
+          canComment={hasPermission(role, 'comment')}
+        />
+        {isExpanded && node.children.length > 0 && (
+          <div className="space-y-2 pl-6 border-l ml-4" role="group" aria-label={`Subtasks of "${todo.title}"`}>
+            {node.children.map(renderNode)}
+          </div>
+        )}
+      </div>
+    )
+  }
 
   if (isLoading) {
     return <TodoListSkeleton count={3} />
@@ -119,6 +216,25 @@ export function TodoList({ todos, onToggleComplete, onDelete, onStatusChange, is
           )}
         </div>
 
+        {/* Assignee Filter */}
+        {allAssignees.length > 0 && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Assigned to:</span>
+            <select
+              value={filterAssignee}
+              onChange={(e) => setFilterAssignee(e.target.value)}
+              className="text-sm border rounded px-2 py-1 bg-background"
+              aria-label="Filter by assignee"
+            >
+              <option value="">Anyone</option>
+              <option value={UNASSIGNED}>Unassigned</option>
+              {allAssignees.map(assignee => (
+                <option key={assignee.id} value={assignee.id}>{assigneeLabel(assignee, currentUserId)}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {/* Sort Option */}
         <div className="flex items-center gap-2">
           <span className="text-sm text-muted-foreground">Sort by:</span>
@@ -132,14 +248,29 @@ export function TodoList({ todos, onToggleComplete, onDelete, onStatusChange, is
             <option value="dueDate">Due Date</option>
             <option value="priority">Priority</option>
             <option value="tag">Tag (A-Z)</option>
+            <option value="dependency">Dependencies</option>
           </select>
         </div>
+
+        {isSingleList && (
+          <Button
+            variant={showCriticalPath ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => setShowCriticalPath(!showCriticalPath)}
+            aria-pressed={showCriticalPath}
+          >
+            <RouteIcon className="h-4 w-4" />
+            Critical path
+          </Button>
+        )}
       </div>
 
+      {isSingleList && showCriticalPath && <CriticalPathView todos={todos} />}
+
       {/* Results count */}
-      {filterTag && (
+      {(filterTag || filterAssignee) && (
         <p className="text-sm text-muted-foreground">
-          Showing {filteredAndSortedTodos.length} of {todos.length} todos
+          Showing {filteredAndSortedTodos.length} of {todos.length}{hasMore ? ' loaded' : ''} todos
         </p>
       )}
 
@@ -150,17 +281,15 @@ export function TodoList({ todos, onToggleComplete, onDelete, onStatusChange, is
         </div>
       ) : (
         <div className="space-y-2">
-          {filteredAndSortedTodos.map((todo) => (
-            <TodoItem
-              key={todo.id}
-              todo={todo}
-              onToggleComplete={onToggleComplete}
-              onDelete={onDelete}
-              onStatusChange={onStatusChange}
-              canDelete={canDeleteTodos || todo.owner === currentUserId}
-              highlight={todo.id === highlightTaskId}
-            />
-          ))}
+          {taskTree.map(renderNode)}
+        </div>
+      )}
+
+      {hasMore && onLoadMore && (
+        <div className="flex justify-center">
+          <Button variant="outline" size="sm" onClick={onLoadMore} disabled={isLoadingMore}>
+            {isLoadingMore ? 'Loading...' : 'Load more todos'}
+          </Button>
         </div>
       )}
     </div>
@@ -1,6 +1,9 @@
 export { TodoItem } from './TodoItem'
 export { TodoList } from './TodoList'
+export { CriticalPathView } from './CriticalPathView'
 export { AddTodoForm } from './AddTodoForm'
 export { TagBadge } from './TagBadge'
 export { TagInput } from './TagInput'
+export { RecurrenceEditor } from './RecurrenceEditor'
+export { ReminderOffsetPicker } from './ReminderOffsetPicker'
 export { TodoItemSkeleton, TodoListSkeleton } from './TodoSkeleton'
@@ -0,0 +1,155 @@
+import { useEffect } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { client } from '../lib/amplify-client'
+import type { Schema } from '../../amplify/data/resource'
+import { PAGE_SIZE, listAllPages } from '../lib/pagination'
+import { parseSessionMessages } from '../../amplify/functions/shared/agent-sessions'
+
+type AgentJob = Schema['AgentJob']['type']
+type AgentUsage = Schema['AgentUsage']['type']
+
+export const agentJobKeys = {
+  all: ['agentJobs'] as const,
+  byOwner: (owner: string) => [...agentJobKeys.all, 'owner', owner] as const,
+  usage: (userId: string, month: string) => [...agentJobKeys.all, 'usage', userId, month] as const,
+  session: (sessionId: string) => [...agentJobKeys.all, 'session', sessionId] as const,
+}
+
+function newestFirst(a: AgentJob, b: AgentJob) {
+  return (b.createdAt ?? '').localeCompare(a.createdAt ?? '')
+}
+
+// Add a job to the cached history, or replace the copy already there
+function upsertJob(jobs: AgentJob[], job: AgentJob): AgentJob[] {
+  return [job, ...jobs.filter(j => j.id !== job.id)].sort(newestFirst)
+}
+
+// Fetch the current user's agent jobs, newest first, and keep them live: new jobs arrive via
+// onCreate and every status change and progress step via onUpdate
+export function useAgentJobs(owner: string) {
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    if (!owner) return
+
+    const handleJob = (job: AgentJob) => {
+      queryClient.setQueryData<AgentJob[]>(agentJobKeys.byOwner(owner), (old = []) => upsertJob(old, job))
+    }
+
+    const created = client.models.AgentJob.onCreate().subscribe({
+      next: handleJob,
+      error: (error) => console.error('Agent job subscription error:', error),
+    })
+    const updated = client.models.AgentJob.onUpdate().subscribe({
+      next: handleJob,
+      error: (error) => console.error('Agent job subscription error:', error),
+    })
+
+    return () => {
+      created.unsubscribe()
+      updated.unsubscribe()
+    }
+  }, [owner, queryClient])
+
+  return useQuery({
+    queryKey: agentJobKeys.byOwner(owner),
+    queryFn: async () => {
+      const jobs = await listAllPages(async (nextToken) => {
+        const { data, errors, nextToken: next } = await client.models.AgentJob.list({ limit: PAGE_SIZE, nextToken })
+        if (errors) throw new Error(errors[0].message)
+        return { items: data, nextToken: next ?? null }
+      })
+      return jobs.sort(newestFirst)
+    },
+    enabled: !!owner,
+  })
+}
+
+// Ask the task-agents function to stop a PENDING/PROCESSING job through cancelAgentJob. It
+// checks the flag before starting and between tool calls, then marks the job CANCELLED.
+export function useCancelAgentJob() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: { id: string; owner: string }) => {
+      const { data, errors } = await client.mutations.cancelAgentJob({ jobId: input.id })
+      if (errors?.length) throw new Error(errors[0].message)
+      if (!data?.success) throw new Error(data?.message || 'Failed to cancel agent job')
+      return data
+    },
+    onMutate: async ({ id, owner }) => {
+      await queryClient.cancelQueries({ queryKey: agentJobKeys.byOwner(owner) })
+      const previous = queryClient.getQueryData<AgentJob[]>(agentJobKeys.byOwner(owner))
+      queryClient.setQueryData<AgentJob[]>(agentJobKeys.byOwner(owner), (old = []) =>
+        old.map(j => (j.id === id ? { ...j, cancelRequested: true } : j))
+      )
+      return { previous }
+    },
+    onError: (_err, { owner }, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(agentJobKeys.byOwner(owner), context.previous)
+      }
+    },
+  })
+}
+
+// Create a PENDING job through startAgentJob, which refuses requests over the user's or their
+// groups' agent quotas. Resolves with the new job's id
+export async function startAgentJob(queryType: string, requestData: Record<string, unknown>): Promise<string> {
+  const { data, errors } = await client.mutations.startAgentJob({
+    queryType,
+    requestData: JSON.stringify(requestData),
+  })
+  if (errors?.length) throw new Error(errors[0].message)
+  if (!data?.success || !data.id) throw new Error(data?.message || 'Failed to create agent job')
+  return data.id
+}
+
+// Run a past job again as a new job with the same queryType and requestData
+export function useRerunAgentJob() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: { queryType: string; requestData: Record<string, unknown>; owner: string }) => {
+      const id = await startAgentJob(input.queryType, input.requestData)
+      const { data, errors } = await client.models.AgentJob.get({ id })
+      if (errors || !data) throw new Error(errors?.[0]?.message || 'Failed to load the new agent job')
+      return data
+    },
+    onSuccess: (job, { owner }) => {
+      queryClient.setQueryData<AgentJob[]>(agentJobKeys.byOwner(owner), (old = []) => upsertJob(old, job))
+    },
+  })
+}
+
+// The user's agent usage for the current month (UTC), as the task-agents functions total it.
+// Null until they have made a request this month
+export function useAgentUsage(userId: string) {
+  const month = new Date().toISOString().slice(0, 7)
+
+  return useQuery({
+    queryKey: agentJobKeys.usage(userId, month),
+    queryFn: async () => {
+      const { data, errors } = await client.models.AgentUsage.get({ id: `${userId}:${month}` })
+      if (errors) throw new Error(errors[0].message)
+      return data
+    },
+    enabled: !!userId,
+  })
+}
+
+// The follow-ups and replies of an agent session (see amplify/functions/shared/agent-sessions.ts);
+// empty until the first follow-up is answered
+export function useAgentSessionMessages(sessionId: string | null) {
+  return useQuery({
+    queryKey: agentJobKeys.session(sessionId ?? ''),
+    queryFn: async () => {
+      const { data, errors } = await client.models.AgentSession.get({ id: sessionId ?? '' })
+      if (errors) throw new Error(errors[0].message)
+      return parseSessionMessages(data?.messages)
+    },
+    enabled: !!sessionId,
+  })
+}
+
+export type { AgentJob, AgentUsage }
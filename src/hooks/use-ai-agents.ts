@@ -1,88 +1,254 @@
+import { useState } from 'react'
 import { useMutation, useQueryClient } from '@tanstack/react-query'
 import { generateClient } from 'aws-amplify/data'
 import type { Schema } from '../../amplify/data/resource'
+import type { AgentStreamFrame } from '../../amplify/functions/shared/agent-stream'
+import { parseAgentTrace, type AgentTrace } from '../../amplify/functions/shared/agent-trace'
 import {
   parseTaskAnalysis,
+  parseProjectBreakdown,
   parseDailyPlan,
   parseTaskRecommendation,
+  parseAgentCommand,
+  parseAppliedActions,
+  parseProposedActions,
   type TaskAnalysis,
   type ProjectBreakdownResult,
   type DailyPlanResult,
   type TaskRecommendation,
+  type AgentCommandResult,
+  type ProposedAction,
+  type AppliedAction,
 } from '../lib/ai-response-parser'
+import { parseJobProgress, type JobProgressStep } from '../lib/job-progress'
+import { agentJobKeys, startAgentJob, useAgentSessionMessages } from './use-agent-jobs'
+import { agentErrorMessage } from '../lib/agent-jobs'
+import {
+  applyStreamFrame,
+  INITIAL_STREAM_STATE,
+  latestThought,
+  readPartialDailyPlan,
+  readPartialRecommendation,
+  type AgentStreamState,
+} from '../lib/agent-stream'
+import {
+  callTaskAgentsApiStreaming,
+  isTaskAgentsApiConfigured,
+  type TaskAgentRequest,
+} from '../lib/task-agents-api'
 
 const client = generateClient<Schema>()
 
-// Helper to create a job and wait for completion via polling
+type AgentJob = Schema['AgentJob']['type']
+
+const JOB_TIMEOUT_MS = 15 * 60 * 1000 // 15 minutes
+
+// resultData is double-JSON-encoded, need to parse twice
+function parseResultData(resultData: AgentJob['resultData']): unknown {
+  if (!resultData) return resultData
+  // First parse: string -> string (removes outer quotes)
+  const firstParse = JSON.parse(resultData as string)
+  // Second parse: string -> object
+  return typeof firstParse === 'string' ? JSON.parse(firstParse) : firstParse
+}
+
+// Helper to create a job and follow it through the onUpdate subscription until it finishes.
+// Each update carries the job's progress so far, passed to onProgress; the finished job is
+// passed to onComplete for its trace and session.
 async function createAndWaitForJob(
   queryType: string,
-  requestData: Record<string, unknown>
+  requestData: Record<string, unknown>,
+  onProgress?: (steps: JobProgressStep[]) => void,
+  onComplete?: (job: AgentJob) => void
 ): Promise<unknown> {
-  // Create the job
-  const { data: job, errors } = await client.models.AgentJob.create({
-    queryType,
-    status: 'PENDING',
-    requestData: JSON.stringify(requestData),
+  onProgress?.([])
+
+  // Create the job; quota errors surface here
+  const jobId = await startAgentJob(queryType, requestData)
+
+  return new Promise((resolve, reject) => {
+    let settled = false
+
+    const settle = (finish: () => void) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timeout)
+      subscription.unsubscribe()
+      finish()
+    }
+
+    const handleUpdate = (updatedJob: AgentJob) => {
+      if (settled) return
+      onProgress?.(parseJobProgress(updatedJob.progress))
+
+      if (updatedJob.status === 'COMPLETE') {
+        onComplete?.(updatedJob)
+        settle(() => {
+          try {
+            resolve(parseResultData(updatedJob.resultData))
+          } catch (error) {
+            reject(error)
+          }
+        })
+      } else if (updatedJob.status === 'FAILED') {
+        settle(() => reject(new Error(updatedJob.error || 'Job failed')))
+      } else if (updatedJob.status === 'CANCELLED') {
+        settle(() => reject(new Error('The request was cancelled')))
+      }
+    }
+
+    const subscription = client.models.AgentJob.onUpdate({ filter: { id: { eq: jobId } } }).subscribe({
+      next: handleUpdate,
+      error: (error) => {
+        console.error('Agent job subscription error:', error)
+        settle(() => reject(new Error('Lost connection while waiting for the agent')))
+      },
+    })
+
+    const timeout = setTimeout(() => {
+      settle(() => reject(new Error('Job timed out after 15 minutes')))
+    }, JOB_TIMEOUT_MS)
+
+    // Catch up on anything that happened before the subscription was established
+    client.models.AgentJob.get({ id: jobId })
+      .then(({ data }) => {
+        if (data) handleUpdate(data)
+      })
+      .catch((error) => console.error('Error fetching agent job:', error))
   })
+}
 
-  if (errors || !job) {
-    throw new Error(errors?.[0]?.message || 'Failed to create agent job')
+// The progress timeline of the job a hook is running
+function useJobProgress() {
+  const [steps, setSteps] = useState<JobProgressStep[]>([])
+  return { steps, onProgress: setSteps }
+}
+
+// The progress and partial answer of a request a hook runs with runStreamedRequest
+function useAgentStream() {
+  const [state, setState] = useState<AgentStreamState>(INITIAL_STREAM_STATE)
+  return {
+    state,
+    reset: () => setState(INITIAL_STREAM_STATE),
+    onProgress: (steps: JobProgressStep[]) => setState((prev) => ({ ...prev, steps })),
+    onFrame: (frame: AgentStreamFrame) => setState((prev) => applyStreamFrame(prev, frame)),
+    onTrace: (trace: AgentTrace | null) => setState((prev) => ({ ...prev, trace })),
   }
+}
 
-  console.log('Created job:', job.id, 'Polling for completion...')
+// An agent's response and the session it was recorded in, if the queryType has sessions
+interface SessionResponse {
+  response: unknown
+  sessionId: string | null
+}
 
-  // Poll for job completion every 5 seconds
-  return new Promise((resolve, reject) => {
-    const startTime = Date.now()
-    const maxDuration = 15 * 60 * 1000 // 15 minutes
-    
-    const pollInterval = setInterval(async () => {
-      try {
-        if (Date.now() - startTime > maxDuration) {
-          clearInterval(pollInterval)
-          reject(new Error('Job timed out after 15 minutes'))
-          return
-        }
+// Run a request over the streaming endpoint when it is deployed, so the card can show the
+// answer while it is written; otherwise run it as an AgentJob. Both resolve with the validated
+// response wrapper.
+async function runStreamedRequest(
+  queryType: TaskAgentRequest['queryType'],
+  requestData: Omit<TaskAgentRequest, 'queryType'>,
+  stream: ReturnType<typeof useAgentStream>
+): Promise<SessionResponse> {
+  stream.reset()
+  let sessionId: string | null = null
+  if (!isTaskAgentsApiConfigured()) {
+    const response = await createAndWaitForJob(queryType, requestData, stream.onProgress, (job) => {
+      stream.onTrace(parseAgentTrace(job.trace))
+      sessionId = job.sessionId ?? null
+    })
+    return { response, sessionId }
+  }
 
-        const { data: updatedJob } = await client.models.AgentJob.get({ id: job.id })
-        
-        if (!updatedJob) {
-          console.log('Job not found, continuing...')
-          return
-        }
+  const response = await callTaskAgentsApiStreaming({ queryType, ...requestData }, (frame) => {
+    stream.onFrame(frame)
+    if (frame.type === 'final') sessionId = frame.sessionId ?? null
+  })
+  if (!response.success) throw new Error(response.error || 'Agent returned an error')
+  return { response, sessionId }
+}
 
-        console.log('Job status:', updatedJob.status)
-
-        if (updatedJob.status === 'COMPLETE') {
-          clearInterval(pollInterval)
-          console.log('Job complete!')
-          
-          // resultData is double-JSON-encoded, need to parse twice
-          let resultData = updatedJob.resultData
-          if (resultData) {
-            // First parse: string -> string (removes outer quotes)
-            const firstParse = JSON.parse(resultData as string)
-            // Second parse: string -> object
-            resultData = typeof firstParse === 'string' ? JSON.parse(firstParse) : firstParse
-          }
-          
-          resolve(resultData)
-        } else if (updatedJob.status === 'FAILED') {
-          clearInterval(pollInterval)
-          console.log('Job failed!')
-          reject(new Error(updatedJob.error || 'Job failed'))
-        }
-      } catch (error) {
-        console.error('Error polling job:', error)
+// The fields of a follow-up in an agent session (see amplify/functions/shared/agent-sessions.ts)
+type FollowUpFields = Pick<TaskAgentRequest, 'sessionId' | 'followUp'>
+
+// An answer, the request that produced it, and the session it can be followed up in
+interface ConversationAnswer<TParams, T> {
+  data: T
+  request: TParams & FollowUpFields
+  sessionId: string | null
+}
+
+// The conversation about a hook's answer. `start` runs a new request; `followUp` re-runs it in
+// the answer's session with the user's message. The latest answer stays shown while a
+// follow-up is answered, and follow-up errors are kept apart from the request's.
+function useAgentConversation<TParams extends object, T>(
+  ask: (request: TParams & FollowUpFields) => Promise<{ data: T; sessionId: string | null }>
+) {
+  const queryClient = useQueryClient()
+  const [answer, setAnswer] = useState<ConversationAnswer<TParams, T> | null>(null)
+  // Answers received in this conversation, so reviews of the answer can reset on each revision
+  const [turn, setTurn] = useState(0)
+  const messages = useAgentSessionMessages(answer?.sessionId ?? null)
+
+  const mutation = useMutation({
+    mutationFn: ask,
+    onSuccess: ({ data, sessionId }, request) => {
+      setAnswer({ data, request, sessionId })
+      setTurn((prev) => prev + 1)
+      if (request.followUp && sessionId) {
+        queryClient.invalidateQueries({ queryKey: agentJobKeys.session(sessionId) })
       }
-    }, 5000) // Poll every 5 seconds
+    },
   })
+  const pendingFollowUp = mutation.isPending ? (mutation.variables?.followUp ?? null) : null
+  const followUpFailed = mutation.isError && !!mutation.variables?.followUp
+
+  return {
+    start: (request: TParams) => {
+      if (mutation.isPending) return
+      setAnswer(null)
+      mutation.mutateAsync(request).catch(() => {})
+    },
+    followUp: (message: string) => {
+      if (mutation.isPending || !answer?.sessionId) return
+      mutation.mutateAsync({ ...answer.request, sessionId: answer.sessionId, followUp: message }).catch(() => {})
+    },
+    data: answer?.data ?? null,
+    turn,
+    messages: messages.data ?? [],
+    // The first answer is loading; follow-ups are `isReplying`
+    isLoading: mutation.isPending && pendingFollowUp === null,
+    isReplying: pendingFollowUp !== null,
+    pendingFollowUp,
+    error: followUpFailed ? null : agentErrorMessage(mutation.error?.message),
+    replyError: followUpFailed ? agentErrorMessage(mutation.error?.message) : null,
+    isSuccess: answer !== null,
+    reset: () => {
+      mutation.reset()
+      setAnswer(null)
+    },
+  }
+}
+
+// Apply the changes the user approved from a dry run. The job runs them without the agent.
+async function applyProposedActions(
+  queryType: string,
+  actions: ProposedAction[],
+  onProgress?: (steps: JobProgressStep[]) => void
+): Promise<AppliedAction[]> {
+  // Nested values are dropped from requestData on the way to the agent, so send a string
+  const resultData = await createAndWaitForJob(queryType, { actions: JSON.stringify(actions) }, onProgress)
+
+  const result = parseAppliedActions(JSON.stringify(resultData))
+  if (!result.success) throw new Error(result.error)
+  return result.data
 }
 
 export function useAnalyzeTask() {
+  const progress = useJobProgress()
   const mutation = useMutation({
     mutationFn: async (taskDescription: string) => {
-      const resultData = await createAndWaitForJob('analyzeTask', { taskDescription })
+      const resultData = await createAndWaitForJob('analyzeTask', { taskDescription }, progress.onProgress)
       
       const result = parseTaskAnalysis(JSON.stringify(resultData))
       if (!result.success) throw new Error(result.error)
@@ -97,156 +263,277 @@ export function useAnalyzeTask() {
     },
     data: mutation.data ?? null,
     isLoading: mutation.isPending,
-    error: mutation.error?.message ?? null,
+    progress: progress.steps,
+    error: agentErrorMessage(mutation.error?.message),
     reset: mutation.reset,
   }
 }
 
 export function useBreakdownProject() {
   const queryClient = useQueryClient()
+  const progress = useJobProgress()
   
-  const mutation = useMutation({
-    mutationFn: async (params: { listId: string; projectBrief: string; deadline?: string }) => {
-      const resultData = await createAndWaitForJob('breakdownProject', params)
+  const conversation = useAgentConversation(
+    async (params: { listId: string; projectBrief: string; deadline?: string } & FollowUpFields) => {
+      // A dry run: the tasks come back as a changeset for the user to review, not written.
+      // Follow-ups revise the changeset the same way.
+      let sessionId: string | null = null
+      const resultData = await createAndWaitForJob(
+        'breakdownProject',
+        { ...params, dryRun: true },
+        progress.onProgress,
+        (job) => {
+          sessionId = job.sessionId ?? null
+        }
+      )
+
+      // The summary follows the breakdownProject schema; the proposed create_tasks call is
+      // stored alongside it
+      const result = parseProjectBreakdown(JSON.stringify(resultData))
+      if (!result.success) throw new Error(result.error)
+
+      const wrapper = resultData as { data?: { actions?: unknown } }
+      return {
+        data: {
+          summary: result.data.summary,
+          totalTasks: result.data.totalTasks,
+          listId: params.listId,
+          actions: parseProposedActions(wrapper.data?.actions),
+        },
+        sessionId,
+      }
+    }
+  )
+
+  const approveMutation = useMutation({
+    mutationFn: (actions: ProposedAction[]) => applyProposedActions('breakdownProject', actions, progress.onProgress),
+    onSettled: () => {
+      // Invalidate all todos queries to refresh the list
+      queryClient.invalidateQueries({ queryKey: ['todos'] })
+    },
+  })
+
+  return {
+    breakdown: (listId: string, projectBrief: string, deadline?: string) => {
+      approveMutation.reset()
+      conversation.start({ listId, projectBrief, deadline })
+    },
+    followUp: conversation.followUp,
+    // Resolves with each action's outcome, or null if nothing was applied
+    approve: async (actions: ProposedAction[]): Promise<AppliedAction[] | null> => {
+      if (approveMutation.isPending || actions.length === 0) return null
+      return approveMutation.mutateAsync(actions).catch(() => null)
+    },
+    data: conversation.data,
+    turn: conversation.turn,
+    messages: conversation.messages,
+    isLoading: conversation.isLoading,
+    isReplying: conversation.isReplying,
+    pendingFollowUp: conversation.pendingFollowUp,
+    progress: progress.steps,
+    isApproving: approveMutation.isPending,
+    error: conversation.error,
+    replyError: conversation.replyError,
+    approveError: agentErrorMessage(approveMutation.error?.message),
+    reset: () => {
+      conversation.reset()
+      approveMutation.reset()
+    },
+    isSuccess: conversation.isSuccess,
+  }
+}
+
+export function usePlanDay() {
+  const stream = useAgentStream()
+  const conversation = useAgentConversation(
+    async (params: { date: string; listId?: string; assigneeId?: string } & FollowUpFields) => {
+      const { response, sessionId } = await runStreamedRequest('planDay', params, stream)
       
-      console.log('Raw resultData:', resultData)
-      console.log('Type of resultData:', typeof resultData)
-      console.log('Has data field:', resultData && typeof resultData === 'object' && 'data' in resultData)
+      const result = parseDailyPlan(JSON.stringify(response))
+      if (!result.success) throw new Error(result.error)
+      return { data: result.data, sessionId }
+    }
+  )
+
+  return {
+    plan: (date: string, listId?: string, assigneeId?: string) => {
+      conversation.start({ date, listId, assigneeId })
+    },
+    followUp: conversation.followUp,
+    data: conversation.data,
+    messages: conversation.messages,
+    // The plan so far while it is streamed in
+    partial: conversation.isLoading ? readPartialDailyPlan(stream.state.partial) : null,
+    thinking: latestThought(stream.state.thinking),
+    trace: conversation.data && !conversation.isReplying ? stream.state.trace : null,
+    isLoading: conversation.isLoading,
+    isReplying: conversation.isReplying,
+    pendingFollowUp: conversation.pendingFollowUp,
+    progress: stream.state.steps,
+    error: conversation.error,
+    replyError: conversation.replyError,
+    reset: conversation.reset,
+  }
+}
+
+export function useRecommendTask() {
+  const stream = useAgentStream()
+  const conversation = useAgentConversation(async (params: { listId?: string } & FollowUpFields) => {
+    try {
+      console.log('recommendTask starting job...')
+      const { response: resultData, sessionId } = await runStreamedRequest('recommendTask', params, stream)
+      
+      console.log('recommendTask raw resultData:', resultData)
+      console.log('recommendTask resultData type:', typeof resultData)
       
-      // resultData is already parsed as an object with { success: true, data: {...} }
+      // Extract data from wrapper { success: true, data: {...} }
       const parsed = resultData as { success: boolean; data?: Record<string, unknown>; error?: string }
       
-      console.log('Parsed resultData:', parsed)
-      console.log('Success:', parsed.success)
+      console.log('recommendTask parsed:', parsed)
+      console.log('recommendTask parsed.success:', parsed.success)
+      console.log('recommendTask parsed.data:', parsed.data)
       
-      // Check if the operation was successful
       if (!parsed.success) {
-        const errorMsg = parsed.error || 'Agent returned an error'
-        console.error('Agent error:', errorMsg)
-        throw new Error(errorMsg)
+        throw new Error(parsed.error || 'Agent returned an error')
       }
       
-      // Extract the data field from the wrapper { success: true, data: {...} }
-      if (parsed.data) {
-        const data = parsed.data
-        
-        console.log('Extracted data:', data)
-        
-        // The orchestrator returns metadata (projectName, totalTasks, summary, etc.)
-        // Tasks are already created in the database by the create_tasks tool
-        // Return a simplified result with just the summary and task count
-        const result = {
-          tasks: [], // Tasks are already in DB, no need to return them
-          summary: (data.summary as string) || 'Project breakdown complete',
-          totalTasks: (data.totalTasks as number) || 0,
-          listId: params.listId,
-        }
-        
-        console.log('Returning result:', result)
-        return result
+      if (!parsed.data) {
+        throw new Error('Invalid response format from agent')
       }
       
-      console.error('Invalid response format - no data field:', parsed)
-      throw new Error('Invalid response format from agent')
-    },
-    onSuccess: (data) => {
-      console.log('Mutation onSuccess triggered', data)
-      // Invalidate all todos queries to refresh the list
-      queryClient.invalidateQueries({ queryKey: ['todos'] })
-    },
-    onError: (error) => {
-      console.log('Mutation onError triggered', error)
-    },
+      const result = parseTaskRecommendation(JSON.stringify(parsed.data))
+      console.log('recommendTask parse result:', result)
+      
+      if (!result.success) throw new Error(result.error)
+      return { data: result.data, sessionId }
+    } catch (error) {
+      console.error('recommendTask error:', error)
+      throw error
+    }
   })
 
   return {
-    breakdown: (listId: string, projectBrief: string, deadline?: string) => {
-      if (mutation.isPending) {
-        console.warn('Breakdown already in progress, skipping duplicate call')
-        return
-      }
-      mutation.mutate({ listId, projectBrief, deadline })
+    recommend: (listId?: string) => {
+      conversation.start({ listId })
     },
-    data: mutation.data ?? null,
-    isLoading: mutation.isPending,
-    error: mutation.error?.message ?? null,
-    reset: mutation.reset,
-    isSuccess: mutation.isSuccess,
+    followUp: conversation.followUp,
+    data: conversation.data,
+    messages: conversation.messages,
+    // The recommendation so far while it is streamed in
+    partial: conversation.isLoading ? readPartialRecommendation(stream.state.partial) : null,
+    thinking: latestThought(stream.state.thinking),
+    trace: conversation.data && !conversation.isReplying ? stream.state.trace : null,
+    isLoading: conversation.isLoading,
+    isReplying: conversation.isReplying,
+    pendingFollowUp: conversation.pendingFollowUp,
+    progress: stream.state.steps,
+    error: conversation.error,
+    replyError: conversation.replyError,
+    reset: conversation.reset,
   }
 }
 
-export function usePlanDay() {
-  const mutation = useMutation({
-    mutationFn: async (params: { date: string; listId?: string }) => {
-      const resultData = await createAndWaitForJob('planDay', params)
-      
-      const result = parseDailyPlan(JSON.stringify(resultData))
+// Freeform requests from the command palette. These are always dry runs: `apply` sends the
+// changes the user confirmed back as a second job.
+export function useAgentCommand() {
+  const queryClient = useQueryClient()
+  const progress = useJobProgress()
+
+  const askMutation = useMutation({
+    mutationFn: async (query: string) => {
+      const resultData = await createAndWaitForJob('freeform', { query }, progress.onProgress)
+
+      const result = parseAgentCommand(JSON.stringify(resultData))
       if (!result.success) throw new Error(result.error)
       return result.data
     },
   })
 
+  const applyMutation = useMutation({
+    mutationFn: (actions: ProposedAction[]) => applyProposedActions('freeform', actions, progress.onProgress),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['todos'] })
+    },
+  })
+
   return {
-    plan: (date: string, listId?: string) => {
-      if (mutation.isPending) return
-      mutation.mutateAsync({ date, listId }).catch(() => {})
+    ask: (query: string) => {
+      if (askMutation.isPending) return
+      applyMutation.reset()
+      askMutation.mutateAsync(query).catch(() => {})
+    },
+    apply: (actions: ProposedAction[]) => {
+      if (applyMutation.isPending || actions.length === 0) return
+      applyMutation.mutateAsync(actions).catch(() => {})
+    },
+    data: askMutation.data ?? null,
+    results: applyMutation.data ?? null,
+    isLoading: askMutation.isPending,
+    progress: progress.steps,
+    isApplying: applyMutation.isPending,
+    error: agentErrorMessage(askMutation.error?.message ?? applyMutation.error?.message),
+    reset: () => {
+      askMutation.reset()
+      applyMutation.reset()
     },
-    data: mutation.data ?? null,
-    isLoading: mutation.isPending,
-    error: mutation.error?.message ?? null,
-    reset: mutation.reset,
   }
 }
 
-export function useRecommendTask() {
-  const mutation = useMutation({
-    mutationFn: async (params: { listId?: string }) => {
-      try {
-        console.log('recommendTask starting job...')
-        const resultData = await createAndWaitForJob('recommendTask', params)
-        
-        console.log('recommendTask raw resultData:', resultData)
-        console.log('recommendTask resultData type:', typeof resultData)
-        
-        // Extract data from wrapper { success: true, data: {...} }
-        const parsed = resultData as { success: boolean; data?: Record<string, unknown>; error?: string }
-        
-        console.log('recommendTask parsed:', parsed)
-        console.log('recommendTask parsed.success:', parsed.success)
-        console.log('recommendTask parsed.data:', parsed.data)
-        
-        if (!parsed.success) {
-          throw new Error(parsed.error || 'Agent returned an error')
-        }
-        
-        if (!parsed.data) {
-          throw new Error('Invalid response format from agent')
-        }
-        
-        const result = parseTaskRecommendation(JSON.stringify(parsed.data))
-        console.log('recommendTask parse result:', result)
-        
-        if (!result.success) throw new Error(result.error)
-        return result.data
-      } catch (error) {
-        console.error('recommendTask error:', error)
-        throw error
-      }
+// A saved playbook to run, or an unsaved draft to preview, with the user's input for it
+export type PlaybookRunRequest = ({ playbookId: string } | { playbookContent: string }) & { input?: string }
+
+// Playbook runs from the playbooks page. Like freeform requests they are always dry runs, and
+// `apply` sends the changes the user confirmed back as a second job.
+export function usePlaybookRun() {
+  const queryClient = useQueryClient()
+  const progress = useJobProgress()
+
+  const runMutation = useMutation({
+    mutationFn: async (request: PlaybookRunRequest) => {
+      const resultData = await createAndWaitForJob('runPlaybook', request, progress.onProgress)
+
+      const result = parseAgentCommand(JSON.stringify(resultData))
+      if (!result.success) throw new Error(result.error)
+      return result.data
+    },
+  })
+
+  const applyMutation = useMutation({
+    mutationFn: (actions: ProposedAction[]) => applyProposedActions('runPlaybook', actions, progress.onProgress),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['todos'] })
     },
   })
 
   return {
-    recommend: (listId?: string) => {
-      if (mutation.isPending) return
-      mutation.mutateAsync({ listId }).catch((err) => {
-        console.error('recommendTask mutation error:', err)
-      })
+    run: (request: PlaybookRunRequest) => {
+      if (runMutation.isPending) return
+      applyMutation.reset()
+      runMutation.mutateAsync(request).catch(() => {})
+    },
+    apply: (actions: ProposedAction[]) => {
+      if (applyMutation.isPending || actions.length === 0) return
+      applyMutation.mutateAsync(actions).catch(() => {})
+    },
+    data: runMutation.data ?? null,
+    results: applyMutation.data ?? null,
+    isLoading: runMutation.isPending,
+    progress: progress.steps,
+    isApplying: applyMutation.isPending,
+    error: agentErrorMessage(runMutation.error?.message ?? applyMutation.error?.message),
+    reset: () => {
+      runMutation.reset()
+      applyMutation.reset()
     },
-    data: mutation.data ?? null,
-    isLoading: mutation.isPending,
-    error: mutation.error?.message ?? null,
-    reset: mutation.reset,
   }
 }
 
-export type { TaskAnalysis, ProjectBreakdownResult, DailyPlanResult, TaskRecommendation }
+export type {
+  TaskAnalysis,
+  ProjectBreakdownResult,
+  DailyPlanResult,
+  TaskRecommendation,
+  AgentCommandResult,
+  ProposedAction,
+  AppliedAction,
+}
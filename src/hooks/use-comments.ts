@@ -0,0 +1,45 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { client } from '../lib/amplify-client'
+import type { Schema } from '../../amplify/data/resource'
+import { parseGroupRecordPage } from '../lib/group-records'
+
+type TodoComment = Schema['TodoComment']['type']
+
+export const commentKeys = {
+  all: ['comments'] as const,
+  byTodo: (todoId: string) => [...commentKeys.all, 'todo', todoId] as const,
+}
+
+// Fetch comments on a todo, oldest first. listTodoComments checks the user can see the todo
+export function useTodoComments(todoId: string, enabled = true) {
+  return useQuery({
+    queryKey: commentKeys.byTodo(todoId),
+    queryFn: async () => {
+      const { data, errors } = await client.queries.listTodoComments({ todoId })
+      if (errors) throw new Error(errors[0].message)
+      return parseGroupRecordPage<TodoComment>(data).items.sort((a, b) => (a.createdAt ?? '').localeCompare(b.createdAt ?? ''))
+    },
+    enabled: !!todoId && enabled,
+  })
+}
+
+// Comments are created by the group-access function, which checks the caller may comment
+export function useAddComment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ todoId, body }: { todoId: string; body: string }) => {
+      if (!body.trim()) throw new Error('Comment cannot be empty')
+
+      const { data, errors } = await client.mutations.addTodoComment({ todoId, body: body.trim() })
+      if (errors) throw new Error(errors[0].message)
+      if (!data?.success) throw new Error(data?.message ?? 'Failed to add comment')
+      return { todoId }
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: commentKeys.byTodo(data.todoId) })
+    },
+  })
+}
+
+export type { TodoComment }
@@ -2,6 +2,8 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { client } from '../lib/amplify-client'
 import type { Schema } from '../../amplify/data/resource'
 import { listKeys } from './use-lists'
+import { DEFAULT_MEMBER_ROLE, type MemberRole } from '../lib/group-roles'
+import { PAGE_SIZE, listAllPages } from '../lib/pagination'
 
 type ListGroup = Schema['ListGroup']['type']
 type GroupInvitation = Schema['GroupInvitation']['type']
@@ -24,13 +26,21 @@ export const invitationKeys = {
   byUser: (userId: string) => [...invitationKeys.all, 'user', userId] as const,
 }
 
+// Every group the user can read, across all pages
+function fetchAllGroups(): Promise<ListGroup[]> {
+  return listAllPages(async (nextToken) => {
+    const { data, errors, nextToken: next } = await client.models.ListGroup.list({ limit: PAGE_SIZE, nextToken })
+    if (errors) throw new Error(errors[0].message)
+    return { items: data, nextToken: next ?? null }
+  })
+}
+
 // Fetch all groups owned by the current user
 export function useOwnedGroups(owner: string) {
   return useQuery({
     queryKey: groupKeys.byOwner(owner),
     queryFn: async () => {
-      const { data, errors } = await client.models.ListGroup.list()
-      if (errors) throw new Error(errors[0].message)
+      const data = await fetchAllGroups()
       // Filter to only groups owned by this user
       return data.filter((group) => group.owner === owner)
     },
@@ -43,8 +53,7 @@ export function useMemberGroups(userId: string) {
   return useQuery({
     queryKey: groupKeys.memberOf(userId),
     queryFn: async () => {
-      const { data, errors } = await client.models.ListGroup.list()
-      if (errors) throw new Error(errors[0].message)
+      const data = await fetchAllGroups()
       // Filter groups where user is in memberIds but not the owner
       return data.filter(
         (group) => group.memberIds?.includes(userId) && group.owner !== userId
@@ -202,6 +211,7 @@ export function useInviteMember() {
         invitedEmail: input.invitedEmail.trim().toLowerCase(),
         invitedBy: input.invitedBy,
         status: 'PENDING',
+        role: input.role ?? DEFAULT_MEMBER_ROLE,
       })
       if (errors) throw new Error(errors[0].message)
       return data
@@ -214,25 +224,15 @@ export function useInviteMember() {
   })
 }
 
-// Accept invitation using custom atomic mutation
+// Accept invitation using custom atomic mutation; the server takes the caller from their token
 // Requirements: 7.2
 export function useAcceptInvitation() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: async ({ invitationId, groupId, userId, userEmail }: { 
-      invitationId: string
-      groupId: string
-      userId: string
-      userEmail: string 
-    }) => {
+    mutationFn: async ({ invitationId }: { invitationId: string }) => {
       // Use the custom mutation that atomically appends to memberIds
-      const { data, errors } = await client.mutations.acceptGroupInvitation({
-        invitationId,
-        groupId,
-        userId,
-        userEmail,
-      })
+      const { data, errors } = await client.mutations.acceptGroupInvitation({ invitationId })
       
       if (errors) throw new Error(errors[0].message)
       if (!data?.success) throw new Error(data?.message ?? 'Failed to accept invitation')
@@ -256,18 +256,10 @@ export function useDeclineInvitation() {
 
   return useMutation({
     mutationFn: async ({ invitationId }: { invitationId: string }) => {
-      const { data: invitation, errors: getErrors } = await client.models.GroupInvitation.get({
-        id: invitationId,
-      })
-      if (getErrors) throw new Error(getErrors[0].message)
-      if (!invitation) throw new Error('Invitation not found')
-
-      const { data, errors } = await client.models.GroupInvitation.update({
-        id: invitationId,
-        status: 'DECLINED',
-      })
+      const { data, errors } = await client.mutations.declineGroupInvitation({ invitationId })
       if (errors) throw new Error(errors[0].message)
-      return { invitation: data, groupId: invitation.groupId }
+      if (!data?.success) throw new Error(data?.message ?? 'Failed to decline invitation')
+      return { groupId: data.groupId }
     },
     onSuccess: (data) => {
       if (data?.groupId) {
@@ -278,58 +270,30 @@ export function useDeclineInvitation() {
   })
 }
 
+// Remove a member through the group-access function, which checks the caller's role
+async function removeGroupMember(groupId: string, memberId: string) {
+  const { data, errors } = await client.mutations.removeGroupMember({ groupId, memberId })
+  if (errors) throw new Error(errors[0].message)
+  if (!data?.success) throw new Error(data?.message ?? 'Failed to remove member')
+}
+
 // Revoke member access from group
 // Requirements: 7.3
 export function useRevokeMember() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: async ({
-      groupId,
-      memberId,
-      currentUserId,
-    }: {
-      groupId: string
-      memberId: string
-      currentUserId: string
-    }) => {
-      // Get the group
-      const { data: group, errors: getErrors } = await client.models.ListGroup.get({ id: groupId })
-      if (getErrors) throw new Error(getErrors[0].message)
-      if (!group) throw new Error('Group not found')
-
-      // Check if current user is the owner
-      if (group.owner !== currentUserId) {
-        throw new Error('Only the group owner can revoke members')
-      }
-
-      // Cannot remove the owner
-      if (memberId === group.owner) {
-        throw new Error('Cannot remove the group owner')
-      }
-
-      // Remove member from memberIds
-      const currentMembers = group.memberIds ?? []
-      const updatedMembers = currentMembers.filter((id) => id !== memberId)
-
-      const { data, errors } = await client.models.ListGroup.update({
-        id: groupId,
-        memberIds: updatedMembers,
-      })
-      if (errors) throw new Error(errors[0].message)
-      return data
+    mutationFn: async ({ groupId, memberId }: { groupId: string; memberId: string }) => {
+      await removeGroupMember(groupId, memberId)
+      return { groupId }
     },
     onSuccess: (data) => {
-      if (data?.id) {
-        queryClient.invalidateQueries({ queryKey: groupKeys.detail(data.id) })
-      }
-      if (data?.owner) {
-        queryClient.invalidateQueries({ queryKey: groupKeys.byOwner(data.owner) })
-      }
+      queryClient.invalidateQueries({ queryKey: groupKeys.detail(data.groupId) })
       queryClient.invalidateQueries({ queryKey: groupKeys.all })
     },
   })
 }
+
 // Leave group (for members to remove themselves)
 // Requirements: 7.3
 export function useLeaveGroup() {
@@ -343,38 +307,31 @@ export function useLeaveGroup() {
       groupId: string
       userId: string
     }) => {
-      // Get the group
-      const { data: group, errors: getErrors } = await client.models.ListGroup.get({ id: groupId })
-      if (getErrors) throw new Error(getErrors[0].message)
-      if (!group) throw new Error('Group not found')
-
-      // Cannot leave if you're the owner
-      if (group.owner === userId) {
-        throw new Error('Group owner cannot leave. Delete the group instead.')
-      }
-
-      // Remove user from memberIds and memberEmails
-      const currentMembers = group.memberIds ?? []
-      const currentEmails = group.memberEmails ?? []
-      const memberIndex = currentMembers.indexOf(userId)
+      await removeGroupMember(groupId, userId)
+      return { groupId, userId }
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: groupKeys.detail(data.groupId) })
+      queryClient.invalidateQueries({ queryKey: groupKeys.all })
+      queryClient.invalidateQueries({ queryKey: groupKeys.memberOf(data.userId) })
+    },
+  })
+}
 
-      const updatedMembers = currentMembers.filter((id) => id !== userId)
-      const updatedEmails = currentEmails.filter((_, index) => index !== memberIndex)
+// Change a member's role (owner only, enforced by the group-access function)
+export function useSetMemberRole() {
+  const queryClient = useQueryClient()
 
-      const { data, errors } = await client.models.ListGroup.update({
-        id: groupId,
-        memberIds: updatedMembers,
-        memberEmails: updatedEmails,
-      })
+  return useMutation({
+    mutationFn: async ({ groupId, memberId, role }: { groupId: string; memberId: string; role: MemberRole }) => {
+      const { data, errors } = await client.mutations.setGroupMemberRole({ groupId, memberId, role })
       if (errors) throw new Error(errors[0].message)
-      return { group: data, userId }
+      if (!data?.success) throw new Error(data?.message ?? 'Failed to change role')
+      return { groupId }
     },
     onSuccess: (data) => {
-      if (data?.group?.id) {
-        queryClient.invalidateQueries({ queryKey: groupKeys.detail(data.group.id) })
-      }
+      queryClient.invalidateQueries({ queryKey: groupKeys.detail(data.groupId) })
       queryClient.invalidateQueries({ queryKey: groupKeys.all })
-      queryClient.invalidateQueries({ queryKey: groupKeys.memberOf(data.userId) })
     },
   })
 }
@@ -1,7 +1,9 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { client } from '../lib/amplify-client'
 import type { Schema } from '../../amplify/data/resource'
-import { todoKeys } from './use-todos'
+import { deleteTodoItem, fetchListTodos, todoKeys } from './use-todos'
+import { PAGE_SIZE, listAllPages } from '../lib/pagination'
+import { parseGroupRecord, parseGroupRecordPage } from '../lib/group-records'
 
 type TodoList = Schema['TodoList']['type']
 type CreateListInput = Omit<Schema['TodoList']['createType'], 'id' | 'createdAt' | 'updatedAt'>
@@ -16,14 +18,37 @@ export const listKeys = {
   detail: (id: string) => [...listKeys.all, 'detail', id] as const,
 }
 
+type ListFilter = NonNullable<Parameters<typeof client.models.TodoList.list>[0]>['filter']
+
+// Every list matching a filter, across all pages
+function fetchAllLists(filter?: ListFilter): Promise<TodoList[]> {
+  return listAllPages(async (nextToken) => {
+    const { data, errors, nextToken: next } = await client.models.TodoList.list({ filter, limit: PAGE_SIZE, nextToken })
+    if (errors) throw new Error(errors[0].message)
+    return { items: data, nextToken: next ?? null }
+  })
+}
+
+// Lists shared with a group, read through the role-checked listGroupLists query
+async function fetchGroupLists(groupId: string): Promise<TodoList[]> {
+  const { data, errors } = await client.queries.listGroupLists({ groupId })
+  if (errors) throw new Error(errors[0].message)
+  return parseGroupRecordPage<TodoList>(data).items
+}
+
+async function fetchList(id: string): Promise<TodoList | null> {
+  const { data, errors } = await client.queries.getGroupList({ listId: id })
+  if (errors) throw new Error(errors[0].message)
+  return parseGroupRecord<TodoList>(data)
+}
+
 // Fetch all lists for the current user (owned lists only)
 export function useLists(owner: string) {
   return useQuery({
     queryKey: listKeys.byOwner(owner),
     queryFn: async () => {
       // Amplify automatically filters by owner when using owner-based auth
-      const { data, errors } = await client.models.TodoList.list()
-      if (errors) throw new Error(errors[0].message)
+      const data = await fetchAllLists()
       // Sort by sortOrder (ascending), then by createdAt as fallback
       return [...data].sort((a, b) => {
         const orderA = a.sortOrder ?? 0
@@ -41,13 +66,7 @@ export function useLists(owner: string) {
 export function useListsByGroup(groupId: string) {
   return useQuery({
     queryKey: listKeys.byGroup(groupId),
-    queryFn: async () => {
-      const { data, errors } = await client.models.TodoList.list({
-        filter: { groupId: { eq: groupId } },
-      })
-      if (errors) throw new Error(errors[0].message)
-      return data
-    },
+    queryFn: () => fetchGroupLists(groupId),
     enabled: !!groupId,
   })
 }
@@ -62,14 +81,9 @@ export function useSharedLists(userId: string, memberGroupIds: string[]) {
       // Fetch lists from all groups the user is a member of
       const allLists: TodoList[] = []
       for (const groupId of memberGroupIds) {
-        const { data, errors } = await client.models.TodoList.list({
-          filter: { groupId: { eq: groupId } },
-        })
-        if (errors) throw new Error(errors[0].message)
-        if (data) {
-          // Only include lists not owned by the user (truly shared)
-          allLists.push(...data.filter((list) => list.owner !== userId))
-        }
+        const data = await fetchGroupLists(groupId)
+        // Only include lists not owned by the user (truly shared)
+        allLists.push(...data.filter((list) => list.owner?.split('::')[0] !== userId))
       }
       return allLists
     },
@@ -77,15 +91,11 @@ export function useSharedLists(userId: string, memberGroupIds: string[]) {
   })
 }
 
-// Fetch a single list by ID
+// Fetch a single list by ID, whether the user owns it or it is shared with one of their groups
 export function useList(id: string) {
   return useQuery({
     queryKey: listKeys.detail(id),
-    queryFn: async () => {
-      const { data, errors } = await client.models.TodoList.get({ id })
-      if (errors) throw new Error(errors[0].message)
-      return data
-    },
+    queryFn: () => fetchList(id),
     enabled: !!id,
   })
 }
@@ -160,23 +170,25 @@ export function useDeleteList() {
 
   return useMutation({
     mutationFn: async ({ id, owner }: { id: string; owner: string }) => {
-      // First, fetch all todos in this list
-      const { data: todos, errors: fetchErrors } = await client.models.TodoItem.list({
-        filter: { listId: { eq: id } },
-      })
-      if (fetchErrors) throw new Error(fetchErrors[0].message)
-
-      // Delete all todos in the list
-      if (todos && todos.length > 0) {
-        await Promise.all(
-          todos.map(async (todo) => {
-            const { errors } = await client.models.TodoItem.delete(
-              { id: todo.id },
-              { authMode: 'userPool' }
-            )
-            if (errors) throw new Error(errors[0].message)
-          })
-        )
+      // First, fetch all todos in this list, including ones the assistant deleted
+      const todos = await fetchListTodos(id, { includeDeleted: true })
+
+      // Delete all todos in the list. Todos added by group members before items were owned by
+      // the list owner are removed through writeGroupTodo, one at a time as it cascades to subtasks.
+      const isOwn = (todo: { owner?: string | null }) => todo.owner?.split('::')[0] === owner
+      const own = todos.filter(isOwn)
+      const others = todos.filter((todo) => !isOwn(todo))
+      await Promise.all(
+        own.map(async (todo) => {
+          const { errors } = await client.models.TodoItem.delete(
+            { id: todo.id },
+            { authMode: 'userPool' }
+          )
+          if (errors) throw new Error(errors[0].message)
+        })
+      )
+      for (const todo of others) {
+        await deleteTodoItem(todo.id, todo.owner)
       }
 
       // Then delete the list itself
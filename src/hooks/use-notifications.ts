@@ -0,0 +1,116 @@
+import { useEffect } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { client } from '../lib/amplify-client'
+import { PAGE_SIZE, listAllPages } from '../lib/pagination'
+import type { Schema } from '../../amplify/data/resource'
+
+type Notification = Schema['Notification']['type']
+
+export const notificationKeys = {
+  all: ['notifications'] as const,
+  byOwner: (owner: string) => [...notificationKeys.all, 'owner', owner] as const,
+}
+
+function newestFirst(a: Notification, b: Notification) {
+  return (b.createdAt ?? '').localeCompare(a.createdAt ?? '')
+}
+
+// Every notification the user owns, across all pages. TTL deletes them a month after they
+// are sent (NOTIFICATION_RETENTION_DAYS), which keeps this to a handful of pages
+function fetchAllNotifications(): Promise<Notification[]> {
+  return listAllPages(async (nextToken) => {
+    const { data, errors, nextToken: next } = await client.models.Notification.list({ limit: PAGE_SIZE, nextToken })
+    if (errors) throw new Error(errors[0].message)
+    return { items: data, nextToken: next ?? null }
+  })
+}
+
+// Fetch the current user's notifications and keep them live via the onCreate subscription
+export function useNotifications(owner: string) {
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    if (!owner) return
+
+    const subscription = client.models.Notification.onCreate().subscribe({
+      next: (notification) => {
+        queryClient.setQueryData<Notification[]>(notificationKeys.byOwner(owner), (old = []) =>
+          old.some(n => n.id === notification.id)
+            ? old
+            : [notification, ...old].sort(newestFirst)
+        )
+      },
+      error: (error) => console.error('Notification subscription error:', error),
+    })
+
+    return () => subscription.unsubscribe()
+  }, [owner, queryClient])
+
+  return useQuery({
+    queryKey: notificationKeys.byOwner(owner),
+    queryFn: async () => (await fetchAllNotifications()).sort(newestFirst),
+    enabled: !!owner,
+  })
+}
+
+// Mark a single notification read
+export function useMarkNotificationRead() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: { id: string; owner: string }) => {
+      const { data, errors } = await client.models.Notification.update({ id: input.id, read: true })
+      if (errors) throw new Error(errors[0].message)
+      return data
+    },
+    onMutate: async ({ id, owner }) => {
+      await queryClient.cancelQueries({ queryKey: notificationKeys.byOwner(owner) })
+      const previous = queryClient.getQueryData<Notification[]>(notificationKeys.byOwner(owner))
+      queryClient.setQueryData<Notification[]>(notificationKeys.byOwner(owner), (old = []) =>
+        old.map(n => (n.id === id ? { ...n, read: true } : n))
+      )
+      return { previous }
+    },
+    onError: (_err, { owner }, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(notificationKeys.byOwner(owner), context.previous)
+      }
+    },
+    onSettled: (_data, _err, { owner }) => {
+      queryClient.invalidateQueries({ queryKey: notificationKeys.byOwner(owner) })
+    },
+  })
+}
+
+// Mark every unread notification read
+export function useMarkAllNotificationsRead() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: { owner: string; ids: string[] }) => {
+      const results = await Promise.all(
+        input.ids.map(id => client.models.Notification.update({ id, read: true }))
+      )
+      const failed = results.find(r => r.errors)
+      if (failed?.errors) throw new Error(failed.errors[0].message)
+    },
+    onMutate: async ({ owner }) => {
+      await queryClient.cancelQueries({ queryKey: notificationKeys.byOwner(owner) })
+      const previous = queryClient.getQueryData<Notification[]>(notificationKeys.byOwner(owner))
+      queryClient.setQueryData<Notification[]>(notificationKeys.byOwner(owner), (old = []) =>
+        old.map(n => ({ ...n, read: true }))
+      )
+      return { previous }
+    },
+    onError: (_err, { owner }, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(notificationKeys.byOwner(owner), context.previous)
+      }
+    },
+    onSettled: (_data, _err, { owner }) => {
+      queryClient.invalidateQueries({ queryKey: notificationKeys.byOwner(owner) })
+    },
+  })
+}
+
+export type { Notification }
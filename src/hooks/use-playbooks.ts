@@ -0,0 +1,105 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { client } from '../lib/amplify-client'
+import type { Schema } from '../../amplify/data/resource'
+import { parsePlaybook } from '../../amplify/functions/shared/playbooks'
+import { PAGE_SIZE, listAllPages } from '../lib/pagination'
+
+type Playbook = Schema['Playbook']['type']
+
+interface SavePlaybookInput {
+  content: string
+  groupId: string | null
+}
+
+// Query keys factory
+export const playbookKeys = {
+  all: ['playbooks'] as const,
+  forUser: (userId: string) => [...playbookKeys.all, 'user', userId] as const,
+}
+
+type PlaybookFilter = NonNullable<Parameters<typeof client.models.Playbook.list>[0]>['filter']
+
+// Every playbook matching a filter, across all pages
+function fetchAllPlaybooks(filter: PlaybookFilter): Promise<Playbook[]> {
+  return listAllPages(async (nextToken) => {
+    const { data, errors, nextToken: next } = await client.models.Playbook.list({ filter, limit: PAGE_SIZE, nextToken })
+    if (errors) throw new Error(errors[0].message)
+    return { items: data, nextToken: next ?? null }
+  })
+}
+
+// The name and description columns are copied from the content's frontmatter, which is
+// validated with the same parser the agent uses
+function playbookFields(content: string) {
+  const parsed = parsePlaybook(content)
+  if (!parsed.success) throw new Error(parsed.errors.join('\n'))
+  return { name: parsed.data.name, description: parsed.data.description, content }
+}
+
+// Fetch the playbooks the user can run: their own and those shared with their groups
+export function usePlaybooks(userId: string, groupIds: string[]) {
+  return useQuery({
+    queryKey: [...playbookKeys.forUser(userId), groupIds],
+    queryFn: async () => {
+      const [owned, ...shared] = await Promise.all([
+        fetchAllPlaybooks({ owner: { eq: userId } }),
+        ...groupIds.map((groupId) => fetchAllPlaybooks({ groupId: { eq: groupId } })),
+      ])
+
+      const byId = new Map<string, Playbook>()
+      for (const playbook of [...owned, ...shared.flat()]) byId.set(playbook.id, playbook)
+      return [...byId.values()].sort((a, b) => a.name.localeCompare(b.name))
+    },
+    enabled: !!userId,
+  })
+}
+
+// Create playbook mutation
+export function useCreatePlaybook() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ content, groupId }: SavePlaybookInput) => {
+      const { data, errors } = await client.models.Playbook.create({ ...playbookFields(content), groupId })
+      if (errors) throw new Error(errors[0].message)
+      return data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: playbookKeys.all })
+    },
+  })
+}
+
+// Update playbook mutation
+export function useUpdatePlaybook() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, content, groupId }: SavePlaybookInput & { id: string }) => {
+      const { data, errors } = await client.models.Playbook.update({ id, ...playbookFields(content), groupId })
+      if (errors) throw new Error(errors[0].message)
+      return data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: playbookKeys.all })
+    },
+  })
+}
+
+// Delete playbook mutation
+export function useDeletePlaybook() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { data, errors } = await client.models.Playbook.delete({ id })
+      if (errors) throw new Error(errors[0].message)
+      return data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: playbookKeys.all })
+    },
+  })
+}
+
+export type { Playbook, SavePlaybookInput }
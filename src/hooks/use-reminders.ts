@@ -1,29 +1,33 @@
 import { useEffect, useCallback } from 'react'
-import { reminderService } from '@/services/reminder-service'
-import { useAllTodos, useUpdateTodo } from './use-todos'
+import { reminderService, type ReminderAction } from '@/services/reminder-service'
+import { markReminderSent, snoozeUntil, type DueReminder } from '@/lib/reminders'
+import { fetchAllTodos, useUpdateTodo } from './use-todos'
+import { useUserTimezone } from './use-settings'
 import type { Schema } from '../../amplify/data/resource'
 
 type TodoItem = Schema['TodoItem']['type']
 
 export function useReminders(userId: string) {
-  const { refetch } = useAllTodos(userId)
   const updateTodo = useUpdateTodo()
+  const timeZone = useUserTimezone()
 
-  const getTodos = useCallback(async (): Promise<TodoItem[]> => {
-    const result = await refetch()
-    return result.data ?? []
-  }, [refetch])
-
-  const handleReminder = useCallback((todo: TodoItem) => {
+  const handleReminder = useCallback((todo: TodoItem, due: DueReminder) => {
     // Show browser notification
-    reminderService.showNotification(todo)
+    reminderService.showNotification(todo, due, timeZone)
 
-    // Mark reminder as sent in the database
+    // Mark the reminder(s) as sent in the database
     updateTodo.mutate({
       id: todo.id,
-      reminderSent: true,
+      ...markReminderSent(todo, due, new Date()),
+    })
+  }, [updateTodo, timeZone])
+
+  const handleAction = useCallback((action: ReminderAction) => {
+    updateTodo.mutate({
+      id: action.todoId,
+      snoozedUntil: snoozeUntil(action.snooze, new Date(), timeZone).toISOString(),
     })
-  }, [updateTodo])
+  }, [updateTodo, timeZone])
 
   useEffect(() => {
     if (!userId) return
@@ -31,13 +35,13 @@ export function useReminders(userId: string) {
     // Request notification permission on mount
     reminderService.requestPermission()
 
-    // Start the reminder service
-    reminderService.start(getTodos, handleReminder)
+    // Start the reminder service; it checks every todo, not just the pages loaded for display
+    reminderService.start(() => fetchAllTodos(), handleReminder, handleAction)
 
     return () => {
       reminderService.stop()
     }
-  }, [userId, getTodos, handleReminder])
+  }, [userId, handleReminder, handleAction])
 
   return {
     requestPermission: () => reminderService.requestPermission(),
@@ -1,6 +1,8 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { client } from '../lib/amplify-client'
+import { useAuthContext } from '../lib/auth-context'
 import type { Schema } from '../../amplify/data/resource'
+import { resolveTimezone } from '../../amplify/functions/shared/timezones'
 
 type UserSettings = Schema['UserSettings']['type']
 type CreateSettingsInput = Omit<Schema['UserSettings']['createType'], 'id' | 'createdAt' | 'updatedAt'>
@@ -25,6 +27,14 @@ export function useUserSettings(userId: string) {
   })
 }
 
+// The signed-in user's timezone (see amplify/functions/shared/timezones.ts). Dates are shown and
+// entered in it rather than the browser's zone; UTC until the user picks one in settings.
+export function useUserTimezone(): string {
+  const { userId } = useAuthContext()
+  const { data: settings } = useUserSettings(userId)
+  return resolveTimezone(settings?.timezone)
+}
+
 export function useCreateSettings() {
   const queryClient = useQueryClient()
 
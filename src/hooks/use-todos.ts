@@ -1,6 +1,23 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useInfiniteQuery, useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query'
+import { getCurrentUser } from 'aws-amplify/auth'
 import { client } from '../lib/amplify-client'
 import type { Schema } from '../../amplify/data/resource'
+import { collectDescendantIds } from '../lib/task-tree'
+import { dependencyCycleProblem, loadDependencyChain } from '../../amplify/functions/shared/task-dependencies'
+import { nextOccurrence, parseRecurrenceRule } from '../../amplify/functions/shared/recurrence'
+import { reminderEntries, resetReminders, type ReminderTask } from '../lib/reminders'
+import { parseGroupRecord, parseGroupRecordPage } from '../lib/group-records'
+import { useUserTimezone } from './use-settings'
+import {
+  PAGE_SIZE,
+  cachedItems,
+  flattenPages,
+  listAllPages,
+  mapCachedItems,
+  nextNonEmptyPage,
+  type Page,
+  type PagedData,
+} from '../lib/pagination'
 
 type TodoItem = Schema['TodoItem']['type']
 type CreateTodoInput = Omit<Schema['TodoItem']['createType'], 'id' | 'createdAt' | 'updatedAt'>
@@ -13,65 +30,198 @@ export const todoKeys = {
   list: (listId: string) => [...todoKeys.lists(), listId] as const,
   byOwner: (owner: string) => [...todoKeys.all, 'owner', owner] as const,
   byStatus: (status: string) => [...todoKeys.all, 'status', status] as const,
+  byAssignee: (assigneeId: string) => [...todoKeys.all, 'assignee', assigneeId] as const,
 }
 
-// Fetch todos for a list
+type TodoFilter = NonNullable<Parameters<typeof client.models.TodoItem.list>[0]>['filter']
+
+// Serialization errors are logged but not thrown, so one malformed item doesn't fail a page.
+// Items the assistant deleted are kept for recovery but hidden unless includeDeleted is set.
+async function fetchTodoPage(
+  filter: TodoFilter,
+  nextToken: string | null,
+  includeDeleted = false
+): Promise<Page<TodoItem>> {
+  const { data, errors, nextToken: next } = await client.models.TodoItem.list({ filter, limit: PAGE_SIZE, nextToken })
+  if (errors) {
+    console.warn('TodoItem query errors:', errors)
+    const realErrors = errors.filter(e => !e.message?.includes("Can't serialize"))
+    if (realErrors.length > 0) {
+      throw new Error(realErrors[0].message)
+    }
+  }
+  const items = data ?? []
+  return { items: includeDeleted ? items : items.filter(todo => !todo.deletedAt), nextToken: next ?? null }
+}
+
+// Every todo matching a filter (or every todo the user owns or is assigned), across all pages
+export function fetchAllTodos(filter?: TodoFilter, { includeDeleted = false } = {}): Promise<TodoItem[]> {
+  return listAllPages((nextToken) => fetchTodoPage(filter, nextToken, includeDeleted))
+}
+
+// A page of a list's todos, read through listGroupTodos so that group members see shared lists
+// and owners see items members added before items were owned by the list owner
+async function fetchListTodoPage(
+  listId: string,
+  nextToken: string | null,
+  includeDeleted = false
+): Promise<Page<TodoItem>> {
+  const { data, errors } = await client.queries.listGroupTodos({ listId, nextToken })
+  if (errors) throw new Error(errors[0].message)
+  const page = parseGroupRecordPage<TodoItem>(data)
+  return includeDeleted ? page : { ...page, items: page.items.filter(todo => !todo.deletedAt) }
+}
+
+export function fetchListTodos(listId: string, { includeDeleted = false } = {}): Promise<TodoItem[]> {
+  return listAllPages((nextToken) => fetchListTodoPage(listId, nextToken, includeDeleted))
+}
+
+// Fetch todos for a list, a page at a time (fetchNextPage loads more)
 export function useTodos(listId: string) {
-  return useQuery({
+  return useInfiniteQuery({
     queryKey: todoKeys.list(listId),
-    queryFn: async () => {
+    queryFn: async ({ pageParam }) => {
       try {
-        const { data, errors } = await client.models.TodoItem.list({
-          filter: { listId: { eq: listId } },
-        })
-        if (errors) {
-          // Log serialization errors but don't throw
-          console.warn('TodoItem query errors:', errors)
-          // Filter out serialization errors and throw only real errors
-          const realErrors = errors.filter(e => !e.message?.includes("Can't serialize"))
-          if (realErrors.length > 0) {
-            throw new Error(realErrors[0].message)
-          }
-        }
-        return data ?? []
+        return await nextNonEmptyPage(
+          (nextToken) => fetchListTodoPage(listId, nextToken),
+          pageParam
+        )
       } catch (error) {
         console.error('Error fetching todos:', error)
         throw error
       }
     },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextToken,
+    select: (data) => flattenPages(data),
     enabled: !!listId,
   })
 }
 
-// Fetch all todos for the current user
+// Fetch all todos for the current user, a page at a time (fetchNextPage loads more)
 export function useAllTodos(owner: string) {
-  return useQuery({
+  return useInfiniteQuery({
     queryKey: todoKeys.byOwner(owner),
-    queryFn: async () => {
+    queryFn: async ({ pageParam }) => {
       try {
         // Amplify automatically filters by owner when using owner-based auth
-        const { data, errors } = await client.models.TodoItem.list()
-        if (errors) {
-          // Log serialization errors but don't throw
-          console.warn('TodoItem query errors:', errors)
-          // Filter out serialization errors and throw only real errors
-          const realErrors = errors.filter(e => !e.message?.includes("Can't serialize"))
-          if (realErrors.length > 0) {
-            throw new Error(realErrors[0].message)
-          }
-        }
-        return data ?? []
+        return await nextNonEmptyPage((nextToken) => fetchTodoPage(undefined, nextToken), pageParam)
       } catch (error) {
         console.error('Error fetching all todos:', error)
         throw error
       }
     },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextToken,
+    select: (data) => flattenPages(data),
     enabled: !!owner,
     retry: 3,
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 5000),
   })
 }
 
+// Every live todo assigned to a user, from the byAssigneeAll index (byAssignee leaves out undated items)
+function fetchAssignedTodos(assigneeId: string): Promise<TodoItem[]> {
+  return listAllPages(async (nextToken) => {
+    const { data, errors, nextToken: next } = await client.models.TodoItem.listTodoItemByAssigneeId(
+      { assigneeId },
+      { limit: PAGE_SIZE, nextToken }
+    )
+    if (errors) throw new Error(errors[0].message)
+    return { items: (data ?? []).filter(todo => !todo.deletedAt), nextToken: next ?? null }
+  })
+}
+
+// Fetch todos assigned to a user, across every list they can see
+export function useAssignedTodos(assigneeId: string) {
+  return useQuery({
+    queryKey: todoKeys.byAssignee(assigneeId),
+    queryFn: () => fetchAssignedTodos(assigneeId),
+    enabled: !!assigneeId,
+  })
+}
+
+// Todo queries hold either a plain array or infinite pages
+type CachedTodos = TodoItem[] | PagedData<TodoItem>
+
+// Items in lists owned by someone else are written through writeGroupTodo, which checks the
+// caller's role in the group the list is shared with
+async function isCurrentUser(owner: string | null | undefined): Promise<boolean> {
+  const { userId } = await getCurrentUser()
+  return !!owner && owner.split('::')[0] === userId
+}
+
+async function writeGroupTodo(
+  action: 'create' | 'update' | 'delete' | 'createNextOccurrence',
+  args: { listId?: string; todoId?: string; input?: Record<string, unknown> }
+): Promise<string | null> {
+  const { data, errors } = await client.mutations.writeGroupTodo({
+    action,
+    listId: args.listId,
+    todoId: args.todoId,
+    input: JSON.stringify(args.input ?? {}),
+  })
+  if (errors) throw new Error(errors[0].message)
+  if (!data?.success) throw new Error(data?.message ?? 'Failed to update shared task')
+  return data.id ?? null
+}
+
+// Read through getGroupTodo, which serves items in shared lists as well as the user's own
+async function fetchTodo(id: string): Promise<TodoItem | null> {
+  const { data, errors } = await client.queries.getGroupTodo({ todoId: id })
+  if (errors) throw new Error(errors[0].message)
+  return parseGroupRecord<TodoItem>(data)
+}
+
+// Owner of a todo from the query cache, falling back to the API
+async function todoOwner(queryClient: QueryClient, id: string): Promise<string | null | undefined> {
+  for (const [, todos] of queryClient.getQueriesData<CachedTodos>({ queryKey: todoKeys.all })) {
+    const cached = cachedItems(todos).find((todo) => todo.id === id)
+    if (cached) return cached.owner
+  }
+  return (await fetchTodo(id))?.owner
+}
+
+async function createTodoItem(input: CreateTodoInput): Promise<TodoItem | null> {
+  const { data: listData, errors: listErrors } = await client.queries.getGroupList({ listId: input.listId })
+  if (listErrors) throw new Error(listErrors[0].message)
+  const list = parseGroupRecord<{ owner?: string | null }>(listData)
+
+  if (list && !(await isCurrentUser(list.owner))) {
+    const id = await writeGroupTodo('create', { listId: input.listId, input })
+    return id ? fetchTodo(id) : null
+  }
+
+  const { data, errors } = await client.models.TodoItem.create(input)
+  if (errors) throw new Error(errors[0].message)
+  return data
+}
+
+async function updateTodoItem(
+  input: UpdateTodoInput & { id: string },
+  owner: string | null | undefined
+): Promise<TodoItem | null> {
+  if (!(await isCurrentUser(owner))) {
+    const { id, ...fields } = input
+    await writeGroupTodo('update', { todoId: id, input: fields })
+    return fetchTodo(id)
+  }
+
+  const { data, errors } = await client.models.TodoItem.update(input)
+  if (errors) throw new Error(errors[0].message)
+  return data
+}
+
+export async function deleteTodoItem(id: string, owner: string | null | undefined): Promise<void> {
+  if (!(await isCurrentUser(owner))) {
+    await writeGroupTodo('delete', { todoId: id })
+    return
+  }
+
+  const { errors } = await client.models.TodoItem.delete({ id })
+  if (errors) throw new Error(errors[0].message)
+}
+
 // Create todo mutation
 export function useCreateTodo() {
   const queryClient = useQueryClient()
@@ -83,22 +233,27 @@ export function useCreateTodo() {
         throw new Error('Todo title cannot be empty')
       }
 
-      const { data, errors } = await client.models.TodoItem.create({
+      return createTodoItem({
         title: input.title.trim(),
         description: input.description,
         status: input.status ?? 'PENDING',
         dueDate: input.dueDate,
         tags: input.tags,
-        reminderMinutes: input.reminderMinutes,
+        reminders: input.reminders,
         listId: input.listId,
+        parentId: input.parentId,
+        recurrenceRule: input.recurrenceRule,
+        assigneeId: input.assigneeId,
+        assigneeEmail: input.assigneeEmail,
       })
-      if (errors) throw new Error(errors[0].message)
-      return data
     },
     onSuccess: (data) => {
       if (data?.listId) {
         queryClient.invalidateQueries({ queryKey: todoKeys.list(data.listId) })
       }
+      if (data?.assigneeId) {
+        queryClient.invalidateQueries({ queryKey: todoKeys.byAssignee(data.assigneeId) })
+      }
       if (data?.owner) {
         queryClient.invalidateQueries({ queryKey: todoKeys.byOwner(data.owner) })
       }
@@ -106,9 +261,57 @@ export function useCreateTodo() {
   })
 }
 
+// Reject prerequisite changes that would make a task (indirectly) depend on itself
+async function assertNoDependencyCycle(id: string, blockedBy: string[]) {
+  if (blockedBy.length === 0) return
+
+  const chain = await loadDependencyChain(blockedBy, async (ids) =>
+    (await Promise.all(ids.map(fetchTodo))).filter((todo): todo is TodoItem => !!todo)
+  )
+  const problem = dependencyCycleProblem(chain, id, blockedBy)
+  if (problem) throw new Error(`Validation error: ${problem}`)
+}
+
+// Create the next occurrence of a recurring todo that was just completed. writeGroupTodo
+// creates it and records its id on the completed item in one conditional write, so
+// completing the item again (or on another device) never spawns twice.
+async function createNextOccurrence(todo: TodoItem, timeZone: string): Promise<TodoItem | null> {
+  if (!todo.recurrenceRule || todo.nextOccurrenceId) return null
+
+  const rule = parseRecurrenceRule(todo.recurrenceRule)
+  if (!rule.success) {
+    console.warn('Invalid recurrence rule, not creating next occurrence:', rule.error)
+    return null
+  }
+
+  const completedAt = todo.completedAt ? new Date(todo.completedAt) : new Date()
+  const dueDate = nextOccurrence(rule.data, todo.dueDate ? new Date(todo.dueDate) : null, completedAt, timeZone)
+
+  const id = await writeGroupTodo('createNextOccurrence', {
+    todoId: todo.id,
+    input: {
+      title: todo.title,
+      description: todo.description,
+      status: 'PENDING',
+      dueDate: dueDate.toISOString(),
+      tags: todo.tags,
+      // Reminders stay relative to the due date, so they shift with it
+      reminders: resetReminders(reminderEntries(todo)),
+      priority: todo.priority,
+      effortHours: todo.effortHours,
+      parentId: todo.parentId,
+      recurrenceRule: todo.recurrenceRule,
+      assigneeId: todo.assigneeId,
+      assigneeEmail: todo.assigneeEmail,
+    },
+  })
+  return id ? fetchTodo(id) : null
+}
+
 // Update todo mutation with optimistic updates
 export function useUpdateTodo() {
   const queryClient = useQueryClient()
+  const timeZone = useUserTimezone()
 
   return useMutation({
     mutationFn: async (input: UpdateTodoInput & { id: string }) => {
@@ -117,25 +320,39 @@ export function useUpdateTodo() {
         throw new Error('Todo title cannot be empty')
       }
 
+      if (input.blockedBy) {
+        await assertNoDependencyCycle(
+          input.id,
+          input.blockedBy.filter((blockerId): blockerId is string => !!blockerId)
+        )
+      }
+
       const updateData: UpdateTodoInput & { id: string } = {
         ...input,
         title: input.title?.trim(),
       }
 
-      // Set completedAt when marking as complete
+      // Set completedAt when marking as complete (completed todos never remind)
       if (input.status === 'COMPLETE') {
         updateData.completedAt = new Date().toISOString()
-        // Mark reminder as sent to prevent future notifications
-        updateData.reminderSent = true
       }
 
-      // Reset reminderSent when due date changes (to allow new reminder)
+      // Re-arm every reminder when the due date changes
       if (input.dueDate !== undefined) {
-        updateData.reminderSent = false
+        let reminders: ReminderTask['reminders'] = input.reminders
+        if (reminders === undefined) {
+          const current = await fetchTodo(input.id)
+          reminders = current ? reminderEntries(current) : null
+        }
+        updateData.reminders = resetReminders(reminders)
+      }
+
+      const data = await updateTodoItem(updateData, await todoOwner(queryClient, input.id))
+
+      if (data && input.status === 'COMPLETE') {
+        await createNextOccurrence(data, timeZone)
       }
 
-      const { data, errors } = await client.models.TodoItem.update(updateData)
-      if (errors) throw new Error(errors[0].message)
       return data
     },
     onMutate: async (newTodo) => {
@@ -148,18 +365,18 @@ export function useUpdateTodo() {
       // Optimistically update all matching queries
       queryClient.setQueriesData(
         { queryKey: todoKeys.all },
-        (old: TodoItem[] | undefined) => {
-          if (!old) return old
-          return old.map((todo) =>
-            todo.id === newTodo.id
-              ? {
-                  ...todo,
-                  ...newTodo,
-                  completedAt: newTodo.status === 'COMPLETE' ? new Date().toISOString() : todo.completedAt,
-                }
-              : todo
+        (old: CachedTodos | undefined) =>
+          mapCachedItems(old, (todos) =>
+            todos.map((todo) =>
+              todo.id === newTodo.id
+                ? {
+                    ...todo,
+                    ...newTodo,
+                    completedAt: newTodo.status === 'COMPLETE' ? new Date().toISOString() : todo.completedAt,
+                  }
+                : todo
+            )
           )
-        }
       )
 
       return { previousTodos }
@@ -182,14 +399,46 @@ export function useUpdateTodo() {
   })
 }
 
-// Delete todo mutation with optimistic updates
+// Recursively collect all subtasks below a todo
+// Direct subtasks (deleted ones included) from the byParent index, rather than a filtered scan
+function fetchChildTodos(parentId: string): Promise<TodoItem[]> {
+  return listAllPages(async (nextToken) => {
+    const { data, errors, nextToken: next } = await client.models.TodoItem.listTodoItemByParentId(
+      { parentId },
+      { limit: PAGE_SIZE, nextToken }
+    )
+    if (errors) throw new Error(errors[0].message)
+    return { items: data ?? [], nextToken: next ?? null }
+  })
+}
+
+async function fetchSubtasks(parentId: string): Promise<TodoItem[]> {
+  const children = await fetchChildTodos(parentId)
+
+  const subtasks: TodoItem[] = []
+  for (const child of children) {
+    subtasks.push(child, ...(await fetchSubtasks(child.id)))
+  }
+  return subtasks
+}
+
+// Delete todo mutation with optimistic updates (cascades to subtasks)
 export function useDeleteTodo() {
   const queryClient = useQueryClient()
 
   return useMutation({
     mutationFn: async ({ id, listId, owner }: { id: string; listId: string; owner: string }) => {
-      const { errors } = await client.models.TodoItem.delete({ id })
-      if (errors) throw new Error(errors[0].message)
+      // writeGroupTodo deletes subtasks itself
+      if (!(await isCurrentUser(owner))) {
+        await deleteTodoItem(id, owner)
+        return { id, listId, owner }
+      }
+
+      // Delete subtasks first so no orphans are left if the parent delete fails
+      const subtasks = await fetchSubtasks(id)
+      await Promise.all(subtasks.map((subtask) => deleteTodoItem(subtask.id, subtask.owner)))
+
+      await deleteTodoItem(id, owner)
       return { id, listId, owner }
     },
     onMutate: async ({ id }) => {
@@ -199,12 +448,12 @@ export function useDeleteTodo() {
       // Snapshot the previous values
       const previousTodos = queryClient.getQueriesData({ queryKey: todoKeys.all })
 
-      // Optimistically remove the todo from all matching queries
+      // Optimistically remove the todo and its subtasks from all matching queries
       queryClient.setQueriesData(
         { queryKey: todoKeys.all },
-        (old: TodoItem[] | undefined) => {
-          if (!old) return old
-          return old.filter((todo) => todo.id !== id)
+        (old: CachedTodos | undefined) => {
+          const removed = new Set([id, ...collectDescendantIds(cachedItems(old), id)])
+          return mapCachedItems(old, (todos) => todos.filter((todo) => !removed.has(todo.id)))
         }
       )
 
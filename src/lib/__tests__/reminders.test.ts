@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { findDueReminder, reminderEntries, reminderOffsetsFromSettings } from '../reminders';
+
+describe('legacy reminder fields', () => {
+  it('reads reminderMinutes/reminderSent as a single reminder until reminders are written', () => {
+    const legacy = { dueDate: '2026-03-05T10:00:00.000Z', reminderMinutes: 60, reminderSent: false, reminders: null };
+
+    expect(reminderEntries(legacy)).toEqual([{ offsetMinutes: 60, sentAt: null }]);
+    expect(findDueReminder(legacy, new Date('2026-03-05T09:30:00.000Z'))).toMatchObject({ kind: 'offset' });
+    const sent = { ...legacy, reminderSent: true, updatedAt: '2026-03-05T09:00:00.000Z' };
+    expect(reminderEntries(sent)).toEqual([{ offsetMinutes: 60, sentAt: '2026-03-05T09:00:00.000Z' }]);
+    expect(reminderEntries({ ...legacy, reminders: [] })).toEqual([]);
+  });
+
+  it('reads defaultReminderMinutes as the default offsets until those are saved', () => {
+    expect(reminderOffsetsFromSettings({ defaultReminderMinutes: 30 })).toEqual([30]);
+    expect(reminderOffsetsFromSettings({ defaultReminderMinutes: 30, defaultReminderOffsets: [60, 15] })).toEqual([
+      60, 15,
+    ]);
+    expect(reminderOffsetsFromSettings(null)).toEqual([1440]);
+  });
+});
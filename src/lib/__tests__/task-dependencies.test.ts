@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeCriticalPath,
+  getOpenBlockers,
+  isBlocked,
+  sortByDependencies,
+  type DependencyTask,
+} from '../task-dependencies';
+
+const now = new Date('2026-03-02T09:00:00.000Z');
+
+function task(id: string, fields: Partial<DependencyTask> = {}): DependencyTask {
+  return { id, title: id, status: 'PENDING', ...fields };
+}
+
+function byId(tasks: DependencyTask[]): Map<string, DependencyTask> {
+  return new Map(tasks.map((t) => [t.id, t]));
+}
+
+const byTitle = (a: DependencyTask, b: DependencyTask) => (a.title ?? '').localeCompare(b.title ?? '');
+
+// design → build → test, and design → docs
+const project = [
+  task('design', { effortHours: 4 }),
+  task('build', { effortHours: 10, blockedBy: ['design'], dueDate: '2026-03-04T17:00:00.000Z' }),
+  task('test', { effortHours: 3, blockedBy: ['build'], dueDate: '2026-03-06T17:00:00.000Z' }),
+  task('docs', { effortHours: 2, blockedBy: ['design'] }),
+];
+
+describe('getOpenBlockers', () => {
+  it('returns the prerequisites that are not complete', () => {
+    const tasks = [task('design'), task('done', { status: 'COMPLETE' }), task('build', { blockedBy: ['design', 'done'] })];
+
+    expect(getOpenBlockers(tasks[2], byId(tasks)).map((t) => t.id)).toEqual(['design']);
+    expect(isBlocked(tasks[2], byId(tasks))).toBe(true);
+  });
+
+  it('ignores prerequisites that no longer exist', () => {
+    const tasks = [task('build', { blockedBy: ['gone', null] })];
+
+    expect(getOpenBlockers(tasks[0], byId(tasks))).toEqual([]);
+    expect(isBlocked(tasks[0], byId(tasks))).toBe(false);
+  });
+});
+
+describe('sortByDependencies', () => {
+  it('puts prerequisites before the tasks they block, breaking ties with the comparator', () => {
+    const shuffled = [project[2], project[3], project[1], project[0]];
+
+    expect(sortByDependencies(shuffled, byTitle).map((t) => t.id)).toEqual(['design', 'build', 'docs', 'test']);
+  });
+
+  it('ignores prerequisites outside the tasks given and tasks blocking themselves', () => {
+    const tasks = [task('b', { blockedBy: ['elsewhere'] }), task('a', { blockedBy: ['a'] })];
+
+    expect(sortByDependencies(tasks, byTitle).map((t) => t.id)).toEqual(['a', 'b']);
+  });
+
+  it('appends tasks caught in a cycle in comparator order', () => {
+    const tasks = [task('b', { blockedBy: ['a'] }), task('a', { blockedBy: ['b'] }), task('c')];
+
+    expect(sortByDependencies(tasks, byTitle).map((t) => t.id)).toEqual(['c', 'a', 'b']);
+  });
+});
+
+describe('computeCriticalPath', () => {
+  it('follows the chain with the most effort, projected at 6 hours a day', () => {
+    const path = computeCriticalPath(project, now)!;
+
+    expect(path.steps.map((step) => step.task.id)).toEqual(['design', 'build', 'test']);
+    expect(path.steps.map((step) => [step.startHours, step.finishHours])).toEqual([
+      [0, 4],
+      [4, 14],
+      [14, 17],
+    ]);
+    expect(path.totalHours).toBe(17);
+    // 4h is one working day, 14h and 17h are three
+    expect(path.steps.map((step) => step.projectedFinish.toISOString())).toEqual([
+      '2026-03-03T09:00:00.000Z',
+      '2026-03-05T09:00:00.000Z',
+      '2026-03-05T09:00:00.000Z',
+    ]);
+    expect(path.projectedFinish.toISOString()).toBe('2026-03-05T09:00:00.000Z');
+  });
+
+  it('flags steps projected to finish after their due date', () => {
+    const path = computeCriticalPath(project, now)!;
+
+    expect(path.steps.map((step) => step.atRisk)).toEqual([false, true, false]);
+  });
+
+  it('leaves out completed tasks, so their dependents start now', () => {
+    const tasks = project.map((t) => (t.id === 'design' ? { ...t, status: 'COMPLETE' } : t));
+    const path = computeCriticalPath(tasks, now)!;
+
+    expect(path.steps.map((step) => step.task.id)).toEqual(['build', 'test']);
+    expect(path.steps[0].startHours).toBe(0);
+    expect(path.totalHours).toBe(13);
+  });
+
+  it('counts tasks without an effort estimate as no work', () => {
+    const tasks = [task('plan'), task('ship', { effortHours: 2, blockedBy: ['plan'] })];
+    const path = computeCriticalPath(tasks, now)!;
+
+    expect(path.steps.map((step) => [step.task.id, step.finishHours])).toEqual([
+      ['plan', 0],
+      ['ship', 2],
+    ]);
+    expect(path.projectedFinish.toISOString()).toBe('2026-03-03T09:00:00.000Z');
+  });
+
+  it('ends at the earliest due date when chains take equally long', () => {
+    const tasks = [
+      task('undated', { effortHours: 5 }),
+      task('later', { effortHours: 5, dueDate: '2026-03-10T00:00:00.000Z' }),
+      task('sooner', { effortHours: 5, dueDate: '2026-03-06T00:00:00.000Z' }),
+    ];
+
+    expect(computeCriticalPath(tasks, now)!.steps.map((step) => step.task.id)).toEqual(['sooner']);
+  });
+
+  it('returns null when every task is complete', () => {
+    expect(computeCriticalPath([task('done', { status: 'COMPLETE' })], now)).toBeNull();
+    expect(computeCriticalPath([], now)).toBeNull();
+  });
+});
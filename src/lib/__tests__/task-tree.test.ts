@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { buildTaskTree, collectDescendantIds, computeRollup, type TaskTreeNode, type TreeTask } from '../task-tree';
+
+function task(id: string, fields: Partial<TreeTask> = {}): TreeTask {
+  return { id, status: 'PENDING', ...fields };
+}
+
+// Each node as `id` with its children, to compare shapes at a glance
+type Shape = [string, Shape[]];
+function shape(nodes: TaskTreeNode<TreeTask>[]): Shape[] {
+  return nodes.map((node) => [node.task.id, shape(node.children)]);
+}
+
+// launch
+// ├── venue (3h)
+// └── catering (complete)
+//     ├── menu (2h, complete)
+//     └── tasting (no estimate)
+const launch = [
+  task('launch', { effortHours: 40 }),
+  task('venue', { parentId: 'launch', effortHours: 3 }),
+  task('catering', { parentId: 'launch', status: 'COMPLETE', effortHours: 8 }),
+  task('menu', { parentId: 'catering', status: 'COMPLETE', effortHours: 2 }),
+  task('tasting', { parentId: 'catering' }),
+];
+
+describe('buildTaskTree', () => {
+  it('nests subtasks under their parents, keeping sibling order and depth', () => {
+    const [root] = buildTaskTree(launch);
+
+    expect(shape([root])).toEqual([['launch', [['venue', []], ['catering', [['menu', []], ['tasting', []]]]]]]);
+    expect(root.children[1].children[1].depth).toBe(2);
+  });
+
+  it('shows subtasks whose parent is not loaded as roots', () => {
+    const tasks = [task('menu', { parentId: 'catering' }), task('venue', { parentId: 'deleted' }), task('launch')];
+
+    expect(shape(buildTaskTree(tasks))).toEqual([
+      ['menu', []],
+      ['venue', []],
+      ['launch', []],
+    ]);
+  });
+
+  it('still shows every task when stored parents form a cycle', () => {
+    const tasks = [task('a', { parentId: 'b' }), task('b', { parentId: 'a' }), task('self', { parentId: 'self' })];
+    const forest = buildTaskTree(tasks);
+
+    expect(shape(forest)).toEqual([
+      ['self', []],
+      ['a', [['b', []]]],
+    ]);
+  });
+});
+
+describe('computeRollup', () => {
+  it("counts a parent's completed direct children", () => {
+    const [root] = buildTaskTree(launch);
+
+    expect(computeRollup(root)).toMatchObject({ childCount: 2, completedCount: 1, percentComplete: 50 });
+    expect(computeRollup(root.children[1])).toMatchObject({ childCount: 2, completedCount: 1, percentComplete: 50 });
+  });
+
+  it("adds up the leaves' effort through nested subtasks, counting no estimate as none", () => {
+    const [root] = buildTaskTree(launch);
+
+    // venue 3h + menu 2h + tasting 0h; the parents' own estimates are replaced by their subtasks'
+    expect(computeRollup(root).effortHours).toBe(5);
+    expect(computeRollup(root.children[1]).effortHours).toBe(2);
+  });
+
+  it('reports a task without subtasks by its own status and effort', () => {
+    const [venue, menu, tasting] = buildTaskTree([launch[1], launch[3], launch[4]]);
+
+    expect(computeRollup(venue)).toEqual({ childCount: 0, completedCount: 0, percentComplete: 0, effortHours: 3 });
+    expect(computeRollup(menu)).toEqual({ childCount: 0, completedCount: 0, percentComplete: 100, effortHours: 2 });
+    expect(computeRollup(tasting).effortHours).toBe(0);
+  });
+
+  it('rounds the percentage', () => {
+    const tasks = [
+      task('parent'),
+      task('one', { parentId: 'parent', status: 'COMPLETE' }),
+      task('two', { parentId: 'parent' }),
+      task('three', { parentId: 'parent' }),
+    ];
+
+    expect(computeRollup(buildTaskTree(tasks)[0]).percentComplete).toBe(33);
+  });
+});
+
+describe('collectDescendantIds', () => {
+  it('collects every level below the task, but not the task itself', () => {
+    expect(collectDescendantIds(launch, 'launch')).toEqual(['venue', 'catering', 'menu', 'tasting']);
+    expect(collectDescendantIds(launch, 'venue')).toEqual([]);
+  });
+
+  it('stops at parentId cycles', () => {
+    const tasks = [task('a', { parentId: 'b' }), task('b', { parentId: 'a' })];
+
+    expect(collectDescendantIds(tasks, 'a')).toEqual(['b']);
+  });
+});
@@ -0,0 +1,104 @@
+import { describeQuotaError, parseQuotaError } from '../../amplify/functions/shared/agent-quotas';
+
+// --- AgentJob history ---
+
+export type AgentJobStatus = 'PENDING' | 'PROCESSING' | 'COMPLETE' | 'FAILED' | 'CANCELLED';
+
+// Matches JOB_RETENTION_DAYS in the task-agents function, which sets the TTL on finished jobs
+export const JOB_RETENTION_DAYS = 30;
+
+const JOB_TITLES: Record<string, string> = {
+  breakdownProject: 'Project breakdown',
+  analyzeTask: 'Task analysis',
+  planDay: 'Daily plan',
+  recommendTask: 'Task recommendation',
+  runPlaybook: 'Playbook run',
+  freeform: 'Assistant request',
+};
+
+/** A readable name for the job's queryType; jobs that applied approved changes say so. */
+export function jobTitle(queryType: string, request: Record<string, unknown> | null): string {
+  if (request && request.actions !== undefined) return 'Applying approved changes';
+  if (queryType === 'runPlaybook' && request && typeof request.playbookContent === 'string') return 'Playbook preview';
+  return JOB_TITLES[queryType] ?? queryType;
+}
+
+/**
+ * Read an AWSJSON field of a job (requestData, resultData). Values arrive as JSON
+ * strings, sometimes encoded twice; anything unreadable comes back as the raw value.
+ */
+export function parseJobJson(value: unknown): unknown {
+  let data = value;
+  for (let i = 0; i < 2 && typeof data === 'string'; i++) {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return data;
+    }
+  }
+  return data;
+}
+
+/** The job's requestData as an object, or null when it is missing or not an object. */
+export function parseJobRequest(value: unknown): Record<string, unknown> | null {
+  const data = parseJobJson(value);
+  return data !== null && typeof data === 'object' && !Array.isArray(data)
+    ? (data as Record<string, unknown>)
+    : null;
+}
+
+export function isJobActive(status: string | null | undefined): boolean {
+  return status === 'PENDING' || status === 'PROCESSING';
+}
+
+/**
+ * Whether a job can be run again with the same request. Jobs that applied approved
+ * changes are never repeated, so a re-run cannot write the same changes twice.
+ */
+export function canRerunJob(request: Record<string, unknown> | null): boolean {
+  return request !== null && request.actions === undefined;
+}
+
+/**
+ * How long the job has run: from startedAt to completedAt, or to `now` while it is
+ * still running. Null until it has started.
+ */
+export function jobDurationMs(
+  job: { startedAt?: string | null; completedAt?: string | null },
+  now: Date,
+): number | null {
+  if (!job.startedAt) return null;
+  const start = new Date(job.startedAt).getTime();
+  const end = job.completedAt ? new Date(job.completedAt).getTime() : now.getTime();
+  if (isNaN(start) || isNaN(end)) return null;
+  return Math.max(0, end - start);
+}
+
+/** e.g. "850ms", "12s", "3m 05s" */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
+
+/** e.g. "850", "3.2k", "1.5M" */
+export function formatTokenCount(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1).replace(/\.0$/, '')}k`;
+  return `${(tokens / 1_000_000).toFixed(1).replace(/\.0$/, '')}M`;
+}
+
+/** e.g. "<$0.01", "$0.42", "$12.30" */
+export function formatCostUsd(costUsd: number): string {
+  if (costUsd > 0 && costUsd < 0.01) return '<$0.01';
+  return `$${costUsd.toFixed(2)}`;
+}
+
+/** An agent error as the user should read it: quota errors are described rather than shown as codes. */
+export function agentErrorMessage(message: string | null | undefined): string | null {
+  if (!message) return null;
+  const quota = parseQuotaError(message);
+  return quota ? describeQuotaError(quota) : message;
+}
@@ -0,0 +1,117 @@
+import {
+  parsePartialJson,
+  type AgentStreamFrame,
+} from '../../amplify/functions/shared/agent-stream';
+import type { AgentTrace } from '../../amplify/functions/shared/agent-trace';
+import { appendProgressStep, type JobProgressStep } from './job-progress';
+import type { DailyPlanResult, DailyPlanTask, TaskRecommendation } from './ai-response-parser';
+
+// --- Streamed agent requests ---
+
+/** What a streamed request has produced so far. */
+export interface AgentStreamState {
+  steps: JobProgressStep[];
+  thinking: string;
+  answer: string;
+  partial: unknown;
+  // How the agent decided, once it has answered
+  trace: AgentTrace | null;
+}
+
+export const INITIAL_STREAM_STATE: AgentStreamState = {
+  steps: [],
+  thinking: '',
+  answer: '',
+  partial: undefined,
+  trace: null,
+};
+
+/** Fold the next frame of a streamed request into its state. */
+export function applyStreamFrame(
+  state: AgentStreamState,
+  frame: AgentStreamFrame,
+  now: Date = new Date(),
+): AgentStreamState {
+  const at = now.toISOString();
+  switch (frame.type) {
+    case 'thinking':
+      return { ...state, thinking: state.thinking + frame.text };
+    case 'tool_call':
+      return { ...state, steps: appendProgressStep(state.steps, { kind: 'tool', label: frame.label, at }) };
+    case 'tool_result':
+      return frame.success
+        ? state
+        : { ...state, steps: appendProgressStep(state.steps, { kind: 'tool', label: `${frame.tool} failed`, at }) };
+    case 'partial_json': {
+      const answer = frame.reset ? frame.text : state.answer + frame.text;
+      return { ...state, answer, partial: parsePartialJson(answer) };
+    }
+    case 'final':
+      return {
+        ...state,
+        trace: frame.trace ?? null,
+        steps: appendProgressStep(state.steps, frame.response.success
+          ? { kind: 'finished', label: 'Done', at }
+          : { kind: 'failed', label: 'Failed', at }),
+      };
+  }
+}
+
+/** The end of the agent's narration, to show beside the timeline. */
+export function latestThought(thinking: string, maxLength = 160): string {
+  const text = thinking.trim().replace(/\s+/g, ' ');
+  return text.length > maxLength ? `…${text.slice(-maxLength)}` : text;
+}
+
+// --- Partial answers ---
+// An answer that is still arriving is missing fields, so these read whatever is there and
+// leave the rest empty. Entries are shown once their title has started.
+
+type Fields = Record<string, unknown>;
+
+function asFields(value: unknown): Fields | null {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) ? (value as Fields) : null;
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+export function readPartialDailyPlan(value: unknown): DailyPlanResult | null {
+  const fields = asFields(value);
+  if (!fields) return null;
+
+  const entries = Array.isArray(fields.tasks) ? fields.tasks : Array.isArray(fields.schedule) ? fields.schedule : [];
+  const tasks: DailyPlanTask[] = [];
+  for (const entry of entries) {
+    const task = asFields(entry);
+    const title = task && (text(task.title) ?? text(task.taskName));
+    if (!task || !title) continue;
+    tasks.push({
+      taskId: text(task.taskId) ?? '',
+      title,
+      reasoning: text(task.reasoning) ?? '',
+      startTime: text(task.startTime),
+      endTime: text(task.endTime),
+      priority: text(task.priority),
+      estimatedMinutes: typeof task.estimatedMinutes === 'number' ? task.estimatedMinutes : undefined,
+    });
+  }
+
+  return { tasks, unscheduledTasks: [], summary: text(fields.summary) ?? '' };
+}
+
+export function readPartialRecommendation(value: unknown): TaskRecommendation | null {
+  const fields = asFields(value);
+  const title = fields && (text(fields.title) ?? text(fields.taskName));
+  if (!fields || !title) return null;
+
+  return {
+    taskId: text(fields.taskId) ?? text(fields.recommendedTaskId) ?? '',
+    title,
+    reasoning: text(fields.reasoning) ?? '',
+    listId: text(fields.listId),
+    priority: text(fields.priority) ?? 'MEDIUM',
+    alternatives: [],
+  };
+}
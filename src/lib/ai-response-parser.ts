@@ -1,47 +1,47 @@
+import {
+  dailyPlanSchema,
+  projectBreakdownSchema,
+  taskAnalysisSchema,
+  taskRecommendationSchema,
+  type AgentOutputSchema,
+  type DailyPlanEntry,
+  type DailyPlanOutput,
+  type ProjectBreakdownOutput,
+  type TaskAnalysisOutput,
+  type TaskRecommendationOutput,
+} from '../../amplify/functions/shared/agent-schemas';
+import { parseRecurrenceRule } from '../../amplify/functions/shared/recurrence';
+
 // --- Agent response types ---
 
-export interface TaskAnalysis {
-  title: string;
-  priority: 'high' | 'medium' | 'low';
-  estimatedMinutes: number;
-  dueDate: string | null;
-  tags: string[];
-  reasoning: string;
-}
+// The shapes each queryType answers with; the backend validates against the same schemas
+export type TaskAnalysis = TaskAnalysisOutput;
+export type ProjectBreakdownResult = ProjectBreakdownOutput;
+export type DailyPlanTask = DailyPlanEntry;
+export type DailyPlanResult = DailyPlanOutput;
 
-export interface ProjectBreakdownTask {
-  title: string;
-  description?: string;
-  priority?: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
-  dueDate?: string;
-  tags?: string[];
-  effortHours?: number;
+export interface TaskRecommendation extends TaskRecommendationOutput {
+  priority: string;
 }
 
-export interface ProjectBreakdownResult {
-  tasks: ProjectBreakdownTask[];
+// A change the agent proposed in a dry run; nothing is written until it is applied
+export interface ProposedAction {
+  id: string;
+  tool: string;
+  input: Record<string, unknown>;
   summary: string;
 }
 
-export interface DailyPlanTask {
-  taskId: string;
-  title: string;
-  priority: string;
-  reasoning: string;
-  estimatedMinutes?: number;
+export interface AgentCommandResult {
+  answer: string | null;
+  result: unknown;
+  actions: ProposedAction[];
 }
 
-export interface DailyPlanResult {
-  tasks: DailyPlanTask[];
-  summary: string;
-}
-
-export interface TaskRecommendation {
-  taskId: string;
-  listId?: string;
-  title: string;
-  reasoning: string;
-  priority: string;
+export interface AppliedAction {
+  id: string;
+  success: boolean;
+  error?: string;
 }
 
 export type ParseResult<T> =
@@ -93,151 +93,90 @@ function tryParseJson(raw: string): ParseResult<unknown> {
   }
 }
 
-function checkRequiredFields(
-  obj: Record<string, unknown>,
-  fields: string[],
-): string[] {
-  return fields.filter(
-    (f) => obj[f] === undefined || obj[f] === null,
-  );
+// Parse a stored result with its queryType's schema, reporting every field that is off
+function parseWithSchema<T>(raw: string, schema: AgentOutputSchema<T>): ParseResult<T> {
+  const json = tryParseJson(raw);
+  if (!json.success) return json;
+
+  const parsed = schema.parse(json.data);
+  if (!parsed.success) {
+    return { success: false, error: `Invalid agent response: ${parsed.errors.join('; ')}` };
+  }
+  return parsed;
 }
 
 // --- Parse functions ---
 
 export function parseTaskAnalysis(raw: string): ParseResult<TaskAnalysis> {
-  const json = tryParseJson(raw);
-  if (!json.success) return json;
-
-  const data = json.data as Record<string, unknown>;
-  const missing = checkRequiredFields(data, [
-    'title',
-    'priority',
-    'estimatedMinutes',
-    'tags',
-    'reasoning',
-  ]);
-  if (missing.length > 0) {
-    return {
-      success: false,
-      error: `Missing required fields: ${missing.join(', ')}`,
-    };
-  }
+  const result = parseWithSchema(raw, taskAnalysisSchema);
+  if (!result.success) return result;
 
+  // Drop rules the client cannot schedule rather than failing the whole analysis
+  const { recurrence } = result.data;
   return {
     success: true,
     data: {
-      title: data.title as string,
-      priority: data.priority as TaskAnalysis['priority'],
-      estimatedMinutes: data.estimatedMinutes as number,
-      dueDate: (data.dueDate as string) ?? null,
-      tags: data.tags as string[],
-      reasoning: data.reasoning as string,
+      ...result.data,
+      recurrence: recurrence && parseRecurrenceRule(recurrence).success ? recurrence : null,
     },
   };
 }
 
-export function parseProjectBreakdown(
-  raw: string,
-): ParseResult<ProjectBreakdownResult> {
-  const json = tryParseJson(raw);
-  if (!json.success) return json;
+export function parseProjectBreakdown(raw: string): ParseResult<ProjectBreakdownResult> {
+  return parseWithSchema(raw, projectBreakdownSchema);
+}
 
-  const data = json.data as Record<string, unknown>;
-  const missing = checkRequiredFields(data, ['tasks', 'summary']);
-  if (missing.length > 0) {
-    return {
-      success: false,
-      error: `Missing required fields: ${missing.join(', ')}`,
-    };
-  }
+export function parseDailyPlan(raw: string): ParseResult<DailyPlanResult> {
+  return parseWithSchema(raw, dailyPlanSchema);
+}
 
-  if (!Array.isArray(data.tasks)) {
-    return {
-      success: false,
-      error: `Missing required fields: tasks`,
-    };
-  }
+export function parseTaskRecommendation(raw: string): ParseResult<TaskRecommendation> {
+  const result = parseWithSchema(raw, taskRecommendationSchema);
+  if (!result.success) return result;
+  return { success: true, data: { ...result.data, priority: result.data.priority ?? 'MEDIUM' } };
+}
 
-  return {
-    success: true,
-    data: {
-      tasks: data.tasks as ProjectBreakdownTask[],
-      summary: data.summary as string,
-    },
-  };
+/** The changeset of a dry run; entries that are not actions are dropped. */
+export function parseProposedActions(value: unknown): ProposedAction[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (action): action is ProposedAction =>
+      action !== null &&
+      typeof action === 'object' &&
+      typeof action.id === 'string' &&
+      typeof action.tool === 'string' &&
+      typeof action.summary === 'string' &&
+      action.input !== null &&
+      typeof action.input === 'object',
+  );
 }
 
-export function parseDailyPlan(raw: string): ParseResult<DailyPlanResult> {
+export function parseAgentCommand(raw: string): ParseResult<AgentCommandResult> {
   const json = tryParseJson(raw);
   if (!json.success) return json;
 
   const data = json.data as Record<string, unknown>;
+  const answer = typeof data.answer === 'string' ? data.answer : null;
+  const result = data.result ?? null;
 
-  // The SOP returns "schedule" but the frontend expects "tasks"
-  const tasksOrSchedule = (data.tasks ?? data.schedule) as unknown[] | undefined;
-  const summary = data.summary as string | undefined;
-
-  if (!summary) {
-    return { success: false, error: 'Missing required fields: summary' };
-  }
-
-  if (!Array.isArray(tasksOrSchedule)) {
-    return { success: false, error: 'Missing required fields: tasks/schedule' };
+  if (answer === null && result === null) {
+    return { success: false, error: 'Missing required fields: answer/result' };
   }
 
-  // Map schedule items to DailyPlanTask shape
-  const tasks: DailyPlanTask[] = tasksOrSchedule.map((item) => {
-    const entry = item as Record<string, unknown>;
-    return {
-      taskId: (entry.taskId ?? '') as string,
-      title: (entry.title ?? entry.taskName ?? '') as string,
-      priority: (entry.priority ?? '') as string,
-      reasoning: (entry.reasoning ?? '') as string,
-      estimatedMinutes: entry.estimatedMinutes as number | undefined,
-    };
-  });
-
   return {
     success: true,
-    data: { tasks, summary },
+    data: { answer, result, actions: parseProposedActions(data.actions) },
   };
 }
 
-export function parseTaskRecommendation(
-  raw: string,
-): ParseResult<TaskRecommendation> {
+export function parseAppliedActions(raw: string): ParseResult<AppliedAction[]> {
   const json = tryParseJson(raw);
   if (!json.success) return json;
 
   const data = json.data as Record<string, unknown>;
-
-  // Map backend field names to frontend types
-  const taskId = (data.taskId ?? data.recommendedTaskId) as string | undefined;
-  const title = (data.title ?? data.taskName) as string | undefined;
-  const reasoning = data.reasoning as string | undefined;
-  const priority = (data.priority ?? 'MEDIUM') as string;
-  const listId = data.listId as string | undefined;
-
-  const missing: string[] = [];
-  if (!taskId) missing.push('taskId/recommendedTaskId');
-  if (!title) missing.push('title/taskName');
-  if (!reasoning) missing.push('reasoning');
-
-  if (missing.length > 0) {
-    return {
-      success: false,
-      error: `Missing required fields: ${missing.join(', ')}`,
-    };
+  if (!Array.isArray(data.results)) {
+    return { success: false, error: 'Missing required fields: results' };
   }
 
-  return {
-    success: true,
-    data: {
-      taskId: taskId!,
-      listId,
-      title: title!,
-      reasoning: reasoning!,
-      priority,
-    },
-  };
+  return { success: true, data: data.results as AppliedAction[] };
 }
@@ -22,4 +22,7 @@ export const client = {
   get mutations() {
     return getClient().mutations;
   },
+  get queries() {
+    return getClient().queries;
+  },
 };
@@ -0,0 +1,60 @@
+// --- Task assignment helpers ---
+
+export interface AssigneeOption {
+  id: string;
+  email?: string;
+}
+
+export interface AssigneeGroup {
+  owner?: string | null;
+  ownerEmail?: string | null;
+  memberIds?: (string | null)[] | null;
+  memberEmails?: (string | null)[] | null;
+}
+
+export interface AssignableTask {
+  assigneeId?: string | null;
+  assigneeEmail?: string | null;
+}
+
+/**
+ * The people a task in a shared list can be assigned to: the group owner followed by
+ * its members. memberEmails is kept index-aligned with memberIds.
+ */
+export function groupAssigneeOptions(group: AssigneeGroup | null | undefined): AssigneeOption[] {
+  if (!group) return [];
+
+  const options: AssigneeOption[] = [];
+  const seen = new Set<string>();
+  const add = (id: string | null | undefined, email: string | null | undefined) => {
+    if (!id || seen.has(id)) return;
+    seen.add(id);
+    options.push({ id, email: email ?? undefined });
+  };
+
+  add(group.owner, group.ownerEmail);
+  (group.memberIds ?? []).forEach((id, index) => add(id, group.memberEmails?.[index]));
+  return options;
+}
+
+/** How an assignee is shown in the UI. */
+export function assigneeLabel(assignee: AssigneeOption, currentUserId?: string): string {
+  if (assignee.id === currentUserId) return 'You';
+  return assignee.email || `User ${assignee.id.slice(0, 8)}...`;
+}
+
+/** The assignee recorded on a task, or null when it is unassigned. */
+export function taskAssignee(task: AssignableTask): AssigneeOption | null {
+  if (!task.assigneeId) return null;
+  return { id: task.assigneeId, email: task.assigneeEmail ?? undefined };
+}
+
+/** Every distinct assignee across a set of tasks, for filtering. */
+export function collectAssignees(tasks: AssignableTask[]): AssigneeOption[] {
+  const byId = new Map<string, AssigneeOption>();
+  for (const task of tasks) {
+    const assignee = taskAssignee(task);
+    if (assignee && !byId.has(assignee.id)) byId.set(assignee.id, assignee);
+  }
+  return [...byId.values()];
+}
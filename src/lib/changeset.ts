@@ -0,0 +1,123 @@
+import type { ProposedAction } from './ai-response-parser';
+
+// --- Reviewing a dry-run changeset ---
+
+/** A task the agent proposed to create, as the user has edited it so far. */
+export interface DraftTask {
+  key: string;
+  fields: Record<string, unknown>;
+  selected: boolean;
+  subtasks: DraftTask[];
+}
+
+/**
+ * One proposed action under review. Actions that create tasks carry their tasks so each
+ * can be edited or left out; changes to existing tasks can only be kept or dropped.
+ */
+export interface DraftAction {
+  action: ProposedAction;
+  selected: boolean;
+  tasks: DraftTask[] | null;
+}
+
+function toDraftTasks(tasks: unknown, prefix: string): DraftTask[] {
+  if (!Array.isArray(tasks)) return [];
+  return tasks.map((task, i) => {
+    const { subtasks, ...fields } = (task ?? {}) as Record<string, unknown>;
+    const key = `${prefix}.${i}`;
+    return { key, fields, selected: true, subtasks: toDraftTasks(subtasks, key) };
+  });
+}
+
+function fromDraftTasks(tasks: DraftTask[]): Record<string, unknown>[] {
+  return tasks
+    .filter((task) => task.selected)
+    .map((task) => {
+      const subtasks = fromDraftTasks(task.subtasks);
+      return {
+        ...task.fields,
+        title: String(task.fields.title ?? '').trim(),
+        ...(subtasks.length > 0 ? { subtasks } : {}),
+      };
+    });
+}
+
+export function draftChangeset(actions: ProposedAction[]): DraftAction[] {
+  return actions.map((action) => {
+    if (action.tool === 'create_tasks') {
+      return { action, selected: true, tasks: toDraftTasks(action.input.tasks, action.id) };
+    }
+    if (action.tool === 'create_task') {
+      // Placement stays with the action; only the task itself is editable
+      const fields = Object.fromEntries(
+        Object.entries(action.input).filter(([key]) => key !== 'listId' && key !== 'parentId'),
+      );
+      return { action, selected: true, tasks: [{ key: `${action.id}.0`, fields, selected: true, subtasks: [] }] };
+    }
+    return { action, selected: true, tasks: null };
+  });
+}
+
+/** Apply `update` to the draft task with the given key, wherever it is nested. */
+export function updateDraftTask(
+  drafts: DraftAction[],
+  key: string,
+  update: (task: DraftTask) => DraftTask,
+): DraftAction[] {
+  const visit = (tasks: DraftTask[]): DraftTask[] =>
+    tasks.map((task) => (task.key === key ? update(task) : { ...task, subtasks: visit(task.subtasks) }));
+  return drafts.map((draft) => (draft.tasks ? { ...draft, tasks: visit(draft.tasks) } : draft));
+}
+
+export function setDraftActionSelected(drafts: DraftAction[], actionId: string, selected: boolean): DraftAction[] {
+  return drafts.map((draft) => (draft.action.id === actionId ? { ...draft, selected } : draft));
+}
+
+function countTasks(tasks: DraftTask[]): number {
+  return tasks
+    .filter((task) => task.selected)
+    .reduce((count, task) => count + 1 + countTasks(task.subtasks), 0);
+}
+
+/** Changes that approval would make: each kept task counts, as does each other action. */
+export function countSelectedChanges(drafts: DraftAction[]): number {
+  return drafts
+    .filter((draft) => draft.selected)
+    .reduce((count, draft) => count + (draft.tasks ? countTasks(draft.tasks) : 1), 0);
+}
+
+/** Whether a task that would be created has had its title cleared. */
+export function hasBlankTitle(drafts: DraftAction[]): boolean {
+  const blank = (tasks: DraftTask[]): boolean =>
+    tasks.some(
+      (task) => task.selected && (String(task.fields.title ?? '').trim() === '' || blank(task.subtasks)),
+    );
+  return drafts.some((draft) => draft.selected && draft.tasks !== null && blank(draft.tasks));
+}
+
+/**
+ * The actions to apply, rebuilt from the review. A task left out takes its subtasks with
+ * it, and an action left with nothing to create is dropped.
+ */
+export function buildApprovedActions(drafts: DraftAction[]): ProposedAction[] {
+  const approved: ProposedAction[] = [];
+
+  for (const draft of drafts) {
+    if (!draft.selected) continue;
+    if (!draft.tasks) {
+      approved.push(draft.action);
+      continue;
+    }
+
+    const tasks = fromDraftTasks(draft.tasks);
+    if (tasks.length === 0) continue;
+
+    const input =
+      draft.action.tool === 'create_tasks'
+        ? { ...draft.action.input, tasks }
+        : { ...draft.action.input, ...tasks[0] };
+    approved.push({ ...draft.action, input });
+  }
+
+  return approved;
+}
@@ -0,0 +1,34 @@
+// --- Records read through the group-access function ---
+// Shared lists, their tasks and comments are read with role-checked queries (listGroupTodos,
+// getGroupList, ...) that return the stored records as AWSJSON, which arrives as a JSON string.
+
+import type { Page } from './pagination';
+
+interface RecordPage {
+  items: unknown;
+  nextToken?: string | null;
+}
+
+function parseJson(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+/** A single record, or null when it is missing or the caller may not see it. */
+export function parseGroupRecord<T>(value: unknown): T | null {
+  const record = parseJson(value);
+  return record !== null && typeof record === 'object' && !Array.isArray(record) ? (record as T) : null;
+}
+
+/** A page of records; anything that is not an array of records reads as an empty page. */
+export function parseGroupRecordPage<T>(page: RecordPage | null | undefined): Page<T> {
+  const items = parseJson(page?.items);
+  return {
+    items: Array.isArray(items) ? items.filter((item) => item !== null && typeof item === 'object') : [],
+    nextToken: page?.nextToken ?? null,
+  };
+}
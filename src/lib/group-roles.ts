@@ -0,0 +1,82 @@
+// --- Group role helpers ---
+// The role rules live with the group-access function that enforces them; the UI uses the
+// same rules only to decide which controls to show.
+
+import {
+  DEFAULT_MEMBER_ROLE,
+  MEMBER_ROLES,
+  canAccessList,
+  hasPermission,
+  isMemberRole,
+  roleOf,
+  type GroupPermission,
+  type GroupRole,
+  type MemberRole,
+} from '../../amplify/functions/group-access/roles';
+
+export { DEFAULT_MEMBER_ROLE, MEMBER_ROLES, hasPermission, isMemberRole };
+export type { GroupPermission, GroupRole, MemberRole };
+
+export interface RoleGroup {
+  id?: string | null;
+  owner?: string | null;
+  memberIds?: (string | null)[] | null;
+  memberRoles?: (string | null)[] | null;
+}
+
+export interface RoleList {
+  owner?: string | null;
+  groupId?: string | null;
+}
+
+export const ROLE_LABELS: Record<GroupRole, string> = {
+  OWNER: 'Owner',
+  EDITOR: 'Editor',
+  COMMENTER: 'Commenter',
+  VIEWER: 'Viewer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<MemberRole, string> = {
+  EDITOR: 'Can add, edit and delete tasks',
+  COMMENTER: 'Can view tasks and comment on them',
+  VIEWER: 'Can only view tasks',
+};
+
+const present = (values: (string | null)[] | null | undefined): string[] =>
+  (values ?? []).filter((value): value is string => !!value);
+
+function toRecord(group: RoleGroup) {
+  return {
+    id: group.id ?? undefined,
+    owner: group.owner ?? undefined,
+    memberIds: present(group.memberIds),
+    memberRoles: present(group.memberRoles),
+  };
+}
+
+/** The user's role in a group, or null when they are not part of it. */
+export function groupRole(group: RoleGroup | null | undefined, userId: string): GroupRole | null {
+  return group ? roleOf(toRecord(group), userId) : null;
+}
+
+/** A member's role for display; the group owner is listed separately. */
+export function memberRole(group: RoleGroup | null | undefined, memberId: string): MemberRole {
+  const role = groupRole(group, memberId);
+  return isMemberRole(role) ? role : DEFAULT_MEMBER_ROLE;
+}
+
+/** Whether the user may act on a list's tasks, as the list owner or through its group. */
+export function canOnList(
+  list: RoleList | null | undefined,
+  group: RoleGroup | null | undefined,
+  userId: string,
+  permission: GroupPermission,
+): boolean {
+  if (!list) return false;
+  return canAccessList(
+    { owner: list.owner ?? undefined, groupId: list.groupId },
+    group ? toRecord(group) : null,
+    userId,
+    permission,
+  );
+}
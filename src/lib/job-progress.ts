@@ -0,0 +1,48 @@
+// --- AgentJob progress timeline ---
+
+export type JobProgressKind = 'started' | 'specialist' | 'tool' | 'finished' | 'failed' | 'cancelled';
+
+/** One step of a running job, as written by the task-agents function. */
+export interface JobProgressStep {
+  kind: JobProgressKind;
+  label: string;
+  at: string;
+  count?: number;
+}
+
+/**
+ * Read the job's progress field. AWSJSON values arrive as JSON strings (sometimes
+ * encoded twice); anything that is not a list of steps reads as no progress.
+ */
+export function parseJobProgress(value: unknown): JobProgressStep[] {
+  let data = value;
+  for (let i = 0; i < 2 && typeof data === 'string'; i++) {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(data)) return [];
+
+  return data.filter(
+    (step): step is JobProgressStep =>
+      step !== null &&
+      typeof step === 'object' &&
+      typeof step.kind === 'string' &&
+      typeof step.label === 'string' &&
+      typeof step.at === 'string',
+  );
+}
+
+/**
+ * Add a step to a timeline built on the client (e.g. from a streamed request). Repeats of the
+ * latest step are folded into it with a count, as the task-agents function does for jobs.
+ */
+export function appendProgressStep(steps: JobProgressStep[], step: JobProgressStep): JobProgressStep[] {
+  const last = steps[steps.length - 1];
+  if (last && last.kind === step.kind && last.label === step.label) {
+    return [...steps.slice(0, -1), { ...last, at: step.at, count: (last.count ?? 1) + 1 }];
+  }
+  return [...steps, step];
+}
@@ -0,0 +1,60 @@
+// --- Pagination helpers ---
+// Amplify list calls return one page at a time (100 items by default, and never more than
+// 1 MB), with a nextToken for the rest. These helpers follow it so nothing is silently lost.
+
+import type { InfiniteData } from '@tanstack/react-query';
+
+export const PAGE_SIZE = 100;
+
+export interface Page<T> {
+  items: T[];
+  nextToken: string | null;
+}
+
+export type PagedData<T> = InfiniteData<Page<T>, string | null>;
+
+type FetchPage<T> = (nextToken: string | null) => Promise<Page<T>>;
+
+/** Every item of a list call, reading pages until there is no nextToken. */
+export async function listAllPages<T>(fetchPage: FetchPage<T>): Promise<T[]> {
+  const items: T[] = [];
+  let nextToken: string | null = null;
+  do {
+    const page = await fetchPage(nextToken);
+    items.push(...page.items);
+    nextToken = page.nextToken;
+  } while (nextToken);
+  return items;
+}
+
+/**
+ * The next non-empty page. Filtered list calls apply their limit before the filter, so a
+ * page can come back empty with more to read; skipping those keeps "load more" honest.
+ */
+export async function nextNonEmptyPage<T>(fetchPage: FetchPage<T>, nextToken: string | null): Promise<Page<T>> {
+  let page = await fetchPage(nextToken);
+  while (page.items.length === 0 && page.nextToken) {
+    page = await fetchPage(page.nextToken);
+  }
+  return page;
+}
+
+export function flattenPages<T>(data: PagedData<T>): T[] {
+  return data.pages.flatMap((page) => page.items);
+}
+
+/** The items in a cached query, whether it holds a plain array or infinite pages. */
+export function cachedItems<T>(cached: T[] | PagedData<T> | undefined): T[] {
+  if (!cached) return [];
+  return Array.isArray(cached) ? cached : flattenPages(cached);
+}
+
+/** Apply an update to a cached query's items, keeping its shape (array or infinite pages). */
+export function mapCachedItems<T>(
+  cached: T[] | PagedData<T> | undefined,
+  update: (items: T[]) => T[],
+): T[] | PagedData<T> | undefined {
+  if (!cached) return cached;
+  if (Array.isArray(cached)) return update(cached);
+  return { ...cached, pages: cached.pages.map((page) => ({ ...page, items: update(page.items) })) };
+}
@@ -1,5 +1,6 @@
 import { QueryClient, QueryCache, MutationCache } from '@tanstack/react-query'
 import { toast } from '@/hooks/use-toast'
+import { describeQuotaError, parseQuotaError } from '../../amplify/functions/shared/agent-quotas'
 
 // Error message mapping for user-friendly messages
 function getErrorMessage(error: unknown): string {
@@ -17,6 +18,12 @@ function getErrorMessage(error: unknown): string {
       return 'Invalid email or password.'
     }
     
+    // Agent quota errors name the limit that was reached
+    const quota = parseQuotaError(error.message)
+    if (quota) {
+      return describeQuotaError(quota)
+    }
+    
     // Bedrock/AI service errors
     if (message.includes('not authorized') && message.includes('bedrock')) {
       return 'AI service is not properly configured. Please contact support.'
@@ -74,6 +81,7 @@ function shouldRetry(failureCount: number, error: unknown): boolean {
       message.includes('permission') ||
       message.includes('not found') ||
       message.includes('invalid model') || // Bedrock model errors
+      message.includes('agentquotaexceeded') || // Agent quotas, which a retry would only count against
       message.includes('explicit deny') // AWS SCP denials
     ) {
       return false
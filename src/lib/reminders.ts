@@ -0,0 +1,180 @@
+import {
+  DEFAULT_TIMEZONE,
+  addCalendarDays,
+  formatZonedDate,
+  zonedTimeToUtc,
+} from '../../amplify/functions/shared/timezones';
+
+// --- Reminder helpers ---
+//
+// A task carries a list of reminder offsets (minutes before its due date), each with its
+// own sent state, plus an optional one-off `snoozedUntil` time set from a notification.
+
+export interface ReminderEntry {
+  offsetMinutes: number;
+  sentAt?: string | null;
+}
+
+export interface ReminderTask {
+  dueDate?: string | null;
+  status?: string | null;
+  reminders?: (ReminderEntry | null | undefined)[] | null;
+  snoozedUntil?: string | null;
+  // Tasks saved before multiple reminders existed carry a single reminder instead
+  reminderMinutes?: number | null;
+  reminderSent?: boolean | null;
+  updatedAt?: string | null;
+}
+
+export interface ReminderSettings {
+  defaultReminderOffsets?: (number | null)[] | null;
+  // Settings saved before multiple reminders existed carry a single default instead
+  defaultReminderMinutes?: number | null;
+}
+
+export type DueReminder =
+  | { kind: 'offset'; offsetMinutes: number; remindAt: Date }
+  | { kind: 'snooze'; remindAt: Date };
+
+export const DEFAULT_REMINDER_OFFSETS = [1440]; // 24 hours
+
+export const REMINDER_OFFSET_OPTIONS = [
+  { value: 15, label: '15 minutes before' },
+  { value: 30, label: '30 minutes before' },
+  { value: 60, label: '1 hour before' },
+  { value: 120, label: '2 hours before' },
+  { value: 1440, label: '1 day before' },
+  { value: 2880, label: '2 days before' },
+  { value: 10080, label: '1 week before' },
+];
+
+export type SnoozeOption = '10m' | '1h' | 'tomorrow';
+
+export const SNOOZE_OPTIONS: { value: SnoozeOption; label: string }[] = [
+  { value: '10m', label: '10 min' },
+  { value: '1h', label: '1 hour' },
+  { value: 'tomorrow', label: 'Tomorrow morning' },
+];
+
+// "Tomorrow morning" means 9am in the user's timezone
+const MORNING_TIME = '09:00';
+
+/** A task's reminders; a legacy reminderMinutes/reminderSent pair reads as a single reminder. */
+export function reminderEntries(task: ReminderTask): ReminderEntry[] {
+  if (!task.reminders && typeof task.reminderMinutes === 'number' && task.reminderMinutes > 0) {
+    return [{ offsetMinutes: task.reminderMinutes, sentAt: task.reminderSent ? (task.updatedAt ?? null) : null }];
+  }
+  return (task.reminders ?? []).filter((r): r is ReminderEntry => !!r && typeof r.offsetMinutes === 'number');
+}
+
+/**
+ * The user's default offsets, falling back to 24 hours when settings are missing or empty.
+ * A legacy defaultReminderMinutes is read as a single offset.
+ */
+export function reminderOffsetsFromSettings(settings: ReminderSettings | null | undefined): number[] {
+  const offsets =
+    settings?.defaultReminderOffsets ??
+    (settings?.defaultReminderMinutes != null ? [settings.defaultReminderMinutes] : []);
+  const valid = offsets.filter((o): o is number => typeof o === 'number' && o > 0);
+  return valid.length > 0 ? valid : DEFAULT_REMINDER_OFFSETS;
+}
+
+/** Build unsent reminder entries from a set of offsets (deduplicated, earliest reminder first). */
+export function toReminders(offsets: number[]): ReminderEntry[] {
+  return [...new Set(offsets.filter((o) => Number.isInteger(o) && o > 0))]
+    .sort((a, b) => b - a)
+    .map((offsetMinutes) => ({ offsetMinutes, sentAt: null }));
+}
+
+/** Clear every sent state, e.g. after the due date moves. */
+export function resetReminders(reminders: ReminderTask['reminders']): ReminderEntry[] {
+  return toReminders(reminderEntries({ reminders }).map((r) => r.offsetMinutes));
+}
+
+export function reminderTime(dueDate: string, offsetMinutes: number): Date {
+  return new Date(new Date(dueDate).getTime() - offsetMinutes * 60000);
+}
+
+/**
+ * Return the reminder that should fire for `task` at `now`, or null. A snooze that has
+ * elapsed wins; otherwise the most recent unsent offset whose window is open (between its
+ * reminder time and the due date). Completed tasks never fire.
+ */
+export function findDueReminder(task: ReminderTask, now: Date): DueReminder | null {
+  if (task.status === 'COMPLETE') return null;
+
+  if (task.snoozedUntil) {
+    const snoozedUntil = new Date(task.snoozedUntil);
+    if (now >= snoozedUntil) return { kind: 'snooze', remindAt: snoozedUntil };
+  }
+
+  if (!task.dueDate) return null;
+  const dueDate = new Date(task.dueDate);
+  if (now >= dueDate) return null;
+
+  let due: DueReminder | null = null;
+  for (const reminder of reminderEntries(task)) {
+    if (reminder.sentAt) continue;
+    const remindAt = reminderTime(task.dueDate, reminder.offsetMinutes);
+    if (now >= remindAt && (!due || remindAt > due.remindAt)) {
+      due = { kind: 'offset', offsetMinutes: reminder.offsetMinutes, remindAt };
+    }
+  }
+  return due;
+}
+
+/**
+ * The reminder state after `due` has been delivered at `now`. Offsets whose window has
+ * already opened are all marked sent, so a user who was away does not get a burst of
+ * stale reminders; a delivered snooze is cleared.
+ */
+export function markReminderSent(
+  task: ReminderTask,
+  due: DueReminder,
+  now: Date,
+): { reminders: ReminderEntry[]; snoozedUntil: string | null } {
+  const sentAt = now.toISOString();
+  const reminders = reminderEntries(task).map((r) =>
+    !r.sentAt && task.dueDate && reminderTime(task.dueDate, r.offsetMinutes) <= now ? { ...r, sentAt } : r,
+  );
+  return {
+    reminders,
+    snoozedUntil: due.kind === 'snooze' ? null : (task.snoozedUntil ?? null),
+  };
+}
+
+/** The next time a reminder will fire for `task`, or null if none is pending. */
+export function nextReminderTime(task: ReminderTask): Date | null {
+  if (task.status === 'COMPLETE') return null;
+
+  const candidates: Date[] = [];
+  if (task.snoozedUntil) candidates.push(new Date(task.snoozedUntil));
+  if (task.dueDate) {
+    for (const reminder of reminderEntries(task)) {
+      if (!reminder.sentAt) candidates.push(reminderTime(task.dueDate, reminder.offsetMinutes));
+    }
+  }
+
+  if (candidates.length === 0) return null;
+  return candidates.reduce((earliest, d) => (d < earliest ? d : earliest));
+}
+
+export function snoozeUntil(option: SnoozeOption, now: Date, timeZone: string = DEFAULT_TIMEZONE): Date {
+  switch (option) {
+    case '10m':
+      return new Date(now.getTime() + 10 * 60000);
+    case '1h':
+      return new Date(now.getTime() + 60 * 60000);
+    case 'tomorrow': {
+      // Calendar days, so a DST change overnight still lands on 9am
+      const tomorrow = addCalendarDays(formatZonedDate(now, timeZone), 1);
+      return zonedTimeToUtc(`${tomorrow}T${MORNING_TIME}`, timeZone) ?? new Date(now.getTime() + 24 * 60 * 60000);
+    }
+  }
+}
+
+export function formatReminderOffset(minutes: number): string {
+  if (minutes < 60) return `${minutes}m before`;
+  if (minutes < 1440) return `${Math.floor(minutes / 60)}h before`;
+  return `${Math.floor(minutes / 1440)}d before`;
+}
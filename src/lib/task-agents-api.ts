@@ -1,5 +1,10 @@
 import { fetchAuthSession } from 'aws-amplify/auth';
 import outputs from '../../amplify_outputs.json';
+import {
+  createSseFrameParser,
+  type AgentStreamFrame,
+  type AgentStreamResponse,
+} from '../../amplify/functions/shared/agent-stream';
 
 // Type for amplify outputs with custom fields
 type AmplifyOutputs = typeof outputs & {
@@ -12,78 +17,50 @@ type AmplifyOutputs = typeof outputs & {
 // Get the API endpoint from amplify_outputs.json
 // After deployment, this will be populated with the actual API Gateway URL
 const typedOutputs = outputs as AmplifyOutputs;
-const API_ENDPOINT = typedOutputs.custom?.taskAgentsApiUrl || '';
+const API_ENDPOINT = (typedOutputs.custom?.taskAgentsApiUrl || '').replace(/\/$/, '');
 
 if (!API_ENDPOINT && import.meta.env.DEV) {
   console.warn('Task Agents API URL not found in amplify_outputs.json. Please deploy the backend first.');
 }
 
 export interface TaskAgentRequest {
-  queryType: 'breakdownProject' | 'analyzeTask' | 'planDay' | 'recommendTask';
+  queryType: 'breakdownProject' | 'analyzeTask' | 'planDay' | 'recommendTask' | 'runPlaybook' | 'freeform';
+  query?: string;
   listId?: string;
   projectBrief?: string;
   deadline?: string;
   taskDescription?: string;
   date?: string;
+  assigneeId?: string;
+  playbookId?: string;
+  playbookContent?: string;
+  input?: string;
+  // A follow-up in an agent session (see amplify/functions/shared/agent-sessions.ts)
+  sessionId?: string;
+  followUp?: string;
 }
 
-export interface TaskAgentResponse {
-  success: boolean;
-  data?: unknown;
-  error?: string;
+export type TaskAgentResponse = AgentStreamResponse;
+
+/** Whether the streaming endpoint is deployed; without it the agents run as AgentJobs. */
+export function isTaskAgentsApiConfigured(): boolean {
+  return API_ENDPOINT !== '';
 }
 
 /**
- * Call the task agents REST API with streaming support
+ * Call the task agents REST API and wait for the final response
  */
 export async function callTaskAgentsApi(request: TaskAgentRequest): Promise<TaskAgentResponse> {
-  if (!API_ENDPOINT) {
-    throw new Error('Task Agents API is not configured. Please deploy the backend first.');
-  }
-
-  try {
-    // Get the current auth session
-    const session = await fetchAuthSession();
-    const token = session.tokens?.idToken?.toString();
-
-    if (!token) {
-      throw new Error('Not authenticated');
-    }
-
-    // Make the API call
-    const response = await fetch(`${API_ENDPOINT}/agents`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': token,
-      },
-      body: JSON.stringify(request),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`API request failed: ${response.status} ${response.statusText} - ${errorText}`);
-    }
-
-    // Read the response body
-    const text = await response.text();
-    
-    // Parse the JSON response
-    const data = JSON.parse(text) as TaskAgentResponse;
-    
-    return data;
-  } catch (error) {
-    console.error('Task agents API error:', error);
-    throw error;
-  }
+  return callTaskAgentsApiStreaming(request);
 }
 
 /**
- * Call the task agents REST API with streaming support and callback for chunks
+ * Call the task agents REST API, passing each server-sent frame to onFrame as it arrives.
+ * Resolves with the response from the final frame.
  */
 export async function callTaskAgentsApiStreaming(
   request: TaskAgentRequest,
-  onChunk?: (chunk: string) => void
+  onFrame?: (frame: AgentStreamFrame) => void
 ): Promise<TaskAgentResponse> {
   if (!API_ENDPOINT) {
     throw new Error('Task Agents API is not configured. Please deploy the backend first.');
@@ -103,6 +80,7 @@ export async function callTaskAgentsApiStreaming(
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
         'Authorization': token,
       },
       body: JSON.stringify(request),
@@ -119,28 +97,26 @@ export async function callTaskAgentsApiStreaming(
       throw new Error('Response body is not readable');
     }
 
-    const decoder = new TextDecoder();
-    let fullText = '';
+    let final = null as TaskAgentResponse | null;
+    const parser = createSseFrameParser((frame) => {
+      if (frame.type === 'final') final = frame.response;
+      onFrame?.(frame);
+    });
 
-    // Read chunks as they arrive
+    // Parse frames as the chunks arrive; a chunk may end part-way through a frame
+    const decoder = new TextDecoder();
     while (true) {
       const { done, value } = await reader.read();
-      
       if (done) break;
-      
-      const chunk = decoder.decode(value, { stream: true });
-      fullText += chunk;
-      
-      // Call the callback with each chunk
-      if (onChunk) {
-        onChunk(chunk);
-      }
+      parser.push(decoder.decode(value, { stream: true }));
     }
+    parser.push(decoder.decode());
+    parser.end();
 
-    // Parse the final response
-    const data = JSON.parse(fullText) as TaskAgentResponse;
-    
-    return data;
+    if (!final) {
+      throw new Error('The agent stream ended without a response');
+    }
+    return final;
   } catch (error) {
     console.error('Task agents API streaming error:', error);
     throw error;
@@ -0,0 +1,154 @@
+// --- Task dependency helpers ---
+
+export interface DependencyTask {
+  id: string;
+  title?: string | null;
+  status?: string | null;
+  blockedBy?: (string | null)[] | null;
+  effortHours?: number | null;
+  dueDate?: string | null;
+}
+
+export interface CriticalPathStep<T extends DependencyTask> {
+  task: T;
+  startHours: number;
+  finishHours: number;
+  projectedFinish: Date;
+  atRisk: boolean;
+}
+
+export interface CriticalPath<T extends DependencyTask> {
+  steps: CriticalPathStep<T>[];
+  totalHours: number;
+  projectedFinish: Date;
+}
+
+// Matches the planning assumption used by the project-breakdown agent
+const PRODUCTIVE_HOURS_PER_DAY = 6;
+
+function blockerIds(task: DependencyTask): string[] {
+  return (task.blockedBy ?? []).filter((id): id is string => !!id);
+}
+
+/**
+ * Return the prerequisites of `task` that are not yet COMPLETE.
+ * Prerequisites that no longer exist are ignored.
+ */
+export function getOpenBlockers<T extends DependencyTask>(task: T, tasksById: Map<string, T>): T[] {
+  return blockerIds(task)
+    .map((id) => tasksById.get(id))
+    .filter((blocker): blocker is T => !!blocker && blocker.status !== 'COMPLETE');
+}
+
+export function isBlocked<T extends DependencyTask>(task: T, tasksById: Map<string, T>): boolean {
+  return getOpenBlockers(task, tasksById).length > 0;
+}
+
+/**
+ * Order tasks so that prerequisites come before the tasks they block.
+ * Ties (and tasks caught in a cycle) keep the order given by `compare`.
+ */
+export function sortByDependencies<T extends DependencyTask>(
+  tasks: T[],
+  compare: (a: T, b: T) => number = () => 0,
+): T[] {
+  const ids = new Set(tasks.map((t) => t.id));
+  const remaining = new Map<string, number>();
+  const dependents = new Map<string, T[]>();
+
+  for (const task of tasks) {
+    const inList = blockerIds(task).filter((id) => ids.has(id) && id !== task.id);
+    remaining.set(task.id, inList.length);
+    for (const id of inList) {
+      dependents.set(id, [...(dependents.get(id) ?? []), task]);
+    }
+  }
+
+  const ready = tasks.filter((t) => remaining.get(t.id) === 0).sort(compare);
+  const result: T[] = [];
+  const placed = new Set<string>();
+
+  while (ready.length > 0) {
+    const task = ready.shift()!;
+    result.push(task);
+    placed.add(task.id);
+    for (const dependent of dependents.get(task.id) ?? []) {
+      const count = (remaining.get(dependent.id) ?? 0) - 1;
+      remaining.set(dependent.id, count);
+      if (count === 0) {
+        ready.push(dependent);
+        ready.sort(compare);
+      }
+    }
+  }
+
+  // Anything left is part of a cycle — append in comparator order
+  return [...result, ...tasks.filter((t) => !placed.has(t.id)).sort(compare)];
+}
+
+/**
+ * Compute the critical path through the incomplete tasks of a list: the chain of
+ * dependent tasks with the largest total `effortHours`. Each step is projected onto
+ * the calendar from `now` at 6 productive hours per day and flagged as at risk when
+ * the projection lands after its `dueDate`. Returns null if there is no incomplete work.
+ */
+export function computeCriticalPath<T extends DependencyTask>(tasks: T[], now: Date): CriticalPath<T> | null {
+  const open = tasks.filter((t) => t.status !== 'COMPLETE');
+  if (open.length === 0) return null;
+
+  const byId = new Map(open.map((t) => [t.id, t]));
+  const ordered = sortByDependencies(open);
+  const finish = new Map<string, number>();
+  const previous = new Map<string, string | null>();
+
+  for (const task of ordered) {
+    let start = 0;
+    let prev: string | null = null;
+    for (const id of blockerIds(task)) {
+      const blockerFinish = byId.has(id) ? finish.get(id) : undefined;
+      if (blockerFinish !== undefined && blockerFinish >= start) {
+        start = blockerFinish;
+        prev = id;
+      }
+    }
+    finish.set(task.id, start + (task.effortHours ?? 0));
+    previous.set(task.id, prev);
+  }
+
+  // Pick the task that finishes last; break ties by earliest due date
+  let endId = ordered[0].id;
+  for (const task of ordered) {
+    const current = finish.get(task.id)!;
+    const best = finish.get(endId)!;
+    if (current > best) {
+      endId = task.id;
+    } else if (current === best && task.dueDate && (!byId.get(endId)!.dueDate || task.dueDate < byId.get(endId)!.dueDate!)) {
+      endId = task.id;
+    }
+  }
+
+  const chain: T[] = [];
+  const seen = new Set<string>();
+  for (let id: string | null = endId; id && !seen.has(id); id = previous.get(id) ?? null) {
+    seen.add(id);
+    chain.unshift(byId.get(id)!);
+  }
+
+  const project = (hours: number) =>
+    new Date(now.getTime() + Math.ceil(hours / PRODUCTIVE_HOURS_PER_DAY) * 24 * 60 * 60 * 1000);
+
+  const steps = chain.map((task) => {
+    const finishHours = finish.get(task.id)!;
+    const projectedFinish = project(finishHours);
+    return {
+      task,
+      startHours: finishHours - (task.effortHours ?? 0),
+      finishHours,
+      projectedFinish,
+      atRisk: !!task.dueDate && new Date(task.dueDate) < projectedFinish,
+    };
+  });
+
+  const totalHours = finish.get(endId)!;
+  return { steps, totalHours, projectedFinish: project(totalHours) };
+}
@@ -0,0 +1,116 @@
+// --- Task hierarchy helpers ---
+
+export interface TreeTask {
+  id: string;
+  parentId?: string | null;
+  status?: string | null;
+  effortHours?: number | null;
+}
+
+export interface TaskTreeNode<T extends TreeTask> {
+  task: T;
+  children: TaskTreeNode<T>[];
+  depth: number;
+}
+
+export interface TaskRollup {
+  childCount: number;
+  completedCount: number;
+  percentComplete: number;
+  effortHours: number;
+}
+
+/**
+ * Build a forest from a flat list of tasks using `parentId`.
+ * Tasks whose parent is not in the list (filtered out, or in another page)
+ * are treated as roots so nothing disappears from view.
+ * Input order is preserved among siblings.
+ */
+export function buildTaskTree<T extends TreeTask>(tasks: T[]): TaskTreeNode<T>[] {
+  const ids = new Set(tasks.map((t) => t.id));
+  const childrenByParent = new Map<string, T[]>();
+  const roots: T[] = [];
+
+  for (const task of tasks) {
+    if (task.parentId && task.parentId !== task.id && ids.has(task.parentId)) {
+      const siblings = childrenByParent.get(task.parentId) ?? [];
+      siblings.push(task);
+      childrenByParent.set(task.parentId, siblings);
+    } else {
+      roots.push(task);
+    }
+  }
+
+  // Guard against parentId cycles in stored data
+  const visited = new Set<string>();
+  const toNode = (task: T, depth: number): TaskTreeNode<T> => {
+    visited.add(task.id);
+    const children = (childrenByParent.get(task.id) ?? [])
+      .filter((child) => !visited.has(child.id))
+      .map((child) => toNode(child, depth + 1));
+    return { task, children, depth };
+  };
+
+  const forest = roots.map((task) => toNode(task, 0));
+
+  // Tasks only reachable through a cycle are surfaced as roots
+  for (const task of tasks) {
+    if (!visited.has(task.id)) {
+      forest.push(toNode(task, 0));
+    }
+  }
+
+  return forest;
+}
+
+/**
+ * Roll up progress and effort for a node.
+ * Progress is the percentage of direct children that are COMPLETE.
+ * Effort is the sum of the children's rolled-up effort; leaves use their own `effortHours`.
+ */
+export function computeRollup<T extends TreeTask>(node: TaskTreeNode<T>): TaskRollup {
+  if (node.children.length === 0) {
+    return {
+      childCount: 0,
+      completedCount: 0,
+      percentComplete: node.task.status === 'COMPLETE' ? 100 : 0,
+      effortHours: node.task.effortHours ?? 0,
+    };
+  }
+
+  let completedCount = 0;
+  let effortHours = 0;
+  for (const child of node.children) {
+    if (child.task.status === 'COMPLETE') completedCount++;
+    effortHours += computeRollup(child).effortHours;
+  }
+
+  return {
+    childCount: node.children.length,
+    completedCount,
+    percentComplete: Math.round((completedCount / node.children.length) * 100),
+    effortHours,
+  };
+}
+
+/**
+ * Collect the ids of every descendant of `rootId` (not including the root).
+ */
+export function collectDescendantIds<T extends TreeTask>(tasks: T[], rootId: string): string[] {
+  const result: string[] = [];
+  const queue = [rootId];
+  const seen = new Set<string>([rootId]);
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const task of tasks) {
+      if (task.parentId === current && !seen.has(task.id)) {
+        seen.add(task.id);
+        result.push(task.id);
+        queue.push(task.id);
+      }
+    }
+  }
+
+  return result;
+}
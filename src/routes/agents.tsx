@@ -0,0 +1,337 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { useEffect, useState } from 'react'
+import { useAuthContext } from '@/lib/auth-context'
+import { useUserTimezone } from '@/hooks/use-settings'
+import {
+  useAgentJobs,
+  useAgentUsage,
+  useCancelAgentJob,
+  useRerunAgentJob,
+  type AgentJob,
+  type AgentUsage,
+} from '@/hooks/use-agent-jobs'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ArrowLeft, Ban, ChevronDown, ChevronRight, History, Loader2, RotateCcw } from 'lucide-react'
+import { AuthGuard } from '@/components/auth-guard'
+import { AgentResultView } from '@/components/ai/AgentResultView'
+import { JobProgressTimeline } from '@/components/ai/JobProgressTimeline'
+import { AgentTracePanel } from '@/components/ai/AgentTracePanel'
+import { parseJobProgress } from '@/lib/job-progress'
+import { parseProposedActions } from '@/lib/ai-response-parser'
+import {
+  JOB_RETENTION_DAYS,
+  agentErrorMessage,
+  canRerunJob,
+  formatCostUsd,
+  formatDuration,
+  formatTokenCount,
+  isJobActive,
+  jobDurationMs,
+  jobTitle,
+  parseJobJson,
+  parseJobRequest,
+} from '@/lib/agent-jobs'
+import { agentModelLabel } from '../../amplify/functions/shared/agent-models'
+import { parseAgentTrace } from '../../amplify/functions/shared/agent-trace'
+import { AGENT_QUOTAS } from '../../amplify/functions/shared/agent-quotas'
+
+export const Route = createFileRoute('/agents')({
+  component: () => (
+    <AuthGuard>
+      <AgentsPage />
+    </AuthGuard>
+  ),
+})
+
+const STATUS_BADGES: Record<string, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  PENDING: { label: 'Queued', variant: 'outline' },
+  PROCESSING: { label: 'Running', variant: 'default' },
+  COMPLETE: { label: 'Complete', variant: 'secondary' },
+  FAILED: { label: 'Failed', variant: 'destructive' },
+  CANCELLED: { label: 'Cancelled', variant: 'outline' },
+}
+
+// The request as the user made it; jobs that applied a dry run list the changes they applied
+function RequestView({ request }: { request: Record<string, unknown> }) {
+  if (request.actions !== undefined) {
+    const actions = parseProposedActions(parseJobJson(request.actions))
+    return (
+      <ul className="list-disc pl-5 text-sm space-y-1">
+        {actions.map((action) => (
+          <li key={action.id}>{action.summary}</li>
+        ))}
+      </ul>
+    )
+  }
+
+  const fields = Object.fromEntries(Object.entries(request).filter(([key]) => key !== 'dryRun'))
+  return <AgentResultView value={fields} />
+}
+
+// What the job returned: the agent's answer plus any changes it proposed or applied
+function ResultView({ result }: { result: unknown }) {
+  const data =
+    result && typeof result === 'object' && 'data' in result ? (result as { data: unknown }).data : result
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return <AgentResultView value={data} />
+  }
+
+  const { actions, results, ...rest } = data as Record<string, unknown>
+  const proposed = parseProposedActions(actions)
+  const applied = Array.isArray(results) ? results : []
+
+  return (
+    <div className="space-y-3">
+      {Object.keys(rest).length > 0 && <AgentResultView value={rest} />}
+      {proposed.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">Proposed changes</p>
+          <ul className="list-disc pl-5 text-sm space-y-1">
+            {proposed.map((action) => (
+              <li key={action.id}>{action.summary}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {applied.length > 0 && (
+        <p className="text-sm">
+          Applied {applied.filter((entry) => entry && (entry as { success?: unknown }).success === true).length} of{' '}
+          {applied.length} changes
+        </p>
+      )}
+    </div>
+  )
+}
+
+interface JobCardProps {
+  job: AgentJob
+  now: Date
+  onCancel: (job: AgentJob) => void
+  onRerun: (job: AgentJob, request: Record<string, unknown>) => void
+  isRerunning: boolean
+}
+
+function JobCard({ job, now, onCancel, onRerun, isRerunning }: JobCardProps) {
+  const active = isJobActive(job.status)
+  const [expanded, setExpanded] = useState(active)
+  const request = parseJobRequest(job.requestData)
+  const badge = STATUS_BADGES[job.status ?? 'PENDING'] ?? STATUS_BADGES.PENDING
+  const duration = jobDurationMs(job, now)
+  const progress = parseJobProgress(job.progress)
+  const timeZone = useUserTimezone()
+  const trace = parseAgentTrace(job.trace)
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setExpanded(!expanded)}
+            className="flex items-center gap-2 text-left"
+            aria-expanded={expanded}
+          >
+            {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            <CardTitle className="text-base">{jobTitle(job.queryType, request)}</CardTitle>
+          </button>
+          <Badge variant={badge.variant}>{badge.label}</Badge>
+          <div className="ml-auto flex items-center gap-2">
+            {active && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onCancel(job)}
+                disabled={!!job.cancelRequested}
+              >
+                {job.cancelRequested ? <Loader2 className="h-4 w-4 animate-spin" /> : <Ban className="h-4 w-4" />}
+                {job.cancelRequested ? 'Cancelling...' : 'Cancel'}
+              </Button>
+            )}
+            {!active && canRerunJob(request) && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => request && onRerun(job, request)}
+                disabled={isRerunning}
+              >
+                <RotateCcw className="h-4 w-4" />
+                Re-run
+              </Button>
+            )}
+          </div>
+        </div>
+        <CardDescription className="flex flex-wrap gap-x-4">
+          {job.createdAt && <span>{new Date(job.createdAt).toLocaleString(undefined, { timeZone })}</span>}
+          {duration !== null && (
+            <span>
+              {active ? 'Running for' : 'Took'} {formatDuration(duration)}
+            </span>
+          )}
+          {job.modelId && <span>{agentModelLabel(job.modelId)}</span>}
+          {job.inputTokens != null && job.outputTokens != null && (
+            <span title={`${job.inputTokens} in, ${job.outputTokens} out`}>
+              {formatTokenCount(job.inputTokens + job.outputTokens)} tokens
+            </span>
+          )}
+        </CardDescription>
+      </CardHeader>
+
+      {expanded && (
+        <CardContent className="space-y-4">
+          {request && (
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Request</p>
+              <RequestView request={request} />
+            </div>
+          )}
+
+          {job.status === 'COMPLETE' && job.resultData && (
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Result</p>
+              <ResultView result={parseJobJson(job.resultData)} />
+            </div>
+          )}
+
+          {job.status === 'FAILED' && job.error && (
+            <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{agentErrorMessage(job.error)}</div>
+          )}
+
+          {(active || progress.length > 0) && (
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Progress</p>
+              <JobProgressTimeline steps={progress} />
+            </div>
+          )}
+
+          <AgentTracePanel trace={trace} />
+        </CardContent>
+      )}
+    </Card>
+  )
+}
+
+// This month's totals across all the user's requests
+function UsageSummary({ usage }: { usage: AgentUsage }) {
+  const stats = [
+    { label: 'Requests', value: String(usage.requests ?? 0) },
+    {
+      label: 'Tokens',
+      value: `${formatTokenCount((usage.inputTokens ?? 0) + (usage.outputTokens ?? 0))} of ${formatTokenCount(AGENT_QUOTAS.user.monthlyTokens)}`,
+    },
+    { label: 'Tool calls', value: String(usage.toolCalls ?? 0) },
+    { label: 'Estimated cost', value: formatCostUsd(usage.costUsd ?? 0) },
+  ]
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">This month</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <dl className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+          {stats.map((stat) => (
+            <div key={stat.label}>
+              <dt className="text-xs text-muted-foreground">{stat.label}</dt>
+              <dd className="text-lg font-semibold">{stat.value}</dd>
+            </div>
+          ))}
+        </dl>
+      </CardContent>
+    </Card>
+  )
+}
+
+function AgentsPage() {
+  const { user, userId, logout } = useAuthContext()
+  const { data: jobs = [], isLoading, error } = useAgentJobs(userId)
+  const { data: usage } = useAgentUsage(userId)
+  const cancelJob = useCancelAgentJob()
+  const rerunJob = useRerunAgentJob()
+  const [now, setNow] = useState(() => new Date())
+
+  // Tick while anything is running so its duration counts up
+  const hasActiveJobs = jobs.some((job) => isJobActive(job.status))
+  useEffect(() => {
+    if (!hasActiveJobs) return
+    const interval = setInterval(() => setNow(new Date()), 1000)
+    return () => clearInterval(interval)
+  }, [hasActiveJobs])
+
+  const handleCancel = (job: AgentJob) => {
+    cancelJob.mutate({ id: job.id, owner: userId })
+  }
+
+  const handleRerun = (job: AgentJob, request: Record<string, unknown>) => {
+    rerunJob.mutate({ queryType: job.queryType, requestData: request, owner: userId })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-muted-foreground">Loading...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex justify-between items-center">
+          <div className="flex items-center gap-2 md:gap-4">
+            <Link to="/dashboard">
+              <Button variant="ghost" size="icon-sm">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <h1 className="text-xl md:text-2xl font-bold">Agent History</h1>
+          </div>
+          <div className="flex items-center gap-2 md:gap-4">
+            <span className="text-xs md:text-sm text-muted-foreground hidden sm:inline truncate max-w-[150px] md:max-w-none">
+              {user?.signInDetails?.loginId}
+            </span>
+            <Button variant="outline" size="sm" onClick={logout} className="text-xs md:text-sm">
+              Sign out
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Requests you have made to the assistant. Finished jobs are kept for {JOB_RETENTION_DAYS} days.
+        </p>
+
+        {usage && <UsageSummary usage={usage} />}
+
+        {(error || cancelJob.error || rerunJob.error) && (
+          <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+            {agentErrorMessage((error ?? cancelJob.error ?? rerunJob.error)?.message)}
+          </div>
+        )}
+
+        {jobs.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 flex flex-col items-center gap-2 text-muted-foreground">
+              <History className="h-8 w-8" />
+              <p className="text-sm">No agent requests yet</p>
+            </CardContent>
+          </Card>
+        ) : (
+          jobs.map((job) => (
+            <JobCard
+              key={job.id}
+              job={job}
+              now={now}
+              onCancel={handleCancel}
+              onRerun={handleRerun}
+              isRerunning={rerunJob.isPending}
+            />
+          ))
+        )}
+      </main>
+    </div>
+  )
+}
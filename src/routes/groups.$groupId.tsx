@@ -7,6 +7,7 @@ import {
   useRevokeMember,
   useLeaveGroup,
   useGroupInvitations,
+  useSetMemberRole,
 } from '@/hooks/use-groups'
 import { useLists, useUpdateList } from '@/hooks/use-lists'
 import { InviteMemberDialog, MemberList } from '@/components/group'
@@ -15,6 +16,15 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { ArrowLeft, Trash2, Share2, X, LogOut } from 'lucide-react'
 import { AuthGuard } from '@/components/auth-guard'
+import {
+  DEFAULT_MEMBER_ROLE,
+  ROLE_LABELS,
+  groupRole,
+  hasPermission,
+  isMemberRole,
+  memberRole,
+  type MemberRole,
+} from '@/lib/group-roles'
 
 export const Route = createFileRoute('/groups/$groupId')({
   component: () => (
@@ -37,11 +47,13 @@ function GroupDetailPage() {
   const inviteMember = useInviteMember()
   const revokeMember = useRevokeMember()
   const leaveGroup = useLeaveGroup()
+  const setMemberRole = useSetMemberRole()
   const updateList = useUpdateList()
 
-  const isOwner = group?.owner === userId
-  const isMember = group?.memberIds?.includes(userId) ?? false
-  const hasAccess = isOwner || isMember
+  // Roles are enforced by the group-access function; the page only hides what the role cannot do
+  const role = groupRole(group, userId)
+  const isOwner = role === 'OWNER'
+  const canManage = hasPermission(role, 'manage')
 
   // Filter lists that are shared with this group
   const sharedLists = userLists.filter((list) => list.groupId === groupId)
@@ -70,7 +82,7 @@ function GroupDetailPage() {
   }
 
   // Check if user has access to this group
-  if (!hasAccess) {
+  if (!role) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
@@ -100,22 +112,28 @@ function GroupDetailPage() {
     }
   }
 
-  const handleInviteMember = (email: string) => {
+  const handleInviteMember = (email: string, memberRole: MemberRole) => {
     inviteMember.mutate({
       groupId,
       groupName: group.name,
       invitedEmail: email,
       invitedBy: userId,
       status: 'PENDING',
+      role: memberRole,
     })
   }
 
+  const handleRoleChange = (memberId: string, memberRole: MemberRole) => {
+    setMemberRole.mutate({ groupId, memberId, role: memberRole })
+  }
+
+  const getMemberRole = (memberId: string) => memberRole(group, memberId)
+
   const handleRevokeMember = (memberId: string) => {
     if (confirm('Are you sure you want to remove this member from the group?')) {
       revokeMember.mutate({
         groupId,
         memberId,
-        currentUserId: userId,
       })
     }
   }
@@ -164,15 +182,13 @@ function GroupDetailPage() {
             </Link>
             <div className="flex items-center gap-2 min-w-0">
               <h1 className="text-xl md:text-2xl font-bold truncate">{group.name}</h1>
-              {isOwner ? (
-                <Badge variant="default" className="shrink-0">Owner</Badge>
-              ) : (
-                <Badge variant="secondary" className="shrink-0">Member</Badge>
-              )}
+              <Badge variant={isOwner ? 'default' : 'secondary'} className="shrink-0">
+                {ROLE_LABELS[role]}
+              </Badge>
             </div>
           </div>
           <div className="flex items-center gap-2 md:gap-4 shrink-0">
-            {isOwner && (
+            {canManage && (
               <Button
                 variant="ghost"
                 size="icon-sm"
@@ -182,7 +198,7 @@ function GroupDetailPage() {
                 <Trash2 className="h-4 w-4 text-destructive" />
               </Button>
             )}
-            {!isOwner && isMember && (
+            {!isOwner && (
               <Button
                 variant="ghost"
                 size="sm"
@@ -227,11 +243,17 @@ function GroupDetailPage() {
           </div>
         )}
 
+        {setMemberRole.isError && (
+          <div className="p-4 rounded-lg bg-destructive/10 text-destructive">
+            <p>Error changing role: {setMemberRole.error.message}</p>
+          </div>
+        )}
+
         {/* Members Section */}
         <Card>
           <CardHeader className="flex flex-row items-center justify-between">
             <CardTitle>Members</CardTitle>
-            {isOwner && (
+            {canManage && (
               <InviteMemberDialog
                 groupName={group.name}
                 onInvite={handleInviteMember}
@@ -243,17 +265,19 @@ function GroupDetailPage() {
             <MemberList
               memberIds={(group.memberIds ?? []).filter((id): id is string => id !== null)}
               memberEmails={(group.memberEmails ?? []).filter((e): e is string => e !== null)}
+              getMemberRole={getMemberRole}
+              onRoleChange={handleRoleChange}
               ownerEmail={group.ownerEmail ?? undefined}
               ownerId={group.owner ?? ''}
               currentUserId={userId}
               onRevoke={handleRevokeMember}
-              isLoading={revokeMember.isPending}
+              isLoading={revokeMember.isPending || setMemberRole.isPending}
             />
           </CardContent>
         </Card>
 
         {/* Pending Invitations */}
-        {isOwner && pendingInvitations.length > 0 && (
+        {canManage && pendingInvitations.length > 0 && (
           <Card>
             <CardHeader>
               <CardTitle>Pending Invitations</CardTitle>
@@ -267,9 +291,14 @@ function GroupDetailPage() {
                   >
                     <div>
                       <p className="text-sm font-medium">{invitation.invitedEmail}</p>
-                      <Badge variant="outline" className="text-xs">
-                        Pending
-                      </Badge>
+                      <div className="flex items-center gap-1">
+                        <Badge variant="outline" className="text-xs">
+                          Pending
+                        </Badge>
+                        <Badge variant="secondary" className="text-xs">
+                          {ROLE_LABELS[isMemberRole(invitation.role) ? invitation.role : DEFAULT_MEMBER_ROLE]}
+                        </Badge>
+                      </div>
                     </div>
                   </div>
                 ))}
@@ -279,7 +308,7 @@ function GroupDetailPage() {
         )}
 
         {/* Shared Lists Section */}
-        {isOwner && (
+        {canManage && (
           <Card>
             <CardHeader>
               <CardTitle>Shared Lists</CardTitle>
@@ -67,8 +67,8 @@ function GroupsPage() {
     }
   }
 
-  const handleAcceptInvitation = (invitationId: string, groupId: string) => {
-    acceptInvitation.mutate({ invitationId, groupId, userId, userEmail })
+  const handleAcceptInvitation = (invitationId: string) => {
+    acceptInvitation.mutate({ invitationId })
   }
 
   const handleDeclineInvitation = (invitationId: string) => {
@@ -3,6 +3,12 @@ import { useState } from 'react'
 import { useAuthContext } from '@/lib/auth-context'
 import { useList, useDeleteList } from '@/hooks/use-lists'
 import { useTodos, useCreateTodo, useUpdateTodo, useDeleteTodo } from '@/hooks/use-todos'
+import { useUserSettings, useUserTimezone } from '@/hooks/use-settings'
+import { useGroup } from '@/hooks/use-groups'
+import { reminderOffsetsFromSettings, toReminders } from '@/lib/reminders'
+import { zonedTimeToUtc } from '../../amplify/functions/shared/timezones'
+import { groupAssigneeOptions, type AssigneeOption } from '@/lib/assignees'
+import { canOnList, groupRole } from '@/lib/group-roles'
 import { TodoList, AddTodoForm } from '@/components/todo'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -28,7 +34,20 @@ function ListDetailPage() {
   const [showAddForm, setShowAddForm] = useState(false)
   
   const { data: list, isLoading: listLoading, error: listError } = useList(listId)
-  const { data: todos = [], isLoading: todosLoading, error: todosError } = useTodos(listId)
+  const {
+    data: todos = [],
+    isLoading: todosLoading,
+    error: todosError,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useTodos(listId)
+  const { data: settings } = useUserSettings(userId)
+  const timeZone = useUserTimezone()
+  const defaultReminderOffsets = reminderOffsetsFromSettings(settings)
+  // Tasks in shared lists can be assigned to the group's members
+  const { data: group } = useGroup(list?.groupId ?? '')
+  const assigneeOptions = groupAssigneeOptions(group)
   
   const deleteList = useDeleteList()
   const createTodo = useCreateTodo()
@@ -58,14 +77,23 @@ function ListDetailPage() {
     )
   }
 
-  const handleAddTodo = (title: string, description?: string, tags?: string[], dueDate?: string, reminderMinutes?: number, priority?: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT') => {
+  // In a shared list, the user's group role decides what they may change
+  const isListOwner = list.owner === userId
+  const role = list.groupId ? (isListOwner ? 'OWNER' : groupRole(group, userId)) : null
+  const canEdit = canOnList(list, group, userId, 'edit')
+
+  const handleAddTodo = (title: string, description?: string, tags?: string[], dueDate?: string, reminderOffsets?: number[], priority?: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT', recurrenceRule?: string, assignee?: AssigneeOption) => {
     createTodo.mutate({
       title,
       description,
       tags,
-      dueDate: dueDate ? new Date(dueDate).toISOString() : undefined,
-      reminderMinutes,
+      // The form's date-time is wall-clock time in the user's timezone
+      dueDate: dueDate ? zonedTimeToUtc(dueDate, timeZone)?.toISOString() : undefined,
+      reminders: reminderOffsets ? toReminders(reminderOffsets) : undefined,
       priority,
+      recurrenceRule,
+      assigneeId: assignee?.id,
+      assigneeEmail: assignee?.email,
       listId,
       status: 'PENDING',
     }, {
@@ -73,6 +101,23 @@ function ListDetailPage() {
     })
   }
 
+  const handleAddSubtask = (parentId: string, title: string) => {
+    createTodo.mutate({
+      title,
+      listId,
+      parentId,
+      status: 'PENDING',
+    })
+  }
+
+  const handleBlockedByChange = (id: string, blockedBy: string[]) => {
+    updateTodo.mutate({ id, blockedBy })
+  }
+
+  const handleAssigneeChange = (id: string, assignee: AssigneeOption | null) => {
+    updateTodo.mutate({ id, assigneeId: assignee?.id ?? null, assigneeEmail: assignee?.email ?? null })
+  }
+
   const handleToggleComplete = (id: string, currentStatus: string) => {
     const newStatus = currentStatus === 'COMPLETE' ? 'PENDING' : 'COMPLETE'
     updateTodo.mutate({
@@ -125,14 +170,16 @@ function ListDetailPage() {
             <h1 className="text-xl md:text-2xl font-bold truncate">{list.name}</h1>
           </div>
           <div className="flex items-center gap-2 md:gap-4 shrink-0">
-            <Button 
-              variant="ghost" 
-              size="icon-sm" 
-              onClick={handleDeleteList}
-              aria-label="Delete list"
-            >
-              <Trash2 className="h-4 w-4 text-destructive" />
-            </Button>
+            {isListOwner && (
+              <Button 
+                variant="ghost" 
+                size="icon-sm" 
+                onClick={handleDeleteList}
+                aria-label="Delete list"
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            )}
             <span className="text-xs md:text-sm text-muted-foreground hidden sm:inline truncate max-w-[100px] md:max-w-none">
               {user?.signInDetails?.loginId}
             </span>
@@ -152,10 +199,18 @@ function ListDetailPage() {
             )}
           </CardHeader>
           <CardContent className="space-y-6">
-            {showAddForm ? (
-              <AddTodoForm 
-                onAdd={handleAddTodo} 
-                isLoading={createTodo.isPending} 
+            {!canEdit ? (
+              <p className="text-sm text-muted-foreground">
+                Your role in this group lets you view these todos but not add them
+              </p>
+            ) : showAddForm ? (
+              <AddTodoForm
+                key={settings?.id ?? 'default'}
+                onAdd={handleAddTodo}
+                isLoading={createTodo.isPending}
+                defaultReminderOffsets={defaultReminderOffsets}
+                assigneeOptions={assigneeOptions}
+                currentUserId={userId}
               />
             ) : (
               <Button 
@@ -193,7 +248,17 @@ function ListDetailPage() {
               onToggleComplete={handleToggleComplete}
               onDelete={handleDeleteTodo}
               onStatusChange={handleStatusChange}
+              onAddSubtask={handleAddSubtask}
+              onBlockedByChange={handleBlockedByChange}
+              getAssigneeOptions={() => assigneeOptions}
+              onAssigneeChange={handleAssigneeChange}
+              getListRole={() => role}
+              canDeleteTodos={canEdit}
               isLoading={todosLoading}
+              hasMore={hasNextPage}
+              onLoadMore={() => fetchNextPage()}
+              isLoadingMore={isFetchingNextPage}
+              currentUserId={userId}
               highlightTaskId={highlightTask}
             />
           </CardContent>
@@ -0,0 +1,202 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { useState } from 'react'
+import { useAuthContext } from '@/lib/auth-context'
+import { useMemberGroups, useOwnedGroups } from '@/hooks/use-groups'
+import {
+  useCreatePlaybook,
+  useDeletePlaybook,
+  usePlaybooks,
+  useUpdatePlaybook,
+  type Playbook,
+  type SavePlaybookInput,
+} from '@/hooks/use-playbooks'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ArrowLeft, BookOpen, Pencil, Play, Plus, Trash2 } from 'lucide-react'
+import { AuthGuard } from '@/components/auth-guard'
+import { PlaybookEditorDialog, PlaybookRunDialog } from '@/components/playbook'
+import { parsePlaybook } from '../../amplify/functions/shared/playbooks'
+
+export const Route = createFileRoute('/playbooks')({
+  component: () => (
+    <AuthGuard>
+      <PlaybooksPage />
+    </AuthGuard>
+  ),
+})
+
+interface PlaybookCardProps {
+  playbook: Playbook
+  groupName: string | null
+  canEdit: boolean
+  onRun: (playbook: Playbook) => void
+  onEdit: (playbook: Playbook) => void
+  onDelete: (playbook: Playbook) => void
+}
+
+function PlaybookCard({ playbook, groupName, canEdit, onRun, onEdit, onDelete }: PlaybookCardProps) {
+  const parsed = parsePlaybook(playbook.content)
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <CardTitle className="text-base">{playbook.name}</CardTitle>
+          {groupName && <Badge variant="secondary">{groupName}</Badge>}
+          <div className="ml-auto flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => onRun(playbook)} disabled={!parsed.success}>
+              <Play className="h-4 w-4" />
+              Run
+            </Button>
+            {canEdit && (
+              <>
+                <Button variant="ghost" size="icon-sm" onClick={() => onEdit(playbook)} aria-label={`Edit ${playbook.name}`}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon-sm" onClick={() => onDelete(playbook)} aria-label={`Delete ${playbook.name}`}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+        {playbook.description && <CardDescription>{playbook.description}</CardDescription>}
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-1">
+        {parsed.success ? (
+          parsed.data.tools.map((tool) => (
+            <Badge key={tool} variant="outline" className="font-mono text-xs">
+              {tool}
+            </Badge>
+          ))
+        ) : (
+          <p className="text-sm text-destructive">This playbook is invalid and will not run: {parsed.errors[0]}</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function PlaybooksPage() {
+  const { user, userId, logout } = useAuthContext()
+  const { data: ownedGroups = [] } = useOwnedGroups(userId)
+  const { data: memberGroups = [] } = useMemberGroups(userId)
+  const groups = [...ownedGroups, ...memberGroups]
+  const { data: playbooks = [], isLoading, error } = usePlaybooks(
+    userId,
+    groups.map((group) => group.id)
+  )
+  const createPlaybook = useCreatePlaybook()
+  const updatePlaybook = useUpdatePlaybook()
+  const deletePlaybook = useDeletePlaybook()
+
+  // The editor is open for a new playbook (null) or an existing one
+  const [editing, setEditing] = useState<Playbook | null | undefined>(undefined)
+  const [running, setRunning] = useState<Playbook | null>(null)
+
+  const groupNames = new Map(groups.map((group) => [group.id, group.name]))
+
+  const handleSave = (input: SavePlaybookInput) =>
+    editing ? updatePlaybook.mutateAsync({ id: editing.id, ...input }) : createPlaybook.mutateAsync(input)
+
+  const handleDelete = (playbook: Playbook) => {
+    if (confirm(`Are you sure you want to delete the ${playbook.name} playbook?`)) {
+      deletePlaybook.mutate(playbook.id)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-muted-foreground">Loading...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex justify-between items-center">
+          <div className="flex items-center gap-2 md:gap-4">
+            <Link to="/dashboard">
+              <Button variant="ghost" size="icon-sm">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <h1 className="text-xl md:text-2xl font-bold">Playbooks</h1>
+          </div>
+          <div className="flex items-center gap-2 md:gap-4">
+            <span className="text-xs md:text-sm text-muted-foreground hidden sm:inline truncate max-w-[150px] md:max-w-none">
+              {user?.signInDetails?.loginId}
+            </span>
+            <Button variant="outline" size="sm" onClick={logout} className="text-xs md:text-sm">
+              Sign out
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            Procedures the assistant can run for you. Playbooks shared with a group can be run by its members.
+          </p>
+          <Button size="sm" onClick={() => setEditing(null)}>
+            <Plus className="h-4 w-4" />
+            New playbook
+          </Button>
+        </div>
+
+        {(error || deletePlaybook.error) && (
+          <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+            {(error ?? deletePlaybook.error)?.message}
+          </div>
+        )}
+
+        {playbooks.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 flex flex-col items-center gap-2 text-muted-foreground">
+              <BookOpen className="h-8 w-8" />
+              <p className="text-sm">No playbooks yet</p>
+            </CardContent>
+          </Card>
+        ) : (
+          playbooks.map((playbook) => (
+            <PlaybookCard
+              key={playbook.id}
+              playbook={playbook}
+              groupName={playbook.groupId ? groupNames.get(playbook.groupId) ?? null : null}
+              canEdit={playbook.owner === userId}
+              onRun={setRunning}
+              onEdit={setEditing}
+              onDelete={handleDelete}
+            />
+          ))
+        )}
+      </main>
+
+      {editing !== undefined && (
+        <PlaybookEditorDialog
+          key={editing?.id ?? 'new'}
+          open
+          onOpenChange={(open) => !open && setEditing(undefined)}
+          playbook={editing}
+          groups={groups}
+          onSave={handleSave}
+          isSaving={createPlaybook.isPending || updatePlaybook.isPending}
+        />
+      )}
+
+      {running && (
+        <PlaybookRunDialog
+          key={running.id}
+          open
+          onOpenChange={(open) => !open && setRunning(null)}
+          title={running.name}
+          target={{ playbookId: running.id }}
+        />
+      )}
+    </div>
+  )
+}
@@ -13,8 +13,17 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { ArrowLeft, Bell, Check } from 'lucide-react'
+import { ArrowLeft, Bell, Check, Sparkles } from 'lucide-react'
 import { AuthGuard } from '@/components/auth-guard'
+import { ReminderOffsetPicker } from '@/components/todo'
+import { reminderOffsetsFromSettings } from '@/lib/reminders'
+import {
+  AGENT_MODEL_TIERS,
+  AGENT_MODELS,
+  isAgentModelTier,
+  type AgentModelTier,
+} from '../../amplify/functions/shared/agent-models'
+import { DEFAULT_TIMEZONE, resolveTimezone } from '../../amplify/functions/shared/timezones'
 
 export const Route = createFileRoute('/settings')({
   component: () => (
@@ -24,16 +33,6 @@ export const Route = createFileRoute('/settings')({
   ),
 })
 
-const REMINDER_OPTIONS = [
-  { value: '15', label: '15 minutes before' },
-  { value: '30', label: '30 minutes before' },
-  { value: '60', label: '1 hour before' },
-  { value: '120', label: '2 hours before' },
-  { value: '1440', label: '1 day before' },
-  { value: '2880', label: '2 days before' },
-  { value: '10080', label: '1 week before' },
-]
-
 const TIMEZONE_OPTIONS = [
   { value: 'UTC', label: 'UTC' },
   { value: 'America/New_York', label: 'Eastern Time (ET)' },
@@ -42,9 +41,26 @@ const TIMEZONE_OPTIONS = [
   { value: 'America/Los_Angeles', label: 'Pacific Time (PT)' },
   { value: 'Europe/London', label: 'London (GMT)' },
   { value: 'Europe/Paris', label: 'Paris (CET)' },
+  { value: 'Asia/Kolkata', label: 'India (IST)' },
   { value: 'Asia/Tokyo', label: 'Tokyo (JST)' },
+  { value: 'Australia/Sydney', label: 'Sydney (AET)' },
+  { value: 'Pacific/Auckland', label: 'Auckland (NZT)' },
 ]
 
+// Before the user has saved settings, suggest the browser's timezone
+function browserTimezone() {
+  return resolveTimezone(Intl.DateTimeFormat().resolvedOptions().timeZone)
+}
+
+// No override: each request uses the model its agent is configured for
+const AUTOMATIC_MODEL = 'automatic'
+
+const MODEL_TIER_LABELS: Record<AgentModelTier, string> = {
+  fast: 'Fast',
+  standard: 'Standard',
+  large: 'Large',
+}
+
 function SettingsPage() {
   const { user, userId, logout } = useAuthContext()
   const { data: settings, isLoading } = useUserSettings(userId)
@@ -52,11 +68,13 @@ function SettingsPage() {
   const updateSettings = useUpdateSettings()
 
   // Initialize state from settings data
-  const initialReminderMinutes = settings?.defaultReminderMinutes ?? 1440
-  const initialTimezone = settings?.timezone ?? 'UTC'
-  
-  const [defaultReminderMinutes, setDefaultReminderMinutes] = useState(() => String(initialReminderMinutes))
+  const initialReminderOffsets = reminderOffsetsFromSettings(settings)
+  const initialTimezone = settings ? resolveTimezone(settings.timezone) : browserTimezone()
+  const initialAgentModel = isAgentModelTier(settings?.agentModel) ? settings.agentModel : AUTOMATIC_MODEL
+
+  const [defaultReminderOffsets, setDefaultReminderOffsets] = useState(() => initialReminderOffsets)
   const [timezone, setTimezone] = useState(() => initialTimezone)
+  const [agentModel, setAgentModel] = useState<string>(() => initialAgentModel)
   const [notificationPermission, setNotificationPermission] = useState<NotificationPermission>(() => {
     if (typeof window !== 'undefined' && 'Notification' in window) {
       return Notification.permission
@@ -68,11 +86,17 @@ function SettingsPage() {
 
   // Sync state when settings load (only once)
   if (settings && !hasInitialized) {
-    setDefaultReminderMinutes(String(settings.defaultReminderMinutes ?? 1440))
-    setTimezone(settings.timezone ?? 'UTC')
+    setDefaultReminderOffsets(reminderOffsetsFromSettings(settings))
+    setTimezone(resolveTimezone(settings.timezone))
+    setAgentModel(isAgentModelTier(settings.agentModel) ? settings.agentModel : AUTOMATIC_MODEL)
     setHasInitialized(true)
   }
 
+  // A zone set elsewhere (or the browser's) stays selectable even when it is not in the list
+  const timezoneOptions = TIMEZONE_OPTIONS.some((option) => option.value === timezone)
+    ? TIMEZONE_OPTIONS
+    : [...TIMEZONE_OPTIONS, { value: timezone, label: timezone }]
+
   const handleRequestPermission = async () => {
     const granted = await reminderService.requestPermission()
     setNotificationPermission(granted ? 'granted' : 'denied')
@@ -80,8 +104,9 @@ function SettingsPage() {
 
   const handleSave = async () => {
     const settingsData = {
-      defaultReminderMinutes: parseInt(defaultReminderMinutes, 10),
+      defaultReminderOffsets,
       timezone,
+      agentModel: agentModel === AUTOMATIC_MODEL ? null : agentModel,
     }
 
     if (settings?.id) {
@@ -165,16 +190,25 @@ function SettingsPage() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="defaultReminder">Default Reminder Time</Label>
-              <Select
-                value={defaultReminderMinutes}
-                onValueChange={setDefaultReminderMinutes}
-              >
-                <SelectTrigger id="defaultReminder" className="w-[280px]">
-                  <SelectValue placeholder="Select default reminder time" />
+              <Label>Default Reminders</Label>
+              <ReminderOffsetPicker
+                value={defaultReminderOffsets}
+                onChange={setDefaultReminderOffsets}
+                aria-label="Default reminder times"
+              />
+              <p className="text-sm text-muted-foreground">
+                New todos with due dates get a reminder at each selected time. Leave all unselected to use 1 day before.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="timezone">Timezone</Label>
+              <Select value={timezone} onValueChange={setTimezone}>
+                <SelectTrigger id="timezone" className="w-[280px]">
+                  <SelectValue placeholder="Select timezone" />
                 </SelectTrigger>
                 <SelectContent>
-                  {REMINDER_OPTIONS.map((option) => (
+                  {timezoneOptions.map((option) => (
                     <SelectItem key={option.value} value={option.value}>
                       {option.label}
                     </SelectItem>
@@ -182,24 +216,42 @@ function SettingsPage() {
                 </SelectContent>
               </Select>
               <p className="text-sm text-muted-foreground">
-                This will be the default reminder time for new todos with due dates.
+                Due dates, reminders and the assistant use this timezone. Until you save one, {DEFAULT_TIMEZONE} is used.
               </p>
             </div>
+          </CardContent>
+        </Card>
 
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Sparkles className="h-5 w-5" />
+              Assistant
+            </CardTitle>
+            <CardDescription>
+              Choose the model the assistant answers with.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
             <div className="space-y-2">
-              <Label htmlFor="timezone">Timezone</Label>
-              <Select value={timezone} onValueChange={setTimezone}>
-                <SelectTrigger id="timezone" className="w-[280px]">
-                  <SelectValue placeholder="Select timezone" />
+              <Label htmlFor="agent-model">Model</Label>
+              <Select value={agentModel} onValueChange={setAgentModel}>
+                <SelectTrigger id="agent-model" className="w-[280px]">
+                  <SelectValue placeholder="Automatic" />
                 </SelectTrigger>
                 <SelectContent>
-                  {TIMEZONE_OPTIONS.map((option) => (
-                    <SelectItem key={option.value} value={option.value}>
-                      {option.label}
+                  <SelectItem value={AUTOMATIC_MODEL}>Automatic</SelectItem>
+                  {AGENT_MODEL_TIERS.map((tier) => (
+                    <SelectItem key={tier} value={tier}>
+                      {MODEL_TIER_LABELS[tier]} ({AGENT_MODELS[tier].label})
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
+              <p className="text-sm text-muted-foreground">
+                Automatic uses a fast model for quick tasks like analysing a task and a larger one for breaking down
+                projects. Choosing a model uses it for every request.
+              </p>
             </div>
 
             <div className="pt-4">
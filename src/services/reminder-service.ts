@@ -1,15 +1,41 @@
 import type { Schema } from '../../amplify/data/resource'
+import {
+  findDueReminder,
+  nextReminderTime,
+  SNOOZE_OPTIONS,
+  type DueReminder,
+  type ReminderTask,
+  type SnoozeOption,
+} from '@/lib/reminders'
 
 type TodoItem = Schema['TodoItem']['type']
 
+// Notification actions are only available through a service worker registration
+const SERVICE_WORKER_URL = '/reminder-sw.js'
+
+export interface ReminderAction {
+  todoId: string
+  snooze: SnoozeOption
+}
+
+// Key a delivered reminder by task and which reminder fired, so each offset notifies once
+function notifiedKey(todoId: string, due: DueReminder): string {
+  return due.kind === 'snooze' ? `${todoId}:snooze:${due.remindAt.getTime()}` : `${todoId}:${due.offsetMinutes}`
+}
+
 export class ReminderService {
   private checkInterval: ReturnType<typeof setInterval> | null = null
   private notifiedTodos: Set<string> = new Set()
+  private registration: ServiceWorkerRegistration | null = null
+  private actionListener: ((event: MessageEvent) => void) | null = null
 
   start(
     getTodos: () => Promise<TodoItem[]>,
-    onReminder: (todo: TodoItem) => void
+    onReminder: (todo: TodoItem, due: DueReminder) => void,
+    onAction?: (action: ReminderAction) => void
   ) {
+    this.registerServiceWorker(onAction)
+
     // Check every minute
     this.checkInterval = setInterval(async () => {
       try {
@@ -17,9 +43,10 @@ export class ReminderService {
         const now = new Date()
 
         for (const todo of todos) {
-          if (this.shouldNotify(todo, now)) {
-            this.notifiedTodos.add(todo.id)
-            onReminder(todo)
+          const due = this.shouldNotify(todo, now)
+          if (due) {
+            this.notifiedTodos.add(notifiedKey(todo.id, due))
+            onReminder(todo, due)
           }
         }
       } catch (error) {
@@ -33,39 +60,31 @@ export class ReminderService {
       clearInterval(this.checkInterval)
       this.checkInterval = null
     }
+    if (this.actionListener && 'serviceWorker' in navigator) {
+      navigator.serviceWorker.removeEventListener('message', this.actionListener)
+      this.actionListener = null
+    }
   }
 
   clearNotified(todoId: string) {
-    this.notifiedTodos.delete(todoId)
+    for (const key of this.notifiedTodos) {
+      if (key.startsWith(`${todoId}:`)) this.notifiedTodos.delete(key)
+    }
   }
 
-  shouldNotify(todo: TodoItem, now: Date): boolean {
-    // Don't notify if no due date
-    if (!todo.dueDate) return false
-
-    // Don't notify completed todos
-    if (todo.status === 'COMPLETE') return false
+  // Returns the reminder to deliver, or null when nothing is due
+  shouldNotify(todo: TodoItem, now: Date): DueReminder | null {
+    const due = findDueReminder(todo, now)
+    if (!due) return null
 
-    // Don't notify if already notified
-    if (this.notifiedTodos.has(todo.id)) return false
+    // Don't notify twice while the sent state is being persisted
+    if (this.notifiedTodos.has(notifiedKey(todo.id, due))) return null
 
-    // Don't notify if reminder already sent (persisted)
-    if (todo.reminderSent) return false
-
-    const dueDate = new Date(todo.dueDate)
-    const reminderMinutes = todo.reminderMinutes ?? 1440 // Default 24 hours
-    const reminderTime = new Date(dueDate.getTime() - reminderMinutes * 60000)
-
-    // Notify if current time is past reminder time but before due date
-    return now >= reminderTime && now < dueDate
+    return due
   }
 
   calculateReminderTime(todo: TodoItem): Date | null {
-    if (!todo.dueDate) return null
-
-    const dueDate = new Date(todo.dueDate)
-    const reminderMinutes = todo.reminderMinutes ?? 1440
-    return new Date(dueDate.getTime() - reminderMinutes * 60000)
+    return nextReminderTime(todo)
   }
 
   async requestPermission(): Promise<boolean> {
@@ -78,41 +97,66 @@ export class ReminderService {
     return permission === 'granted'
   }
 
-  showNotification(todo: TodoItem) {
+  // The due date is shown in the user's timezone
+  showNotification(todo: TodoItem, due?: DueReminder, timeZone?: string) {
     if (Notification.permission !== 'granted') return
 
-    const dueDate = todo.dueDate ? new Date(todo.dueDate).toLocaleString() : 'No due date'
-
-    new Notification(`Reminder: ${todo.title}`, {
+    const dueDate = todo.dueDate
+      ? new Date(todo.dueDate).toLocaleString(undefined, { timeZone, dateStyle: 'medium', timeStyle: 'short' })
+      : 'No due date'
+    const title = due?.kind === 'snooze' ? `Snoozed reminder: ${todo.title}` : `Reminder: ${todo.title}`
+    const options = {
       body: todo.description || `Due: ${dueDate}`,
       icon: '/vite.svg',
       tag: todo.id,
-    })
-  }
-}
+      data: { todoId: todo.id },
+    }
 
-export const reminderService = new ReminderService()
+    if (this.registration) {
+      // Browsers render as many actions as they support (often two); the rest are dropped
+      this.registration.showNotification(title, {
+        ...options,
+        actions: SNOOZE_OPTIONS.map((option) => ({ action: `snooze:${option.value}`, title: option.label })),
+      } as NotificationOptions)
+      return
+    }
 
-// Helper function for calculating reminder time (used in tests)
-export function calculateReminderTime(todo: { dueDate?: string | null; reminderMinutes?: number | null }): Date | null {
-  if (!todo.dueDate) return null
+    new Notification(title, options)
+  }
 
-  const dueDate = new Date(todo.dueDate)
-  const reminderMinutes = todo.reminderMinutes ?? 1440
-  return new Date(dueDate.getTime() - reminderMinutes * 60000)
+  private registerServiceWorker(onAction?: (action: ReminderAction) => void) {
+    if (!('serviceWorker' in navigator)) return
+
+    navigator.serviceWorker
+      .register(SERVICE_WORKER_URL)
+      .then((registration) => {
+        this.registration = registration
+      })
+      .catch((error) => {
+        console.warn('Reminder service worker unavailable, notifications will have no actions:', error)
+      })
+
+    if (!onAction || this.actionListener) return
+    this.actionListener = (event: MessageEvent) => {
+      const data = event.data as { type?: string; action?: string; todoId?: string } | null
+      if (data?.type !== 'reminder-action' || !data.todoId || !data.action?.startsWith('snooze:')) return
+      const snooze = data.action.slice('snooze:'.length) as SnoozeOption
+      if (SNOOZE_OPTIONS.some((option) => option.value === snooze)) {
+        onAction({ todoId: data.todoId, snooze })
+      }
+    }
+    navigator.serviceWorker.addEventListener('message', this.actionListener)
+  }
 }
 
-// Helper function for checking if reminder should fire (used in tests)
-export function shouldFireReminder(
-  todo: { dueDate?: string | null; reminderMinutes?: number | null; status?: string | null },
-  now: Date
-): boolean {
-  if (!todo.dueDate) return false
-  if (todo.status === 'COMPLETE') return false
+export const reminderService = new ReminderService()
 
-  const dueDate = new Date(todo.dueDate)
-  const reminderMinutes = todo.reminderMinutes ?? 1440
-  const reminderTime = new Date(dueDate.getTime() - reminderMinutes * 60000)
+// Helper function for calculating the next reminder time (used in tests)
+export function calculateReminderTime(todo: ReminderTask): Date | null {
+  return nextReminderTime(todo)
+}
 
-  return now >= reminderTime && now < dueDate
+// Helper function for checking if a reminder should fire (used in tests)
+export function shouldFireReminder(todo: ReminderTask, now: Date): boolean {
+  return findDueReminder(todo, now) !== null
 }